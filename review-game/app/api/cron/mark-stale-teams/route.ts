@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Vercel Cron endpoint for marking silent teams disconnected
+ *
+ * This endpoint is called by Vercel Cron to mark approved teams in running
+ * games as disconnected once their devices stop sending heartbeats.
+ * Configure in vercel.json with:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/mark-stale-teams",
+ *     "schedule": "* * * * *"
+ *   }]
+ * }
+ *
+ * Security: Protected by CRON_SECRET environment variable
+ *
+ * @module app/api/cron/mark-stale-teams
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { timingSafeEqual } from 'crypto';
+import { logger } from '@/lib/logger';
+import { PRESENCE } from '@/lib/constants/game';
+
+/**
+ * POST /api/cron/mark-stale-teams
+ *
+ * Called by Vercel Cron to mark teams without a heartbeat for
+ * PRESENCE.DISCONNECT_AFTER_SECONDS as disconnected
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Verify this request is from Vercel Cron
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      logger.error('CRON_SECRET not configured', new Error('Missing CRON_SECRET'), {
+        operation: 'markStaleTeamsCron',
+      });
+
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const expectedAuth = `Bearer ${cronSecret}`;
+
+    // Use timing-safe comparison to prevent timing attacks
+    const isValid = authHeader &&
+      authHeader.length === expectedAuth.length &&
+      timingSafeEqual(
+        Buffer.from(authHeader),
+        Buffer.from(expectedAuth)
+      );
+
+    if (!isValid) {
+      logger.error('Unauthorized cron request', new Error('Invalid CRON_SECRET'), {
+        operation: 'markStaleTeamsCron',
+        hasAuthHeader: !!authHeader,
+      });
+
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Support both NEXT_PUBLIC_SUPABASE_URL (Vercel) and SUPABASE_URL (GitHub Actions)
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      logger.error('Missing Supabase credentials', new Error('Missing environment variables'), {
+        operation: 'markStaleTeamsCron',
+        hasUrl: !!supabaseUrl,
+        hasKey: !!supabaseServiceKey,
+      });
+
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const { data, error } = await supabase.rpc('mark_stale_teams_disconnected', {
+      p_stale_seconds: PRESENCE.DISCONNECT_AFTER_SECONDS,
+    });
+
+    if (error) {
+      logger.error('Failed to mark stale teams', error instanceof Error ? error : new Error(String(error)), {
+        operation: 'markStaleTeamsCron',
+        errorCode: error.code,
+        errorMessage: error.message,
+      });
+
+      return NextResponse.json(
+        { error: 'Sweep failed', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    const disconnectedCount = typeof data === 'number' ? data : 0;
+
+    if (disconnectedCount > 0) {
+      logger.info('Marked stale teams disconnected', {
+        operation: 'markStaleTeamsCron',
+        disconnectedCount,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      disconnectedCount,
+    });
+  } catch (error) {
+    logger.error('Error in mark stale teams cron', error instanceof Error ? error : new Error(String(error)), {
+      operation: 'markStaleTeamsCron',
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/mark-stale-teams
+ *
+ * Vercel Cron issues GET requests; same authentication as POST
+ */
+export async function GET(req: NextRequest) {
+  return POST(req);
+}
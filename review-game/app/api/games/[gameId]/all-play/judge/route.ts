@@ -0,0 +1,145 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { GAME_BOARD } from '@/lib/constants/game';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/all-play/judge
+ * Marks one team's all-play response right or wrong.
+ *
+ * Body: { teamId: string, questionId: string, isCorrect: boolean, points: number }
+ * points is the clue's value as shown on the board (doubled in Double Jeopardy).
+ *
+ * Verifies:
+ * - User owns the game (enforced by RPC)
+ * - Team has submitted a response that has not been marked yet (enforced by RPC)
+ *
+ * Actions:
+ * - Correct: adds points to the team score and records an 'all_play_correct'
+ *   score event, in the same transaction as marking the response
+ * - Incorrect: marks the response only; the score is unchanged
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, questionId, isCorrect, points } = body;
+
+    if (
+      typeof teamId !== 'string' || !isValidUUID(teamId) ||
+      typeof questionId !== 'string' || !isValidUUID(questionId) ||
+      typeof isCorrect !== 'boolean'
+    ) {
+      return NextResponse.json(
+        { error: 'teamId, questionId and isCorrect (boolean) are required' },
+        { status: 400 }
+      );
+    }
+
+    // Largest ladder value, doubled in Double Jeopardy
+    if (!Number.isInteger(points) || points <= 0 || points > GAME_BOARD.MAX_POINT_VALUE * 2) {
+      return NextResponse.json(
+        { error: 'points must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const { data: result, error: judgeError } = await supabase
+      .rpc('judge_clue_response', {
+        p_game_id: gameId,
+        p_team_id: teamId,
+        p_question_id: questionId,
+        p_is_correct: isCorrect,
+        p_points: points,
+        p_teacher_id: user.id,
+      });
+
+    if (judgeError) {
+      logger.error('Database error while marking all-play response', judgeError, {
+        operation: 'judgeAllPlayResponse',
+        gameId,
+        teamId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to mark response' },
+        { status: 500 }
+      );
+    }
+
+    if (!Array.isArray(result) || result.length === 0) {
+      logger.error('Invalid result from judge_clue_response', new Error('Empty result'), {
+        operation: 'judgeAllPlayResponse',
+        gameId,
+        teamId,
+        result,
+      });
+      return NextResponse.json(
+        { error: 'Failed to mark response' },
+        { status: 500 }
+      );
+    }
+
+    const judgeResult = result[0];
+
+    if (!judgeResult.success) {
+      const statusCode = judgeResult.error_message === 'Unauthorized'
+        ? 403
+        : judgeResult.error_message === 'Response has already been marked'
+          ? 409
+          : 400;
+      return NextResponse.json(
+        { error: judgeResult.error_message || 'Failed to mark response' },
+        { status: statusCode }
+      );
+    }
+
+    logger.info('All-play response marked', {
+      operation: 'judgeAllPlayResponse',
+      gameId,
+      teamId,
+      questionId,
+      isCorrect,
+      scoreChange: judgeResult.score_change,
+    });
+
+    return NextResponse.json({
+      success: true,
+      teamId,
+      isCorrect,
+      scoreChange: judgeResult.score_change,
+      newScore: judgeResult.new_score,
+    });
+  } catch (error) {
+    logger.error('Mark all-play response failed', error, {
+      operation: 'judgeAllPlayResponse',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
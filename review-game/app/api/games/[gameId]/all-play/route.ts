@@ -0,0 +1,113 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { matchAnswer } from '@/lib/utils/answerMatcher';
+import { getGameBankIds } from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { AllPlayResponse } from '@/types/game';
+
+/**
+ * GET /api/games/[gameId]/all-play?questionId=...
+ * Returns every team's written response to an all-play clue for the teacher's grid.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Response: { questionId: string, responses: AllPlayResponse[] } in submission order.
+ * Each response carries a matcher suggestion against the question's answer
+ * and accepted alternates.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+    const questionId = req.nextUrl.searchParams.get('questionId');
+
+    if (!isValidUUID(gameId) || !questionId || !isValidUUID(questionId)) {
+      return NextResponse.json(
+        { error: 'Invalid game or question ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, bank_id, double_jeopardy_bank_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // clue_responses has no RLS policies; read it with the service role now
+    // that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+
+    const { data: question, error: questionError } = await serviceClient
+      .from('questions')
+      .select('answer_text, accepted_answers')
+      .eq('id', questionId)
+      .in('bank_id', getGameBankIds(game))
+      .maybeSingle();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found in this game' }, { status: 404 });
+    }
+
+    const { data: rows, error: responsesError } = await serviceClient
+      .from('clue_responses')
+      .select('team_id, answer_text, submitted_at, is_correct')
+      .eq('game_id', gameId)
+      .eq('question_id', questionId)
+      .order('submitted_at', { ascending: true });
+
+    if (responsesError) {
+      logger.error('Failed to read all-play responses', responsesError, {
+        operation: 'getAllPlayResponses',
+        gameId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load responses' },
+        { status: 500 }
+      );
+    }
+
+    const responses: AllPlayResponse[] = (rows ?? []).map((row) => ({
+      teamId: row.team_id,
+      answer: row.answer_text,
+      submittedAt: row.submitted_at,
+      isCorrect: row.is_correct,
+      match: matchAnswer(row.answer_text, question.answer_text, question.accepted_answers),
+    }));
+
+    return NextResponse.json({ questionId, responses }, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Fetch all-play responses failed', error, {
+      operation: 'getAllPlayResponses',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
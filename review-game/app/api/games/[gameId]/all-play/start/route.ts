@@ -0,0 +1,148 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { getGameBankIds } from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/all-play/start
+ * Opens the current clue for written responses from every team.
+ *
+ * Body: { questionId: string }
+ *
+ * Verifies:
+ * - User owns the game
+ * - Game is active and the question belongs to one of the game's banks
+ *
+ * Actions:
+ * - Sets games.all_play_question_id and all_play_closes_at (now + the game's
+ *   timer, or NULL when the timer is off)
+ * - Deletes earlier responses to the clue (e.g. from before Play Again)
+ *
+ * The caller broadcasts 'all-play-started' to students after this succeeds.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { questionId } = body;
+
+    if (typeof questionId !== 'string' || !isValidUUID(questionId)) {
+      return NextResponse.json(
+        { error: 'A valid questionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, bank_id, double_jeopardy_bank_id, timer_enabled, timer_seconds')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('id')
+      .eq('id', questionId)
+      .in('bank_id', getGameBankIds(game))
+      .maybeSingle();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found in this game' }, { status: 404 });
+    }
+
+    // clue_responses has no RLS policies; clear it with the service role now
+    // that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const { error: deleteError } = await serviceClient
+      .from('clue_responses')
+      .delete()
+      .eq('game_id', gameId)
+      .eq('question_id', questionId);
+
+    if (deleteError) {
+      logger.error('Failed to clear earlier all-play responses', deleteError, {
+        operation: 'startAllPlay',
+        gameId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start all-play' },
+        { status: 500 }
+      );
+    }
+
+    const closesAt = game.timer_enabled && game.timer_seconds
+      ? new Date(Date.now() + game.timer_seconds * 1000).toISOString()
+      : null;
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({
+        all_play_question_id: questionId,
+        all_play_closes_at: closesAt,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (updateError) {
+      logger.error('Failed to start all-play', updateError, {
+        operation: 'startAllPlay',
+        gameId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start all-play' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('All-play started', {
+      operation: 'startAllPlay',
+      gameId,
+      questionId,
+    });
+
+    return NextResponse.json({ questionId, closesAt });
+  } catch (error) {
+    logger.error('Start all-play failed', error, {
+      operation: 'startAllPlay',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/all-play/submit.
+ *
+ * Tests validation, the two-client security invariant (service client is only
+ * constructed after device ownership is verified), the submission deadline and
+ * that a marked response cannot be changed.
+ *
+ * Integration / database behaviour is covered by E2E tests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { makeQueryChain } from '@/lib/test-utils/supabaseQuery';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockVerifyDeviceOwnsTeam = vi.fn();
+const mockGetDeviceIdFromRequest = vi.fn().mockReturnValue('device-abc');
+const mockCreateAdminServerClient = vi.fn();
+const mockCreateAdminServiceClient = vi.fn();
+const mockBroadcastToChannel = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: () => mockCreateAdminServerClient(),
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/auth/device', () => ({
+  verifyDeviceOwnsTeam: (...args: unknown[]) => mockVerifyDeviceOwnsTeam(...args),
+  getDeviceIdFromRequest: (req: unknown) => mockGetDeviceIdFromRequest(req),
+}));
+
+vi.mock('@/lib/supabase/broadcast', () => ({
+  broadcastToChannel: (...args: unknown[]) => mockBroadcastToChannel(...args),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const VALID_TEAM_ID = '11111111-2222-3333-4444-555555555555';
+const VALID_QUESTION_ID = 'ffffffff-eeee-dddd-cccc-bbbbbbbbbbbb';
+const NOW = 1_800_000_000_000;
+
+function makeRequest(gameId: string, body: object) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/all-play/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Device-ID': 'device-abc',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+function makeBody(overrides: object = {}) {
+  return { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID, answer: 'Paris', ...overrides };
+}
+
+interface ServiceClientOptions {
+  currentQuestionId?: string | null;
+  allPlayQuestionId?: string | null;
+  closesAt?: number | null;
+  updatedRows?: { id: string }[];
+  insertError?: { code: string } | null;
+}
+
+function mockServiceClient({
+  currentQuestionId = VALID_QUESTION_ID,
+  allPlayQuestionId = VALID_QUESTION_ID,
+  closesAt = NOW + 10000,
+  updatedRows = [],
+  insertError = null,
+}: ServiceClientOptions = {}) {
+  const insert = vi.fn().mockResolvedValue({ error: insertError });
+  const responsesChain = { ...makeQueryChain({ data: updatedRows, error: null }), insert };
+  const from = vi.fn((table: string) => {
+    if (table === 'games') {
+      return makeQueryChain({
+        data: {
+          status: 'active',
+          current_question_id: currentQuestionId,
+          all_play_question_id: allPlayQuestionId,
+          all_play_closes_at: closesAt === null ? null : new Date(closesAt).toISOString(),
+        },
+        error: null,
+      });
+    }
+    return responsesChain;
+  });
+  mockCreateAdminServiceClient.mockReturnValue({ from });
+  return { from, insert, responsesChain };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/all-play/submit', () => {
+  // Lazily import after mocks are set up
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockCreateAdminServerClient.mockResolvedValue({});
+    mockVerifyDeviceOwnsTeam.mockResolvedValue(true);
+    mockBroadcastToChannel.mockResolvedValue(true);
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns 400 when the answer is blank', async () => {
+    mockServiceClient();
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody({ answer: '   ' })), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 400 when the answer is too long', async () => {
+    mockServiceClient();
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody({ answer: 'x'.repeat(501) })), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(400);
+  });
+
+  it('does not construct the service client when the device does not own the team', async () => {
+    mockVerifyDeviceOwnsTeam.mockResolvedValue(false);
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(403);
+    expect(mockCreateAdminServiceClient).not.toHaveBeenCalled();
+  });
+
+  it('records the trimmed answer and broadcasts the submission without it', async () => {
+    const { insert } = mockServiceClient();
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody({ answer: '  Paris  ' })), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      team_id: VALID_TEAM_ID,
+      question_id: VALID_QUESTION_ID,
+      answer_text: 'Paris',
+    }));
+    expect(mockBroadcastToChannel).toHaveBeenCalledWith(
+      `buzzer:${VALID_GAME_ID}`,
+      'all-play-response-submitted',
+      { questionId: VALID_QUESTION_ID, teamId: VALID_TEAM_ID }
+    );
+  });
+
+  it('replaces an unmarked answer instead of inserting', async () => {
+    const { insert } = mockServiceClient({ updatedRows: [{ id: 'response-1' }] });
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(200);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 once the answer has been marked', async () => {
+    mockServiceClient({ insertError: { code: '23505' } });
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(409);
+    expect(mockBroadcastToChannel).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the clue is not collecting responses', async () => {
+    mockServiceClient({ allPlayQuestionId: null });
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(409);
+  });
+
+  it('returns 409 once the clue has been closed on the board', async () => {
+    mockServiceClient({ currentQuestionId: null });
+    const res = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(res.status).toBe(409);
+  });
+
+  it('accepts answers within the grace period and rejects later ones', async () => {
+    mockServiceClient({ closesAt: NOW - 1000 });
+    const onTime = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(onTime.status).toBe(200);
+
+    mockServiceClient({ closesAt: NOW - 5000 });
+    const late = await POST(makeRequest(VALID_GAME_ID, makeBody()), makeContext(VALID_GAME_ID));
+    expect(late.status).toBe(409);
+    const body = await late.json();
+    expect(body.error).toMatch(/Time is up/);
+  });
+});
@@ -0,0 +1,208 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { verifyDeviceOwnsTeam, getDeviceIdFromRequest } from '@/lib/auth/device';
+import { broadcastToChannel } from '@/lib/supabase/broadcast';
+import { ALL_PLAY } from '@/lib/constants/game';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/all-play/submit
+ * Records a team's written response to the open all-play clue.
+ *
+ * Body: { teamId: string, questionId: string, answer: string }
+ *
+ * Verifies:
+ * - Team belongs to game (device ID ownership check)
+ * - Game is active and the clue is open and collecting all-play responses
+ * - The deadline (plus ALL_PLAY.SUBMIT_GRACE_MS) has not passed
+ * - Answer is non-empty and <= ALL_PLAY.ANSWER_MAX_LENGTH chars
+ *
+ * Actions:
+ * - Inserts the team's clue_responses row, or replaces its answer if the
+ *   teacher has not marked it yet
+ * - Broadcasts 'all-play-response-submitted' ({ questionId, teamId }, without
+ *   the answer) on buzzer:${gameId}
+ *
+ * Security: createAdminServiceClient (service role) is only constructed AFTER
+ * device ownership passes, preserving the two-client invariant.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  const receivedAt = Date.now();
+
+  try {
+    const supabase = await createAdminServerClient();
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, questionId, answer } = body;
+
+    if (!teamId || !questionId || answer === undefined) {
+      return NextResponse.json(
+        { error: 'teamId, questionId and answer are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(teamId) || !isValidUUID(questionId)) {
+      return NextResponse.json(
+        { error: 'Invalid team or question ID format' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify device owns this team before constructing service client
+    const deviceId = getDeviceIdFromRequest(req);
+    const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId, gameId);
+
+    if (!isAuthorized) {
+      logger.warn('Unauthorized all-play submission attempt', {
+        operation: 'submitAllPlayResponse',
+        gameId,
+        teamId,
+        deviceId,
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized: This device does not control this team' },
+        { status: 403 }
+      );
+    }
+
+    if (typeof answer !== 'string' || answer.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Answer is required' },
+        { status: 400 }
+      );
+    }
+
+    const answerText = answer.trim();
+    if (answerText.length > ALL_PLAY.ANSWER_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Answer must be ${ALL_PLAY.ANSWER_MAX_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const serviceClient = createAdminServiceClient();
+
+    const { data: game, error: gameError } = await serviceClient
+      .from('games')
+      .select('status, current_question_id, all_play_question_id, all_play_closes_at')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+    // all_play_question_id is left behind when the clue closes, so the clue
+    // must also still be open on the board
+    if (game.all_play_question_id !== questionId || game.current_question_id !== questionId) {
+      return NextResponse.json(
+        { error: 'This clue is not accepting written answers' },
+        { status: 409 }
+      );
+    }
+    if (
+      game.all_play_closes_at &&
+      receivedAt > new Date(game.all_play_closes_at).getTime() + ALL_PLAY.SUBMIT_GRACE_MS
+    ) {
+      return NextResponse.json({ error: 'Time is up for this clue' }, { status: 409 });
+    }
+
+    const submittedAt = new Date(receivedAt).toISOString();
+
+    // Replace an unmarked answer first; a marked one is left alone
+    const { data: updated, error: updateError } = await serviceClient
+      .from('clue_responses')
+      .update({ answer_text: answerText, submitted_at: submittedAt })
+      .eq('game_id', gameId)
+      .eq('team_id', teamId)
+      .eq('question_id', questionId)
+      .is('is_correct', null)
+      .select('id');
+
+    if (updateError) {
+      logger.error('Failed to update all-play response', updateError, {
+        operation: 'submitAllPlayResponse',
+        gameId,
+        teamId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to submit' },
+        { status: 500 }
+      );
+    }
+
+    if (!updated || updated.length === 0) {
+      const { error: insertError } = await serviceClient
+        .from('clue_responses')
+        .insert({
+          game_id: gameId,
+          team_id: teamId,
+          question_id: questionId,
+          answer_text: answerText,
+          submitted_at: submittedAt,
+        });
+
+      // A unique violation here means the response exists and has been marked
+      if (insertError?.code === '23505') {
+        return NextResponse.json(
+          { error: 'Your answer has already been marked' },
+          { status: 409 }
+        );
+      }
+      if (insertError) {
+        logger.error('Failed to record all-play response', insertError, {
+          operation: 'submitAllPlayResponse',
+          gameId,
+          teamId,
+          questionId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to submit' },
+          { status: 500 }
+        );
+      }
+    }
+
+    await broadcastToChannel(`buzzer:${gameId}`, 'all-play-response-submitted', { questionId, teamId });
+
+    logger.info('All-play response submitted', {
+      operation: 'submitAllPlayResponse',
+      gameId,
+      teamId,
+      questionId,
+      answerLength: answerText.length,
+    });
+
+    return NextResponse.json({
+      success: true,
+      teamId,
+      questionId,
+      submittedAt,
+    });
+  } catch (error) {
+    logger.error('Submit all-play response failed', error, {
+      operation: 'submitAllPlayResponse',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { getGameBankIds } from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/buzz/arm
+ * Arms buzzers for the open clue once the teacher has finished reading it.
+ *
+ * Body: { questionId: string }
+ *
+ * Verifies:
+ * - User owns the game
+ * - Game is active and the question belongs to one of the game's banks
+ *
+ * Actions:
+ * - Sets games.buzzers_armed_question_id and buzzers_armed_at (server time).
+ *   Buzzes for this question pressed before buzzers_armed_at are treated as
+ *   early by POST /api/games/[gameId]/buzz.
+ *
+ * The caller broadcasts 'buzzers-armed' to students after this succeeds.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { questionId } = body;
+
+    if (typeof questionId !== 'string' || !isValidUUID(questionId)) {
+      return NextResponse.json(
+        { error: 'A valid questionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, bank_id, double_jeopardy_bank_id, buzzer_lockout_ms')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from('questions')
+      .select('id')
+      .eq('id', questionId)
+      .in('bank_id', getGameBankIds(game))
+      .maybeSingle();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found in this game' }, { status: 404 });
+    }
+
+    const armedAt = new Date().toISOString();
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({
+        buzzers_armed_question_id: questionId,
+        buzzers_armed_at: armedAt,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (updateError) {
+      logger.error('Failed to arm buzzers', updateError, {
+        operation: 'armBuzzers',
+        gameId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to arm buzzers' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Buzzers armed', {
+      operation: 'armBuzzers',
+      gameId,
+      questionId,
+    });
+
+    return NextResponse.json({
+      questionId,
+      armedAt,
+      lockoutMs: game.buzzer_lockout_ms,
+    });
+  } catch (error) {
+    logger.error('Arm buzzers failed', error, {
+      operation: 'armBuzzers',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/games/[gameId]/buzz/clock
+ * Returns the server clock so student devices can estimate their clock offset
+ * before buzzing (see estimateClockOffset in lib/utils/buzzTiming.ts).
+ *
+ * Unauthenticated: exposes nothing but the current time, and the game ID only
+ * scopes the URL alongside the buzz route.
+ */
+export async function GET() {
+  return NextResponse.json(
+    { serverTime: Date.now() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
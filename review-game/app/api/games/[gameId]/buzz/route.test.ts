@@ -0,0 +1,427 @@
+/**
+ * @fileoverview Unit tests for POST and DELETE /api/games/[gameId]/buzz.
+ *
+ * Tests validation, the two-client security invariant (service client is only
+ * constructed after device ownership is verified), that only the open clue
+ * takes buzzes, that the effective buzz time stored and returned comes from
+ * the server, not the raw client clock, the early-buzz lockout, that
+ * clearing the queue keeps dismissed buzzes, and that a reset lets a dismissed
+ * team buzz on the same clue again.
+ *
+ * Integration / database behaviour is covered by E2E tests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { makeQueryChain } from '@/lib/test-utils/supabaseQuery';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockVerifyDeviceOwnsTeam = vi.fn();
+const mockGetDeviceIdFromRequest = vi.fn().mockReturnValue('device-abc');
+const mockCreateAdminServerClient = vi.fn();
+const mockCreateAdminServiceClient = vi.fn();
+const mockBroadcastToChannel = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: () => mockCreateAdminServerClient(),
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/auth/device', () => ({
+  verifyDeviceOwnsTeam: (...args: unknown[]) => mockVerifyDeviceOwnsTeam(...args),
+  getDeviceIdFromRequest: (req: unknown) => mockGetDeviceIdFromRequest(req),
+}));
+
+vi.mock('@/lib/supabase/broadcast', () => ({
+  broadcastToChannel: (...args: unknown[]) => mockBroadcastToChannel(...args),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const VALID_TEAM_ID = '11111111-2222-3333-4444-555555555555';
+const OTHER_TEAM_ID = '66666666-7777-8888-9999-000000000000';
+const VALID_QUESTION_ID = 'ffffffff-eeee-dddd-cccc-bbbbbbbbbbbb';
+const OTHER_QUESTION_ID = '99999999-8888-7777-6666-555555555555';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+const NOW = 1_800_000_000_000;
+
+function makeRequest(gameId: string, body: object) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/buzz`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Device-ID': 'device-abc',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+interface ServiceClientOptions {
+  gameStatus?: string;
+  openQuestionId?: string | null;
+  armedAt?: number | null;
+  lockedUntil?: number | null;
+  insertError?: { code: string } | null;
+  queueRows?: { team_id: string; effective_at: string; server_received_at: string }[];
+}
+
+function mockServiceClient({
+  gameStatus = 'active',
+  openQuestionId = VALID_QUESTION_ID,
+  armedAt = NOW - 5000,
+  lockedUntil = null,
+  insertError = null,
+  queueRows = [],
+}: ServiceClientOptions = {}) {
+  const insert = vi.fn().mockResolvedValue({ error: insertError });
+  const teamsChain = makeQueryChain({
+    data: { buzz_locked_until: lockedUntil === null ? null : new Date(lockedUntil).toISOString() },
+    error: null,
+  });
+  const from = vi.fn((table: string) => {
+    if (table === 'games') {
+      return makeQueryChain({
+        data: {
+          status: gameStatus,
+          current_question_id: openQuestionId,
+          buzzers_armed_question_id: armedAt === null ? null : VALID_QUESTION_ID,
+          buzzers_armed_at: armedAt === null ? null : new Date(armedAt).toISOString(),
+          buzzer_lockout_ms: 500,
+        },
+        error: null,
+      });
+    }
+    if (table === 'teams') {
+      return teamsChain;
+    }
+    return { ...makeQueryChain({ data: queueRows, error: null }), insert };
+  });
+  mockCreateAdminServiceClient.mockReturnValue({ from });
+  return { from, insert, teamsChain };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/buzz', () => {
+  // Lazily import after mocks are set up
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockCreateAdminServerClient.mockResolvedValue({});
+    mockVerifyDeviceOwnsTeam.mockResolvedValue(true);
+    mockBroadcastToChannel.mockResolvedValue(true);
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('input validation (pre-auth)', () => {
+    it('returns 400 for invalid game UUID', async () => {
+      const res = await POST(
+        makeRequest('not-a-uuid', { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext('not-a-uuid')
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 400 when questionId is missing', async () => {
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toMatch(/required/i);
+    });
+
+    it('does not construct service client on validation failure', async () => {
+      await POST(makeRequest(VALID_GAME_ID, {}), makeContext(VALID_GAME_ID));
+      expect(mockCreateAdminServiceClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('device authorization', () => {
+    it('returns 403 and never constructs service client when device does not own team', async () => {
+      mockVerifyDeviceOwnsTeam.mockResolvedValue(false);
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(403);
+      expect(mockCreateAdminServiceClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('arbitration', () => {
+    it('returns 409 when the game is not active', async () => {
+      mockServiceClient({ gameStatus: 'setup' });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(409);
+    });
+
+    it('returns 409 without queueing or locking out when the clue is not open', async () => {
+      const { insert, teamsChain } = mockServiceClient({ openQuestionId: OTHER_QUESTION_ID });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.error).toMatch(/not open/i);
+      expect(body.lockedOut).toBeUndefined();
+      expect(insert).not.toHaveBeenCalled();
+      expect(teamsChain.update).not.toHaveBeenCalled();
+    });
+
+    it('ignores a client timestamp that claims a press far in the past', async () => {
+      const { insert } = mockServiceClient();
+      await POST(
+        makeRequest(VALID_GAME_ID, {
+          teamId: VALID_TEAM_ID,
+          questionId: VALID_QUESTION_ID,
+          clientTimestamp: NOW - 60_000,
+          clockOffsetMs: 0,
+        }),
+        makeContext(VALID_GAME_ID)
+      );
+      const row = insert.mock.calls[0][0];
+      expect(row.server_received_at).toBe(new Date(NOW).toISOString());
+      expect(new Date(row.effective_at).getTime()).toBeGreaterThanOrEqual(NOW - 1000);
+    });
+
+    it('orders by receive time when the device has no clock offset', async () => {
+      const { insert } = mockServiceClient();
+      await POST(
+        makeRequest(VALID_GAME_ID, {
+          teamId: VALID_TEAM_ID,
+          questionId: VALID_QUESTION_ID,
+          clientTimestamp: NOW - 500,
+        }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(insert.mock.calls[0][0].effective_at).toBe(new Date(NOW).toISOString());
+    });
+
+    it('returns the server queue with the team position and broadcasts it', async () => {
+      mockServiceClient({
+        queueRows: [
+          { team_id: OTHER_TEAM_ID, effective_at: new Date(NOW - 100).toISOString(), server_received_at: new Date(NOW - 50).toISOString() },
+          { team_id: VALID_TEAM_ID, effective_at: new Date(NOW).toISOString(), server_received_at: new Date(NOW).toISOString() },
+        ],
+      });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.position).toBe(1);
+      expect(body.queue).toEqual([
+        { teamId: OTHER_TEAM_ID, timestamp: NOW - 100 },
+        { teamId: VALID_TEAM_ID, timestamp: NOW },
+      ]);
+      expect(mockBroadcastToChannel).toHaveBeenCalledWith(
+        `buzzer:${VALID_GAME_ID}`,
+        'buzz-queue-updated',
+        expect.objectContaining({ questionId: VALID_QUESTION_ID })
+      );
+    });
+
+    it('treats a repeat buzz as a no-op without broadcasting', async () => {
+      mockServiceClient({ insertError: { code: '23505' } });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.alreadyBuzzed).toBe(true);
+      expect(mockBroadcastToChannel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('early-buzz lockout', () => {
+    it('locks out and does not queue a buzz before buzzers are armed', async () => {
+      const { insert, teamsChain } = mockServiceClient({ armedAt: null });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.lockedOut).toBe(true);
+      expect(body.lockoutRemainingMs).toBe(500);
+      expect(teamsChain.update).toHaveBeenCalledWith({
+        buzz_locked_until: new Date(NOW + 500).toISOString(),
+      });
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects a buzz from a team still inside its lockout', async () => {
+      const { insert, teamsChain } = mockServiceClient({ lockedUntil: NOW + 200 });
+      const res = await POST(
+        makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }),
+        makeContext(VALID_GAME_ID)
+      );
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.lockoutRemainingMs).toBe(200);
+      expect(teamsChain.update).not.toHaveBeenCalled();
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('DELETE /api/games/[gameId]/buzz', () => {
+  let DELETE: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+
+  const makeDeleteRequest = (params: Record<string, string> = {}) =>
+    new NextRequest(
+      `http://localhost/api/games/${VALID_GAME_ID}/buzz?${new URLSearchParams(params).toString()}`,
+      { method: 'DELETE' }
+    );
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockCreateAdminServerClient.mockResolvedValue({
+      auth: {
+        getUser: () => Promise.resolve({ data: { user: { id: TEACHER_USER_ID } }, error: null }),
+      },
+      from: () => makeQueryChain({ data: { teacher_id: TEACHER_USER_ID }, error: null }),
+    });
+    mockBroadcastToChannel.mockResolvedValue(true);
+    const routeModule = await import('./route');
+    DELETE = routeModule.DELETE;
+    POST = routeModule.POST;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('clears only the live queue, keeping dismissed buzzes, and disarms buzzers', async () => {
+    const buzzesChain = makeQueryChain({ data: null, error: null });
+    const gamesChain = makeQueryChain({ data: null, error: null });
+    mockCreateAdminServiceClient.mockReturnValue({
+      from: (table: string) => (table === 'buzzes' ? buzzesChain : gamesChain),
+    });
+
+    const res = await DELETE(makeDeleteRequest(), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(buzzesChain.delete).toHaveBeenCalled();
+    expect(buzzesChain.eq).toHaveBeenCalledWith('game_id', VALID_GAME_ID);
+    expect(buzzesChain.is).toHaveBeenCalledWith('dismissed_at', null);
+    expect(gamesChain.update).toHaveBeenCalledWith({ buzzers_armed_question_id: null, buzzers_armed_at: null });
+    expect(await res.json()).toEqual(expect.objectContaining({ questionId: null, queue: [] }));
+  });
+
+  it('dismisses one team without deleting its buzz', async () => {
+    const buzzesChain = makeQueryChain({ data: [], error: null });
+    mockCreateAdminServiceClient.mockReturnValue({ from: () => buzzesChain });
+
+    const res = await DELETE(
+      makeDeleteRequest({ questionId: VALID_QUESTION_ID, teamId: VALID_TEAM_ID }),
+      makeContext(VALID_GAME_ID)
+    );
+
+    expect(res.status).toBe(200);
+    expect(buzzesChain.update).toHaveBeenCalledWith({ dismissed_at: expect.any(String) });
+    expect(buzzesChain.delete).not.toHaveBeenCalled();
+  });
+
+  it('lets a team dismissed on a clue buzz on it again after a reset', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockVerifyDeviceOwnsTeam.mockResolvedValue(true);
+
+    // One buzz per team per clue, as enforced by uq_buzzes_game_question_team
+    const buzzes = new Map<string, { dismissed: boolean }>([[VALID_TEAM_ID, { dismissed: true }]]);
+    const buzzesChains: Record<string, ReturnType<typeof vi.fn>>[] = [];
+    mockCreateAdminServiceClient.mockReturnValue({
+      from: (table: string) => {
+        if (table === 'games') {
+          return makeQueryChain({
+            data: {
+              status: 'active',
+              current_question_id: VALID_QUESTION_ID,
+              buzzers_armed_question_id: VALID_QUESTION_ID,
+              buzzers_armed_at: new Date(NOW - 5000).toISOString(),
+              buzzer_lockout_ms: 500,
+            },
+            error: null,
+          });
+        }
+        if (table === 'teams') {
+          return makeQueryChain({ data: { buzz_locked_until: null }, error: null });
+        }
+        const liveRows = [...buzzes]
+          .filter(([, buzz]) => !buzz.dismissed)
+          .map(([teamId]) => ({
+            team_id: teamId,
+            effective_at: new Date(NOW).toISOString(),
+            server_received_at: new Date(NOW).toISOString(),
+          }));
+        const chain = makeQueryChain({ data: liveRows, error: null }) as Record<string, ReturnType<typeof vi.fn>>;
+        chain.insert = vi.fn((row: { team_id: string }) => {
+          if (buzzes.has(row.team_id)) {
+            return Promise.resolve({ error: { code: '23505' } });
+          }
+          buzzes.set(row.team_id, { dismissed: false });
+          return Promise.resolve({ error: null });
+        });
+        chain.delete = vi.fn(() => {
+          buzzes.clear();
+          return chain;
+        });
+        buzzesChains.push(chain);
+        return chain;
+      },
+    });
+    const buzz = () =>
+      POST(makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, questionId: VALID_QUESTION_ID }), makeContext(VALID_GAME_ID));
+
+    const blocked = await (await buzz()).json();
+    expect(blocked).toEqual(expect.objectContaining({ alreadyBuzzed: true, position: null }));
+
+    const resetRes = await DELETE(makeDeleteRequest({ reset: 'true' }), makeContext(VALID_GAME_ID));
+    expect(resetRes.status).toBe(200);
+    const resetChain = buzzesChains.find((chain) => chain.delete.mock.calls.length > 0);
+    expect(resetChain?.is).not.toHaveBeenCalled();
+
+    mockBroadcastToChannel.mockClear();
+    const rebuzz = await (await buzz()).json();
+    expect(rebuzz).toEqual(expect.objectContaining({ alreadyBuzzed: false, position: 0 }));
+    expect(mockBroadcastToChannel).toHaveBeenCalledWith(
+      `buzzer:${VALID_GAME_ID}`,
+      'buzz-queue-updated',
+      expect.objectContaining({ questionId: VALID_QUESTION_ID })
+    );
+  });
+});
@@ -0,0 +1,417 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { readBuzzQueue } from '@/lib/api/buzzQueue';
+import { verifyDeviceOwnsTeam, getDeviceIdFromRequest } from '@/lib/auth/device';
+import { broadcastToChannel } from '@/lib/supabase/broadcast';
+import { computeEffectiveBuzzTime, evaluateBuzzLockout } from '@/lib/utils/buzzTiming';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { BuzzQueueUpdate } from '@/types/game';
+
+/**
+ * Pushes the authoritative queue to every client on buzzer:${gameId}.
+ */
+async function broadcastQueue(gameId: string, update: BuzzQueueUpdate): Promise<void> {
+  await broadcastToChannel(`buzzer:${gameId}`, 'buzz-queue-updated', { ...update });
+}
+
+/**
+ * Verifies the caller is the teacher who owns the game.
+ * Returns the error response to send, or null when the caller is authorised.
+ */
+async function authorizeTeacher(gameId: string): Promise<NextResponse | null> {
+  const supabase = await createAdminServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('teacher_id')
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+  }
+  if (game.teacher_id !== user.id) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/games/[gameId]/buzz
+ * Records a team's buzz and returns the server-ordered queue.
+ *
+ * Body: { teamId: string, questionId: string, clientTimestamp?: number, clockOffsetMs?: number }
+ *
+ * Verifies:
+ * - Team belongs to game (device ID ownership check)
+ * - Game is active and the question is the clue open on the board
+ *   (games.current_question_id, checked against the game's banks when it was opened)
+ * - Buzzers are armed for the question and the team is not locked out
+ *
+ * Actions:
+ * - Buzz before arming: sets teams.buzz_locked_until (games.buzzer_lockout_ms
+ *   from the press) and responds 409 with lockedOut and lockoutRemainingMs
+ * - Otherwise inserts a buzzes row; effective_at is derived from the server receive time,
+ *   the device's press time and its measured clock offset (see computeEffectiveBuzzTime)
+ * - A repeat buzz from the same team on the same clue is ignored
+ * - Broadcasts 'buzz-queue-updated' with the full queue on buzzer:${gameId}
+ *
+ * Security: createAdminServiceClient (service role) is only constructed AFTER
+ * device ownership passes, preserving the two-client invariant.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  // Captured before any awaits so DB latency does not count against the buzz
+  const receivedAt = Date.now();
+
+  try {
+    const supabase = await createAdminServerClient();
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, questionId, clientTimestamp, clockOffsetMs } = body;
+
+    if (!teamId || !questionId) {
+      return NextResponse.json(
+        { error: 'teamId and questionId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidUUID(teamId) || !isValidUUID(questionId)) {
+      return NextResponse.json(
+        { error: 'Invalid team or question ID format' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify device owns this team before constructing service client
+    const deviceId = getDeviceIdFromRequest(req);
+    const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId, gameId);
+
+    if (!isAuthorized) {
+      logger.warn('Unauthorized buzz attempt', {
+        operation: 'submitBuzz',
+        gameId,
+        teamId,
+        deviceId,
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized: This device does not control this team' },
+        { status: 403 }
+      );
+    }
+
+    // Timing fields are optional; anything non-numeric is dropped and the buzz
+    // is ordered by receive time alone
+    const reportedTimestamp = typeof clientTimestamp === 'number' ? clientTimestamp : null;
+    const reportedOffset = typeof clockOffsetMs === 'number' ? clockOffsetMs : null;
+
+    const serviceClient = createAdminServiceClient();
+
+    const { data: game, error: gameError } = await serviceClient
+      .from('games')
+      .select('status, current_question_id, buzzers_armed_question_id, buzzers_armed_at, buzzer_lockout_ms')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+
+    if (game.current_question_id !== questionId) {
+      return NextResponse.json({ error: 'Question is not open' }, { status: 409 });
+    }
+
+    const { data: team, error: teamError } = await serviceClient
+      .from('teams')
+      .select('buzz_locked_until')
+      .eq('id', teamId)
+      .single();
+
+    if (teamError || !team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    const effectiveAt = computeEffectiveBuzzTime({
+      receivedAt,
+      clientTimestamp: reportedTimestamp,
+      clockOffsetMs: reportedOffset,
+    });
+
+    const armedAt = game.buzzers_armed_question_id === questionId && game.buzzers_armed_at
+      ? new Date(game.buzzers_armed_at).getTime()
+      : null;
+
+    const decision = evaluateBuzzLockout({
+      effectiveAt,
+      armedAt,
+      lockedUntil: team.buzz_locked_until ? new Date(team.buzz_locked_until).getTime() : null,
+      lockoutMs: game.buzzer_lockout_ms,
+    });
+
+    if (decision.status !== 'accepted') {
+      if (decision.status === 'early') {
+        const { error: lockError } = await serviceClient
+          .from('teams')
+          .update({ buzz_locked_until: new Date(decision.lockedUntil).toISOString() })
+          .eq('id', teamId);
+
+        if (lockError) {
+          logger.error('Failed to record early-buzz lockout', lockError, {
+            operation: 'submitBuzz',
+            gameId,
+            teamId,
+          });
+        }
+
+        logger.info('Early buzz locked out', {
+          operation: 'submitBuzz',
+          gameId,
+          teamId,
+          questionId,
+          lockoutMs: game.buzzer_lockout_ms,
+        });
+      }
+
+      return NextResponse.json(
+        {
+          error: decision.status === 'early'
+            ? 'Buzzed before buzzers were armed'
+            : 'Locked out for buzzing early',
+          lockedOut: true,
+          lockoutRemainingMs: Math.max(0, decision.lockedUntil - Date.now()),
+        },
+        { status: 409 }
+      );
+    }
+
+    const { error: insertError } = await serviceClient
+      .from('buzzes')
+      .insert({
+        game_id: gameId,
+        team_id: teamId,
+        question_id: questionId,
+        device_id: deviceId,
+        client_timestamp: reportedTimestamp !== null ? Math.round(reportedTimestamp) : null,
+        clock_offset_ms: reportedOffset !== null ? Math.round(reportedOffset) : null,
+        server_received_at: new Date(receivedAt).toISOString(),
+        effective_at: new Date(effectiveAt).toISOString(),
+      });
+
+    // 23505 = unique violation: team already buzzed on this clue
+    const alreadyBuzzed = insertError?.code === '23505';
+
+    if (insertError && !alreadyBuzzed) {
+      logger.error('Failed to record buzz', insertError, {
+        operation: 'submitBuzz',
+        gameId,
+        teamId,
+        questionId,
+      });
+      return NextResponse.json({ error: 'Failed to record buzz' }, { status: 500 });
+    }
+
+    const queue = await readBuzzQueue(serviceClient, gameId, questionId);
+    if (!queue) {
+      return NextResponse.json({ error: 'Failed to read buzz queue' }, { status: 500 });
+    }
+
+    const revision = Date.now();
+
+    if (!alreadyBuzzed) {
+      await broadcastQueue(gameId, { questionId, queue, revision });
+    }
+
+    const position = queue.findIndex((entry) => entry.teamId === teamId);
+
+    return NextResponse.json({
+      questionId,
+      queue,
+      revision,
+      position: position === -1 ? null : position,
+      alreadyBuzzed,
+    });
+  } catch (error) {
+    logger.error('Submit buzz failed', error, {
+      operation: 'submitBuzz',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/games/[gameId]/buzz?questionId=...
+ * Returns the server-ordered queue for a clue so the teacher board can
+ * recover it after a refresh or reconnect.
+ *
+ * Verifies:
+ * - User owns the game
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+    const questionId = req.nextUrl.searchParams.get('questionId');
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json({ error: 'Invalid game ID format' }, { status: 400 });
+    }
+    if (!questionId || !isValidUUID(questionId)) {
+      return NextResponse.json({ error: 'A valid questionId is required' }, { status: 400 });
+    }
+
+    const authError = await authorizeTeacher(gameId);
+    if (authError) {
+      return authError;
+    }
+
+    const serviceClient = createAdminServiceClient();
+    const queue = await readBuzzQueue(serviceClient, gameId, questionId);
+    if (!queue) {
+      return NextResponse.json({ error: 'Failed to read buzz queue' }, { status: 500 });
+    }
+
+    return NextResponse.json({ questionId, queue, revision: Date.now() });
+  } catch (error) {
+    logger.error('Fetch buzz queue failed', error, {
+      operation: 'getBuzzQueue',
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/games/[gameId]/buzz?questionId=...&teamId=...&reset=true
+ * Clears or trims the buzz queue.
+ *
+ * - With teamId and questionId: dismisses that team's buzz (e.g. after an
+ *   incorrect answer). The team stays blocked from buzzing again on the clue.
+ * - Without teamId: deletes the live (undismissed) buzzes in the game and
+ *   disarms buzzers (clue closed). Dismissed buzzes are kept so those
+ *   teams stay blocked on their clue.
+ * - With reset=true: deletes every buzz in the game, dismissed ones included,
+ *   and disarms buzzers. Used by Play Again, which replays the same clues.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Actions:
+ * - Broadcasts 'buzz-queue-updated' with the remaining queue on buzzer:${gameId}
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+    const questionId = req.nextUrl.searchParams.get('questionId');
+    const teamId = req.nextUrl.searchParams.get('teamId');
+    const reset = req.nextUrl.searchParams.get('reset') === 'true';
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json({ error: 'Invalid game ID format' }, { status: 400 });
+    }
+    if (teamId && (!isValidUUID(teamId) || !questionId || !isValidUUID(questionId))) {
+      return NextResponse.json(
+        { error: 'Dismissing a buzz requires valid teamId and questionId' },
+        { status: 400 }
+      );
+    }
+
+    const authError = await authorizeTeacher(gameId);
+    if (authError) {
+      return authError;
+    }
+
+    const serviceClient = createAdminServiceClient();
+
+    if (teamId && questionId && !reset) {
+      const { error: dismissError } = await serviceClient
+        .from('buzzes')
+        .update({ dismissed_at: new Date().toISOString() })
+        .eq('game_id', gameId)
+        .eq('question_id', questionId)
+        .eq('team_id', teamId)
+        .is('dismissed_at', null);
+
+      if (dismissError) {
+        logger.error('Failed to dismiss buzz', dismissError, {
+          operation: 'dismissBuzz',
+          gameId,
+          questionId,
+          teamId,
+        });
+        return NextResponse.json({ error: 'Failed to dismiss buzz' }, { status: 500 });
+      }
+
+      const queue = await readBuzzQueue(serviceClient, gameId, questionId);
+      if (!queue) {
+        return NextResponse.json({ error: 'Failed to read buzz queue' }, { status: 500 });
+      }
+
+      const update: BuzzQueueUpdate = { questionId, queue, revision: Date.now() };
+      await broadcastQueue(gameId, update);
+      return NextResponse.json(update);
+    }
+
+    const clearQuery = serviceClient
+      .from('buzzes')
+      .delete()
+      .eq('game_id', gameId);
+    const { error: clearError } = reset ? await clearQuery : await clearQuery.is('dismissed_at', null);
+
+    if (clearError) {
+      logger.error('Failed to clear buzzes', clearError, {
+        operation: 'clearBuzzes',
+        gameId,
+      });
+      return NextResponse.json({ error: 'Failed to clear buzzes' }, { status: 500 });
+    }
+
+    const { error: disarmError } = await serviceClient
+      .from('games')
+      .update({ buzzers_armed_question_id: null, buzzers_armed_at: null })
+      .eq('id', gameId);
+
+    if (disarmError) {
+      logger.error('Failed to disarm buzzers', disarmError, {
+        operation: 'clearBuzzes',
+        gameId,
+      });
+    }
+
+    const update: BuzzQueueUpdate = { questionId: null, queue: [], revision: Date.now() };
+    await broadcastQueue(gameId, update);
+    return NextResponse.json(update);
+  } catch (error) {
+    logger.error('Clear buzz queue failed', error, {
+      operation: 'clearBuzzes',
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/daily-double/wager.
+ *
+ * The wager is checked against the game's wager rules on the server, so the
+ * tests cover the range each rule produces and that nothing is recorded for
+ * a wager outside it.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockGetUser = vi.fn();
+const mockGameSingle = vi.fn();
+const mockQuestions = vi.fn();
+const mockTeam = vi.fn();
+const mockGameUpdate = vi.fn();
+const mockUpsert = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: async () => ({
+    auth: { getUser: () => mockGetUser() },
+    from: (table: string) => {
+      if (table === 'questions') {
+        return {
+          select: () => ({
+            eq: () => ({
+              order: () => ({
+                order: () => mockQuestions(),
+              }),
+            }),
+          }),
+        };
+      }
+      if (table === 'teams') {
+        return {
+          select: () => ({
+            eq: () => ({
+              eq: () => ({
+                maybeSingle: () => mockTeam(),
+              }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: () => ({
+          eq: () => ({
+            single: () => mockGameSingle(),
+          }),
+        }),
+        update: (updates: unknown) => ({
+          eq: () => ({
+            eq: () => mockGameUpdate(updates),
+          }),
+        }),
+      };
+    },
+  }),
+  createAdminServiceClient: () => ({
+    from: () => ({
+      upsert: (row: unknown, options: unknown) => mockUpsert(row, options),
+    }),
+  }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const QUESTION_ID = '11111111-1111-4111-8111-111111111111';
+const TEAM_ID = '22222222-2222-4222-8222-222222222222';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+
+const makeGame = (overrides: Record<string, unknown> = {}) => ({
+  teacher_id: TEACHER_USER_ID,
+  status: 'active',
+  current_question_id: QUESTION_ID,
+  current_round: 1,
+  bank_id: 'bank-1',
+  double_jeopardy_bank_id: null,
+  daily_double_positions: [{ category: 0, position: 2 }],
+  board_categories: 1,
+  point_values: [100, 200, 300, 400, 500],
+  daily_double_min_wager: 5,
+  daily_double_max_wager: 1000,
+  daily_double_allow_negative: true,
+  ...overrides,
+});
+
+// One category of five clues; the Daily Double is the 300-point clue
+const makeQuestions = () => [100, 200, 300, 400, 500].map((value, position) => ({
+  id: position === 2 ? QUESTION_ID : `q-${position}`,
+  bank_id: 'bank-1',
+  category: 'Science',
+  question_text: `Question ${position}`,
+  answer_text: `Answer ${position}`,
+  point_value: value,
+  position,
+  image_url: null,
+  hint: null,
+}));
+
+function makeRequest(gameId: string, body: unknown) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/daily-double/wager`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+const wagerBody = (wager: unknown) => ({ questionId: QUESTION_ID, teamId: TEAM_ID, wager });
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/daily-double/wager', () => {
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: TEACHER_USER_ID } },
+      error: null,
+    });
+    mockGameSingle.mockResolvedValue({ data: makeGame(), error: null });
+    mockQuestions.mockResolvedValue({ data: makeQuestions(), error: null });
+    mockTeam.mockResolvedValue({ data: { id: TEAM_ID, score: 400 }, error: null });
+    mockGameUpdate.mockResolvedValue({ error: null });
+    mockUpsert.mockResolvedValue({ error: null });
+
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  // ── Auth and validation ────────────────────────────────────────────────────
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: new Error('No session') });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(500)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 403 when the user does not own the game', async () => {
+    mockGameSingle.mockResolvedValue({ data: makeGame({ teacher_id: 'someone-else' }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(500)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(403);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the question is not open', async () => {
+    mockGameSingle.mockResolvedValue({ data: makeGame({ current_question_id: null }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(500)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+  });
+
+  it('returns 400 when the question is not a Daily Double', async () => {
+    mockGameSingle.mockResolvedValue({
+      data: makeGame({ daily_double_positions: [{ category: 0, position: 4 }] }),
+      error: null,
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(500)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(400);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  // ── Wager rules ────────────────────────────────────────────────────────────
+
+  it('records a wager inside the range', async () => {
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(1000)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ wager: 1000, range: { min: 5, max: 1000 } });
+    expect(mockUpsert.mock.calls[0][0]).toMatchObject({
+      team_id: TEAM_ID,
+      question_id: QUESTION_ID,
+      wager_type: 'daily_double',
+      wager_amount: 1000,
+      question_value: 300,
+    });
+    expect(mockGameUpdate).toHaveBeenCalledWith({ daily_double_team_id: TEAM_ID, daily_double_wager: 1000 });
+  });
+
+  it('rejects a wager over the cap with the allowed range', async () => {
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(1005)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Maximum wager is 1000 points');
+    expect(body.range).toEqual({ min: 5, max: 1000 });
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it('caps at the highest clue value under the TV rule', async () => {
+    mockGameSingle.mockResolvedValue({ data: makeGame({ daily_double_max_wager: null }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, wagerBody(600)), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).range).toEqual({ min: 5, max: 500 });
+  });
+
+  it('holds a team below zero to the clue value when negative wagers are off', async () => {
+    mockGameSingle.mockResolvedValue({ data: makeGame({ daily_double_allow_negative: false }), error: null });
+    mockTeam.mockResolvedValue({ data: { id: TEAM_ID, score: -200 }, error: null });
+
+    const rejected = await POST(makeRequest(VALID_GAME_ID, wagerBody(500)), makeContext(VALID_GAME_ID));
+    expect(rejected.status).toBe(400);
+
+    const accepted = await POST(makeRequest(VALID_GAME_ID, wagerBody(300)), makeContext(VALID_GAME_ID));
+    expect(accepted.status).toBe(200);
+  });
+});
@@ -0,0 +1,230 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { buildRoundCategories, getRoundCategoryOffset, getRoundValueMultiplier } from '@/lib/utils/gameRounds';
+import {
+  getDailyDoubleWagerRange,
+  getDailyDoubleWagerRules,
+  validateDailyDoubleWager,
+} from '@/lib/utils/dailyDoubleWager';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { DailyDoublePosition, GameRound } from '@/types/game';
+
+/**
+ * POST /api/games/[gameId]/daily-double/wager
+ * Records the controlling team's Daily Double wager before the clue is shown.
+ *
+ * Body: { questionId: string, teamId: string, wager: number }
+ *
+ * Verifies:
+ * - User owns the game and the game is active
+ * - The question is the open clue and a Daily Double on the current round's board
+ * - Team belongs to the game
+ * - The wager is inside the team's range under the game's wager rules
+ *
+ * Actions:
+ * - Records the wager in wagers (wager_type 'daily_double'), replacing an
+ *   earlier wager by the team on the same clue
+ * - Sets daily_double_team_id and daily_double_wager, the live state that
+ *   PATCH /api/games/[gameId]/state checks against the recorded wager
+ *
+ * Response: { wager: number, range: DailyDoubleWagerRange }
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { questionId, teamId, wager } = body;
+
+    if (typeof questionId !== 'string' || !isValidUUID(questionId) ||
+        typeof teamId !== 'string' || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'questionId and teamId must be valid IDs' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, current_question_id, current_round, bank_id, double_jeopardy_bank_id, daily_double_positions, board_categories, point_values, daily_double_min_wager, daily_double_max_wager, daily_double_allow_negative')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+    if (game.current_question_id !== questionId) {
+      return NextResponse.json({ error: 'Question is not open' }, { status: 409 });
+    }
+
+    // Find the clue on the current round's board for its value and Daily
+    // Double flag; the order matches the board page
+    const round: GameRound = game.current_round === DOUBLE_JEOPARDY.ROUND ? DOUBLE_JEOPARDY.ROUND : 1;
+    const bankId = round === DOUBLE_JEOPARDY.ROUND && game.double_jeopardy_bank_id
+      ? game.double_jeopardy_bank_id
+      : game.bank_id;
+
+    const [questionsResult, teamResult] = await Promise.all([
+      supabase
+        .from('questions')
+        .select('*')
+        .eq('bank_id', bankId)
+        .order('category')
+        .order('position'),
+      supabase
+        .from('teams')
+        .select('id, score')
+        .eq('id', teamId)
+        .eq('game_id', gameId)
+        .maybeSingle(),
+    ]);
+
+    if (questionsResult.error) {
+      logger.error('Failed to load board for Daily Double wager', questionsResult.error, {
+        operation: 'submitDailyDoubleWager',
+        gameId,
+        round,
+      });
+      return NextResponse.json(
+        { error: 'Failed to submit wager' },
+        { status: 500 }
+      );
+    }
+    if (teamResult.error || !teamResult.data) {
+      return NextResponse.json({ error: 'Team not found in this game' }, { status: 404 });
+    }
+
+    const layout = getBoardLayout(game);
+    const clue = buildRoundCategories(
+      questionsResult.data ?? [],
+      [],
+      (game.daily_double_positions as unknown as DailyDoublePosition[] | null) ?? [],
+      round,
+      layout,
+      getRoundCategoryOffset(game, round, layout)
+    )
+      .flatMap((category) => category.questions)
+      .find((question) => question.id === questionId);
+
+    if (!clue?.isDailyDouble) {
+      return NextResponse.json({ error: 'Question is not a Daily Double' }, { status: 400 });
+    }
+
+    const range = getDailyDoubleWagerRange(
+      getDailyDoubleWagerRules(game),
+      teamResult.data.score ?? 0,
+      Math.max(...layout.pointValues) * getRoundValueMultiplier(round),
+      clue.value
+    );
+    const wagerError = validateDailyDoubleWager(wager, range);
+    if (wagerError) {
+      return NextResponse.json(
+        { error: wagerError, range },
+        { status: 400 }
+      );
+    }
+
+    // wagers has no RLS policies; write it with the service role now that
+    // ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const { error: wagerInsertError } = await serviceClient
+      .from('wagers')
+      .upsert(
+        {
+          game_id: gameId,
+          team_id: teamId,
+          question_id: questionId,
+          wager_type: 'daily_double',
+          wager_amount: wager,
+          question_category: clue.categoryName ?? null,
+          question_value: clue.value,
+          answer_text: null,
+          is_correct: null,
+          revealed: false,
+        },
+        { onConflict: 'game_id,team_id,wager_type,question_id' }
+      );
+
+    if (wagerInsertError) {
+      logger.error('Failed to record Daily Double wager', wagerInsertError, {
+        operation: 'submitDailyDoubleWager',
+        gameId,
+        questionId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to submit wager' },
+        { status: 500 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({
+        daily_double_team_id: teamId,
+        daily_double_wager: wager,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (updateError) {
+      logger.error('Failed to save Daily Double wager', updateError, {
+        operation: 'submitDailyDoubleWager',
+        gameId,
+        questionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to submit wager' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Daily Double wager recorded', {
+      operation: 'submitDailyDoubleWager',
+      gameId,
+      questionId,
+      teamId,
+      wager,
+    });
+
+    return NextResponse.json({ wager, range });
+  } catch (error) {
+    logger.error('Submit Daily Double wager failed', error, {
+      operation: 'submitDailyDoubleWager',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { getRoundPhase, validateSharedBankCategories } from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/double-jeopardy/start
+ * Moves the game from the first round to the Double Jeopardy board.
+ *
+ * Verifies:
+ * - User owns the game
+ * - Game is active, has a Double Jeopardy bank and is in round 1 board play
+ * - The Double Jeopardy bank still has questions; when it is the round 1 bank,
+ *   enough categories for a second board of its own
+ *
+ * Actions:
+ * - Sets current_round to 2 and current_phase to 'double_jeopardy'
+ * - Clears selected_questions so the new board starts unused
+ * - Clears the live clue state left over from round 1
+ * - Deletes round 1 buzzes, dismissed ones included, so no team stays blocked
+ *   on a clue the new board shows again
+ *
+ * The caller loads the round 2 board (double_jeopardy_bank_id, doubled values,
+ * round 2 Daily Doubles) after this succeeds.
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, current_round, current_phase, bank_id, double_jeopardy_bank_id, board_categories, point_values')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status !== 'active') {
+      return NextResponse.json({ error: 'Game is not active' }, { status: 409 });
+    }
+    if (!game.double_jeopardy_bank_id) {
+      return NextResponse.json({ error: 'This game has no Double Jeopardy round' }, { status: 400 });
+    }
+    if (game.current_round === DOUBLE_JEOPARDY.ROUND) {
+      return NextResponse.json({ error: 'Double Jeopardy has already started' }, { status: 409 });
+    }
+    if ((game.current_phase ?? 'regular') !== 'regular') {
+      return NextResponse.json({ error: 'Finish Final Jeopardy before starting Double Jeopardy' }, { status: 409 });
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from('questions')
+      .select('category')
+      .eq('bank_id', game.double_jeopardy_bank_id);
+
+    if (questionsError) {
+      logger.error('Failed to read Double Jeopardy questions', questionsError, {
+        operation: 'startDoubleJeopardy',
+        gameId,
+        bankId: game.double_jeopardy_bank_id,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start Double Jeopardy' },
+        { status: 500 }
+      );
+    }
+    if (!questions || questions.length === 0) {
+      return NextResponse.json(
+        { error: 'The Double Jeopardy question bank has no questions' },
+        { status: 400 }
+      );
+    }
+    if (game.double_jeopardy_bank_id === game.bank_id) {
+      const sharedBankError = validateSharedBankCategories(
+        questions.map((question) => question.category),
+        getBoardLayout(game)
+      );
+      if (sharedBankError) {
+        return NextResponse.json({ error: sharedBankError }, { status: 400 });
+      }
+    }
+
+    const phase = getRoundPhase(DOUBLE_JEOPARDY.ROUND);
+
+    // Guard on current_round so two clicks cannot both advance the game
+    const { data: updated, error: updateError } = await supabase
+      .from('games')
+      .update({
+        current_round: DOUBLE_JEOPARDY.ROUND,
+        current_phase: phase,
+        selected_questions: [],
+        current_question_id: null,
+        answer_revealed: false,
+        hint_revealed: false,
+        daily_double_team_id: null,
+        daily_double_wager: null,
+        buzzers_armed_question_id: null,
+        buzzers_armed_at: null,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id)
+      .eq('current_round', 1)
+      .select('id');
+
+    if (updateError) {
+      logger.error('Failed to start Double Jeopardy', updateError, {
+        operation: 'startDoubleJeopardy',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start Double Jeopardy' },
+        { status: 500 }
+      );
+    }
+    if (!updated || updated.length === 0) {
+      return NextResponse.json({ error: 'Double Jeopardy has already started' }, { status: 409 });
+    }
+
+    // buzzes has no RLS policies; delete with the service role now that
+    // ownership has been verified
+    const { error: buzzesError } = await createAdminServiceClient()
+      .from('buzzes')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (buzzesError) {
+      logger.error('Failed to clear round 1 buzzes', buzzesError, {
+        operation: 'startDoubleJeopardy',
+        gameId,
+      });
+    }
+
+    logger.info('Double Jeopardy started', {
+      operation: 'startDoubleJeopardy',
+      gameId,
+      bankId: game.double_jeopardy_bank_id,
+    });
+
+    return NextResponse.json({
+      round: DOUBLE_JEOPARDY.ROUND,
+      phase,
+      bankId: game.double_jeopardy_bank_id,
+    });
+  } catch (error) {
+    logger.error('Start Double Jeopardy failed', error, {
+      operation: 'startDoubleJeopardy',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
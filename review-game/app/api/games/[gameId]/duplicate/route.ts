@@ -1,15 +1,18 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient } from '@/lib/admin/auth';
-import type { TablesInsert } from '@/types/database.types';
+import type { Json, TablesInsert } from '@/types/database.types';
 import { logger } from '@/lib/logger';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { generateDailyDoublePositions, getDailyDoubleSettings } from '@/lib/utils/gameRounds';
 
 /**
  * POST /api/games/[gameId]/duplicate
  * Duplicates an existing game with new settings.
  *
- * - Copies game settings (bank_id, num_teams, team_names, timer settings)
+ * - Copies game settings (bank_id, double_jeopardy_bank_id, board layout, num_teams, team_names, timer settings, answer clock, answer mode, steal rules, Daily Double placement)
  * - Resets status='setup', started_at=null, completed_at=null
- * - Generates new daily_double_positions
+ * - Generates new daily_double_positions for manual placement; random placement picks them at start
  * - Checks subscription quota
  * - Creates team records for duplicated game
  *
@@ -123,20 +126,17 @@ export async function POST(
       );
     }
 
-    // Generate new daily double positions
-    // Assume 5 categories and 5 questions per category (standard Jeopardy format)
-    const numCategories = 5;
-    const numQuestions = 5;
-    const totalQuestions = numCategories * numQuestions;
-
-    // Generate 2 random positions for daily doubles
-    const dailyDoublePositions: number[] = [];
-    while (dailyDoublePositions.length < 2) {
-      const randomPos = Math.floor(Math.random() * totalQuestions);
-      if (!dailyDoublePositions.includes(randomPos)) {
-        dailyDoublePositions.push(randomPos);
-      }
-    }
+    // Generate new daily double positions for manual placement, including
+    // the Double Jeopardy board when the original game has one
+    const boardLayout = getBoardLayout(originalGame);
+    const dailyDoubles = getDailyDoubleSettings(originalGame);
+    const dailyDoublePositions = dailyDoubles.mode === 'manual'
+      ? generateDailyDoublePositions(
+        originalGame.double_jeopardy_bank_id ? [1, DOUBLE_JEOPARDY.ROUND] : [1],
+        boardLayout,
+        dailyDoubles
+      )
+      : null;
 
     // Create duplicated game data
     const duplicatedGameData: TablesInsert<'games'> = {
@@ -146,7 +146,23 @@ export async function POST(
       team_names: originalGame.team_names,
       timer_enabled: originalGame.timer_enabled,
       timer_seconds: originalGame.timer_seconds,
-      daily_double_positions: dailyDoublePositions,
+      answer_timer_seconds: originalGame.answer_timer_seconds,
+      buzzer_lockout_ms: originalGame.buzzer_lockout_ms,
+      answer_mode: originalGame.answer_mode,
+      steal_enabled: originalGame.steal_enabled,
+      deduct_incorrect: originalGame.deduct_incorrect,
+      steal_restarts_timer: originalGame.steal_restarts_timer,
+      max_answer_attempts: originalGame.max_answer_attempts,
+      hint_penalty_percent: originalGame.hint_penalty_percent,
+      daily_double_min_wager: originalGame.daily_double_min_wager,
+      daily_double_max_wager: originalGame.daily_double_max_wager,
+      daily_double_allow_negative: originalGame.daily_double_allow_negative,
+      daily_double_mode: dailyDoubles.mode,
+      daily_double_count: dailyDoubles.count,
+      daily_double_positions: dailyDoublePositions as unknown as Json,
+      board_categories: boardLayout.categories,
+      point_values: boardLayout.pointValues,
+      double_jeopardy_bank_id: originalGame.double_jeopardy_bank_id,
       status: 'setup',
       started_at: null,
       completed_at: null,
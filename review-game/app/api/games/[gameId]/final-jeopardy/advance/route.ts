@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { createAdminServerClient } from '@/lib/admin/auth';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { logger } from '@/lib/logger';
+import { saveGameRecap } from '@/lib/api/gameRecap';
 import type { GamePhase } from '@/types/game';
 import { isValidUUID } from '@/lib/utils/uuid';
 
@@ -22,7 +23,8 @@ import { isValidUUID } from '@/lib/utils/uuid';
  *
  * Actions:
  * - Updates current_phase to next phase
- * - If completing (reveal → regular), also sets status to 'completed'
+ * - If completing (reveal → regular), also sets status to 'completed' and
+ *   saves the game recap
  */
 export async function POST(
   req: NextRequest,
@@ -137,6 +139,12 @@ export async function POST(
       );
     }
 
+    if (shouldComplete) {
+      // The game is over either way; a missing recap is rebuilt when the
+      // teacher opens it
+      await saveGameRecap(createAdminServiceClient(), gameId);
+    }
+
     logger.info('Final Jeopardy phase advanced successfully', {
       operation: 'advanceFinalJeopardyPhase',
       gameId,
@@ -0,0 +1,104 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { matchAnswer } from '@/lib/utils/answerMatcher';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { AnswerMatch, FinalJeopardyQuestion } from '@/types/game';
+
+/**
+ * GET /api/games/[gameId]/final-jeopardy/answer-matches
+ * Suggests whether each team's Final Jeopardy answer is correct.
+ *
+ * Verifies:
+ * - User owns the game
+ * - Game has a Final Jeopardy question
+ *
+ * Response: { matches: Record<teamId, AnswerMatch> } compared against the
+ * Final Jeopardy answer and its accepted alternates. The teacher still grades
+ * each team through the reveal route.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, final_jeopardy_question')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const finalJeopardy = game.final_jeopardy_question as FinalJeopardyQuestion | null;
+    if (!finalJeopardy?.answer) {
+      return NextResponse.json(
+        { error: 'Game has no Final Jeopardy question' },
+        { status: 400 }
+      );
+    }
+
+    const { data: teams, error: teamsError } = await supabase
+      .from('teams')
+      .select('id, final_jeopardy_answer')
+      .eq('game_id', gameId);
+
+    if (teamsError) {
+      logger.error('Failed to read Final Jeopardy answers', teamsError, {
+        operation: 'getFinalJeopardyAnswerMatches',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load answers' },
+        { status: 500 }
+      );
+    }
+
+    const acceptedAnswers = Array.isArray(finalJeopardy.accepted_answers)
+      ? finalJeopardy.accepted_answers
+      : [];
+    const matches: Record<string, AnswerMatch> = Object.fromEntries(
+      (teams ?? []).map((team) => [
+        team.id,
+        matchAnswer(team.final_jeopardy_answer, finalJeopardy.answer, acceptedAnswers),
+      ])
+    );
+
+    return NextResponse.json({ matches }, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Fetch Final Jeopardy answer matches failed', error, {
+      operation: 'getFinalJeopardyAnswerMatches',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,13 +4,13 @@ import { logger } from '@/lib/logger';
 
 /**
  * POST /api/games/[gameId]/final-jeopardy/skip
- * Skips Final Jeopardy and returns to regular gameplay.
+ * Skips Final Jeopardy and returns to board play in the current round.
  *
  * Verifies:
  * - User owns the game
  *
  * Actions:
- * - Resets current_phase to 'regular'
+ * - Resets current_phase to 'regular', or 'double_jeopardy' in round 2
  * - Clears teams' Final Jeopardy fields
  */
 export async function POST(
@@ -92,7 +92,7 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      phase: 'regular',
+      phase: skipResult.phase,
     });
   } catch (error) {
     logger.error('Skip Final Jeopardy failed', error, {
@@ -15,7 +15,7 @@ import { NextRequest } from 'next/server';
 // Mocks — declared before dynamic import so vi.mock hoisting applies
 // ---------------------------------------------------------------------------
 
-const mockVerifyDeviceOwnsTeam = vi.fn();
+const mockVerifyDeviceIsCaptain = vi.fn();
 const mockGetDeviceIdFromRequest = vi.fn().mockReturnValue('device-abc');
 const mockCreateAdminServerClient = vi.fn();
 const mockCreateAdminServiceClient = vi.fn();
@@ -27,7 +27,7 @@ vi.mock('@/lib/admin/auth', () => ({
 }));
 
 vi.mock('@/lib/auth/device', () => ({
-  verifyDeviceOwnsTeam: (...args: unknown[]) => mockVerifyDeviceOwnsTeam(...args),
+  verifyDeviceIsCaptain: (...args: unknown[]) => mockVerifyDeviceIsCaptain(...args),
   getDeviceIdFromRequest: (req: unknown) => mockGetDeviceIdFromRequest(req),
 }));
 
@@ -75,8 +75,8 @@ describe('POST /api/games/[gameId]/final-jeopardy/submit', () => {
     vi.clearAllMocks();
     // Default: anon client is a no-op object (only used to pass to verifyDeviceOwnsTeam)
     mockCreateAdminServerClient.mockResolvedValue({});
-    // Default: device is authorized
-    mockVerifyDeviceOwnsTeam.mockResolvedValue(true);
+    // Default: device is the team's captain
+    mockVerifyDeviceIsCaptain.mockResolvedValue(true);
     // Default: service client returns a successful result
     mockServiceClient([{ success: true, submitted_at: '2026-04-01T00:00:00Z' }]);
     const routeModule = await import('./route');
@@ -140,8 +140,8 @@ describe('POST /api/games/[gameId]/final-jeopardy/submit', () => {
   // ── Two-client security invariant ─────────────────────────────────────────
 
   describe('two-client security invariant', () => {
-    it('returns 403 when device does not own the team', async () => {
-      mockVerifyDeviceOwnsTeam.mockResolvedValue(false);
+    it('returns 403 when device is not the team captain', async () => {
+      mockVerifyDeviceIsCaptain.mockResolvedValue(false);
 
       const res = await POST(
         makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, wager: 0, answer: 'A' }),
@@ -149,10 +149,13 @@ describe('POST /api/games/[gameId]/final-jeopardy/submit', () => {
       );
 
       expect(res.status).toBe(403);
+      const body = await res.json();
+      expect(body.error).toMatch(/captain/i);
+      expect(mockVerifyDeviceIsCaptain).toHaveBeenCalledWith({}, VALID_TEAM_ID, 'device-abc', VALID_GAME_ID);
     });
 
     it('does NOT call createAdminServiceClient when auth fails', async () => {
-      mockVerifyDeviceOwnsTeam.mockResolvedValue(false);
+      mockVerifyDeviceIsCaptain.mockResolvedValue(false);
 
       await POST(
         makeRequest(VALID_GAME_ID, { teamId: VALID_TEAM_ID, wager: 0, answer: 'A' }),
@@ -1,7 +1,7 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { logger } from '@/lib/logger';
-import { verifyDeviceOwnsTeam, getDeviceIdFromRequest } from '@/lib/auth/device';
+import { verifyDeviceIsCaptain, getDeviceIdFromRequest } from '@/lib/auth/device';
 import { isValidUUID } from '@/lib/utils/uuid';
 
 /**
@@ -11,7 +11,8 @@ import { isValidUUID } from '@/lib/utils/uuid';
  * Body: { teamId: string, wager: number, answer: string }
  *
  * Verifies:
- * - Team belongs to game (device ID ownership check)
+ * - Team belongs to game and the device is the team's captain; other
+ *   members may buzz but not submit the wager and answer
  * - Game phase is 'final_jeopardy_wager' (enforced by RPC)
  * - Wager is valid: 0 <= wager <= team.score (enforced by RPC)
  * - Answer is non-empty and <= 500 chars
@@ -59,9 +60,9 @@ export async function POST(
       );
     }
 
-    // SECURITY: Verify device owns this team before constructing service client
+    // SECURITY: Verify device captains this team before constructing service client
     const deviceId = getDeviceIdFromRequest(req);
-    const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId, gameId);
+    const isAuthorized = await verifyDeviceIsCaptain(supabase, teamId, deviceId, gameId);
 
     if (!isAuthorized) {
       logger.warn('Unauthorized FJ submission attempt', {
@@ -71,7 +72,7 @@ export async function POST(
         deviceId,
       });
       return NextResponse.json(
-        { error: 'Unauthorized: This device does not control this team' },
+        { error: 'Unauthorized: Only the team captain can submit the wager and answer' },
         { status: 403 }
       );
     }
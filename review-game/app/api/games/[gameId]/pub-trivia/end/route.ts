@@ -1,6 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { logger } from '@/lib/logger';
+import { saveGameRecap } from '@/lib/api/gameRecap';
+import { readPubTriviaTeamStandings } from '@/lib/api/pubTriviaTeams';
+import { getPubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
+import type { PubTriviaTeamResult } from '@/types/pub-trivia';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -10,8 +14,10 @@ const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
  * Teacher ends the pub trivia game:
  * 1. Verifies teacher auth and ownership
  * 2. Fetches final player scores sorted by score desc
- * 3. Updates game status to 'completed', sets completed_at
- * 4. Returns final rankings for the teacher to broadcast
+ * 3. In team play, rebuilds the final team standings
+ * 4. Updates game status to 'completed', sets completed_at
+ * 5. Saves the game recap
+ * 6. Returns final player and team rankings for the teacher to broadcast
  */
 export async function POST(
   _req: NextRequest,
@@ -34,7 +40,7 @@ export async function POST(
 
     const { data: game, error: gameError } = await serviceClient
       .from('games')
-      .select('teacher_id, status, game_type')
+      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order, pub_trivia_teams')
       .eq('id', gameId)
       .single();
 
@@ -54,7 +60,7 @@ export async function POST(
     // Fetch final rankings
     const { data: players, error: playersError } = await serviceClient
       .from('teams')
-      .select('id, team_name, score, connection_status, player_icon')
+      .select('id, team_name, score, connection_status, player_icon, pub_trivia_team')
       .eq('game_id', gameId)
       .order('score', { ascending: false });
 
@@ -66,6 +72,22 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to fetch rankings' }, { status: 500 });
     }
 
+    // current_question_index has already moved past every ended round
+    const teamPlay = getPubTriviaTeamPlay(game);
+    let finalTeamRankings: PubTriviaTeamResult[] | null = null;
+    if (teamPlay) {
+      const questionOrder = (game.pub_trivia_question_order as string[] | null) ?? [];
+      finalTeamRankings = await readPubTriviaTeamStandings(
+        serviceClient,
+        gameId,
+        teamPlay,
+        questionOrder.slice(0, game.current_question_index ?? 0)
+      );
+      if (!finalTeamRankings) {
+        return NextResponse.json({ error: 'Failed to fetch rankings' }, { status: 500 });
+      }
+    }
+
     const { error: updateError } = await serviceClient
       .from('games')
       .update({
@@ -83,6 +105,10 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to end game' }, { status: 500 });
     }
 
+    // The game is over either way; a missing recap is rebuilt when the
+    // teacher opens it
+    await saveGameRecap(serviceClient, gameId);
+
     logger.info('Pub trivia game ended', {
       operation: 'endPubTriviaGame',
       gameId,
@@ -95,9 +121,10 @@ export async function POST(
       playerIcon: p.player_icon ?? null,
       score: p.score ?? 0,
       connectionStatus: p.connection_status,
+      teamName: p.pub_trivia_team,
     }));
 
-    return NextResponse.json({ finalRankings });
+    return NextResponse.json({ finalRankings, finalTeamRankings });
   } catch (error) {
     logger.error('Unexpected error ending pub trivia game', error, {
       operation: 'endPubTriviaGame',
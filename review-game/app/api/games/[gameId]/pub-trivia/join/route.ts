@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServiceClient } from '@/lib/admin/auth';
 import { PUB_TRIVIA_ICON_EMOJIS } from '@/lib/constants/pubTriviaIcons';
 import { logger } from '@/lib/logger';
+import { findPubTriviaTeam, getPubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -12,9 +13,10 @@ const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
  * 1. Validates gameId, playerName, and deviceId
  * 2. Checks game is pub_trivia and not completed
  * 3. If device already has a team, returns existing record (with current connectionStatus)
- * 4. Calls join_game_atomic to get a seat (handles capacity + team_number atomically)
- * 5. Patches team_name and connection_status='pending' (awaiting teacher approval)
- * 6. Returns { playerId, playerName, deviceId, connectionStatus }
+ * 4. In team play, checks teamName is one of the game's teams
+ * 5. Calls join_game_atomic to get a seat (handles capacity + team_number atomically)
+ * 6. Patches team_name, the chosen team and connection_status='pending' (awaiting teacher approval)
+ * 7. Returns { playerId, playerName, teamName, deviceId, connectionStatus }
  */
 export async function POST(
   req: NextRequest,
@@ -27,8 +29,8 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid game ID' }, { status: 400 });
     }
 
-    const body = (await req.json()) as Partial<{ playerName: string; deviceId: string; playerIcon: string }>;
-    const { playerName, deviceId, playerIcon } = body;
+    const body = (await req.json()) as Partial<{ playerName: string; deviceId: string; playerIcon: string; teamName: string }>;
+    const { playerName, deviceId, playerIcon, teamName } = body;
 
     if (!playerName || typeof playerName !== 'string' || playerName.trim().length === 0) {
       return NextResponse.json({ error: 'playerName is required' }, { status: 400 });
@@ -49,7 +51,7 @@ export async function POST(
     // Verify the game is a pub trivia game that is joinable
     const { data: game, error: gameError } = await serviceClient
       .from('games')
-      .select('status, game_type, num_teams')
+      .select('status, game_type, num_teams, pub_trivia_teams')
       .eq('id', gameId)
       .single();
 
@@ -66,7 +68,7 @@ export async function POST(
     // Check if this device already has a player record in this game
     const { data: existing } = await serviceClient
       .from('teams')
-      .select('id, team_name, score, connection_status, player_icon')
+      .select('id, team_name, score, connection_status, player_icon, pub_trivia_team')
       .eq('game_id', gameId)
       .eq('device_id', deviceId)
       .maybeSingle();
@@ -81,6 +83,7 @@ export async function POST(
         playerId: existing.id,
         playerName: existing.team_name ?? playerName.trim(),
         playerIcon: existing.player_icon ?? null,
+        teamName: existing.pub_trivia_team ?? null,
         score: existing.score ?? 0,
         deviceId,
         connectionStatus: existing.connection_status ?? 'pending',
@@ -92,6 +95,13 @@ export async function POST(
       return NextResponse.json({ error: 'This game has already started' }, { status: 409 });
     }
 
+    // Checked before taking a seat so a bad choice does not use one up
+    const teamPlay = getPubTriviaTeamPlay(game);
+    const resolvedTeam = teamPlay ? findPubTriviaTeam(teamPlay, teamName) : null;
+    if (teamPlay && !resolvedTeam) {
+      return NextResponse.json({ error: 'Choose one of the teams for this game' }, { status: 400 });
+    }
+
     // Use existing RPC for atomic seat assignment (handles num_teams capacity)
     type JoinResult =
       | { success: true; team_id: string; team_number: number }
@@ -129,11 +139,12 @@ export async function POST(
       .update({
         team_name: playerName.trim(),
         player_icon: resolvedIcon,
+        pub_trivia_team: resolvedTeam,
         connection_status: 'pending',
         updated_at: new Date().toISOString(),
       })
       .eq('id', result.team_id)
-      .select('id, team_name, score, player_icon')
+      .select('id, team_name, score, player_icon, pub_trivia_team')
       .single();
 
     if (patchError || !patchedTeam) {
@@ -155,6 +166,7 @@ export async function POST(
       playerId: patchedTeam.id,
       playerName: patchedTeam.team_name ?? playerName.trim(),
       playerIcon: patchedTeam.player_icon ?? null,
+      teamName: patchedTeam.pub_trivia_team ?? null,
       score: patchedTeam.score ?? 0,
       deviceId,
       connectionStatus: 'pending',
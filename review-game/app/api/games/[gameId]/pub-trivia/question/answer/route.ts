@@ -1,24 +1,32 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServiceClient } from '@/lib/admin/auth';
-import { calcPointsEarned } from '@/types/pub-trivia';
+import { calcPointsEarned, calcStreakBonus } from '@/types/pub-trivia';
 import { logger } from '@/lib/logger';
 import type { SubmitAnswerRequest, SubmitAnswerResponse } from '@/types/pub-trivia';
 import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { getAnswerStreak, getPubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { getQuestionFormat, scoreFormatAnswer } from '@/lib/utils/questionFormats';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * POST /api/games/[gameId]/pub-trivia/question/answer
  *
- * Individual player submits a multiple-choice answer:
+ * Individual player submits an answer in the question's format:
  * 1. Validates deviceId and playerId (no auth session for students)
  * 2. Verifies player belongs to game and device matches
  * 3. Verifies game is in_progress with an active question
  * 4. Checks for duplicate submission (UNIQUE constraint → 409)
- * 5. Computes elapsed fraction → point bracket → points_earned
- * 6. Inserts into pub_trivia_answers
- * 7. Increments teams.score
- * 8. Returns result (isCorrect, pointsEarned, totalScore)
+ * 5. Scores the answer for the question's format: partly right orderings earn
+ *    a share of the points (elapsed fraction → points under the game's scoring
+ *    profile). Numeric answers are recorded with their full-credit points
+ *    pending and ranked against each other when the round ends (see question/end)
+ * 6. Counts the player's streak from earlier pub_trivia_answers and adds any
+ *    streak bonus
+ * 7. Inserts into pub_trivia_answers; a trigger refuses the row once the
+ *    question is no longer open, even if the round ended after step 3
+ * 8. Increments teams.score
+ * 9. Returns result (isCorrect, pointsEarned, totalScore, streak, streakBonus, scoredAtRoundEnd)
  */
 export async function POST(
   req: NextRequest,
@@ -58,7 +66,7 @@ export async function POST(
     // Load game state
     const { data: game, error: gameError } = await serviceClient
       .from('games')
-      .select('status, game_type, current_question_index, pub_trivia_question_order, current_question_started_at, timer_seconds')
+      .select('status, game_type, current_question_index, pub_trivia_question_order, current_question_started_at, timer_seconds, pub_trivia_scoring')
       .eq('id', gameId)
       .single();
 
@@ -104,7 +112,7 @@ export async function POST(
 
     const { data: question, error: qError } = await serviceClient
       .from('questions')
-      .select('id, answer_text')
+      .select('id, answer_text, mc_options, question_format, numeric_tolerance, ordering_items')
       .eq('id', questionId)
       .single();
 
@@ -119,8 +127,38 @@ export async function POST(
     const elapsedMs = answeredAt - startedAt;
     const elapsedFraction = Math.min(1, Math.max(0, elapsedMs / questionDurationMs));
 
-    const isCorrect = answerText.trim().toLowerCase() === question.answer_text.trim().toLowerCase();
-    const pointsEarned = isCorrect ? calcPointsEarned(elapsedFraction) : 0;
+    const scoredAtRoundEnd = getQuestionFormat(question) === 'numeric';
+    const { isCorrect, credit } = scoredAtRoundEnd
+      ? { isCorrect: false, credit: 0 }
+      : scoreFormatAnswer(question, answerText);
+    const scoring = getPubTriviaScoring(game);
+    const basePoints = credit > 0 ? Math.round(calcPointsEarned(elapsedFraction, scoring) * credit) : 0;
+
+    // Streak: this answer plus the player's unbroken run of correct answers on
+    // the questions before it
+    let streak = 0;
+    if (isCorrect) {
+      const { data: previousAnswers, error: previousError } = await serviceClient
+        .from('pub_trivia_answers')
+        .select('question_id')
+        .eq('game_id', gameId)
+        .eq('player_id', playerId)
+        .eq('is_correct', true);
+
+      if (previousError) {
+        logger.error('Failed to load answers for streak', previousError, {
+          operation: 'submitPubTriviaAnswer',
+          gameId,
+          playerId,
+        });
+        return NextResponse.json({ error: 'Failed to record answer' }, { status: 500 });
+      }
+
+      const correctQuestionIds = new Set((previousAnswers ?? []).map((a) => a.question_id));
+      streak = getAnswerStreak(questionOrder.slice(0, game.current_question_index ?? 0), correctQuestionIds) + 1;
+    }
+    const streakBonus = isCorrect ? calcStreakBonus(basePoints, streak, scoring) : 0;
+    const pointsEarned = basePoints + streakBonus;
 
     // Insert answer (UNIQUE constraint on game_id+player_id+question_id rejects duplicates)
     const { error: insertError } = await serviceClient
@@ -132,6 +170,7 @@ export async function POST(
         answer_text: answerText.trim(),
         is_correct: isCorrect,
         points_earned: pointsEarned,
+        pending_points: scoredAtRoundEnd ? calcPointsEarned(elapsedFraction, scoring) : null,
         answered_at: new Date(answeredAt).toISOString(),
       });
 
@@ -140,6 +179,10 @@ export async function POST(
       if (insertError.code === '23505') {
         return NextResponse.json({ error: 'Answer already submitted' }, { status: 409 });
       }
+      // 55000 = raised by pub_trivia_answers_require_open_question: the round ended
+      if (insertError.code === '55000') {
+        return NextResponse.json({ error: 'Question is no longer active' }, { status: 409 });
+      }
       logger.error('Failed to insert pub trivia answer', insertError, {
         operation: 'submitPubTriviaAnswer',
         gameId,
@@ -152,6 +195,7 @@ export async function POST(
     const { data: newScoreData, error: scoreError } = await serviceClient.rpc('increment_pub_trivia_score', {
       p_player_id: playerId,
       p_points_earned: pointsEarned,
+      p_question_id: questionId,
     });
 
     if (scoreError) {
@@ -215,6 +259,9 @@ export async function POST(
       isCorrect,
       pointsEarned,
       totalScore,
+      streak,
+      streakBonus,
+      scoredAtRoundEnd,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/pub-trivia/question/end.
+ *
+ * Tests that a numeric round is ranked once every answer is in, and that an
+ * end that failed while scoring can be retried: the retry scores only the
+ * answers still pending and does not advance the game a second time.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { makeQueryClient, writesTo, type QueryResult } from '@/lib/test-utils/supabaseQuery';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockCreateAdminServerClient = vi.fn();
+const mockCreateAdminServiceClient = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: () => mockCreateAdminServerClient(),
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+const QUESTION_ID = 'q-numeric';
+const NEXT_QUESTION_ID = 'q-next';
+const PLAYER_A = '11111111-1111-4111-8111-111111111111';
+const PLAYER_B = '22222222-2222-4222-8222-222222222222';
+
+const gameRow = (overrides: Record<string, unknown> = {}) => ({
+  teacher_id: TEACHER_USER_ID,
+  status: 'in_progress',
+  game_type: 'pub_trivia',
+  current_question_index: 0,
+  pub_trivia_question_order: [QUESTION_ID, NEXT_QUESTION_ID],
+  pub_trivia_teams: null,
+  current_question_started_at: '2026-11-11T10:00:00.000Z',
+  pub_trivia_scoring: null,
+  ...overrides,
+});
+
+const numericQuestion = {
+  id: QUESTION_ID,
+  answer_text: '50',
+  question_format: 'numeric',
+  numeric_tolerance: 0,
+};
+
+// Neither answer is exact; A is closer, so it wins full points despite tolerance 0
+const answerRow = (id: string, playerId: string, answerText: string, pendingPoints: number | null) => ({
+  id,
+  player_id: playerId,
+  answer_text: answerText,
+  pending_points: pendingPoints,
+});
+
+const resultRows = [
+  { player_id: PLAYER_A, answer_text: '48', is_correct: true, points_earned: 800, teams: { team_name: 'A', player_icon: null } },
+  { player_id: PLAYER_B, answer_text: '40', is_correct: false, points_earned: 0, teams: { team_name: 'B', player_icon: null } },
+];
+
+function makeRequest(gameId: string) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/pub-trivia/question/end`, { method: 'POST' });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/pub-trivia/question/end', () => {
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+  let serviceClient: ReturnType<typeof makeQueryClient>;
+  let rpc: ReturnType<typeof vi.fn>;
+
+  const setUp = (results: Record<string, QueryResult[]>, failingAnswerId: string | null = null) => {
+    rpc = vi.fn((_name: string, args: { p_answer_id: string }) =>
+      Promise.resolve({ error: args.p_answer_id === failingAnswerId ? { message: 'write failed' } : null })
+    );
+    serviceClient = makeQueryClient(results, { rpc });
+    mockCreateAdminServiceClient.mockReturnValue(serviceClient);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockCreateAdminServerClient.mockResolvedValue({
+      auth: {
+        getUser: () => Promise.resolve({ data: { user: { id: TEACHER_USER_ID } }, error: null }),
+      },
+    });
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  it('ranks a numeric round so the closest answer scores with tolerance 0', async () => {
+    setUp({
+      games: [{ data: gameRow(), error: null }, { data: [{ id: VALID_GAME_ID }], error: null }],
+      questions: [{ data: numericQuestion, error: null }],
+      pub_trivia_answers: [
+        { data: [answerRow('ans-a', PLAYER_A, '48', 800), answerRow('ans-b', PLAYER_B, '40', 900)], error: null },
+        { data: [], error: null },
+        { data: resultRows, error: null },
+        { data: [], error: null },
+      ],
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith('score_pub_trivia_answer', {
+      p_answer_id: 'ans-a',
+      p_is_correct: true,
+      p_points_earned: 800,
+    });
+    expect(rpc).toHaveBeenCalledWith('score_pub_trivia_answer', {
+      p_answer_id: 'ans-b',
+      p_is_correct: false,
+      p_points_earned: 0,
+    });
+    expect(writesTo(serviceClient, 'games', 'update')).toEqual([
+      { current_question_index: 1, current_question_started_at: null },
+    ]);
+  });
+
+  it('finishes scoring on a retry after a scoring write failed', async () => {
+    setUp(
+      {
+        games: [{ data: gameRow(), error: null }, { data: [{ id: VALID_GAME_ID }], error: null }],
+        questions: [{ data: numericQuestion, error: null }],
+        pub_trivia_answers: [
+          { data: [answerRow('ans-a', PLAYER_A, '48', 800), answerRow('ans-b', PLAYER_B, '40', 900)], error: null },
+          { data: [], error: null },
+        ],
+      },
+      'ans-a'
+    );
+
+    const failed = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+    expect(failed.status).toBe(500);
+
+    // The round was closed and B scored; A is still pending
+    setUp({
+      games: [{ data: gameRow({ current_question_index: 1, current_question_started_at: null }), error: null }],
+      pub_trivia_answers: [
+        { data: null, error: null, count: 1 },
+        { data: [answerRow('ans-a', PLAYER_A, '48', 800), answerRow('ans-b', PLAYER_B, '40', null)], error: null },
+        { data: [], error: null },
+        { data: resultRows, error: null },
+        { data: [{ player_id: PLAYER_A, question_id: QUESTION_ID }], error: null },
+      ],
+      questions: [{ data: numericQuestion, error: null }],
+    });
+
+    const retried = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(retried.status).toBe(200);
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('score_pub_trivia_answer', {
+      p_answer_id: 'ans-a',
+      p_is_correct: true,
+      p_points_earned: 800,
+    });
+    expect(writesTo(serviceClient, 'games', 'update')).toEqual([]);
+    const body = await retried.json();
+    expect(body.correctAnswer).toBe('50');
+    expect(body.hasNextQuestion).toBe(true);
+    expect(body.results.map((r: { playerId: string }) => r.playerId)).toEqual([PLAYER_A, PLAYER_B]);
+  });
+
+  it('returns 409 when no question is active and nothing is left to score', async () => {
+    setUp({
+      games: [{ data: gameRow({ current_question_index: 1, current_question_started_at: null }), error: null }],
+      pub_trivia_answers: [{ data: null, error: null, count: 0 }],
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
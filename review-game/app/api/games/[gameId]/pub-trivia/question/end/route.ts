@@ -1,7 +1,12 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { logger } from '@/lib/logger';
-import type { QuestionEndResponse } from '@/types/pub-trivia';
+import type { PubTriviaTeamResult, QuestionEndResponse } from '@/types/pub-trivia';
+import { getPubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
+import { readPubTriviaTeamStandings } from '@/lib/api/pubTriviaTeams';
+import { readRoundResults, scoreNumericRound } from '@/lib/api/pubTriviaRound';
+import { getPubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { getQuestionFormat } from '@/lib/utils/questionFormats';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -10,10 +15,16 @@ const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
  *
  * Teacher ends the current question round:
  * 1. Verifies teacher auth and ownership
- * 2. Fetches all pub_trivia_answers for the current question
+ * 2. With no active question, continues only if the last round still has
+ *    numeric answers pending (an earlier end failed while scoring); else 409
  * 3. Fetches the correct answer
- * 4. Increments current_question_index, clears current_question_started_at
- * 5. Returns results array and hasNextQuestion flag (caller broadcasts to players)
+ * 4. Increments current_question_index, clears current_question_started_at;
+ *    from here on no more answers are accepted (skipped on a retry)
+ * 5. For a numeric question, ranks the answers against each other and scores
+ *    the pending ones (see scoreNumericRound)
+ * 6. Fetches all pub_trivia_answers for the question with each player's streak
+ * 7. In team play, rebuilds the team standings including this round
+ * 8. Returns results array, team standings and hasNextQuestion flag (caller broadcasts to players)
  */
 export async function POST(
   _req: NextRequest,
@@ -36,7 +47,7 @@ export async function POST(
 
     const { data: game, error: gameError } = await serviceClient
       .from('games')
-      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order')
+      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order, pub_trivia_teams, current_question_started_at, pub_trivia_scoring')
       .eq('id', gameId)
       .single();
 
@@ -56,85 +67,104 @@ export async function POST(
     }
 
     const index = game.current_question_index ?? 0;
-    const questionId = questionOrder[index];
+
+    // With no active question, an earlier end may have failed while scoring a
+    // numeric round; retrying finishes the answers it left pending
+    const isRetry = !game.current_question_started_at;
+    const roundIndex = isRetry ? index - 1 : index;
+    if (isRetry) {
+      if (roundIndex < 0) {
+        return NextResponse.json({ error: 'No active question' }, { status: 409 });
+      }
+
+      const { count: pendingCount, error: pendingError } = await serviceClient
+        .from('pub_trivia_answers')
+        .select('id', { count: 'exact', head: true })
+        .eq('game_id', gameId)
+        .eq('question_id', questionOrder[roundIndex])
+        .not('pending_points', 'is', null);
+
+      if (pendingError) {
+        logger.error('Failed to check for unscored answers', pendingError, {
+          operation: 'endPubTriviaQuestion',
+          gameId,
+        });
+        return NextResponse.json({ error: 'Failed to fetch answers' }, { status: 500 });
+      }
+      if (!pendingCount) {
+        return NextResponse.json({ error: 'Question already ended' }, { status: 409 });
+      }
+    }
 
     // Fetch correct answer
     const { data: question, error: qError } = await serviceClient
       .from('questions')
-      .select('answer_text')
-      .eq('id', questionId)
+      .select('id, answer_text, question_format, numeric_tolerance')
+      .eq('id', questionOrder[roundIndex])
       .single();
 
     if (qError || !question) {
       return NextResponse.json({ error: 'Question not found' }, { status: 500 });
     }
 
-    // Fetch all answers submitted for this round with player names and icons
-    const { data: answers, error: answersError } = await serviceClient
-      .from('pub_trivia_answers')
-      .select('player_id, answer_text, is_correct, points_earned, teams(team_name, player_icon)')
-      .eq('game_id', gameId)
-      .eq('question_id', questionId);
-
-    if (answersError) {
-      logger.error('Failed to fetch round answers', answersError, {
-        operation: 'endPubTriviaQuestion',
-        gameId,
-        questionId,
-      });
-      return NextResponse.json({ error: 'Failed to fetch answers' }, { status: 500 });
+    const hasNextQuestion = roundIndex + 1 < questionOrder.length;
+
+    if (!isRetry) {
+      // Advance to next question index, clear started_at.
+      // Conditional filter: only updates when a question is active, so a concurrent
+      // double-click sees 0 rows returned and gets a 409 instead of double-advancing.
+      const { data: updatedRows, error: updateError } = await serviceClient
+        .from('games')
+        .update({
+          current_question_index: index + 1,
+          current_question_started_at: null,
+        })
+        .eq('id', gameId)
+        .not('current_question_started_at', 'is', null)
+        .select('id');
+
+      if (updateError) {
+        logger.error('Failed to advance question index', updateError, {
+          operation: 'endPubTriviaQuestion',
+          gameId,
+        });
+        return NextResponse.json({ error: 'Failed to advance round' }, { status: 500 });
+      }
+      if (!updatedRows || updatedRows.length === 0) {
+        return NextResponse.json({ error: 'Question already ended' }, { status: 409 });
+      }
     }
 
-    const nextIndex = index + 1;
-    const hasNextQuestion = nextIndex < questionOrder.length;
-
-    // Advance to next question index, clear started_at.
-    // Conditional filter: only updates when a question is active, so a concurrent
-    // double-click sees 0 rows returned and gets a 409 instead of double-advancing.
-    const { data: updatedRows, error: updateError } = await serviceClient
-      .from('games')
-      .update({
-        current_question_index: nextIndex,
-        current_question_started_at: null,
-      })
-      .eq('id', gameId)
-      .not('current_question_started_at', 'is', null)
-      .select('id');
-
-    if (updateError) {
-      logger.error('Failed to advance question index', updateError, {
-        operation: 'endPubTriviaQuestion',
-        gameId,
+    if (getQuestionFormat(question) === 'numeric') {
+      const scored = await scoreNumericRound(serviceClient, gameId, question, {
+        questionOrder,
+        index: roundIndex,
+        scoring: getPubTriviaScoring(game),
       });
-      return NextResponse.json({ error: 'Failed to advance round' }, { status: 500 });
+      if (!scored) {
+        return NextResponse.json({ error: 'Failed to score answers' }, { status: 500 });
+      }
     }
-    if (!updatedRows || updatedRows.length === 0) {
-      return NextResponse.json({ error: 'Question already ended' }, { status: 409 });
-    }
-
-    type AnswerRow = {
-      player_id: string;
-      answer_text: string;
-      is_correct: boolean;
-      points_earned: number;
-      teams: { team_name: string | null; player_icon: string | null } | { team_name: string | null; player_icon: string | null }[] | null;
-    };
 
-    const results = (answers as AnswerRow[] ?? []).map((a) => {
-      const team = Array.isArray(a.teams) ? a.teams[0] : a.teams;
-      return {
-        playerId: a.player_id,
-        playerName: team?.team_name ?? 'Player',
-        playerIcon: team?.player_icon ?? null,
-        answerText: a.answer_text,
-        isCorrect: a.is_correct,
-        pointsEarned: a.points_earned,
-      };
-    });
+    const results = await readRoundResults(serviceClient, gameId, questionOrder, roundIndex);
+    if (!results) {
+      return NextResponse.json({ error: 'Failed to fetch answers' }, { status: 500 });
+    }
+    const playedQuestionIds = questionOrder.slice(0, roundIndex + 1);
+
+    const teamPlay = getPubTriviaTeamPlay(game);
+    let teamResults: PubTriviaTeamResult[] | null = null;
+    if (teamPlay) {
+      teamResults = await readPubTriviaTeamStandings(serviceClient, gameId, teamPlay, playedQuestionIds);
+      if (!teamResults) {
+        return NextResponse.json({ error: 'Failed to fetch answers' }, { status: 500 });
+      }
+    }
 
     const response: QuestionEndResponse = {
       correctAnswer: question.answer_text,
       results,
+      teamResults,
       hasNextQuestion,
     };
 
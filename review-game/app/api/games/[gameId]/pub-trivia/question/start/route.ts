@@ -1,7 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { logger } from '@/lib/logger';
-import type { PubTriviaQuestionForPlayer } from '@/types/pub-trivia';
+import type { PubTriviaQuestionForPlayer, StartQuestionResponse } from '@/types/pub-trivia';
+import { getPubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { buildQuickFireOptions, getEliminationOrder, withOptionOrder } from '@/lib/utils/pubTriviaOptions';
+import { getQuestionFormat } from '@/lib/utils/questionFormats';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -11,10 +14,13 @@ const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
  * Teacher advances to the next question (or the first):
  * 1. Verifies teacher auth and ownership
  * 2. Reads current_question_index and pub_trivia_question_order
- * 3. Fetches the question + mc_options
- * 4. Shuffles the 4 options (3 wrong + 1 correct)
- * 5. Stores current_question_started_at and index on the game row
- * 6. Returns the question payload (no correct answer) for broadcasting
+ * 3. Fetches the question with its format settings
+ * 4. Builds the options for the question's format (shuffling multiple choice
+ *    and ordering items) and, for multiple choice, picks the wrong options to
+ *    eliminate
+ * 5. Stores current_question_started_at and the option order on the game row
+ * 6. Returns the question payload (no correct answer), the elimination order
+ *    and the game's scoring profile for broadcasting
  */
 export async function POST(
   _req: NextRequest,
@@ -37,7 +43,7 @@ export async function POST(
 
     const { data: game, error: gameError } = await serviceClient
       .from('games')
-      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order, timer_seconds, current_question_started_at')
+      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order, timer_seconds, current_question_started_at, pub_trivia_scoring, pub_trivia_option_order')
       .eq('id', gameId)
       .single();
 
@@ -71,7 +77,7 @@ export async function POST(
 
     const { data: question, error: qError } = await serviceClient
       .from('questions')
-      .select('id, question_text, answer_text, category, mc_options')
+      .select('id, question_text, answer_text, category, mc_options, question_format, numeric_tolerance, ordering_items')
       .eq('id', questionId)
       .single();
 
@@ -84,18 +90,15 @@ export async function POST(
       return NextResponse.json({ error: 'Question not found' }, { status: 404 });
     }
 
-    const wrongOptions = (question.mc_options as string[]) ?? [];
-    // Append correct answer at end before shuffling so we can track its final position
-    const allOptions = [...wrongOptions, question.answer_text];
-    let correctAnswerIndex = allOptions.length - 1; // starts at last position
-
-    // Shuffle options (Fisher-Yates), tracking where the correct answer lands
-    for (let i = allOptions.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [allOptions[i], allOptions[j]] = [allOptions[j], allOptions[i]];
-      if (correctAnswerIndex === i) correctAnswerIndex = j;
-      else if (correctAnswerIndex === j) correctAnswerIndex = i;
-    }
+    const scoring = getPubTriviaScoring(game);
+    const format = getQuestionFormat(question);
+    const { options: allOptions, correctAnswerIndex } = buildQuickFireOptions(question);
+    // Eliminating the only wrong true/false option would give the answer away
+    const eliminationOrder = getEliminationOrder(
+      allOptions.length,
+      correctAnswerIndex,
+      scoring.eliminationEnabled && format === 'multiple_choice'
+    );
 
     const startedAt = Date.now();
     const durationMs = (game.timer_seconds ?? 20) * 1_000;
@@ -106,6 +109,7 @@ export async function POST(
       .from('games')
       .update({
         current_question_started_at: new Date(startedAt).toISOString(),
+        pub_trivia_option_order: withOptionOrder(game, questionId, { options: allOptions, eliminationOrder }),
       })
       .eq('id', gameId)
       .is('current_question_started_at', null)
@@ -126,16 +130,22 @@ export async function POST(
       id: question.id,
       questionText: question.question_text,
       category: question.category,
+      format,
       options: allOptions,
     };
 
-    return NextResponse.json({
+    const response: StartQuestionResponse = {
       questionIndex: index,
       question: questionForPlayer,
       startedAt,
       correctAnswerIndex,
+      correctAnswer: question.answer_text,
+      eliminationOrder,
       durationMs,
-    });
+      scoring,
+    };
+
+    return NextResponse.json(response);
   } catch (error) {
     logger.error('Unexpected error starting pub trivia question', error, {
       operation: 'startPubTriviaQuestion',
@@ -2,6 +2,7 @@ import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
 import { canAccessPubTrivia, getMaxPubTriviaPlayers } from '@/lib/utils/feature-access';
 import { logger } from '@/lib/logger';
+import { isQuickFireReady } from '@/lib/utils/questionFormats';
 import type { Tables } from '@/types/database.types';
 import type { StartPubTriviaResponse } from '@/types/pub-trivia';
 
@@ -13,8 +14,8 @@ const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
  * Starts a pub trivia game:
  * 1. Verifies teacher auth and ownership
  * 2. Checks BASIC+ subscription
- * 3. Fetches questions with mc_options from the bank
- * 4. Validates all questions have mc_options
+ * 3. Fetches the bank's questions with their format settings
+ * 4. Keeps the questions Quick Fire can ask (multiple choice needs mc_options)
  * 5. Shuffles question order, stores in games.pub_trivia_question_order
  * 6. Updates game status to 'in_progress'
  * 7. Returns total question count and current players
@@ -79,12 +80,11 @@ export async function POST(
       return NextResponse.json({ error: 'Game has already started' }, { status: 409 });
     }
 
-    // Fetch questions for this bank that have mc_options
-    const { data: questions, error: qError } = await serviceClient
+    // Fetch questions for this bank; Jeopardy-only multiple choice questions are skipped below
+    const { data: bankQuestions, error: qError } = await serviceClient
       .from('questions')
-      .select('id, question_text, answer_text, category, mc_options, point_value')
-      .eq('bank_id', game.bank_id)
-      .not('mc_options', 'is', null);
+      .select('id, question_text, answer_text, category, mc_options, point_value, question_format, numeric_tolerance, ordering_items')
+      .eq('bank_id', game.bank_id);
 
     if (qError) {
       logger.error('Failed to fetch questions for pub trivia', qError, {
@@ -94,9 +94,11 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to load questions' }, { status: 500 });
     }
 
-    if (!questions || questions.length === 0) {
+    const questions = (bankQuestions ?? []).filter(isQuickFireReady);
+
+    if (questions.length === 0) {
       return NextResponse.json(
-        { error: 'This question bank has no Quick Fire-ready questions. Add wrong answer options to questions first.' },
+        { error: 'This question bank has no Quick Fire-ready questions. Add wrong answer options or choose another question format first.' },
         { status: 422 }
       );
     }
@@ -112,7 +114,7 @@ export async function POST(
     // Load current players (teams joined to game)
     const { data: players, error: playersError } = await serviceClient
       .from('teams')
-      .select('id, team_name, score, connection_status, player_icon')
+      .select('id, team_name, score, connection_status, player_icon, pub_trivia_team')
       .eq('game_id', gameId)
       .eq('connection_status', 'connected');
 
@@ -137,6 +139,7 @@ export async function POST(
       .update({
         status: 'in_progress',
         pub_trivia_question_order: questionOrder,
+        pub_trivia_option_order: null,
         current_question_index: 0,
         started_at: new Date().toISOString(),
       })
@@ -165,6 +168,7 @@ export async function POST(
         playerIcon: p.player_icon ?? null,
         score: p.score ?? 0,
         connectionStatus: p.connection_status,
+        teamName: p.pub_trivia_team,
       })),
     };
 
@@ -0,0 +1,271 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { readRoundResults } from '@/lib/api/pubTriviaRound';
+import { readPubTriviaTeamStandings } from '@/lib/api/pubTriviaTeams';
+import { buildQuickFireOptions, getEliminatedOptionIndices, getOptionOrder } from '@/lib/utils/pubTriviaOptions';
+import { getPubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { getPubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
+import { getQuestionFormat } from '@/lib/utils/questionFormats';
+import type { PubTriviaGameState, PubTriviaPhase } from '@/types/pub-trivia';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/games/[gameId]/pub-trivia/state
+ *
+ * Teacher or player reloads the full game state (e.g. after a page refresh):
+ * 1. Players pass ?playerId=&deviceId=, verified like answer submissions;
+ *    without them the caller must be the owning teacher
+ * 2. Derives the phase from the game row: setup, question (a question is
+ *    active), results (between rounds) or completed
+ * 3. During a question, returns the options in the order stored when it
+ *    started and the options eliminated so far; the correct answer's position
+ *    only goes to the teacher
+ * 4. Between rounds, returns the last round's results and correct answer
+ * 5. Returns the player's own answer, scores and any team standings
+ *
+ * Response: PubTriviaGameState
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    if (!UUID_RE.test(gameId)) {
+      return NextResponse.json({ error: 'Invalid game ID' }, { status: 400 });
+    }
+
+    const playerId = req.nextUrl.searchParams.get('playerId');
+    const deviceId = req.nextUrl.searchParams.get('deviceId');
+    const isPlayer = playerId !== null || deviceId !== null;
+
+    if (isPlayer && (!playerId || !deviceId || !UUID_RE.test(playerId) || !UUID_RE.test(deviceId))) {
+      return NextResponse.json({ error: 'playerId and deviceId must be valid UUIDs' }, { status: 400 });
+    }
+
+    const serviceClient = createAdminServiceClient();
+
+    const { data: game, error: gameError } = await serviceClient
+      .from('games')
+      .select('teacher_id, status, game_type, current_question_index, pub_trivia_question_order, current_question_started_at, timer_seconds, pub_trivia_scoring, pub_trivia_teams, pub_trivia_option_order')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.game_type !== 'pub_trivia') {
+      return NextResponse.json({ error: 'Not a pub trivia game' }, { status: 400 });
+    }
+
+    if (isPlayer) {
+      const { data: player, error: playerError } = await serviceClient
+        .from('teams')
+        .select('game_id, device_id')
+        .eq('id', playerId!)
+        .single();
+
+      if (playerError || !player) {
+        return NextResponse.json({ error: 'Player not found' }, { status: 404 });
+      }
+      if (player.game_id !== gameId) {
+        return NextResponse.json({ error: 'Player does not belong to this game' }, { status: 403 });
+      }
+      if (player.device_id !== deviceId) {
+        return NextResponse.json({ error: 'Device ID mismatch' }, { status: 403 });
+      }
+    } else {
+      const authClient = await createAdminServerClient();
+      const { data: { user }, error: authError } = await authClient.auth.getUser();
+      if (authError || !user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      if (game.teacher_id !== user.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    // The teacher also sees players awaiting approval
+    let playersQuery = serviceClient
+      .from('teams')
+      .select('id, team_name, score, connection_status, player_icon, pub_trivia_team')
+      .eq('game_id', gameId)
+      .order('score', { ascending: false });
+    if (isPlayer) {
+      playersQuery = playersQuery.neq('connection_status', 'pending');
+    }
+    const { data: players, error: playersError } = await playersQuery;
+
+    if (playersError) {
+      logger.error('Failed to fetch players for pub trivia state', playersError, {
+        operation: 'getPubTriviaState',
+        gameId,
+      });
+      return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+    }
+
+    const questionOrder = (game.pub_trivia_question_order as string[] | null) ?? [];
+    const index = game.current_question_index ?? 0;
+    const durationMs = (game.timer_seconds ?? 20) * 1_000;
+    const scoring = getPubTriviaScoring(game);
+    const teamPlay = getPubTriviaTeamPlay(game);
+
+    const phase: PubTriviaPhase =
+      game.status === 'completed'
+        ? 'completed'
+        : game.status !== 'in_progress'
+          ? 'setup'
+          : game.current_question_started_at
+            ? 'question'
+            : 'results';
+
+    const state: PubTriviaGameState = {
+      gameId,
+      phase,
+      players: (players ?? []).map((p) => ({
+        id: p.id,
+        playerName: p.team_name ?? 'Player',
+        playerIcon: p.player_icon ?? null,
+        score: p.score ?? 0,
+        connectionStatus: p.connection_status,
+        teamName: p.pub_trivia_team,
+      })),
+      totalQuestions: questionOrder.length,
+      currentQuestionIndex: index,
+      currentQuestion: null,
+      eliminatedOptionIndices: [],
+      questionStartedAt: null,
+      questionDurationMs: durationMs,
+      lastRoundResults: null,
+      lastRoundCorrectAnswer: null,
+      hasAnsweredCurrentQuestion: false,
+      playerAnswer: null,
+      correctAnswerIndex: null,
+      correctAnswer: null,
+      hasNextQuestion: phase === 'question' ? index + 1 < questionOrder.length : index < questionOrder.length,
+      scoring,
+      teamPlay,
+      teamResults: null,
+    };
+
+    // The question the player's answer is looked up for
+    let answeredQuestionId: string | null = null;
+
+    if (phase === 'question' && game.current_question_started_at && index < questionOrder.length) {
+      const questionId = questionOrder[index];
+      const { data: question, error: qError } = await serviceClient
+        .from('questions')
+        .select('id, question_text, answer_text, category, mc_options, question_format, numeric_tolerance, ordering_items')
+        .eq('id', questionId)
+        .single();
+
+      if (qError || !question) {
+        logger.error('Failed to fetch active pub trivia question', qError, {
+          operation: 'getPubTriviaState',
+          gameId,
+          questionId,
+        });
+        return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+      }
+
+      // Questions started before option orders were stored fall back to an
+      // unshuffled order
+      const optionOrder = getOptionOrder(game, questionId) ?? {
+        options: buildQuickFireOptions(question, () => 0.999).options,
+        eliminationOrder: [],
+      };
+      const startedAt = new Date(game.current_question_started_at).getTime();
+      const elapsedFraction = Math.min(1, Math.max(0, (Date.now() - startedAt) / durationMs));
+      const correctKey = question.answer_text.trim().toLowerCase();
+
+      state.currentQuestion = {
+        id: question.id,
+        questionText: question.question_text,
+        category: question.category,
+        format: getQuestionFormat(question),
+        options: optionOrder.options,
+      };
+      state.eliminatedOptionIndices = getEliminatedOptionIndices(optionOrder.eliminationOrder, elapsedFraction);
+      state.questionStartedAt = startedAt;
+      if (!isPlayer) {
+        state.correctAnswerIndex = optionOrder.options.findIndex((option) => option.trim().toLowerCase() === correctKey);
+        state.correctAnswer = question.answer_text;
+      }
+      answeredQuestionId = questionId;
+    } else if (phase === 'results' && index > 0) {
+      const lastQuestionId = questionOrder[index - 1];
+      const { data: lastQuestion, error: lastError } = await serviceClient
+        .from('questions')
+        .select('answer_text')
+        .eq('id', lastQuestionId)
+        .single();
+
+      if (lastError || !lastQuestion) {
+        logger.error('Failed to fetch last pub trivia question', lastError, {
+          operation: 'getPubTriviaState',
+          gameId,
+          questionId: lastQuestionId,
+        });
+        return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+      }
+
+      const results = await readRoundResults(serviceClient, gameId, questionOrder, index - 1);
+      if (!results) {
+        return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+      }
+      state.lastRoundResults = results;
+      state.lastRoundCorrectAnswer = lastQuestion.answer_text;
+      answeredQuestionId = lastQuestionId;
+    }
+
+    if (isPlayer && answeredQuestionId) {
+      const { data: answer, error: answerError } = await serviceClient
+        .from('pub_trivia_answers')
+        .select('answer_text, is_correct, points_earned')
+        .eq('game_id', gameId)
+        .eq('question_id', answeredQuestionId)
+        .eq('player_id', playerId!)
+        .maybeSingle();
+
+      if (answerError) {
+        logger.error('Failed to fetch player answer for pub trivia state', answerError, {
+          operation: 'getPubTriviaState',
+          gameId,
+        });
+        return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+      }
+      if (answer) {
+        state.playerAnswer = {
+          answerText: answer.answer_text,
+          isCorrect: answer.is_correct,
+          pointsEarned: answer.points_earned,
+        };
+        state.hasAnsweredCurrentQuestion = phase === 'question';
+      }
+    }
+
+    // current_question_index only advances when a round ends, so an active
+    // question's answers are left out until the teacher ends it
+    if (teamPlay && phase !== 'setup') {
+      state.teamResults = await readPubTriviaTeamStandings(
+        serviceClient,
+        gameId,
+        teamPlay,
+        questionOrder.slice(0, index)
+      );
+      if (!state.teamResults) {
+        return NextResponse.json({ error: 'Failed to load game state' }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json(state);
+  } catch (error) {
+    logger.error('Unexpected error loading pub trivia state', error, {
+      operation: 'getPubTriviaState',
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
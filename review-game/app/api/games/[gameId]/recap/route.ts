@@ -0,0 +1,195 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { saveGameRecap } from '@/lib/api/gameRecap';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { GameRecap } from '@/types/game';
+
+/**
+ * Authenticates the teacher and checks that they own the game.
+ * Returns the game on success, or the error response to send.
+ */
+async function authorizeTeacher(gameId: string) {
+  const supabase = await createAdminServerClient();
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!isValidUUID(gameId)) {
+    return { response: NextResponse.json({ error: 'Invalid game ID format' }, { status: 400 }) };
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('teacher_id, game_type, status')
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    return { response: NextResponse.json({ error: 'Game not found' }, { status: 404 }) };
+  }
+  if (game.teacher_id !== user.id) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { supabase, game };
+}
+
+/**
+ * GET /api/games/[gameId]/recap
+ * Returns the recap of a finished game.
+ *
+ * Verifies:
+ * - User owns the game
+ * - The game has a saved recap or is completed
+ *
+ * Actions:
+ * - Builds and saves the recap of a completed game that does not have one yet
+ *
+ * Response: { recap: GameRecap, shareToken: string }
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId);
+    if (auth.response) return auth.response;
+
+    // game_recaps has no RLS policies; read it with the service role now that
+    // ownership is verified
+    const serviceClient = createAdminServiceClient();
+    const { data: stored, error: recapError } = await serviceClient
+      .from('game_recaps')
+      .select('recap, share_token')
+      .eq('game_id', gameId)
+      .maybeSingle();
+
+    if (recapError) {
+      logger.error('Failed to read game recap', recapError, {
+        operation: 'getGameRecap',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load recap' },
+        { status: 500 }
+      );
+    }
+
+    if (stored) {
+      return NextResponse.json(
+        { recap: stored.recap as unknown as GameRecap, shareToken: stored.share_token },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+
+    if (auth.game.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'The recap is available once the game has ended' },
+        { status: 404 }
+      );
+    }
+
+    const saved = await saveGameRecap(serviceClient, gameId);
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to build recap' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(saved, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    logger.error('Get game recap failed', error, {
+      operation: 'getGameRecap',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/recap
+ * Ends a Jeopardy game from the game complete screen and saves its recap.
+ * Games with Final Jeopardy are already completed by final-jeopardy/advance;
+ * posting again rebuilds their recap.
+ *
+ * Verifies:
+ * - User owns the game
+ * - The game is a Jeopardy game (Quick Fire games end with pub-trivia/end)
+ *
+ * Actions:
+ * - Sets status to 'completed' and completed_at if the game is still running
+ * - Builds and saves the recap, keeping an existing share token
+ *
+ * Response: { recap: GameRecap, shareToken: string }
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId);
+    if (auth.response) return auth.response;
+
+    if (auth.game.game_type === 'pub_trivia') {
+      return NextResponse.json(
+        { error: 'Quick Fire games are ended from the Quick Fire teacher page' },
+        { status: 400 }
+      );
+    }
+
+    if (auth.game.status !== 'completed') {
+      const { error: updateError } = await auth.supabase
+        .from('games')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', gameId);
+
+      if (updateError) {
+        logger.error('Failed to complete game', updateError, {
+          operation: 'completeGame',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to end game' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const saved = await saveGameRecap(createAdminServiceClient(), gameId);
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to build recap' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Game recap saved', {
+      operation: 'completeGame',
+      gameId,
+      clueCount: saved.recap.clues.length,
+    });
+
+    return NextResponse.json(saved);
+  } catch (error) {
+    logger.error('Complete game failed', error, {
+      operation: 'completeGame',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
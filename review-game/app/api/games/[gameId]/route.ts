@@ -3,7 +3,20 @@ import { createAdminServerClient } from '@/lib/admin/auth';
 import type { TablesUpdate } from '@/types/database.types';
 import { logger } from '@/lib/logger';
 import { getMaxTeams, canAccessCustomTeamNames } from '@/lib/utils/feature-access';
-import { GAME_BOARD } from '@/lib/constants/game';
+import { ANSWER_TIMER, BUZZER } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import {
+  getDailyDoubleSettings,
+  hideRandomDailyDoubles,
+  validateDailyDoublePositions,
+  validateDailyDoubleSettings,
+} from '@/lib/utils/gameRounds';
+import { validateStealRules } from '@/lib/utils/stealRules';
+import { getDailyDoubleWagerRules, validateDailyDoubleWagerRules } from '@/lib/utils/dailyDoubleWager';
+import { validateHintPenalty } from '@/lib/utils/hints';
+import { validateAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { validateTieBreakerQuestion } from '@/lib/utils/tieBreaker';
 
 /**
  * GET /api/games/[gameId]
@@ -66,9 +79,10 @@ export async function GET(
       );
     }
 
-    // Flatten the response to include bank info at top level
+    // Flatten the response to include bank info at top level; random Daily
+    // Double cells stay hidden until they turn up on the board
     const formattedGame = {
-      ...game,
+      ...hideRandomDailyDoubles(game),
       bank_title: game.question_banks?.title || 'Unknown',
       bank_subject: game.question_banks?.subject || 'Unknown',
     };
@@ -198,8 +212,18 @@ export async function DELETE(
  * - team_names
  * - timer_enabled
  * - timer_seconds
- * - daily_double_positions
- * - final_jeopardy_question
+ * - answer_timer_seconds (null turns the answer clock off)
+ * - buzzer_lockout_ms
+ * - answer_mode
+ * - steal_enabled, deduct_incorrect, steal_restarts_timer, max_answer_attempts
+ * - hint_penalty_percent
+ * - daily_double_min_wager, daily_double_max_wager (null for the TV rule),
+ *   daily_double_allow_negative
+ * - daily_double_mode, daily_double_count (only if game hasn't started)
+ * - daily_double_positions (manual placement only; required when switching to
+ *   it or changing its count)
+ * - final_jeopardy_question (may include accepted_answers for the answer matcher)
+ * - tie_breaker_question (same shape; null draws the first clue from the bank)
  *
  * Validates all inputs and handles team record synchronization.
  */
@@ -237,17 +261,31 @@ export async function PATCH(
       team_names,
       timer_enabled,
       timer_seconds,
+      answer_timer_seconds,
+      buzzer_lockout_ms,
+      answer_mode,
+      steal_enabled,
+      deduct_incorrect,
+      steal_restarts_timer,
+      max_answer_attempts,
+      hint_penalty_percent,
       bank_id,
       num_teams,
+      daily_double_mode,
+      daily_double_count,
       daily_double_positions,
+      daily_double_min_wager,
+      daily_double_max_wager,
+      daily_double_allow_negative,
       final_jeopardy_question,
+      tie_breaker_question,
     } = body;
 
     // Check if game exists and user owns it (RLS-protected query)
     // Using eq('teacher_id', user.id) leverages RLS policies for defense in depth
     const { data: game, error: fetchError } = await supabase
       .from('games')
-      .select('id, teacher_id, status, started_at, num_teams')
+      .select('id, teacher_id, status, started_at, num_teams, board_categories, point_values, double_jeopardy_bank_id, daily_double_mode, daily_double_count, daily_double_min_wager, daily_double_max_wager')
       .eq('id', gameId)
       .eq('teacher_id', user.id) // RLS enforcement
       .single();
@@ -345,34 +383,129 @@ export async function PATCH(
       }
     }
 
-    // Validate daily_double_positions if provided
-    if (daily_double_positions !== undefined) {
-      if (!Array.isArray(daily_double_positions) || daily_double_positions.length !== GAME_BOARD.DAILY_DOUBLE_COUNT) {
+    // Validate answer clock if provided; null turns it off
+    if (answer_timer_seconds !== undefined && answer_timer_seconds !== null && (
+      typeof answer_timer_seconds !== 'number' ||
+      !Number.isInteger(answer_timer_seconds) ||
+      answer_timer_seconds < ANSWER_TIMER.MIN_SECONDS ||
+      answer_timer_seconds > ANSWER_TIMER.MAX_SECONDS
+    )) {
+      return NextResponse.json(
+        { error: `answer_timer_seconds must be null or an integer between ${ANSWER_TIMER.MIN_SECONDS} and ${ANSWER_TIMER.MAX_SECONDS}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate early-buzz lockout if provided
+    if (buzzer_lockout_ms !== undefined && (
+      typeof buzzer_lockout_ms !== 'number' ||
+      !Number.isInteger(buzzer_lockout_ms) ||
+      buzzer_lockout_ms < BUZZER.LOCKOUT_MIN_MS ||
+      buzzer_lockout_ms > BUZZER.LOCKOUT_MAX_MS
+    )) {
+      return NextResponse.json(
+        { error: `buzzer_lockout_ms must be an integer between ${BUZZER.LOCKOUT_MIN_MS} and ${BUZZER.LOCKOUT_MAX_MS}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate answer mode if provided
+    if (answer_mode !== undefined && answer_mode !== 'buzzer' && answer_mode !== 'all_play') {
+      return NextResponse.json(
+        { error: "answer_mode must be 'buzzer' or 'all_play'" },
+        { status: 400 }
+      );
+    }
+
+    // Validate steal rules if provided
+    const stealRulesError = validateStealRules({ steal_enabled, deduct_incorrect, steal_restarts_timer, max_answer_attempts });
+    if (stealRulesError) {
+      return NextResponse.json(
+        { error: stealRulesError },
+        { status: 400 }
+      );
+    }
+
+    // Validate hint penalty if provided
+    const hintPenaltyError = validateHintPenalty(hint_penalty_percent);
+    if (hintPenaltyError) {
+      return NextResponse.json(
+        { error: hintPenaltyError },
+        { status: 400 }
+      );
+    }
+
+    // Validate Daily Double wager rules if provided; the cap is compared
+    // against the game's current minimum when only one of them changes
+    const currentWagerRules = getDailyDoubleWagerRules(game);
+    const wagerRulesError = validateDailyDoubleWagerRules({
+      daily_double_min_wager: daily_double_min_wager ?? currentWagerRules.minWager,
+      daily_double_max_wager: daily_double_max_wager === undefined
+        ? currentWagerRules.maxWager
+        : daily_double_max_wager,
+      daily_double_allow_negative,
+    });
+    if (wagerRulesError) {
+      return NextResponse.json(
+        { error: wagerRulesError },
+        { status: 400 }
+      );
+    }
+
+    // Validate Daily Double placement if provided; random cells are picked
+    // when the game starts, so placement is fixed from then on
+    if (daily_double_mode !== undefined || daily_double_count !== undefined) {
+      if (game.started_at) {
         return NextResponse.json(
-          { error: `daily_double_positions must be an array of ${GAME_BOARD.DAILY_DOUBLE_COUNT} numbers` },
+          { error: 'Cannot change Daily Double placement after game has started' },
           { status: 400 }
         );
       }
-
-      // Basic validation: type and uniqueness
-      for (const pos of daily_double_positions) {
-        if (typeof pos !== 'number' || pos < 0) {
-          return NextResponse.json(
-            { error: 'daily_double_positions must contain non-negative numbers' },
-            { status: 400 }
-          );
-        }
+      const dailyDoubleSettingsError = validateDailyDoubleSettings(daily_double_mode, daily_double_count);
+      if (dailyDoubleSettingsError) {
+        return NextResponse.json(
+          { error: dailyDoubleSettingsError },
+          { status: 400 }
+        );
       }
-
-      if (daily_double_positions[0] === daily_double_positions[1]) {
+    }
+    const currentDailyDoubles = getDailyDoubleSettings(game);
+    const dailyDoubles = getDailyDoubleSettings({
+      daily_double_mode: daily_double_mode ?? currentDailyDoubles.mode,
+      daily_double_count: daily_double_count ?? currentDailyDoubles.count,
+    });
+    const dailyDoublePlacementChanged =
+      dailyDoubles.mode !== currentDailyDoubles.mode || dailyDoubles.count !== currentDailyDoubles.count;
+
+    // Validate daily_double_positions against the resulting placement: manual
+    // games only, cells must fit the board layout chosen at creation, with a
+    // round 2 set when Double Jeopardy is on
+    if (dailyDoubles.mode === 'manual') {
+      if (daily_double_positions === undefined && dailyDoublePlacementChanged) {
         return NextResponse.json(
-          { error: 'daily_double_positions must be unique' },
+          { error: 'daily_double_positions is required when switching to manual Daily Doubles or changing their count' },
           { status: 400 }
         );
       }
-
-      // Full validation against question count happens later, after bank_id is finalized
-      // This prevents race condition where we validate against a bank that might not get set
+      if (daily_double_positions !== undefined) {
+        const positionsError = validateDailyDoublePositions(
+          daily_double_positions,
+          !!game.double_jeopardy_bank_id,
+          getBoardLayout(game),
+          dailyDoubles.count
+        );
+        if (positionsError) {
+          return NextResponse.json(
+            { error: positionsError },
+            { status: 400 }
+          );
+        }
+      }
+    } else if (daily_double_positions !== undefined) {
+      return NextResponse.json(
+        { error: `daily_double_positions cannot be set when daily_double_mode is '${dailyDoubles.mode}'` },
+        { status: 400 }
+      );
     }
 
     // Validate final_jeopardy_question if provided
@@ -383,7 +516,7 @@ export async function PATCH(
           { status: 400 }
         );
       }
-      const { category, question, answer } = final_jeopardy_question;
+      const { category, question, answer, accepted_answers } = final_jeopardy_question;
 
       // Validate category
       if (typeof category !== 'string' || category.length === 0 || category.length > 100) {
@@ -431,6 +564,32 @@ export async function PATCH(
           { status: 400 }
         );
       }
+
+      // Validate optional alternates for the answer matcher
+      if (accepted_answers !== undefined && accepted_answers !== null) {
+        const acceptedAnswersError = validateAcceptedAnswers(
+          accepted_answers,
+          QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT,
+          200
+        );
+        if (acceptedAnswersError) {
+          return NextResponse.json(
+            { error: `final_jeopardy_question: ${acceptedAnswersError}` },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    // Validate tie_breaker_question if provided
+    if (tie_breaker_question !== undefined) {
+      const tieBreakerError = validateTieBreakerQuestion(tie_breaker_question);
+      if (tieBreakerError) {
+        return NextResponse.json(
+          { error: tieBreakerError },
+          { status: 400 }
+        );
+      }
     }
 
     // Validate team_names input sanitization and premium access
@@ -675,10 +834,62 @@ export async function PATCH(
       updates.timer_seconds = timer_seconds;
     }
 
+    if (answer_timer_seconds !== undefined) {
+      updates.answer_timer_seconds = answer_timer_seconds;
+    }
+
+    if (buzzer_lockout_ms !== undefined) {
+      updates.buzzer_lockout_ms = buzzer_lockout_ms;
+    }
+
+    if (answer_mode !== undefined) {
+      updates.answer_mode = answer_mode;
+    }
+
+    if (steal_enabled !== undefined) {
+      updates.steal_enabled = steal_enabled;
+    }
+
+    if (deduct_incorrect !== undefined) {
+      updates.deduct_incorrect = deduct_incorrect;
+    }
+
+    if (steal_restarts_timer !== undefined) {
+      updates.steal_restarts_timer = steal_restarts_timer;
+    }
+
+    if (hint_penalty_percent !== undefined) {
+      updates.hint_penalty_percent = hint_penalty_percent;
+    }
+
+    if (daily_double_min_wager !== undefined) {
+      updates.daily_double_min_wager = daily_double_min_wager;
+    }
+
+    if (daily_double_max_wager !== undefined) {
+      updates.daily_double_max_wager = daily_double_max_wager;
+    }
+
+    if (daily_double_allow_negative !== undefined) {
+      updates.daily_double_allow_negative = daily_double_allow_negative;
+    }
+
+    if (max_answer_attempts !== undefined) {
+      updates.max_answer_attempts = max_answer_attempts;
+    }
+
     if (bank_id && !game.started_at) {
       updates.bank_id = bank_id;
     }
 
+    if (dailyDoublePlacementChanged) {
+      updates.daily_double_mode = dailyDoubles.mode;
+      updates.daily_double_count = dailyDoubles.count;
+      if (dailyDoubles.mode !== 'manual') {
+        updates.daily_double_positions = null;
+      }
+    }
+
     if (daily_double_positions !== undefined) {
       updates.daily_double_positions = daily_double_positions;
     }
@@ -687,6 +898,10 @@ export async function PATCH(
       updates.final_jeopardy_question = final_jeopardy_question;
     }
 
+    if (tie_breaker_question !== undefined) {
+      updates.tie_breaker_question = tie_breaker_question;
+    }
+
     if (num_teams !== undefined) {
       updates.num_teams = num_teams;
     }
@@ -719,70 +934,6 @@ export async function PATCH(
       );
     }
 
-    // Validate daily double positions against final bank_id (post-update validation)
-    // This prevents race condition where bank_id changes but daily doubles validated against wrong bank
-    if (daily_double_positions !== undefined) {
-      const finalBankId = updatedGame.bank_id;
-
-      // Fetch question count from the final bank
-      const { count: questionCount, error: countError } = await supabase
-        .from('questions')
-        .select('*', { count: 'exact', head: true })
-        .eq('bank_id', finalBankId);
-
-      if (countError) {
-        logger.error('Failed to validate daily doubles against final bank', countError, {
-          operation: 'updateGame',
-          gameId,
-          bankId: finalBankId,
-        });
-        // Rollback: Remove daily doubles since they're invalid
-        await supabase
-          .from('games')
-          .update({ daily_double_positions: null })
-          .eq('id', gameId);
-
-        return NextResponse.json(
-          { error: 'Failed to validate daily double positions. Please regenerate them for this question bank.' },
-          { status: 400 }
-        );
-      }
-
-      // Validate positions against actual question count
-      const maxPosition = (questionCount || GAME_BOARD.TOTAL_QUESTIONS) - 1;
-      let invalidPositions = false;
-
-      for (const pos of daily_double_positions) {
-        if (pos > maxPosition) {
-          invalidPositions = true;
-          break;
-        }
-      }
-
-      if (invalidPositions) {
-        logger.error('Daily double positions exceed question bank size', new Error('Invalid positions'), {
-          operation: 'updateGame',
-          gameId,
-          bankId: finalBankId,
-          maxPosition,
-          positions: daily_double_positions,
-        });
-
-        // Rollback: Remove invalid daily doubles
-        await supabase
-          .from('games')
-          .update({ daily_double_positions: null })
-          .eq('id', gameId);
-
-        return NextResponse.json(
-          {
-            error: `Daily double positions must be between 0 and ${maxPosition} (bank has ${questionCount || GAME_BOARD.TOTAL_QUESTIONS} questions). Positions have been cleared - please regenerate them.`,
-          },
-          { status: 400 }
-        );
-      }
-    }
-
     logger.info('Game updated successfully', {
       operation: 'updateGame',
       gameId,
@@ -790,8 +941,8 @@ export async function PATCH(
       updates: Object.keys(updates),
     });
 
-    // Return updated game
-    return NextResponse.json(updatedGame);
+    // Return updated game, without random Daily Double cells
+    return NextResponse.json(hideRandomDailyDoubles(updatedGame));
   } catch (error) {
     logger.error('Game update failed', error, {
       operation: 'updateGame',
@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/scores/redo
+ * Re-applies the most recently undone score change.
+ *
+ * Verifies (in redo_score_event):
+ * - User owns the game
+ * - A change was undone and no new change has been recorded since
+ *
+ * Actions:
+ * - Adds the change back to the team score and clears its undone mark
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: result, error: rpcError } = await supabase.rpc('redo_score_event', {
+      p_game_id: gameId,
+    });
+
+    if (rpcError || !Array.isArray(result) || result.length === 0) {
+      logger.error('Database error during score redo', rpcError ?? new Error('Empty result'), {
+        operation: 'redoScoreEvent',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to redo score change' },
+        { status: 500 }
+      );
+    }
+
+    const redoResult = result[0];
+
+    if (!redoResult.success) {
+      const statusCode = redoResult.error_message?.startsWith('Unauthorized') ? 403 : 409;
+      return NextResponse.json(
+        { error: redoResult.error_message || 'Failed to redo score change' },
+        { status: statusCode }
+      );
+    }
+
+    logger.info('Score change redone', {
+      operation: 'redoScoreEvent',
+      gameId,
+      eventId: redoResult.event_id,
+      teamId: redoResult.team_id,
+      newScore: redoResult.new_score,
+    });
+
+    return NextResponse.json({
+      eventId: redoResult.event_id,
+      teamId: redoResult.team_id,
+      newScore: redoResult.new_score,
+    });
+  } catch (error) {
+    logger.error('Redo score change failed', error, {
+      operation: 'redoScoreEvent',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { SCORE_LEDGER } from '@/lib/constants/game';
+import { findRedoTarget, findUndoTarget } from '@/lib/utils/scoreLedger';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { Tables } from '@/types/database.types';
+import type { ScoreEvent, ScoreEventReason } from '@/types/game';
+
+/**
+ * Maps a score_events row to the shape returned to the teacher page.
+ */
+const toScoreEvent = (row: Tables<'score_events'>): ScoreEvent => ({
+  id: row.id,
+  teamId: row.team_id,
+  questionId: row.question_id,
+  delta: row.delta,
+  reason: row.reason as ScoreEventReason,
+  note: row.note,
+  createdAt: row.created_at,
+  undoneAt: row.undone_at,
+});
+
+/**
+ * GET /api/games/[gameId]/scores
+ * Returns the score ledger for a game, newest change first.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Response: { events: ScoreEvent[], canUndo: boolean, canRedo: boolean }
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // score_events has no RLS policies; read it with the service role now
+    // that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const { data: rows, error: eventsError } = await serviceClient
+      .from('score_events')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('created_at', { ascending: false });
+
+    if (eventsError) {
+      logger.error('Failed to read score ledger', eventsError, {
+        operation: 'getScoreLedger',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to read score history' },
+        { status: 500 }
+      );
+    }
+
+    const events = (rows ?? []).map(toScoreEvent);
+
+    return NextResponse.json(
+      {
+        events,
+        canUndo: findUndoTarget(events) !== null,
+        canRedo: findRedoTarget(events) !== null,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Get score ledger failed', error, {
+      operation: 'getScoreLedger',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/scores
+ * Applies a manual score adjustment with the teacher's reason.
+ *
+ * Body: { teamId: string, delta: number, note: string }
+ *
+ * Verifies:
+ * - delta is a non-zero whole number within SCORE_LEDGER.MAX_ADJUSTMENT
+ * - note is non-empty and at most SCORE_LEDGER.MAX_NOTE_LENGTH characters
+ * - User owns the game and the team belongs to it (checked by update_team_score)
+ *
+ * Actions:
+ * - Updates the team score and records a 'manual_adjustment' score event
+ *   using update_team_score
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, delta, note } = body;
+
+    if (typeof teamId !== 'string' || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'A valid teamId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof delta !== 'number' ||
+      !Number.isInteger(delta) ||
+      delta === 0 ||
+      Math.abs(delta) > SCORE_LEDGER.MAX_ADJUSTMENT
+    ) {
+      return NextResponse.json(
+        { error: `delta must be a non-zero whole number between -${SCORE_LEDGER.MAX_ADJUSTMENT} and ${SCORE_LEDGER.MAX_ADJUSTMENT}` },
+        { status: 400 }
+      );
+    }
+
+    const trimmedNote = typeof note === 'string' ? note.trim() : '';
+    if (!trimmedNote || trimmedNote.length > SCORE_LEDGER.MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `A reason of 1-${SCORE_LEDGER.MAX_NOTE_LENGTH} characters is required` },
+        { status: 400 }
+      );
+    }
+
+    const { data: result, error: rpcError } = await supabase.rpc('update_team_score', {
+      p_team_id: teamId,
+      p_score_change: delta,
+      p_game_id: gameId,
+      p_reason: 'manual_adjustment',
+      p_note: trimmedNote,
+    });
+
+    if (rpcError || !Array.isArray(result) || result.length === 0) {
+      logger.error('Database error during manual score adjustment', rpcError ?? new Error('Empty result'), {
+        operation: 'adjustScore',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to adjust score' },
+        { status: 500 }
+      );
+    }
+
+    const adjustResult = result[0];
+
+    if (!adjustResult.success) {
+      const statusCode = adjustResult.error_message?.startsWith('Unauthorized') ? 403 : 400;
+      return NextResponse.json(
+        { error: adjustResult.error_message || 'Failed to adjust score' },
+        { status: statusCode }
+      );
+    }
+
+    logger.info('Score adjusted manually', {
+      operation: 'adjustScore',
+      gameId,
+      teamId,
+      delta,
+      newScore: adjustResult.new_score,
+    });
+
+    return NextResponse.json({
+      teamId,
+      delta,
+      newScore: adjustResult.new_score,
+    });
+  } catch (error) {
+    logger.error('Manual score adjustment failed', error, {
+      operation: 'adjustScore',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/scores/undo
+ * Reverts the most recent score change that has not been undone.
+ *
+ * Verifies (in undo_score_event):
+ * - User owns the game
+ * - There is a change to undo and it is not a score reset
+ *
+ * Actions:
+ * - Subtracts the change from the team score and marks the event undone
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: result, error: rpcError } = await supabase.rpc('undo_score_event', {
+      p_game_id: gameId,
+    });
+
+    if (rpcError || !Array.isArray(result) || result.length === 0) {
+      logger.error('Database error during score undo', rpcError ?? new Error('Empty result'), {
+        operation: 'undoScoreEvent',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to undo score change' },
+        { status: 500 }
+      );
+    }
+
+    const undoResult = result[0];
+
+    if (!undoResult.success) {
+      const statusCode = undoResult.error_message?.startsWith('Unauthorized') ? 403 : 409;
+      return NextResponse.json(
+        { error: undoResult.error_message || 'Failed to undo score change' },
+        { status: statusCode }
+      );
+    }
+
+    logger.info('Score change undone', {
+      operation: 'undoScoreEvent',
+      gameId,
+      eventId: undoResult.event_id,
+      teamId: undoResult.team_id,
+      newScore: undoResult.new_score,
+    });
+
+    return NextResponse.json({
+      eventId: undoResult.event_id,
+      teamId: undoResult.team_id,
+      newScore: undoResult.new_score,
+    });
+  } catch (error) {
+    logger.error('Undo score change failed', error, {
+      operation: 'undoScoreEvent',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
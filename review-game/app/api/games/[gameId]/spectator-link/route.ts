@@ -0,0 +1,221 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * Authenticates the teacher and checks that they own the Jeopardy game.
+ * Returns the teacher's user ID on success, or the error response to send.
+ */
+async function authorizeTeacher(gameId: string) {
+  const supabase = await createAdminServerClient();
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!isValidUUID(gameId)) {
+    return { response: NextResponse.json({ error: 'Invalid game ID format' }, { status: 400 }) };
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('teacher_id, game_type')
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    return { response: NextResponse.json({ error: 'Game not found' }, { status: 404 }) };
+  }
+  if (game.teacher_id !== user.id) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  if (game.game_type === 'pub_trivia') {
+    return {
+      response: NextResponse.json(
+        { error: 'Spectator links are only available for Jeopardy games' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * GET /api/games/[gameId]/spectator-link
+ * Returns the game's spectator link token, if one is active.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Response: { token: string | null }
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId);
+    if (auth.response) return auth.response;
+
+    // game_spectator_links has no RLS policies; read it with the service role
+    // now that ownership is verified
+    const serviceClient = createAdminServiceClient();
+    const { data: link, error: linkError } = await serviceClient
+      .from('game_spectator_links')
+      .select('token')
+      .eq('game_id', gameId)
+      .maybeSingle();
+
+    if (linkError) {
+      logger.error('Failed to read spectator link', linkError, {
+        operation: 'getSpectatorLink',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load spectator link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { token: link?.token ?? null },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Fetch spectator link failed', error, {
+      operation: 'getSpectatorLink',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/spectator-link
+ * Creates the game's spectator link, or replaces it with a new token.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Actions:
+ * - Upserts game_spectator_links with a fresh token; screens using the old
+ *   link stop updating at their next refresh
+ *
+ * Response: { token }
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId);
+    if (auth.response) return auth.response;
+
+    const serviceClient = createAdminServiceClient();
+    const { data: link, error: upsertError } = await serviceClient
+      .from('game_spectator_links')
+      .upsert(
+        {
+          game_id: gameId,
+          token: crypto.randomUUID(),
+          created_by: auth.userId,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: 'game_id' }
+      )
+      .select('token')
+      .single();
+
+    if (upsertError || !link) {
+      logger.error('Failed to create spectator link', upsertError ?? undefined, {
+        operation: 'createSpectatorLink',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to create spectator link' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Spectator link created', {
+      operation: 'createSpectatorLink',
+      gameId,
+    });
+
+    return NextResponse.json({ token: link.token });
+  } catch (error) {
+    logger.error('Create spectator link failed', error, {
+      operation: 'createSpectatorLink',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/games/[gameId]/spectator-link
+ * Revokes the game's spectator link.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Actions:
+ * - Deletes the game_spectator_links row; open spectator screens show the
+ *   link as turned off at their next refresh
+ *
+ * Response: { success: true }
+ */
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId);
+    if (auth.response) return auth.response;
+
+    const serviceClient = createAdminServiceClient();
+    const { error: deleteError } = await serviceClient
+      .from('game_spectator_links')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (deleteError) {
+      logger.error('Failed to revoke spectator link', deleteError, {
+        operation: 'revokeSpectatorLink',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to turn off spectator link' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Spectator link revoked', {
+      operation: 'revokeSpectatorLink',
+      gameId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Revoke spectator link failed', error, {
+      operation: 'revokeSpectatorLink',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/start.
+ *
+ * Random and weighted Daily Double placement is decided here, so the tests
+ * check which games get cells written on start and which keep their own.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+const mockGetUser = vi.fn();
+const mockSingle = vi.fn();
+const mockUpdate = vi.fn();
+const mockUpdateResult = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: async () => ({
+    auth: { getUser: () => mockGetUser() },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: () => mockSingle(),
+        }),
+      }),
+      update: (updates: unknown) => {
+        mockUpdate(updates);
+        return {
+          eq: () => ({
+            eq: () => ({
+              neq: () => ({
+                select: () => mockUpdateResult(),
+              }),
+            }),
+          }),
+        };
+      },
+    }),
+  }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+
+const makeGame = (overrides: Record<string, unknown> = {}) => ({
+  teacher_id: TEACHER_USER_ID,
+  status: 'setup',
+  game_type: 'jeopardy',
+  board_categories: 6,
+  point_values: [100, 200, 300, 400, 500],
+  double_jeopardy_bank_id: null,
+  daily_double_mode: 'manual',
+  daily_double_count: 2,
+  ...overrides,
+});
+
+function makeRequest(gameId: string) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/start`, { method: 'POST' });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/start', () => {
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: TEACHER_USER_ID } },
+      error: null,
+    });
+    mockSingle.mockResolvedValue({ data: makeGame(), error: null });
+    mockUpdateResult.mockResolvedValue({ data: [{ id: VALID_GAME_ID }], error: null });
+
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  // ── Auth and validation ────────────────────────────────────────────────────
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null }, error: new Error('No session') });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 400 for invalid game UUID', async () => {
+    const res = await POST(makeRequest('not-a-uuid'), makeContext('not-a-uuid'));
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 403 when the user does not own the game', async () => {
+    mockSingle.mockResolvedValue({ data: makeGame({ teacher_id: 'someone-else' }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(403);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the game is already active', async () => {
+    mockSingle.mockResolvedValue({ data: makeGame({ status: 'active' }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when another request started the game first', async () => {
+    mockUpdateResult.mockResolvedValue({ data: [], error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+  });
+
+  // ── Daily Double placement ─────────────────────────────────────────────────
+
+  it('keeps the cells of a manual game', async () => {
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(mockUpdate.mock.calls[0][0]).toMatchObject({ status: 'active' });
+    expect(mockUpdate.mock.calls[0][0]).not.toHaveProperty('daily_double_positions');
+  });
+
+  it('picks cells for every round of a random game', async () => {
+    mockSingle.mockResolvedValue({
+      data: makeGame({ daily_double_mode: 'random', daily_double_count: 1, double_jeopardy_bank_id: 'dj-bank' }),
+      error: null,
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    const positions = mockUpdate.mock.calls[0][0].daily_double_positions;
+    expect(positions.filter((dd: { round: number }) => dd.round === 1)).toHaveLength(1);
+    expect(positions.filter((dd: { round: number }) => dd.round === 2)).toHaveLength(2);
+    expect(positions.every((dd: { category: number }) => dd.category < 6)).toBe(true);
+  });
+
+  it('does not return the picked cells', async () => {
+    mockSingle.mockResolvedValue({ data: makeGame({ daily_double_mode: 'weighted' }), error: null });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    const body = await res.json();
+    expect(body.status).toBe('active');
+    expect(body).not.toHaveProperty('daily_double_positions');
+  });
+});
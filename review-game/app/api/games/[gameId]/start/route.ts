@@ -0,0 +1,125 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import {
+  generateDailyDoublePositions,
+  getDailyDoubleSettings,
+  isRandomDailyDoubleMode,
+} from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { Json, TablesUpdate } from '@/types/database.types';
+
+/**
+ * POST /api/games/[gameId]/start
+ * Starts a game from the teacher's lobby.
+ *
+ * Verifies:
+ * - User owns the game
+ * - Game is not already active
+ *
+ * Actions:
+ * - Sets status to 'active' and started_at
+ * - For 'random' and 'weighted' Daily Double placement, picks the cells of
+ *   every round now; the game settings APIs never return them
+ *
+ * Response: { status: 'active', started_at: string }
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, game_type, board_categories, point_values, double_jeopardy_bank_id, daily_double_mode, daily_double_count')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status === 'active') {
+      return NextResponse.json({ error: 'Game has already started' }, { status: 409 });
+    }
+
+    const startedAt = new Date().toISOString();
+    const updates: TablesUpdate<'games'> = {
+      status: 'active',
+      started_at: startedAt,
+    };
+
+    const dailyDoubles = getDailyDoubleSettings(game);
+    if (game.game_type === 'jeopardy' && isRandomDailyDoubleMode(dailyDoubles.mode)) {
+      const positions = generateDailyDoublePositions(
+        game.double_jeopardy_bank_id ? [1, DOUBLE_JEOPARDY.ROUND] : [1],
+        getBoardLayout(game),
+        dailyDoubles
+      );
+      updates.daily_double_positions = positions as unknown as Json;
+    }
+
+    // Guard on status so two clicks cannot both start the game
+    const { data: updated, error: updateError } = await supabase
+      .from('games')
+      .update(updates)
+      .eq('id', gameId)
+      .eq('teacher_id', user.id)
+      .neq('status', 'active')
+      .select('id');
+
+    if (updateError) {
+      logger.error('Failed to start game', updateError, {
+        operation: 'startGame',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start game' },
+        { status: 500 }
+      );
+    }
+    if (!updated || updated.length === 0) {
+      return NextResponse.json({ error: 'Game has already started' }, { status: 409 });
+    }
+
+    logger.info('Game started', {
+      operation: 'startGame',
+      gameId,
+      dailyDoubleMode: dailyDoubles.mode,
+    });
+
+    return NextResponse.json({ status: 'active', started_at: startedAt });
+  } catch (error) {
+    logger.error('Start game failed', error, {
+      operation: 'startGame',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,321 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { readBuzzQueue } from '@/lib/api/buzzQueue';
+import { getGameBankIds } from '@/lib/utils/gameRounds';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { GamePhase, GameStateSnapshot } from '@/types/game';
+
+/**
+ * GET /api/games/[gameId]/state
+ * Returns a snapshot of the live Jeopardy state so the board can rehydrate
+ * the game store after a refresh.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Response: GameStateSnapshot — open clue, revealed answer and hint, Daily Double wager,
+ * arming state, buzz queue and all-play submissions for the open clue and the
+ * Final Jeopardy phase.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, current_phase, current_question_id, answer_revealed, hint_revealed, daily_double_team_id, daily_double_wager, buzzers_armed_question_id, final_jeopardy_question_revealed, all_play_question_id, all_play_closes_at')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const currentQuestionId = game.current_question_id;
+    let buzzQueue: GameStateSnapshot['buzzQueue'] = null;
+    let allPlay: GameStateSnapshot['allPlay'] = null;
+
+    if (currentQuestionId) {
+      // buzzes has no RLS policies; read it with the service role now that
+      // ownership has been verified
+      const serviceClient = createAdminServiceClient();
+      const queue = await readBuzzQueue(serviceClient, gameId, currentQuestionId);
+      if (!queue) {
+        return NextResponse.json(
+          { error: 'Failed to read buzz queue' },
+          { status: 500 }
+        );
+      }
+      buzzQueue = { questionId: currentQuestionId, queue, revision: Date.now() };
+
+      if (game.all_play_question_id === currentQuestionId) {
+        const { data: responses, error: responsesError } = await serviceClient
+          .from('clue_responses')
+          .select('team_id')
+          .eq('game_id', gameId)
+          .eq('question_id', currentQuestionId);
+
+        if (responsesError) {
+          logger.error('Failed to read all-play responses', responsesError, {
+            operation: 'getGameState',
+            gameId,
+            questionId: currentQuestionId,
+          });
+          return NextResponse.json(
+            { error: 'Failed to read all-play responses' },
+            { status: 500 }
+          );
+        }
+
+        allPlay = {
+          questionId: currentQuestionId,
+          closesAt: game.all_play_closes_at,
+          submittedTeamIds: (responses ?? []).map((response) => response.team_id),
+        };
+      }
+    }
+
+    const snapshot: GameStateSnapshot = {
+      currentPhase: (game.current_phase ?? 'regular') as GamePhase,
+      currentQuestionId,
+      answerRevealed: currentQuestionId !== null && game.answer_revealed,
+      hintRevealed: currentQuestionId !== null && game.hint_revealed,
+      dailyDouble:
+        currentQuestionId && game.daily_double_team_id && game.daily_double_wager !== null
+          ? { teamId: game.daily_double_team_id, wager: game.daily_double_wager }
+          : null,
+      buzzersArmed: currentQuestionId !== null && game.buzzers_armed_question_id === currentQuestionId,
+      buzzQueue,
+      finalJeopardyQuestionRevealed: game.final_jeopardy_question_revealed,
+      allPlay,
+    };
+
+    return NextResponse.json(snapshot, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Fetch game state failed', error, {
+      operation: 'getGameState',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/games/[gameId]/state
+ * Saves the live Jeopardy state whenever it changes on the board.
+ *
+ * Body: GameLiveState
+ * { currentQuestionId: string | null, answerRevealed: boolean, hintRevealed: boolean,
+ *   dailyDouble: { teamId: string, wager: number } | null }
+ *
+ * Verifies:
+ * - User owns the game
+ * - The question belongs to one of the game's banks and the Daily Double team to the game
+ * - A Daily Double wager matches the one recorded by POST /api/games/[gameId]/daily-double/wager,
+ *   which checks it against the game's wager rules
+ *
+ * Actions:
+ * - Replaces games.current_question_id, answer_revealed, hint_revealed,
+ *   daily_double_team_id and daily_double_wager. Clearing the clue clears the rest.
+ * - Turning hint_revealed on logs the reveal in game_hint_reveals (by trigger)
+ */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { currentQuestionId, answerRevealed, hintRevealed, dailyDouble } = body;
+
+    if (currentQuestionId !== null && (typeof currentQuestionId !== 'string' || !isValidUUID(currentQuestionId))) {
+      return NextResponse.json(
+        { error: 'currentQuestionId must be a valid question ID or null' },
+        { status: 400 }
+      );
+    }
+    if (typeof answerRevealed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'answerRevealed must be a boolean' },
+        { status: 400 }
+      );
+    }
+    if (typeof hintRevealed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'hintRevealed must be a boolean' },
+        { status: 400 }
+      );
+    }
+    if (dailyDouble !== null) {
+      if (
+        typeof dailyDouble !== 'object' ||
+        typeof dailyDouble.teamId !== 'string' ||
+        !isValidUUID(dailyDouble.teamId) ||
+        !Number.isInteger(dailyDouble.wager) ||
+        dailyDouble.wager <= 0
+      ) {
+        return NextResponse.json(
+          { error: 'dailyDouble must contain a valid teamId and a positive integer wager' },
+          { status: 400 }
+        );
+      }
+      if (currentQuestionId === null) {
+        return NextResponse.json(
+          { error: 'A Daily Double wager requires an open question' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, bank_id, double_jeopardy_bank_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (currentQuestionId !== null) {
+      const { data: question, error: questionError } = await supabase
+        .from('questions')
+        .select('id')
+        .eq('id', currentQuestionId)
+        .in('bank_id', getGameBankIds(game))
+        .maybeSingle();
+
+      if (questionError || !question) {
+        return NextResponse.json({ error: 'Question not found in this game' }, { status: 404 });
+      }
+    }
+
+    if (dailyDouble !== null) {
+      const { data: team, error: teamError } = await supabase
+        .from('teams')
+        .select('id')
+        .eq('id', dailyDouble.teamId)
+        .eq('game_id', gameId)
+        .maybeSingle();
+
+      if (teamError || !team) {
+        return NextResponse.json({ error: 'Team not found in this game' }, { status: 404 });
+      }
+
+      // wagers has no RLS policies; read it with the service role now that
+      // ownership has been verified
+      const { data: recordedWager, error: wagerError } = await createAdminServiceClient()
+        .from('wagers')
+        .select('id')
+        .eq('game_id', gameId)
+        .eq('team_id', dailyDouble.teamId)
+        .eq('question_id', currentQuestionId)
+        .eq('wager_type', 'daily_double')
+        .eq('wager_amount', dailyDouble.wager)
+        .maybeSingle();
+
+      if (wagerError) {
+        logger.error('Failed to read Daily Double wager', wagerError, {
+          operation: 'saveGameState',
+          gameId,
+          currentQuestionId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to save game state' },
+          { status: 500 }
+        );
+      }
+      if (!recordedWager) {
+        return NextResponse.json(
+          { error: 'Daily Double wager has not been submitted' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({
+        current_question_id: currentQuestionId,
+        answer_revealed: currentQuestionId !== null && answerRevealed,
+        hint_revealed: currentQuestionId !== null && hintRevealed,
+        daily_double_team_id: dailyDouble?.teamId ?? null,
+        daily_double_wager: dailyDouble?.wager ?? null,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (updateError) {
+      logger.error('Failed to save game state', updateError, {
+        operation: 'saveGameState',
+        gameId,
+        currentQuestionId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to save game state' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Save game state failed', error, {
+      operation: 'saveGameState',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
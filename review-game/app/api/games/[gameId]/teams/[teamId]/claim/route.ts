@@ -10,13 +10,18 @@ import { logger } from '@/lib/logger';
  *
  * Verifies:
  * - Team exists and belongs to game
- * - Team is not already claimed by a different device
+ * - Device is one of the team's members, or the team is unclaimed
  * - deviceId is valid
  *
  * Actions:
- * - Updates team.device_id if unclaimed
- * - Returns success if already claimed by this device
- * - Returns error if claimed by different device
+ * - Updates team.device_id if unclaimed and makes this device the captain
+ * - Returns success if this device is already on the team
+ * - Returns error if the team belongs to other devices; those must join it
+ *   through POST /api/games/[gameId]/teams/[teamId]/members
+ * - Returns REJOIN_CODE_REQUIRED if the teacher released the team's device;
+ *   it is reclaimed through POST /api/games/[gameId]/teams/rejoin
+ *
+ * Response: { success, message, teamName, teamNumber, isCaptain }
  */
 export async function POST(
   req: NextRequest,
@@ -61,6 +66,7 @@ export async function POST(
       error?: string;
       message?: string;
       already_claimed?: boolean;
+      is_captain?: boolean;
       team_name?: string;
       team_number?: number;
     }
@@ -145,6 +151,7 @@ export async function POST(
         : 'Team claimed successfully',
       teamName: result.team_name,
       teamNumber: result.team_number,
+      isCaptain: result.is_captain ?? false,
     });
   } catch (error) {
     logger.error('Team claim failed', error, {
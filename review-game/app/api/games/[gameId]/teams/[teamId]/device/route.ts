@@ -0,0 +1,299 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { TEAM_RECOVERY } from '@/lib/constants/game';
+import { generateRejoinCode } from '@/lib/utils/teamMembers';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { Tables } from '@/types/database.types';
+import type { RejoinCode, TeamDeviceAction, TeamDeviceEvent, TeamMember } from '@/types/game';
+
+/**
+ * Attempts at issuing a rejoin code that is not already in use in the game
+ */
+const MAX_CODE_ATTEMPTS = 3;
+
+/**
+ * Maps a team_device_events row to the shape returned to the teacher page.
+ */
+const toTeamDeviceEvent = (row: Tables<'team_device_events'>): TeamDeviceEvent => ({
+  id: row.id,
+  action: row.action as TeamDeviceAction,
+  previousDisplayName: row.previous_display_name,
+  newDisplayName: row.new_display_name,
+  createdAt: row.created_at,
+});
+
+/**
+ * Authenticates the teacher and checks that they own the game.
+ * Returns the server client on success, or the error response to send.
+ */
+async function authorizeTeacher(gameId: string, teamId: string) {
+  const supabase = await createAdminServerClient();
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!isValidUUID(gameId) || !isValidUUID(teamId)) {
+    return { response: NextResponse.json({ error: 'Invalid ID format' }, { status: 400 }) };
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('teacher_id')
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    return { response: NextResponse.json({ error: 'Game not found' }, { status: 404 }) };
+  }
+  if (game.teacher_id !== user.id) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { supabase };
+}
+
+/**
+ * GET /api/games/[gameId]/teams/[teamId]/device
+ * Returns a team's devices, its outstanding rejoin code and its device
+ * audit trail for the teacher control page.
+ *
+ * Verifies:
+ * - User owns the game
+ *
+ * Response: { members: TeamMember[], rejoinCode: RejoinCode | null,
+ *             events: TeamDeviceEvent[] } with events newest first
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string; teamId: string }> }
+) {
+  try {
+    const { gameId, teamId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId, teamId);
+    if (auth.response) return auth.response;
+
+    // team_members, team_rejoin_codes and team_device_events have no RLS
+    // policies; read them with the service role now that ownership is verified
+    const serviceClient = createAdminServiceClient();
+
+    const [membersResult, codeResult, eventsResult] = await Promise.all([
+      serviceClient
+        .from('team_members')
+        .select('id, display_name, is_captain, joined_at')
+        .eq('game_id', gameId)
+        .eq('team_id', teamId)
+        .order('joined_at', { ascending: true }),
+      serviceClient
+        .from('team_rejoin_codes')
+        .select('code, expires_at')
+        .eq('game_id', gameId)
+        .eq('team_id', teamId)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle(),
+      serviceClient
+        .from('team_device_events')
+        .select('*')
+        .eq('game_id', gameId)
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const readError = membersResult.error ?? codeResult.error ?? eventsResult.error;
+    if (readError) {
+      logger.error('Failed to read team devices', readError, {
+        operation: 'getTeamDevices',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load team devices' },
+        { status: 500 }
+      );
+    }
+
+    const members: TeamMember[] = (membersResult.data ?? []).map((row) => ({
+      id: row.id,
+      displayName: row.display_name,
+      isCaptain: row.is_captain,
+      joinedAt: row.joined_at,
+      isYou: false,
+    }));
+
+    const rejoinCode: RejoinCode | null = codeResult.data
+      ? { code: codeResult.data.code, expiresAt: codeResult.data.expires_at }
+      : null;
+
+    return NextResponse.json(
+      {
+        members,
+        rejoinCode,
+        events: (eventsResult.data ?? []).map(toTeamDeviceEvent),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Get team devices failed', error, {
+      operation: 'getTeamDevices',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/teams/[teamId]/device
+ * Recovers a team whose captain device was lost.
+ *
+ * Body: { action: 'release' } or { action: 'transfer', memberId: string }
+ *
+ * Verifies:
+ * - User owns the game and the team belongs to it (checked by the database
+ *   functions)
+ * - For a transfer, memberId is a non-captain member of the team
+ *
+ * Actions:
+ * - release: removes the captain's device, clears teams.device_id and issues
+ *   a one-time rejoin code valid for TEAM_RECOVERY.REJOIN_CODE_TTL_MINUTES
+ *   using release_team_device
+ * - transfer: makes the member the captain and removes the old captain's
+ *   device using transfer_team_captain
+ * - Both are recorded in team_device_events
+ *
+ * Response: { rejoinCode: RejoinCode } for a release, { captain: string }
+ * with the new captain's display name for a transfer
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string; teamId: string }> }
+) {
+  try {
+    const { gameId, teamId } = await context.params;
+
+    const auth = await authorizeTeacher(gameId, teamId);
+    if (auth.response) return auth.response;
+    const { supabase } = auth;
+
+    const body = await req.json();
+    const { action, memberId } = body;
+
+    if (action !== 'release' && action !== 'transfer') {
+      return NextResponse.json(
+        { error: "action must be 'release' or 'transfer'" },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'transfer' && (typeof memberId !== 'string' || !isValidUUID(memberId))) {
+      return NextResponse.json(
+        { error: 'A valid memberId is required' },
+        { status: 400 }
+      );
+    }
+
+    type DeviceResult =
+      | { success: true; code?: string; expires_at?: string; display_name?: string }
+      | { success: false; error_code: string };
+
+    let result: DeviceResult | null = null;
+
+    if (action === 'release') {
+      // Codes are only unique within a game; draw again on the rare collision
+      for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const { data, error: rpcError } = await supabase.rpc('release_team_device', {
+          p_game_id: gameId,
+          p_team_id: teamId,
+          p_code: generateRejoinCode(),
+          p_ttl_minutes: TEAM_RECOVERY.REJOIN_CODE_TTL_MINUTES,
+        });
+
+        if (rpcError) {
+          logger.error('Database error releasing team device', rpcError, {
+            operation: 'releaseTeamDevice',
+            gameId,
+            teamId,
+          });
+          return NextResponse.json(
+            { error: 'Failed to release device' },
+            { status: 500 }
+          );
+        }
+
+        result = data as unknown as DeviceResult;
+        if (result?.success || result?.error_code !== 'code_taken') break;
+      }
+    } else {
+      const { data, error: rpcError } = await supabase.rpc('transfer_team_captain', {
+        p_game_id: gameId,
+        p_team_id: teamId,
+        p_member_id: memberId,
+      });
+
+      if (rpcError) {
+        logger.error('Database error transferring team captain', rpcError, {
+          operation: 'transferTeamCaptain',
+          gameId,
+          teamId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to transfer captain' },
+          { status: 500 }
+        );
+      }
+
+      result = data as unknown as DeviceResult;
+    }
+
+    if (!result?.success) {
+      const errorCode = result?.error_code ?? 'unknown';
+      logger.warn('Team device change rejected', {
+        operation: 'changeTeamDevice',
+        gameId,
+        teamId,
+        action,
+        errorCode,
+      });
+
+      const errors: Record<string, { error: string; status: number }> = {
+        unauthorized: { error: 'Forbidden', status: 403 },
+        team_not_found: { error: 'Team not found', status: 404 },
+        member_not_found: { error: 'That device is no longer on this team', status: 404 },
+        already_captain: { error: 'That device is already the captain', status: 409 },
+      };
+      const { error, status } = errors[errorCode] ?? { error: 'Failed to update team device', status: 500 };
+
+      return NextResponse.json(
+        { error, code: errorCode },
+        { status }
+      );
+    }
+
+    logger.info('Team device changed', {
+      operation: 'changeTeamDevice',
+      gameId,
+      teamId,
+      action,
+    });
+
+    if (action === 'release') {
+      return NextResponse.json({
+        rejoinCode: { code: result.code, expiresAt: result.expires_at },
+      });
+    }
+
+    return NextResponse.json({ captain: result.display_name });
+  } catch (error) {
+    logger.error('Team device change failed', error, {
+      operation: 'changeTeamDevice',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
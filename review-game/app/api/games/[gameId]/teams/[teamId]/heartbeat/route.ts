@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { verifyDeviceOwnsTeam, getDeviceIdFromRequest } from '@/lib/auth/device';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/teams/[teamId]/heartbeat
+ * Records that a team device is still open.
+ *
+ * Headers: X-Device-ID
+ *
+ * Verifies:
+ * - Device is a member of the team
+ *
+ * Actions:
+ * - Sets teams.last_seen to now using record_team_heartbeat
+ * - A team marked disconnected by the stale-team sweep becomes connected
+ *   again, unless the game has ended
+ *
+ * Response: { connectionStatus }
+ *
+ * Security: createAdminServiceClient (service role) is only constructed AFTER
+ * device ownership passes, preserving the two-client invariant.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string; teamId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+    const { gameId, teamId } = await context.params;
+
+    if (!isValidUUID(gameId) || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify device is on this team before constructing service client
+    const deviceId = getDeviceIdFromRequest(req);
+    const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId, gameId);
+
+    if (!isAuthorized) {
+      return NextResponse.json(
+        { error: 'Unauthorized: This device does not control this team' },
+        { status: 403 }
+      );
+    }
+
+    const serviceClient = createAdminServiceClient();
+    const { data: connectionStatus, error: heartbeatError } = await serviceClient.rpc('record_team_heartbeat', {
+      p_team_id: teamId,
+      p_game_id: gameId,
+    });
+
+    if (heartbeatError) {
+      logger.error('Failed to record team heartbeat', heartbeatError, {
+        operation: 'recordHeartbeat',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to record heartbeat' },
+        { status: 500 }
+      );
+    }
+
+    if (!connectionStatus) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { connectionStatus },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Team heartbeat failed', error, {
+      operation: 'recordHeartbeat',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Unit tests for GET/POST /api/games/[gameId]/teams/[teamId]/members.
+ *
+ * Tests request validation, join_team error mapping and that device IDs are
+ * never returned. Database behaviour of join_team is covered by E2E tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockCreateAdminServiceClient = vi.fn();
+const mockRpc = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const VALID_TEAM_ID = '11111111-2222-3333-4444-555555555555';
+const DEVICE_ID = '99999999-8888-7777-6666-555555555555';
+
+function makeContext(gameId = VALID_GAME_ID, teamId = VALID_TEAM_ID) {
+  return { params: Promise.resolve({ gameId, teamId }) };
+}
+
+function makePostRequest(body: object) {
+  return new NextRequest(`http://localhost/api/games/${VALID_GAME_ID}/teams/${VALID_TEAM_ID}/members`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function mockMembers(rows: object[]) {
+  const chain = {
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: rows, error: null }),
+  };
+  mockCreateAdminServiceClient.mockReturnValue({ from: vi.fn(() => chain), rpc: mockRpc });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('/api/games/[gameId]/teams/[teamId]/members', () => {
+  let GET: (req: NextRequest, ctx: ReturnType<typeof makeContext>) => Promise<Response>;
+  let POST: (req: NextRequest, ctx: ReturnType<typeof makeContext>) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockMembers([]);
+    mockRpc.mockResolvedValue({
+      data: { success: true, team_id: VALID_TEAM_ID, connection_status: 'pending', is_captain: false },
+      error: null,
+    });
+    const routeModule = await import('./route');
+    GET = routeModule.GET;
+    POST = routeModule.POST;
+  });
+
+  describe('GET', () => {
+    it('lists members without device IDs and marks the requesting device', async () => {
+      mockMembers([
+        { id: 'm-1', device_id: DEVICE_ID, display_name: 'Ada', is_captain: true, joined_at: '2026-10-28T10:00:00Z' },
+        { id: 'm-2', device_id: 'other-device', display_name: 'Grace', is_captain: false, joined_at: '2026-10-28T10:01:00Z' },
+      ]);
+
+      const req = new NextRequest('http://localhost/members', { headers: { 'X-Device-ID': DEVICE_ID } });
+      const res = await GET(req, makeContext());
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.members).toEqual([
+        { id: 'm-1', displayName: 'Ada', isCaptain: true, joinedAt: '2026-10-28T10:00:00Z', isYou: true },
+        { id: 'm-2', displayName: 'Grace', isCaptain: false, joinedAt: '2026-10-28T10:01:00Z', isYou: false },
+      ]);
+      expect(JSON.stringify(body)).not.toContain(DEVICE_ID);
+    });
+
+    it('returns 400 for an invalid team ID', async () => {
+      const res = await GET(new NextRequest('http://localhost/members'), makeContext(VALID_GAME_ID, 'nope'));
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST', () => {
+    it('returns 400 without a valid deviceId', async () => {
+      const res = await POST(makePostRequest({ deviceId: 'abc', displayName: 'Ada' }), makeContext());
+      expect(res.status).toBe(400);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for a blank display name', async () => {
+      const res = await POST(makePostRequest({ deviceId: DEVICE_ID, displayName: '  ' }), makeContext());
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toMatch(/Display name/);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('joins the team with a trimmed display name and the member limit', async () => {
+      const res = await POST(makePostRequest({ deviceId: DEVICE_ID, displayName: ' Ada ' }), makeContext());
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body).toEqual({ teamId: VALID_TEAM_ID, connectionStatus: 'pending', rejoined: false });
+      expect(mockRpc).toHaveBeenCalledWith('join_team', {
+        p_game_id: VALID_GAME_ID,
+        p_team_id: VALID_TEAM_ID,
+        p_device_id: DEVICE_ID,
+        p_display_name: 'Ada',
+        p_max_members: 6,
+      });
+    });
+
+    it('sends a device already on another team back to it', async () => {
+      mockRpc.mockResolvedValue({
+        data: { success: true, team_id: 'other-team', connection_status: 'connected', rejoined: true },
+        error: null,
+      });
+
+      const res = await POST(makePostRequest({ deviceId: DEVICE_ID, displayName: 'Ada' }), makeContext());
+      const body = await res.json();
+
+      expect(body).toEqual({ teamId: 'other-team', connectionStatus: 'connected', rejoined: true });
+    });
+
+    it('returns 409 when the team is full', async () => {
+      mockRpc.mockResolvedValue({ data: { success: false, error_code: 'team_full' }, error: null });
+
+      const res = await POST(makePostRequest({ deviceId: DEVICE_ID, displayName: 'Ada' }), makeContext());
+      const body = await res.json();
+
+      expect(res.status).toBe(409);
+      expect(body.code).toBe('team_full');
+      expect(body.error).toMatch(/full/);
+    });
+  });
+});
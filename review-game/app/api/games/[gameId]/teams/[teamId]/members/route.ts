@@ -0,0 +1,203 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServiceClient } from '@/lib/admin/auth';
+import { getDeviceIdFromRequest } from '@/lib/auth/device';
+import { logger } from '@/lib/logger';
+import { TEAM_MEMBERS } from '@/lib/constants/game';
+import { validateDisplayName } from '@/lib/utils/teamMembers';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { TeamMember } from '@/types/game';
+
+/**
+ * GET /api/games/[gameId]/teams/[teamId]/members
+ * Lists the devices playing for a team.
+ *
+ * Headers: X-Device-ID (optional) marks the requesting device's own entry
+ *
+ * Response: { members: TeamMember[] } in join order. Device IDs are never
+ * returned; team_members is only readable with the service role.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string; teamId: string }> }
+) {
+  try {
+    const { gameId, teamId } = await context.params;
+
+    if (!isValidUUID(gameId) || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const deviceId = getDeviceIdFromRequest(req);
+    const supabase = createAdminServiceClient();
+
+    const { data: rows, error: membersError } = await supabase
+      .from('team_members')
+      .select('id, device_id, display_name, is_captain, joined_at')
+      .eq('game_id', gameId)
+      .eq('team_id', teamId)
+      .order('joined_at', { ascending: true });
+
+    if (membersError) {
+      logger.error('Failed to read team members', membersError, {
+        operation: 'getTeamMembers',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load team members' },
+        { status: 500 }
+      );
+    }
+
+    const members: TeamMember[] = (rows ?? []).map((row) => ({
+      id: row.id,
+      displayName: row.display_name,
+      isCaptain: row.is_captain,
+      joinedAt: row.joined_at,
+      isYou: !!deviceId && row.device_id === deviceId,
+    }));
+
+    return NextResponse.json({ members }, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Fetch team members failed', error, {
+      operation: 'getTeamMembers',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/teams/[teamId]/members
+ * Adds this device to an existing team.
+ *
+ * Body: { deviceId: string, displayName: string }
+ *
+ * Verifies:
+ * - Team exists, belongs to the game and was not rejected
+ * - Game is not completed
+ * - Team has fewer than TEAM_MEMBERS.MAX_PER_TEAM members
+ *
+ * Actions:
+ * - Inserts a team_members row via join_team; the first member of a team
+ *   without a captain becomes its captain
+ * - A device already on a team in this game is sent back to that team
+ *
+ * Response: { teamId, connectionStatus, rejoined } so the client can route
+ * to the waiting room or, for an approved team, straight to the game.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string; teamId: string }> }
+) {
+  try {
+    const { gameId, teamId } = await context.params;
+
+    if (!isValidUUID(gameId) || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { deviceId, displayName } = body;
+
+    if (!deviceId || typeof deviceId !== 'string' || !isValidUUID(deviceId)) {
+      return NextResponse.json(
+        { error: 'A valid deviceId is required' },
+        { status: 400 }
+      );
+    }
+
+    const displayNameError = validateDisplayName(displayName);
+    if (displayNameError) {
+      return NextResponse.json(
+        { error: displayNameError },
+        { status: 400 }
+      );
+    }
+
+    // Service role required: join_team is not granted to anon
+    const supabase = createAdminServiceClient();
+    const { data: rawResult, error: joinError } = await supabase.rpc('join_team', {
+      p_game_id: gameId,
+      p_team_id: teamId,
+      p_device_id: deviceId,
+      p_display_name: displayName.trim(),
+      p_max_members: TEAM_MEMBERS.MAX_PER_TEAM,
+    });
+
+    if (joinError) {
+      logger.error('Database error joining team', joinError, {
+        operation: 'joinTeam',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to join team' },
+        { status: 500 }
+      );
+    }
+
+    type JoinTeamResult =
+      | { success: true; team_id: string; connection_status: string; rejoined?: boolean; is_captain?: boolean }
+      | { success: false; error_code: string };
+
+    const result = rawResult as unknown as JoinTeamResult;
+
+    if (!result?.success) {
+      const errorCode = result?.error_code ?? 'unknown';
+      logger.warn('Team join rejected', {
+        operation: 'joinTeam',
+        gameId,
+        teamId,
+        errorCode,
+      });
+
+      const errors: Record<string, { error: string; status: number }> = {
+        game_not_found: { error: 'Game not found', status: 404 },
+        team_not_found: { error: 'Team not found', status: 404 },
+        game_completed: { error: 'This game has already ended', status: 409 },
+        team_rejected: { error: 'This team was declined by the teacher', status: 409 },
+        team_full: { error: `This team is full (${TEAM_MEMBERS.MAX_PER_TEAM} devices maximum)`, status: 409 },
+        invalid_display_name: { error: 'Invalid display name', status: 400 },
+      };
+      const { error, status } = errors[errorCode] ?? { error: 'Failed to join team', status: 500 };
+
+      return NextResponse.json(
+        { error, code: errorCode },
+        { status }
+      );
+    }
+
+    logger.info('Device joined team', {
+      operation: 'joinTeam',
+      gameId,
+      teamId: result.team_id,
+      rejoined: result.rejoined ?? false,
+      isCaptain: result.is_captain ?? false,
+    });
+
+    return NextResponse.json({
+      teamId: result.team_id,
+      connectionStatus: result.connection_status,
+      rejoined: result.rejoined ?? false,
+    });
+  } catch (error) {
+    logger.error('Team join failed', error, {
+      operation: 'joinTeam',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/teams/rejoin.
+ *
+ * Tests code normalisation and redeem_rejoin_code error mapping. Database
+ * behaviour of redeem_rejoin_code is covered by E2E tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockRpc = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServiceClient: () => ({ rpc: mockRpc }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const VALID_TEAM_ID = '11111111-2222-3333-4444-555555555555';
+const DEVICE_ID = '99999999-8888-7777-6666-555555555555';
+
+function makeContext(gameId = VALID_GAME_ID) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+function makeRequest(body: object) {
+  return new NextRequest(`http://localhost/api/games/${VALID_GAME_ID}/teams/rejoin`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/teams/rejoin', () => {
+  let POST: (req: NextRequest, ctx: ReturnType<typeof makeContext>) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockRpc.mockResolvedValue({
+      data: { success: true, team_id: VALID_TEAM_ID, connection_status: 'connected' },
+      error: null,
+    });
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  it('redeems a normalised code for the device', async () => {
+    const res = await POST(makeRequest({ deviceId: DEVICE_ID, code: 'abc-234' }), makeContext());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({ teamId: VALID_TEAM_ID, connectionStatus: 'connected' });
+    expect(mockRpc).toHaveBeenCalledWith('redeem_rejoin_code', {
+      p_game_id: VALID_GAME_ID,
+      p_code: 'ABC234',
+      p_device_id: DEVICE_ID,
+    });
+  });
+
+  it('returns 400 for a malformed code without calling the database', async () => {
+    const res = await POST(makeRequest({ deviceId: DEVICE_ID, code: 'ABC' }), makeContext());
+    expect(res.status).toBe(400);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 without a valid deviceId', async () => {
+    const res = await POST(makeRequest({ deviceId: 'abc', code: 'ABC234' }), makeContext());
+    expect(res.status).toBe(400);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for an unknown or expired code', async () => {
+    mockRpc.mockResolvedValue({ data: { success: false, error_code: 'invalid_code' }, error: null });
+
+    const res = await POST(makeRequest({ deviceId: DEVICE_ID, code: 'ABC234' }), makeContext());
+    const body = await res.json();
+
+    expect(res.status).toBe(404);
+    expect(body.code).toBe('invalid_code');
+    expect(body.error).toMatch(/expired/);
+  });
+
+  it('returns 409 when the device plays for another team', async () => {
+    mockRpc.mockResolvedValue({ data: { success: false, error_code: 'device_on_other_team' }, error: null });
+
+    const res = await POST(makeRequest({ deviceId: DEVICE_ID, code: 'ABC234' }), makeContext());
+    expect(res.status).toBe(409);
+  });
+});
@@ -0,0 +1,121 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { normalizeRejoinCode } from '@/lib/utils/teamMembers';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/teams/rejoin
+ * Reclaims a released team from a new device with the teacher's rejoin code.
+ *
+ * Body: { deviceId: string, code: string }
+ *
+ * Verifies:
+ * - The code was issued for a team in this game and has not expired
+ * - The device is not playing for a different team in this game
+ *
+ * Actions:
+ * - Makes the device the team captain and sets teams.device_id using
+ *   redeem_rejoin_code; the code is deleted so it works only once
+ * - Records a 'reclaimed' event in team_device_events
+ *
+ * Response: { teamId, connectionStatus } so the client can route to the
+ * waiting room or, for an approved team, straight to the game.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { deviceId, code } = body;
+
+    if (!deviceId || typeof deviceId !== 'string' || !isValidUUID(deviceId)) {
+      return NextResponse.json(
+        { error: 'A valid deviceId is required' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedCode = normalizeRejoinCode(code);
+    if (!normalizedCode) {
+      return NextResponse.json(
+        { error: 'That rejoin code is not valid. Check it with your teacher.' },
+        { status: 400 }
+      );
+    }
+
+    // Service role required: redeem_rejoin_code is not granted to anon
+    const supabase = createAdminServiceClient();
+    const { data: rawResult, error: redeemError } = await supabase.rpc('redeem_rejoin_code', {
+      p_game_id: gameId,
+      p_code: normalizedCode,
+      p_device_id: deviceId,
+    });
+
+    if (redeemError) {
+      logger.error('Database error redeeming rejoin code', redeemError, {
+        operation: 'redeemRejoinCode',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to rejoin team' },
+        { status: 500 }
+      );
+    }
+
+    type RedeemResult =
+      | { success: true; team_id: string; connection_status: string }
+      | { success: false; error_code: string };
+
+    const result = rawResult as unknown as RedeemResult;
+
+    if (!result?.success) {
+      const errorCode = result?.error_code ?? 'unknown';
+      logger.warn('Rejoin code rejected', {
+        operation: 'redeemRejoinCode',
+        gameId,
+        errorCode,
+      });
+
+      const errors: Record<string, { error: string; status: number }> = {
+        invalid_code: { error: 'That rejoin code is not valid or has expired. Ask your teacher for a new one.', status: 404 },
+        device_on_other_team: { error: 'This device is already playing for another team', status: 409 },
+      };
+      const { error, status } = errors[errorCode] ?? { error: 'Failed to rejoin team', status: 500 };
+
+      return NextResponse.json(
+        { error, code: errorCode },
+        { status }
+      );
+    }
+
+    logger.info('Team reclaimed with rejoin code', {
+      operation: 'redeemRejoinCode',
+      gameId,
+      teamId: result.team_id,
+    });
+
+    return NextResponse.json({
+      teamId: result.team_id,
+      connectionStatus: result.connection_status,
+    });
+  } catch (error) {
+    logger.error('Rejoin failed', error, {
+      operation: 'redeemRejoinCode',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { broadcastTieBreaker, readTieBreaker } from '@/lib/api/tieBreaker';
+import { verifyDeviceOwnsTeam, getDeviceIdFromRequest } from '@/lib/auth/device';
+import { computeEffectiveBuzzTime } from '@/lib/utils/buzzTiming';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/tie-breaker/buzz
+ * Records a tied team's buzz on the current tie-breaker clue.
+ *
+ * Body: { teamId: string, clientTimestamp?: number, clockOffsetMs?: number }
+ *
+ * Verifies:
+ * - Team belongs to game (device ID ownership check)
+ * - The game is in the tie-breaker phase and the team is one of the tied teams
+ * - Buzzers are open on the clue and the buzz is not from before they opened
+ *
+ * Actions:
+ * - Inserts a tie_breaker_buzzes row; effective_at is derived as for
+ *   POST /api/games/[gameId]/buzz (see computeEffectiveBuzzTime)
+ * - A repeat buzz from the same team on the same clue is ignored
+ * - Broadcasts 'tie-breaker-updated' on buzzer:${gameId}
+ *
+ * Response: { tieBreaker: TieBreakerState, alreadyBuzzed: boolean }
+ *
+ * Security: createAdminServiceClient (service role) is only constructed AFTER
+ * device ownership passes, preserving the two-client invariant.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  // Captured before any awaits so DB latency does not count against the buzz
+  const receivedAt = Date.now();
+
+  try {
+    const supabase = await createAdminServerClient();
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, clientTimestamp, clockOffsetMs } = body;
+
+    if (typeof teamId !== 'string' || !isValidUUID(teamId)) {
+      return NextResponse.json(
+        { error: 'teamId must be a valid ID' },
+        { status: 400 }
+      );
+    }
+
+    // SECURITY: Verify device owns this team before constructing service client
+    const deviceId = getDeviceIdFromRequest(req);
+    const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId, gameId);
+
+    if (!isAuthorized) {
+      logger.warn('Unauthorized tie-breaker buzz attempt', {
+        operation: 'submitTieBreakerBuzz',
+        gameId,
+        teamId,
+        deviceId,
+      });
+      return NextResponse.json(
+        { error: 'Unauthorized: This device does not control this team' },
+        { status: 403 }
+      );
+    }
+
+    const serviceClient = createAdminServiceClient();
+
+    const [gameResult, tieBreakerResult] = await Promise.all([
+      serviceClient
+        .from('games')
+        .select('current_phase')
+        .eq('id', gameId)
+        .single(),
+      serviceClient
+        .from('tie_breakers')
+        .select('team_ids, clue_number, buzzers_open_at, winner_team_id')
+        .eq('game_id', gameId)
+        .maybeSingle(),
+    ]);
+
+    if (gameResult.error || !gameResult.data) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    const tieBreaker = tieBreakerResult.data;
+    if (gameResult.data.current_phase !== 'tie_breaker' || !tieBreaker || tieBreaker.winner_team_id) {
+      return NextResponse.json({ error: 'No tie-breaker is being played' }, { status: 409 });
+    }
+    if (!tieBreaker.team_ids.includes(teamId)) {
+      return NextResponse.json({ error: 'Only teams tied for first may buzz' }, { status: 403 });
+    }
+    if (!tieBreaker.buzzers_open_at) {
+      return NextResponse.json({ error: 'Buzzers are not open' }, { status: 409 });
+    }
+
+    // Timing fields are optional; anything non-numeric is dropped and the buzz
+    // is ordered by receive time alone
+    const reportedTimestamp = typeof clientTimestamp === 'number' ? clientTimestamp : null;
+    const reportedOffset = typeof clockOffsetMs === 'number' ? clockOffsetMs : null;
+
+    const effectiveAt = computeEffectiveBuzzTime({
+      receivedAt,
+      clientTimestamp: reportedTimestamp,
+      clockOffsetMs: reportedOffset,
+    });
+
+    if (effectiveAt < new Date(tieBreaker.buzzers_open_at).getTime()) {
+      return NextResponse.json({ error: 'Buzzed before buzzers were open' }, { status: 409 });
+    }
+
+    const { error: insertError } = await serviceClient
+      .from('tie_breaker_buzzes')
+      .insert({
+        game_id: gameId,
+        clue_number: tieBreaker.clue_number,
+        team_id: teamId,
+        server_received_at: new Date(receivedAt).toISOString(),
+        effective_at: new Date(effectiveAt).toISOString(),
+      });
+
+    // 23505 = unique violation: team already buzzed on this clue
+    const alreadyBuzzed = insertError?.code === '23505';
+
+    if (insertError && !alreadyBuzzed) {
+      logger.error('Failed to record tie-breaker buzz', insertError, {
+        operation: 'submitTieBreakerBuzz',
+        gameId,
+        teamId,
+      });
+      return NextResponse.json({ error: 'Failed to record buzz' }, { status: 500 });
+    }
+
+    const result = await readTieBreaker(serviceClient, gameId, false);
+    if (!result?.tieBreaker) {
+      return NextResponse.json({ error: 'Failed to read tie-breaker' }, { status: 500 });
+    }
+
+    if (!alreadyBuzzed) {
+      await broadcastTieBreaker(gameId, result.tieBreaker);
+    }
+
+    return NextResponse.json({ tieBreaker: result.tieBreaker, alreadyBuzzed });
+  } catch (error) {
+    logger.error('Submit tie-breaker buzz failed', error, {
+      operation: 'submitTieBreakerBuzz',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
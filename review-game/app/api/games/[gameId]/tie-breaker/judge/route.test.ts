@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/tie-breaker/judge.
+ *
+ * Tests that only the team at the head of the queue is judged, that a correct
+ * answer records the winner and completes the game, and that an incorrect
+ * answer only dismisses that team's buzz.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { makeQueryClient, writesTo, type QueryResult } from '@/lib/test-utils/supabaseQuery';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockCreateAdminServerClient = vi.fn();
+const mockCreateAdminServiceClient = vi.fn();
+const mockBroadcastToChannel = vi.fn();
+const mockSaveGameRecap = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: () => mockCreateAdminServerClient(),
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/supabase/broadcast', () => ({
+  broadcastToChannel: (...args: unknown[]) => mockBroadcastToChannel(...args),
+}));
+
+vi.mock('@/lib/api/gameRecap', () => ({
+  saveGameRecap: (...args: unknown[]) => mockSaveGameRecap(...args),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const TEAM_A = '11111111-1111-4111-8111-111111111111';
+const TEAM_B = '22222222-2222-4222-8222-222222222222';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+
+const tieBreakerRow = (overrides: Record<string, unknown> = {}) => ({
+  team_ids: [TEAM_A, TEAM_B],
+  clue_number: 1,
+  clue: { category: 'Science', question: 'The closest star', answer: 'The Sun' },
+  buzzers_open_at: '2026-11-06T10:00:00.000Z',
+  winner_team_id: null,
+  ...overrides,
+});
+
+// TEAM_A buzzed first, TEAM_B second
+const buzzRows = [
+  { team_id: TEAM_A, effective_at: '2026-11-06T10:00:01.000Z', dismissed_at: null },
+  { team_id: TEAM_B, effective_at: '2026-11-06T10:00:02.000Z', dismissed_at: null },
+];
+
+function makeRequest(gameId: string, body: unknown) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/tie-breaker/judge`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/tie-breaker/judge', () => {
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+  let serverClient: ReturnType<typeof makeQueryClient>;
+  let serviceClient: ReturnType<typeof makeQueryClient>;
+
+  const setUp = (
+    game: Record<string, unknown>,
+    tieBreakerReads: QueryResult[],
+    buzzReads: QueryResult[]
+  ) => {
+    serverClient = makeQueryClient(
+      { games: [{ data: game, error: null }, { data: null, error: null }] },
+      {
+        auth: {
+          getUser: () => Promise.resolve({ data: { user: { id: TEACHER_USER_ID } }, error: null }),
+        },
+      }
+    );
+    serviceClient = makeQueryClient({
+      tie_breakers: tieBreakerReads,
+      tie_breaker_buzzes: buzzReads,
+    });
+    mockCreateAdminServerClient.mockResolvedValue(serverClient);
+    mockCreateAdminServiceClient.mockReturnValue(serviceClient);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockBroadcastToChannel.mockResolvedValue(true);
+    mockSaveGameRecap.mockResolvedValue(null);
+
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    mockCreateAdminServerClient.mockResolvedValue({
+      auth: { getUser: () => Promise.resolve({ data: { user: null }, error: new Error('No session') }) },
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID, { teamId: TEAM_A, isCorrect: true }), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 409 outside the tie-breaker phase', async () => {
+    setUp({ teacher_id: TEACHER_USER_ID, current_phase: 'regular' }, [], []);
+
+    const res = await POST(makeRequest(VALID_GAME_ID, { teamId: TEAM_A, isCorrect: true }), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+    expect(mockCreateAdminServiceClient).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 for a team that is not at the head of the queue', async () => {
+    setUp(
+      { teacher_id: TEACHER_USER_ID, current_phase: 'tie_breaker' },
+      [{ data: tieBreakerRow(), error: null }],
+      [{ data: buzzRows, error: null }]
+    );
+
+    const res = await POST(makeRequest(VALID_GAME_ID, { teamId: TEAM_B, isCorrect: true }), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+    expect(writesTo(serviceClient, 'tie_breakers', 'update')).toEqual([]);
+  });
+
+  it('records a correct answer as the win and completes the game', async () => {
+    setUp(
+      { teacher_id: TEACHER_USER_ID, current_phase: 'tie_breaker' },
+      [
+        { data: tieBreakerRow(), error: null },
+        { data: null, error: null },
+        { data: tieBreakerRow({ winner_team_id: TEAM_A }), error: null },
+      ],
+      [{ data: buzzRows, error: null }, { data: buzzRows, error: null }]
+    );
+
+    const res = await POST(makeRequest(VALID_GAME_ID, { teamId: TEAM_A, isCorrect: true }), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.tieBreaker.winnerTeamId).toBe(TEAM_A);
+    expect(body.tieBreaker.answer).toBe('The Sun');
+    expect(writesTo(serviceClient, 'tie_breakers', 'update')[0]).toMatchObject({ winner_team_id: TEAM_A });
+    expect(writesTo(serverClient, 'games', 'update')[0]).toMatchObject({ status: 'completed', current_phase: 'regular' });
+    expect(mockSaveGameRecap).toHaveBeenCalledWith(serviceClient, VALID_GAME_ID);
+
+    // Players never receive the answer
+    const [, event, payload] = mockBroadcastToChannel.mock.calls[0];
+    expect(event).toBe('tie-breaker-updated');
+    expect(payload.tieBreaker.answer).toBeNull();
+  });
+
+  it('dismisses an incorrect answer and leaves the tie-breaker open', async () => {
+    setUp(
+      { teacher_id: TEACHER_USER_ID, current_phase: 'tie_breaker' },
+      [{ data: tieBreakerRow(), error: null }, { data: tieBreakerRow(), error: null }],
+      [
+        { data: buzzRows, error: null },
+        { data: null, error: null },
+        { data: [{ ...buzzRows[0], dismissed_at: '2026-11-06T10:00:05.000Z' }, buzzRows[1]], error: null },
+      ]
+    );
+
+    const res = await POST(makeRequest(VALID_GAME_ID, { teamId: TEAM_A, isCorrect: false }), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.tieBreaker.queue.map((entry: { teamId: string }) => entry.teamId)).toEqual([TEAM_B]);
+    expect(body.tieBreaker.dismissedTeamIds).toEqual([TEAM_A]);
+    expect(writesTo(serviceClient, 'tie_breaker_buzzes', 'update')[0]).toHaveProperty('dismissed_at');
+    expect(writesTo(serverClient, 'games', 'update')).toEqual([]);
+    expect(mockSaveGameRecap).not.toHaveBeenCalled();
+  });
+});
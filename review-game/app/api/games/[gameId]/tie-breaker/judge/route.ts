@@ -0,0 +1,187 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { saveGameRecap } from '@/lib/api/gameRecap';
+import { broadcastTieBreaker, readTieBreaker } from '@/lib/api/tieBreaker';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/tie-breaker/judge
+ * Judges the answer of the team at the head of the tie-breaker queue.
+ *
+ * Body: { teamId: string, isCorrect: boolean }
+ *
+ * Verifies:
+ * - User owns the game and it is in the tie-breaker phase
+ * - The tie-breaker is undecided and the team is at the head of the queue
+ *
+ * Actions:
+ * - Correct: records the team as the winner, completes the game and saves
+ *   the game recap
+ * - Incorrect: dismisses the team's buzz; it cannot buzz again on the clue
+ * - Broadcasts 'tie-breaker-updated' on buzzer:${gameId}
+ *
+ * Response: { tieBreaker: TieBreakerState } including the answer
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { teamId, isCorrect } = body;
+
+    if (typeof teamId !== 'string' || !isValidUUID(teamId) || typeof isCorrect !== 'boolean') {
+      return NextResponse.json(
+        { error: 'teamId and isCorrect are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, current_phase')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.current_phase !== 'tie_breaker') {
+      return NextResponse.json({ error: 'No tie-breaker is being played' }, { status: 409 });
+    }
+
+    // tie_breakers and tie_breaker_buzzes have no RLS policies; use the
+    // service role now that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const current = await readTieBreaker(serviceClient, gameId, true);
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Failed to judge answer' },
+        { status: 500 }
+      );
+    }
+    if (!current.tieBreaker || current.tieBreaker.winnerTeamId) {
+      return NextResponse.json({ error: 'No tie-breaker is being played' }, { status: 409 });
+    }
+    if (current.tieBreaker.queue[0]?.teamId !== teamId) {
+      return NextResponse.json({ error: 'Team is not answering' }, { status: 409 });
+    }
+
+    if (isCorrect) {
+      const decidedAt = new Date().toISOString();
+      const { error: winnerError } = await serviceClient
+        .from('tie_breakers')
+        .update({ winner_team_id: teamId, decided_at: decidedAt })
+        .eq('game_id', gameId)
+        .is('winner_team_id', null);
+
+      if (winnerError) {
+        logger.error('Failed to record tie-breaker winner', winnerError, {
+          operation: 'judgeTieBreaker',
+          gameId,
+          teamId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to judge answer' },
+          { status: 500 }
+        );
+      }
+
+      const { error: updateError } = await supabase
+        .from('games')
+        .update({
+          status: 'completed',
+          current_phase: 'regular',
+          completed_at: decidedAt,
+        })
+        .eq('id', gameId)
+        .eq('teacher_id', user.id);
+
+      if (updateError) {
+        logger.error('Failed to complete game after tie-breaker', updateError, {
+          operation: 'judgeTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to judge answer' },
+          { status: 500 }
+        );
+      }
+
+      // The game is over either way; a missing recap is rebuilt when the
+      // teacher opens it
+      await saveGameRecap(serviceClient, gameId);
+    } else {
+      const { error: dismissError } = await serviceClient
+        .from('tie_breaker_buzzes')
+        .update({ dismissed_at: new Date().toISOString() })
+        .eq('game_id', gameId)
+        .eq('clue_number', current.tieBreaker.clueNumber)
+        .eq('team_id', teamId);
+
+      if (dismissError) {
+        logger.error('Failed to dismiss tie-breaker buzz', dismissError, {
+          operation: 'judgeTieBreaker',
+          gameId,
+          teamId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to judge answer' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const result = await readTieBreaker(serviceClient, gameId, true);
+    if (!result?.tieBreaker) {
+      return NextResponse.json(
+        { error: 'Failed to load tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    await broadcastTieBreaker(gameId, result.tieBreaker);
+
+    logger.info('Tie-breaker answer judged', {
+      operation: 'judgeTieBreaker',
+      gameId,
+      teamId,
+      isCorrect,
+      clueNumber: result.tieBreaker.clueNumber,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Judge tie-breaker answer failed', error, {
+      operation: 'judgeTieBreaker',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { broadcastTieBreaker, readTieBreaker } from '@/lib/api/tieBreaker';
+import { isValidUUID } from '@/lib/utils/uuid';
+
+/**
+ * POST /api/games/[gameId]/tie-breaker/open
+ * Opens buzzers on the current tie-breaker clue once the teacher has read it.
+ *
+ * Verifies:
+ * - User owns the game and it is in the tie-breaker phase
+ * - The tie-breaker is undecided
+ *
+ * Actions:
+ * - Sets tie_breakers.buzzers_open_at; buzzes effective before it are rejected
+ * - Broadcasts 'tie-breaker-updated' on buzzer:${gameId}
+ *
+ * Response: { tieBreaker: TieBreakerState } including the answer
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, current_phase')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.current_phase !== 'tie_breaker') {
+      return NextResponse.json({ error: 'No tie-breaker is being played' }, { status: 409 });
+    }
+
+    // tie_breakers has no RLS policies; write it with the service role now
+    // that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const { data: opened, error: openError } = await serviceClient
+      .from('tie_breakers')
+      .update({ buzzers_open_at: new Date().toISOString() })
+      .eq('game_id', gameId)
+      .is('winner_team_id', null)
+      .select('game_id');
+
+    if (openError) {
+      logger.error('Failed to open tie-breaker buzzers', openError, {
+        operation: 'openTieBreakerBuzzers',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to open buzzers' },
+        { status: 500 }
+      );
+    }
+    if (!opened || opened.length === 0) {
+      return NextResponse.json({ error: 'Tie-breaker has already been decided' }, { status: 409 });
+    }
+
+    const result = await readTieBreaker(serviceClient, gameId, true);
+    if (!result?.tieBreaker) {
+      return NextResponse.json(
+        { error: 'Failed to load tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    await broadcastTieBreaker(gameId, result.tieBreaker);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Open tie-breaker buzzers failed', error, {
+      operation: 'openTieBreakerBuzzers',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/[gameId]/tie-breaker.
+ *
+ * Tests that a tie-breaker only starts for teams tied for first, that it
+ * plays the teacher's own clue first and otherwise draws an unplayed clue
+ * from the game's banks, and that it moves the game into the tie-breaker phase.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { makeQueryClient, writesTo } from '@/lib/test-utils/supabaseQuery';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockCreateAdminServerClient = vi.fn();
+const mockCreateAdminServiceClient = vi.fn();
+const mockBroadcastToChannel = vi.fn();
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServerClient: () => mockCreateAdminServerClient(),
+  createAdminServiceClient: () => mockCreateAdminServiceClient(),
+}));
+
+vi.mock('@/lib/supabase/broadcast', () => ({
+  broadcastToChannel: (...args: unknown[]) => mockBroadcastToChannel(...args),
+}));
+
+vi.mock('@/lib/api/gameRecap', () => ({
+  saveGameRecap: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const TEAM_A = '11111111-1111-4111-8111-111111111111';
+const TEAM_B = '22222222-2222-4222-8222-222222222222';
+const TEAM_C = '33333333-3333-4333-8333-333333333333';
+const TEACHER_USER_ID = 'tttttttt-tttt-tttt-tttt-tttttttttttt';
+
+const AUTHORED_CLUE = { category: 'Science', question: 'The closest star', answer: 'The Sun' };
+
+const makeGame = (overrides: Record<string, unknown> = {}) => ({
+  teacher_id: TEACHER_USER_ID,
+  status: 'completed',
+  current_phase: 'regular',
+  bank_id: 'bank-1',
+  double_jeopardy_bank_id: null,
+  selected_questions: ['q-played'],
+  tie_breaker_question: AUTHORED_CLUE,
+  ...overrides,
+});
+
+const tiedTeams = [
+  { id: TEAM_A, score: 800, connection_status: 'connected' },
+  { id: TEAM_B, score: 800, connection_status: 'connected' },
+  { id: TEAM_C, score: 400, connection_status: 'connected' },
+];
+
+const bankQuestions = [
+  { id: 'q-played', category: 'History', question_text: 'Played', answer_text: 'Old', accepted_answers: [] },
+  { id: 'q-board', category: 'History', question_text: 'Played in round 1', answer_text: 'Older', accepted_answers: [] },
+  { id: 'q-fresh', category: 'Geography', question_text: 'Longest river', answer_text: 'The Nile', accepted_answers: ['Nile'] },
+];
+
+function makeRequest(gameId: string) {
+  return new NextRequest(`http://localhost/api/games/${gameId}/tie-breaker`, { method: 'POST' });
+}
+
+function makeContext(gameId: string) {
+  return { params: Promise.resolve({ gameId }) };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/[gameId]/tie-breaker', () => {
+  let POST: (req: NextRequest, ctx: { params: Promise<{ gameId: string }> }) => Promise<Response>;
+  let serverClient: ReturnType<typeof makeQueryClient>;
+  let serviceClient: ReturnType<typeof makeQueryClient>;
+
+  const setUp = (
+    game: Record<string, unknown>,
+    options: { teams?: unknown[]; existing?: unknown; clueRow?: unknown } = {}
+  ) => {
+    serverClient = makeQueryClient(
+      {
+        games: [{ data: game, error: null }, { data: null, error: null }],
+        teams: [{ data: options.teams ?? tiedTeams, error: null }],
+        questions: [{ data: bankQuestions, error: null }],
+      },
+      {
+        auth: {
+          getUser: () => Promise.resolve({ data: { user: { id: TEACHER_USER_ID } }, error: null }),
+        },
+      }
+    );
+    serviceClient = makeQueryClient({
+      tie_breakers: [
+        { data: options.existing ?? null, error: null },
+        { data: null, error: null },
+        {
+          data: {
+            team_ids: [TEAM_A, TEAM_B],
+            clue_number: 1,
+            clue: AUTHORED_CLUE,
+            buzzers_open_at: null,
+            winner_team_id: null,
+            ...(options.clueRow as object),
+          },
+          error: null,
+        },
+      ],
+      game_clue_plays: [{ data: [{ question_id: 'q-board' }], error: null }],
+      tie_breaker_buzzes: [{ data: null, error: null }, { data: [], error: null }],
+    });
+    mockCreateAdminServerClient.mockResolvedValue(serverClient);
+    mockCreateAdminServiceClient.mockReturnValue(serviceClient);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockBroadcastToChannel.mockResolvedValue(true);
+
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  it('returns 403 when the user does not own the game', async () => {
+    setUp(makeGame({ teacher_id: 'someone-else' }));
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(403);
+    expect(mockCreateAdminServiceClient).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 during Final Jeopardy', async () => {
+    setUp(makeGame({ current_phase: 'final_jeopardy_reveal' }));
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+  });
+
+  it('returns 409 when no teams are tied for first', async () => {
+    setUp(makeGame(), {
+      teams: [
+        { id: TEAM_A, score: 800, connection_status: 'connected' },
+        { id: TEAM_B, score: 600, connection_status: 'connected' },
+        // Tied with the leader but never let into the game
+        { id: TEAM_C, score: 800, connection_status: 'pending' },
+      ],
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(409);
+    expect(writesTo(serviceClient, 'tie_breakers', 'upsert')).toEqual([]);
+  });
+
+  it('starts with the teacher\'s own clue between the tied teams', async () => {
+    setUp(makeGame());
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(writesTo(serviceClient, 'tie_breakers', 'upsert')[0]).toMatchObject({
+      team_ids: [TEAM_A, TEAM_B],
+      clue_number: 1,
+      clue: AUTHORED_CLUE,
+      winner_team_id: null,
+    });
+    expect(writesTo(serverClient, 'games', 'update')[0]).toEqual({
+      status: 'active',
+      current_phase: 'tie_breaker',
+      completed_at: null,
+    });
+
+    const body = await res.json();
+    expect(body.tieBreaker).toMatchObject({ teamIds: [TEAM_A, TEAM_B], answer: 'The Sun', buzzersOpen: false });
+    expect(mockBroadcastToChannel.mock.calls[0][2].tieBreaker.answer).toBeNull();
+  });
+
+  it('draws a clue no one has played when none was written', async () => {
+    setUp(makeGame({ tie_breaker_question: null }));
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(writesTo(serviceClient, 'tie_breakers', 'upsert')[0]).toMatchObject({
+      clue: { category: 'Geography', question: 'Longest river', answer: 'The Nile', accepted_answers: ['Nile'] },
+      drawn_question_ids: ['q-fresh'],
+    });
+  });
+
+  it('draws the next clue of an undecided tie-breaker for the same teams', async () => {
+    setUp(makeGame({ status: 'active', current_phase: 'tie_breaker' }), {
+      existing: { team_ids: [TEAM_A, TEAM_B], clue_number: 1, drawn_question_ids: [], winner_team_id: null },
+      clueRow: { clue_number: 2 },
+    });
+
+    const res = await POST(makeRequest(VALID_GAME_ID), makeContext(VALID_GAME_ID));
+
+    expect(res.status).toBe(200);
+    expect(writesTo(serviceClient, 'tie_breakers', 'update')[0]).toMatchObject({
+      clue_number: 2,
+      drawn_question_ids: ['q-fresh'],
+      buzzers_open_at: null,
+    });
+    expect(writesTo(serviceClient, 'tie_breakers', 'upsert')).toEqual([]);
+    expect((await res.json()).tieBreaker.clueNumber).toBe(2);
+  });
+});
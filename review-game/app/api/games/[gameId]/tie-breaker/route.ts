@@ -0,0 +1,474 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServerClient, createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { saveGameRecap } from '@/lib/api/gameRecap';
+import { broadcastTieBreaker, readTieBreaker } from '@/lib/api/tieBreaker';
+import { getGameBankIds, isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
+import { isApprovedTeam } from '@/lib/utils/presence';
+import { getTiedLeaderIds } from '@/lib/utils/tieBreaker';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { Json } from '@/types/database.types';
+import type { GamePhase, TieBreakerQuestion } from '@/types/game';
+
+/**
+ * GET /api/games/[gameId]/tie-breaker
+ * Returns the game's tie-breaker so the board and student screens can pick it
+ * up after a refresh.
+ *
+ * The clue's answer is only included for the teacher who owns the game.
+ *
+ * Response: { tieBreaker: TieBreakerState | null }
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createAdminServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // tie_breakers has no RLS policies; nothing but the answer is hidden from
+    // players, and that is only read for the owner
+    const serviceClient = createAdminServiceClient();
+
+    const { data: game, error: gameError } = await serviceClient
+      .from('games')
+      .select('teacher_id')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const result = await readTieBreaker(serviceClient, gameId, !!user && game.teacher_id === user.id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to load tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Fetch tie-breaker failed', error, {
+      operation: 'getTieBreaker',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/games/[gameId]/tie-breaker
+ * Starts a tie-breaker between the teams tied for first, or moves an undecided
+ * one on to its next clue.
+ *
+ * Verifies:
+ * - User owns the game and Final Jeopardy is not being played
+ * - At least two approved teams share the top score (when starting)
+ *
+ * Actions:
+ * - The first clue is games.tie_breaker_question when set; every other clue is
+ *   drawn at random from the game's banks, skipping clues already played
+ * - Replaces an earlier tie-breaker, e.g. one from before Play Again
+ * - Sets status 'active' and current_phase 'tie_breaker' until the tie-breaker
+ *   is decided or ended
+ * - Broadcasts 'tie-breaker-updated' on buzzer:${gameId}
+ *
+ * Response: { tieBreaker: TieBreakerState } including the answer
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, status, current_phase, bank_id, double_jeopardy_bank_id, selected_questions, tie_breaker_question')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.status === 'setup') {
+      return NextResponse.json({ error: 'Game has not started' }, { status: 409 });
+    }
+    if (isFinalJeopardyPhase(game.current_phase as GamePhase)) {
+      return NextResponse.json({ error: 'Final Jeopardy is still being played' }, { status: 409 });
+    }
+
+    // tie_breakers and tie_breaker_buzzes have no RLS policies; use the
+    // service role now that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+
+    const { data: existing, error: existingError } = await serviceClient
+      .from('tie_breakers')
+      .select('team_ids, clue_number, drawn_question_ids, winner_team_id')
+      .eq('game_id', gameId)
+      .maybeSingle();
+
+    if (existingError) {
+      logger.error('Failed to read tie-breaker', existingError, {
+        operation: 'startTieBreaker',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    const isNextClue = !!existing && game.current_phase === 'tie_breaker' && existing.winner_team_id === null;
+    let teamIds: string[];
+
+    if (isNextClue) {
+      teamIds = existing.team_ids;
+    } else {
+      const { data: teams, error: teamsError } = await supabase
+        .from('teams')
+        .select('id, score, connection_status')
+        .eq('game_id', gameId);
+
+      if (teamsError) {
+        logger.error('Failed to load teams for tie-breaker', teamsError, {
+          operation: 'startTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to start tie-breaker' },
+          { status: 500 }
+        );
+      }
+
+      teamIds = getTiedLeaderIds(
+        (teams ?? [])
+          .filter((team) => isApprovedTeam(team.connection_status))
+          .map((team) => ({ id: team.id, score: team.score ?? 0 }))
+      );
+      if (teamIds.length < 2) {
+        return NextResponse.json({ error: 'No teams are tied for first' }, { status: 409 });
+      }
+    }
+
+    const drawnQuestionIds = isNextClue ? [...existing.drawn_question_ids] : [];
+    let clue = isNextClue ? null : (game.tie_breaker_question as unknown as TieBreakerQuestion | null);
+
+    if (!clue) {
+      // game_clue_plays also covers the first board once Double Jeopardy has
+      // replaced selected_questions
+      const [questionsResult, playsResult] = await Promise.all([
+        supabase
+          .from('questions')
+          .select('id, category, question_text, answer_text, accepted_answers')
+          .in('bank_id', getGameBankIds(game)),
+        serviceClient
+          .from('game_clue_plays')
+          .select('question_id')
+          .eq('game_id', gameId),
+      ]);
+
+      const questionsError = questionsResult.error ?? playsResult.error;
+      if (questionsError) {
+        logger.error('Failed to load questions for tie-breaker', questionsError, {
+          operation: 'startTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to start tie-breaker' },
+          { status: 500 }
+        );
+      }
+
+      const playedIds = new Set([
+        ...(game.selected_questions ?? []),
+        ...(playsResult.data ?? []).flatMap((play) => (play.question_id ? [play.question_id] : [])),
+        ...drawnQuestionIds,
+      ]);
+      const unplayed = (questionsResult.data ?? []).filter((question) => !playedIds.has(question.id));
+      if (unplayed.length === 0) {
+        return NextResponse.json(
+          { error: 'No unplayed questions are left for a tie-breaker clue' },
+          { status: 409 }
+        );
+      }
+
+      const drawn = unplayed[Math.floor(Math.random() * unplayed.length)];
+      drawnQuestionIds.push(drawn.id);
+      clue = {
+        category: drawn.category,
+        question: drawn.question_text,
+        answer: drawn.answer_text,
+        accepted_answers: drawn.accepted_answers,
+      };
+    }
+
+    if (isNextClue) {
+      const { error: updateError } = await serviceClient
+        .from('tie_breakers')
+        .update({
+          clue_number: existing.clue_number + 1,
+          clue: clue as unknown as Json,
+          drawn_question_ids: drawnQuestionIds,
+          buzzers_open_at: null,
+        })
+        .eq('game_id', gameId);
+
+      if (updateError) {
+        logger.error('Failed to draw next tie-breaker clue', updateError, {
+          operation: 'startTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to draw the next clue' },
+          { status: 500 }
+        );
+      }
+    } else {
+      // Buzzes from an earlier tie-breaker would otherwise count on clue 1
+      const { error: clearError } = await serviceClient
+        .from('tie_breaker_buzzes')
+        .delete()
+        .eq('game_id', gameId);
+
+      if (clearError) {
+        logger.error('Failed to clear earlier tie-breaker buzzes', clearError, {
+          operation: 'startTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to start tie-breaker' },
+          { status: 500 }
+        );
+      }
+
+      const { error: upsertError } = await serviceClient
+        .from('tie_breakers')
+        .upsert(
+          {
+            game_id: gameId,
+            team_ids: teamIds,
+            clue_number: 1,
+            clue: clue as unknown as Json,
+            drawn_question_ids: drawnQuestionIds,
+            buzzers_open_at: null,
+            winner_team_id: null,
+            started_at: new Date().toISOString(),
+            decided_at: null,
+          },
+          { onConflict: 'game_id' }
+        );
+
+      if (upsertError) {
+        logger.error('Failed to start tie-breaker', upsertError, {
+          operation: 'startTieBreaker',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to start tie-breaker' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const { error: gameUpdateError } = await supabase
+      .from('games')
+      .update({
+        status: 'active',
+        current_phase: 'tie_breaker',
+        completed_at: null,
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (gameUpdateError) {
+      logger.error('Failed to enter tie-breaker phase', gameUpdateError, {
+        operation: 'startTieBreaker',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to start tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    const result = await readTieBreaker(serviceClient, gameId, true);
+    if (!result?.tieBreaker) {
+      return NextResponse.json(
+        { error: 'Failed to load tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    await broadcastTieBreaker(gameId, result.tieBreaker);
+
+    logger.info(isNextClue ? 'Tie-breaker clue drawn' : 'Tie-breaker started', {
+      operation: 'startTieBreaker',
+      gameId,
+      teamCount: teamIds.length,
+      clueNumber: result.tieBreaker.clueNumber,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Start tie-breaker failed', error, {
+      operation: 'startTieBreaker',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/games/[gameId]/tie-breaker
+ * Ends an undecided tie-breaker without a winner; the tied teams keep sharing first.
+ *
+ * Verifies:
+ * - User owns the game and it is in the tie-breaker phase
+ *
+ * Actions:
+ * - Removes the tie-breaker and its buzzes
+ * - Completes the game and saves the game recap
+ * - Broadcasts 'tie-breaker-updated' with a null tie-breaker
+ */
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const supabase = await createAdminServerClient();
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = await context.params;
+
+    if (!isValidUUID(gameId)) {
+      return NextResponse.json(
+        { error: 'Invalid game ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('teacher_id, current_phase')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+    if (game.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (game.current_phase !== 'tie_breaker') {
+      return NextResponse.json({ error: 'No tie-breaker is being played' }, { status: 409 });
+    }
+
+    // tie_breakers has no RLS policies; delete it with the service role now
+    // that ownership has been verified
+    const serviceClient = createAdminServiceClient();
+    const { error: deleteError } = await serviceClient
+      .from('tie_breakers')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (deleteError) {
+      logger.error('Failed to end tie-breaker', deleteError, {
+        operation: 'endTieBreaker',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to end tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from('games')
+      .update({
+        status: 'completed',
+        current_phase: 'regular',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', gameId)
+      .eq('teacher_id', user.id);
+
+    if (updateError) {
+      logger.error('Failed to complete game after tie-breaker', updateError, {
+        operation: 'endTieBreaker',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to end tie-breaker' },
+        { status: 500 }
+      );
+    }
+
+    // The game is over either way; a missing recap is rebuilt when the
+    // teacher opens it
+    await saveGameRecap(serviceClient, gameId);
+    await broadcastTieBreaker(gameId, null);
+
+    logger.info('Tie-breaker ended without a winner', {
+      operation: 'endTieBreaker',
+      gameId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('End tie-breaker failed', error, {
+      operation: 'endTieBreaker',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
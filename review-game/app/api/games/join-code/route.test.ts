@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Unit tests for POST /api/games/join-code.
+ *
+ * Tests code normalisation and routing by game type. Assignment and release
+ * of join codes by the games trigger is covered by E2E tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+const mockMaybeSingle = vi.fn();
+const mockEq = vi.fn(() => ({ maybeSingle: mockMaybeSingle }));
+const mockSelect = vi.fn(() => ({ eq: mockEq }));
+const mockFrom = vi.fn(() => ({ select: mockSelect }));
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServiceClient: () => ({ from: mockFrom }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const VALID_GAME_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+
+function makeRequest(body: object) {
+  return new NextRequest('http://localhost/api/games/join-code', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('POST /api/games/join-code', () => {
+  let POST: (req: NextRequest) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockMaybeSingle.mockResolvedValue({
+      data: { id: VALID_GAME_ID, game_type: 'jeopardy' },
+      error: null,
+    });
+    const routeModule = await import('./route');
+    POST = routeModule.POST;
+  });
+
+  it('routes a Jeopardy code to the team join page', async () => {
+    const res = await POST(makeRequest({ code: '123 456' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toEqual({
+      gameId: VALID_GAME_ID,
+      gameType: 'jeopardy',
+      joinPath: `/game/team/join/${VALID_GAME_ID}`,
+    });
+    expect(mockFrom).toHaveBeenCalledWith('games');
+    expect(mockEq).toHaveBeenCalledWith('join_code', '123456');
+  });
+
+  it('routes a pub trivia code to the Quick Fire player page', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({
+      data: { id: VALID_GAME_ID, game_type: 'pub_trivia' },
+      error: null,
+    });
+
+    const res = await POST(makeRequest({ code: '654321' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.joinPath).toBe(`/game/quick-fire/player/${VALID_GAME_ID}`);
+  });
+
+  it('returns 400 for a malformed code without calling the database', async () => {
+    const res = await POST(makeRequest({ code: '12a' }));
+    expect(res.status).toBe(400);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when no running game has the code', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: null, error: null });
+
+    const res = await POST(makeRequest({ code: '000000' }));
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 500 on a database error', async () => {
+    mockMaybeSingle.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+    const res = await POST(makeRequest({ code: '000000' }));
+    expect(res.status).toBe(500);
+  });
+});
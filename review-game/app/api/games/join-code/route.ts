@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { getJoinPath, normalizeJoinCode } from '@/lib/utils/joinCode';
+
+/**
+ * POST /api/games/join-code
+ * Looks up the game a student's 6-digit join code belongs to.
+ *
+ * Body: { code: string }
+ *
+ * Verifies:
+ * - The code belongs to a game that has not completed (completed games have
+ *   their join_code cleared)
+ *
+ * Response: { gameId, gameType, joinPath } where joinPath is the team join
+ * page for Jeopardy games or the Quick Fire player page for pub trivia.
+ *
+ * Security: Students are not signed in and games RLS only exposes games in
+ * setup, so the lookup uses the service role and returns nothing beyond the
+ * IDs needed to route to the existing join flows.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const code = normalizeJoinCode(body?.code);
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Enter the 6-digit code shown by your teacher' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createAdminServiceClient();
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('id, game_type')
+      .eq('join_code', code)
+      .maybeSingle();
+
+    if (gameError) {
+      logger.error('Database error looking up join code', gameError, {
+        operation: 'lookupJoinCode',
+      });
+      return NextResponse.json(
+        { error: 'Failed to look up game' },
+        { status: 500 }
+      );
+    }
+
+    if (!game) {
+      return NextResponse.json(
+        { error: 'No game found with that code. Check the code and try again.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        gameId: game.id,
+        gameType: game.game_type,
+        joinPath: getJoinPath(game.game_type, game.id),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Join code lookup failed', error, {
+      operation: 'lookupJoinCode',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/utils/uuid';
+import type { GameRecap } from '@/types/game';
+
+/**
+ * GET /api/games/results/[token]
+ * Returns the recap behind a shared results link.
+ *
+ * Verifies:
+ * - The token belongs to a saved recap
+ *
+ * Response: { recap: GameRecap }
+ *
+ * Security: Results pages are not signed in. The recap only holds what was
+ * shown in the room once the game ended; the lookup uses the service role
+ * because game_recaps has no RLS policies.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+
+    const notFound = NextResponse.json(
+      { error: 'These results are not available' },
+      { status: 404 }
+    );
+
+    if (!isValidUUID(token)) {
+      return notFound;
+    }
+
+    const supabase = createAdminServiceClient();
+    const { data: stored, error: recapError } = await supabase
+      .from('game_recaps')
+      .select('recap')
+      .eq('share_token', token)
+      .maybeSingle();
+
+    if (recapError) {
+      logger.error('Database error looking up shared results', recapError, {
+        operation: 'getSharedResults',
+      });
+      return NextResponse.json(
+        { error: 'Failed to load results' },
+        { status: 500 }
+      );
+    }
+
+    if (!stored) {
+      return notFound;
+    }
+
+    return NextResponse.json(
+      { recap: stored.recap as unknown as GameRecap },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('Shared results lookup failed', error, {
+      operation: 'getSharedResults',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
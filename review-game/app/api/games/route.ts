@@ -1,9 +1,29 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createAdminServerClient } from '@/lib/admin/auth';
-import type { TablesInsert } from '@/types/database.types';
+import type { Json, TablesInsert } from '@/types/database.types';
 import type { GameListItem, GameListResponse } from '@/types/game.types';
 import { logger } from '@/lib/logger';
 import { canAccessPubTrivia, getMaxPubTriviaPlayers } from '@/lib/utils/feature-access';
+import { ANSWER_TIMER, BUZZER } from '@/lib/constants/game';
+import { getBoardLayout, validateBoardLayout } from '@/lib/utils/boardLayout';
+import {
+  getDailyDoubleSettings,
+  validateDailyDoublePositions,
+  validateDailyDoubleSettings,
+  validateSharedBankCategories,
+} from '@/lib/utils/gameRounds';
+import { validateStealRules } from '@/lib/utils/stealRules';
+import {
+  DEFAULT_DAILY_DOUBLE_WAGER_RULES,
+  validateDailyDoubleWagerRules,
+} from '@/lib/utils/dailyDoubleWager';
+import { validateHintPenalty } from '@/lib/utils/hints';
+import { validateAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { validateTieBreakerQuestion } from '@/lib/utils/tieBreaker';
+import { normalizePubTriviaScoring, validatePubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { normalizePubTriviaTeamPlay, validatePubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
+import type { PubTriviaScoringProfile, PubTriviaTeamPlay } from '@/types/pub-trivia';
 
 /**
  * GET /api/games
@@ -64,6 +84,7 @@ export async function GET(req: NextRequest) {
         started_at,
         completed_at,
         status,
+        join_code,
         num_teams,
         team_names,
         timer_enabled,
@@ -167,6 +188,7 @@ export async function GET(req: NextRequest) {
       started_at: string | null;
       completed_at: string | null;
       status: string | null;
+      join_code: string | null;
       num_teams: number;
       team_names: string[] | null;
       timer_enabled: boolean | null;
@@ -184,6 +206,7 @@ export async function GET(req: NextRequest) {
       bank_title: game.question_banks?.title || 'Unknown',
       bank_subject: game.question_banks?.subject || 'Unknown',
       status: game.status,
+      join_code: game.join_code,
       num_teams: game.num_teams,
       created_at: game.created_at,
       started_at: game.started_at,
@@ -264,28 +287,41 @@ export async function POST(req: NextRequest) {
       team_names,
       timer_enabled,
       timer_seconds,
-      daily_double_positions,
+      answer_timer_seconds, // Optional: answer clock in seconds; null turns it off
+      buzzer_lockout_ms,
+      answer_mode, // Optional: 'buzzer' (default) or 'all_play'
+      steal_enabled, // Optional steal rules: see lib/utils/stealRules.ts
+      deduct_incorrect,
+      steal_restarts_timer,
+      max_answer_attempts,
+      hint_penalty_percent, // Optional: percentage a revealed hint takes off a clue
+      daily_double_mode, // Optional: 'manual' (default), 'random', 'weighted' or 'none'
+      daily_double_count, // Optional: Daily Doubles on the first board (default 2)
+      daily_double_positions, // Required for manual placement only
+      daily_double_min_wager, // Optional Daily Double wager rules: see lib/utils/dailyDoubleWager.ts
+      daily_double_max_wager,
+      daily_double_allow_negative,
+      board_categories, // Optional: number of categories (default 7)
+      point_values, // Optional: point ladder, one value per row (default 100-500)
+      double_jeopardy_bank_id, // Optional: bank for a Double Jeopardy round
       effective_user_id, // Optional: for admin impersonation
       final_jeopardy_question, // Optional: Final Jeopardy question data
+      tie_breaker_question, // Optional: authored first tie-breaker clue
+      pub_trivia_scoring, // Optional: Quick Fire scoring profile (pub_trivia only)
+      pub_trivia_teams, // Optional: Quick Fire team play settings (pub_trivia only)
       game_type: rawGameType,
     } = body;
 
     const game_type: 'jeopardy' | 'pub_trivia' = rawGameType === 'pub_trivia' ? 'pub_trivia' : 'jeopardy';
     const targetUserId = effective_user_id || user.id;
 
-    // Validate required fields (daily_double_positions only required for jeopardy)
+    // Validate required fields
     if (!bank_id || !num_teams) {
       return NextResponse.json(
         { error: 'Missing required fields: bank_id, num_teams' },
         { status: 400 }
       );
     }
-    if (game_type === 'jeopardy' && !daily_double_positions) {
-      return NextResponse.json(
-        { error: 'daily_double_positions is required for Jeopardy games' },
-        { status: 400 }
-      );
-    }
 
     // Validate bank_id format (must be valid UUID)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -331,14 +367,234 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Validate daily_double_positions (jeopardy only)
-    if (game_type === 'jeopardy' && (!Array.isArray(daily_double_positions) || daily_double_positions.length !== 2)) {
+    // Validate answer clock (jeopardy only; null turns it off)
+    if (answer_timer_seconds !== undefined && answer_timer_seconds !== null) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'The answer clock is only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      if (
+        typeof answer_timer_seconds !== 'number' ||
+        !Number.isInteger(answer_timer_seconds) ||
+        answer_timer_seconds < ANSWER_TIMER.MIN_SECONDS ||
+        answer_timer_seconds > ANSWER_TIMER.MAX_SECONDS
+      ) {
+        return NextResponse.json(
+          { error: `answer_timer_seconds must be null or an integer between ${ANSWER_TIMER.MIN_SECONDS} and ${ANSWER_TIMER.MAX_SECONDS}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate early-buzz lockout (jeopardy only; falls back to the column default)
+    if (buzzer_lockout_ms !== undefined && (
+      typeof buzzer_lockout_ms !== 'number' ||
+      !Number.isInteger(buzzer_lockout_ms) ||
+      buzzer_lockout_ms < BUZZER.LOCKOUT_MIN_MS ||
+      buzzer_lockout_ms > BUZZER.LOCKOUT_MAX_MS
+    )) {
       return NextResponse.json(
-        { error: 'daily_double_positions must be an array of exactly 2 positions' },
+        { error: `buzzer_lockout_ms must be an integer between ${BUZZER.LOCKOUT_MIN_MS} and ${BUZZER.LOCKOUT_MAX_MS}` },
         { status: 400 }
       );
     }
 
+    // Validate answer mode (jeopardy only; falls back to the column default)
+    if (answer_mode !== undefined && answer_mode !== null) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Answer mode is only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      if (answer_mode !== 'buzzer' && answer_mode !== 'all_play') {
+        return NextResponse.json(
+          { error: "answer_mode must be 'buzzer' or 'all_play'" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate steal rules (jeopardy only; absent fields fall back to the column defaults)
+    const stealRules = { steal_enabled, deduct_incorrect, steal_restarts_timer, max_answer_attempts };
+    if (Object.values(stealRules).some((value) => value !== undefined)) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Steal rules are only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      const stealRulesError = validateStealRules(stealRules);
+      if (stealRulesError) {
+        return NextResponse.json(
+          { error: stealRulesError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate hint penalty (jeopardy only; falls back to the column default)
+    if (hint_penalty_percent !== undefined) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Hints are only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      const hintPenaltyError = validateHintPenalty(hint_penalty_percent);
+      if (hintPenaltyError) {
+        return NextResponse.json(
+          { error: hintPenaltyError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate Daily Double wager rules (jeopardy only; absent fields fall
+    // back to the column defaults, which the cap is compared against)
+    if (
+      daily_double_min_wager !== undefined ||
+      daily_double_max_wager !== undefined ||
+      daily_double_allow_negative !== undefined
+    ) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Daily Double wager rules are only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      const wagerRulesError = validateDailyDoubleWagerRules({
+        daily_double_min_wager: daily_double_min_wager ?? DEFAULT_DAILY_DOUBLE_WAGER_RULES.minWager,
+        daily_double_max_wager: daily_double_max_wager === undefined
+          ? DEFAULT_DAILY_DOUBLE_WAGER_RULES.maxWager
+          : daily_double_max_wager,
+        daily_double_allow_negative,
+      });
+      if (wagerRulesError) {
+        return NextResponse.json(
+          { error: wagerRulesError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate double_jeopardy_bank_id (jeopardy only; may equal bank_id, see
+    // the shared bank check below)
+    if (double_jeopardy_bank_id !== undefined && double_jeopardy_bank_id !== null) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Double Jeopardy is only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      if (typeof double_jeopardy_bank_id !== 'string' || !uuidRegex.test(double_jeopardy_bank_id)) {
+        return NextResponse.json(
+          { error: 'Invalid double_jeopardy_bank_id format. Must be a valid UUID.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate board dimensions (jeopardy only; omitted fields use the standard board)
+    const boardLayout = getBoardLayout({ board_categories, point_values });
+    if (board_categories !== undefined || point_values !== undefined) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Board dimensions are only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      const layoutError = validateBoardLayout(boardLayout.categories, boardLayout.pointValues);
+      if (layoutError) {
+        return NextResponse.json(
+          { error: layoutError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A Double Jeopardy round on the round 1 bank plays the bank's next
+    // categories, so the bank needs enough for both boards
+    if (game_type === 'jeopardy' && double_jeopardy_bank_id && double_jeopardy_bank_id === bank_id) {
+      const { data: bankQuestions, error: bankQuestionsError } = await supabase
+        .from('questions')
+        .select('category')
+        .eq('bank_id', bank_id);
+
+      if (bankQuestionsError) {
+        logger.error('Failed to read question bank categories', bankQuestionsError, {
+          operation: 'createGame',
+          bankId: bank_id,
+        });
+        return NextResponse.json(
+          { error: 'Failed to check question bank' },
+          { status: 500 }
+        );
+      }
+      const sharedBankError = validateSharedBankCategories(
+        (bankQuestions ?? []).map((question) => question.category),
+        boardLayout
+      );
+      if (sharedBankError) {
+        return NextResponse.json(
+          { error: sharedBankError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate Daily Double placement (jeopardy only)
+    if (daily_double_mode !== undefined || daily_double_count !== undefined) {
+      if (game_type !== 'jeopardy') {
+        return NextResponse.json(
+          { error: 'Daily Double placement is only available for Jeopardy games' },
+          { status: 400 }
+        );
+      }
+      const dailyDoubleSettingsError = validateDailyDoubleSettings(daily_double_mode, daily_double_count);
+      if (dailyDoubleSettingsError) {
+        return NextResponse.json(
+          { error: dailyDoubleSettingsError },
+          { status: 400 }
+        );
+      }
+    }
+    const dailyDoubles = getDailyDoubleSettings({ daily_double_mode, daily_double_count });
+
+    // Validate daily_double_positions (jeopardy only): manual games send the
+    // chosen count for round 1, plus one more tagged round 2 when Double
+    // Jeopardy is enabled, all inside the board. Random and weighted games
+    // get their cells when the game starts.
+    if (game_type === 'jeopardy') {
+      if (dailyDoubles.mode === 'manual') {
+        if (!daily_double_positions) {
+          return NextResponse.json(
+            { error: 'daily_double_positions is required for Jeopardy games with manual Daily Doubles' },
+            { status: 400 }
+          );
+        }
+        const positionsError = validateDailyDoublePositions(
+          daily_double_positions,
+          !!double_jeopardy_bank_id,
+          boardLayout,
+          dailyDoubles.count
+        );
+        if (positionsError) {
+          return NextResponse.json(
+            { error: positionsError },
+            { status: 400 }
+          );
+        }
+      } else if (daily_double_positions !== undefined && daily_double_positions !== null) {
+        return NextResponse.json(
+          { error: `daily_double_positions cannot be set when daily_double_mode is '${dailyDoubles.mode}'` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate team_names if provided (length must match num_teams)
     if (team_names) {
       if (!Array.isArray(team_names)) {
@@ -372,7 +628,7 @@ export async function POST(req: NextRequest) {
           { status: 400 }
         );
       }
-      const { category, question, answer } = final_jeopardy_question as Record<string, unknown>;
+      const { category, question, answer, accepted_answers } = final_jeopardy_question as Record<string, unknown>;
       const allowedCharsPattern = /^[\w\s\-'.,!?@()\[\]]+$/;
 
       if (typeof category !== 'string' || category.length === 0 || category.length > 100) {
@@ -412,6 +668,52 @@ export async function POST(req: NextRequest) {
           { status: 400 }
         );
       }
+      if (accepted_answers !== undefined && accepted_answers !== null) {
+        const acceptedAnswersError = validateAcceptedAnswers(
+          accepted_answers,
+          QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT,
+          200
+        );
+        if (acceptedAnswersError) {
+          return NextResponse.json(
+            { error: `final_jeopardy_question: ${acceptedAnswersError}` },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    // Validate tie_breaker_question if provided
+    if (tie_breaker_question !== undefined) {
+      const tieBreakerError = validateTieBreakerQuestion(tie_breaker_question);
+      if (tieBreakerError) {
+        return NextResponse.json(
+          { error: tieBreakerError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate pub_trivia_scoring if provided
+    if (pub_trivia_scoring !== undefined) {
+      const scoringError = validatePubTriviaScoring(pub_trivia_scoring);
+      if (scoringError) {
+        return NextResponse.json(
+          { error: scoringError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate pub_trivia_teams if provided
+    if (pub_trivia_teams !== undefined) {
+      const teamsError = validatePubTriviaTeamPlay(pub_trivia_teams);
+      if (teamsError) {
+        return NextResponse.json(
+          { error: teamsError },
+          { status: 400 }
+        );
+      }
     }
 
     // Atomically check and increment game count (prevents race conditions)
@@ -485,8 +787,33 @@ export async function POST(req: NextRequest) {
       team_names: game_type === 'pub_trivia' ? null : (team_names ?? null),
       timer_enabled: timer_enabled ?? true,
       timer_seconds: timer_enabled ? timer_seconds : null,
-      daily_double_positions: game_type === 'pub_trivia' ? null : (daily_double_positions ?? null),
+      ...(answer_timer_seconds !== undefined ? { answer_timer_seconds } : {}),
+      ...(game_type === 'jeopardy' && buzzer_lockout_ms !== undefined ? { buzzer_lockout_ms } : {}),
+      ...(answer_mode ? { answer_mode } : {}),
+      ...(steal_enabled !== undefined ? { steal_enabled } : {}),
+      ...(deduct_incorrect !== undefined ? { deduct_incorrect } : {}),
+      ...(steal_restarts_timer !== undefined ? { steal_restarts_timer } : {}),
+      ...(max_answer_attempts !== undefined ? { max_answer_attempts } : {}),
+      ...(hint_penalty_percent !== undefined ? { hint_penalty_percent } : {}),
+      ...(daily_double_min_wager !== undefined ? { daily_double_min_wager } : {}),
+      ...(daily_double_max_wager !== undefined ? { daily_double_max_wager } : {}),
+      ...(daily_double_allow_negative !== undefined ? { daily_double_allow_negative } : {}),
+      daily_double_positions: game_type === 'jeopardy' && dailyDoubles.mode === 'manual' ? daily_double_positions : null,
+      ...(game_type === 'jeopardy'
+        ? { daily_double_mode: dailyDoubles.mode, daily_double_count: dailyDoubles.count }
+        : {}),
+      ...(game_type === 'jeopardy'
+        ? { board_categories: boardLayout.categories, point_values: boardLayout.pointValues }
+        : {}),
+      double_jeopardy_bank_id: game_type === 'pub_trivia' ? null : (double_jeopardy_bank_id ?? null),
       final_jeopardy_question: game_type === 'pub_trivia' ? null : (final_jeopardy_question ?? null),
+      tie_breaker_question: game_type === 'pub_trivia' ? null : (tie_breaker_question ?? null),
+      pub_trivia_scoring: game_type === 'pub_trivia' && pub_trivia_scoring
+        ? normalizePubTriviaScoring(pub_trivia_scoring as PubTriviaScoringProfile) as unknown as Json
+        : null,
+      pub_trivia_teams: game_type === 'pub_trivia' && pub_trivia_teams
+        ? normalizePubTriviaTeamPlay(pub_trivia_teams as PubTriviaTeamPlay) as unknown as Json
+        : null,
       game_type,
       status: 'setup',
       selected_questions: [],
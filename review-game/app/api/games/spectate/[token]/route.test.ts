@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for GET /api/games/spectate/[token].
+ *
+ * Tests token lookup and that clue text, answers and Daily Double cells are
+ * withheld until the room has seen them. The filtering rules themselves are
+ * covered in lib/utils/spectator.test.ts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// ---------------------------------------------------------------------------
+// Mocks — declared before dynamic import so vi.mock hoisting applies
+// ---------------------------------------------------------------------------
+
+type QueryResult = { data: unknown; error: unknown };
+
+const tableResults: Record<string, QueryResult> = {};
+
+/**
+ * Chainable query builder that resolves to tableResults[table] however the
+ * route ends the chain (await, single or maybeSingle).
+ */
+function makeQuery(table: string) {
+  const result = () => Promise.resolve(tableResults[table] ?? { data: null, error: null });
+  const query: Record<string, unknown> = {
+    then: (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+      result().then(resolve, reject),
+    single: result,
+    maybeSingle: result,
+  };
+  for (const method of ['select', 'eq', 'in', 'order']) {
+    query[method] = () => query;
+  }
+  return query;
+}
+
+const mockFrom = vi.fn((table: string) => makeQuery(table));
+
+vi.mock('@/lib/admin/auth', () => ({
+  createAdminServiceClient: () => ({ from: mockFrom }),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TOKEN = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const GAME_ID = '11111111-2222-3333-4444-555555555555';
+
+const makeQuestion = (id: string, pointValue: number) => ({
+  id,
+  category: 'Space',
+  point_value: pointValue,
+  question_text: `question ${id}`,
+  answer_text: `answer ${id}`,
+  image_url: null,
+  image_alt_text: null,
+});
+
+const baseGame = {
+  id: GAME_ID,
+  status: 'active',
+  game_type: 'jeopardy',
+  bank_id: 'bank-1',
+  double_jeopardy_bank_id: null,
+  current_round: 1,
+  current_phase: 'regular',
+  current_question_id: 'q2',
+  answer_revealed: false,
+  buzzers_armed_question_id: null,
+  all_play_question_id: null,
+  daily_double_wager: null,
+  selected_questions: ['q1'],
+  daily_double_positions: [{ category: 0, position: 0 }],
+  board_categories: 1,
+  point_values: [100, 200],
+  final_jeopardy_question: null,
+  final_jeopardy_question_revealed: false,
+  question_banks: { title: 'Astronomy' },
+};
+
+function makeContext(token = TOKEN) {
+  return { params: Promise.resolve({ token }) };
+}
+
+function makeRequest() {
+  return new NextRequest(`http://localhost/api/games/spectate/${TOKEN}`);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('GET /api/games/spectate/[token]', () => {
+  let GET: (req: NextRequest, ctx: ReturnType<typeof makeContext>) => Promise<Response>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tableResults.game_spectator_links = { data: { game_id: GAME_ID }, error: null };
+    tableResults.games = { data: baseGame, error: null };
+    tableResults.questions = { data: [makeQuestion('q1', 100), makeQuestion('q2', 200)], error: null };
+    tableResults.teams = {
+      data: [{ id: 't1', team_name: null, team_number: 1, score: 100 }],
+      error: null,
+    };
+    const routeModule = await import('./route');
+    GET = routeModule.GET;
+  });
+
+  it('returns the board and scores without clue text or Daily Doubles', async () => {
+    const res = await GET(makeRequest(), makeContext());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.title).toBe('Astronomy');
+    expect(body.teams).toEqual([{ id: 't1', name: 'Team 1', score: 100 }]);
+    expect(body.categories).toEqual([
+      {
+        id: 'space',
+        name: 'Space',
+        questions: [
+          { id: 'q1', value: 100, isUsed: true },
+          { id: 'q2', value: 200, isUsed: false },
+        ],
+      },
+    ]);
+    expect(JSON.stringify(body)).not.toContain('answer q');
+  });
+
+  it('withholds the open clue until it has been read', async () => {
+    const res = await GET(makeRequest(), makeContext());
+    const body = await res.json();
+
+    expect(body.currentClue).toMatchObject({ questionId: 'q2', value: 200, text: null, answer: null });
+  });
+
+  it('shows the clue once buzzers are armed and the answer once revealed', async () => {
+    tableResults.games = {
+      data: { ...baseGame, buzzers_armed_question_id: 'q2', answer_revealed: true },
+      error: null,
+    };
+
+    const res = await GET(makeRequest(), makeContext());
+    const body = await res.json();
+
+    expect(body.currentClue).toMatchObject({ text: 'question q2', answer: 'answer q2' });
+  });
+
+  it('returns 404 for a revoked link', async () => {
+    tableResults.game_spectator_links = { data: null, error: null };
+
+    const res = await GET(makeRequest(), makeContext());
+    expect(res.status).toBe(404);
+    expect(mockFrom).not.toHaveBeenCalledWith('games');
+  });
+
+  it('returns 404 for a malformed token without calling the database', async () => {
+    const res = await GET(makeRequest(), makeContext('not-a-token'));
+    expect(res.status).toBe(404);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('rejects Quick Fire games', async () => {
+    tableResults.games = { data: { ...baseGame, game_type: 'pub_trivia' }, error: null };
+
+    const res = await GET(makeRequest(), makeContext());
+    expect(res.status).toBe(400);
+  });
+});
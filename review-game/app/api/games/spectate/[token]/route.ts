@@ -0,0 +1,236 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminServiceClient } from '@/lib/admin/auth';
+import { logger } from '@/lib/logger';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { buildRoundCategories, getRoundCategoryOffset, isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
+import {
+  buildSpectatorClue,
+  buildSpectatorFinalJeopardy,
+  toSpectatorCategories,
+} from '@/lib/utils/spectator';
+import { isValidUUID } from '@/lib/utils/uuid';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import type {
+  DailyDoublePosition,
+  FinalJeopardyQuestion,
+  GamePhase,
+  GameRound,
+  SpectatorSnapshot,
+} from '@/types/game';
+
+/**
+ * GET /api/games/spectate/[token]
+ * Returns what a spectator screen shows for the game behind a spectator link.
+ *
+ * Verifies:
+ * - The token belongs to a spectator link that has not been revoked
+ * - The game is a Jeopardy game
+ *
+ * Response: SpectatorSnapshot — board without clue text, approved teams and
+ * scores, the open clue (text once read, answer once revealed) and Final
+ * Jeopardy with revealed team results.
+ *
+ * Security: Spectators are not signed in. The lookup uses the service role,
+ * so everything returned is filtered through lib/utils/spectator; answers and
+ * Daily Double cells never leave the server before the room sees them.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await context.params;
+
+    const notFound = NextResponse.json(
+      { error: 'This spectator link is not valid or has been turned off' },
+      { status: 404 }
+    );
+
+    if (!isValidUUID(token)) {
+      return notFound;
+    }
+
+    const supabase = createAdminServiceClient();
+
+    const { data: link, error: linkError } = await supabase
+      .from('game_spectator_links')
+      .select('game_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (linkError) {
+      logger.error('Database error looking up spectator link', linkError, {
+        operation: 'getSpectatorSnapshot',
+      });
+      return NextResponse.json(
+        { error: 'Failed to load game' },
+        { status: 500 }
+      );
+    }
+
+    if (!link) {
+      return notFound;
+    }
+
+    const gameId = link.game_id;
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select(`
+        id,
+        status,
+        game_type,
+        bank_id,
+        double_jeopardy_bank_id,
+        current_round,
+        current_phase,
+        current_question_id,
+        answer_revealed,
+        hint_revealed,
+        buzzers_armed_question_id,
+        all_play_question_id,
+        daily_double_wager,
+        selected_questions,
+        daily_double_positions,
+        board_categories,
+        point_values,
+        final_jeopardy_question,
+        final_jeopardy_question_revealed,
+        question_banks (
+          title
+        )
+      `)
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return notFound;
+    }
+
+    if (game.game_type === 'pub_trivia') {
+      return NextResponse.json(
+        { error: 'Spectator view is only available for Jeopardy games' },
+        { status: 400 }
+      );
+    }
+
+    const round = (game.current_round ?? 1) as GameRound;
+    const currentPhase = (game.current_phase ?? 'regular') as GamePhase;
+    const bankId = round === DOUBLE_JEOPARDY.ROUND && game.double_jeopardy_bank_id
+      ? game.double_jeopardy_bank_id
+      : game.bank_id;
+
+    const [questionsResult, teamsResult] = await Promise.all([
+      supabase
+        .from('questions')
+        .select('*')
+        .eq('bank_id', bankId)
+        .order('category')
+        .order('position'),
+      supabase
+        .from('teams')
+        .select('id, team_name, team_number, score')
+        .eq('game_id', gameId)
+        // Disconnected teams were approved and only lost their heartbeat
+        .in('connection_status', ['connected', 'disconnected'])
+        .order('team_number'),
+    ]);
+
+    if (questionsResult.error || teamsResult.error) {
+      logger.error('Failed to load spectator board', questionsResult.error ?? teamsResult.error, {
+        operation: 'getSpectatorSnapshot',
+        gameId,
+      });
+      return NextResponse.json(
+        { error: 'Failed to load game' },
+        { status: 500 }
+      );
+    }
+
+    const layout = getBoardLayout(game);
+    const categories = buildRoundCategories(
+      questionsResult.data ?? [],
+      game.selected_questions ?? [],
+      (game.daily_double_positions as unknown as DailyDoublePosition[] | null) ?? [],
+      round,
+      layout,
+      getRoundCategoryOffset(game, round, layout)
+    );
+
+    const openQuestion = game.current_question_id
+      ? categories
+          .flatMap((category) => category.questions)
+          .find((question) => question.id === game.current_question_id)
+      : undefined;
+
+    const currentClue = openQuestion
+      ? buildSpectatorClue(openQuestion, {
+          buzzersArmed: game.buzzers_armed_question_id === openQuestion.id,
+          allPlayStarted: game.all_play_question_id === openQuestion.id,
+          dailyDoubleWagered: game.daily_double_wager !== null,
+          answerRevealed: game.answer_revealed,
+          hintRevealed: game.hint_revealed,
+        })
+      : null;
+
+    let finalJeopardy: SpectatorSnapshot['finalJeopardy'] = null;
+    if (isFinalJeopardyPhase(currentPhase) && game.final_jeopardy_question) {
+      const { data: wagers, error: wagersError } = await supabase
+        .from('wagers')
+        .select('team_id, wager_amount, answer_text, is_correct')
+        .eq('game_id', gameId)
+        .eq('wager_type', 'final_jeopardy')
+        .eq('revealed', true);
+
+      if (wagersError) {
+        logger.error('Failed to load Final Jeopardy reveals', wagersError, {
+          operation: 'getSpectatorSnapshot',
+          gameId,
+        });
+        return NextResponse.json(
+          { error: 'Failed to load game' },
+          { status: 500 }
+        );
+      }
+
+      finalJeopardy = buildSpectatorFinalJeopardy(
+        game.final_jeopardy_question as unknown as FinalJeopardyQuestion,
+        game.final_jeopardy_question_revealed,
+        (wagers ?? []).map((wager) => ({
+          teamId: wager.team_id,
+          wager: wager.wager_amount,
+          answer: wager.answer_text,
+          isCorrect: wager.is_correct,
+        }))
+      );
+    }
+
+    const snapshot: SpectatorSnapshot = {
+      gameId,
+      title: game.question_banks?.title ?? 'Review Game',
+      status: game.status,
+      currentRound: round,
+      currentPhase,
+      categories: toSpectatorCategories(categories),
+      teams: (teamsResult.data ?? []).map((team) => ({
+        id: team.id,
+        name: team.team_name || `Team ${team.team_number}`,
+        score: team.score ?? 0,
+      })),
+      currentClue,
+      finalJeopardy,
+    };
+
+    return NextResponse.json(snapshot, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Spectator snapshot failed', error, {
+      operation: 'getSpectatorSnapshot',
+    });
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@ import type { TablesInsert } from '@/types/database.types';
 import { canAccessVideoImages } from '@/lib/utils/feature-access';
 import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
 import { isSafeImageUrl } from '@/lib/utils/url';
+import { validateAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { validateQuestionFormat } from '@/lib/utils/questionFormats';
 
 /**
  * GET /api/question-banks/[bankId]/questions
@@ -116,8 +118,13 @@ export async function GET(
  * - point_value: number (required, must be 100, 200, 300, 400, or 500)
  * - question_text: string (required, 1-500 chars)
  * - answer_text: string (required, 1-300 chars)
+ * - hint: string (optional, max 300 chars, revealed during a game)
  * - teacher_notes: string (optional, max 1000 chars)
  * - image_url: string (optional, requires BASIC/PREMIUM, must be valid URL)
+ * - accepted_answers: string[] (optional, alternate correct answers, max 10)
+ * - question_format: string (optional, Quick Fire format, defaults to multiple_choice)
+ * - numeric_tolerance: number (numeric questions, optional, at least 0)
+ * - ordering_items: string[] (ordering questions, 3-6 items in correct order)
  */
 export async function POST(
   req: NextRequest,
@@ -191,7 +198,10 @@ export async function POST(
 
     // 5. Get and validate request body
     const body = await req.json();
-    const { category, point_value, question_text, answer_text, teacher_notes, image_url, image_alt_text, mc_options } = body;
+    const {
+      category, point_value, question_text, answer_text, hint, teacher_notes, image_url, image_alt_text,
+      mc_options, accepted_answers, question_format = 'multiple_choice', numeric_tolerance, ordering_items,
+    } = body;
 
     // Validate category
     if (!category || typeof category !== 'string') {
@@ -252,6 +262,22 @@ export async function POST(
       );
     }
 
+    // Validate hint (optional)
+    if (hint !== undefined && hint !== null) {
+      if (typeof hint !== 'string') {
+        return NextResponse.json(
+          { error: 'Hint must be a string' },
+          { status: 400 }
+        );
+      }
+      if (hint.trim().length > QUESTION_VALIDATION.HINT_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Hint must not exceed ${QUESTION_VALIDATION.HINT_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate teacher_notes (optional)
     if (teacher_notes !== undefined && teacher_notes !== null) {
       if (typeof teacher_notes !== 'string') {
@@ -321,6 +347,30 @@ export async function POST(
       }
     }
 
+    // Validate accepted_answers (optional alternates for the answer matcher)
+    if (accepted_answers !== undefined && accepted_answers !== null) {
+      const acceptedAnswersError = validateAcceptedAnswers(
+        accepted_answers,
+        QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT,
+        QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH
+      );
+      if (acceptedAnswersError) {
+        return NextResponse.json(
+          { error: acceptedAnswersError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate the Quick Fire format (true/false and numeric constrain answer_text)
+    const formatError = validateQuestionFormat({ question_format, answer_text, numeric_tolerance, ordering_items });
+    if (formatError) {
+      return NextResponse.json(
+        { error: formatError },
+        { status: 400 }
+      );
+    }
+
     // Validate image_url (optional, requires feature access)
     if (image_url !== undefined && image_url !== null && image_url !== '') {
       // Validate type before checking feature access to return accurate status codes
@@ -379,11 +429,19 @@ export async function POST(
       position: (count || 0) + 1,
       question_text: question_text.trim(),
       answer_text: answer_text.trim(),
+      hint: hint?.trim() || null,
       teacher_notes: teacher_notes?.trim() || null,
       image_url: trimmedImageUrl,
       // Never persist alt text without an image
       image_alt_text: trimmedImageUrl ? (image_alt_text?.trim() || null) : null,
       mc_options: Array.isArray(mc_options) ? mc_options.map((opt: string) => opt.trim()) : null,
+      accepted_answers: Array.isArray(accepted_answers)
+        ? Array.from(new Set(accepted_answers.map((a: string) => a.trim())))
+        : [],
+      question_format,
+      // Format settings are only kept for the format that uses them
+      numeric_tolerance: question_format === 'numeric' ? (numeric_tolerance ?? 0) : null,
+      ordering_items: question_format === 'ordering' ? ordering_items.map((item: string) => item.trim()) : null,
     };
 
     const { data: newQuestion, error: createError } = await supabase
@@ -5,6 +5,8 @@ import type { TablesUpdate } from '@/types/database.types';
 import { canAccessVideoImages } from '@/lib/utils/feature-access';
 import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
 import { isSafeImageUrl } from '@/lib/utils/url';
+import { validateAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { validateQuestionFormat } from '@/lib/utils/questionFormats';
 
 /**
  * PATCH /api/questions/[questionId]
@@ -18,8 +20,13 @@ import { isSafeImageUrl } from '@/lib/utils/url';
  * - point_value: number (100, 200, 300, 400, or 500)
  * - question_text: string (1-500 chars)
  * - answer_text: string (1-300 chars)
+ * - hint: string (max 300 chars; null removes it)
  * - teacher_notes: string (max 1000 chars)
  * - image_url: string (requires BASIC/PREMIUM, valid URL)
+ * - accepted_answers: string[] (alternate correct answers, max 10)
+ * - question_format: string (Quick Fire format)
+ * - numeric_tolerance: number (numeric questions, at least 0)
+ * - ordering_items: string[] (ordering questions, 3-6 items in correct order)
  */
 export async function PATCH(
   req: NextRequest,
@@ -103,7 +110,10 @@ export async function PATCH(
 
     // 5. Get and validate request body
     const body = await req.json();
-    const { category, point_value, question_text, answer_text, teacher_notes, image_url, image_alt_text, mc_options } = body;
+    const {
+      category, point_value, question_text, answer_text, hint, teacher_notes, image_url, image_alt_text,
+      mc_options, accepted_answers, question_format, numeric_tolerance, ordering_items,
+    } = body;
 
     // Build update object with only provided fields
     const updateData: TablesUpdate<'questions'> = {};
@@ -179,6 +189,23 @@ export async function PATCH(
       updateData.answer_text = answer_text.trim();
     }
 
+    // Validate and add hint if provided
+    if (hint !== undefined) {
+      if (hint !== null && typeof hint !== 'string') {
+        return NextResponse.json(
+          { error: 'Hint must be a string or null' },
+          { status: 400 }
+        );
+      }
+      if (hint && hint.trim().length > QUESTION_VALIDATION.HINT_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Hint must not exceed ${QUESTION_VALIDATION.HINT_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updateData.hint = hint ? hint.trim() || null : null;
+    }
+
     // Validate and add teacher_notes if provided
     if (teacher_notes !== undefined) {
       if (teacher_notes !== null && typeof teacher_notes !== 'string') {
@@ -257,6 +284,51 @@ export async function PATCH(
       }
     }
 
+    // Validate and add accepted_answers if provided (empty array clears them)
+    if (accepted_answers !== undefined) {
+      const acceptedAnswersError = validateAcceptedAnswers(
+        accepted_answers,
+        QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT,
+        QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH
+      );
+      if (acceptedAnswersError) {
+        return NextResponse.json(
+          { error: acceptedAnswersError },
+          { status: 400 }
+        );
+      }
+      updateData.accepted_answers = Array.from(new Set((accepted_answers as string[]).map((a) => a.trim())));
+    }
+
+    // Validate the Quick Fire format against the question as it will be saved;
+    // a new answer_text must still suit a true/false or numeric question
+    if (
+      question_format !== undefined ||
+      numeric_tolerance !== undefined ||
+      ordering_items !== undefined ||
+      updateData.answer_text !== undefined
+    ) {
+      const format = question_format ?? existingQuestion.question_format;
+      const tolerance = numeric_tolerance !== undefined ? numeric_tolerance : existingQuestion.numeric_tolerance;
+      const items = ordering_items !== undefined ? ordering_items : existingQuestion.ordering_items;
+      const formatError = validateQuestionFormat({
+        question_format: format,
+        answer_text: updateData.answer_text ?? existingQuestion.answer_text,
+        numeric_tolerance: tolerance,
+        ordering_items: items,
+      });
+      if (formatError) {
+        return NextResponse.json(
+          { error: formatError },
+          { status: 400 }
+        );
+      }
+      updateData.question_format = format;
+      // Format settings are only kept for the format that uses them
+      updateData.numeric_tolerance = format === 'numeric' ? (tolerance ?? 0) : null;
+      updateData.ordering_items = format === 'ordering' ? (items as string[]).map((item) => item.trim()) : null;
+    }
+
     // Validate and add image_url if provided
     if (image_url !== undefined) {
       if (image_url !== null && image_url !== '') {
@@ -6,8 +6,20 @@ import Link from 'next/link';
 import { ArrowLeftIcon, ArrowPathIcon, EyeIcon } from '@heroicons/react/24/outline';
 import { logger } from '@/lib/logger';
 import { canAccessCustomTeamNames, getMaxTeams } from '@/lib/utils/feature-access';
-import { GAME_BOARD } from '@/lib/constants/game';
+import { ANSWER_TIMER, BUZZER, DAILY_DOUBLE_WAGER, DOUBLE_JEOPARDY, GAME_BOARD, HINTS, STEAL_RULES } from '@/lib/constants/game';
+import { DAILY_DOUBLE_MODE_DESCRIPTIONS, DAILY_DOUBLE_MODE_LABELS, DAILY_DOUBLE_WAGER_LABELS } from '@/lib/constants/ui';
+import { getBoardLayout, formatPointLadder } from '@/lib/utils/boardLayout';
+import { formatLockoutDuration } from '@/lib/utils/buzzTiming';
+import {
+  DEFAULT_DAILY_DOUBLE_SETTINGS,
+  generateDailyDoublePositions,
+  getDailyDoubleSettings,
+} from '@/lib/utils/gameRounds';
+import { parseAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { DEFAULT_STEAL_RULES, getStealRules } from '@/lib/utils/stealRules';
+import { DEFAULT_DAILY_DOUBLE_WAGER_RULES, getDailyDoubleWagerRules } from '@/lib/utils/dailyDoubleWager';
 import type { Tables } from '@/types/database.types';
+import type { AnswerMode, DailyDoubleMode, DailyDoublePosition, DailyDoubleSettings, DailyDoubleWagerRules, StealRules } from '@/types/game';
 
 type Profile = Tables<'profiles'>;
 
@@ -21,6 +33,7 @@ interface FinalJeopardy {
   category: string;
   question: string;
   answer: string;
+  accepted_answers?: string[];
 }
 
 interface GameData {
@@ -32,10 +45,28 @@ interface GameData {
   team_names: string[] | null;
   timer_enabled: boolean;
   timer_seconds: number | null;
+  answer_timer_seconds: number | null;
+  buzzer_lockout_ms: number;
+  answer_mode: AnswerMode;
+  steal_enabled: boolean;
+  deduct_incorrect: boolean;
+  steal_restarts_timer: boolean;
+  max_answer_attempts: number | null;
+  hint_penalty_percent: number;
   started_at: string | null;
   status: string | null;
-  daily_double_positions: number[] | null;
+  // Null for random placement, which the API keeps hidden
+  daily_double_positions: DailyDoublePosition[] | null;
+  daily_double_mode: DailyDoubleMode;
+  daily_double_count: number;
+  daily_double_min_wager: number;
+  daily_double_max_wager: number | null;
+  daily_double_allow_negative: boolean;
+  double_jeopardy_bank_id: string | null;
+  board_categories: number;
+  point_values: number[];
   final_jeopardy_question: FinalJeopardy | null;
+  tie_breaker_question: FinalJeopardy | null;
 }
 
 export default function EditGamePage() {
@@ -56,12 +87,30 @@ export default function EditGamePage() {
   const [teamNames, setTeamNames] = useState<string[]>([]);
   const [timerEnabled, setTimerEnabled] = useState(true);
   const [timerSeconds, setTimerSeconds] = useState(30);
-  const [dailyDoubles, setDailyDoubles] = useState<number[]>([]);
+  const [answerClockEnabled, setAnswerClockEnabled] = useState(false);
+  const [answerTimerSeconds, setAnswerTimerSeconds] = useState<number>(ANSWER_TIMER.DEFAULT_SECONDS);
+  const [buzzerLockoutMs, setBuzzerLockoutMs] = useState<number>(BUZZER.LOCKOUT_DEFAULT_MS);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('buzzer');
+  const [stealRules, setStealRules] = useState<StealRules>(DEFAULT_STEAL_RULES);
+  const [hintPenaltyPercent, setHintPenaltyPercent] = useState<number>(HINTS.DEFAULT_PENALTY_PERCENT);
+  const [dailyDoubleSettings, setDailyDoubleSettings] = useState<DailyDoubleSettings>(DEFAULT_DAILY_DOUBLE_SETTINGS);
+  const [dailyDoubles, setDailyDoubles] = useState<DailyDoublePosition[]>([]);
+  const [wagerRules, setWagerRules] = useState<DailyDoubleWagerRules>(DEFAULT_DAILY_DOUBLE_WAGER_RULES);
+  const [dailyDoublesChanged, setDailyDoublesChanged] = useState(false);
   const [finalJeopardy, setFinalJeopardy] = useState<FinalJeopardy>({
     category: '',
     question: '',
     answer: '',
   });
+  // Alternate Final Jeopardy answers, one per line
+  const [fjAcceptedAnswers, setFjAcceptedAnswers] = useState('');
+  // Authored first tie-breaker clue; left blank, one is drawn from the bank
+  const [tieBreaker, setTieBreaker] = useState<FinalJeopardy>({
+    category: '',
+    question: '',
+    answer: '',
+  });
+  const [tbAcceptedAnswers, setTbAcceptedAnswers] = useState('');
 
   // Fetch game data, user profile, and question banks
   useEffect(() => {
@@ -81,8 +130,19 @@ export default function EditGamePage() {
         setTeamNames(foundGame.team_names || Array.from({ length: foundGame.num_teams }, (_, i) => `Team ${i + 1}`));
         setTimerEnabled(foundGame.timer_enabled ?? true);
         setTimerSeconds(foundGame.timer_seconds || 30);
+        setAnswerClockEnabled(foundGame.answer_timer_seconds != null);
+        setAnswerTimerSeconds(foundGame.answer_timer_seconds ?? ANSWER_TIMER.DEFAULT_SECONDS);
+        setBuzzerLockoutMs(foundGame.buzzer_lockout_ms ?? BUZZER.LOCKOUT_DEFAULT_MS);
+        setAnswerMode(foundGame.answer_mode === 'all_play' ? 'all_play' : 'buzzer');
+        setStealRules(getStealRules(foundGame));
+        setHintPenaltyPercent(foundGame.hint_penalty_percent ?? HINTS.DEFAULT_PENALTY_PERCENT);
+        setDailyDoubleSettings(getDailyDoubleSettings(foundGame));
         setDailyDoubles(foundGame.daily_double_positions || []);
+        setWagerRules(getDailyDoubleWagerRules(foundGame));
         setFinalJeopardy(foundGame.final_jeopardy_question || { category: '', question: '', answer: '' });
+        setFjAcceptedAnswers((foundGame.final_jeopardy_question?.accepted_answers ?? []).join('\n'));
+        setTieBreaker(foundGame.tie_breaker_question || { category: '', question: '', answer: '' });
+        setTbAcceptedAnswers((foundGame.tie_breaker_question?.accepted_answers ?? []).join('\n'));
 
         // Fetch user profile for subscription tier
         const profileResponse = await fetch('/api/user/context');
@@ -135,18 +195,27 @@ export default function EditGamePage() {
     setTeamNames(newTeamNames);
   };
 
-  const handleRegenerateDailyDoubles = () => {
-    // Generate 2 random positions for daily doubles
-    const newPositions: number[] = [];
+  const handleRegenerateDailyDoubles = (settings: DailyDoubleSettings = dailyDoubleSettings) => {
+    if (!game) return;
 
-    while (newPositions.length < GAME_BOARD.DAILY_DOUBLE_COUNT) {
-      const randomPos = Math.floor(Math.random() * GAME_BOARD.TOTAL_QUESTIONS);
-      if (!newPositions.includes(randomPos)) {
-        newPositions.push(randomPos);
-      }
-    }
+    setDailyDoubles(generateDailyDoublePositions(
+      game.double_jeopardy_bank_id ? [1, DOUBLE_JEOPARDY.ROUND] : [1],
+      getBoardLayout(game),
+      settings
+    ));
+    setDailyDoublesChanged(true);
+  };
 
-    setDailyDoubles(newPositions.sort((a, b) => a - b));
+  // Manual placement needs cells for the new settings; the other modes have
+  // none until the game starts
+  const handleDailyDoubleSettingsChange = (settings: DailyDoubleSettings) => {
+    setDailyDoubleSettings(settings);
+    if (settings.mode === 'manual') {
+      handleRegenerateDailyDoubles(settings);
+    } else {
+      setDailyDoubles([]);
+      setDailyDoublesChanged(false);
+    }
   };
 
   const handlePreview = () => {
@@ -193,8 +262,28 @@ export default function EditGamePage() {
           team_names: teamNames,
           timer_enabled: timerEnabled,
           timer_seconds: timerEnabled ? timerSeconds : null,
-          daily_double_positions: dailyDoubles,
-          final_jeopardy_question: finalJeopardy.category ? finalJeopardy : null,
+          answer_timer_seconds: answerClockEnabled ? answerTimerSeconds : null,
+          buzzer_lockout_ms: buzzerLockoutMs,
+          answer_mode: answerMode,
+          steal_enabled: stealRules.allowSteals,
+          deduct_incorrect: stealRules.deductIncorrect,
+          steal_restarts_timer: stealRules.restartTimerOnSteal,
+          max_answer_attempts: stealRules.allowSteals ? stealRules.maxAttempts : null,
+          hint_penalty_percent: hintPenaltyPercent,
+          daily_double_min_wager: wagerRules.minWager,
+          daily_double_max_wager: wagerRules.maxWager,
+          daily_double_allow_negative: wagerRules.allowNegativeScores,
+          // Placement is fixed once the game has started
+          daily_double_mode: gameStarted ? undefined : dailyDoubleSettings.mode,
+          daily_double_count: gameStarted ? undefined : dailyDoubleSettings.count,
+          // Only sent once regenerated, so untouched positions are never re-validated
+          daily_double_positions: dailyDoublesChanged ? dailyDoubles : undefined,
+          final_jeopardy_question: finalJeopardy.category
+            ? { ...finalJeopardy, accepted_answers: parseAcceptedAnswers(fjAcceptedAnswers) }
+            : null,
+          tie_breaker_question: tieBreaker.category
+            ? { ...tieBreaker, accepted_answers: parseAcceptedAnswers(tbAcceptedAnswers) }
+            : null,
         }),
       });
 
@@ -254,6 +343,7 @@ export default function EditGamePage() {
   const canUseCustomNames = canAccessCustomTeamNames(userProfile);
   const maxAllowedTeams = getMaxTeams(userProfile);
   const gameStarted = !!game?.started_at;
+  const boardLayout = game ? getBoardLayout(game) : null;
 
   // Status badge
   const getStatusBadge = () => {
@@ -456,31 +546,328 @@ export default function EditGamePage() {
                   )}
                 </div>
 
-                {/* Daily Doubles */}
+                {/* Answer Clock */}
                 <div className="border-t border-gray-200 pt-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <label className="block text-sm font-medium text-gray-700">
-                      Daily Double Positions
+                  <div className="flex items-center mb-3">
+                    <input
+                      type="checkbox"
+                      id="answer-clock-enabled"
+                      checked={answerClockEnabled}
+                      onChange={(e) => setAnswerClockEnabled(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <label htmlFor="answer-clock-enabled" className="ml-3 block text-sm font-medium text-gray-700">
+                      Enable answer clock after a team buzzes in
                     </label>
-                    <button
-                      type="button"
-                      onClick={handleRegenerateDailyDoubles}
-                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                    >
-                      <ArrowPathIcon className="h-4 w-4 mr-1" />
-                      Regenerate
-                    </button>
                   </div>
-                  {dailyDoubles.length > 0 ? (
-                    <div className="flex gap-2">
-                      {dailyDoubles.map((pos, index) => (
-                        <span key={index} className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
-                          Position {pos}
-                        </span>
-                      ))}
+
+                  {answerClockEnabled && (
+                    <div className="ml-7">
+                      <label htmlFor="answer-timer-seconds" className="block text-sm font-medium text-gray-700 mb-1">
+                        Answer Time
+                      </label>
+                      <select
+                        id="answer-timer-seconds"
+                        value={answerTimerSeconds}
+                        onChange={(e) => setAnswerTimerSeconds(parseInt(e.target.value, 10))}
+                        className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      >
+                        {ANSWER_TIMER.OPTIONS_SECONDS.map((seconds) => (
+                          <option key={seconds} value={seconds}>{seconds} seconds</option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-sm text-gray-500">
+                        A team that runs out of time is marked incorrect
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Early-Buzz Lockout */}
+                <div className="border-t border-gray-200 pt-4">
+                  <label htmlFor="buzzer-lockout" className="block text-sm font-medium text-gray-700 mb-1">
+                    Early-Buzz Lockout
+                  </label>
+                  <select
+                    id="buzzer-lockout"
+                    value={buzzerLockoutMs}
+                    onChange={(e) => setBuzzerLockoutMs(parseInt(e.target.value, 10))}
+                    className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    {BUZZER.LOCKOUT_OPTIONS_MS.map((ms) => (
+                      <option key={ms} value={ms}>{formatLockoutDuration(ms)}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Teams that buzz before you arm buzzers are locked out for this long
+                  </p>
+                </div>
+
+                {/* Answer Mode */}
+                <div className="border-t border-gray-200 pt-4">
+                  <label htmlFor="answer-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                    Answer Mode
+                  </label>
+                  <select
+                    id="answer-mode"
+                    value={answerMode}
+                    onChange={(e) => setAnswerMode(e.target.value as AnswerMode)}
+                    className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    <option value="buzzer">Buzzer</option>
+                    <option value="all_play">All-Play</option>
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {answerMode === 'all_play'
+                      ? 'Every team types an answer to each clue; wrong answers do not lose points'
+                      : 'First team to buzz answers; you can still switch a single clue to all-play'}
+                  </p>
+                </div>
+
+                {/* Steal Rules */}
+                <div className="border-t border-gray-200 pt-4 space-y-3">
+                  <span className="block text-sm font-medium text-gray-700">After an Incorrect Answer</span>
+                  <div className="flex items-center">
+                    <input
+                      id="deduct-incorrect"
+                      type="checkbox"
+                      checked={stealRules.deductIncorrect}
+                      onChange={(e) => setStealRules((prev) => ({ ...prev, deductIncorrect: e.target.checked }))}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <label htmlFor="deduct-incorrect" className="ml-2 block text-sm text-gray-900">
+                      Wrong answers lose the clue&apos;s points
+                    </label>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      id="steal-enabled"
+                      type="checkbox"
+                      checked={stealRules.allowSteals}
+                      onChange={(e) => setStealRules((prev) => ({ ...prev, allowSteals: e.target.checked }))}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <label htmlFor="steal-enabled" className="ml-2 block text-sm text-gray-900">
+                      Allow other teams to steal
+                    </label>
+                  </div>
+                  {stealRules.allowSteals && (
+                    <div className="ml-6 space-y-3">
+                      {timerEnabled && (
+                        <div className="flex items-center">
+                          <input
+                            id="steal-restarts-timer"
+                            type="checkbox"
+                            checked={stealRules.restartTimerOnSteal}
+                            onChange={(e) => setStealRules((prev) => ({ ...prev, restartTimerOnSteal: e.target.checked }))}
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          <label htmlFor="steal-restarts-timer" className="ml-2 block text-sm text-gray-900">
+                            Restart the timer for the stealing team
+                          </label>
+                        </div>
+                      )}
+                      <div>
+                        <label htmlFor="max-answer-attempts" className="block text-sm font-medium text-gray-700 mb-1">
+                          Answers Per Clue
+                        </label>
+                        <select
+                          id="max-answer-attempts"
+                          value={stealRules.maxAttempts ?? ''}
+                          onChange={(e) => {
+                            const maxAttempts = e.target.value ? parseInt(e.target.value, 10) : null;
+                            setStealRules((prev) => ({ ...prev, maxAttempts }));
+                          }}
+                          className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          <option value="">No limit</option>
+                          {STEAL_RULES.ATTEMPT_OPTIONS.map((n) => (
+                            <option key={n} value={n}>{n} answers</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    {stealRules.allowSteals
+                      ? 'The next team in the buzz queue answers automatically after a wrong answer'
+                      : 'The clue closes after the first wrong answer'}
+                  </p>
+                </div>
+
+                {/* Hint Penalty */}
+                <div className="border-t border-gray-200 pt-4">
+                  <label htmlFor="hint-penalty" className="block text-sm font-medium text-gray-700 mb-1">
+                    Hint Penalty
+                  </label>
+                  <select
+                    id="hint-penalty"
+                    value={hintPenaltyPercent}
+                    onChange={(e) => setHintPenaltyPercent(parseInt(e.target.value))}
+                    className="block w-full max-w-xs rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    {HINTS.OPTIONS_PERCENT.map((percent) => (
+                      <option key={percent} value={percent}>
+                        {percent === 0 ? 'No penalty' : `${percent}% off`}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Revealing a question&apos;s hint lowers what the clue is worth by this much
+                  </p>
+                </div>
+
+                {/* Daily Doubles */}
+                <div className="border-t border-gray-200 pt-4">
+                  <div className="flex flex-wrap gap-4 mb-2">
+                    <div>
+                      <label htmlFor="daily-double-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                        Daily Double Placement
+                      </label>
+                      <select
+                        id="daily-double-mode"
+                        value={dailyDoubleSettings.mode}
+                        onChange={(e) => handleDailyDoubleSettingsChange({
+                          ...dailyDoubleSettings,
+                          mode: e.target.value as DailyDoubleMode,
+                        })}
+                        disabled={gameStarted}
+                        className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      >
+                        {GAME_BOARD.DAILY_DOUBLE_MODES.map((mode) => (
+                          <option key={mode} value={mode}>
+                            {DAILY_DOUBLE_MODE_LABELS[mode]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {dailyDoubleSettings.mode !== 'none' && (
+                      <div>
+                        <label htmlFor="daily-double-count" className="block text-sm font-medium text-gray-700 mb-1">
+                          How Many
+                        </label>
+                        <select
+                          id="daily-double-count"
+                          value={dailyDoubleSettings.count}
+                          onChange={(e) => handleDailyDoubleSettingsChange({
+                            ...dailyDoubleSettings,
+                            count: parseInt(e.target.value),
+                          })}
+                          disabled={gameStarted}
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        >
+                          {Array.from({ length: GAME_BOARD.MAX_DAILY_DOUBLE_COUNT + 1 }, (_, count) => count).map((count) => (
+                            <option key={count} value={count}>
+                              {count}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  <p className="mb-2 text-sm text-gray-500">
+                    {gameStarted
+                      ? 'Cannot change Daily Double placement after game starts'
+                      : DAILY_DOUBLE_MODE_DESCRIPTIONS[dailyDoubleSettings.mode]}
+                  </p>
+                  {dailyDoubleSettings.mode === 'manual' && (
+                    <>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Daily Double Positions
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => handleRegenerateDailyDoubles()}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                          <ArrowPathIcon className="h-4 w-4 mr-1" />
+                          Regenerate
+                        </button>
+                      </div>
+                      {boardLayout && (
+                        <p className="mb-2 text-sm text-gray-500">
+                          Board: {boardLayout.categories} categories × {boardLayout.pointValues.length} rows
+                          ({formatPointLadder(boardLayout.pointValues)} points)
+                        </p>
+                      )}
+                      {dailyDoubles.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                          {dailyDoubles.map((dd, index) => (
+                            <span key={index} className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+                              {dd.round === DOUBLE_JEOPARDY.ROUND ? 'Double Jeopardy: ' : ''}
+                              Category {dd.category + 1}, Row {dd.position + 1}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">No daily doubles set. Click regenerate to create them.</p>
+                      )}
+                    </>
+                  )}
+                  {dailyDoubleSettings.mode !== 'none' && (
+                    <div className="mt-4 space-y-3">
+                      <div className="flex flex-wrap gap-4">
+                        <div>
+                          <label htmlFor="daily-double-min-wager" className="block text-sm font-medium text-gray-700 mb-1">
+                            Minimum Wager
+                          </label>
+                          <select
+                            id="daily-double-min-wager"
+                            value={wagerRules.minWager}
+                            onChange={(e) => setWagerRules({ ...wagerRules, minWager: parseInt(e.target.value) })}
+                            className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          >
+                            {/* Keep a minimum set outside the usual options selectable */}
+                            {Array.from(new Set<number>([...DAILY_DOUBLE_WAGER.MIN_WAGER_OPTIONS, wagerRules.minWager]))
+                              .sort((a, b) => a - b)
+                              .map((amount) => (
+                                <option key={amount} value={amount}>{amount} points</option>
+                              ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="daily-double-max-wager" className="block text-sm font-medium text-gray-700 mb-1">
+                            Maximum Wager
+                          </label>
+                          <select
+                            id="daily-double-max-wager"
+                            value={wagerRules.maxWager ?? 'board'}
+                            onChange={(e) => setWagerRules({
+                              ...wagerRules,
+                              maxWager: e.target.value === 'board' ? null : parseInt(e.target.value),
+                            })}
+                            className="block w-80 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          >
+                            <option value="board">{DAILY_DOUBLE_WAGER_LABELS.SCORE_OR_HIGHEST_CLUE}</option>
+                            {Array.from(new Set<number>([
+                              ...DAILY_DOUBLE_WAGER.MAX_WAGER_OPTIONS,
+                              ...(wagerRules.maxWager !== null ? [wagerRules.maxWager] : []),
+                            ]))
+                              .sort((a, b) => a - b)
+                              .map((amount) => (
+                                <option key={amount} value={amount}>Score or {amount} points</option>
+                              ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="daily-double-allow-negative"
+                          checked={wagerRules.allowNegativeScores}
+                          onChange={(e) => setWagerRules({ ...wagerRules, allowNegativeScores: e.target.checked })}
+                          className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="daily-double-allow-negative" className="ml-3 block text-sm font-medium text-gray-700">
+                          Teams below zero may wager
+                        </label>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        A team may wager up to its score or the maximum, whichever is larger
+                        {wagerRules.allowNegativeScores ? '' : '; a team below zero plays the clue for its value'}
+                      </p>
                     </div>
-                  ) : (
-                    <p className="text-sm text-gray-500">No daily doubles set. Click regenerate to create them.</p>
                   )}
                 </div>
               </div>
@@ -540,6 +927,96 @@ export default function EditGamePage() {
                     maxLength={200}
                   />
                 </div>
+
+                {/* Accepted Answers */}
+                <div>
+                  <label htmlFor="fj-accepted-answers" className="block text-sm font-medium text-gray-700 mb-1">
+                    Also Accept (optional)
+                  </label>
+                  <textarea
+                    id="fj-accepted-answers"
+                    value={fjAcceptedAnswers}
+                    onChange={(e) => setFjAcceptedAnswers(e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="One alternate answer per line"
+                    rows={2}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* 5. Tie-Breaker */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-5">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Tie-Breaker (Optional)</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Played first if teams finish tied for first. Leave blank to draw a clue from the question bank.
+              </p>
+
+              <div className="space-y-4">
+                {/* Category */}
+                <div>
+                  <label htmlFor="tb-category" className="block text-sm font-medium text-gray-700 mb-1">
+                    Category
+                  </label>
+                  <input
+                    type="text"
+                    id="tb-category"
+                    value={tieBreaker.category}
+                    onChange={(e) => setTieBreaker({ ...tieBreaker, category: e.target.value })}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="e.g., Geography"
+                    maxLength={100}
+                  />
+                </div>
+
+                {/* Question */}
+                <div>
+                  <label htmlFor="tb-question" className="block text-sm font-medium text-gray-700 mb-1">
+                    Question
+                  </label>
+                  <textarea
+                    id="tb-question"
+                    value={tieBreaker.question}
+                    onChange={(e) => setTieBreaker({ ...tieBreaker, question: e.target.value })}
+                    rows={3}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="Enter the tie-breaker question..."
+                    maxLength={500}
+                  />
+                </div>
+
+                {/* Answer */}
+                <div>
+                  <label htmlFor="tb-answer" className="block text-sm font-medium text-gray-700 mb-1">
+                    Answer
+                  </label>
+                  <input
+                    type="text"
+                    id="tb-answer"
+                    value={tieBreaker.answer}
+                    onChange={(e) => setTieBreaker({ ...tieBreaker, answer: e.target.value })}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="What is...?"
+                    maxLength={200}
+                  />
+                </div>
+
+                {/* Accepted Answers */}
+                <div>
+                  <label htmlFor="tb-accepted-answers" className="block text-sm font-medium text-gray-700 mb-1">
+                    Also Accept (optional)
+                  </label>
+                  <textarea
+                    id="tb-accepted-answers"
+                    value={tbAcceptedAnswers}
+                    onChange={(e) => setTbAcceptedAnswers(e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="One alternate answer per line"
+                    rows={2}
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import {
+  ArrowDownTrayIcon,
+  ArrowLeftIcon,
+  CheckIcon,
+  LinkIcon,
+  PrinterIcon,
+} from '@heroicons/react/24/outline';
+import { GameRecapView } from '@/components/game/GameRecapView';
+import { logger } from '@/lib/logger';
+import { recapToCsv } from '@/lib/utils/gameRecap';
+import type { GameRecap } from '@/types/game';
+
+/**
+ * Game Recap Page
+ *
+ * Teacher's record of a finished game, opened from the dashboard game card
+ * or the game complete screen on the board.
+ *
+ * Features:
+ * - Clue timeline with every judgment, Daily Double wagers and Final Jeopardy
+ * - Score-over-time chart
+ * - CSV export and Save as PDF (via the browser's print dialog)
+ * - Copy a link to the public results page
+ */
+export default function GameRecapPage() {
+  const params = useParams();
+  const gameId = params?.gameId as string;
+
+  const [recap, setRecap] = useState<GameRecap | null>(null);
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadRecap = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/recap`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load recap');
+          return;
+        }
+        setRecap(data.recap as GameRecap);
+        setShareToken(data.shareToken);
+      } catch (err) {
+        logger.error('Error loading game recap', err, {
+          operation: 'loadRecap',
+          page: 'GameRecapPage',
+          gameId,
+        });
+        setError('Failed to load recap');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecap();
+  }, [gameId]);
+
+  const handleExportCsv = () => {
+    if (!recap) return;
+    const blob = new Blob([recapToCsv(recap)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recap.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'game'}-recap.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareToken) return;
+    try {
+      const appUrl = process.env.NEXT_PUBLIC_APP_URL || window.location.origin;
+      await navigator.clipboard.writeText(`${appUrl}/game/results/${shareToken}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy results link:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">Loading recap...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!recap) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">{error || 'Recap not found'}</p>
+          <Link
+            href="/dashboard/games"
+            className="mt-4 inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Back to Games
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const buttonClass =
+    'inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link
+          href="/dashboard/games"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4 print:hidden"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to Games
+        </Link>
+
+        <GameRecapView
+          recap={recap}
+          actions={
+            <>
+              <button type="button" onClick={handleExportCsv} className={buttonClass}>
+                <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+                Export CSV
+              </button>
+              <button type="button" onClick={() => window.print()} className={buttonClass}>
+                <PrinterIcon className="h-5 w-5 mr-1" />
+                Save as PDF
+              </button>
+              <button type="button" onClick={handleCopyLink} className={buttonClass}>
+                {copied ? <CheckIcon className="h-5 w-5 mr-1" /> : <LinkIcon className="h-5 w-5 mr-1" />}
+                {copied ? 'Copied' : 'Copy results link'}
+              </button>
+            </>
+          }
+        />
+      </div>
+    </div>
+  );
+}
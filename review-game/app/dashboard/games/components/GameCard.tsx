@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { format } from 'date-fns';
 import type { GameListItem } from '@/types/game.types';
 import GameActions from './GameActions';
@@ -115,6 +116,14 @@ export default function GameCard({
         >
           Launch Game
         </button>
+        {game.status === 'completed' && (
+          <Link
+            href={`/dashboard/games/${game.id}/recap`}
+            className="mt-2 block w-full text-center bg-white text-indigo-600 border border-indigo-200 py-2 px-4 rounded-md hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-colors font-medium text-sm"
+          >
+            View Recap
+          </Link>
+        )}
       </div>
     </div>
   );
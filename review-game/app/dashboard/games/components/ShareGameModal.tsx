@@ -4,12 +4,16 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Fragment, useState } from 'react';
 import { XMarkIcon, ClipboardDocumentIcon, CheckIcon } from '@heroicons/react/24/outline';
 import { JoinQRCode } from '@/components/teacher/JoinQRCode';
+import { formatJoinCode } from '@/lib/utils/joinCode';
+import SpectatorLinkSection from './SpectatorLinkSection';
 
 interface ShareGameModalProps {
   isOpen: boolean;
   onClose: () => void;
   gameId: string;
   gameTitle: string;
+  // games.join_code; null once the game has completed
+  joinCode: string | null;
 }
 
 export default function ShareGameModal({
@@ -17,6 +21,7 @@ export default function ShareGameModal({
   onClose,
   gameId,
   gameTitle,
+  joinCode,
 }: ShareGameModalProps) {
   const [copied, setCopied] = useState(false);
 
@@ -105,10 +110,24 @@ export default function ShareGameModal({
                     </div>
                   </div>
 
+                  {/* Join Code Section */}
+                  {joinCode && (
+                    <div className="mb-6 rounded-lg bg-indigo-50 p-4 text-center">
+                      <p className="text-sm text-gray-600">
+                        Or go to <strong className="font-mono">{appUrl}/join</strong> and enter
+                      </p>
+                      <p className="mt-1 text-4xl font-bold font-mono tracking-widest text-indigo-700">
+                        {formatJoinCode(joinCode)}
+                      </p>
+                    </div>
+                  )}
+
                   {/* QR Code Section */}
                   <div className="flex justify-center">
                     <JoinQRCode gameId={gameId} />
                   </div>
+
+                  <SpectatorLinkSection gameId={gameId} />
                 </div>
 
                 <div className="mt-6">
@@ -0,0 +1,137 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ClipboardDocumentIcon, CheckIcon } from '@heroicons/react/24/outline';
+
+interface SpectatorLinkSectionProps {
+  gameId: string;
+}
+
+/**
+ * Creates, copies, replaces and turns off a game's read-only spectator link.
+ * Used in ShareGameModal.
+ */
+export default function SpectatorLinkSection({ gameId }: SpectatorLinkSectionProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+  const spectatorUrl = token ? `${appUrl}/game/spectate/${token}` : '';
+
+  const loadLink = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/spectator-link`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load spectator link');
+      }
+      setToken(data.token);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load spectator link');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    loadLink();
+  }, [loadLink]);
+
+  const updateLink = async (method: 'POST' | 'DELETE') => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/games/${gameId}/spectator-link`, { method });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update spectator link');
+      }
+      setToken(method === 'POST' ? data.token : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update spectator link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(spectatorUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy spectator link:', err);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-medium text-gray-900">Spectator link</h4>
+      <p className="text-sm text-gray-500 mb-3">
+        A read-only view of the board and scores for a second screen or for families. Answers
+        appear only after you reveal them.
+      </p>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : token ? (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={spectatorUrl}
+              readOnly
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {copied ? (
+                <>
+                  <CheckIcon className="h-5 w-5 mr-1" />
+                  Copied
+                </>
+              ) : (
+                <>
+                  <ClipboardDocumentIcon className="h-5 w-5 mr-1" />
+                  Copy
+                </>
+              )}
+            </button>
+          </div>
+          <div className="mt-2 flex gap-4 text-sm">
+            <button
+              onClick={() => updateLink('POST')}
+              disabled={isSaving}
+              className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+            >
+              Replace link
+            </button>
+            <button
+              onClick={() => updateLink('DELETE')}
+              disabled={isSaving}
+              className="font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => updateLink('POST')}
+          disabled={isSaving}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          {isSaving ? 'Creating...' : 'Create spectator link'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -5,31 +5,22 @@ import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import type { Tables } from '@/types/database.types';
 import type { UserContextResponse } from '@/app/api/user/context/route';
+import type { AnswerMode, DailyDoubleMode } from '@/types/game';
+import { DEFAULT_PUB_TRIVIA_SCORING, type PubTriviaScoringMode, type PubTriviaScoringProfile, type PubTriviaStreakBonusMode, type PubTriviaTeamAggregate, type PubTriviaTeamPlay } from '@/types/pub-trivia';
 import { logger } from '@/lib/logger';
+import { ANSWER_TIMER, BUZZER, DAILY_DOUBLE_WAGER, DOUBLE_JEOPARDY, GAME_BOARD, HINTS, PUB_TRIVIA_SCORING, PUB_TRIVIA_TEAMS, STEAL_RULES } from '@/lib/constants/game';
+import { buildPointLadder, formatPointLadder, validateBoardLayout } from '@/lib/utils/boardLayout';
+import { formatLockoutDuration } from '@/lib/utils/buzzTiming';
+import { DAILY_DOUBLE_MODE_DESCRIPTIONS, DAILY_DOUBLE_MODE_LABELS, DAILY_DOUBLE_WAGER_LABELS, PUB_TRIVIA_SCORING_MODE_DESCRIPTIONS, PUB_TRIVIA_SCORING_MODE_LABELS, PUB_TRIVIA_STREAK_BONUS_LABELS, PUB_TRIVIA_TEAM_AGGREGATE_LABELS } from '@/lib/constants/ui';
+import { generateDailyDoublePositions, getRoundDailyDoubleCount } from '@/lib/utils/gameRounds';
+import { parseAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { validatePubTriviaScoring } from '@/lib/utils/pubTriviaScoring';
+import { validatePubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
 import { canCreateGame, canAccessCustomQuestionBanks, canAccessCustomTeamNames, canAccessPubTrivia, getMaxPubTriviaPlayers } from '@/lib/utils/feature-access';
 
 type QuestionBank = Tables<'question_banks'>;
 type Profile = Tables<'profiles'>;
 
-// Generate 2 random Daily Double positions for a 7x5 board
-const generateDailyDoublePositions = (): { category: number; position: number }[] => {
-  const positions: { category: number; position: number }[] = [];
-  const usedPositions = new Set<string>();
-
-  while (positions.length < 2) {
-    const category = Math.floor(Math.random() * 7); // 0-6 (7 categories)
-    const position = Math.floor(Math.random() * 5); // 0-4 (5 questions per category)
-    const key = `${category}-${position}`;
-
-    if (!usedPositions.has(key)) {
-      usedPositions.add(key);
-      positions.push({ category, position });
-    }
-  }
-
-  return positions;
-};
-
 export default function NewGamePage() {
   const [user, setUser] = useState<{ id: string } | null>(null);
   const [userContext, setUserContext] = useState<UserContextResponse | null>(null);
@@ -50,11 +41,45 @@ export default function NewGamePage() {
   const [teamNames, setTeamNames] = useState<string[]>(['Team 1', 'Team 2', 'Team 3', 'Team 4']);
   const [timerEnabled, setTimerEnabled] = useState<boolean>(true);
   const [timerSeconds, setTimerSeconds] = useState<number>(10);
+  const [answerClockEnabled, setAnswerClockEnabled] = useState<boolean>(false);
+  const [answerTimerSeconds, setAnswerTimerSeconds] = useState<number>(ANSWER_TIMER.DEFAULT_SECONDS);
+  const [buzzerLockoutMs, setBuzzerLockoutMs] = useState<number>(BUZZER.LOCKOUT_DEFAULT_MS);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('buzzer');
+  const [stealEnabled, setStealEnabled] = useState<boolean>(true);
+  const [deductIncorrect, setDeductIncorrect] = useState<boolean>(true);
+  const [stealRestartsTimer, setStealRestartsTimer] = useState<boolean>(false);
+  const [maxAnswerAttempts, setMaxAnswerAttempts] = useState<number | null>(null); // null = no limit
+  const [hintPenaltyPercent, setHintPenaltyPercent] = useState<number>(HINTS.DEFAULT_PENALTY_PERCENT);
   const [questionTimeSecs, setQuestionTimeSecs] = useState<number>(20);
+  const [pubTriviaScoring, setPubTriviaScoring] = useState<PubTriviaScoringProfile>(DEFAULT_PUB_TRIVIA_SCORING);
+  // Quick Fire team play: players pick one of these teams when joining
+  const [pubTriviaTeamsEnabled, setPubTriviaTeamsEnabled] = useState<boolean>(false);
+  const [pubTriviaTeamPlay, setPubTriviaTeamPlay] = useState<PubTriviaTeamPlay>({
+    names: ['Team 1', 'Team 2'],
+    aggregate: 'average',
+  });
+  const [boardCategories, setBoardCategories] = useState<number>(GAME_BOARD.DEFAULT_CATEGORIES);
+  const [boardRows, setBoardRows] = useState<number>(GAME_BOARD.DEFAULT_POINT_VALUES.length);
+  const [pointStep, setPointStep] = useState<number | 'custom'>(GAME_BOARD.DEFAULT_POINT_VALUES[0]);
+  const [customPointValues, setCustomPointValues] = useState<string>('');
+  const [dailyDoubleMode, setDailyDoubleMode] = useState<DailyDoubleMode>('manual');
+  const [dailyDoubleCount, setDailyDoubleCount] = useState<number>(GAME_BOARD.DAILY_DOUBLE_COUNT);
+  const [dailyDoubleMinWager, setDailyDoubleMinWager] = useState<number>(DAILY_DOUBLE_WAGER.DEFAULT_MIN_WAGER);
+  const [dailyDoubleMaxWager, setDailyDoubleMaxWager] = useState<number | null>(DAILY_DOUBLE_WAGER.DEFAULT_MAX_WAGER); // null = highest clue value
+  const [dailyDoubleAllowNegative, setDailyDoubleAllowNegative] = useState<boolean>(true);
+  const [doubleJeopardyEnabled, setDoubleJeopardyEnabled] = useState<boolean>(false);
+  const [doubleJeopardyBankId, setDoubleJeopardyBankId] = useState<string>(''); // '' = same bank as round 1
   const [finalJeopardyEnabled, setFinalJeopardyEnabled] = useState<boolean>(false);
   const [finalJeopardyCategory, setFinalJeopardyCategory] = useState<string>('');
   const [finalJeopardyQuestion, setFinalJeopardyQuestion] = useState<string>('');
   const [finalJeopardyAnswer, setFinalJeopardyAnswer] = useState<string>('');
+  const [finalJeopardyAcceptedAnswers, setFinalJeopardyAcceptedAnswers] = useState<string>('');
+  // Tie-breaker: an authored first clue; without one it is drawn from the bank
+  const [tieBreakerEnabled, setTieBreakerEnabled] = useState<boolean>(false);
+  const [tieBreakerCategory, setTieBreakerCategory] = useState<string>('');
+  const [tieBreakerQuestion, setTieBreakerQuestion] = useState<string>('');
+  const [tieBreakerAnswer, setTieBreakerAnswer] = useState<string>('');
+  const [tieBreakerAcceptedAnswers, setTieBreakerAcceptedAnswers] = useState<string>('');
 
   const router = useRouter();
   const supabase = createClient();
@@ -234,6 +259,90 @@ export default function NewGamePage() {
     setTeamNames(newTeamNames);
   };
 
+  // Point ladder for the chosen rows; custom ladders are typed as "10, 25, 50"
+  const pointValues = pointStep === 'custom'
+    ? customPointValues.split(',').map((v) => v.trim()).filter(Boolean).map(Number)
+    : buildPointLadder(pointStep, boardRows);
+
+  const doubleJeopardyDailyDoubles = getRoundDailyDoubleCount(
+    DOUBLE_JEOPARDY.ROUND,
+    dailyDoubleMode === 'none' ? 0 : dailyDoubleCount
+  );
+
+  // Switching to linear decay starts with a half-points floor, as in Kahoot;
+  // flat points have no floor
+  const handleScoringModeChange = (mode: PubTriviaScoringMode) => {
+    setPubTriviaScoring((prev) => ({
+      ...prev,
+      mode,
+      minPoints: mode === 'flat'
+        ? 0
+        : mode === 'linear' && prev.minPoints === 0
+          ? Math.round(prev.maxPoints * PUB_TRIVIA_SCORING.DEFAULT_LINEAR_FLOOR_RATIO)
+          : prev.minPoints,
+    }));
+  };
+
+  // Each bonus kind starts from its own suggested value
+  const handleStreakBonusModeChange = (streakBonusMode: PubTriviaStreakBonusMode) => {
+    setPubTriviaScoring((prev) => ({
+      ...prev,
+      streakBonusMode,
+      streakBonusValue: streakBonusMode === 'multiplier'
+        ? PUB_TRIVIA_SCORING.DEFAULT_STREAK_MULTIPLIER_PERCENT
+        : streakBonusMode === 'flat' ? PUB_TRIVIA_SCORING.DEFAULT_STREAK_FLAT_BONUS : 0,
+    }));
+  };
+
+  // Brackets are edited in place; maxPoints follows the best bracket so the
+  // floor is checked against it
+  const setScoringBrackets = (brackets: PubTriviaScoringProfile['brackets']) => {
+    setPubTriviaScoring((prev) => ({
+      ...prev,
+      brackets,
+      maxPoints: Math.max(1, ...brackets.map((bracket) => bracket.points)),
+    }));
+  };
+
+  const handleAddScoringBracket = () => {
+    const { brackets } = pubTriviaScoring;
+    const previousMax = brackets.length > 1 ? brackets[brackets.length - 2].maxPct : 0;
+    const last = brackets[brackets.length - 1];
+    // Split the last bracket in half; it keeps ending at 100%
+    setScoringBrackets([
+      ...brackets.slice(0, -1),
+      { maxPct: Math.round(((previousMax + 1) / 2) * 100) / 100, points: last.points },
+      last,
+    ]);
+  };
+
+  const handleRemoveScoringBracket = (index: number) => {
+    const brackets = pubTriviaScoring.brackets.filter((_, i) => i !== index);
+    brackets[brackets.length - 1] = { ...brackets[brackets.length - 1], maxPct: 1 };
+    setScoringBrackets(brackets);
+  };
+
+  const handlePubTriviaTeamNameChange = (index: number, value: string) => {
+    setPubTriviaTeamPlay((prev) => ({
+      ...prev,
+      names: prev.names.map((name, i) => (i === index ? value : name)),
+    }));
+  };
+
+  const handleAddPubTriviaTeam = () => {
+    setPubTriviaTeamPlay((prev) => ({
+      ...prev,
+      names: [...prev.names, `Team ${prev.names.length + 1}`],
+    }));
+  };
+
+  const handleRemovePubTriviaTeam = (index: number) => {
+    setPubTriviaTeamPlay((prev) => ({
+      ...prev,
+      names: prev.names.filter((_, i) => i !== index),
+    }));
+  };
+
   const handleCreateGame = async () => {
     if (!selectedBankId) {
       setError('Please select a question bank');
@@ -255,6 +364,28 @@ export default function NewGamePage() {
       return;
     }
 
+    if (gameType === 'pub_trivia') {
+      const scoringError = validatePubTriviaScoring(pubTriviaScoring);
+      if (scoringError) {
+        setError('Check the scoring settings: each bracket needs a later cut-off than the one before, the floor cannot exceed the maximum points, and a streak bonus needs a value');
+        return;
+      }
+      if (pubTriviaTeamsEnabled && validatePubTriviaTeamPlay(pubTriviaTeamPlay)) {
+        setError(`Team play needs ${PUB_TRIVIA_TEAMS.MIN_TEAMS}-${PUB_TRIVIA_TEAMS.MAX_TEAMS} teams with different, non-empty names`);
+        return;
+      }
+    }
+
+    if (gameType === 'jeopardy') {
+      const layoutError = validateBoardLayout(boardCategories, pointValues);
+      if (layoutError) {
+        setError(pointStep === 'custom'
+          ? `Custom point values need ${GAME_BOARD.MIN_ROWS}-${GAME_BOARD.MAX_ROWS} increasing numbers up to ${GAME_BOARD.MAX_POINT_VALUE}`
+          : layoutError);
+        return;
+      }
+    }
+
     if (gameType === 'jeopardy' && finalJeopardyEnabled) {
       if (!finalJeopardyCategory.trim()) {
         setError('Final Jeopardy category is required');
@@ -270,6 +401,21 @@ export default function NewGamePage() {
       }
     }
 
+    if (gameType === 'jeopardy' && tieBreakerEnabled) {
+      if (!tieBreakerCategory.trim()) {
+        setError('Tie-breaker category is required');
+        return;
+      }
+      if (!tieBreakerQuestion.trim()) {
+        setError('Tie-breaker question is required');
+        return;
+      }
+      if (!tieBreakerAnswer.trim()) {
+        setError('Tie-breaker answer is required');
+        return;
+      }
+    }
+
     setIsCreating(true);
     setError(null);
 
@@ -284,15 +430,52 @@ export default function NewGamePage() {
       };
 
       if (gameType === 'jeopardy') {
-        requestBody.daily_double_positions = generateDailyDoublePositions();
+        requestBody.board_categories = boardCategories;
+        requestBody.point_values = pointValues;
+        requestBody.daily_double_mode = dailyDoubleMode;
+        requestBody.daily_double_count = dailyDoubleCount;
+        requestBody.daily_double_min_wager = dailyDoubleMinWager;
+        requestBody.daily_double_max_wager = dailyDoubleMaxWager;
+        requestBody.daily_double_allow_negative = dailyDoubleAllowNegative;
+        // Random and weighted cells are picked when the game starts
+        if (dailyDoubleMode === 'manual') {
+          requestBody.daily_double_positions = generateDailyDoublePositions(
+            doubleJeopardyEnabled ? [1, DOUBLE_JEOPARDY.ROUND] : [1],
+            { categories: boardCategories, pointValues },
+            { mode: dailyDoubleMode, count: dailyDoubleCount }
+          );
+        }
+        requestBody.double_jeopardy_bank_id = doubleJeopardyEnabled
+          ? doubleJeopardyBankId || selectedBankId
+          : null;
         requestBody.team_names = isPremium ? teamNames : null;
+        requestBody.answer_timer_seconds = answerClockEnabled ? answerTimerSeconds : null;
+        requestBody.buzzer_lockout_ms = buzzerLockoutMs;
+        requestBody.answer_mode = answerMode;
+        requestBody.steal_enabled = stealEnabled;
+        requestBody.deduct_incorrect = deductIncorrect;
+        requestBody.steal_restarts_timer = stealRestartsTimer;
+        requestBody.max_answer_attempts = stealEnabled ? maxAnswerAttempts : null;
+        requestBody.hint_penalty_percent = hintPenaltyPercent;
         requestBody.final_jeopardy_question = finalJeopardyEnabled
           ? {
               category: finalJeopardyCategory.trim(),
               question: finalJeopardyQuestion.trim(),
               answer: finalJeopardyAnswer.trim(),
+              accepted_answers: parseAcceptedAnswers(finalJeopardyAcceptedAnswers),
             }
           : null;
+        requestBody.tie_breaker_question = tieBreakerEnabled
+          ? {
+              category: tieBreakerCategory.trim(),
+              question: tieBreakerQuestion.trim(),
+              answer: tieBreakerAnswer.trim(),
+              accepted_answers: parseAcceptedAnswers(tieBreakerAcceptedAnswers),
+            }
+          : null;
+      } else {
+        requestBody.pub_trivia_scoring = pubTriviaScoring;
+        requestBody.pub_trivia_teams = pubTriviaTeamsEnabled ? pubTriviaTeamPlay : null;
       }
 
       // Call API to create game (enforces limits server-side)
@@ -522,6 +705,79 @@ export default function NewGamePage() {
             </p>
           </div>
 
+          {/* Board Size (Jeopardy only) */}
+          {gameType === 'jeopardy' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Board Size
+            </label>
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <label htmlFor="boardCategories" className="block text-sm text-gray-700 mb-1">
+                  Categories
+                </label>
+                <select
+                  id="boardCategories"
+                  value={boardCategories}
+                  onChange={(e) => setBoardCategories(parseInt(e.target.value))}
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {Array.from({ length: GAME_BOARD.MAX_CATEGORIES - GAME_BOARD.MIN_CATEGORIES + 1 }, (_, i) => GAME_BOARD.MIN_CATEGORIES + i).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+              {pointStep !== 'custom' && (
+                <div>
+                  <label htmlFor="boardRows" className="block text-sm text-gray-700 mb-1">
+                    Rows
+                  </label>
+                  <select
+                    id="boardRows"
+                    value={boardRows}
+                    onChange={(e) => setBoardRows(parseInt(e.target.value))}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Array.from({ length: GAME_BOARD.MAX_ROWS - GAME_BOARD.MIN_ROWS + 1 }, (_, i) => GAME_BOARD.MIN_ROWS + i).map((n) => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label htmlFor="pointStep" className="block text-sm text-gray-700 mb-1">
+                  Point Values
+                </label>
+                <select
+                  id="pointStep"
+                  value={pointStep}
+                  onChange={(e) => setPointStep(e.target.value === 'custom' ? 'custom' : parseInt(e.target.value))}
+                  className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {GAME_BOARD.POINT_LADDER_STEPS.map((step) => (
+                    <option key={step} value={step}>{formatPointLadder(buildPointLadder(step, boardRows))}</option>
+                  ))}
+                  <option value="custom">Custom...</option>
+                </select>
+              </div>
+            </div>
+            {pointStep === 'custom' && (
+              <input
+                id="customPointValues"
+                type="text"
+                value={customPointValues}
+                onChange={(e) => setCustomPointValues(e.target.value)}
+                placeholder="e.g. 10, 25, 50, 100"
+                className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            )}
+            <p className="mt-1 text-sm text-gray-500">
+              The board uses the first categories of the bank and the easiest questions in each,
+              scored with these values from the top row down
+            </p>
+          </div>
+          )}
+
           {/* Number of Teams / Players */}
           <div>
             <label htmlFor="numTeams" className="block text-sm font-medium text-gray-700 mb-2">
@@ -544,7 +800,9 @@ export default function NewGamePage() {
             </select>
             {gameType === 'pub_trivia' && (
               <p className="mt-1 text-sm text-gray-500">
-                Players join individually and enter their own name.
+                {pubTriviaTeamsEnabled
+                  ? 'Players enter their own name and choose a team.'
+                  : 'Players join individually and enter their own name.'}
               </p>
             )}
           </div>
@@ -621,6 +879,161 @@ export default function NewGamePage() {
                   </select>
                 </div>
               )}
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="answerClockEnabled"
+                  checked={answerClockEnabled}
+                  onChange={(e) => setAnswerClockEnabled(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="answerClockEnabled" className="ml-2 block text-sm text-gray-700">
+                  Enable answer clock after a team buzzes in
+                </label>
+              </div>
+              {answerClockEnabled && (
+                <div className="ml-6">
+                  <label htmlFor="answerTimerSeconds" className="block text-sm text-gray-700 mb-1">
+                    Answer Time
+                  </label>
+                  <select
+                    id="answerTimerSeconds"
+                    value={answerTimerSeconds}
+                    onChange={(e) => setAnswerTimerSeconds(parseInt(e.target.value))}
+                    className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {ANSWER_TIMER.OPTIONS_SECONDS.map((seconds) => (
+                      <option key={seconds} value={seconds}>{seconds} seconds</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    A team that runs out of time is marked incorrect
+                  </p>
+                </div>
+              )}
+              <div>
+                <label htmlFor="buzzerLockout" className="block text-sm text-gray-700 mb-1">
+                  Early-Buzz Lockout
+                </label>
+                <select
+                  id="buzzerLockout"
+                  value={buzzerLockoutMs}
+                  onChange={(e) => setBuzzerLockoutMs(parseInt(e.target.value))}
+                  className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {BUZZER.LOCKOUT_OPTIONS_MS.map((ms) => (
+                    <option key={ms} value={ms}>{formatLockoutDuration(ms)}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Teams that buzz before you arm buzzers are locked out for this long
+                </p>
+              </div>
+              <div>
+                <label htmlFor="answerMode" className="block text-sm text-gray-700 mb-1">
+                  Answer Mode
+                </label>
+                <select
+                  id="answerMode"
+                  value={answerMode}
+                  onChange={(e) => setAnswerMode(e.target.value as AnswerMode)}
+                  className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="buzzer">Buzzer</option>
+                  <option value="all_play">All-Play</option>
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  {answerMode === 'all_play'
+                    ? 'Every team types an answer to each clue; wrong answers do not lose points'
+                    : 'First team to buzz answers; you can still switch a single clue to all-play'}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <span className="block text-sm text-gray-700">After an Incorrect Answer</span>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="deductIncorrect"
+                    checked={deductIncorrect}
+                    onChange={(e) => setDeductIncorrect(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="deductIncorrect" className="ml-2 text-sm text-gray-700">
+                    Wrong answers lose the clue&apos;s points
+                  </label>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="stealEnabled"
+                    checked={stealEnabled}
+                    onChange={(e) => setStealEnabled(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="stealEnabled" className="ml-2 text-sm text-gray-700">
+                    Allow other teams to steal
+                  </label>
+                </div>
+                {stealEnabled && (
+                  <div className="ml-6 space-y-2">
+                    {timerEnabled && (
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="stealRestartsTimer"
+                          checked={stealRestartsTimer}
+                          onChange={(e) => setStealRestartsTimer(e.target.checked)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor="stealRestartsTimer" className="ml-2 text-sm text-gray-700">
+                          Restart the timer for the stealing team
+                        </label>
+                      </div>
+                    )}
+                    <div>
+                      <label htmlFor="maxAnswerAttempts" className="block text-sm text-gray-700 mb-1">
+                        Answers Per Clue
+                      </label>
+                      <select
+                        id="maxAnswerAttempts"
+                        value={maxAnswerAttempts ?? ''}
+                        onChange={(e) => setMaxAnswerAttempts(e.target.value ? parseInt(e.target.value) : null)}
+                        className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">No limit</option>
+                        {STEAL_RULES.ATTEMPT_OPTIONS.map((n) => (
+                          <option key={n} value={n}>{n} answers</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+                <p className="text-sm text-gray-500">
+                  {stealEnabled
+                    ? 'The next team in the buzz queue answers automatically after a wrong answer'
+                    : 'The clue closes after the first wrong answer'}
+                </p>
+              </div>
+              <div>
+                <label htmlFor="hintPenaltyPercent" className="block text-sm text-gray-700 mb-1">
+                  Hint Penalty
+                </label>
+                <select
+                  id="hintPenaltyPercent"
+                  value={hintPenaltyPercent}
+                  onChange={(e) => setHintPenaltyPercent(parseInt(e.target.value))}
+                  className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {HINTS.OPTIONS_PERCENT.map((percent) => (
+                    <option key={percent} value={percent}>
+                      {percent === 0 ? 'No penalty' : `${percent}% off`}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  Revealing a question&apos;s hint lowers what the clue is worth by this much
+                </p>
+              </div>
             </div>
           </div>
           )}
@@ -650,6 +1063,423 @@ export default function NewGamePage() {
           </div>
           )}
 
+          {/* Scoring — Quick Fire only */}
+          {gameType === 'pub_trivia' && (
+          <div>
+            <label htmlFor="pubTriviaScoringMode" className="block text-sm font-medium text-gray-700 mb-2">
+              Scoring
+            </label>
+            <select
+              id="pubTriviaScoringMode"
+              value={pubTriviaScoring.mode}
+              onChange={(e) => handleScoringModeChange(e.target.value as PubTriviaScoringMode)}
+              className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(PUB_TRIVIA_SCORING_MODE_LABELS) as PubTriviaScoringMode[]).map((mode) => (
+                <option key={mode} value={mode}>{PUB_TRIVIA_SCORING_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500">
+              {PUB_TRIVIA_SCORING_MODE_DESCRIPTIONS[pubTriviaScoring.mode]}
+            </p>
+
+            <div className="mt-3 space-y-3">
+              {pubTriviaScoring.mode === 'brackets' ? (
+                <div className="space-y-2">
+                  {pubTriviaScoring.brackets.map((bracket, index) => {
+                    const isLast = index === pubTriviaScoring.brackets.length - 1;
+                    return (
+                      <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                        <span>Up to</span>
+                        {isLast ? (
+                          <span className="w-20 text-center">100</span>
+                        ) : (
+                          <input
+                            type="number"
+                            aria-label={`Bracket ${index + 1} cut-off percent`}
+                            value={Math.round(bracket.maxPct * 100)}
+                            onChange={(e) => setScoringBrackets(pubTriviaScoring.brackets.map((b, i) =>
+                              i === index ? { ...b, maxPct: Number(e.target.value) / 100 } : b
+                            ))}
+                            min={1}
+                            max={99}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        )}
+                        <span>% of the time:</span>
+                        <input
+                          type="number"
+                          aria-label={`Bracket ${index + 1} points`}
+                          value={bracket.points}
+                          onChange={(e) => setScoringBrackets(pubTriviaScoring.brackets.map((b, i) =>
+                            i === index ? { ...b, points: parseInt(e.target.value) || 0 } : b
+                          ))}
+                          min={0}
+                          max={PUB_TRIVIA_SCORING.MAX_POINTS}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <span>pts</span>
+                        {pubTriviaScoring.brackets.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveScoringBracket(index)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label={`Remove bracket ${index + 1}`}
+                          >
+                            &times;
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {pubTriviaScoring.brackets.length < PUB_TRIVIA_SCORING.MAX_BRACKETS && (
+                    <button
+                      type="button"
+                      onClick={handleAddScoringBracket}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Add bracket
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="pubTriviaMaxPoints" className="block text-sm text-gray-700 mb-1">
+                    {pubTriviaScoring.mode === 'linear' ? 'Points for an instant answer' : 'Points per correct answer'}
+                  </label>
+                  <input
+                    id="pubTriviaMaxPoints"
+                    type="number"
+                    value={pubTriviaScoring.maxPoints}
+                    onChange={(e) => setPubTriviaScoring({ ...pubTriviaScoring, maxPoints: parseInt(e.target.value) || 0 })}
+                    min={1}
+                    max={PUB_TRIVIA_SCORING.MAX_POINTS}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              )}
+
+              {pubTriviaScoring.mode !== 'flat' && (
+                <div>
+                  <label htmlFor="pubTriviaMinPoints" className="block text-sm text-gray-700 mb-1">
+                    Partial-credit floor
+                  </label>
+                  <input
+                    id="pubTriviaMinPoints"
+                    type="number"
+                    value={pubTriviaScoring.minPoints}
+                    onChange={(e) => setPubTriviaScoring({ ...pubTriviaScoring, minPoints: parseInt(e.target.value) || 0 })}
+                    min={0}
+                    max={pubTriviaScoring.maxPoints}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    The least a correct answer earns, however late
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="pubTriviaElimination"
+                  checked={pubTriviaScoring.eliminationEnabled}
+                  onChange={(e) => setPubTriviaScoring({ ...pubTriviaScoring, eliminationEnabled: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="pubTriviaElimination" className="ml-2 block text-sm text-gray-700">
+                  Eliminate wrong options as the timer runs
+                </label>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <label htmlFor="pubTriviaStreakBonus" className="block text-sm text-gray-700 mb-1">
+                    Streak bonus
+                  </label>
+                  <select
+                    id="pubTriviaStreakBonus"
+                    value={pubTriviaScoring.streakBonusMode}
+                    onChange={(e) => handleStreakBonusModeChange(e.target.value as PubTriviaStreakBonusMode)}
+                    className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {(Object.keys(PUB_TRIVIA_STREAK_BONUS_LABELS) as PubTriviaStreakBonusMode[]).map((mode) => (
+                      <option key={mode} value={mode}>{PUB_TRIVIA_STREAK_BONUS_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </div>
+                {pubTriviaScoring.streakBonusMode !== 'none' && (
+                  <>
+                    <div>
+                      <label htmlFor="pubTriviaStreakMinLength" className="block text-sm text-gray-700 mb-1">
+                        From
+                      </label>
+                      <select
+                        id="pubTriviaStreakMinLength"
+                        value={pubTriviaScoring.streakMinLength}
+                        onChange={(e) => setPubTriviaScoring({ ...pubTriviaScoring, streakMinLength: parseInt(e.target.value) })}
+                        className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {Array.from(
+                          { length: PUB_TRIVIA_SCORING.MAX_STREAK_LENGTH - PUB_TRIVIA_SCORING.MIN_STREAK_LENGTH + 1 },
+                          (_, i) => i + PUB_TRIVIA_SCORING.MIN_STREAK_LENGTH
+                        ).map((length) => (
+                          <option key={length} value={length}>{length} in a row</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="pubTriviaStreakBonusValue" className="block text-sm text-gray-700 mb-1">
+                        {pubTriviaScoring.streakBonusMode === 'multiplier' ? 'Extra points (%)' : 'Bonus points'}
+                      </label>
+                      <input
+                        id="pubTriviaStreakBonusValue"
+                        type="number"
+                        value={pubTriviaScoring.streakBonusValue}
+                        onChange={(e) => setPubTriviaScoring({ ...pubTriviaScoring, streakBonusValue: parseInt(e.target.value) || 0 })}
+                        min={1}
+                        max={pubTriviaScoring.streakBonusMode === 'multiplier'
+                          ? PUB_TRIVIA_SCORING.MAX_STREAK_MULTIPLIER_PERCENT
+                          : PUB_TRIVIA_SCORING.MAX_POINTS}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+          )}
+
+          {/* Team Play — Quick Fire only */}
+          {gameType === 'pub_trivia' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Team Play
+            </label>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="pubTriviaTeamsEnabled"
+                checked={pubTriviaTeamsEnabled}
+                onChange={(e) => setPubTriviaTeamsEnabled(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="pubTriviaTeamsEnabled" className="ml-2 block text-sm text-gray-700">
+                Play in teams
+              </label>
+            </div>
+            {pubTriviaTeamsEnabled && (
+              <div className="ml-6 mt-3 space-y-3">
+                <div className="space-y-2">
+                  {pubTriviaTeamPlay.names.map((name, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        aria-label={`Team ${index + 1} name`}
+                        value={name}
+                        onChange={(e) => handlePubTriviaTeamNameChange(index, e.target.value)}
+                        maxLength={PUB_TRIVIA_TEAMS.MAX_NAME_LENGTH}
+                        className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      {pubTriviaTeamPlay.names.length > PUB_TRIVIA_TEAMS.MIN_TEAMS && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePubTriviaTeam(index)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Remove team ${index + 1}`}
+                        >
+                          &times;
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {pubTriviaTeamPlay.names.length < PUB_TRIVIA_TEAMS.MAX_TEAMS && (
+                    <button
+                      type="button"
+                      onClick={handleAddPubTriviaTeam}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Add team
+                    </button>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="pubTriviaTeamAggregate" className="block text-sm text-gray-700 mb-1">
+                    Team round score
+                  </label>
+                  <select
+                    id="pubTriviaTeamAggregate"
+                    value={pubTriviaTeamPlay.aggregate}
+                    onChange={(e) => setPubTriviaTeamPlay({ ...pubTriviaTeamPlay, aggregate: e.target.value as PubTriviaTeamAggregate })}
+                    className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {(Object.keys(PUB_TRIVIA_TEAM_AGGREGATE_LABELS) as PubTriviaTeamAggregate[]).map((aggregate) => (
+                      <option key={aggregate} value={aggregate}>{PUB_TRIVIA_TEAM_AGGREGATE_LABELS[aggregate]}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {pubTriviaTeamPlay.aggregate === 'average'
+                      ? 'Each round the team scores the average of the members who answered, so bigger teams are not penalised'
+                      : 'Each round the team scores the points of its best member'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+          )}
+
+          {/* Daily Doubles (Jeopardy only) */}
+          {gameType === 'jeopardy' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Daily Doubles
+            </label>
+            <div className="flex flex-wrap gap-4">
+              <div>
+                <label htmlFor="dailyDoubleMode" className="block text-sm text-gray-700 mb-1">
+                  Placement
+                </label>
+                <select
+                  id="dailyDoubleMode"
+                  value={dailyDoubleMode}
+                  onChange={(e) => setDailyDoubleMode(e.target.value as DailyDoubleMode)}
+                  className="w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {GAME_BOARD.DAILY_DOUBLE_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {DAILY_DOUBLE_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {dailyDoubleMode !== 'none' && (
+                <div>
+                  <label htmlFor="dailyDoubleCount" className="block text-sm text-gray-700 mb-1">
+                    How Many
+                  </label>
+                  <select
+                    id="dailyDoubleCount"
+                    value={dailyDoubleCount}
+                    onChange={(e) => setDailyDoubleCount(parseInt(e.target.value))}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {Array.from({ length: GAME_BOARD.MAX_DAILY_DOUBLE_COUNT + 1 }, (_, count) => count).map((count) => (
+                      <option key={count} value={count}>
+                        {count}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              {DAILY_DOUBLE_MODE_DESCRIPTIONS[dailyDoubleMode]}
+            </p>
+            {dailyDoubleMode !== 'none' && (
+              <div className="mt-4 space-y-3">
+                <div className="flex flex-wrap gap-4">
+                  <div>
+                    <label htmlFor="dailyDoubleMinWager" className="block text-sm text-gray-700 mb-1">
+                      Minimum Wager
+                    </label>
+                    <select
+                      id="dailyDoubleMinWager"
+                      value={dailyDoubleMinWager}
+                      onChange={(e) => setDailyDoubleMinWager(parseInt(e.target.value))}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {DAILY_DOUBLE_WAGER.MIN_WAGER_OPTIONS.map((amount) => (
+                        <option key={amount} value={amount}>{amount} points</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="dailyDoubleMaxWager" className="block text-sm text-gray-700 mb-1">
+                      Maximum Wager
+                    </label>
+                    <select
+                      id="dailyDoubleMaxWager"
+                      value={dailyDoubleMaxWager ?? 'board'}
+                      onChange={(e) => setDailyDoubleMaxWager(e.target.value === 'board' ? null : parseInt(e.target.value))}
+                      className="w-80 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="board">{DAILY_DOUBLE_WAGER_LABELS.SCORE_OR_HIGHEST_CLUE}</option>
+                      {DAILY_DOUBLE_WAGER.MAX_WAGER_OPTIONS.map((amount) => (
+                        <option key={amount} value={amount}>Score or {amount} points</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="dailyDoubleAllowNegative"
+                    checked={dailyDoubleAllowNegative}
+                    onChange={(e) => setDailyDoubleAllowNegative(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="dailyDoubleAllowNegative" className="ml-2 block text-sm text-gray-700">
+                    Teams below zero may wager
+                  </label>
+                </div>
+                <p className="text-sm text-gray-500">
+                  A team may wager up to its score or the maximum, whichever is larger
+                  {dailyDoubleAllowNegative ? '' : '; a team below zero plays the clue for its value'}
+                </p>
+              </div>
+            )}
+          </div>
+          )}
+
+          {/* Double Jeopardy Configuration (Jeopardy only) */}
+          {gameType === 'jeopardy' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Double Jeopardy
+            </label>
+            <div className="space-y-3">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="doubleJeopardyEnabled"
+                  checked={doubleJeopardyEnabled}
+                  onChange={(e) => setDoubleJeopardyEnabled(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="doubleJeopardyEnabled" className="ml-2 block text-sm text-gray-700">
+                  Include a Double Jeopardy round
+                </label>
+              </div>
+              {doubleJeopardyEnabled && (
+                <div className="ml-6">
+                  <label htmlFor="doubleJeopardyBank" className="block text-sm text-gray-700 mb-1">
+                    Double Jeopardy Question Bank
+                  </label>
+                  <select
+                    id="doubleJeopardyBank"
+                    value={doubleJeopardyBankId}
+                    onChange={(e) => setDoubleJeopardyBankId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Same bank as round 1</option>
+                    {questionBanks.map((bank) => (
+                      <option key={bank.id} value={bank.id}>
+                        {bank.title} - {bank.subject}
+                        {!bank.is_public && bank.owner_id === effectiveUserId && ' (Custom)'}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Played after the first board with doubled point values and {doubleJeopardyDailyDoubles} Daily Doubles
+                    {!doubleJeopardyBankId && `, using the next ${boardCategories} categories of the bank`}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+          )}
+
           {/* Final Jeopardy Configuration (Jeopardy only) */}
           {gameType === 'jeopardy' && (
           <div>
@@ -713,6 +1543,107 @@ export default function NewGamePage() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
+                  <div>
+                    <label htmlFor="fjAcceptedAnswers" className="block text-sm text-gray-700 mb-1">
+                      Also Accept (optional)
+                    </label>
+                    <textarea
+                      id="fjAcceptedAnswers"
+                      value={finalJeopardyAcceptedAnswers}
+                      onChange={(e) => setFinalJeopardyAcceptedAnswers(e.target.value)}
+                      placeholder="One alternate answer per line, e.g. Russian Federation"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Team answers matching these are suggested as correct during reveals
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          )}
+
+          {/* Tie-Breaker Configuration (Jeopardy only) */}
+          {gameType === 'jeopardy' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tie-Breaker
+            </label>
+            <p className="text-xs text-gray-500 mb-3">
+              If teams finish tied for first, you can play a sudden-death clue between them
+            </p>
+            <div className="space-y-3">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="tieBreakerEnabled"
+                  checked={tieBreakerEnabled}
+                  onChange={(e) => setTieBreakerEnabled(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="tieBreakerEnabled" className="ml-2 block text-sm text-gray-700">
+                  Write the tie-breaker clue (otherwise one is drawn from the question bank)
+                </label>
+              </div>
+              {tieBreakerEnabled && (
+                <div className="ml-6 space-y-3">
+                  <div>
+                    <label htmlFor="tbCategory" className="block text-sm text-gray-700 mb-1">
+                      Category <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="tbCategory"
+                      type="text"
+                      value={tieBreakerCategory}
+                      onChange={(e) => setTieBreakerCategory(e.target.value)}
+                      placeholder="e.g. Geography"
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="tbQuestion" className="block text-sm text-gray-700 mb-1">
+                      Question <span className="text-red-500">*</span>
+                    </label>
+                    <textarea
+                      id="tbQuestion"
+                      value={tieBreakerQuestion}
+                      onChange={(e) => setTieBreakerQuestion(e.target.value)}
+                      placeholder="e.g. This river flows through Cairo"
+                      maxLength={500}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="tbAnswer" className="block text-sm text-gray-700 mb-1">
+                      Answer <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="tbAnswer"
+                      type="text"
+                      value={tieBreakerAnswer}
+                      onChange={(e) => setTieBreakerAnswer(e.target.value)}
+                      placeholder="e.g. The Nile"
+                      maxLength={200}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="tbAcceptedAnswers" className="block text-sm text-gray-700 mb-1">
+                      Also Accept (optional)
+                    </label>
+                    <textarea
+                      id="tbAcceptedAnswers"
+                      value={tieBreakerAcceptedAnswers}
+                      onChange={(e) => setTieBreakerAcceptedAnswers(e.target.value)}
+                      placeholder="One alternate answer per line, e.g. Nile"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
                 </div>
               )}
             </div>
@@ -725,18 +1656,31 @@ export default function NewGamePage() {
             <ul className="text-sm text-gray-600 space-y-1">
               {gameType === 'pub_trivia' ? (
                 <>
-                  <li>• Up to {numTeams} individual players</li>
+                  <li>• Up to {numTeams} {pubTriviaTeamsEnabled ? `players in ${pubTriviaTeamPlay.names.length} teams (${PUB_TRIVIA_TEAM_AGGREGATE_LABELS[pubTriviaTeamPlay.aggregate].toLowerCase()} scores each round)` : 'individual players'}</li>
                   <li>• Questions presented in random order (multiple choice)</li>
                   <li>• {questionTimeSecs} seconds per question</li>
-                  <li>• Time-based scoring: faster answers earn more points</li>
-                  <li>• Wrong options eliminated as the timer progresses</li>
+                  <li>• Scoring: {PUB_TRIVIA_SCORING_MODE_LABELS[pubTriviaScoring.mode]}{pubTriviaScoring.mode !== 'flat' && pubTriviaScoring.minPoints > 0 ? `, at least ${pubTriviaScoring.minPoints} points per correct answer` : ''}</li>
+                  <li>• {pubTriviaScoring.eliminationEnabled ? 'Wrong options eliminated as the timer progresses' : 'All options stay until time runs out'}</li>
+                  <li>• Streaks: {pubTriviaScoring.streakBonusMode === 'none'
+                    ? 'No bonus'
+                    : `${pubTriviaScoring.streakBonusMode === 'multiplier' ? `+${pubTriviaScoring.streakBonusValue}% points` : `+${pubTriviaScoring.streakBonusValue} points`} from ${pubTriviaScoring.streakMinLength} correct in a row`}</li>
                 </>
               ) : (
                 <>
                   <li>• {numTeams} teams will join</li>
                   <li>• Timer: {timerEnabled ? `${timerSeconds} seconds` : 'Disabled'}</li>
-                  <li>• 2 Daily Doubles will be randomly placed</li>
+                  <li>• Answer clock: {answerClockEnabled ? `${answerTimerSeconds} seconds` : 'Disabled'}</li>
+                  <li>• Answer mode: {answerMode === 'all_play' ? 'All-Play (every team answers)' : 'Buzzer'}</li>
+                  <li>• Hints: {hintPenaltyPercent === 0 ? 'No penalty' : `${hintPenaltyPercent}% off the clue once revealed`}</li>
+                  <li>• Steals: {stealEnabled ? `Allowed${maxAnswerAttempts ? ` (up to ${maxAnswerAttempts} answers per clue)` : ''}` : 'Off'}{deductIncorrect ? '' : ', no points lost for wrong answers'}</li>
+                  <li>• Board: {boardCategories} categories × {pointValues.length} rows ({pointValues.length > 0 ? formatPointLadder(pointValues) : 'values TBD'} points)</li>
+                  <li>• Daily Doubles: {dailyDoubleMode === 'none' ? 'None' : `${dailyDoubleCount} (${DAILY_DOUBLE_MODE_LABELS[dailyDoubleMode].toLowerCase()})`}</li>
+                  {dailyDoubleMode !== 'none' && (
+                    <li>• Daily Double wagers: {dailyDoubleMinWager} up to score or {dailyDoubleMaxWager ?? 'highest clue value'}{dailyDoubleAllowNegative ? '' : ', clue value when below zero'}</li>
+                  )}
+                  <li>• Double Jeopardy: {doubleJeopardyEnabled ? `Yes (${doubleJeopardyDailyDoubles} Daily Doubles, doubled values)` : 'Not included'}</li>
                   <li>• Final Jeopardy: {finalJeopardyEnabled ? `Yes (${finalJeopardyCategory || 'category TBD'})` : 'Not included'}</li>
+                  <li>• Tie-breaker clue: {tieBreakerEnabled ? `Written (${tieBreakerCategory || 'category TBD'})` : 'Drawn from the question bank'}</li>
                   <li>• Teams will need approval to join</li>
                 </>
               )}
@@ -32,6 +32,7 @@ export default function GamesPage() {
   const [selectedGame, setSelectedGame] = useState<{
     id: string;
     title: string;
+    joinCode: string | null;
   } | null>(null);
 
   // Action handlers
@@ -46,7 +47,7 @@ export default function GamesPage() {
   const handleDuplicate = (gameId: string) => {
     const game = games.find((g) => g.id === gameId);
     if (game) {
-      setSelectedGame({ id: game.id, title: game.bank_title });
+      setSelectedGame({ id: game.id, title: game.bank_title, joinCode: game.join_code });
       setDuplicateModalOpen(true);
     }
   };
@@ -54,7 +55,7 @@ export default function GamesPage() {
   const handleShare = (gameId: string) => {
     const game = games.find((g) => g.id === gameId);
     if (game) {
-      setSelectedGame({ id: game.id, title: game.bank_title });
+      setSelectedGame({ id: game.id, title: game.bank_title, joinCode: game.join_code });
       setShareModalOpen(true);
     }
   };
@@ -62,7 +63,7 @@ export default function GamesPage() {
   const handleDelete = (gameId: string) => {
     const game = games.find((g) => g.id === gameId);
     if (game) {
-      setSelectedGame({ id: game.id, title: game.bank_title });
+      setSelectedGame({ id: game.id, title: game.bank_title, joinCode: game.join_code });
       setDeleteModalOpen(true);
     }
   };
@@ -204,6 +205,7 @@ export default function GamesPage() {
             onClose={() => setShareModalOpen(false)}
             gameId={selectedGame.id}
             gameTitle={selectedGame.title}
+            joinCode={selectedGame.joinCode}
           />
           <DeleteGameModal
             isOpen={deleteModalOpen}
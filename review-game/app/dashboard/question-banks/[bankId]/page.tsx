@@ -271,8 +271,8 @@ export default function QuestionBankDetailPage({
           <div className="bg-white rounded-lg shadow p-8">
             <div className="animate-pulse space-y-4">
               <div className="h-8 bg-gray-200 rounded w-1/4"></div>
-              <div className="grid grid-cols-7 gap-2">
-                {[...Array(35)].map((_, i) => (
+              <div className="grid grid-cols-8 gap-2">
+                {[...Array(48)].map((_, i) => (
                   <div key={i} className="h-32 bg-gray-200 rounded"></div>
                 ))}
               </div>
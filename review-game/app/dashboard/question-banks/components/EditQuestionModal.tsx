@@ -4,8 +4,10 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Fragment, useState, useEffect } from 'react';
 import { PencilSquareIcon } from '@heroicons/react/24/outline';
 import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { getOrderingItems, getQuestionFormat } from '@/lib/utils/questionFormats';
 import type { Question, QuestionFormData } from '@/types/question-bank.types';
 import { useQuestionForm } from '../hooks/useQuestionForm';
+import QuestionFormatFields from './QuestionFormatFields';
 import ImageUpload from '@/components/questions/ImageUpload';
 
 interface EditQuestionModalProps {
@@ -40,16 +42,24 @@ export default function EditQuestionModal({
     pointValue, setPointValue,
     questionText, setQuestionText,
     answerText, setAnswerText,
+    acceptedAnswers, setAcceptedAnswers,
+    hint, setHint,
     teacherNotes, setTeacherNotes,
     imageUrl, setImageUrl,
     imageAltText, setImageAltText,
     mcOption1, setMcOption1,
     mcOption2, setMcOption2,
     mcOption3, setMcOption3,
+    questionFormat, setQuestionFormat,
+    numericTolerance, setNumericTolerance,
+    orderingItems, setOrderingItems,
     categoryError,
     questionTextError,
     answerTextError,
+    acceptedAnswersError,
+    hintError,
     imageAltTextError,
+    formatError,
     initForm,
     validateForm,
     buildPayload,
@@ -69,10 +79,15 @@ export default function EditQuestionModal({
         pointValue: question.point_value,
         questionText: question.question_text,
         answerText: question.answer_text,
+        acceptedAnswers: question.accepted_answers ?? [],
+        hint: question.hint ?? '',
         teacherNotes: question.teacher_notes ?? '',
         imageUrl: question.image_url ?? '',
         imageAltText: question.image_alt_text ?? '',
         mcOptions,
+        questionFormat: getQuestionFormat(question),
+        numericTolerance: question.numeric_tolerance,
+        orderingItems: getOrderingItems(question),
       });
       setError(null);
     }
@@ -269,30 +284,100 @@ export default function EditQuestionModal({
                     </p>
                   </div>
 
+                  {/* Quick Fire Format */}
+                  <QuestionFormatFields
+                    idPrefix="edit"
+                    questionFormat={questionFormat}
+                    setQuestionFormat={setQuestionFormat}
+                    answerText={answerText}
+                    setAnswerText={setAnswerText}
+                    numericTolerance={numericTolerance}
+                    setNumericTolerance={setNumericTolerance}
+                    orderingItems={orderingItems}
+                    setOrderingItems={setOrderingItems}
+                    formatError={formatError}
+                    disabled={isSubmitting}
+                  />
+
                   {/* Answer Text */}
+                  {(questionFormat === 'multiple_choice' || questionFormat === 'numeric') && (
+                    <div>
+                      <label htmlFor="edit-answerText" className="block text-sm font-medium text-gray-700">
+                        Answer <span className="text-red-500">*</span>
+                      </label>
+                      <textarea
+                        id="edit-answerText"
+                        value={answerText}
+                        onChange={(e) => setAnswerText(e.target.value)}
+                        rows={2}
+                        className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+                          answerTextError
+                            ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                            : 'border-gray-300 focus:border-indigo-500 focus:ring-indigo-500'
+                        }`}
+                        placeholder={questionFormat === 'numeric' ? 'Enter the number' : 'Enter the answer'}
+                        maxLength={QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH}
+                        disabled={isSubmitting}
+                      />
+                      {answerTextError && (
+                        <p className="mt-1 text-sm text-red-600">{answerTextError}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        {answerText.length}/{QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH} characters
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Accepted Answers */}
+                  <div>
+                    <label htmlFor="edit-acceptedAnswers" className="block text-sm font-medium text-gray-700">
+                      Also Accept (optional)
+                    </label>
+                    <textarea
+                      id="edit-acceptedAnswers"
+                      value={acceptedAnswers}
+                      onChange={(e) => setAcceptedAnswers(e.target.value)}
+                      rows={2}
+                      className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
+                        acceptedAnswersError
+                          ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                          : 'border-gray-300 focus:border-indigo-500 focus:ring-indigo-500'
+                      }`}
+                      placeholder="One alternate answer per line"
+                      disabled={isSubmitting}
+                    />
+                    {acceptedAnswersError && (
+                      <p className="mt-1 text-sm text-red-600">{acceptedAnswersError}</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      Written answers matching these are suggested as correct
+                    </p>
+                  </div>
+
+                  {/* Hint */}
                   <div>
-                    <label htmlFor="edit-answerText" className="block text-sm font-medium text-gray-700">
-                      Answer <span className="text-red-500">*</span>
+                    <label htmlFor="edit-hint" className="block text-sm font-medium text-gray-700">
+                      Hint (optional)
                     </label>
                     <textarea
-                      id="edit-answerText"
-                      value={answerText}
-                      onChange={(e) => setAnswerText(e.target.value)}
+                      id="edit-hint"
+                      value={hint}
+                      onChange={(e) => setHint(e.target.value)}
                       rows={2}
                       className={`mt-1 block w-full rounded-md shadow-sm sm:text-sm ${
-                        answerTextError
+                        hintError
                           ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
                           : 'border-gray-300 focus:border-indigo-500 focus:ring-indigo-500'
                       }`}
-                      placeholder="Enter the answer"
-                      maxLength={QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH}
+                      placeholder="A nudge you can reveal during the game"
+                      maxLength={QUESTION_VALIDATION.HINT_MAX_LENGTH}
                       disabled={isSubmitting}
                     />
-                    {answerTextError && (
-                      <p className="mt-1 text-sm text-red-600">{answerTextError}</p>
+                    {hintError && (
+                      <p className="mt-1 text-sm text-red-600">{hintError}</p>
                     )}
                     <p className="mt-1 text-xs text-gray-500">
-                      {answerText.length}/{QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH} characters
+                      Revealing the hint lowers what the clue is worth
                     </p>
                   </div>
 
@@ -346,33 +431,35 @@ export default function EditQuestionModal({
                   )}
 
                   {/* Wrong Answers (Pub Trivia MC) */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Wrong Answers for Quick Fire (optional)
-                    </label>
-                    <p className="text-xs text-gray-500 mb-2">
-                      Fill all 3 to enable this question for Quick Fire multiple-choice mode.
-                    </p>
-                    <div className="space-y-2">
-                      {([
-                        { id: 'edit-mc1', value: mcOption1, setter: setMcOption1, label: 'Wrong answer 1' },
-                        { id: 'edit-mc2', value: mcOption2, setter: setMcOption2, label: 'Wrong answer 2' },
-                        { id: 'edit-mc3', value: mcOption3, setter: setMcOption3, label: 'Wrong answer 3' },
-                      ] as const).map(({ id, value, setter, label }) => (
-                        <input
-                          key={id}
-                          id={id}
-                          type="text"
-                          value={value}
-                          onChange={(e) => setter(e.target.value)}
-                          placeholder={label}
-                          maxLength={QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH}
-                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                          disabled={isSubmitting}
-                        />
-                      ))}
+                  {questionFormat === 'multiple_choice' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Wrong Answers for Quick Fire (optional)
+                      </label>
+                      <p className="text-xs text-gray-500 mb-2">
+                        Fill all 3 to enable this question for Quick Fire multiple-choice mode.
+                      </p>
+                      <div className="space-y-2">
+                        {([
+                          { id: 'edit-mc1', value: mcOption1, setter: setMcOption1, label: 'Wrong answer 1' },
+                          { id: 'edit-mc2', value: mcOption2, setter: setMcOption2, label: 'Wrong answer 2' },
+                          { id: 'edit-mc3', value: mcOption3, setter: setMcOption3, label: 'Wrong answer 3' },
+                        ] as const).map(({ id, value, setter, label }) => (
+                          <input
+                            key={id}
+                            id={id}
+                            type="text"
+                            value={value}
+                            onChange={(e) => setter(e.target.value)}
+                            placeholder={label}
+                            maxLength={QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                            disabled={isSubmitting}
+                          />
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
 
                 {/* Error Display */}
@@ -91,6 +91,12 @@ export default function QuestionCell({
             <span className="font-semibold text-green-300">Answer:</span>
             <p className="mt-1">{question.answer_text}</p>
           </div>
+          {question.hint && (
+            <div className="mb-2">
+              <span className="font-semibold text-sky-300">Hint:</span>
+              <p className="mt-1 text-xs">{question.hint}</p>
+            </div>
+          )}
           {question.teacher_notes && (
             <div>
               <span className="font-semibold text-yellow-300">Notes:</span>
@@ -0,0 +1,139 @@
+'use client';
+
+import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { QUESTION_FORMAT_DESCRIPTIONS, QUESTION_FORMAT_LABELS } from '@/lib/constants/ui';
+import { TRUE_FALSE_OPTIONS } from '@/lib/utils/questionFormats';
+import type { QuestionFormat } from '@/types/question-bank.types';
+
+interface QuestionFormatFieldsProps {
+  /** Prefix for input ids, e.g. "create" or "edit" */
+  idPrefix: string;
+  questionFormat: QuestionFormat;
+  setQuestionFormat: (format: QuestionFormat) => void;
+  answerText: string;
+  setAnswerText: (answer: string) => void;
+  numericTolerance: string;
+  setNumericTolerance: (tolerance: string) => void;
+  orderingItems: string;
+  setOrderingItems: (items: string) => void;
+  formatError: string;
+  disabled: boolean;
+}
+
+/**
+ * Quick Fire format picker for CreateQuestionModal and EditQuestionModal.
+ *
+ * Shows the settings of the chosen format: the True/False answer, the numeric
+ * tolerance, or the items to put in order. The modals keep the Answer field
+ * for multiple choice and numeric questions.
+ */
+export default function QuestionFormatFields({
+  idPrefix,
+  questionFormat,
+  setQuestionFormat,
+  answerText,
+  setAnswerText,
+  numericTolerance,
+  setNumericTolerance,
+  orderingItems,
+  setOrderingItems,
+  formatError,
+  disabled,
+}: QuestionFormatFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor={`${idPrefix}-questionFormat`} className="block text-sm font-medium text-gray-700">
+          Quick Fire Format
+        </label>
+        <select
+          id={`${idPrefix}-questionFormat`}
+          value={questionFormat}
+          onChange={(e) => setQuestionFormat(e.target.value as QuestionFormat)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          disabled={disabled}
+        >
+          {QUESTION_VALIDATION.FORMATS.map((format) => (
+            <option key={format} value={format}>
+              {QUESTION_FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          {QUESTION_FORMAT_DESCRIPTIONS[questionFormat]}. Jeopardy always shows the question and answer.
+        </p>
+      </div>
+
+      {questionFormat === 'true_false' && (
+        <div>
+          <label htmlFor={`${idPrefix}-trueFalse`} className="block text-sm font-medium text-gray-700">
+            Answer <span className="text-red-500">*</span>
+          </label>
+          <select
+            id={`${idPrefix}-trueFalse`}
+            value={TRUE_FALSE_OPTIONS.find((option) => option.toLowerCase() === answerText.trim().toLowerCase()) ?? ''}
+            onChange={(e) => setAnswerText(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            disabled={disabled}
+          >
+            <option value="" disabled>
+              Choose the answer
+            </option>
+            {TRUE_FALSE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {questionFormat === 'numeric' && (
+        <div>
+          <label htmlFor={`${idPrefix}-numericTolerance`} className="block text-sm font-medium text-gray-700">
+            Tolerance (optional)
+          </label>
+          <input
+            id={`${idPrefix}-numericTolerance`}
+            type="number"
+            min={0}
+            step="any"
+            value={numericTolerance}
+            onChange={(e) => setNumericTolerance(e.target.value)}
+            placeholder="0"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            disabled={disabled}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            The closest answer always wins full points; other answers this close to the number score part
+          </p>
+        </div>
+      )}
+
+      {questionFormat === 'ordering' && (
+        <div>
+          <label htmlFor={`${idPrefix}-orderingItems`} className="block text-sm font-medium text-gray-700">
+            Items in the correct order <span className="text-red-500">*</span>
+          </label>
+          <textarea
+            id={`${idPrefix}-orderingItems`}
+            value={orderingItems}
+            onChange={(e) => setOrderingItems(e.target.value)}
+            rows={QUESTION_VALIDATION.ORDERING_ITEMS_MAX_COUNT}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="One item per line, first to last"
+            disabled={disabled}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {QUESTION_VALIDATION.ORDERING_ITEMS_MIN_COUNT}-{QUESTION_VALIDATION.ORDERING_ITEMS_MAX_COUNT} items,
+            up to {QUESTION_VALIDATION.ORDERING_ITEM_MAX_LENGTH} characters each. Jeopardy shows them in order as the answer.
+          </p>
+        </div>
+      )}
+
+      {formatError && (
+        <p className="text-sm text-red-600">{formatError}</p>
+      )}
+    </div>
+  );
+}
@@ -12,9 +12,10 @@ interface QuestionGridProps {
 }
 
 /**
- * Jeopardy-style 7×5 question grid.
+ * Jeopardy-style 8×6 question grid.
  *
  * Displays questions organized by category (columns) and point value (rows).
+ * Games use the first categories and rows that fit their board size.
  * Supports editing mode for owners.
  */
 export default function QuestionGrid({
@@ -23,7 +24,7 @@ export default function QuestionGrid({
   isEditable,
   onCellClick,
 }: QuestionGridProps) {
-  // Ensure we have exactly 7 categories (fill with empty strings if needed)
+  // Ensure we have exactly JEOPARDY_GRID.CATEGORIES categories (fill with placeholders if needed)
   const displayCategories = [...categories];
   while (displayCategories.length < JEOPARDY_GRID.CATEGORIES) {
     displayCategories.push(`Category ${displayCategories.length + 1}`);
@@ -75,6 +76,9 @@ export default function QuestionGrid({
         <p>
           Grid: {JEOPARDY_GRID.CATEGORIES} categories × {JEOPARDY_GRID.QUESTIONS_PER_CATEGORY} questions = {JEOPARDY_GRID.CATEGORIES * JEOPARDY_GRID.QUESTIONS_PER_CATEGORY} total slots
         </p>
+        <p className="mt-1">
+          Games use the first categories from the left and the lowest rows in each, and set their own point values
+        </p>
         <p className="mt-1">
           Questions filled: {Object.values(gridData).reduce((total, category) => total + Object.keys(category).length, 0)} / {JEOPARDY_GRID.CATEGORIES * JEOPARDY_GRID.QUESTIONS_PER_CATEGORY}
         </p>
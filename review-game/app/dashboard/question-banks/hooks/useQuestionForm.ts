@@ -1,6 +1,8 @@
 import { useState, useCallback } from 'react';
 import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
-import type { QuestionFormData } from '@/types/question-bank.types';
+import { parseAcceptedAnswers } from '@/lib/utils/answerMatcher';
+import { validateQuestionFormat } from '@/lib/utils/questionFormats';
+import type { QuestionFormat, QuestionFormData } from '@/types/question-bank.types';
 
 export interface QuestionFormInit {
   category?: string;
@@ -8,13 +10,25 @@ export interface QuestionFormInit {
   pointValue?: number;
   questionText?: string;
   answerText?: string;
+  /** Alternate correct answers, shown one per line */
+  acceptedAnswers?: string[];
+  /** Hint the teacher can reveal during a game */
+  hint?: string;
   teacherNotes?: string;
   imageUrl?: string;
   imageAltText?: string;
   /** Pre-populate the 3 wrong-answer fields. Pass null or omit to clear. */
   mcOptions?: [string, string, string] | null;
+  questionFormat?: QuestionFormat;
+  numericTolerance?: number | null;
+  /** Ordering items in their correct order, shown one per line */
+  orderingItems?: string[];
 }
 
+/** Ordering items typed one per line, blank lines dropped */
+const parseOrderingItems = (text: string): string[] =>
+  text.split('\n').map((line) => line.trim()).filter(Boolean);
+
 /**
  * Shared form state, validation, and payload-building logic for
  * CreateQuestionModal and EditQuestionModal.
@@ -29,24 +43,37 @@ export function useQuestionForm() {
   const [pointValue, setPointValue] = useState<number>(100);
   const [questionText, setQuestionText] = useState('');
   const [answerText, setAnswerText] = useState('');
+  // One accepted alternate per line
+  const [acceptedAnswers, setAcceptedAnswers] = useState('');
+  const [hint, setHint] = useState('');
   const [teacherNotes, setTeacherNotes] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [imageAltText, setImageAltText] = useState('');
   const [mcOption1, setMcOption1] = useState('');
   const [mcOption2, setMcOption2] = useState('');
   const [mcOption3, setMcOption3] = useState('');
+  const [questionFormat, setQuestionFormat] = useState<QuestionFormat>('multiple_choice');
+  const [numericTolerance, setNumericTolerance] = useState('');
+  // One ordering item per line, in the correct order
+  const [orderingItems, setOrderingItems] = useState('');
 
   // Validation error state
   const [categoryError, setCategoryError] = useState('');
   const [questionTextError, setQuestionTextError] = useState('');
   const [answerTextError, setAnswerTextError] = useState('');
+  const [acceptedAnswersError, setAcceptedAnswersError] = useState('');
+  const [hintError, setHintError] = useState('');
   const [imageAltTextError, setImageAltTextError] = useState('');
+  const [formatError, setFormatError] = useState('');
 
   const clearErrors = useCallback(() => {
     setCategoryError('');
     setQuestionTextError('');
     setAnswerTextError('');
+    setAcceptedAnswersError('');
+    setHintError('');
     setImageAltTextError('');
+    setFormatError('');
   }, []);
 
   /** Resets all fields and validation errors to their blank defaults. */
@@ -56,12 +83,17 @@ export function useQuestionForm() {
     setPointValue(100);
     setQuestionText('');
     setAnswerText('');
+    setAcceptedAnswers('');
+    setHint('');
     setTeacherNotes('');
     setImageUrl('');
     setImageAltText('');
     setMcOption1('');
     setMcOption2('');
     setMcOption3('');
+    setQuestionFormat('multiple_choice');
+    setNumericTolerance('');
+    setOrderingItems('');
     clearErrors();
   }, [clearErrors]);
 
@@ -76,6 +108,8 @@ export function useQuestionForm() {
     if (values.pointValue !== undefined) setPointValue(values.pointValue);
     if (values.questionText !== undefined) setQuestionText(values.questionText);
     if (values.answerText !== undefined) setAnswerText(values.answerText);
+    if (values.acceptedAnswers !== undefined) setAcceptedAnswers(values.acceptedAnswers.join('\n'));
+    if (values.hint !== undefined) setHint(values.hint);
     if (values.teacherNotes !== undefined) setTeacherNotes(values.teacherNotes);
     if (values.imageUrl !== undefined) setImageUrl(values.imageUrl);
     if (values.imageAltText !== undefined) setImageAltText(values.imageAltText);
@@ -84,6 +118,9 @@ export function useQuestionForm() {
       setMcOption2(values.mcOptions?.[1] ?? '');
       setMcOption3(values.mcOptions?.[2] ?? '');
     }
+    if (values.questionFormat !== undefined) setQuestionFormat(values.questionFormat);
+    if (values.numericTolerance !== undefined) setNumericTolerance(values.numericTolerance?.toString() ?? '');
+    if (values.orderingItems !== undefined) setOrderingItems(values.orderingItems.join('\n'));
     clearErrors();
   }, [clearErrors]);
 
@@ -111,7 +148,10 @@ export function useQuestionForm() {
       setQuestionTextError('');
     }
 
-    if (!answerText.trim()) {
+    if (questionFormat === 'ordering') {
+      // The answer is built from the ordering items
+      setAnswerTextError('');
+    } else if (!answerText.trim()) {
       setAnswerTextError('Answer text is required');
       isValid = false;
     } else if (answerText.length > QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH) {
@@ -121,6 +161,41 @@ export function useQuestionForm() {
       setAnswerTextError('');
     }
 
+    const alternates = parseAcceptedAnswers(acceptedAnswers);
+    if (alternates.length > QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT) {
+      setAcceptedAnswersError(`Enter at most ${QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT} accepted answers`);
+      isValid = false;
+    } else if (alternates.some((a) => a.length > QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH)) {
+      setAcceptedAnswersError(`Each accepted answer must not exceed ${QUESTION_VALIDATION.ANSWER_TEXT_MAX_LENGTH} characters`);
+      isValid = false;
+    } else {
+      setAcceptedAnswersError('');
+    }
+
+    if (hint.trim().length > QUESTION_VALIDATION.HINT_MAX_LENGTH) {
+      setHintError(`Hint must not exceed ${QUESTION_VALIDATION.HINT_MAX_LENGTH} characters`);
+      isValid = false;
+    } else {
+      setHintError('');
+    }
+
+    // Same checks as the API, e.g. a numeric question needs a number as the answer
+    const tolerance = numericTolerance.trim();
+    const formatMessage = tolerance && Number.isNaN(Number(tolerance))
+      ? 'Tolerance must be a number'
+      : validateQuestionFormat({
+        question_format: questionFormat,
+        answer_text: answerText,
+        numeric_tolerance: tolerance ? Number(tolerance) : null,
+        ordering_items: parseOrderingItems(orderingItems),
+      });
+    if (formatMessage) {
+      setFormatError(formatMessage);
+      isValid = false;
+    } else {
+      setFormatError('');
+    }
+
     if (imageAltText.trim().length > QUESTION_VALIDATION.IMAGE_ALT_TEXT_MAX_LENGTH) {
       setImageAltTextError(`Alt text must not exceed ${QUESTION_VALIDATION.IMAGE_ALT_TEXT_MAX_LENGTH} characters`);
       isValid = false;
@@ -141,18 +216,25 @@ export function useQuestionForm() {
     const o1 = mcOption1.trim();
     const o2 = mcOption2.trim();
     const o3 = mcOption3.trim();
-    // Only include mc_options when all 3 wrong answers are provided
-    const mcOptions = o1 && o2 && o3 ? [o1, o2, o3] : null;
+    // Only include mc_options when all 3 wrong answers are provided for a multiple choice question
+    const mcOptions = questionFormat === 'multiple_choice' && o1 && o2 && o3 ? [o1, o2, o3] : null;
+    const items = parseOrderingItems(orderingItems);
     return {
       category: category.trim(),
       point_value: pointValue,
       question_text: questionText.trim(),
-      answer_text: answerText.trim(),
+      // Jeopardy reads an ordering question's answer as the items in order
+      answer_text: questionFormat === 'ordering' ? items.join(', ') : answerText.trim(),
+      hint: hint.trim() || null,
       teacher_notes: teacherNotes.trim() || null,
       image_url: trimmedImageUrl,
       // Only save alt text when an image is actually present
       image_alt_text: trimmedImageUrl ? imageAltText.trim() || null : null,
       mc_options: mcOptions,
+      accepted_answers: parseAcceptedAnswers(acceptedAnswers),
+      question_format: questionFormat,
+      numeric_tolerance: questionFormat === 'numeric' ? Number(numericTolerance.trim() || 0) : null,
+      ordering_items: questionFormat === 'ordering' ? items : null,
     };
   };
 
@@ -163,17 +245,25 @@ export function useQuestionForm() {
     pointValue, setPointValue,
     questionText, setQuestionText,
     answerText, setAnswerText,
+    acceptedAnswers, setAcceptedAnswers,
+    hint, setHint,
     teacherNotes, setTeacherNotes,
     imageUrl, setImageUrl,
     imageAltText, setImageAltText,
     mcOption1, setMcOption1,
     mcOption2, setMcOption2,
     mcOption3, setMcOption3,
+    questionFormat, setQuestionFormat,
+    numericTolerance, setNumericTolerance,
+    orderingItems, setOrderingItems,
     // Validation errors
     categoryError,
     questionTextError,
     answerTextError,
+    acceptedAnswersError,
+    hintError,
     imageAltTextError,
+    formatError,
     // Methods
     initForm,
     resetForm,
@@ -23,7 +23,7 @@ function transformToGrid(questionsArray: Question[]): QuestionGridData {
  * Custom hook for managing questions within a question bank.
  *
  * Provides CRUD operations for questions and transforms them into a grid structure
- * for the Jeopardy-style 7×5 display.
+ * for the Jeopardy-style 8×6 display.
  */
 export function useQuestions({ bankId }: { bankId: string }) {
   const [questions, setQuestions] = useState<Question[]>([]);
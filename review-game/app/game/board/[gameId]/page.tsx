@@ -10,15 +10,29 @@ import { DailyDoubleModal } from '@/components/game/DailyDoubleModal';
 import { BackButton } from '@/components/navigation/BackButton';
 import GameCompleteModal from '@/components/teacher/GameCompleteModal';
 import FinalJeopardyModal from '@/components/teacher/FinalJeopardyModal';
+import TieBreakerModal from '@/components/teacher/TieBreakerModal';
 import { useGameStore } from '@/lib/stores/gameStore';
 import { useBuzzer } from '@/hooks/useBuzzer';
+import { useLiveGameState } from '@/hooks/useLiveGameState';
 import type { Tables } from '@/types/database.types';
-import type { Category, Question, Team, FinalJeopardyQuestion } from '@/types/game';
+import type { Team, FinalJeopardyQuestion, DailyDoublePosition, GamePhase, GameRound, TieBreakerState } from '@/types/game';
 import { logger } from '@/lib/logger';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { isApprovedTeam } from '@/lib/utils/presence';
+import { formatJoinCode } from '@/lib/utils/joinCode';
+import { getStealRules } from '@/lib/utils/stealRules';
+import { getDailyDoubleWagerRules } from '@/lib/utils/dailyDoubleWager';
+import { applyTieBreakerWinner, getTiedLeaderIds } from '@/lib/utils/tieBreaker';
+import {
+  isFinalJeopardyPhase,
+  getRoundPhase,
+  buildRoundCategories,
+  getRoundCategoryOffset,
+} from '@/lib/utils/gameRounds';
 
 type Game = Tables<'games'>;
 type DatabaseTeam = Tables<'teams'>;
-type DatabaseQuestion = Tables<'questions'>;
 
 interface GameWithBank extends Game {
   question_banks: {
@@ -46,6 +60,7 @@ export default function GameBoardPage() {
   const [isPostFinalJeopardy, setIsPostFinalJeopardy] = useState(false);
   const [showFinalJeopardyModal, setShowFinalJeopardyModal] = useState(false);
   const [isFjStarting, setIsFjStarting] = useState(false);
+  const [isDjStarting, setIsDjStarting] = useState(false);
   const [fjError, setFjError] = useState<string | null>(null);
 
   const {
@@ -58,22 +73,37 @@ export default function GameBoardPage() {
     setCurrentPhase,
     setFinalJeopardyQuestion,
     setFinalJeopardyQuestionRevealed,
+    startRound,
     currentPhase,
+    currentQuestion,
+    tieBreaker,
+    setTieBreaker,
   } = useGameStore();
 
   // Subscribe to buzz events from students
-  // This hook automatically adds buzzes to the game store's buzz queue
+  // This hook keeps the game store's buzz queue in sync with the server-ordered queue
   const {
     clearBuzzes,
+    dismissBuzz,
+    refreshBuzzQueue,
+    armBuzzers,
+    startAllPlay,
     broadcastQuestionSelected,
     broadcastQuestionClosed,
     broadcastAnswerRevealed,
+    broadcastHintRevealed,
+    broadcastStealTurn,
+    broadcastAnswerClock,
     broadcastFinalJeopardyStarted,
     broadcastFinalJeopardyPhaseChanged,
     broadcastFinalJeopardyQuestionRevealed,
     broadcastFinalJeopardyTeamRevealed,
   } = useBuzzer(gameId);
 
+  // Restores the open clue, wager and revealed answer after a refresh and
+  // saves them server-side as they change
+  const { restoreLiveState } = useLiveGameState(gameId);
+
   // Fetch game data and questions
   useEffect(() => {
     // Reset error state when gameId changes
@@ -147,18 +177,15 @@ export default function GameBoardPage() {
         // NOTE: Questions are fetched once at game start and do not update in real-time.
         // This is intentional - question bank changes during active gameplay could cause
         // inconsistencies. Teachers should modify questions before starting the game.
+        const round = (gameData.current_round ?? 1) as GameRound;
         const [questionsResult, teamsResult] = await Promise.all([
-          supabase
-            .from('questions')
-            .select('*')
-            .eq('bank_id', gameData.bank_id)
-            .order('category')
-            .order('position'),
+          fetchRoundQuestions(gameData, round),
           supabase
             .from('teams')
             .select('*')
             .eq('game_id', gameId)
-            .eq('connection_status', 'connected')
+            // Disconnected teams were approved and only lost their heartbeat
+            .in('connection_status', ['connected', 'disconnected'])
             .order('team_number'),
         ]);
 
@@ -186,11 +213,15 @@ export default function GameBoardPage() {
           return;
         }
 
-        // Transform questions into game board format
-        const categories = transformQuestionsToCategories(
+        // Transform questions into game board format for the round being played
+        const layout = getBoardLayout(gameData);
+        const categories = buildRoundCategories(
           questionsResult.data,
           gameData.selected_questions || [],
-          gameData.daily_double_positions || []
+          (gameData.daily_double_positions as unknown as DailyDoublePosition[] | null) || [],
+          round,
+          layout,
+          getRoundCategoryOffset(gameData, round, layout)
         );
 
         // Transform teams for store
@@ -202,6 +233,7 @@ export default function GameBoardPage() {
           final_jeopardy_wager: t.final_jeopardy_wager ?? null,
           final_jeopardy_answer: t.final_jeopardy_answer ?? null,
           final_jeopardy_submitted_at: t.final_jeopardy_submitted_at ?? null,
+          lastSeen: t.last_seen,
         }));
 
         // Validate and set timer settings
@@ -223,12 +255,32 @@ export default function GameBoardPage() {
           categories,
           timerEnabled: gameData.timer_enabled ?? false,
           timerSeconds: Math.max(1, timerSeconds), // Ensure at least 1 second
+          answerMode: gameData.answer_mode === 'all_play' ? 'all_play' : 'buzzer',
+          stealRules: getStealRules(gameData),
+          answerTimerSeconds: gameData.answer_timer_seconds,
+          hintPenaltyPercent: gameData.hint_penalty_percent,
+          dailyDoubleWagerRules: getDailyDoubleWagerRules(gameData),
         });
         setTeams(teamsForStore);
         // Restore FJ question-revealed state for late-joining clients
         setFinalJeopardyQuestionRevealed(
           (gameData as Game & { final_jeopardy_question_revealed?: boolean }).final_jeopardy_question_revealed ?? false
         );
+
+        // Reopen whatever was live before a refresh: the open clue with its
+        // buzz queue, revealed answer and Daily Double wager, or Final Jeopardy
+        const snapshot = await restoreLiveState();
+        if (snapshot && isFinalJeopardyPhase(snapshot.currentPhase) && gameData.final_jeopardy_question) {
+          setFinalJeopardyQuestion(gameData.final_jeopardy_question as unknown as FinalJeopardyQuestion);
+          setShowFinalJeopardyModal(true);
+        }
+        if (snapshot?.currentPhase === 'tie_breaker') {
+          const response = await fetch(`/api/games/${gameId}/tie-breaker`);
+          if (response.ok) {
+            const data = await response.json();
+            setTieBreaker(data.tieBreaker as TieBreakerState | null);
+          }
+        }
         setLoading(false);
       } catch (err) {
         logger.error('Error fetching game data', {
@@ -246,61 +298,24 @@ export default function GameBoardPage() {
     if (gameId) {
       fetchGameData();
     }
-    // resetGameStore and setFinalJeopardyQuestionRevealed are stable Zustand actions
+    // resetGameStore, setFinalJeopardyQuestion, setFinalJeopardyQuestionRevealed and
+    // setTieBreaker are stable Zustand actions; restoreLiveState only changes with gameId
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameId, router, supabase, setStoreGame, setTeams, resetGameStore]);
 
-  // Transform database questions into Category[] format
-  const transformQuestionsToCategories = (
-    questions: DatabaseQuestion[],
-    usedQuestions: string[],
-    dailyDoublePositions: { category: number; position: number }[]
-  ): Category[] => {
-    // Group questions by category
-    const categoriesMap = new Map<string, DatabaseQuestion[]>();
-
-    questions.forEach((q) => {
-      if (!categoriesMap.has(q.category)) {
-        categoriesMap.set(q.category, []);
-      }
-      categoriesMap.get(q.category)!.push(q);
-    });
-
-    // Convert to array and sort
-    const categories: Category[] = Array.from(categoriesMap.entries())
-      .map(([categoryName, categoryQuestions], categoryIndex) => {
-        // Sort by point_value (100, 200, 300, 400, 500)
-        const sortedQuestions = categoryQuestions.sort((a, b) => a.point_value - b.point_value);
-
-        // Transform to Question type
-        const questions: Question[] = sortedQuestions.map((q, questionIndex) => {
-          // Check if this question is a Daily Double by comparing category and position
-          const isDailyDouble = dailyDoublePositions.some(
-            (dd) => dd.category === categoryIndex && dd.position === questionIndex
-          );
-
-          return {
-            id: q.id,
-            value: q.point_value,
-            text: q.question_text,
-            isUsed: usedQuestions.includes(q.id),
-            isDailyDouble,
-            categoryName, // Include category name for modal display
-            answer: q.answer_text,
-            imageUrl: q.image_url,
-            imageAltText: q.image_alt_text,
-          };
-        });
-
-        return {
-          id: categoryName.toLowerCase().replace(/\s+/g, '-'),
-          name: categoryName,
-          questions,
-        };
-      })
-      .slice(0, 7); // Limit to 7 categories max
-
-    return categories;
+  // Fetch the questions for a round: the game's bank in round 1, the Double
+  // Jeopardy bank in round 2
+  const fetchRoundQuestions = (gameData: Game, round: GameRound) => {
+    const bankId = round === DOUBLE_JEOPARDY.ROUND && gameData.double_jeopardy_bank_id
+      ? gameData.double_jeopardy_bank_id
+      : gameData.bank_id;
+
+    return supabase
+      .from('questions')
+      .select('*')
+      .eq('bank_id', bankId)
+      .order('category')
+      .order('position');
   };
 
   // Set up real-time subscriptions
@@ -421,9 +436,9 @@ export default function GameBoardPage() {
             });
             const updatedTeam = payload.new as DatabaseTeam;
 
-            // Filter to only process connected teams (matches initial fetch filter)
-            if (updatedTeam.connection_status !== 'connected') {
-              // Team is no longer connected - remove from list
+            // Filter to only process approved teams (matches initial fetch filter)
+            if (!isApprovedTeam(updatedTeam.connection_status)) {
+              // Team is no longer approved - remove from list
               setTeams((prevTeams: Team[]) =>
                 prevTeams.filter((t) => t.id !== updatedTeam.id)
               );
@@ -439,6 +454,7 @@ export default function GameBoardPage() {
               final_jeopardy_wager: updatedTeam.final_jeopardy_wager ?? null,
               final_jeopardy_answer: updatedTeam.final_jeopardy_answer ?? null,
               final_jeopardy_submitted_at: updatedTeam.final_jeopardy_submitted_at ?? null,
+              lastSeen: updatedTeam.last_seen,
             };
 
             // Update only the changed team using callback form to prevent memory leak
@@ -535,6 +551,17 @@ export default function GameBoardPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameId, supabase, setTeams, setGame, teacherId]);
 
+  // Reload the persisted buzz queue whenever a clue is open and the board
+  // (re)connects, so buzzes broadcast while disconnected are not lost
+  const currentQuestionId = currentQuestion?.id;
+  useEffect(() => {
+    if (currentQuestionId && connectionStatus === 'connected') {
+      void refreshBuzzQueue(currentQuestionId);
+    }
+    // refreshBuzzQueue is recreated every render but only reads gameId and the store
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentQuestionId, connectionStatus]);
+
   // Fullscreen management
   useEffect(() => {
     // Function to enter fullscreen
@@ -602,9 +629,15 @@ export default function GameBoardPage() {
     // Check if all questions have been answered
     const allQuestionsAnswered = totalQuestions > 0 && selectedQuestions.length === totalQuestions;
 
-    // Only auto-open when the board clears for games without Final Jeopardy.
+    // Only auto-open when the board clears for games without Final Jeopardy,
+    // or to offer Double Jeopardy once the first board clears.
     // Games with FJ should show the winner screen after FJ completes instead.
-    if (allQuestionsAnswered && !showGameCompleteModal && !game?.final_jeopardy_question) {
+    // A tie-breaker is played over the cleared board; its own modal is showing.
+    const doubleJeopardyPending = !!game?.double_jeopardy_bank_id && game.current_round === 1;
+    if (
+      allQuestionsAnswered && !showGameCompleteModal && currentPhase !== 'tie_breaker' &&
+      (!game?.final_jeopardy_question || doubleJeopardyPending)
+    ) {
       logger.info('All questions answered, opening game complete modal', {
         operation: 'auto_open_game_complete_modal',
         gameId,
@@ -613,7 +646,7 @@ export default function GameBoardPage() {
       });
       setShowGameCompleteModal(true);
     }
-  }, [selectedQuestions, currentGameData, gameId, showGameCompleteModal, game]);
+  }, [selectedQuestions, currentGameData, gameId, showGameCompleteModal, game, currentPhase]);
 
   // Auto-dismiss Final Jeopardy error toast after 5 seconds
   useEffect(() => {
@@ -676,6 +709,42 @@ export default function GameBoardPage() {
     }
   };
 
+  // Mark the game completed and save its recap once the teacher leaves the
+  // final game complete screen. Games with Final Jeopardy are already
+  // completed by then; this only refreshes their recap.
+  const completeGame = async (): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/recap`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save game recap');
+      }
+      return true;
+    } catch (err) {
+      logger.error('Failed to complete game', err, {
+        operation: 'completeGame',
+        gameId,
+      });
+      return false;
+    }
+  };
+
+  // Return to the dashboard from the final game complete screen
+  const handleCompleteAndReturn = async () => {
+    // The game can still be finished later, so leave even if saving failed
+    await completeGame();
+    await handleReturnToDashboard();
+  };
+
+  // Open the recap from the final game complete screen
+  const handleViewRecap = async () => {
+    if (!(await completeGame())) {
+      alert('Failed to save the game recap. Please try again.');
+      return;
+    }
+    router.push(`/dashboard/games/${gameId}/recap`);
+  };
+
   // Handle play again - resets game but keeps teams
   const handlePlayAgain = async () => {
     try {
@@ -692,24 +761,51 @@ export default function GameBoardPage() {
         gameId,
       });
 
+      // Play Again always restarts from the first round's board
+      const wasDoubleJeopardy = game.current_round === DOUBLE_JEOPARDY.ROUND;
+      let roundOneCategories = currentGameData.categories;
+      if (wasDoubleJeopardy) {
+        const { data: questions, error: questionsError } = await fetchRoundQuestions(game, 1);
+        if (questionsError) throw questionsError;
+        roundOneCategories = buildRoundCategories(
+          questions || [],
+          [],
+          (game.daily_double_positions as unknown as DailyDoublePosition[] | null) || [],
+          1,
+          getBoardLayout(game)
+        );
+      }
+
       // Reset game state in database
       const { error: updateError } = await supabase
         .from('games')
         .update({
           selected_questions: [], // Clear selected questions
           status: 'active', // Keep status as active
+          current_round: 1,
+          current_phase: getRoundPhase(1),
         })
         .eq('id', gameId);
 
       if (updateError) throw updateError;
+      setGame((prevGame) => prevGame && { ...prevGame, current_round: 1, current_phase: getRoundPhase(1) });
+
+      // The same clues come back, so drop every buzz from the last game,
+      // including dismissed ones that would keep a team out of its clue
+      const clearBuzzesResponse = await fetch(`/api/games/${gameId}/buzz?reset=true`, { method: 'DELETE' });
+      if (!clearBuzzesResponse.ok) {
+        throw new Error('Failed to clear buzzes');
+      }
 
-      // Reset all team scores to 0
-      const { error: resetScoresError } = await supabase
-        .from('teams')
-        .update({ score: 0 })
-        .eq('game_id', gameId);
+      // Reset all team scores to 0 through the score ledger so undo cannot
+      // reach back into the previous round
+      const { data: resetResult, error: resetScoresError } = await supabase
+        .rpc('reset_team_scores', { p_game_id: gameId });
 
       if (resetScoresError) throw resetScoresError;
+      if (!resetResult?.[0]?.success) {
+        throw new Error(resetResult?.[0]?.error_message || 'Failed to reset team scores');
+      }
 
       // Reset teams in store (this will update UI immediately)
       setTeams((prevTeams: Team[]) =>
@@ -717,7 +813,7 @@ export default function GameBoardPage() {
       );
 
       // Reset categories with all questions marked as unused
-      const resetCategories = currentGameData.categories.map((category) => ({
+      const resetCategories = roundOneCategories.map((category) => ({
         ...category,
         questions: category.questions.map((question) => ({
           ...question,
@@ -752,6 +848,60 @@ export default function GameBoardPage() {
     }
   };
 
+  // Handle starting Double Jeopardy from the game complete modal or board header
+  const handleStartDoubleJeopardy = async () => {
+    if (!game || !currentGameData) return;
+
+    setIsDjStarting(true);
+    try {
+      const response = await fetch(`/api/games/${gameId}/double-jeopardy/start`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const msg = data.error || 'Failed to start Double Jeopardy';
+        logger.error('Failed to start Double Jeopardy', new Error(msg), {
+          operation: 'handleStartDoubleJeopardy',
+          gameId,
+        });
+        setFjError(msg);
+        return;
+      }
+
+      const round = data.round as GameRound;
+      const { data: questions, error: questionsError } = await fetchRoundQuestions(game, round);
+      if (questionsError) throw questionsError;
+
+      const layout = getBoardLayout(game);
+      const categories = buildRoundCategories(
+        questions || [],
+        [],
+        (game.daily_double_positions as unknown as DailyDoublePosition[] | null) || [],
+        round,
+        layout,
+        getRoundCategoryOffset(game, round, layout)
+      );
+
+      setGame((prevGame) => prevGame && { ...prevGame, current_round: round, current_phase: data.phase, selected_questions: [] });
+      startRound({ ...currentGameData, categories }, data.phase as GamePhase);
+      setShowGameCompleteModal(false);
+
+      logger.info('Double Jeopardy board loaded', {
+        operation: 'handleStartDoubleJeopardy',
+        gameId,
+        categoryCount: categories.length,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to start Double Jeopardy';
+      logger.error('Failed to start Double Jeopardy', err, {
+        operation: 'handleStartDoubleJeopardy',
+        gameId,
+      });
+      setFjError(msg);
+    } finally {
+      setIsDjStarting(false);
+    }
+  };
+
   // Handle starting Final Jeopardy from the game complete modal or board header
   const handleStartFinalJeopardy = async () => {
     setIsFjStarting(true);
@@ -871,10 +1021,97 @@ export default function GameBoardPage() {
       throw new Error(msg);
     }
 
-    setCurrentPhase('regular');
+    const data = await response.json();
+    setCurrentPhase((data.phase as GamePhase | undefined) ?? 'regular');
     setShowFinalJeopardyModal(false);
   };
 
+  // Settle a tie for first with a sudden-death clue from the game complete modal
+  const handleStartTieBreaker = async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/tie-breaker`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const msg = data.error || 'Failed to start tie-breaker';
+        logger.error('Failed to start tie-breaker', new Error(msg), {
+          operation: 'handleStartTieBreaker',
+          gameId,
+        });
+        setFjError(msg);
+        return;
+      }
+
+      setTieBreaker(data.tieBreaker as TieBreakerState);
+      setCurrentPhase('tie_breaker');
+      setShowGameCompleteModal(false);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to start tie-breaker';
+      logger.error('Failed to start tie-breaker', err, {
+        operation: 'handleStartTieBreaker',
+        gameId,
+      });
+      setFjError(msg);
+    }
+  };
+
+  // Calls a tie-breaker route and applies the state it returns. Sets fjError
+  // so the teacher sees the failure, then re-throws so TieBreakerModal resets
+  // its isProcessing spinner.
+  const runTieBreakerAction = async (path: string, fallbackError: string, body?: object) => {
+    const response = await fetch(`/api/games/${gameId}/tie-breaker${path}`, {
+      method: 'POST',
+      ...(body && {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      const msg = data.error || fallbackError;
+      setFjError(msg);
+      throw new Error(msg);
+    }
+
+    const state = data.tieBreaker as TieBreakerState;
+    setTieBreaker(state);
+    return state;
+  };
+
+  const handleOpenTieBreakerBuzzers = async () => {
+    await runTieBreakerAction('/open', 'Failed to open buzzers');
+  };
+
+  const handleNextTieBreakerClue = async () => {
+    await runTieBreakerAction('', 'Failed to draw the next clue');
+  };
+
+  // A correct answer decides the tie-breaker and completes the game
+  const handleJudgeTieBreaker = async (teamId: string, isCorrect: boolean) => {
+    const state = await runTieBreakerAction('/judge', 'Failed to judge answer', { teamId, isCorrect });
+    if (state.winnerTeamId) {
+      setCurrentPhase('regular');
+      setShowGameCompleteModal(true);
+    }
+  };
+
+  // End the tie-breaker without a winner; the tie for first stands
+  const handleEndTieBreaker = async () => {
+    const response = await fetch(`/api/games/${gameId}/tie-breaker`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      const data = await response.json();
+      const msg = data.error || 'Failed to end tie-breaker';
+      setFjError(msg);
+      throw new Error(msg);
+    }
+
+    setTieBreaker(null);
+    setCurrentPhase('regular');
+    setShowGameCompleteModal(true);
+  };
+
   // Prepare final scores for the game complete modal
   // Memoized to prevent unnecessary recalculations
   // Must be before early returns to comply with Rules of Hooks
@@ -898,11 +1135,13 @@ export default function GameBoardPage() {
     // Assign rank: teams with equal scores share the same rank (co-winners).
     // findIndex returns the position of the first team with this score, giving
     // tied teams identical ranks (e.g. two teams at 500 both get rank 1).
-    return sorted.map((team, _index, arr) => ({
+    // A tie-breaker winner then takes first alone.
+    const ranked = sorted.map((team, _index, arr) => ({
       ...team,
       rank: arr.findIndex(t => t.score === team.score) + 1,
     }));
-  }, [allTeams, gameId]);
+    return applyTieBreakerWinner(ranked, tieBreaker?.winnerTeamId ?? null);
+  }, [allTeams, gameId, tieBreaker]);
 
   if (loading) {
     return (
@@ -924,6 +1163,18 @@ export default function GameBoardPage() {
     );
   }
 
+  // Round 1 of a game with a Double Jeopardy round that has not started yet
+  const doubleJeopardyPending =
+    !!game.double_jeopardy_bank_id && game.current_round !== DOUBLE_JEOPARDY.ROUND && !isFinalJeopardyPhase(currentPhase);
+  // A tie-breaker has a winner, so the game is over
+  const isTieBreakerDecided = !!tieBreaker?.winnerTeamId;
+  // Nothing left to play: the game complete modal ends the game
+  const isGameOver = isPostFinalJeopardy || isTieBreakerDecided ||
+    (game.final_jeopardy_question === null && !doubleJeopardyPending);
+  // Offered once the game is over with teams still tied for first
+  const canStartTieBreaker = isGameOver && !isTieBreakerDecided &&
+    getTiedLeaderIds(allTeams.map((team) => ({ id: team.id, score: team.score }))).length > 0;
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-8">
       <div className="max-w-[1800px] mx-auto">
@@ -933,9 +1184,23 @@ export default function GameBoardPage() {
             <h1 className="text-4xl font-bold mb-2">{game.question_banks.title}</h1>
             <p className="text-gray-400">
               Subject: {game.question_banks.subject} | Status: <span className="capitalize">{game.status}</span>
+              {game.double_jeopardy_bank_id && (
+                <> | {game.current_round === DOUBLE_JEOPARDY.ROUND ? 'Double Jeopardy' : 'Round 1'}</>
+              )}
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {/* Join code for students who cannot scan the QR code */}
+            {game.join_code && (
+              <div className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-center">
+                <p className="text-xs text-gray-400">
+                  Join at {typeof window !== 'undefined' ? window.location.host : ''}/join
+                </p>
+                <p className="text-2xl font-bold font-mono tracking-widest">
+                  {formatJoinCode(game.join_code)}
+                </p>
+              </div>
+            )}
             {/* Exit Fullscreen Hint/Button */}
             {isFullscreen && (
               <div className="flex items-center gap-2 px-4 py-2 bg-blue-600/20 border border-blue-500/50 rounded-lg">
@@ -949,7 +1214,16 @@ export default function GameBoardPage() {
                 </button>
               </div>
             )}
-            {game.final_jeopardy_question !== null && currentPhase === 'regular' && (
+            {doubleJeopardyPending && (
+              <button
+                onClick={handleStartDoubleJeopardy}
+                disabled={isDjStarting}
+                className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 rounded-lg transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDjStarting ? 'Starting...' : 'Start Double Jeopardy'}
+              </button>
+            )}
+            {game.final_jeopardy_question !== null && !isFinalJeopardyPhase(currentPhase) && currentPhase !== 'tie_breaker' && (
               <button
                 onClick={handleStartFinalJeopardy}
                 disabled={isFjStarting}
@@ -1003,21 +1277,31 @@ export default function GameBoardPage() {
       <QuestionModal
         gameId={gameId}
         onClearBuzzes={clearBuzzes}
+        onDismissBuzz={dismissBuzz}
+        onArmBuzzers={armBuzzers}
+        onStartAllPlay={startAllPlay}
         onQuestionClose={broadcastQuestionClosed}
         onRevealAnswer={broadcastAnswerRevealed}
+        onRevealHint={broadcastHintRevealed}
+        onStealTurn={broadcastStealTurn}
+        onAnswerClock={broadcastAnswerClock}
       />
 
       {/* Daily Double Modal */}
       <DailyDoubleModal gameId={gameId} onQuestionClose={broadcastQuestionClosed} />
 
       {/* Game Complete Celebration Modal */}
-      {/* After Final Jeopardy: hide Play Again and Start FJ — the game is fully over. */}
+      {/* After Final Jeopardy or a decided tie-breaker: hide Play Again and Start FJ — the game is fully over. */}
       <GameCompleteModal
         isOpen={showGameCompleteModal}
         finalScores={finalScores}
-        onReturnToDashboard={handleReturnToDashboard}
-        onPlayAgain={isPostFinalJeopardy ? undefined : handlePlayAgain}
-        onStartFinalJeopardy={!isPostFinalJeopardy && game.final_jeopardy_question !== null ? handleStartFinalJeopardy : undefined}
+        onReturnToDashboard={isGameOver ? handleCompleteAndReturn : handleReturnToDashboard}
+        onViewRecap={isGameOver ? handleViewRecap : undefined}
+        onPlayAgain={isPostFinalJeopardy || isTieBreakerDecided ? undefined : handlePlayAgain}
+        onStartFinalJeopardy={!isPostFinalJeopardy && !isTieBreakerDecided && game.final_jeopardy_question !== null ? handleStartFinalJeopardy : undefined}
+        onStartDoubleJeopardy={doubleJeopardyPending ? handleStartDoubleJeopardy : undefined}
+        onStartTieBreaker={canStartTieBreaker ? handleStartTieBreaker : undefined}
+        tieBreakerWinnerId={tieBreaker?.winnerTeamId ?? null}
       />
 
       {/* Final Jeopardy Modal */}
@@ -1031,6 +1315,16 @@ export default function GameBoardPage() {
         onSkip={handleSkipFinalJeopardy}
       />
 
+      {/* Tie-breaker Modal */}
+      <TieBreakerModal
+        isOpen={currentPhase === 'tie_breaker'}
+        gameId={gameId}
+        onOpenBuzzers={handleOpenTieBreakerBuzzers}
+        onJudge={handleJudgeTieBreaker}
+        onNextClue={handleNextTieBreakerClue}
+        onEnd={handleEndTieBreaker}
+      />
+
       {/* Final Jeopardy Error Toast */}
       {fjError && (
         <div
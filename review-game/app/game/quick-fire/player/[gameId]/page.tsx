@@ -4,10 +4,15 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { getDeviceId } from '@/hooks/useDeviceId';
+import { usePresenceHeartbeat } from '@/hooks/usePresenceHeartbeat';
 import { logger } from '@/lib/logger';
 import { IconPicker } from '@/components/pub-trivia/IconPicker';
-import { calcPointsEarned } from '@/types/pub-trivia';
-import type { PubTriviaQuestionForPlayer, PubTriviaRoundResult } from '@/types/pub-trivia';
+import { NumericAnswerInput } from '@/components/pub-trivia/NumericAnswerInput';
+import { OrderingAnswer } from '@/components/pub-trivia/OrderingAnswer';
+import { StreakBadge } from '@/components/pub-trivia/StreakBadge';
+import { getPubTriviaTeamPlay } from '@/lib/utils/pubTriviaTeams';
+import { calcPointsEarned, DEFAULT_PUB_TRIVIA_SCORING } from '@/types/pub-trivia';
+import type { PubTriviaGameState, PubTriviaQuestionForPlayer, PubTriviaRoundResult, PubTriviaScoringProfile, PubTriviaTeamPlay, PubTriviaTeamResult } from '@/types/pub-trivia';
 
 type Phase =
   | 'loading'
@@ -27,6 +32,8 @@ interface StoredPlayer {
   playerName: string;
   playerIcon: string | null;
   connectionStatus: 'pending' | 'connected';
+  /** Team joined in team play; absent in players stored before team play existed. */
+  teamName?: string | null;
 }
 
 export default function PubTriviaPlayerPage() {
@@ -44,22 +51,32 @@ export default function PubTriviaPlayerPage() {
   const [myScore, setMyScore] = useState(0);
   const [nameInput, setNameInput] = useState('');
   const [selectedIcon, setSelectedIcon] = useState<string | null>(null);
+  // Team play: the game's teams (null for individual play) and the player's choice
+  const [teamPlay, setTeamPlay] = useState<PubTriviaTeamPlay | null>(null);
+  const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
+  const [myTeam, setMyTeam] = useState<string | null>(null);
 
   // Game state
   const [currentQuestion, setCurrentQuestion] = useState<PubTriviaQuestionForPlayer | null>(null);
   const [questionStartedAt, setQuestionStartedAt] = useState<number>(0);
   const [questionDurationMs, setQuestionDurationMs] = useState(20_000);
   const [eliminatedIndices, setEliminatedIndices] = useState<number[]>([]);
+  // Sent with each question so the points still available match the server's scoring
+  const [scoring, setScoring] = useState<PubTriviaScoringProfile>(DEFAULT_PUB_TRIVIA_SCORING);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [answerResult, setAnswerResult] = useState<{
     isCorrect: boolean;
     pointsEarned: number;
+    streak: number;
+    streakBonus: number;
   } | null>(null);
   const [roundResults, setRoundResults] = useState<PubTriviaRoundResult[]>([]);
   const [correctAnswer, setCorrectAnswer] = useState<string | null>(null);
   const [finalRankings, setFinalRankings] = useState<
     Array<{ id: string; playerName: string; playerIcon: string | null; score: number }>
   >([]);
+  // Team standings from the last round (or the final ones); empty for individual play
+  const [teamResults, setTeamResults] = useState<PubTriviaTeamResult[]>([]);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [hasNextQuestion, setHasNextQuestion] = useState(false);
 
@@ -71,6 +88,9 @@ export default function PubTriviaPlayerPage() {
 
   const supabase = createClient();
 
+  // Each player is a team row, so presence works as it does for Jeopardy teams
+  usePresenceHeartbeat(gameId, playerId, phase !== 'loading' && phase !== 'join' && phase !== 'completed');
+
   // Stable refs for values used in the timer interval
   const questionStartedAtRef = useRef(questionStartedAt);
   const questionDurationMsRef = useRef(questionDurationMs);
@@ -81,15 +101,89 @@ export default function PubTriviaPlayerPage() {
   useEffect(() => {
     if (!gameId) return;
 
+    // Pick up the game where it is, with the options in the order everyone else
+    // sees, so a refresh mid-round does not drop the player back to the lobby
+    const restoreGameState = async (pid: string) => {
+      try {
+        const query = new URLSearchParams({ playerId: pid, deviceId: getDeviceId() ?? '' });
+        const res = await fetch(`/api/games/${gameId}/pub-trivia/state?${query}`);
+        if (!res.ok) {
+          setPhase('lobby');
+          return;
+        }
+        const state = (await res.json()) as PubTriviaGameState;
+
+        setMyScore(state.players.find((p) => p.id === pid)?.score ?? 0);
+        setScoring(state.scoring);
+        setTeamResults(state.teamResults ?? []);
+        setHasNextQuestion(state.hasNextQuestion);
+
+        if (state.phase === 'completed') {
+          setFinalRankings(
+            state.players.map(({ id, playerName: name, playerIcon, score }) => ({ id, playerName: name, playerIcon, score }))
+          );
+          setPhase('completed');
+        } else if (state.phase === 'question' && state.currentQuestion && state.questionStartedAt !== null) {
+          // The stored score already includes an answer given before the refresh,
+          // except a numeric one, which is only scored when the round ends
+          const scoredAtRoundEnd = state.currentQuestion.format === 'numeric';
+          hasReceivedApiScoreRef.current = state.playerAnswer !== null && !scoredAtRoundEnd;
+          setCurrentQuestion(state.currentQuestion);
+          setQuestionStartedAt(state.questionStartedAt);
+          setQuestionDurationMs(state.questionDurationMs);
+          setEliminatedIndices(state.eliminatedOptionIndices);
+          setTimeRemaining(
+            Math.max(0, Math.ceil((state.questionStartedAt + state.questionDurationMs - Date.now()) / 1000))
+          );
+          if (state.playerAnswer) {
+            setSelectedAnswer(state.playerAnswer.answerText);
+            setAnswerResult(
+              scoredAtRoundEnd
+                ? null
+                : {
+                    isCorrect: state.playerAnswer.isCorrect,
+                    pointsEarned: state.playerAnswer.pointsEarned,
+                    streak: 0,
+                    streakBonus: 0,
+                  }
+            );
+            setPhase('answered');
+          } else {
+            setPhase('question');
+          }
+        } else if (state.phase === 'results' && state.lastRoundResults) {
+          const myResult = state.lastRoundResults.find((r) => r.playerId === pid);
+          setRoundResults(state.lastRoundResults);
+          setCorrectAnswer(state.lastRoundCorrectAnswer);
+          setAnswerResult(
+            myResult
+              ? { isCorrect: myResult.isCorrect, pointsEarned: myResult.pointsEarned, streak: myResult.streak, streakBonus: 0 }
+              : null
+          );
+          setPhase('round_results');
+        } else {
+          setPhase('lobby');
+        }
+      } catch (err) {
+        logger.error('Failed to restore pub trivia state', err, { operation: 'restorePubTriviaState', gameId });
+        setPhase('lobby');
+      }
+    };
+
     try {
       const stored = localStorage.getItem(PLAYER_KEY(gameId));
       if (stored) {
-        const { playerId: pid, playerName: pname, playerIcon: picon, connectionStatus: cs } = JSON.parse(stored) as StoredPlayer;
+        const { playerId: pid, playerName: pname, playerIcon: picon, connectionStatus: cs, teamName: team } = JSON.parse(stored) as StoredPlayer;
         setPlayerId(pid);
         playerIdRef.current = pid;
         setPlayerName(pname);
         setMyIcon(picon ?? null);
-        setPhase(cs === 'connected' ? 'lobby' : 'pending_approval');
+        setMyTeam(team ?? null);
+        if (cs === 'connected') {
+          restoreGameState(pid);
+        } else {
+          setPhase('pending_approval');
+        }
         return;
       }
     } catch {
@@ -99,6 +193,27 @@ export default function PubTriviaPlayerPage() {
     setPhase('join');
   }, [gameId]);
 
+  // Load the game's teams so a joining player can pick one
+  useEffect(() => {
+    if (!gameId || phase !== 'join') return;
+
+    const loadTeamPlay = async () => {
+      const { data: game, error } = await supabase
+        .from('games')
+        .select('pub_trivia_teams')
+        .eq('id', gameId)
+        .single();
+
+      if (error || !game) {
+        // The join route reports a missing game; without teams the form falls back to individual play
+        return;
+      }
+      setTeamPlay(getPubTriviaTeamPlay(game));
+    };
+
+    loadTeamPlay();
+  }, [gameId, phase]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // While pending approval, listen for the teacher's approve/reject decision
   useEffect(() => {
     if (!gameId || phase !== 'pending_approval' || !playerId) return;
@@ -128,6 +243,7 @@ export default function PubTriviaPlayerPage() {
         playerIdRef.current = null;
         setPlayerName('');
         setNameInput('');
+        setMyTeam(null);
         setActionError('Your name was not approved. Please choose a different name and try again.');
         setPhase('join');
       })
@@ -138,9 +254,12 @@ export default function PubTriviaPlayerPage() {
     };
   }, [gameId, phase, playerId]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // A restored player can start in any of these phases, not only the lobby
+  const isInGame = phase === 'lobby' || phase === 'question' || phase === 'answered' || phase === 'round_results';
+
   // Subscribe to realtime channel once we have a player identity
   useEffect(() => {
-    if (!gameId || (phase !== 'lobby' && phase !== 'question' && phase !== 'answered' && phase !== 'round_results')) {
+    if (!gameId || !isInGame) {
       return;
     }
 
@@ -152,8 +271,10 @@ export default function PubTriviaPlayerPage() {
           question: PubTriviaQuestionForPlayer;
           durationMs: number;
           startedAt: number;
+          scoring?: PubTriviaScoringProfile;
         };
         hasReceivedApiScoreRef.current = false;
+        setScoring(p.scoring ?? DEFAULT_PUB_TRIVIA_SCORING);
         setCurrentQuestion(p.question);
         setQuestionStartedAt(p.startedAt);
         setQuestionDurationMs(p.durationMs);
@@ -173,11 +294,13 @@ export default function PubTriviaPlayerPage() {
         const p = payload as {
           correctAnswer: string;
           results: PubTriviaRoundResult[];
+          teamResults?: PubTriviaTeamResult[] | null;
           hasNextQuestion: boolean;
         };
         if (timerRef.current) clearInterval(timerRef.current);
         setCorrectAnswer(p.correctAnswer);
         setRoundResults(p.results);
+        setTeamResults(p.teamResults ?? []);
         setHasNextQuestion(p.hasNextQuestion);
         // Update score only if the answer API hasn't already set an authoritative total.
         // Without this guard, a player who got 1000 pts from the API would see 2000
@@ -187,16 +310,24 @@ export default function PubTriviaPlayerPage() {
           if (!hasReceivedApiScoreRef.current) {
             setMyScore((prev) => prev + myResult.pointsEarned);
           }
-          setAnswerResult({ isCorrect: myResult.isCorrect, pointsEarned: myResult.pointsEarned });
+          // The bonus itself only comes from the answer API; keep it if already known
+          setAnswerResult((prev) => ({
+            isCorrect: myResult.isCorrect,
+            pointsEarned: myResult.pointsEarned,
+            streak: myResult.streak,
+            streakBonus: prev?.streakBonus ?? 0,
+          }));
         }
         setPhase('round_results');
       })
       .on('broadcast', { event: 'pt_game_ended' }, ({ payload }) => {
         const p = payload as {
           finalRankings: Array<{ id: string; playerName: string; playerIcon: string | null; score: number }>;
+          finalTeamRankings?: PubTriviaTeamResult[] | null;
         };
         if (timerRef.current) clearInterval(timerRef.current);
         setFinalRankings(p.finalRankings);
+        setTeamResults(p.finalTeamRankings ?? []);
         setPhase('completed');
       })
       .subscribe();
@@ -204,7 +335,7 @@ export default function PubTriviaPlayerPage() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [gameId, phase === 'lobby']); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [gameId, isInGame]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Countdown timer for active question
   useEffect(() => {
@@ -232,6 +363,10 @@ export default function PubTriviaPlayerPage() {
       setActionError('Please enter your name');
       return;
     }
+    if (teamPlay && !selectedTeam) {
+      setActionError('Please choose your team');
+      return;
+    }
 
     const deviceId = getDeviceId();
     if (!deviceId) {
@@ -246,7 +381,12 @@ export default function PubTriviaPlayerPage() {
       const res = await fetch(`/api/games/${gameId}/pub-trivia/join`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ playerName: trimmedName, deviceId, playerIcon: selectedIcon ?? undefined }),
+        body: JSON.stringify({
+          playerName: trimmedName,
+          deviceId,
+          playerIcon: selectedIcon ?? undefined,
+          teamName: selectedTeam ?? undefined,
+        }),
       });
 
       const data = await res.json();
@@ -259,13 +399,14 @@ export default function PubTriviaPlayerPage() {
       const pid = data.playerId as string;
       const pname = data.playerName as string;
       const picon = (data.playerIcon as string | null) ?? null;
+      const team = (data.teamName as string | null) ?? null;
       const connStatus: StoredPlayer['connectionStatus'] =
         (data.connectionStatus as string) === 'connected' ? 'connected' : 'pending';
 
       try {
         localStorage.setItem(
           PLAYER_KEY(gameId),
-          JSON.stringify({ playerId: pid, deviceId, playerName: pname, playerIcon: picon, connectionStatus: connStatus } satisfies StoredPlayer),
+          JSON.stringify({ playerId: pid, deviceId, playerName: pname, playerIcon: picon, connectionStatus: connStatus, teamName: team } satisfies StoredPlayer),
         );
       } catch {
         // localStorage unavailable — session-only join
@@ -275,6 +416,7 @@ export default function PubTriviaPlayerPage() {
       playerIdRef.current = pid;
       setPlayerName(pname);
       setMyIcon(picon);
+      setMyTeam(team);
       setMyScore(data.score ?? 0);
       setPhase(connStatus === 'connected' ? 'lobby' : 'pending_approval');
     } catch (err) {
@@ -283,7 +425,7 @@ export default function PubTriviaPlayerPage() {
     } finally {
       setIsSubmitting(false);
     }
-  }, [gameId, nameInput, selectedIcon]);
+  }, [gameId, nameInput, selectedIcon, teamPlay, selectedTeam]);
 
   const handleSubmitAnswer = useCallback(
     async (answerText: string) => {
@@ -305,11 +447,19 @@ export default function PubTriviaPlayerPage() {
         const data = await res.json();
 
         if (res.ok) {
-          hasReceivedApiScoreRef.current = true;
-          setAnswerResult({
-            isCorrect: data.isCorrect as boolean,
-            pointsEarned: data.pointsEarned as number,
-          });
+          // A numeric answer's points arrive with the round results
+          const scoredAtRoundEnd = data.scoredAtRoundEnd as boolean;
+          hasReceivedApiScoreRef.current = !scoredAtRoundEnd;
+          setAnswerResult(
+            scoredAtRoundEnd
+              ? null
+              : {
+                  isCorrect: data.isCorrect as boolean,
+                  pointsEarned: data.pointsEarned as number,
+                  streak: data.streak as number,
+                  streakBonus: data.streakBonus as number,
+                }
+          );
           setMyScore(data.totalScore as number);
           setPhase('answered');
         }
@@ -335,7 +485,9 @@ export default function PubTriviaPlayerPage() {
       <div className="min-h-screen bg-gradient-to-b from-indigo-600 to-purple-700 flex items-center justify-center p-4">
         <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-sm">
           <h1 className="text-2xl font-bold text-gray-900 text-center mb-2">Join Quick Fire</h1>
-          <p className="text-gray-500 text-sm text-center mb-4">Pick an icon and enter your name</p>
+          <p className="text-gray-500 text-sm text-center mb-4">
+            {teamPlay ? 'Pick an icon, enter your name and choose your team' : 'Pick an icon and enter your name'}
+          </p>
 
           {actionError && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
@@ -366,9 +518,30 @@ export default function PubTriviaPlayerPage() {
             autoFocus
             className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl text-lg focus:border-indigo-500 focus:outline-none mb-4"
           />
+          {teamPlay && (
+            <div className="mb-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Team</p>
+              <div className="grid grid-cols-2 gap-2">
+                {teamPlay.names.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => setSelectedTeam(name)}
+                    className={`px-3 py-2 rounded-xl border-2 text-sm font-medium transition-colors ${
+                      selectedTeam === name
+                        ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-200 text-gray-700 hover:border-indigo-300'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
           <button
             onClick={handleJoin}
-            disabled={isSubmitting || !nameInput.trim()}
+            disabled={isSubmitting || !nameInput.trim() || (!!teamPlay && !selectedTeam)}
             className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl text-lg transition-colors"
           >
             {isSubmitting ? 'Joining…' : 'Join Game'}
@@ -384,6 +557,7 @@ export default function PubTriviaPlayerPage() {
       <div className="min-h-screen bg-gradient-to-b from-indigo-600 to-purple-700 flex items-center justify-center p-4">
         <div className="text-center text-white max-w-sm">
           <div className="text-4xl font-bold mb-3">{playerName}</div>
+          {myTeam && <div className="text-indigo-100 text-base mb-2">Playing for {myTeam}</div>}
           <div className="text-indigo-200 text-base mb-8">Waiting for teacher approval…</div>
           <div className="flex items-center justify-center gap-3 mb-6">
             <div className="h-3 w-3 rounded-full bg-white animate-bounce [animation-delay:-0.3s]" />
@@ -402,6 +576,7 @@ export default function PubTriviaPlayerPage() {
       <div className="min-h-screen bg-gradient-to-b from-indigo-600 to-purple-700 flex items-center justify-center p-4">
         <div className="text-center text-white">
           <div className="text-4xl font-bold mb-3">{playerName}</div>
+          {myTeam && <div className="text-indigo-100 text-base mb-2">Playing for {myTeam}</div>}
           <div className="text-indigo-200 text-lg mb-8">You&apos;re in!</div>
           <div className="flex items-center justify-center gap-3 mb-4">
             <div className="h-3 w-3 rounded-full bg-white animate-bounce [animation-delay:-0.3s]" />
@@ -420,7 +595,7 @@ export default function PubTriviaPlayerPage() {
     const totalSeconds = questionDurationMs / 1000;
     const timerFraction = totalSeconds > 0 ? timeRemaining / totalSeconds : 0;
     const elapsedFraction = Math.max(0, Math.min(1, 1 - timerFraction));
-    const pointsPossible = phase === 'question' ? calcPointsEarned(elapsedFraction) : 0;
+    const pointsPossible = phase === 'question' ? calcPointsEarned(elapsedFraction, scoring) : 0;
     const timerColor =
       timeRemaining <= 5 ? 'bg-red-500' : timeRemaining <= 10 ? 'bg-yellow-500' : 'bg-green-500';
 
@@ -431,6 +606,7 @@ export default function PubTriviaPlayerPage() {
           <span className="text-gray-300 flex items-center gap-1.5">
             {myIcon && <span className="text-base leading-none">{myIcon}</span>}
             {playerName}
+            {myTeam && <span className="text-gray-500">· {myTeam}</span>}
           </span>
           <span className="font-mono text-yellow-400 font-bold">{myScore.toLocaleString()} pts</span>
         </div>
@@ -465,9 +641,22 @@ export default function PubTriviaPlayerPage() {
             <p className="text-base font-medium leading-relaxed">{currentQuestion.questionText}</p>
           </div>
 
-          {/* Answer options */}
+          {/* Answer entry for the question's format */}
+          {currentQuestion.format === 'numeric' && (
+            <NumericAnswerInput submittedAnswer={selectedAnswer} onSubmit={handleSubmitAnswer} />
+          )}
+          {currentQuestion.format === 'ordering' && (
+            <OrderingAnswer
+              key={currentQuestion.id}
+              items={currentQuestion.options}
+              submittedAnswer={selectedAnswer}
+              onSubmit={handleSubmitAnswer}
+            />
+          )}
+
+          {/* Answer options (multiple choice and true/false) */}
           <div className="grid grid-cols-1 gap-3 flex-1">
-            {currentQuestion.options.map((opt, i) => {
+            {(currentQuestion.format === 'multiple_choice' || currentQuestion.format === 'true_false') && currentQuestion.options.map((opt, i) => {
               const isEliminated = eliminatedIndices.includes(i);
               const isSelected = selectedAnswer === opt;
               const isCorrect = phase === 'answered' && answerResult?.isCorrect && isSelected;
@@ -491,7 +680,9 @@ export default function PubTriviaPlayerPage() {
                       : ''}
                   `}
                 >
-                  <span className="text-indigo-300 mr-3">{optionLetters[i]}.</span>
+                  {currentQuestion.format === 'multiple_choice' && (
+                    <span className="text-indigo-300 mr-3">{optionLetters[i]}.</span>
+                  )}
                   {opt}
                 </button>
               );
@@ -509,8 +700,16 @@ export default function PubTriviaPlayerPage() {
             >
               {answerResult.isCorrect
                 ? `Correct! +${answerResult.pointsEarned} pts`
-                : 'Wrong answer'}
+                : answerResult.pointsEarned > 0
+                  ? `Partly right! +${answerResult.pointsEarned} pts`
+                  : 'Wrong answer'}
               {' — '}Waiting for results…
+              {answerResult.streakBonus > 0 && (
+                <p className="mt-1 text-sm font-normal text-orange-300">
+                  Includes +{answerResult.streakBonus} streak bonus
+                </p>
+              )}
+              {answerResult.isCorrect && <StreakBadge streak={answerResult.streak} className="mt-2" />}
             </div>
           )}
           {phase === 'answered' && !answerResult && (
@@ -526,6 +725,7 @@ export default function PubTriviaPlayerPage() {
   // ── ROUND RESULTS ──────────────────────────────────────────────────────────
   if (phase === 'round_results') {
     const myResult = roundResults.find((r) => r.playerId === playerId);
+    const myTeamRank = teamResults.findIndex((t) => t.teamName === myTeam);
 
     return (
       <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center p-4 gap-5">
@@ -536,14 +736,33 @@ export default function PubTriviaPlayerPage() {
           }`}
         >
           <p className="text-2xl font-bold mb-1">
-            {myResult?.isCorrect ? 'Correct!' : myResult ? 'Wrong' : 'No answer'}
+            {myResult?.isCorrect
+              ? 'Correct!'
+              : myResult && myResult.pointsEarned > 0
+                ? 'Partly right'
+                : myResult ? 'Wrong' : 'No answer'}
           </p>
           <p className="text-5xl font-bold text-yellow-400 mb-1">
             +{myResult?.pointsEarned ?? 0}
           </p>
+          {(answerResult?.streakBonus ?? 0) > 0 && myResult?.isCorrect && (
+            <p className="text-sm text-orange-300 mb-1">Includes +{answerResult?.streakBonus} streak bonus</p>
+          )}
+          {myResult && <StreakBadge streak={myResult.streak} className="mb-2" />}
           <p className="text-sm text-gray-300">Total: {myScore.toLocaleString()} pts</p>
         </div>
 
+        {/* My team's result */}
+        {myTeamRank >= 0 && (
+          <div className="w-full max-w-sm bg-gray-800 rounded-xl p-4 text-center">
+            <p className="text-xs text-gray-500 uppercase tracking-wide mb-1">{myTeam}</p>
+            <p className="text-2xl font-bold text-yellow-400">+{teamResults[myTeamRank].roundPoints}</p>
+            <p className="text-sm text-gray-300">
+              {teamResults[myTeamRank].score.toLocaleString()} pts · #{myTeamRank + 1} of {teamResults.length} teams
+            </p>
+          </div>
+        )}
+
         {/* Correct answer */}
         {correctAnswer && (
           <div className="w-full max-w-sm bg-gray-800 rounded-xl p-4 text-center">
@@ -582,6 +801,26 @@ export default function PubTriviaPlayerPage() {
           </div>
         )}
 
+        {teamResults.length > 0 && (
+          <div className="w-full max-w-sm space-y-2">
+            <p className="text-xs text-gray-500 uppercase tracking-wide text-center">Teams</p>
+            {teamResults.map((t, i) => (
+              <div
+                key={t.teamName}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  t.teamName === myTeam ? 'bg-indigo-900 border border-indigo-500' : 'bg-gray-800'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-500 w-6 text-right text-sm">{i + 1}.</span>
+                  <span className="text-sm font-medium">{t.teamName}</span>
+                </div>
+                <span className="text-sm font-mono text-yellow-400">{t.score.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="w-full max-w-sm space-y-2">
           {finalRankings.slice(0, 10).map((r, i) => (
             <div
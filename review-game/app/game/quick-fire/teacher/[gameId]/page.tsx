@@ -5,8 +5,21 @@ import { useParams, useRouter } from 'next/navigation';
 import { QRCodeSVG } from 'qrcode.react';
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
-import type { PubTriviaQuestionForPlayer, PubTriviaPlayer, PubTriviaRoundResult } from '@/types/pub-trivia';
-import { OPTION_ELIMINATION_THRESHOLDS } from '@/types/pub-trivia';
+import { formatJoinCode } from '@/lib/utils/joinCode';
+import { StreakBadge } from '@/components/pub-trivia/StreakBadge';
+import { getEliminationOrder } from '@/lib/utils/pubTriviaOptions';
+import { PUB_TRIVIA_SCORING_MODE_LABELS, PUB_TRIVIA_TEAM_AGGREGATE_LABELS } from '@/lib/constants/ui';
+import type {
+  PubTriviaGameState,
+  PubTriviaQuestionForPlayer,
+  PubTriviaPlayer,
+  PubTriviaRoundResult,
+  PubTriviaScoringProfile,
+  PubTriviaTeamPlay,
+  PubTriviaTeamResult,
+  StartQuestionResponse,
+} from '@/types/pub-trivia';
+import { DEFAULT_PUB_TRIVIA_SCORING, OPTION_ELIMINATION_THRESHOLDS } from '@/types/pub-trivia';
 
 type Phase =
   | 'loading'
@@ -16,22 +29,16 @@ type Phase =
   | 'round_results'
   | 'completed';
 
-interface StartQuestionResponse {
-  questionIndex: number;
-  question: PubTriviaQuestionForPlayer;
-  startedAt: number;
-  correctAnswerIndex: number;
-  durationMs: number;
-}
-
 interface EndQuestionResponse {
   correctAnswer: string;
   results: PubTriviaRoundResult[];
+  teamResults: PubTriviaTeamResult[] | null;
   hasNextQuestion: boolean;
 }
 
 interface EndGameResponse {
-  finalRankings: Array<{ id: string; playerName: string; playerIcon: string | null; score: number; connectionStatus: string | null }>;
+  finalRankings: Array<{ id: string; playerName: string; playerIcon: string | null; score: number; connectionStatus: string | null; teamName: string | null }>;
+  finalTeamRankings: PubTriviaTeamResult[] | null;
 }
 
 export default function PubTriviaTeacherPage() {
@@ -51,13 +58,17 @@ export default function PubTriviaTeacherPage() {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [currentQuestion, setCurrentQuestion] = useState<PubTriviaQuestionForPlayer | null>(null);
   const [correctAnswerIndex, setCorrectAnswerIndex] = useState<number | null>(null);
-  // True when the page was refreshed mid-question; options are shown in unshuffled DB order
-  // rather than the shuffled order students received, so positions may not match.
-  const [isRestoredMidQuestion, setIsRestoredMidQuestion] = useState(false);
+  // Shown for numeric and ordering questions, which have no single correct option
+  const [correctAnswer, setCorrectAnswer] = useState<string | null>(null);
   const [players, setPlayers] = useState<PubTriviaPlayer[]>([]);
+  const [joinCode, setJoinCode] = useState<string | null>(null);
   const [roundResults, setRoundResults] = useState<PubTriviaRoundResult[]>([]);
   const [lastCorrectAnswer, setLastCorrectAnswer] = useState<string | null>(null);
   const [hasNextQuestion, setHasNextQuestion] = useState(false);
+  const [scoring, setScoring] = useState<PubTriviaScoringProfile>(DEFAULT_PUB_TRIVIA_SCORING);
+  // Team play settings (null for individual play) and the latest team standings
+  const [teamPlay, setTeamPlay] = useState<PubTriviaTeamPlay | null>(null);
+  const [teamResults, setTeamResults] = useState<PubTriviaTeamResult[]>([]);
 
   // Timer state (managed via ref to avoid stale closures in interval)
   const [timeRemaining, setTimeRemaining] = useState(0);
@@ -67,7 +78,7 @@ export default function PubTriviaTeacherPage() {
 
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const eliminationFiredRef = useRef({ at40: false, at70: false });
-  // Pre-computed wrong option indices for the current question (set by handleStartQuestion)
+  // Wrong option indices in elimination order for the current question (stored by the start route)
   const wrongOptionIndicesRef = useRef<number[]>([]);
   const questionDurationMsRef = useRef(20_000);
   const questionStartedAtRef = useRef<number>(0);
@@ -111,13 +122,14 @@ export default function PubTriviaTeacherPage() {
             connection_status: string | null;
             score: number | null;
             player_icon: string | null;
+            pub_trivia_team: string | null;
           };
           if (t.connection_status !== 'pending') return;
           setPlayers((prev) => {
             if (prev.some((p) => p.id === t.id)) return prev;
             return [
               ...prev,
-              { id: t.id, playerName: t.team_name ?? 'Player', playerIcon: t.player_icon ?? null, score: t.score ?? 0, connectionStatus: 'pending' },
+              { id: t.id, playerName: t.team_name ?? 'Player', playerIcon: t.player_icon ?? null, score: t.score ?? 0, connectionStatus: 'pending', teamName: t.pub_trivia_team },
             ];
           });
         },
@@ -138,7 +150,7 @@ export default function PubTriviaTeacherPage() {
       try {
         const { data: game, error: gameError } = await supabase
           .from('games')
-          .select('status, current_question_index, pub_trivia_question_order, current_question_started_at, timer_seconds')
+          .select('join_code')
           .eq('id', gameId)
           .single();
 
@@ -146,59 +158,51 @@ export default function PubTriviaTeacherPage() {
           setLoadError('Game not found');
           return;
         }
+        setJoinCode(game.join_code);
 
-        const { data: teams } = await supabase
-          .from('teams')
-          .select('id, team_name, score, connection_status, player_icon')
-          .eq('game_id', gameId)
-          .order('score', { ascending: false });
-
-        setPlayers(
-          (teams ?? []).map((t) => ({
-            id: t.id,
-            playerName: t.team_name ?? 'Player',
-            playerIcon: t.player_icon ?? null,
-            score: t.score ?? 0,
-            connectionStatus: t.connection_status ?? 'pending',
-          })),
-        );
+        // Everything else comes from the state endpoint, which restores the
+        // option order students saw and the eliminations so far
+        const res = await fetch(`/api/games/${gameId}/pub-trivia/state`);
+        if (!res.ok) {
+          setLoadError('Failed to load game');
+          return;
+        }
+        const state = (await res.json()) as PubTriviaGameState;
 
-        if (game.status === 'setup') {
+        setPlayers(state.players);
+        setScoring(state.scoring);
+        setTeamPlay(state.teamPlay);
+        setTeamResults(state.teamResults ?? []);
+        setTotalQuestions(state.totalQuestions);
+        setCurrentQuestionIndex(state.currentQuestionIndex);
+        setHasNextQuestion(state.hasNextQuestion);
+
+        if (state.phase === 'setup') {
           setPhase('lobby');
-        } else if (game.status === 'completed') {
+        } else if (state.phase === 'completed') {
           setPhase('completed');
-        } else if (game.status === 'in_progress') {
-          const order = game.pub_trivia_question_order as string[] | null;
-          const questionIndex = game.current_question_index ?? 0;
-          setTotalQuestions(order?.length ?? 0);
-          setCurrentQuestionIndex(questionIndex);
-
-          if (game.current_question_started_at) {
-            // Restore timer refs before setPhase so the interval reads correct values on the first tick
-            questionStartedAtRef.current = new Date(game.current_question_started_at).getTime();
-            questionDurationMsRef.current = (game.timer_seconds ?? 20) * 1_000;
-            // wrongOptionIndicesRef stays [] — the original shuffled order is not stored in DB,
-            // so elimination broadcasts are suppressed rather than risk targeting the wrong indices
-
-            // Fetch the active question for display (options will be in unshuffled DB order)
-            if (order && questionIndex < order.length) {
-              const { data: q } = await supabase
-                .from('questions')
-                .select('id, question_text, answer_text, category, mc_options')
-                .eq('id', order[questionIndex])
-                .single();
-              if (q) {
-                const wrongOpts = (q.mc_options as string[]) ?? [];
-                const allOptions = [...wrongOpts, q.answer_text];
-                setCurrentQuestion({ id: q.id, questionText: q.question_text, category: q.category, options: allOptions });
-                setCorrectAnswerIndex(allOptions.length - 1);
-              }
-            }
-            setIsRestoredMidQuestion(true);
-            setPhase('question_active');
-          } else {
-            setPhase('between_questions');
-          }
+        } else if (state.phase === 'question' && state.currentQuestion && state.questionStartedAt !== null) {
+          // Restore timer refs before setPhase so the interval reads correct values on the first tick
+          questionStartedAtRef.current = state.questionStartedAt;
+          questionDurationMsRef.current = state.questionDurationMs;
+          wrongOptionIndicesRef.current = state.correctAnswerIndex !== null && state.correctAnswerIndex >= 0
+            ? getEliminationOrder(
+              state.currentQuestion.options.length,
+              state.correctAnswerIndex,
+              state.scoring.eliminationEnabled && state.currentQuestion.format === 'multiple_choice'
+            )
+            : [];
+          setCurrentQuestion(state.currentQuestion);
+          setCorrectAnswerIndex(state.correctAnswerIndex);
+          setCorrectAnswer(state.correctAnswer);
+          setEliminatedIndices(state.eliminatedOptionIndices);
+          setPhase('question_active');
+        } else if (state.lastRoundResults) {
+          setRoundResults(state.lastRoundResults);
+          setLastCorrectAnswer(state.lastRoundCorrectAnswer);
+          setPhase('round_results');
+        } else {
+          setPhase('between_questions');
         }
       } catch (err) {
         logger.error('Failed to load pub trivia teacher page', err, {
@@ -322,12 +326,13 @@ export default function PubTriviaTeacherPage() {
       }
       setTotalQuestions(data.totalQuestions as number);
       setPlayers(
-        (data.players as Array<{ id: string; playerName: string; playerIcon: string | null; score: number; connectionStatus: string | null }>).map((p) => ({
+        (data.players as PubTriviaPlayer[]).map((p) => ({
           id: p.id,
           playerName: p.playerName,
           playerIcon: p.playerIcon ?? null,
           score: p.score,
           connectionStatus: p.connectionStatus ?? 'connected',
+          teamName: p.teamName ?? null,
         })),
       );
       setCurrentQuestionIndex(0);
@@ -346,7 +351,6 @@ export default function PubTriviaTeacherPage() {
     setAnswerTally({});
     setEliminatedIndices([]);
     setActionError(null);
-    setIsRestoredMidQuestion(false);
     try {
       const res = await fetch(`/api/games/${gameId}/pub-trivia/question/start`, { method: 'POST' });
       const data = (await res.json()) as Partial<StartQuestionResponse>;
@@ -354,15 +358,23 @@ export default function PubTriviaTeacherPage() {
         setActionError((data as { error?: string }).error ?? 'Failed to start question');
         return;
       }
-      const { question, correctAnswerIndex: corrIdx, startedAt, durationMs } = data as StartQuestionResponse;
+      const {
+        question,
+        correctAnswerIndex: corrIdx,
+        correctAnswer: answer,
+        eliminationOrder,
+        startedAt,
+        durationMs,
+        scoring: gameScoring,
+      } = data as StartQuestionResponse;
 
       setCurrentQuestion(question);
       setCorrectAnswerIndex(corrIdx);
+      setCorrectAnswer(answer);
+      setScoring(gameScoring);
 
-      // Pre-compute wrong option indices for the timer
-      wrongOptionIndicesRef.current = question.options
-        .map((_, i) => i)
-        .filter((i) => i !== corrIdx);
+      // Empty when the game has elimination turned off, so no option is ever eliminated
+      wrongOptionIndicesRef.current = eliminationOrder;
       questionDurationMsRef.current = durationMs;
       questionStartedAtRef.current = startedAt;
       setTimeRemaining(Math.ceil(durationMs / 1000));
@@ -374,6 +386,7 @@ export default function PubTriviaTeacherPage() {
         question,
         durationMs,
         startedAt,
+        scoring: gameScoring,
       });
     } catch (err) {
       logger.error('Failed to start pub trivia question', err, { operation: 'startPubTriviaQuestion', gameId });
@@ -394,9 +407,10 @@ export default function PubTriviaTeacherPage() {
         setActionError((data as { error?: string }).error ?? 'Failed to end question');
         return;
       }
-      const { correctAnswer, results, hasNextQuestion: nextQ } = data as EndQuestionResponse;
+      const { correctAnswer, results, teamResults: teams, hasNextQuestion: nextQ } = data as EndQuestionResponse;
 
       setRoundResults(results);
+      setTeamResults(teams ?? []);
       setLastCorrectAnswer(correctAnswer);
       setHasNextQuestion(nextQ);
 
@@ -410,7 +424,7 @@ export default function PubTriviaTeacherPage() {
       setCurrentQuestionIndex((prev) => prev + 1);
       setPhase('round_results');
 
-      broadcast('pt_question_ended', { correctAnswer, results, hasNextQuestion: nextQ });
+      broadcast('pt_question_ended', { correctAnswer, results, teamResults: teams, hasNextQuestion: nextQ });
     } catch (err) {
       logger.error('Failed to end pub trivia question', err, { operation: 'endPubTriviaQuestion', gameId });
       setActionError('Failed to end question');
@@ -429,7 +443,7 @@ export default function PubTriviaTeacherPage() {
         setActionError((data as { error?: string }).error ?? 'Failed to end game');
         return;
       }
-      const { finalRankings } = data as EndGameResponse;
+      const { finalRankings, finalTeamRankings } = data as EndGameResponse;
       setPlayers(
         finalRankings.map((r) => ({
           id: r.id,
@@ -437,10 +451,12 @@ export default function PubTriviaTeacherPage() {
           playerIcon: r.playerIcon ?? null,
           score: r.score,
           connectionStatus: r.connectionStatus ?? 'connected',
+          teamName: r.teamName,
         })),
       );
+      setTeamResults(finalTeamRankings ?? []);
       setPhase('completed');
-      broadcast('pt_game_ended', { finalRankings });
+      broadcast('pt_game_ended', { finalRankings, finalTeamRankings });
     } catch (err) {
       logger.error('Failed to end pub trivia game', err, { operation: 'endPubTriviaGame', gameId });
       setActionError('Failed to end game');
@@ -504,6 +520,14 @@ export default function PubTriviaTeacherPage() {
                   <QRCodeSVG value={joinUrl} size={180} />
                 </div>
                 <p className="text-xs text-gray-400 text-center break-all">{joinUrl}</p>
+                {joinCode && (
+                  <div className="text-center">
+                    <p className="text-xs text-gray-400">
+                      Or enter this code at {typeof window !== 'undefined' ? window.location.host : ''}/join
+                    </p>
+                    <p className="text-3xl font-bold font-mono tracking-widest">{formatJoinCode(joinCode)}</p>
+                  </div>
+                )}
               </div>
 
               {/* Approval panel */}
@@ -530,6 +554,7 @@ export default function PubTriviaTeacherPage() {
                           <span className="text-sm font-medium flex items-center gap-1.5">
                             {p.playerIcon && <span className="text-base leading-none">{p.playerIcon}</span>}
                             {p.playerName}
+                            {p.teamName && <span className="text-xs text-gray-400">· {p.teamName}</span>}
                           </span>
                           <div className="flex gap-1.5">
                             <button
@@ -575,6 +600,7 @@ export default function PubTriviaTeacherPage() {
                           <span className="text-sm flex items-center gap-1.5">
                             {p.playerIcon && <span className="text-base leading-none">{p.playerIcon}</span>}
                             {p.playerName}
+                            {p.teamName && <span className="text-xs text-gray-400">· {p.teamName}</span>}
                           </span>
                         </div>
                       ))
@@ -604,6 +630,13 @@ export default function PubTriviaTeacherPage() {
                 <p className="text-gray-400 text-sm mb-1">Up next</p>
                 <p className="text-5xl font-bold">Q{currentQuestionIndex + 1}</p>
                 <p className="text-gray-400 text-sm mt-1">of {totalQuestions}</p>
+                <p className="text-gray-500 text-xs mt-3">
+                  {PUB_TRIVIA_SCORING_MODE_LABELS[scoring.mode]}
+                  {scoring.minPoints > 0 && ` · at least ${scoring.minPoints} pts`}
+                  {scoring.eliminationEnabled ? ' · wrong options eliminated' : ' · no eliminations'}
+                  {scoring.streakBonusMode !== 'none' && ` · streak bonus from ${scoring.streakMinLength} in a row`}
+                  {teamPlay && ` · teams score the ${PUB_TRIVIA_TEAM_AGGREGATE_LABELS[teamPlay.aggregate].toLowerCase()}`}
+                </p>
               </div>
               <button
                 onClick={handleStartQuestion}
@@ -622,18 +655,16 @@ export default function PubTriviaTeacherPage() {
                 </button>
               )}
             </div>
-            <Leaderboard players={players} />
+            <div className="space-y-5">
+              {teamPlay && <TeamLeaderboard teams={teamResults} />}
+              <Leaderboard players={players} />
+            </div>
           </div>
         )}
 
         {/* ── QUESTION ACTIVE ── */}
         {phase === 'question_active' && currentQuestion && (
           <div className="space-y-4">
-            {isRestoredMidQuestion && (
-              <div className="bg-yellow-900 border border-yellow-600 text-yellow-200 text-sm rounded-lg px-4 py-2">
-                Page was refreshed mid-question. Options are shown in original DB order — positions may differ from what students see. Option eliminations are paused until the next question.
-              </div>
-            )}
             <div className="bg-gray-800 rounded-xl p-6">
               <div className="flex items-start justify-between gap-4 mb-5">
                 <p className="text-lg font-semibold flex-1">{currentQuestion.questionText}</p>
@@ -649,8 +680,24 @@ export default function PubTriviaTeacherPage() {
                 </div>
               </div>
 
+              {(currentQuestion.format === 'numeric' || currentQuestion.format === 'ordering') && (
+                <div className="mb-5 space-y-3">
+                  {currentQuestion.format === 'ordering' && (
+                    <p className="text-sm text-gray-400">
+                      Players put these in order: {currentQuestion.options.join(' · ')}
+                    </p>
+                  )}
+                  <div className="p-3 rounded-lg text-sm border-2 border-green-500 bg-green-900 bg-opacity-30">
+                    <span className="text-xs text-green-400 mr-2">
+                      {currentQuestion.format === 'ordering' ? 'Correct order:' : 'Answer:'}
+                    </span>
+                    {correctAnswer}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-3 mb-5">
-                {currentQuestion.options.map((opt, i) => (
+                {(currentQuestion.format === 'multiple_choice' || currentQuestion.format === 'true_false') && currentQuestion.options.map((opt, i) => (
                   <div
                     key={i}
                     className={`p-3 rounded-lg text-sm border-2 transition-opacity ${
@@ -676,7 +723,8 @@ export default function PubTriviaTeacherPage() {
                   Live Responses — {answerCount} / {players.length} answered
                 </p>
                 <div className="space-y-2">
-                  {currentQuestion.options.map((opt, i) => {
+                  {/* Numeric and ordering answers vary too much to tally per option */}
+                  {(currentQuestion.format === 'multiple_choice' || currentQuestion.format === 'true_false') && currentQuestion.options.map((opt, i) => {
                     const count = answerTally[opt] ?? 0;
                     const pct = answerCount > 0 ? Math.round((count / answerCount) * 100) : 0;
                     const isCorrect = i === correctAnswerIndex;
@@ -742,6 +790,7 @@ export default function PubTriviaTeacherPage() {
                         {r.playerName}
                       </span>
                       <div className="flex items-center gap-3">
+                        <StreakBadge streak={r.streak} />
                         <span
                           className={`text-xs px-2 py-0.5 rounded-full ${
                             r.isCorrect
@@ -749,7 +798,7 @@ export default function PubTriviaTeacherPage() {
                               : 'bg-red-900 text-red-300'
                           }`}
                         >
-                          {r.isCorrect ? 'Correct' : 'Wrong'}
+                          {r.isCorrect ? 'Correct' : r.pointsEarned > 0 ? 'Partly right' : 'Wrong'}
                         </span>
                         <span className="text-sm font-mono text-yellow-400">
                           +{r.pointsEarned}
@@ -779,7 +828,14 @@ export default function PubTriviaTeacherPage() {
               </div>
             </div>
 
-            <Leaderboard players={players} />
+            {teamPlay ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                <TeamLeaderboard teams={teamResults} showRoundPoints />
+                <Leaderboard players={players} />
+              </div>
+            ) : (
+              <Leaderboard players={players} />
+            )}
           </div>
         )}
 
@@ -787,7 +843,12 @@ export default function PubTriviaTeacherPage() {
         {phase === 'completed' && (
           <div className="bg-gray-800 rounded-xl p-6 text-center">
             <h2 className="text-2xl font-bold mb-2">Game Over!</h2>
-            <p className="text-gray-400 mb-6">Final Rankings</p>
+            {teamPlay && teamResults.length > 0 && (
+              <div className="max-w-md mx-auto mb-8 text-left">
+                <TeamLeaderboard teams={teamResults} />
+              </div>
+            )}
+            <p className="text-gray-400 mb-6">{teamPlay ? 'Individual Rankings' : 'Final Rankings'}</p>
             <div className="space-y-3 max-w-md mx-auto mb-8">
               {players.slice(0, 10).map((p, i) => (
                 <div
@@ -817,12 +878,20 @@ export default function PubTriviaTeacherPage() {
                 </div>
               ))}
             </div>
-            <button
-              onClick={() => router.push('/dashboard')}
-              className="px-8 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors"
-            >
-              Return to Dashboard
-            </button>
+            <div className="flex flex-wrap justify-center gap-3">
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="px-8 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold transition-colors"
+              >
+                Return to Dashboard
+              </button>
+              <button
+                onClick={() => router.push(`/dashboard/games/${gameId}/recap`)}
+                className="px-8 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+              >
+                View Recap
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -830,6 +899,45 @@ export default function PubTriviaTeacherPage() {
   );
 }
 
+function TeamLeaderboard({
+  teams,
+  showRoundPoints = false,
+}: {
+  teams: PubTriviaTeamResult[];
+  showRoundPoints?: boolean;
+}) {
+  return (
+    <div className="bg-gray-800 rounded-xl p-5">
+      <h2 className="text-sm font-semibold text-gray-300 mb-3 uppercase tracking-wide">
+        Team Leaderboard
+      </h2>
+      <div className="space-y-2">
+        {teams.length === 0 ? (
+          <p className="text-gray-500 text-sm">Team scores appear after the first question</p>
+        ) : (
+          teams.map((t, i) => (
+            <div key={t.teamName} className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500 text-sm w-6 text-right">{i + 1}.</span>
+                <span className="text-sm">{t.teamName}</span>
+                <span className="text-xs text-gray-500">
+                  {t.memberCount} player{t.memberCount !== 1 ? 's' : ''}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                {showRoundPoints && (
+                  <span className="text-xs font-mono text-gray-400">+{t.roundPoints}</span>
+                )}
+                <span className="text-sm font-mono text-yellow-400">{t.score.toLocaleString()}</span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
 function Leaderboard({
   players,
   compact = false,
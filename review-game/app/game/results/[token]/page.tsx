@@ -0,0 +1,91 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { PrinterIcon } from '@heroicons/react/24/outline';
+import { GameRecapView } from '@/components/game/GameRecapView';
+import { logger } from '@/lib/logger';
+import type { GameRecap } from '@/types/game';
+
+interface ResultsPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Shared Results Page
+ *
+ * Public recap of a finished game, opened from a results link the teacher
+ * copied on the recap page. No sign-in is needed.
+ *
+ * @param params - Contains the share token from the URL
+ */
+export default function ResultsPage({ params }: ResultsPageProps) {
+  const { token } = use(params);
+  const [recap, setRecap] = useState<GameRecap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadResults = async () => {
+      try {
+        const response = await fetch(`/api/games/results/${encodeURIComponent(token)}`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'These results are not available');
+          return;
+        }
+        setRecap(data.recap as GameRecap);
+      } catch (err) {
+        logger.error('Error loading shared results', err, {
+          operation: 'loadResults',
+          page: 'ResultsPage',
+        });
+        setError('Unable to load results. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadResults();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="text-lg text-gray-600">Loading results...</div>
+      </div>
+    );
+  }
+
+  if (!recap) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50 p-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Results Unavailable</h1>
+          <p className="text-gray-600">{error || 'These results are not available'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <GameRecapView
+          recap={recap}
+          actions={
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <PrinterIcon className="h-5 w-5 mr-1" />
+              Save as PDF
+            </button>
+          }
+        />
+      </div>
+    </div>
+  );
+}
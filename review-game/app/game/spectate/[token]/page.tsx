@@ -0,0 +1,217 @@
+'use client';
+
+import { use } from 'react';
+import { useSpectatorGame } from '@/hooks/useSpectatorGame';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
+import { isSafeImageUrl } from '@/lib/utils/url';
+import type { SpectatorSnapshot } from '@/types/game';
+
+interface SpectatorPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Spectator Page
+ *
+ * Read-only view of a live Jeopardy game for a second classroom screen or
+ * for families at open house. Opened from a spectator link shared in
+ * ShareGameModal; no sign-in or team is needed.
+ *
+ * Features:
+ * - Board with used clues greyed out
+ * - Open clue once the teacher has read it, answer once revealed
+ * - Scoreboard
+ * - Final Jeopardy category, question and team reveals as they happen
+ * - Stops updating when the teacher turns the link off
+ *
+ * @param params - Contains the spectator token from the URL
+ */
+export default function SpectatorPage({ params }: SpectatorPageProps) {
+  const { token } = use(params);
+  const { snapshot, error, isLoading } = useSpectatorGame(token);
+
+  if (isLoading && !snapshot) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900 text-white">
+        <div className="text-lg">Loading game...</div>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900 text-white p-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-400 mb-4">Unable to Watch Game</h1>
+          <p className="text-gray-300">{error || 'Game not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const teamNames = new Map(snapshot.teams.map((team) => [team.id, team.name]));
+  const sortedTeams = [...snapshot.teams].sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-[1800px] mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">{snapshot.title}</h1>
+            <p className="text-gray-400">
+              Spectator view
+              {snapshot.currentRound === DOUBLE_JEOPARDY.ROUND && <> | Double Jeopardy</>}
+              {snapshot.status === 'completed' && <> | Game over</>}
+            </p>
+          </div>
+          {error && (
+            <div className="px-4 py-2 bg-yellow-900/50 border border-yellow-700 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {isFinalJeopardyPhase(snapshot.currentPhase) && snapshot.finalJeopardy ? (
+          <FinalJeopardyPanel finalJeopardy={snapshot.finalJeopardy} teamNames={teamNames} />
+        ) : snapshot.currentClue ? (
+          <CluePanel clue={snapshot.currentClue} />
+        ) : (
+          <SpectatorBoard categories={snapshot.categories} />
+        )}
+
+        {/* Scoreboard */}
+        <div className="mt-8 grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.max(sortedTeams.length, 1)}, minmax(0, 1fr))` }}>
+          {sortedTeams.map((team) => (
+            <div key={team.id} className="bg-gray-800 rounded-lg p-4 text-center">
+              <h3 className="text-lg font-semibold truncate">{team.name}</h3>
+              <p className={`text-3xl font-bold ${team.score < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {team.score}
+              </p>
+            </div>
+          ))}
+          {sortedTeams.length === 0 && (
+            <p className="text-center text-gray-400">Waiting for teams to join...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Board grid; cells show only their value and whether they have been played
+ */
+function SpectatorBoard({ categories }: { categories: SpectatorSnapshot['categories'] }) {
+  return (
+    <div
+      className="grid gap-3 auto-rows-auto"
+      style={{ gridTemplateColumns: `repeat(${Math.max(categories.length, 1)}, minmax(0, 1fr))` }}
+    >
+      {categories.map((category) => (
+        <div
+          key={`header-${category.id}`}
+          className="p-4 bg-blue-600 text-white font-bold text-center flex items-center justify-center rounded-lg shadow-lg text-lg break-words"
+        >
+          {category.name}
+        </div>
+      ))}
+      {categories.map((category) => (
+        <div key={`questions-${category.id}`} className="flex flex-col gap-3">
+          {category.questions.map((question) => (
+            <div
+              key={question.id}
+              className={`p-4 font-bold flex items-center justify-center rounded shadow-md min-h-[80px] text-2xl ${
+                question.isUsed ? 'bg-gray-700 text-gray-500' : 'bg-blue-600 text-white'
+              }`}
+            >
+              {question.isUsed ? '' : question.value}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The open clue; shows a placeholder while the teacher is reading it
+ */
+function CluePanel({ clue }: { clue: NonNullable<SpectatorSnapshot['currentClue']> }) {
+  return (
+    <div className="bg-blue-800 rounded-xl p-12 text-center min-h-[400px] flex flex-col items-center justify-center gap-6">
+      <p className="text-xl text-blue-200 uppercase tracking-wide">
+        {clue.categoryName} &middot; {clue.value}
+      </p>
+      {clue.isDailyDouble && (
+        <p className="text-3xl font-extrabold text-yellow-300">Daily Double!</p>
+      )}
+      {clue.text ? (
+        <>
+          {isSafeImageUrl(clue.imageUrl) && (
+            // eslint-disable-next-line @next/next/no-img-element -- external user-supplied URLs
+            <img
+              src={clue.imageUrl}
+              alt={clue.imageAltText ?? ''}
+              className="max-h-64 rounded-lg"
+            />
+          )}
+          <p className="text-4xl font-bold leading-snug">{clue.text}</p>
+        </>
+      ) : (
+        <p className="text-2xl text-blue-200">The teacher is reading the clue...</p>
+      )}
+      {clue.hint && !clue.answer && (
+        <p className="text-xl text-sky-200">Hint: {clue.hint}</p>
+      )}
+      {clue.answer && (
+        <p className="text-3xl font-bold text-green-300">{clue.answer}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Final Jeopardy category, question and each team's result as it is revealed
+ */
+function FinalJeopardyPanel({
+  finalJeopardy,
+  teamNames,
+}: {
+  finalJeopardy: NonNullable<SpectatorSnapshot['finalJeopardy']>;
+  teamNames: Map<string, string>;
+}) {
+  return (
+    <div className="bg-gradient-to-br from-blue-900 to-purple-900 rounded-xl p-12 text-center flex flex-col items-center gap-6">
+      <p className="text-2xl font-bold text-yellow-300">Final Jeopardy</p>
+      <p className="text-xl text-blue-200 uppercase tracking-wide">{finalJeopardy.category}</p>
+      {finalJeopardy.question ? (
+        <p className="text-4xl font-bold leading-snug">{finalJeopardy.question}</p>
+      ) : (
+        <p className="text-2xl text-blue-200">Teams are placing their wagers...</p>
+      )}
+      {finalJeopardy.answer && (
+        <p className="text-3xl font-bold text-green-300">{finalJeopardy.answer}</p>
+      )}
+      {finalJeopardy.reveals.length > 0 && (
+        <ul className="w-full max-w-2xl space-y-2">
+          {finalJeopardy.reveals.map((reveal) => (
+            <li
+              key={reveal.teamId}
+              className="flex items-center justify-between bg-black/30 rounded-lg px-4 py-3 text-left"
+            >
+              <span className="font-semibold">{teamNames.get(reveal.teamId) ?? 'Team'}</span>
+              <span className="text-gray-300 truncate mx-4">{reveal.answer || 'No answer'}</span>
+              <span className={reveal.isCorrect ? 'text-green-400 font-bold' : 'text-red-400 font-bold'}>
+                {reveal.isCorrect ? '+' : '-'}{reveal.wager}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,20 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { BuzzButton, BuzzButtonState } from '@/components/student/BuzzButton';
+import AllPlayAnswerPanel from '@/components/student/AllPlayAnswerPanel';
+import { Timer } from '@/components/game/Timer';
 import { useBuzzer } from '@/hooks/useBuzzer';
 import { useGameStore } from '@/lib/stores/gameStore';
 import type { Tables } from '@/types/database.types';
+import type { TieBreakerState } from '@/types/game';
 import { logger } from '@/lib/logger';
+import { ANSWER_CLOCK_LABELS, HINT_LABELS } from '@/lib/constants/ui';
+import { isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
 import { useDeviceId } from '@/hooks/useDeviceId';
+import { usePresenceHeartbeat } from '@/hooks/usePresenceHeartbeat';
 
 type Game = Tables<'games'>;
 type Team = Tables<'teams'>;
@@ -27,17 +33,54 @@ export default function StudentGamePage() {
   const [team, setTeam] = useState<Team | null>(null);
   const [buzzButtonState, setBuzzButtonState] = useState<BuzzButtonState>('waiting');
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [buzzDeltaMs, setBuzzDeltaMs] = useState<number | null>(null);
   const [teamClaimed, setTeamClaimed] = useState(false);
   const [claimAttempted, setClaimAttempted] = useState(false);
+  // Only the captain's device submits wagers and Final Jeopardy answers
+  const [isCaptain, setIsCaptain] = useState(false);
 
   // Get device ID for authentication
   const deviceId = useDeviceId();
 
+  // Lets the teacher see whether this team is online, once this device is on it
+  usePresenceHeartbeat(gameId, teamId, teamClaimed && game?.status !== 'completed');
+
   // Use buzzer hook for real-time buzz events
-  const { sendBuzz } = useBuzzer(gameId);
+  // clockSync: this device buzzes, so the server needs its clock offset to order it fairly
+  const { sendBuzz, sendTieBreakerBuzz } = useBuzzer(gameId, { clockSync: true });
 
   // Get buzz queue, current question, revealed answer, and FJ state from game store
-  const { buzzQueue, currentQuestion, revealedAnswer, currentPhase, finalJeopardyQuestion, finalJeopardyQuestionRevealed } = useGameStore();
+  const { buzzQueue, buzzersArmed, currentQuestion, revealedAnswer, revealedHint, currentPhase, finalJeopardyQuestion, finalJeopardyQuestionRevealed, allPlay, stealTurn, answerClock, tieBreaker } = useGameStore();
+
+  // Every team writes an answer instead of buzzing on all-play clues
+  const isAllPlay = !!currentQuestion && allPlay?.questionId === currentQuestion.id;
+
+  // Set once a team has answered the open clue incorrectly
+  const activeSteal = currentQuestion && stealTurn?.questionId === currentQuestion.id ? stealTurn : null;
+  const isClueClosed = activeSteal?.closed ?? false;
+  const hasAnsweredClue = activeSteal?.answeredTeamIds.includes(teamId) ?? false;
+  // Answer clock runs on this device only while this team is answering
+  const myAnswerClock = currentQuestion && answerClock?.questionId === currentQuestion.id && answerClock.teamId === teamId
+    ? answerClock
+    : null;
+
+  // Only the teams tied for first play the tie-breaker; everyone else watches
+  const isTieBreakerTeam = tieBreaker?.teamIds.includes(teamId) ?? false;
+  const tieBreakerPosition = tieBreaker?.queue.findIndex((entry) => entry.teamId === teamId) ?? -1;
+  const hasMissedTieBreaker = tieBreaker?.dismissedTeamIds.includes(teamId) ?? false;
+  // Set while this device's tie-breaker buzz is with the server
+  const [isTieBreakerBuzzing, setIsTieBreakerBuzzing] = useState(false);
+  const tieBreakerButtonState: BuzzButtonState = hasMissedTieBreaker
+    ? 'waiting'
+    : tieBreakerPosition === 0
+      ? 'answering'
+      : tieBreakerPosition > 0 || isTieBreakerBuzzing
+        ? 'buzzed'
+        : tieBreaker?.buzzersOpen ? 'active' : 'ready';
+
+  // Early-buzz lockout: true while the server is rejecting this team's buzzes
+  const [isLockedOut, setIsLockedOut] = useState(false);
+  const lockoutTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   // Final Jeopardy local state — combined wager + answer form (RG-183)
   const [fjWager, setFjWager] = useState<string>('0');
@@ -79,7 +122,11 @@ export default function StudentGamePage() {
         if (!response.ok) {
           if (data.code === 'TEAM_ALREADY_CLAIMED') {
             setError(
-              'This team is already being controlled by another device. Please close the other session or contact your teacher.'
+              'This device has not joined this team. Use your teacher\'s game link to join it, or contact your teacher.'
+            );
+          } else if (data.code === 'REJOIN_CODE_REQUIRED') {
+            setError(
+              'Your teacher released this team\'s device. Enter the rejoin code from your teacher on the game\'s join page.'
             );
           } else {
             setError(data.error || 'Failed to connect to team');
@@ -89,6 +136,7 @@ export default function StudentGamePage() {
         }
 
         setTeamClaimed(true);
+        setIsCaptain(data.isCaptain === true);
         logger.info('Team claimed successfully', {
           operation: 'claimTeam',
           gameId,
@@ -140,6 +188,19 @@ export default function StudentGamePage() {
         setGame(gameData);
         setTeam(teamData);
 
+        // Pick up a tie-breaker in progress, or the one that decided the game
+        if (gameData.current_phase === 'tie_breaker' || gameData.status === 'completed') {
+          const response = await fetch(`/api/games/${gameId}/tie-breaker`);
+          if (response.ok) {
+            const { tieBreaker: state } = await response.json() as { tieBreaker: TieBreakerState | null };
+            const store = useGameStore.getState();
+            store.setTieBreaker(state);
+            if (gameData.current_phase === 'tie_breaker' && state && !state.winnerTeamId) {
+              store.setCurrentPhase('tie_breaker');
+            }
+          }
+        }
+
         // Set initial buzz button state based on game status
         // Note: currentQuestion state will be synced via game store
         // Button state will be properly set by the useEffect that monitors currentQuestion
@@ -274,10 +335,15 @@ export default function StudentGamePage() {
     if (position === -1) {
       // Team not in queue
       setQueuePosition(null);
+      setBuzzDeltaMs(null);
 
-      // Set button state based on game status and question state
-      if (game?.status === 'active' && currentQuestion) {
-        setBuzzButtonState('active');
+      // Set button state based on game status, question state and arming
+      if (game?.status === 'active' && currentQuestion && !isClueClosed && !hasAnsweredClue) {
+        if (isLockedOut) {
+          setBuzzButtonState('locked');
+        } else {
+          setBuzzButtonState(buzzersArmed ? 'active' : 'ready');
+        }
       } else {
         setBuzzButtonState('waiting');
       }
@@ -285,6 +351,7 @@ export default function StudentGamePage() {
       // Team is in queue
       const pos = position + 1; // Convert to 1-based position
       setQueuePosition(pos);
+      setBuzzDeltaMs(buzzQueue[position].timestamp - buzzQueue[0].timestamp);
 
       if (pos === 1) {
         // First in queue - it's their turn to answer
@@ -294,11 +361,20 @@ export default function StudentGamePage() {
         setBuzzButtonState('buzzed');
       }
     }
-  }, [buzzQueue, teamId, game?.status, currentQuestion]);
+  }, [buzzQueue, teamId, game?.status, currentQuestion, buzzersArmed, isLockedOut, isClueClosed, hasAnsweredClue]);
+
+  // Clear the lockout timer on unmount
+  useEffect(() => {
+    return () => {
+      if (lockoutTimerRef.current) {
+        clearTimeout(lockoutTimerRef.current);
+      }
+    };
+  }, []);
 
   // Reset FJ submission state when returning to regular play or entering wager phase
   useEffect(() => {
-    if (currentPhase === 'regular' || currentPhase === 'final_jeopardy_wager') {
+    if (!isFinalJeopardyPhase(currentPhase) || currentPhase === 'final_jeopardy_wager') {
       setFjWager('0');
       setFjAnswer('');
       setFjSubmitted(false);
@@ -363,11 +439,60 @@ export default function StudentGamePage() {
       return;
     }
 
-    // Send buzz event via Supabase broadcast channel
-    sendBuzz(teamId);
+    if (!deviceId) {
+      logger.error('Cannot buzz: deviceId is not available', {
+        gameId,
+        teamId,
+        operation: 'handleBuzz',
+        page: 'StudentGamePage'
+      });
+      return;
+    }
+
+    // Lock the button while the server decides the order
+    setBuzzButtonState('buzzed');
+
+    // The server records the buzz and broadcasts the ordered queue; the buzz
+    // queue tracking effect then updates the button state from our position
+    const { accepted, lockoutRemainingMs } = await sendBuzz(teamId, deviceId);
+
+    if (lockoutRemainingMs !== null) {
+      // Buzzed before buzzers were armed: show the lockout until the server lifts it
+      if (lockoutTimerRef.current) {
+        clearTimeout(lockoutTimerRef.current);
+      }
+      setIsLockedOut(true);
+      lockoutTimerRef.current = setTimeout(() => {
+        setIsLockedOut(false);
+        lockoutTimerRef.current = null;
+      }, lockoutRemainingMs);
+      return;
+    }
+
+    if (!accepted && !useGameStore.getState().buzzQueue.some((buzz) => buzz.teamId === teamId)) {
+      const { currentQuestion: openQuestion, buzzersArmed: armed } = useGameStore.getState();
+      setBuzzButtonState(openQuestion ? (armed ? 'active' : 'ready') : 'waiting');
+    }
+  };
+
+  // Buzz on the tie-breaker clue; the broadcast state drives the button after that
+  const handleTieBreakerBuzz = async () => {
+    if (!teamId || !deviceId) {
+      logger.error('Cannot buzz: teamId or deviceId is not available', {
+        gameId,
+        teamId,
+        operation: 'handleTieBreakerBuzz',
+        page: 'StudentGamePage'
+      });
+      return;
+    }
 
-    // The buzz queue tracking effect will automatically update the button state
-    // based on the team's position in the queue
+    setIsTieBreakerBuzzing(true);
+    try {
+      await sendTieBreakerBuzz(teamId, deviceId);
+    } finally {
+      setIsTieBreakerBuzzing(false);
+    }
   };
 
   // Render loading state
@@ -436,6 +561,9 @@ export default function StudentGamePage() {
             </p>
             <p className="text-gray-600 mb-1">Final Score</p>
             <p className="text-5xl font-bold text-green-600">{team.score || 0}</p>
+            {tieBreaker?.winnerTeamId === teamId && (
+              <p className="mt-3 text-lg font-semibold text-amber-600">You won the tie-breaker!</p>
+            )}
           </div>
           <p className="text-gray-600">
             Thank you for playing!
@@ -456,7 +584,7 @@ export default function StudentGamePage() {
               <h1 className="text-3xl font-bold text-gray-900">
                 {team.team_name || `Team ${team.team_number}`}
               </h1>
-              <p className="text-gray-600 mt-1">Ready to play!</p>
+              <p className="text-gray-600 mt-1">{isCaptain ? 'Team captain · Ready to play!' : 'Ready to play!'}</p>
             </div>
             <div className="text-right">
               <p className="text-sm text-gray-600 mb-1">Current Score</p>
@@ -496,6 +624,11 @@ export default function StudentGamePage() {
                   <p className="text-green-700 text-lg font-semibold">Submitted!</p>
                   <p className="text-green-600 mt-1">Waiting for teacher to begin reveals…</p>
                 </div>
+              ) : !isCaptain ? (
+                <div className="bg-white rounded-lg shadow p-6 text-center">
+                  <p className="text-gray-900 text-lg font-semibold">Talk it over with your team</p>
+                  <p className="text-gray-600 mt-1">Your captain submits the team&apos;s wager and answer.</p>
+                </div>
               ) : (
                 <div className="bg-white rounded-lg shadow p-6 space-y-4">
                   <div>
@@ -552,32 +685,123 @@ export default function StudentGamePage() {
             </div>
           )}
 
-          {/* ── Regular Game ── */}
-          {currentPhase === 'regular' && (
-            <>
-              {/* Status Message */}
-              <div className="mb-8 text-center">
-                <h2 className="text-2xl font-bold text-gray-800 mb-2">
-                  {buzzButtonState === 'waiting' && 'Waiting for question...'}
-                  {buzzButtonState === 'active' && 'Ready to buzz in!'}
-                  {buzzButtonState === 'buzzed' && 'You buzzed in!'}
-                  {buzzButtonState === 'answering' && 'Your turn to answer!'}
-                </h2>
-                <p className="text-gray-600">
-                  {buzzButtonState === 'waiting' && 'The teacher will present the next question soon.'}
-                  {buzzButtonState === 'active' && 'Press the button when you know the answer!'}
-                  {buzzButtonState === 'buzzed' && 'Waiting for teacher to acknowledge...'}
-                  {buzzButtonState === 'answering' && 'Give your answer out loud to the teacher.'}
-                </p>
+          {/* ── Tie-Breaker ── */}
+          {currentPhase === 'tie_breaker' && tieBreaker && (
+            <div className="w-full max-w-md flex flex-col items-center text-center">
+              <div className="w-full bg-gradient-to-r from-rose-500 to-red-600 rounded-lg p-6 mb-4">
+                <p className="text-rose-100 text-sm font-semibold uppercase tracking-wide mb-1">Tie-Breaker</p>
+                <h2 className="text-3xl font-bold text-white">{tieBreaker.category}</h2>
               </div>
+              <div className="w-full bg-rose-50 border border-rose-200 rounded-lg p-4 mb-8">
+                <p className="text-gray-900 font-bold text-lg">{tieBreaker.question}</p>
+              </div>
+
+              {isTieBreakerTeam ? (
+                <>
+                  <div className="mb-8">
+                    <h2 className="text-2xl font-bold text-gray-800 mb-2">
+                      {tieBreakerButtonState === 'waiting' && 'Not quite!'}
+                      {tieBreakerButtonState === 'ready' && 'Listen to the question...'}
+                      {tieBreakerButtonState === 'active' && 'First correct answer wins!'}
+                      {tieBreakerButtonState === 'buzzed' && 'You buzzed in!'}
+                      {tieBreakerButtonState === 'answering' && 'Your turn to answer!'}
+                    </h2>
+                    <p className="text-gray-600">
+                      {tieBreakerButtonState === 'waiting' && 'The other tied teams may still answer.'}
+                      {tieBreakerButtonState === 'ready' && 'Buzzers open when the teacher finishes reading.'}
+                      {tieBreakerButtonState === 'active' && 'Press the button when you know the answer!'}
+                      {tieBreakerButtonState === 'buzzed' && 'Waiting for teacher to acknowledge...'}
+                      {tieBreakerButtonState === 'answering' && 'Give your answer out loud to the teacher.'}
+                    </p>
+                  </div>
+                  <BuzzButton
+                    state={tieBreakerButtonState}
+                    onBuzz={handleTieBreakerBuzz}
+                    size={300}
+                    queuePosition={tieBreakerPosition >= 0 ? tieBreakerPosition + 1 : null}
+                  />
+                </>
+              ) : (
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-gray-900 text-lg font-semibold">Tie-breaker in progress</p>
+                  <p className="text-gray-600 mt-1">The teams tied for first are playing for the win.</p>
+                </div>
+              )}
+            </div>
+          )}
 
-              {/* Buzz Button */}
-              <BuzzButton
-                state={buzzButtonState}
-                onBuzz={handleBuzz}
-                size={300}
-                queuePosition={queuePosition}
-              />
+          {/* ── Regular Game (either round) ── */}
+          {!isFinalJeopardyPhase(currentPhase) && currentPhase !== 'tie_breaker' && (
+            <>
+              {isAllPlay && currentQuestion ? (
+                <AllPlayAnswerPanel
+                  gameId={gameId}
+                  teamId={teamId}
+                  questionId={currentQuestion.id}
+                />
+              ) : (
+                <>
+                  {/* Status Message */}
+                  <div className="mb-8 text-center">
+                    <h2 className="text-2xl font-bold text-gray-800 mb-2">
+                      {buzzButtonState === 'waiting' && (isClueClosed
+                        ? 'No more answers'
+                        : hasAnsweredClue
+                          ? 'Not quite!'
+                          : 'Waiting for question...')}
+                      {buzzButtonState === 'active' && (activeSteal ? 'Buzz in to steal!' : 'Ready to buzz in!')}
+                      {buzzButtonState === 'ready' && 'Listen to the question...'}
+                      {buzzButtonState === 'locked' && 'Too early!'}
+                      {buzzButtonState === 'buzzed' && 'You buzzed in!'}
+                      {buzzButtonState === 'answering' && (activeSteal ? 'Your turn to steal!' : 'Your turn to answer!')}
+                    </h2>
+                    <p className="text-gray-600">
+                      {buzzButtonState === 'waiting' && (isClueClosed
+                        ? 'Nobody else can answer this question.'
+                        : hasAnsweredClue
+                          ? 'Other teams may now try to steal.'
+                          : 'The teacher will present the next question soon.')}
+                      {buzzButtonState === 'active' && 'Press the button when you know the answer!'}
+                      {buzzButtonState === 'ready' && 'Buzzers open when the teacher finishes reading.'}
+                      {buzzButtonState === 'locked' && 'You buzzed before buzzers opened. Wait a moment.'}
+                      {buzzButtonState === 'buzzed' && 'Waiting for teacher to acknowledge...'}
+                      {buzzButtonState === 'answering' && 'Give your answer out loud to the teacher.'}
+                    </p>
+                  </div>
+
+                  {/* Answer Clock — the teacher's board marks the attempt when it runs out */}
+                  {myAnswerClock && buzzButtonState === 'answering' && (
+                    <div className="mb-6 flex flex-col items-center" aria-label={ANSWER_CLOCK_LABELS.TITLE}>
+                      <p className="text-sm font-semibold uppercase tracking-wide text-gray-600 mb-2">
+                        {ANSWER_CLOCK_LABELS.YOUR_TURN}
+                      </p>
+                      <Timer
+                        key={`${myAnswerClock.questionId}-${myAnswerClock.teamId}`}
+                        duration={myAnswerClock.seconds}
+                        enabled={true}
+                        autoStart={true}
+                      />
+                    </div>
+                  )}
+
+                  {/* Buzz Button */}
+                  <BuzzButton
+                    state={buzzButtonState}
+                    onBuzz={handleBuzz}
+                    size={300}
+                    queuePosition={queuePosition}
+                    buzzDeltaMs={buzzDeltaMs}
+                  />
+                </>
+              )}
+
+              {/* Hint Banner */}
+              {revealedHint && currentQuestion && !revealedAnswer && (
+                <div data-testid="hint-banner" className="mt-6 w-full max-w-md bg-sky-900/80 border border-sky-400 rounded-lg p-4 text-center">
+                  <p className="text-sky-200 text-sm font-semibold uppercase tracking-wide">{HINT_LABELS.TITLE}</p>
+                  <p className="text-white text-xl font-semibold mt-1">{revealedHint}</p>
+                </div>
+              )}
 
               {/* Answer Reveal Banner */}
               {revealedAnswer && (
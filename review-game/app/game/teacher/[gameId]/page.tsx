@@ -10,7 +10,12 @@ import GameHeader from '@/components/teacher/GameHeader';
 import EndGameModal from '@/components/teacher/EndGameModal';
 import GameBreadcrumb from '@/components/teacher/GameBreadcrumb';
 import TeamCountMismatchModal from '@/components/teacher/TeamCountMismatchModal';
+import ScoreLedgerPanel from '@/components/teacher/ScoreLedgerPanel';
+import TeamDeviceModal from '@/components/teacher/TeamDeviceModal';
 import Toast from '@/components/ui/Toast';
+import { PresenceBadge } from '@/components/game/PresenceBadge';
+import { isApprovedTeam } from '@/lib/utils/presence';
+import { formatJoinCode } from '@/lib/utils/joinCode';
 import { logger } from '@/lib/logger';
 
 type Game = Tables<'games'>;
@@ -36,6 +41,7 @@ export default function TeacherControlPage() {
   // Modal and toast state
   const [showEndGameModal, setShowEndGameModal] = useState(false);
   const [showTeamCountModal, setShowTeamCountModal] = useState(false);
+  const [deviceTeam, setDeviceTeam] = useState<Team | null>(null);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [toastType, setToastType] = useState<'success' | 'error'>('success');
@@ -46,12 +52,12 @@ export default function TeacherControlPage() {
     : '';
 
   // Derived state for header (must be before useEffects that use them)
-  const hasConnectedTeams = teams.some(t => t.connection_status === 'connected');
+  const hasConnectedTeams = teams.some(t => isApprovedTeam(t.connection_status));
   const gameTitle = game?.question_banks?.title ?? 'Untitled Game';
 
   // Get count of teams by status
   const pendingCount = teams.filter(t => t.connection_status === 'pending').length;
-  const connectedCount = teams.filter(t => t.connection_status === 'connected').length;
+  const connectedCount = teams.filter(t => isApprovedTeam(t.connection_status)).length;
 
   // Ref to track connected teams state for beforeunload handler
   // This prevents stale closures and avoids re-registering the listener
@@ -163,6 +169,16 @@ export default function TeacherControlPage() {
             gameId,
           });
 
+          // Heartbeats update last_seen every few seconds; apply updates
+          // in place rather than refetching every team
+          if (payload.eventType === 'UPDATE') {
+            const updatedTeam = payload.new as Team;
+            setTeams((prevTeams) =>
+              prevTeams.map((t) => (t.id === updatedTeam.id ? updatedTeam : t))
+            );
+            return;
+          }
+
           // Refetch teams to get updated data
           const { data: teamsData } = await supabase
             .from('teams')
@@ -232,7 +248,7 @@ export default function TeacherControlPage() {
       return;
     }
 
-    if (team.connection_status === 'connected') {
+    if (isApprovedTeam(team.connection_status)) {
       showError('Team is already approved');
       return;
     }
@@ -328,22 +344,17 @@ export default function TeacherControlPage() {
     if (!game) return;
 
     try {
-      // Update game status to 'active' and set started_at timestamp
-      const { error: updateError } = await supabase
-        .from('games')
-        .update({
-          status: 'active',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', gameId);
+      // Set status to 'active'; random Daily Doubles are placed now
+      const response = await fetch(`/api/games/${gameId}/start`, { method: 'POST' });
+      const data = await response.json();
 
-      if (updateError) throw updateError;
+      if (!response.ok) throw new Error(data.error || 'Failed to start game');
 
       // Update local game state
       setGame({
         ...game,
         status: 'active',
-        started_at: new Date().toISOString()
+        started_at: data.started_at,
       });
 
       showSuccess('Game started successfully!');
@@ -490,6 +501,18 @@ export default function TeacherControlPage() {
                   />
                 </div>
 
+                {game.join_code && (
+                  <div className="mb-4">
+                    <p className="text-sm text-gray-600">
+                      Or enter this code at{' '}
+                      <span className="font-mono">{typeof window !== 'undefined' ? window.location.host : ''}/join</span>
+                    </p>
+                    <p className="text-4xl font-bold font-mono tracking-widest text-gray-900">
+                      {formatJoinCode(game.join_code)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Join URL:
@@ -522,7 +545,7 @@ export default function TeacherControlPage() {
                 </div>
 
                 <p className="text-sm text-gray-600">
-                  Students can scan the QR code or visit the URL to join the game
+                  Students can scan the QR code, enter the code at /join, or visit the URL to join the game
                 </p>
               </div>
             </div>
@@ -562,7 +585,7 @@ export default function TeacherControlPage() {
                     <div
                       key={team.id}
                       className={`border rounded-lg p-4 ${
-                        team.connection_status === 'connected'
+                        isApprovedTeam(team.connection_status)
                           ? 'border-green-200 bg-green-50'
                           : 'border-yellow-200 bg-yellow-50'
                       }`}
@@ -576,18 +599,25 @@ export default function TeacherControlPage() {
                             Status:{' '}
                             <span
                               className={`font-medium ${
-                                team.connection_status === 'connected'
+                                isApprovedTeam(team.connection_status)
                                   ? 'text-green-600'
                                   : 'text-yellow-600'
                               }`}
                             >
-                              {team.connection_status === 'connected' ? 'Approved' : 'Pending'}
+                              {isApprovedTeam(team.connection_status) ? 'Approved' : 'Pending'}
                             </span>
                           </p>
+                          <PresenceBadge lastSeen={team.last_seen} />
                         </div>
 
                         {team.connection_status === 'pending' && (
                           <div className="flex gap-2">
+                            <button
+                              onClick={() => setDeviceTeam(team)}
+                              className="px-3 py-1 border border-gray-300 bg-white text-gray-700 rounded hover:bg-gray-50 text-sm font-medium"
+                            >
+                              Devices
+                            </button>
                             <button
                               onClick={() => handleApproveTeam(team.id)}
                               className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-sm font-medium"
@@ -603,13 +633,21 @@ export default function TeacherControlPage() {
                           </div>
                         )}
 
-                        {team.connection_status === 'connected' && (
-                          <button
-                            onClick={() => handleRejectTeam(team.id)}
-                            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm font-medium"
-                          >
-                            Remove
-                          </button>
+                        {isApprovedTeam(team.connection_status) && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setDeviceTeam(team)}
+                              className="px-3 py-1 border border-gray-300 bg-white text-gray-700 rounded hover:bg-gray-50 text-sm font-medium"
+                            >
+                              Devices
+                            </button>
+                            <button
+                              onClick={() => handleRejectTeam(team.id)}
+                              className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm font-medium"
+                            >
+                              Remove
+                            </button>
+                          </div>
                         )}
                       </div>
                     </div>
@@ -618,6 +656,16 @@ export default function TeacherControlPage() {
               )}
             </div>
 
+            {/* Score History with undo/redo and manual adjustments */}
+            {(game.status === 'active' || game.status === 'completed') && (
+              <ScoreLedgerPanel
+                gameId={gameId}
+                teams={teams}
+                onError={showError}
+                onSuccess={showSuccess}
+              />
+            )}
+
             {/* Start Game Button / Game Status */}
             <div className="bg-white rounded-lg shadow-sm p-6">
               {game.status === 'active' ? (
@@ -681,6 +729,14 @@ export default function TeacherControlPage() {
         actualTeams={teams.length}
       />
 
+      {/* Lost-device recovery for a team */}
+      <TeamDeviceModal
+        gameId={gameId}
+        team={deviceTeam}
+        onClose={() => setDeviceTeam(null)}
+        onSuccess={showSuccess}
+      />
+
       {/* Toast Notification */}
       {showToast && (
         <Toast
@@ -5,6 +5,14 @@ import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { getDeviceId } from '@/hooks/useDeviceId';
 import { logger } from '@/lib/logger';
+import { TEAM_MEMBERS } from '@/lib/constants/game';
+import { normalizeRejoinCode, validateDisplayName } from '@/lib/utils/teamMembers';
+
+interface JoinableTeam {
+  id: string;
+  team_name: string | null;
+  team_number: number;
+}
 
 interface JoinPageProps {
   params: Promise<{
@@ -19,9 +27,10 @@ interface JoinPageProps {
  * Implements specifications from Phase 8, Section 8.1.
  *
  * Features:
- * - Validates game exists and is not full
+ * - Validates game exists and has room for a new team or an existing one
+ * - Asks for the student's display name
+ * - Starts a new team (this device becomes captain) or joins an existing team
  * - Generates unique device ID
- * - Creates team record with pending status
  * - Stores device ID in localStorage
  * - Redirects to waiting room
  *
@@ -33,6 +42,16 @@ export default function JoinGamePage({ params }: JoinPageProps) {
   const [isValidating, setIsValidating] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [gameInfo, setGameInfo] = useState<{ title: string } | null>(null);
+  const [displayName, setDisplayName] = useState('');
+  const [displayNameError, setDisplayNameError] = useState<string | null>(null);
+  const [teams, setTeams] = useState<JoinableTeam[]>([]);
+  const [canStartTeam, setCanStartTeam] = useState(true);
+  // 'new' starts a team; otherwise the ID of the team to join
+  const [selectedTeam, setSelectedTeam] = useState<string>('new');
+  // Rejoin code from the teacher after a lost device
+  const [showRejoin, setShowRejoin] = useState(false);
+  const [rejoinCode, setRejoinCode] = useState('');
+  const [rejoinError, setRejoinError] = useState<string | null>(null);
   const { gameId } = use(params);
 
   // Validate gameId on mount
@@ -66,15 +85,16 @@ export default function JoinGamePage({ params }: JoinPageProps) {
           return;
         }
 
-        // Count existing teams to check if game is full
-        const { count, error: countError } = await supabase
+        // Load existing teams: students may join one or start a new team
+        const { data: existingTeams, error: teamsError } = await supabase
           .from('teams')
-          .select('*', { count: 'exact', head: true })
-          .eq('game_id', gameId);
+          .select('id, team_name, team_number, connection_status')
+          .eq('game_id', gameId)
+          .order('team_number', { ascending: true });
 
-        if (countError) {
-          logger.error('Error counting teams', {
-            error: countError.message,
+        if (teamsError) {
+          logger.error('Error loading teams', {
+            error: teamsError.message,
             gameId,
             operation: 'validateGame',
             page: 'JoinGamePage'
@@ -84,12 +104,21 @@ export default function JoinGamePage({ params }: JoinPageProps) {
           return;
         }
 
-        if (count !== null && count >= game.num_teams) {
+        const joinableTeams = (existingTeams ?? []).filter((team) => team.connection_status !== 'rejected');
+        const hasRoomForTeam = (existingTeams ?? []).length < game.num_teams;
+
+        if (!hasRoomForTeam && joinableTeams.length === 0) {
           setError(`This game is full (${game.num_teams} teams maximum).`);
           setIsValidating(false);
           return;
         }
 
+        setTeams(joinableTeams);
+        setCanStartTeam(hasRoomForTeam);
+        if (!hasRoomForTeam) {
+          setSelectedTeam(joinableTeams[0].id);
+        }
+
         // Set game info for display
         const questionBank = game.question_banks as unknown as { title: string } | null;
         setGameInfo({
@@ -113,9 +142,15 @@ export default function JoinGamePage({ params }: JoinPageProps) {
 
   /**
    * Handles the join game process
-   * Creates a team record and redirects to waiting room
+   * Starts or joins a team and redirects to waiting room
    */
   const handleJoinGame = async () => {
+    const nameError = validateDisplayName(displayName);
+    if (nameError) {
+      setDisplayNameError(nameError);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -152,6 +187,28 @@ export default function JoinGamePage({ params }: JoinPageProps) {
         return;
       }
 
+      // Joining an existing team goes through the members API, which adds
+      // this device alongside the team's other members
+      if (selectedTeam !== 'new') {
+        const response = await fetch(`/api/games/${gameId}/teams/${selectedTeam}/members`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ deviceId, displayName: displayName.trim() }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to join team. Please try again.');
+        }
+
+        if (data.connectionStatus === 'connected') {
+          router.push(`/game/student/${gameId}/${data.teamId}`);
+        } else {
+          router.push(`/game/team/waiting/${data.teamId}`);
+        }
+        return;
+      }
+
       // Atomically assign a team slot and insert the record.
       // The database function locks the game row, enforces capacity, assigns the
       // next sequential team_number, resolves the configured team name, and inserts
@@ -159,6 +216,7 @@ export default function JoinGamePage({ params }: JoinPageProps) {
       const { data: rpcResult, error: rpcError } = await supabase.rpc('join_game_atomic', {
         p_game_id: gameId,
         p_device_id: deviceId,
+        p_display_name: displayName.trim(),
       });
 
       if (rpcError) {
@@ -183,7 +241,7 @@ export default function JoinGamePage({ params }: JoinPageProps) {
           throw new Error('Game not found. The link may be invalid or the game was deleted.');
         }
         if (result.error_code === 'game_full') {
-          throw new Error('This game is now full. Please ask your teacher for help.');
+          throw new Error('No more teams can be started. Join an existing team instead.');
         }
         if (result.error_code === 'game_completed') {
           throw new Error('This game has already ended.');
@@ -218,6 +276,57 @@ export default function JoinGamePage({ params }: JoinPageProps) {
     }
   };
 
+  /**
+   * Reclaims a released team with the rejoin code from the teacher
+   * and redirects to the team's waiting room or game
+   */
+  const handleRejoin = async () => {
+    const code = normalizeRejoinCode(rejoinCode);
+    if (!code) {
+      setRejoinError('Rejoin codes are 6 letters and numbers');
+      return;
+    }
+
+    const deviceId = getDeviceId();
+    if (!deviceId) {
+      setRejoinError('Unable to generate a device ID. Please check your browser settings and try again.');
+      return;
+    }
+
+    setIsLoading(true);
+    setRejoinError(null);
+
+    try {
+      const response = await fetch(`/api/games/${gameId}/teams/rejoin`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deviceId, code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setRejoinError(data.error || 'Failed to rejoin team. Please try again.');
+        setIsLoading(false);
+        return;
+      }
+
+      if (data.connectionStatus === 'connected') {
+        router.push(`/game/student/${gameId}/${data.teamId}`);
+      } else {
+        router.push(`/game/team/waiting/${data.teamId}`);
+      }
+    } catch (err) {
+      logger.error('Error rejoining team', {
+        error: err instanceof Error ? err.message : String(err),
+        gameId,
+        operation: 'rejoinTeam',
+        page: 'JoinGamePage'
+      });
+      setRejoinError('Failed to rejoin team. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-blue-100 flex items-center justify-center p-4">
       <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
@@ -276,6 +385,72 @@ export default function JoinGamePage({ params }: JoinPageProps) {
           </div>
         )}
 
+        {/* Display Name and Team Choice */}
+        {!isValidating && gameInfo && (
+          <div className="mb-8 space-y-4">
+            <div>
+              <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 mb-1">
+                Your Name
+              </label>
+              <input
+                id="displayName"
+                type="text"
+                value={displayName}
+                onChange={(e) => {
+                  setDisplayName(e.target.value);
+                  setDisplayNameError(null);
+                }}
+                maxLength={TEAM_MEMBERS.DISPLAY_NAME_MAX_LENGTH}
+                placeholder="First name"
+                autoComplete="off"
+                aria-invalid={!!displayNameError}
+                aria-describedby={displayNameError ? 'displayNameError' : undefined}
+                className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg text-lg focus:border-blue-500 focus:outline-none"
+              />
+              {displayNameError && (
+                <p id="displayNameError" className="mt-1 text-sm text-red-600" role="alert">{displayNameError}</p>
+              )}
+            </div>
+
+            {teams.length > 0 && (
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-2">Team</legend>
+                <div className="space-y-2">
+                  {canStartTeam && (
+                    <label className="flex items-center p-3 border-2 rounded-lg cursor-pointer has-[:checked]:border-blue-500 has-[:checked]:bg-blue-50">
+                      <input
+                        type="radio"
+                        name="team"
+                        value="new"
+                        checked={selectedTeam === 'new'}
+                        onChange={() => setSelectedTeam('new')}
+                        className="h-4 w-4 text-blue-600"
+                      />
+                      <span className="ml-3 text-gray-900">Start a new team <span className="text-gray-500">(you&apos;ll be captain)</span></span>
+                    </label>
+                  )}
+                  {teams.map((team) => (
+                    <label
+                      key={team.id}
+                      className="flex items-center p-3 border-2 rounded-lg cursor-pointer has-[:checked]:border-blue-500 has-[:checked]:bg-blue-50"
+                    >
+                      <input
+                        type="radio"
+                        name="team"
+                        value={team.id}
+                        checked={selectedTeam === team.id}
+                        onChange={() => setSelectedTeam(team.id)}
+                        className="h-4 w-4 text-blue-600"
+                      />
+                      <span className="ml-3 text-gray-900">Join {team.team_name || `Team ${team.team_number}`}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
+          </div>
+        )}
+
         {/* Join Button */}
         <button
           onClick={handleJoinGame}
@@ -341,10 +516,58 @@ export default function JoinGamePage({ params }: JoinPageProps) {
           )}
         </button>
 
+        {/* Lost-device recovery */}
+        {!isValidating && gameInfo && (
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            {showRejoin ? (
+              <div>
+                <label htmlFor="rejoinCode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Rejoin code from your teacher
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="rejoinCode"
+                    type="text"
+                    value={rejoinCode}
+                    onChange={(e) => {
+                      setRejoinCode(e.target.value);
+                      setRejoinError(null);
+                    }}
+                    maxLength={8}
+                    placeholder="ABC123"
+                    autoComplete="off"
+                    autoCapitalize="characters"
+                    aria-invalid={!!rejoinError}
+                    aria-describedby={rejoinError ? 'rejoinError' : undefined}
+                    className="flex-1 min-w-0 px-4 py-2 border-2 border-gray-300 rounded-lg text-lg font-mono uppercase tracking-widest focus:border-blue-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={handleRejoin}
+                    disabled={isLoading || !rejoinCode.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Rejoin
+                  </button>
+                </div>
+                {rejoinError && (
+                  <p id="rejoinError" className="mt-1 text-sm text-red-600" role="alert">{rejoinError}</p>
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowRejoin(true)}
+                className="w-full text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                New device? Rejoin your team with a code from your teacher
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Footer Info */}
         <div className="mt-6 text-center text-xs text-gray-500">
-          <p>Your device will be assigned a team number</p>
-          <p className="mt-1">after your teacher approves it</p>
+          <p>Up to {TEAM_MEMBERS.MAX_PER_TEAM} devices can play for one team</p>
+          <p className="mt-1">The captain submits wagers and Final Jeopardy answers</p>
         </div>
       </div>
     </div>
@@ -4,6 +4,9 @@ import { useState, useEffect, use } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import type { Database } from '@/types/database.types';
+import type { TeamMember } from '@/types/game';
+import { getDeviceId } from '@/hooks/useDeviceId';
+import { usePresenceHeartbeat } from '@/hooks/usePresenceHeartbeat';
 import { logger } from '@/lib/logger';
 
 type Team = Database['public']['Tables']['teams']['Row'];
@@ -25,6 +28,9 @@ interface WaitingRoomProps {
  * - Subscribes to team status changes via Supabase Realtime
  * - Auto-redirects when approved
  * - Handles rejection with error message
+ * - Lists the team's members and its captain as classmates join
+ * - Sends presence heartbeats; a disconnected team is reconnected by its
+ *   first heartbeat and redirected back to the game
  *
  * @param params - Contains the teamId from the URL
  */
@@ -32,8 +38,15 @@ export default function WaitingRoomPage({ params }: WaitingRoomProps) {
   const router = useRouter();
   const [team, setTeam] = useState<Team | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
   const { teamId } = use(params);
 
+  usePresenceHeartbeat(
+    team?.game_id,
+    teamId,
+    !error && (team?.connection_status === 'pending' || team?.connection_status === 'disconnected')
+  );
+
   useEffect(() => {
     const supabase = createClient();
 
@@ -101,7 +114,7 @@ export default function WaitingRoomPage({ params }: WaitingRoomProps) {
     };
   }, [teamId, router]);
 
-  // Update last_seen timestamp periodically
+  // Refresh the member list periodically
   // Only run when team is in pending state to avoid memory leaks
   useEffect(() => {
     // Don't run interval if team is not pending or if there's an error
@@ -109,31 +122,33 @@ export default function WaitingRoomPage({ params }: WaitingRoomProps) {
       return;
     }
 
-    const supabase = createClient();
-
-    const updateLastSeen = async () => {
-      const { error: updateError } = await supabase
-        .from('teams')
-        .update({ last_seen: new Date().toISOString() })
-        .eq('id', teamId);
+    // Classmates may join the team while it waits for approval
+    const loadMembers = async () => {
+      try {
+        const deviceId = getDeviceId();
+        const response = await fetch(`/api/games/${team.game_id}/teams/${teamId}/members`, {
+          cache: 'no-store',
+          headers: deviceId ? { 'X-Device-ID': deviceId } : undefined,
+        });
+        if (!response.ok) return;
 
-      if (updateError) {
-        logger.error('Failed to update last_seen timestamp', {
-          error: updateError.message,
+        const data: { members: TeamMember[] } = await response.json();
+        setMembers(data.members);
+      } catch (err) {
+        logger.error('Failed to load team members', {
+          error: err instanceof Error ? err.message : String(err),
           teamId,
-          operation: 'updateLastSeen',
+          operation: 'loadMembers',
           page: 'WaitingRoomPage'
         });
-        // Don't show error to user as this is a background operation
-        // Teacher will see stale last_seen timestamp if this fails repeatedly
       }
     };
 
     // Update immediately
-    updateLastSeen();
+    loadMembers();
 
     // Update every 10 seconds
-    const interval = setInterval(updateLastSeen, 10000);
+    const interval = setInterval(loadMembers, 10000);
 
     return () => clearInterval(interval);
   }, [teamId, team, error]);
@@ -195,6 +210,30 @@ export default function WaitingRoomPage({ params }: WaitingRoomProps) {
               )}
             </div>
 
+            {/* Team Members */}
+            {members.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                <h2 className="text-sm font-semibold text-gray-900 mb-2">
+                  👥 Team members ({members.length})
+                </h2>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {members.map((member) => (
+                    <li key={member.id} className="flex items-center justify-between">
+                      <span>
+                        {member.displayName}
+                        {member.isYou && <span className="text-gray-500"> (you)</span>}
+                      </span>
+                      {member.isCaptain && (
+                        <span className="px-2 py-0.5 bg-yellow-200 text-yellow-900 text-xs font-semibold rounded">
+                          Captain
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Instructions */}
             <div className="bg-blue-50 rounded-lg p-6 mb-6">
               <h2 className="text-sm font-semibold text-blue-900 mb-3">
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { logger } from '@/lib/logger';
+import { JOIN_CODE } from '@/lib/constants/game';
+import { normalizeJoinCode } from '@/lib/utils/joinCode';
+
+/**
+ * Join by Code Page
+ *
+ * Lets students join a game by typing the 6-digit code shown by their
+ * teacher, for devices that cannot scan the QR code off a projector.
+ *
+ * Features:
+ * - Numeric keypad input; spaces and dashes are ignored
+ * - Looks the code up with POST /api/games/join-code
+ * - Redirects to the team join page for Jeopardy games or the Quick Fire
+ *   player page for pub trivia games
+ */
+export default function JoinByCodePage() {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const joinCode = normalizeJoinCode(code);
+    if (!joinCode) {
+      setError(`Enter the ${JOIN_CODE.LENGTH}-digit code shown by your teacher`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/games/join-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: joinCode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Unable to find that game. Please try again.');
+        setIsLoading(false);
+        return;
+      }
+
+      router.push(data.joinPath);
+    } catch (err) {
+      logger.error('Error looking up join code', {
+        error: err instanceof Error ? err.message : String(err),
+        operation: 'handleSubmit',
+        page: 'JoinByCodePage',
+      });
+      setError('An unexpected error occurred. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-blue-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Join Game
+          </h1>
+          <p className="text-lg text-gray-600">
+            Enter the code on your teacher&apos;s screen
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} noValidate>
+          <label htmlFor="joinCode" className="sr-only">
+            Game code
+          </label>
+          <input
+            id="joinCode"
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setError(null);
+            }}
+            // Room for a separator such as "123 456"
+            maxLength={JOIN_CODE.LENGTH + 1}
+            placeholder="123 456"
+            aria-invalid={!!error}
+            aria-describedby={error ? 'joinCodeError' : undefined}
+            className="w-full px-4 py-4 border-2 border-gray-300 rounded-lg text-center text-4xl font-mono tracking-widest focus:border-blue-500 focus:outline-none"
+          />
+          {error && (
+            <p id="joinCodeError" className="mt-2 text-sm text-red-600 text-center" role="alert">
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className={`
+              mt-6 w-full py-4 px-6 rounded-xl text-lg font-bold text-white
+              transition-all duration-200 transform
+              ${
+                isLoading
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-blue-600 hover:bg-blue-700 active:scale-95 shadow-lg hover:shadow-xl'
+              }
+            `}
+          >
+            {isLoading ? 'Finding game...' : 'Continue'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -39,6 +39,12 @@ export default function Home() {
             <p className="mt-4 text-sm text-gray-500">
               No credit card required &bull; Free plan available
             </p>
+            <p className="mt-2 text-sm text-gray-500">
+              Student?{' '}
+              <Link href="/join" className="font-medium text-blue-600 hover:text-blue-700">
+                Join a game with a code
+              </Link>
+            </p>
           </div>
         </section>
 
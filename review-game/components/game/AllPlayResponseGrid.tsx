@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Teacher grid for marking all-play written responses.
+ *
+ * Shown inside QuestionModal in place of the buzz queue when a clue is played
+ * all-play. Lists every team with its submitted answer and the answer
+ * matcher's suggestion; the teacher marks each one correct (awarding the
+ * clue's value, reduced if its hint was revealed) or incorrect (no change),
+ * then finishes the clue.
+ *
+ * @module components/game/AllPlayResponseGrid
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+import { useGameStore } from '@/lib/stores/gameStore';
+import { logger } from '@/lib/logger';
+import { ALL_PLAY_LABELS, BUTTON_TEXT } from '@/lib/constants/ui';
+import AnswerMatchBadge from '@/components/teacher/AnswerMatchBadge';
+import type { AllPlayResponse, Question } from '@/types/game';
+
+interface AllPlayResponseGridProps {
+  gameId: string;
+  question: Question;
+  // Points for a correct response; the clue's value less any hint penalty
+  points: number;
+  onFinish: () => void;
+  isFinishing: boolean;
+}
+
+export default function AllPlayResponseGrid({
+  gameId,
+  question,
+  points,
+  onFinish,
+  isFinishing,
+}: AllPlayResponseGridProps) {
+  const { allTeams, allPlay } = useGameStore();
+
+  const [responses, setResponses] = useState<Record<string, AllPlayResponse>>({});
+  const [markingTeamId, setMarkingTeamId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submittedCount = allPlay?.submittedTeamIds.length ?? 0;
+
+  // Reload the answers whenever another team submits; the broadcast only
+  // carries the team ID so answers never reach student devices
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadResponses = async () => {
+      try {
+        const params = new URLSearchParams({ questionId: question.id });
+        const response = await fetch(`/api/games/${gameId}/all-play?${params.toString()}`, { cache: 'no-store' });
+        if (!response.ok) {
+          logger.warn('Failed to load all-play responses', {
+            gameId,
+            questionId: question.id,
+            status: response.status,
+            operation: 'loadAllPlayResponses',
+          });
+          return;
+        }
+
+        const data: { responses: AllPlayResponse[] } = await response.json();
+        if (cancelled) return;
+        setResponses(Object.fromEntries(data.responses.map((r) => [r.teamId, r])));
+      } catch (err) {
+        logger.error('Exception while loading all-play responses', err, {
+          gameId,
+          questionId: question.id,
+          operation: 'loadAllPlayResponses',
+        });
+      }
+    };
+
+    void loadResponses();
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, question.id, submittedCount]);
+
+  const handleMark = useCallback(async (teamId: string, isCorrect: boolean) => {
+    setMarkingTeamId(teamId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/games/${gameId}/all-play/judge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId, questionId: question.id, isCorrect, points }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to mark response');
+        return;
+      }
+
+      setResponses((prev) => ({
+        ...prev,
+        [teamId]: { ...prev[teamId], isCorrect },
+      }));
+    } catch (err) {
+      logger.error('Failed to mark all-play response', err, {
+        gameId,
+        teamId,
+        questionId: question.id,
+        operation: 'markAllPlayResponse',
+      });
+      setError('Failed to mark response. Please try again.');
+    } finally {
+      setMarkingTeamId(null);
+    }
+  }, [gameId, question.id, points]);
+
+  const markedCount = Object.values(responses).filter((r) => r.isCorrect !== null).length;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-white">{ALL_PLAY_LABELS.TITLE}</h3>
+        <span className="text-sm text-gray-300">
+          {submittedCount} / {allTeams.length} submitted · {markedCount} marked
+        </span>
+      </div>
+
+      <p className="text-yellow-400 text-sm mb-4 flex items-center gap-2">
+        <span aria-hidden="true">💡</span>
+        <span>{submittedCount === 0 ? ALL_PLAY_LABELS.WAITING_FOR_RESPONSES : ALL_PLAY_LABELS.HINT}</span>
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2" role="list" aria-label="Team responses">
+        {allTeams.map((team) => {
+          const response = responses[team.id];
+          const isMarked = response?.isCorrect !== null && response?.isCorrect !== undefined;
+
+          return (
+            <div
+              key={team.id}
+              role="listitem"
+              className={`rounded-lg border-2 p-4 ${
+                !isMarked
+                  ? 'border-gray-600 bg-gray-700'
+                  : response.isCorrect
+                  ? 'border-green-500 bg-green-900/40'
+                  : 'border-red-500 bg-red-900/40'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-bold text-white">{team.name}</span>
+                {isMarked && (response.isCorrect
+                  ? <CheckCircleIcon className="h-6 w-6 text-green-400" aria-label="Correct" />
+                  : <XCircleIcon className="h-6 w-6 text-red-400" aria-label="Incorrect" />)}
+              </div>
+              <p className={`mb-3 break-words ${response ? 'text-white' : 'text-gray-400 italic'}`}>
+                {response?.answer ?? ALL_PLAY_LABELS.NO_RESPONSE}
+              </p>
+              {response && !isMarked && (
+                <>
+                  <div className="mb-3">
+                    <AnswerMatchBadge match={response.match} />
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleMark(team.id, true)}
+                      disabled={markingTeamId !== null || isFinishing}
+                      className="flex-1 rounded bg-green-600 px-3 py-2 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Mark ${team.name} as correct and award ${points} points`}
+                    >
+                      {BUTTON_TEXT.CORRECT}
+                    </button>
+                    <button
+                      onClick={() => handleMark(team.id, false)}
+                      disabled={markingTeamId !== null || isFinishing}
+                      className="flex-1 rounded bg-red-600 px-3 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Mark ${team.name} as incorrect`}
+                    >
+                      {BUTTON_TEXT.INCORRECT}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-400" role="alert">{error}</p>
+      )}
+
+      <button
+        onClick={onFinish}
+        disabled={markingTeamId !== null || isFinishing}
+        aria-disabled={markingTeamId !== null || isFinishing}
+        className="mt-6 w-full py-4 px-6 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold text-xl rounded-lg shadow-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+      >
+        {isFinishing ? BUTTON_TEXT.PROCESSING : ALL_PLAY_LABELS.FINISH}
+      </button>
+    </div>
+  );
+}
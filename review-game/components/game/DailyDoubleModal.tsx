@@ -3,7 +3,8 @@
  *
  * This component handles the special Daily Double question flow:
  * - Team selection (highest scorer or current controller)
- * - Wager amount selection with validation
+ * - Wager amount selection within the game's wager rules, checked again by
+ *   POST /api/games/[gameId]/daily-double/wager
  * - Question reveal after wager submission
  * - Score updates based on correct/incorrect answer with wager multiplier
  * - Database synchronization for scores
@@ -20,8 +21,13 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useGameStore } from '../../lib/stores/gameStore';
 import { createClient } from '@/lib/supabase/client';
 import { logger } from '@/lib/logger';
-import { BUTTON_TEXT } from '@/lib/constants/ui';
+import { BUTTON_TEXT, DAILY_DOUBLE_WAGER_LABELS } from '@/lib/constants/ui';
 import { isSafeImageUrl } from '@/lib/utils/url';
+import {
+  DEFAULT_DAILY_DOUBLE_WAGER_RULES,
+  getDailyDoubleWagerRange,
+  validateDailyDoubleWager,
+} from '@/lib/utils/dailyDoubleWager';
 import ImageModal from '@/components/ui/ImageModal';
 
 /**
@@ -36,18 +42,6 @@ interface DailyDoubleModalProps {
   onQuestionClose?: () => void;
 }
 
-/**
- * Maximum wager amount allowed for Daily Doubles.
- * @constant {number}
- */
-const DAILY_DOUBLE_MAX_WAGER = 1000;
-
-/**
- * Minimum wager amount required for Daily Doubles.
- * @constant {number}
- */
-const DAILY_DOUBLE_MIN_WAGER = 5;
-
 /**
  * DailyDoubleModal component for managing Daily Double questions and wagers.
  *
@@ -56,9 +50,12 @@ const DAILY_DOUBLE_MIN_WAGER = 5;
  * **Phase 1 - Wager Selection:**
  * - Displays controlling team (highest scorer or selected team)
  * - Shows wager input with validation
- * - Validates wager against min/max bounds
- * - Max wager is the higher of: team's score or 1000 points
- * - Min wager is 5 points
+ * - Validates wager against the game's wager rules
+ * - Max wager is the higher of: team's score or the game's cap (the highest
+ *   clue value on the board under TV rules)
+ * - A team below zero plays for the clue value unless the game allows it to wager
+ * - "True Daily Double" wagers the whole allowed maximum
+ * - The wager is recorded on the server before the question is revealed
  *
  * **Phase 2 - Question Display:**
  * - Reveals question text after wager is submitted
@@ -96,6 +93,7 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
     setControllingTeam,
     clearWager,
     markQuestionUsed,
+    currentGameData,
   } = useGameStore();
 
   const [isProcessing, setIsProcessing] = useState(false);
@@ -129,12 +127,15 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
     };
   }, []);
 
-  // Reset wager state when modal opens
+  // Reset wager state when modal opens, unless a submitted wager was
+  // restored after a board refresh
   useEffect(() => {
     if (isOpen) {
       setWagerInput('');
       setWagerError(null);
-      clearWager();
+      if (!useGameStore.getState().isWagerSubmitted) {
+        clearWager();
+      }
     }
   }, [isOpen, clearWager]);
 
@@ -144,54 +145,37 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
     setImgError(false);
   }, [currentQuestion?.id]);
 
-  /**
-   * Calculates the maximum wager allowed for the controlling team.
-   *
-   * The max wager is the higher of:
-   * - The team's current score
-   * - The fixed maximum (1000 points)
-   *
-   * This ensures teams can always make meaningful wagers even with low scores.
-   *
-   * @returns {number} The maximum wager amount
-   */
-  const getMaxWager = useCallback(() => {
-    if (!controllingTeamId) return DAILY_DOUBLE_MAX_WAGER;
+  const wagerRules = currentGameData?.dailyDoubleWagerRules ?? DEFAULT_DAILY_DOUBLE_WAGER_RULES;
 
-    const team = allTeams.find(t => t.id === controllingTeamId);
-    const teamScore = team?.score || 0;
-
-    // Max wager is the higher of team's score or the fixed maximum
-    return Math.max(teamScore, DAILY_DOUBLE_MAX_WAGER);
-  }, [controllingTeamId, allTeams]);
+  // Highest clue value on the current round's board, the cap under TV rules
+  const highestBoardValue = useMemo(() => {
+    const values = (currentGameData?.categories ?? []).flatMap(
+      (category) => category.questions.map((question) => question.value)
+    );
+    return values.length > 0 ? Math.max(...values) : currentQuestion?.value ?? 0;
+  }, [currentGameData?.categories, currentQuestion?.value]);
 
   /**
-   * Validates a wager amount against the min and max constraints.
-   *
-   * @param {number} amount - The wager amount to validate
-   * @returns {string | null} Error message if invalid, null if valid
+   * The controlling team's allowed wagers under the game's wager rules.
+   * The server works the range out the same way when the wager is submitted.
    */
-  const validateWager = useCallback((amount: number): string | null => {
-    const maxWager = getMaxWager();
+  const wagerRange = useMemo(() => getDailyDoubleWagerRange(
+    wagerRules,
+    controllingTeam?.score ?? 0,
+    highestBoardValue,
+    currentQuestion?.value ?? 0
+  ), [wagerRules, controllingTeam?.score, highestBoardValue, currentQuestion?.value]);
 
-    if (amount < DAILY_DOUBLE_MIN_WAGER) {
-      return `Minimum wager is ${DAILY_DOUBLE_MIN_WAGER} points`;
-    }
-
-    if (amount > maxWager) {
-      return `Maximum wager is ${maxWager} points`;
-    }
-
-    return null;
-  }, [getMaxWager]);
+  // A team below zero without permission to wager plays for the clue value
+  const isFixedWager = wagerRange.min === wagerRange.max;
 
   /**
    * Handles wager submission and reveals the question.
    *
    * This function:
-   * 1. Validates the wager input
-   * 2. Stores the wager in the game store
-   * 3. Marks the wager as submitted
+   * 1. Validates the wager input against the team's range
+   * 2. Records the wager on the server, which checks it again
+   * 3. Stores the wager in the game store and marks it as submitted
    * 4. Reveals the question text to the controlling team
    *
    * @async
@@ -204,13 +188,7 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
 
     const wagerAmount = parseInt(wagerInput, 10);
 
-    // Validate wager is a number
-    if (isNaN(wagerAmount) || wagerAmount <= 0) {
-      setWagerError('Please enter a valid wager amount');
-      return;
-    }
-
-    const validationError = validateWager(wagerAmount);
+    const validationError = validateDailyDoubleWager(isNaN(wagerAmount) ? null : wagerAmount, wagerRange);
     if (validationError) {
       setWagerError(validationError);
       return;
@@ -218,6 +196,23 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
 
     setIsProcessing(true);
     try {
+      const response = await fetch(`/api/games/${gameId}/daily-double/wager`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          questionId: currentQuestion.id,
+          teamId: controllingTeamId,
+          wager: wagerAmount,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit wager');
+      }
+
+      if (!isMountedRef.current) return;
+
       // Set wager and mark as submitted
       setCurrentWager(wagerAmount);
       setWagerSubmitted(true);
@@ -238,11 +233,15 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
         gameId,
         operation: 'submitWager',
       });
-      setWagerError('Failed to submit wager. Please try again.');
+      if (isMountedRef.current) {
+        setWagerError(error instanceof Error ? error.message : 'Failed to submit wager. Please try again.');
+      }
     } finally {
-      setIsProcessing(false);
+      if (isMountedRef.current) {
+        setIsProcessing(false);
+      }
     }
-  }, [wagerInput, controllingTeamId, currentQuestion, validateWager, setCurrentWager, setWagerSubmitted, gameId]);
+  }, [wagerInput, controllingTeamId, currentQuestion, wagerRange, setCurrentWager, setWagerSubmitted, gameId]);
 
   /**
    * Closes the Daily Double modal and marks the question as used.
@@ -358,7 +357,9 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
         .rpc('update_team_score', {
           p_team_id: teamIdToUpdate,
           p_score_change: scoreToAward,
-          p_game_id: gameId
+          p_game_id: gameId,
+          p_question_id: questionId,
+          p_reason: 'daily_double_correct',
         });
 
       if (scoreError) {
@@ -484,7 +485,9 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
         .rpc('update_team_score', {
           p_team_id: teamIdToUpdate,
           p_score_change: -scoreToDeduct, // Negative for deduction
-          p_game_id: gameId
+          p_game_id: gameId,
+          p_question_id: questionId,
+          p_reason: 'daily_double_incorrect',
         });
 
       if (scoreError) {
@@ -707,17 +710,32 @@ export const DailyDoubleModal: React.FC<DailyDoubleModalProps> = ({ gameId, onQu
                         setWagerInput(e.target.value);
                         setWagerError(null);
                       }}
-                      min={DAILY_DOUBLE_MIN_WAGER}
-                      max={getMaxWager()}
+                      min={wagerRange.min}
+                      max={wagerRange.max}
                       disabled={isProcessing || !controllingTeamId}
                       className="w-full px-4 py-3 text-2xl font-bold text-center bg-white text-gray-900 rounded-lg border-2 border-yellow-400 focus:outline-none focus:ring-2 focus:ring-yellow-300 disabled:bg-gray-300 disabled:cursor-not-allowed"
-                      placeholder={controllingTeamId ? `${DAILY_DOUBLE_MIN_WAGER} - ${getMaxWager()}` : 'Select team first'}
+                      placeholder={controllingTeamId ? `${wagerRange.min} - ${wagerRange.max}` : 'Select team first'}
                       autoFocus={!!controllingTeamId}
                     />
                     {controllingTeamId && (
-                      <p className="mt-2 text-yellow-100 text-sm">
-                        Maximum wager: {getMaxWager()} (higher of team&apos;s score or {DAILY_DOUBLE_MAX_WAGER})
-                      </p>
+                      <div className="mt-2 flex items-center justify-between gap-4">
+                        <p className="text-yellow-100 text-sm">
+                          {isFixedWager && (controllingTeam?.score ?? 0) < 0
+                            ? DAILY_DOUBLE_WAGER_LABELS.NEGATIVE_HOLD
+                            : `Wager ${wagerRange.min} to ${wagerRange.max} (higher of team's score or ${wagerRules.maxWager ?? highestBoardValue})`}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setWagerInput(String(wagerRange.max));
+                            setWagerError(null);
+                          }}
+                          disabled={isProcessing}
+                          className="shrink-0 px-3 py-1 bg-yellow-300 hover:bg-yellow-200 disabled:bg-gray-500 text-gray-900 text-sm font-bold rounded transition-colors"
+                        >
+                          {DAILY_DOUBLE_WAGER_LABELS.TRUE_DAILY_DOUBLE}
+                        </button>
+                      </div>
                     )}
                     {wagerError && (
                       <p className="mt-2 text-red-300 text-sm font-semibold">{wagerError}</p>
@@ -11,13 +11,14 @@
 
 import React from 'react';
 import { useGameStore } from '@/lib/stores/gameStore';
+import { isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
 import { TrophyIcon } from '@heroicons/react/24/solid';
 
 export default function FinalJeopardyDisplay() {
   const { currentPhase, finalJeopardyQuestion, allTeams, finalJeopardyTeamStatuses } = useGameStore();
 
   // Don't render if not in a Final Jeopardy phase
-  if (!currentPhase || currentPhase === 'regular' || !finalJeopardyQuestion) {
+  if (!isFinalJeopardyPhase(currentPhase) || !finalJeopardyQuestion) {
     return null;
   }
 
@@ -34,8 +34,8 @@ interface GameBoardProps {
  * - Broadcasts question selections via the optional callback
  * - Shows a loading state while game data is being fetched
  *
- * The board uses a CSS grid layout with 7 columns (for 7 categories) and
- * automatically sizes rows based on content.
+ * The board uses a CSS grid layout with one column per category (3-8, set
+ * when the game is created) and automatically sizes rows based on content.
  *
  * @param {GameBoardProps} props - Component props
  * @returns {JSX.Element} The rendered game board
@@ -86,7 +86,10 @@ export const GameBoard = ({ onQuestionSelect }: GameBoardProps) => {
   return (
     <div className="game-board">
       {/* Use CSS Grid with auto rows to ensure all headers have equal height */}
-      <div className="grid grid-cols-7 gap-3 auto-rows-auto">
+      <div
+        className="grid gap-3 auto-rows-auto"
+        style={{ gridTemplateColumns: `repeat(${categories.length}, minmax(0, 1fr))` }}
+      >
         {/* Render Category Headers in first row */}
         {categories.map((category) => (
           <div
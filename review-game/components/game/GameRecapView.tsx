@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Read-only recap of a finished game.
+ *
+ * Shared by the teacher's recap page and the public results page. Laid out to
+ * print cleanly, which is how the recap is saved as PDF; controls passed in
+ * as actions are hidden when printing.
+ *
+ * @module components/game/GameRecapView
+ */
+
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+import { ScoreTimelineChart } from '@/components/game/ScoreTimelineChart';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import { getOrdinal } from '@/lib/utils/formatters';
+import { formatScoreDelta } from '@/lib/utils/scoreLedger';
+import type { GameRecap, RecapClue } from '@/types/game';
+
+interface GameRecapViewProps {
+  recap: GameRecap;
+  // Buttons shown next to the title, e.g. export controls
+  actions?: React.ReactNode;
+}
+
+/**
+ * Game recap component.
+ */
+export const GameRecapView: React.FC<GameRecapViewProps> = ({ recap, actions }) => {
+  const teamNames = new Map(recap.teams.map((team) => [team.id, team.name]));
+  const teamName = (teamId: string) => teamNames.get(teamId) ?? 'Removed team';
+  const endedAt = recap.completedAt ?? recap.generatedAt;
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{recap.title}</h1>
+          <p className="text-gray-500 mt-1">
+            Game recap &middot; {format(new Date(endedAt), 'MMM d, yyyy h:mm a')}
+          </p>
+        </div>
+        {actions && <div className="flex flex-wrap gap-2 print:hidden">{actions}</div>}
+      </div>
+
+      {/* Final standings */}
+      <section>
+        <h2 className="text-xl font-semibold text-gray-900 mb-3">Final Scores</h2>
+        <ol className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {recap.teams.map((team, index) => (
+            <li
+              key={team.id}
+              className={`rounded-lg border p-4 ${index === 0 ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200 bg-white'}`}
+            >
+              <p className="text-sm text-gray-500">{getOrdinal(index + 1)}</p>
+              <p className="font-semibold text-gray-900 truncate">{team.name}</p>
+              {recap.tieBreaker?.winnerTeamId === team.id && (
+                <p className="text-xs font-medium text-rose-600">Won the tie-breaker</p>
+              )}
+              <p className={`text-2xl font-bold ${team.finalScore < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {team.finalScore}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {/* Score over time */}
+      <section className="break-inside-avoid">
+        <h2 className="text-xl font-semibold text-gray-900 mb-3">Scores Over Time</h2>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <ScoreTimelineChart teams={recap.teams} timeline={recap.scoreTimeline} />
+        </div>
+      </section>
+
+      {/* Clue timeline */}
+      <section>
+        <h2 className="text-xl font-semibold text-gray-900 mb-3">Clues in Order</h2>
+        {recap.clues.length === 0 ? (
+          <p className="text-sm text-gray-500">No clues were played.</p>
+        ) : (
+          <ol className="space-y-3">
+            {recap.clues.map((clue, index) => (
+              <RecapClueItem key={`${clue.questionId}-${index}`} clue={clue} order={index + 1} teamName={teamName} />
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* Manual adjustments */}
+      {recap.adjustments.length > 0 && (
+        <section>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">Score Adjustments</h2>
+          <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+            {recap.adjustments.map((adjustment) => (
+              <li key={`${adjustment.teamId}-${adjustment.at}`} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                <span className="font-medium text-gray-900">{teamName(adjustment.teamId)}</span>
+                <span className="flex-1 text-gray-600 truncate">{adjustment.note}</span>
+                <span className={adjustment.delta < 0 ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                  {formatScoreDelta(adjustment.delta)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Final Jeopardy */}
+      {recap.finalJeopardy && (
+        <section className="break-inside-avoid">
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">Final Jeopardy</h2>
+          <div className="rounded-lg border border-gray-200 bg-white p-4">
+            <p className="text-sm uppercase tracking-wide text-gray-500">{recap.finalJeopardy.category}</p>
+            <p className="mt-1 font-medium text-gray-900">{recap.finalJeopardy.question}</p>
+            <p className="mt-1 text-sm text-green-700">Answer: {recap.finalJeopardy.answer}</p>
+            <ul className="mt-4 divide-y divide-gray-200">
+              {recap.finalJeopardy.results.map((result) => (
+                <li key={result.teamId} className="flex items-center justify-between gap-4 py-2 text-sm">
+                  <span className="font-medium text-gray-900">{teamName(result.teamId)}</span>
+                  <span className="flex-1 text-gray-600 truncate">{result.answer || 'No answer'}</span>
+                  <span className="text-gray-500">Wager {result.wager}</span>
+                  {result.isCorrect === null ? (
+                    <span className="text-gray-400">Not revealed</span>
+                  ) : (
+                    <span className={result.isCorrect ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'}>
+                      {formatScoreDelta(result.isCorrect ? result.wager : -result.wager)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
+      {/* Tie-Breaker */}
+      {recap.tieBreaker && (
+        <section className="break-inside-avoid">
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">Tie-Breaker</h2>
+          <div className="rounded-lg border border-gray-200 bg-white p-4">
+            <p className="text-sm uppercase tracking-wide text-gray-500">{recap.tieBreaker.category}</p>
+            <p className="mt-1 font-medium text-gray-900">{recap.tieBreaker.question}</p>
+            <p className="mt-1 text-sm text-green-700">Answer: {recap.tieBreaker.answer}</p>
+            <p className="mt-3 text-sm text-gray-700">
+              Won by <span className="font-semibold text-gray-900">{teamName(recap.tieBreaker.winnerTeamId)}</span>
+            </p>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+/**
+ * One clue in the timeline with its judgments
+ */
+function RecapClueItem({
+  clue,
+  order,
+  teamName,
+}: {
+  clue: RecapClue;
+  order: number;
+  teamName: (teamId: string) => string;
+}) {
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-4 break-inside-avoid">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+        <span className="font-semibold text-gray-700">#{order}</span>
+        {clue.round === DOUBLE_JEOPARDY.ROUND && <span>Double Jeopardy &middot;</span>}
+        <span>{clue.categoryName}</span>
+        {clue.value !== null && <span>&middot; {clue.value}</span>}
+        {clue.isDailyDouble && (
+          <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-semibold text-yellow-800">
+            Daily Double
+          </span>
+        )}
+        {clue.hintUsed && (
+          <span className="rounded-full bg-sky-100 px-2 py-0.5 text-xs font-semibold text-sky-800">
+            Hint used
+          </span>
+        )}
+      </div>
+      <p className="mt-1 font-medium text-gray-900">{clue.question}</p>
+      <p className="text-sm text-green-700">Answer: {clue.answer}</p>
+
+      {clue.judgments.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-400">No one answered</p>
+      ) : (
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {clue.judgments.map((judgment, index) => (
+            <li
+              key={`${judgment.teamId}-${index}`}
+              className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-sm ${
+                judgment.isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+              }`}
+            >
+              {judgment.isCorrect ? (
+                <CheckCircleIcon className="h-4 w-4" aria-label="Correct" />
+              ) : (
+                <XCircleIcon className="h-4 w-4" aria-label="Incorrect" />
+              )}
+              {teamName(judgment.teamId)}
+              {judgment.wager !== null && <span className="text-xs">(wager {judgment.wager})</span>}
+              <span className="font-semibold">{formatScoreDelta(judgment.delta)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Online/idle/offline badge for a team's live presence.
+ *
+ * Derives the status from teams.last_seen and re-checks it every few seconds,
+ * because a team going offline shows up as the absence of heartbeats rather
+ * than as an update.
+ *
+ * @module components/game/PresenceBadge
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { PRESENCE_LABELS } from '@/lib/constants/ui';
+import { getPresenceStatus } from '@/lib/utils/presence';
+import type { PresenceStatus } from '@/types/game';
+
+/**
+ * How often the badge re-evaluates the last heartbeat
+ */
+const REFRESH_INTERVAL_MS = 5000;
+
+const DOT_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  idle: 'bg-yellow-400',
+  offline: 'bg-gray-400',
+};
+
+const TEXT_COLORS: Record<PresenceStatus, string> = {
+  online: 'text-green-700',
+  idle: 'text-yellow-700',
+  offline: 'text-gray-500',
+};
+
+interface PresenceBadgeProps {
+  // teams.last_seen
+  lastSeen: string | null | undefined;
+  // Show only the dot, e.g. on the projected scoreboard
+  compact?: boolean;
+}
+
+/**
+ * Presence badge component.
+ */
+export const PresenceBadge: React.FC<PresenceBadgeProps> = ({ lastSeen, compact = false }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const status = getPresenceStatus(lastSeen, now);
+  const label = PRESENCE_LABELS[status];
+
+  if (compact) {
+    return (
+      <span
+        className={`inline-block h-2.5 w-2.5 rounded-full ${DOT_COLORS[status]}`}
+        title={label}
+        aria-label={label}
+        role="img"
+      />
+    );
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs font-medium ${TEXT_COLORS[status]}`}>
+      <span className={`inline-block h-2 w-2 rounded-full ${DOT_COLORS[status]}`} aria-hidden="true" />
+      {label}
+    </span>
+  );
+};
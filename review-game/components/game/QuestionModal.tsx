@@ -4,6 +4,10 @@
  * This is a complex modal component that handles:
  * - Displaying question text and value
  * - Managing buzz queue (students buzzing in)
+ * - All-play clues, where every team writes an answer and the teacher marks each one
+ * - Steal rules: after an incorrect answer the clue passes to the next team or closes
+ * - Answer clock for the team at the head of the buzz queue
+ * - Hints: revealing a clue's hint lowers what it is worth by the game's hint penalty
  * - Countdown timer
  * - Score updates (correct/incorrect answers)
  * - Accessibility (focus management, screen reader announcements)
@@ -23,10 +27,16 @@ import { useGameStore } from '../../lib/stores/gameStore';
 import { createClient } from '@/lib/supabase/client';
 import { Timer } from './Timer';
 import { getPositionDisplay } from '@/lib/utils/position';
+import { formatBuzzDelta } from '@/lib/utils/buzzTiming';
 import { isSafeImageUrl } from '@/lib/utils/url';
 import { logger } from '@/lib/logger';
-import { BUZZ_QUEUE_LABELS, BUTTON_TEXT, QUESTION_MODAL_MESSAGES } from '@/lib/constants/ui';
+import { ALL_PLAY_LABELS, ANSWER_CLOCK_LABELS, BUZZ_QUEUE_LABELS, BUTTON_TEXT, HINT_LABELS, QUESTION_MODAL_MESSAGES, STEAL_LABELS } from '@/lib/constants/ui';
+import { HINTS } from '@/lib/constants/game';
+import { DEFAULT_STEAL_RULES, getNextStealTurn } from '@/lib/utils/stealRules';
+import { getHintedValue } from '@/lib/utils/hints';
 import ImageModal from '@/components/ui/ImageModal';
+import AllPlayResponseGrid from './AllPlayResponseGrid';
+import type { AnswerClock, StealTurn } from '@/types/game';
 
 /**
  * Props for the QuestionModal component.
@@ -35,12 +45,24 @@ import ImageModal from '@/components/ui/ImageModal';
  * @property {string} gameId - The unique identifier of the current game
  * @property {function} onClearBuzzes - Callback to clear all buzzes in the queue
  * @property {function} [onQuestionClose] - Optional callback when the question is closed
+ * @property {function} [onDismissBuzz] - Optional callback to dismiss a team's buzz on the server after an incorrect answer
+ * @property {function} [onArmBuzzers] - Optional callback to arm buzzers once the clue has been read; resolves true on success
+ * @property {function} [onStartAllPlay] - Optional callback to open the clue for written responses from every team; resolves true on success
+ * @property {function} [onRevealHint] - Optional callback to show the clue's hint on every device
+ * @property {function} [onStealTurn] - Optional callback to tell every device who answers next after an incorrect answer
+ * @property {function} [onAnswerClock] - Optional callback to start or stop the answer clock on every device
  */
 interface QuestionModalProps {
   gameId: string;
   onClearBuzzes: () => void;
+  onDismissBuzz?: (teamId: string) => void;
+  onArmBuzzers?: () => Promise<boolean>;
+  onStartAllPlay?: () => Promise<boolean>;
   onQuestionClose?: () => void;
   onRevealAnswer?: (answer: string | null) => void;
+  onRevealHint?: (hint: string | null) => void;
+  onStealTurn?: (turn: StealTurn) => void;
+  onAnswerClock?: (questionId: string, clock: AnswerClock | null) => void;
 }
 
 /**
@@ -51,12 +73,14 @@ interface QuestionModalProps {
  * @property {boolean} isFirst - Whether this team buzzed in first
  * @property {string} teamName - The name of the team
  * @property {number} teamScore - The team's current score
+ * @property {number} deltaMs - Server-decided gap to the first buzz in milliseconds
  */
 interface BuzzQueueItemProps {
   index: number;
   isFirst: boolean;
   teamName: string;
   teamScore: number;
+  deltaMs: number;
 }
 
 /**
@@ -66,6 +90,7 @@ interface BuzzQueueItemProps {
  * - Shows team position with emoji indicators
  * - Highlights the first team with special styling
  * - Displays team name and current score
+ * - Shows how far behind the first buzz each later team was
  * - Includes ARIA labels for accessibility
  *
  * The component is memoized to prevent unnecessary re-renders when
@@ -74,7 +99,7 @@ interface BuzzQueueItemProps {
  * @param {BuzzQueueItemProps} props - Component props
  * @returns {JSX.Element} The rendered buzz queue item
  */
-const BuzzQueueItem = React.memo<BuzzQueueItemProps>(({ index, isFirst, teamName, teamScore }) => {
+const BuzzQueueItem = React.memo<BuzzQueueItemProps>(({ index, isFirst, teamName, teamScore, deltaMs }) => {
   const position = getPositionDisplay(index);
 
   return (
@@ -101,6 +126,11 @@ const BuzzQueueItem = React.memo<BuzzQueueItemProps>(({ index, isFirst, teamName
         }`}>
           {teamName}
         </span>
+        {!isFirst && (
+          <span className="text-xs font-mono text-gray-400">
+            {formatBuzzDelta(deltaMs)}
+          </span>
+        )}
         {isFirst && (
           <span className="ml-2 px-2 py-1 bg-green-600 text-white text-xs font-bold rounded" aria-hidden="true">
             {BUZZ_QUEUE_LABELS.ANSWERING}
@@ -162,18 +192,27 @@ BuzzQueueItem.displayName = 'BuzzQueueItem';
  * />
  * ```
  */
-export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuzzes, onQuestionClose, onRevealAnswer }) => {
+export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuzzes, onDismissBuzz, onArmBuzzers, onStartAllPlay, onQuestionClose, onRevealAnswer, onRevealHint, onStealTurn, onAnswerClock }) => {
   const {
     currentQuestion,
     setCurrentQuestion,
     buzzQueue,
+    buzzersArmed,
+    allPlay,
+    stealTurn,
+    setStealTurn,
+    answerClock,
+    setAnswerClock,
     removeBuzz,
     allTeams,
     currentGameData,
+    revealedHint,
   } = useGameStore();
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [isArming, setIsArming] = useState(false);
+  const [isStartingAllPlay, setIsStartingAllPlay] = useState(false);
   const [srAnnouncement, setSrAnnouncement] = useState('');
   const [previousBuzzQueueLength, setPreviousBuzzQueueLength] = useState(0);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
@@ -192,6 +231,10 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
   const previousActiveElementRef = useRef<HTMLElement | null>(null);
   const focusableElementsRef = useRef<HTMLElement[]>([]);
 
+  // Question ID that all-play was last started for, so games in all-play
+  // mode start it once per clue
+  const allPlayStartedForRef = useRef<string | null>(null);
+
   /**
    * Handles timer expiration when time runs out on a question.
    * Currently logs the event; could be extended to auto-close or disable buzzing.
@@ -207,6 +250,80 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
     }
   }, [currentQuestion, gameId]);
 
+  /**
+   * Arms buzzers for the open clue. Students who buzzed before this are
+   * locked out by the server; everyone else can now buzz in.
+   */
+  const handleArmBuzzers = useCallback(async () => {
+    if (!onArmBuzzers || isArming) return;
+
+    setIsArming(true);
+    try {
+      const armed = await onArmBuzzers();
+      if (!isMountedRef.current) return;
+      if (armed) {
+        setSrAnnouncement('Buzzers armed');
+      } else {
+        alert('Failed to arm buzzers. Please try again.');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsArming(false);
+      }
+    }
+  }, [onArmBuzzers, isArming]);
+
+  /**
+   * Opens the clue for written responses from every team. Used by the
+   * "All-Play This Clue" button and automatically in all-play games.
+   */
+  const handleStartAllPlay = useCallback(async () => {
+    if (!onStartAllPlay || isStartingAllPlay) return;
+
+    setIsStartingAllPlay(true);
+    try {
+      const started = await onStartAllPlay();
+      if (!isMountedRef.current) return;
+      if (started) {
+        setSrAnnouncement('All-play started. Every team can now submit an answer.');
+      } else {
+        alert('Failed to start all-play. Please try again.');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsStartingAllPlay(false);
+      }
+    }
+  }, [onStartAllPlay, isStartingAllPlay]);
+
+  // All-play applies only to the clue it was started for
+  const isAllPlay = !!currentQuestion && allPlay?.questionId === currentQuestion.id;
+
+  const stealRules = currentGameData?.stealRules ?? DEFAULT_STEAL_RULES;
+
+  // Once the hint is showing, the clue is worth less to whoever answers it
+  const hintPenaltyPercent = currentGameData?.hintPenaltyPercent ?? HINTS.DEFAULT_PENALTY_PERCENT;
+  const isHintRevealed = revealedHint !== null;
+  const clueValue = currentQuestion
+    ? isHintRevealed ? getHintedValue(currentQuestion.value, hintPenaltyPercent) : currentQuestion.value
+    : 0;
+
+  // Steal progress applies only to the clue it was recorded for
+  const activeSteal = currentQuestion && stealTurn?.questionId === currentQuestion.id ? stealTurn : null;
+  const isClueClosed = activeSteal?.closed ?? false;
+
+  // Restart the timer for each stealing team; a closed clue keeps the last team's timer
+  const timerRound = stealRules.restartTimerOnSteal && activeSteal
+    ? activeSteal.answeredTeamIds.length - (activeSteal.closed ? 1 : 0)
+    : 0;
+
+  // Answer clock for the team at the head of the queue; applies only to the clue it was started for
+  const answerTimerSeconds = currentGameData?.answerTimerSeconds ?? null;
+  const activeClock = currentQuestion && answerClock?.questionId === currentQuestion.id ? answerClock : null;
+
+  // Buzzers need arming only when the board supports it
+  const awaitingArm = !!onArmBuzzers && !buzzersArmed && !isClueClosed;
+
   // Modal is open when currentQuestion is not null
   const isOpen = currentQuestion !== null;
 
@@ -216,6 +333,25 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
     return allTeams.find(team => team.id === buzzQueue[0].teamId);
   }, [buzzQueue, allTeams]);
 
+  // Start the answer clock whenever a new team reaches the head of the buzz
+  // queue, and stop it once the queue empties or the clue closes
+  const headTeamId = buzzQueue[0]?.teamId ?? null;
+  useEffect(() => {
+    if (!currentQuestion || !answerTimerSeconds || isAllPlay) return;
+
+    const nextTeamId = isClueClosed ? null : headTeamId;
+    if ((activeClock?.teamId ?? null) === nextTeamId) return;
+
+    const clock = nextTeamId
+      ? { questionId: currentQuestion.id, teamId: nextTeamId, seconds: answerTimerSeconds }
+      : null;
+    if (onAnswerClock) {
+      onAnswerClock(currentQuestion.id, clock);
+    } else {
+      setAnswerClock(clock);
+    }
+  }, [currentQuestion, answerTimerSeconds, isAllPlay, isClueClosed, headTeamId, activeClock, onAnswerClock, setAnswerClock]);
+
   // Category name - no memoization needed for simple string operations
   const categoryName = currentQuestion?.categoryName || 'Category';
 
@@ -226,6 +362,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
       const isFirst = index === 0;
       const teamName = team?.name || 'Unknown Team';
       const teamScore = team?.score || 0;
+      const deltaMs = buzz.timestamp - buzzQueue[0].timestamp;
 
       return (
         <BuzzQueueItem
@@ -234,6 +371,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
           isFirst={isFirst}
           teamName={teamName}
           teamScore={teamScore}
+          deltaMs={deltaMs}
         />
       );
     });
@@ -247,6 +385,25 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
     };
   }, []);
 
+  // Games in all-play mode open every regular clue for written responses.
+  // A clue restored after a board refresh already has its all-play state.
+  useEffect(() => {
+    if (
+      !currentQuestion ||
+      currentQuestion.isDailyDouble ||
+      currentGameData?.answerMode !== 'all_play' ||
+      !onStartAllPlay ||
+      allPlayStartedForRef.current === currentQuestion.id
+    ) {
+      return;
+    }
+
+    allPlayStartedForRef.current = currentQuestion.id;
+    if (useGameStore.getState().allPlay?.questionId !== currentQuestion.id) {
+      void handleStartAllPlay();
+    }
+  }, [currentQuestion, currentGameData?.answerMode, onStartAllPlay, handleStartAllPlay]);
+
   // Reset broken-image flag when the question changes so a new question's
   // valid image isn't hidden because the previous question had a bad URL.
   useEffect(() => {
@@ -280,6 +437,9 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
       // Save the currently focused element
       previousActiveElementRef.current = document.activeElement as HTMLElement;
 
+      // A clue restored after a board refresh may already have its answer revealed
+      setIsAnswerRevealed(useGameStore.getState().revealedAnswer !== null);
+
       // Focus the close button when modal opens
       setTimeout(() => {
         closeButtonRef.current?.focus();
@@ -409,6 +569,55 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
     }
   }, [isProcessing, setCurrentQuestion, onClearBuzzes, onQuestionClose]);
 
+  /**
+   * Adds a question to the game's selected_questions in the database.
+   *
+   * Failures are logged but not thrown: the question is already marked used
+   * in local state, and the board re-syncs on reload.
+   *
+   * @param {string} questionId - The question to mark as used
+   * @async
+   */
+  const markQuestionUsedInDb = useCallback(async (questionId: string) => {
+    try {
+      const { data: gameData, error: gameError } = await supabase
+        .from('games')
+        .select('selected_questions')
+        .eq('id', gameId)
+        .single();
+
+      if (!gameError && gameData) {
+        const selectedQuestions = gameData.selected_questions || [];
+        if (!selectedQuestions.includes(questionId)) {
+          const { error: updateError } = await supabase
+            .from('games')
+            .update({
+              selected_questions: [...selectedQuestions, questionId]
+            })
+            .eq('id', gameId);
+
+          if (updateError) {
+            // Log but don't fail - question is marked locally
+            logger.warn('Failed to mark question in database (will sync later)', {
+              gameId,
+              questionId,
+              operation: 'markQuestionUsed',
+              error: updateError,
+            });
+          }
+        }
+      }
+    } catch (markError) {
+      // Non-critical failure - log and continue
+      logger.warn('Failed to mark question as used in database', {
+        gameId,
+        questionId,
+        operation: 'markQuestionUsed',
+        error: markError,
+      });
+    }
+  }, [gameId, supabase]);
+
   /**
    * Handles a correct answer by awarding points and updating the database.
    *
@@ -431,7 +640,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
 
     // IMPORTANT: Snapshot values before any async operations to prevent race conditions
     const teamIdToUpdate = firstTeamData.id;
-    const scoreToAward = currentQuestion.value;
+    const scoreToAward = clueValue;
     const questionId = currentQuestion.id;
 
     setIsProcessing(true);
@@ -442,7 +651,9 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
         .rpc('update_team_score', {
           p_team_id: teamIdToUpdate,
           p_score_change: scoreToAward,
-          p_game_id: gameId
+          p_game_id: gameId,
+          p_question_id: questionId,
+          p_reason: 'correct',
         });
 
       if (scoreError) {
@@ -471,43 +682,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
 
       // Try to mark question as used in database (less critical)
       // Note: Question is already marked in local state via markQuestionUsed() in GameBoard
-      try {
-        const { data: gameData, error: gameError } = await supabase
-          .from('games')
-          .select('selected_questions')
-          .eq('id', gameId)
-          .single();
-
-        if (!gameError && gameData) {
-          const selectedQuestions = gameData.selected_questions || [];
-          if (!selectedQuestions.includes(questionId)) {
-            const { error: updateError } = await supabase
-              .from('games')
-              .update({
-                selected_questions: [...selectedQuestions, questionId]
-              })
-              .eq('id', gameId);
-
-            if (updateError) {
-              // Log but don't fail - question is marked locally
-              logger.warn('Failed to mark question in database (will sync later)', {
-                gameId,
-                questionId,
-                operation: 'markQuestionUsed',
-                error: updateError,
-              });
-            }
-          }
-        }
-      } catch (markError) {
-        // Non-critical failure - log and continue
-        logger.warn('Failed to mark question as used in database', {
-          gameId,
-          questionId,
-          operation: 'markQuestionUsed',
-          error: markError,
-        });
-      }
+      await markQuestionUsedInDb(questionId);
 
       // Success - clear buzz queue and close modal
       if (isMountedRef.current) {
@@ -540,19 +715,51 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
         setIsProcessing(false);
       }
     }
-  }, [isProcessing, currentQuestion, firstTeamData, gameId, onClearBuzzes, setCurrentQuestion, supabase, onQuestionClose]);
+  }, [isProcessing, currentQuestion, clueValue, firstTeamData, gameId, onClearBuzzes, setCurrentQuestion, supabase, onQuestionClose, markQuestionUsedInDb]);
+
+  /**
+   * Finishes an all-play clue once the teacher has marked the responses.
+   *
+   * Scores were already applied as each response was marked, so this only
+   * marks the question as used and closes the modal for everyone.
+   *
+   * @async
+   */
+  const handleFinishAllPlay = useCallback(async () => {
+    if (isProcessing || !currentQuestion) return;
+
+    setIsProcessing(true);
+    try {
+      await markQuestionUsedInDb(currentQuestion.id);
+
+      if (isMountedRef.current) {
+        setCurrentQuestion(null);
+        if (onQuestionClose) {
+          onQuestionClose();
+        }
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsProcessing(false);
+      }
+    }
+  }, [isProcessing, currentQuestion, markQuestionUsedInDb, setCurrentQuestion, onQuestionClose]);
 
   /**
    * Handles an incorrect answer by deducting points and removing the team from the queue.
    *
    * This function:
-   * 1. Deducts points from the first team in the buzz queue
+   * 1. Deducts points from the first team in the buzz queue, unless the game's
+   *    steal rules turn deductions off
    * 2. Updates the team's score in Supabase
    * 3. Removes the team from the buzz queue
-   * 4. Allows other teams to answer (modal stays open if queue not empty)
+   * 4. Passes the clue to the next team in the queue (a steal), or closes it to
+   *    further answers when steals are off or the attempt limit is reached
+   * 5. Broadcasts the steal turn so student devices know whose turn it is
+   *
+   * Also called when the answer clock runs out, which counts as an incorrect answer.
    *
-   * If the buzz queue becomes empty after an incorrect answer, the modal closes
-   * and the question is marked as used (no correct answer given).
+   * The modal stays open either way so the teacher can reveal the answer.
    *
    * The function uses optimistic UI updates with rollback on error:
    * - Updates local state immediately for responsive UI
@@ -560,61 +767,94 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
    * - Rolls back changes if database update fails
    *
    * @async
+   * @param {boolean} [timedOut=false] - The answer clock ran out before the team answered
    */
-  const handleIncorrect = useCallback(async () => {
+  const handleIncorrect = useCallback(async (timedOut = false) => {
     if (isProcessing || !currentQuestion || !firstTeamData) return;
 
     // IMPORTANT: Snapshot team ID before any async operations to prevent race conditions
     // The buzz queue could change during async operations (especially with real-time updates)
     const teamIdToRemove = firstTeamData.id;
-    const scoreToDeduct = currentQuestion.value;
+    const scoreToDeduct = stealRules.deductIncorrect ? clueValue : 0;
+    const nextTurn = getNextStealTurn(
+      stealRules,
+      currentQuestion.id,
+      [...(activeSteal?.answeredTeamIds ?? []), teamIdToRemove],
+      buzzQueue.filter((buzz) => buzz.teamId !== teamIdToRemove)
+    );
 
     setIsProcessing(true);
     try {
-      // Deduct points from the first team in the buzz queue
-      // Use server-side RPC function for proper authorization and atomic updates
-      const { data: scoreResult, error: scoreError } = await supabase
-        .rpc('update_team_score', {
-          p_team_id: teamIdToRemove,
-          p_score_change: -scoreToDeduct, // Negative for deduction
-          p_game_id: gameId
-        });
-
-      if (scoreError) {
-        logger.error('Failed to update team score for incorrect answer', scoreError, {
-          teamId: teamIdToRemove,
-          scoreChange: -scoreToDeduct,
-          gameId,
-          questionId: currentQuestion.id,
-          operation: 'incorrectAnswer',
-        });
-        throw scoreError;
-      }
+      if (scoreToDeduct > 0) {
+        // Deduct points from the first team in the buzz queue
+        // Use server-side RPC function for proper authorization and atomic updates
+        const { data: scoreResult, error: scoreError } = await supabase
+          .rpc('update_team_score', {
+            p_team_id: teamIdToRemove,
+            p_score_change: -scoreToDeduct, // Negative for deduction
+            p_game_id: gameId,
+            p_question_id: currentQuestion.id,
+            p_reason: 'incorrect',
+          });
+
+        if (scoreError) {
+          logger.error('Failed to update team score for incorrect answer', scoreError, {
+            teamId: teamIdToRemove,
+            scoreChange: -scoreToDeduct,
+            gameId,
+            questionId: currentQuestion.id,
+            operation: 'incorrectAnswer',
+          });
+          throw scoreError;
+        }
 
-      // Check for authorization or validation errors from the RPC function
-      if (scoreResult && scoreResult.length > 0 && !scoreResult[0].success) {
-        logger.error('Team score update failed for incorrect answer', scoreResult[0].error_message, {
-          teamId: teamIdToRemove,
-          scoreChange: -scoreToDeduct,
-          gameId,
-          questionId: currentQuestion.id,
-          errorMessage: scoreResult[0].error_message,
-          operation: 'incorrectAnswer',
-        });
-        throw new Error(scoreResult[0].error_message || 'Failed to update score');
+        // Check for authorization or validation errors from the RPC function
+        if (scoreResult && scoreResult.length > 0 && !scoreResult[0].success) {
+          logger.error('Team score update failed for incorrect answer', scoreResult[0].error_message, {
+            teamId: teamIdToRemove,
+            scoreChange: -scoreToDeduct,
+            gameId,
+            questionId: currentQuestion.id,
+            errorMessage: scoreResult[0].error_message,
+            operation: 'incorrectAnswer',
+          });
+          throw new Error(scoreResult[0].error_message || 'Failed to update score');
+        }
       }
 
       // Remove the team from buzz queue using the snapshot, not current state
       if (isMountedRef.current) {
-        // Announce score update
+        // Announce score update and who answers next
         const newScore = (firstTeamData.score || 0) - scoreToDeduct;
-        setSrAnnouncement(`Incorrect. ${firstTeamData.name} lost ${scoreToDeduct} points. New score: ${newScore} points.`);
-        removeBuzz(teamIdToRemove);
-      }
-
-      // If no more teams in queue after removal, modal stays open
-      // Teacher can close manually or wait for more buzzes
+        const nextTeam = allTeams.find((team) => team.id === nextTurn.teamId);
+        setSrAnnouncement(
+          (timedOut ? `${ANSWER_CLOCK_LABELS.TIMED_OUT}. ` : '') +
+          (scoreToDeduct > 0
+            ? `Incorrect. ${firstTeamData.name} lost ${scoreToDeduct} points. New score: ${newScore} points.`
+            : `Incorrect. ${firstTeamData.name} keeps ${newScore} points.`) +
+          (nextTurn.closed
+            ? ` ${STEAL_LABELS.CLOSED}.`
+            : nextTeam
+              ? ` ${nextTeam.name} may steal.`
+              : ' Other teams may buzz in to steal.')
+        );
+
+        if (nextTurn.closed) {
+          // Clearing also disarms buzzers, so nobody else can buzz in on this clue
+          onClearBuzzes();
+        } else if (onDismissBuzz) {
+          // Dismissing on the server keeps every device's queue in sync and stops the team re-buzzing
+          onDismissBuzz(teamIdToRemove);
+        } else {
+          removeBuzz(teamIdToRemove);
+        }
 
+        if (onStealTurn) {
+          onStealTurn(nextTurn);
+        } else {
+          setStealTurn(nextTurn);
+        }
+      }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to handle incorrect answer', error, {
@@ -633,7 +873,23 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
         setIsProcessing(false);
       }
     }
-  }, [isProcessing, currentQuestion, firstTeamData, gameId, removeBuzz, supabase]);
+  }, [isProcessing, currentQuestion, clueValue, firstTeamData, gameId, removeBuzz, onDismissBuzz, supabase, stealRules, activeSteal, buzzQueue, allTeams, onClearBuzzes, onStealTurn, setStealTurn]);
+
+  /**
+   * Handles the answer clock running out. The attempt counts as incorrect
+   * unless the teacher already marked it and the queue has moved on.
+   */
+  const handleAnswerClockExpire = useCallback(() => {
+    if (!currentQuestion || !activeClock || activeClock.teamId !== firstTeamData?.id) return;
+
+    logger.info('Answer clock expired', {
+      questionId: currentQuestion.id,
+      teamId: activeClock.teamId,
+      gameId,
+      operation: 'answerClockExpired',
+    });
+    void handleIncorrect(true);
+  }, [currentQuestion, activeClock, firstTeamData, gameId, handleIncorrect]);
 
   // Handle escape key to close modal
   useEffect(() => {
@@ -696,8 +952,14 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
                 {categoryName}
               </h2>
               <div className="text-3xl font-bold text-blue-400">
-                {currentQuestion.value} Points
+                {isHintRevealed && (
+                  <span className="mr-2 text-gray-500 line-through">{currentQuestion.value}</span>
+                )}
+                {clueValue} Points
               </div>
+              {isHintRevealed && (
+                <p className="mt-1 text-sm text-sky-300">{HINT_LABELS.REDUCED_VALUE}</p>
+              )}
               {currentQuestion.isDailyDouble && (
                 <span className="inline-block mt-2 px-3 py-1 bg-green-600 text-white text-sm font-bold rounded">
                   DAILY DOUBLE
@@ -711,7 +973,7 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
              currentGameData.timerSeconds > 0 && (
               <div className="flex-shrink-0">
                 <Timer
-                  key={currentQuestion.id}
+                  key={`${currentQuestion.id}-${isAllPlay ? 'all-play' : 'buzzer'}-${timerRound}`}
                   duration={currentGameData.timerSeconds}
                   enabled={true}
                   autoStart={true}
@@ -782,62 +1044,171 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
               {srAnnouncement}
             </div>
 
+            {/* All-Play Responses replace the buzz queue and scoring controls */}
+            {isAllPlay && (
+              <AllPlayResponseGrid
+                gameId={gameId}
+                question={currentQuestion}
+                points={clueValue}
+                onFinish={handleFinishAllPlay}
+                isFinishing={isProcessing}
+              />
+            )}
+
             {/* Buzz Queue Section */}
-            <div className="mb-8">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-xl font-bold text-white">Buzz Queue</h3>
-                {buzzQueue.length > 0 && (
+            {!isAllPlay && (
+              <div className="mb-8">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <h3 className="text-xl font-bold text-white">Buzz Queue</h3>
+                    {onArmBuzzers && buzzersArmed && (
+                      <span className="px-2 py-1 bg-green-600 text-white text-xs font-bold rounded">
+                        {BUZZ_QUEUE_LABELS.ARMED}
+                      </span>
+                    )}
+                    {activeSteal && !isClueClosed && (
+                      <span className="px-2 py-1 bg-orange-500 text-white text-xs font-bold rounded">
+                        {STEAL_LABELS.BADGE}
+                      </span>
+                    )}
+                  </div>
+                  {awaitingArm && (
+                    <button
+                      type="button"
+                      onClick={handleArmBuzzers}
+                      disabled={isArming}
+                      aria-disabled={isArming}
+                      aria-busy={isArming}
+                      className="px-4 py-2 text-sm font-bold bg-red-600 hover:bg-red-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 focus:ring-offset-gray-800"
+                    >
+                      {isArming ? BUZZ_QUEUE_LABELS.ARMING : BUZZ_QUEUE_LABELS.ARM_BUZZERS}
+                    </button>
+                  )}
+                  {onStartAllPlay && !buzzersArmed && buzzQueue.length === 0 && !activeSteal && (
+                    <button
+                      type="button"
+                      onClick={handleStartAllPlay}
+                      disabled={isStartingAllPlay || isArming}
+                      aria-disabled={isStartingAllPlay || isArming}
+                      aria-busy={isStartingAllPlay}
+                      className="px-4 py-2 text-sm font-bold bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded transition-colors focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-offset-2 focus:ring-offset-gray-800"
+                    >
+                      {isStartingAllPlay ? ALL_PLAY_LABELS.STARTING : ALL_PLAY_LABELS.SWITCH_TO_ALL_PLAY}
+                    </button>
+                  )}
+                  {buzzQueue.length > 0 && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Clear all buzzes? This cannot be undone.')) {
+                          setIsClearing(true);
+                          try {
+                            onClearBuzzes();
+                            setSrAnnouncement('All buzzes cleared from queue');
+                          } finally {
+                            setIsClearing(false);
+                          }
+                        }
+                      }}
+                      disabled={isProcessing || isClearing}
+                      aria-disabled={isProcessing || isClearing}
+                      aria-busy={isClearing}
+                      className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+                      aria-label={isClearing ? 'Clearing all buzzes from queue' : `Clear all ${buzzQueue.length} buzzes from the queue`}
+                    >
+                      {isClearing ? BUZZ_QUEUE_LABELS.CLEARING : BUZZ_QUEUE_LABELS.CLEAR_QUEUE}
+                    </button>
+                  )}
+                </div>
+                {activeClock && firstTeamData?.id === activeClock.teamId && (
+                  <div className="mb-4 flex items-center justify-center gap-6 rounded-lg bg-gray-700 p-4">
+                    <div className="text-center">
+                      <p className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+                        {ANSWER_CLOCK_LABELS.TITLE}
+                      </p>
+                      <p className="text-xl font-bold text-white">{firstTeamData.name}</p>
+                    </div>
+                    <Timer
+                      key={`${activeClock.questionId}-${activeClock.teamId}`}
+                      duration={activeClock.seconds}
+                      enabled={true}
+                      autoStart={true}
+                      onExpire={handleAnswerClockExpire}
+                    />
+                  </div>
+                )}
+                {buzzQueue.length === 0 ? (
+                  <div
+                    className="bg-gray-700 rounded-lg p-6 text-center"
+                    role="status"
+                    aria-live="polite"
+                    aria-atomic="true"
+                  >
+                    <p className="text-gray-400">
+                      {isProcessing
+                        ? QUESTION_MODAL_MESSAGES.PROCESSING_ANSWER
+                        : isClueClosed
+                          ? STEAL_LABELS.CLOSED
+                          : awaitingArm
+                            ? QUESTION_MODAL_MESSAGES.BUZZERS_NOT_ARMED
+                            : activeSteal
+                              ? STEAL_LABELS.WAITING_FOR_STEAL
+                              : QUESTION_MODAL_MESSAGES.WAITING_FOR_BUZZES}
+                    </p>
+                    {!isProcessing && isClueClosed && (
+                      <p className="text-yellow-400 text-sm mt-3 flex items-center justify-center gap-2">
+                        <span aria-hidden="true">💡</span>
+                        <span>{STEAL_LABELS.CLOSED_HINT}</span>
+                      </p>
+                    )}
+                    {!isProcessing && awaitingArm && (
+                      <p className="text-yellow-400 text-sm mt-3 flex items-center justify-center gap-2">
+                        <span aria-hidden="true">💡</span>
+                        <span>{QUESTION_MODAL_MESSAGES.ARM_HINT}</span>
+                      </p>
+                    )}
+                    {!isProcessing && !awaitingArm && !isClueClosed && (
+                      <p className="text-yellow-400 text-sm mt-3 flex items-center justify-center gap-2">
+                        <span aria-hidden="true">💡</span>
+                        <span>Waiting for teams to buzz in, or close this question to continue.</span>
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div
+                    className="space-y-2"
+                    role="list"
+                    aria-label={`Buzz queue with ${buzzQueue.length} ${buzzQueue.length === 1 ? 'team' : 'teams'}`}
+                  >
+                    {buzzQueueItems}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Hint Section: revealing is one-way so every answer on the clue is scored the same */}
+            {onRevealHint && currentQuestion.hint && (
+              <div className="mb-6">
+                {isHintRevealed ? (
+                  <div className="bg-sky-900/80 border border-sky-400 rounded-lg p-4 text-center">
+                    <p className="text-sky-200 text-sm font-semibold uppercase tracking-wide">{HINT_LABELS.TITLE}</p>
+                    <p className="text-white text-xl font-semibold mt-1">{revealedHint}</p>
+                  </div>
+                ) : (
                   <button
                     onClick={() => {
-                      if (window.confirm('Clear all buzzes? This cannot be undone.')) {
-                        setIsClearing(true);
-                        try {
-                          onClearBuzzes();
-                          setSrAnnouncement('All buzzes cleared from queue');
-                        } finally {
-                          setIsClearing(false);
-                        }
-                      }
+                      const reducedValue = getHintedValue(currentQuestion.value, hintPenaltyPercent);
+                      onRevealHint(currentQuestion.hint ?? null);
+                      setSrAnnouncement(`Hint revealed: ${currentQuestion.hint}. Clue now worth ${reducedValue} points.`);
                     }}
-                    disabled={isProcessing || isClearing}
-                    aria-disabled={isProcessing || isClearing}
-                    aria-busy={isClearing}
-                    className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
-                    aria-label={isClearing ? 'Clearing all buzzes from queue' : `Clear all ${buzzQueue.length} buzzes from the queue`}
+                    disabled={isProcessing}
+                    aria-disabled={isProcessing}
+                    className="w-full py-3 px-6 font-bold text-lg rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 bg-sky-700 hover:bg-sky-800 focus:ring-sky-500 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
                   >
-                    {isClearing ? BUZZ_QUEUE_LABELS.CLEARING : BUZZ_QUEUE_LABELS.CLEAR_QUEUE}
+                    {HINT_LABELS.REVEAL} (clue becomes worth {getHintedValue(currentQuestion.value, hintPenaltyPercent)})
                   </button>
                 )}
               </div>
-              {buzzQueue.length === 0 ? (
-                <div
-                  className="bg-gray-700 rounded-lg p-6 text-center"
-                  role="status"
-                  aria-live="polite"
-                  aria-atomic="true"
-                >
-                  <p className="text-gray-400">
-                    {isProcessing
-                      ? QUESTION_MODAL_MESSAGES.PROCESSING_ANSWER
-                      : QUESTION_MODAL_MESSAGES.WAITING_FOR_BUZZES}
-                  </p>
-                  {!isProcessing && (
-                    <p className="text-yellow-400 text-sm mt-3 flex items-center justify-center gap-2">
-                      <span aria-hidden="true">💡</span>
-                      <span>Waiting for teams to buzz in, or close this question to continue.</span>
-                    </p>
-                  )}
-                </div>
-              ) : (
-                <div
-                  className="space-y-2"
-                  role="list"
-                  aria-label={`Buzz queue with ${buzzQueue.length} ${buzzQueue.length === 1 ? 'team' : 'teams'}`}
-                >
-                  {buzzQueueItems}
-                </div>
-              )}
-            </div>
+            )}
 
             {/* Reveal Answer Section */}
             {onRevealAnswer && currentQuestion.answer && (
@@ -875,38 +1246,44 @@ export const QuestionModal: React.FC<QuestionModalProps> = ({ gameId, onClearBuz
 
             {/* Teacher Controls Section */}
             <div className="flex flex-col sm:flex-row gap-4" role="group" aria-label="Question scoring controls">
-              <button
-                onClick={handleCorrect}
-                disabled={isProcessing || buzzQueue.length === 0}
-                aria-disabled={isProcessing || buzzQueue.length === 0}
-                aria-busy={isProcessing}
-                aria-label={
-                  isProcessing
-                    ? 'Processing answer, please wait'
-                    : buzzQueue.length === 0
-                    ? 'Mark answer as correct (no teams in queue)'
-                    : `Award ${currentQuestion.value} points to ${firstTeamData?.name || 'first team'} for correct answer`
-                }
-                className="flex-1 py-4 px-6 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold text-xl rounded-lg shadow-lg transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-gray-800"
-              >
-                {isProcessing ? BUTTON_TEXT.PROCESSING : BUTTON_TEXT.CORRECT}
-              </button>
-              <button
-                onClick={handleIncorrect}
-                disabled={isProcessing || buzzQueue.length === 0}
-                aria-disabled={isProcessing || buzzQueue.length === 0}
-                aria-busy={isProcessing}
-                aria-label={
-                  isProcessing
-                    ? 'Processing answer, please wait'
-                    : buzzQueue.length === 0
-                    ? 'Mark answer as incorrect (no teams in queue)'
-                    : `Deduct ${currentQuestion.value} points from ${firstTeamData?.name || 'first team'} for incorrect answer`
-                }
-                className="flex-1 py-4 px-6 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold text-xl rounded-lg shadow-lg transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-gray-800"
-              >
-                {isProcessing ? BUTTON_TEXT.PROCESSING : BUTTON_TEXT.INCORRECT}
-              </button>
+              {!isAllPlay && (
+                <>
+                  <button
+                    onClick={handleCorrect}
+                    disabled={isProcessing || buzzQueue.length === 0}
+                    aria-disabled={isProcessing || buzzQueue.length === 0}
+                    aria-busy={isProcessing}
+                    aria-label={
+                      isProcessing
+                        ? 'Processing answer, please wait'
+                        : buzzQueue.length === 0
+                        ? 'Mark answer as correct (no teams in queue)'
+                        : `Award ${clueValue} points to ${firstTeamData?.name || 'first team'} for correct answer`
+                    }
+                    className="flex-1 py-4 px-6 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold text-xl rounded-lg shadow-lg transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+                  >
+                    {isProcessing ? BUTTON_TEXT.PROCESSING : BUTTON_TEXT.CORRECT}
+                  </button>
+                  <button
+                    onClick={() => handleIncorrect()}
+                    disabled={isProcessing || buzzQueue.length === 0}
+                    aria-disabled={isProcessing || buzzQueue.length === 0}
+                    aria-busy={isProcessing}
+                    aria-label={
+                      isProcessing
+                        ? 'Processing answer, please wait'
+                        : buzzQueue.length === 0
+                        ? 'Mark answer as incorrect (no teams in queue)'
+                        : stealRules.deductIncorrect
+                        ? `Deduct ${clueValue} points from ${firstTeamData?.name || 'first team'} for incorrect answer`
+                        : `Mark ${firstTeamData?.name || 'first team'} incorrect without deducting points`
+                    }
+                    className="flex-1 py-4 px-6 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold text-xl rounded-lg shadow-lg transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+                  >
+                    {isProcessing ? BUTTON_TEXT.PROCESSING : BUTTON_TEXT.INCORRECT}
+                  </button>
+                </>
+              )}
               <button
                 onClick={handleClose}
                 disabled={isProcessing}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Line chart of every team's score over a game.
+ *
+ * Plain SVG so it prints (and saves to PDF) the same way it renders. The x
+ * axis is the sequence of score changes rather than clock time, so long
+ * pauses between clues do not squash the chart.
+ *
+ * @module components/game/ScoreTimelineChart
+ */
+
+'use client';
+
+import React from 'react';
+import type { RecapScorePoint, RecapTeam } from '@/types/game';
+
+/**
+ * Line colors, assigned to teams in standings order
+ */
+const LINE_COLORS = [
+  '#2563eb',
+  '#dc2626',
+  '#16a34a',
+  '#d97706',
+  '#7c3aed',
+  '#db2777',
+  '#0891b2',
+  '#4b5563',
+];
+
+const WIDTH = 800;
+const HEIGHT = 300;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+interface ScoreTimelineChartProps {
+  teams: RecapTeam[];
+  timeline: RecapScorePoint[];
+}
+
+/**
+ * Score timeline chart component.
+ */
+export const ScoreTimelineChart: React.FC<ScoreTimelineChartProps> = ({ teams, timeline }) => {
+  if (timeline.length < 2 || teams.length === 0) {
+    return <p className="text-sm text-gray-500">No score changes were recorded for this game.</p>;
+  }
+
+  const allScores = timeline.flatMap((point) => teams.map((team) => point.scores[team.id] ?? 0));
+  const minScore = Math.min(0, ...allScores);
+  const maxScore = Math.max(0, ...allScores);
+  const range = maxScore - minScore || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (index / (timeline.length - 1)) * plotWidth;
+  const y = (score: number) => PADDING.top + ((maxScore - score) / range) * plotHeight;
+
+  return (
+    <figure>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Team scores after each score change"
+      >
+        {/* Axes and the zero line */}
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#d1d5db" />
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="#9ca3af" strokeDasharray="4 4" />
+        <text x={PADDING.left - 8} y={y(maxScore)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-xs">
+          {maxScore}
+        </text>
+        {minScore !== 0 && (
+          <text x={PADDING.left - 8} y={y(minScore)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-xs">
+            {minScore}
+          </text>
+        )}
+        {maxScore !== 0 && (
+          <text x={PADDING.left - 8} y={y(0)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-xs">
+            0
+          </text>
+        )}
+        <text x={PADDING.left + plotWidth / 2} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-xs">
+          Score changes
+        </text>
+
+        {teams.map((team, index) => (
+          <polyline
+            key={team.id}
+            fill="none"
+            stroke={LINE_COLORS[index % LINE_COLORS.length]}
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+            points={timeline.map((point, i) => `${x(i)},${y(point.scores[team.id] ?? 0)}`).join(' ')}
+          />
+        ))}
+      </svg>
+
+      <figcaption className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+        {teams.map((team, index) => (
+          <span key={team.id} className="inline-flex items-center gap-1.5">
+            <span
+              className="inline-block h-2.5 w-2.5 rounded-full"
+              style={{ backgroundColor: LINE_COLORS[index % LINE_COLORS.length] }}
+              aria-hidden="true"
+            />
+            {team.name}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+};
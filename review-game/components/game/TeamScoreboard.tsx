@@ -13,6 +13,7 @@ import type { Team } from '../../types/game';
 import { SCORE_ANIMATION_DURATION } from '../../lib/constants/animations';
 import { useAnimatedScore } from '../../lib/hooks/useAnimatedScore';
 import { getOrdinal } from '../../lib/utils/formatters';
+import { PresenceBadge } from './PresenceBadge';
 
 /**
  * Props for the TeamCard component.
@@ -35,6 +36,7 @@ interface TeamCardProps {
  * - Flashes green on score increase, red on decrease
  * - Shows special styling for top 3 positions (gold, silver, bronze)
  * - Displays rank medals and ordinal suffixes
+ * - Shows whether the team's devices are online, idle or offline
  *
  * @param {TeamCardProps} props - Component props
  * @returns {JSX.Element} The rendered team card
@@ -109,7 +111,10 @@ const TeamCard: React.FC<TeamCardProps> = ({ team, index }) => {
         )}
       </div>
       <div className="text-center">
-        <h3 className="font-bold text-lg mb-1">{team.name}</h3>
+        <h3 className="font-bold text-lg mb-1 flex items-center justify-center gap-2">
+          <PresenceBadge lastSeen={team.lastSeen} compact />
+          {team.name}
+        </h3>
         <div className={`text-3xl font-bold ${team.score < 0 ? 'text-red-300' : ''}`}>
           {animatedScore}
         </div>
@@ -0,0 +1,54 @@
+'use client';
+
+import { useState } from 'react';
+
+interface NumericAnswerInputProps {
+  /** The answer already sent this round, or null before answering */
+  submittedAnswer: string | null;
+  onSubmit: (answerText: string) => void;
+}
+
+/** Number entry for a numeric Quick Fire question; the closest answers score most. */
+export function NumericAnswerInput({ submittedAnswer, onSubmit }: NumericAnswerInputProps) {
+  const [value, setValue] = useState('');
+
+  if (submittedAnswer !== null) {
+    return (
+      <div className="bg-gray-800 rounded-xl p-4 text-center">
+        <p className="text-sm text-gray-400">Your answer</p>
+        <p className="text-3xl font-bold tabular-nums">{submittedAnswer}</p>
+      </div>
+    );
+  }
+
+  const trimmed = value.trim();
+
+  return (
+    <form
+      className="flex flex-col gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (trimmed) onSubmit(trimmed);
+      }}
+    >
+      <input
+        type="text"
+        inputMode="decimal"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Your answer"
+        maxLength={30}
+        autoFocus
+        className="w-full px-4 py-4 rounded-xl bg-gray-800 border-2 border-indigo-500 text-3xl font-bold text-center tabular-nums focus:outline-none"
+      />
+      <p className="text-xs text-gray-400 text-center">The closer your number, the more points you earn</p>
+      <button
+        type="submit"
+        disabled={!trimmed}
+        className="w-full py-4 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 font-bold text-lg transition-colors"
+      >
+        Submit
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { ORDERING_SEPARATOR } from '@/lib/utils/questionFormats';
+
+interface OrderingAnswerProps {
+  /** The items as shuffled for this round */
+  items: string[];
+  /** The order already sent this round, or null before answering */
+  submittedAnswer: string | null;
+  onSubmit: (answerText: string) => void;
+}
+
+/**
+ * Put-in-order answer for an ordering Quick Fire question. Players move items
+ * up and down, then submit the whole order; each item in the right place
+ * earns part of the points.
+ */
+export function OrderingAnswer({ items, submittedAnswer, onSubmit }: OrderingAnswerProps) {
+  const [order, setOrder] = useState(items);
+  const isSubmitted = submittedAnswer !== null;
+  const shown = isSubmitted ? submittedAnswer.split(ORDERING_SEPARATOR) : order;
+
+  const move = (from: number, to: number) => {
+    setOrder((prev) => {
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ol className="space-y-2">
+        {shown.map((item, i) => (
+          <li
+            key={item}
+            className={`flex items-center gap-3 p-3 rounded-xl border-2 ${
+              isSubmitted ? 'border-gray-700 bg-gray-800' : 'border-indigo-500 bg-indigo-900'
+            }`}
+          >
+            <span className="text-indigo-300 font-semibold w-5 text-right">{i + 1}.</span>
+            <span className="flex-1 font-medium">{item}</span>
+            {!isSubmitted && (
+              <span className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => move(i, i - 1)}
+                  disabled={i === 0}
+                  aria-label={`Move ${item} up`}
+                  className="px-2 py-1 rounded-lg bg-indigo-700 hover:bg-indigo-600 disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(i, i + 1)}
+                  disabled={i === shown.length - 1}
+                  aria-label={`Move ${item} down`}
+                  className="px-2 py-1 rounded-lg bg-indigo-700 hover:bg-indigo-600 disabled:opacity-30"
+                >
+                  ↓
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {!isSubmitted && (
+        <button
+          type="button"
+          onClick={() => onSubmit(order.join(ORDERING_SEPARATOR))}
+          className="w-full py-4 rounded-xl bg-indigo-600 hover:bg-indigo-700 font-bold text-lg transition-colors"
+        >
+          Lock in order
+        </button>
+      )}
+    </div>
+  );
+}
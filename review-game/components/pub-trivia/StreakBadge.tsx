@@ -0,0 +1,22 @@
+'use client';
+
+interface StreakBadgeProps {
+  /** Correct answers in a row */
+  streak: number;
+  className?: string;
+}
+
+/** Flame badge for a run of two or more correct answers; renders nothing below that. */
+export function StreakBadge({ streak, className = '' }: StreakBadgeProps) {
+  if (streak < 2) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full bg-orange-900 px-2 py-0.5 text-xs font-semibold text-orange-300 ${className}`}
+      title={`${streak} correct answers in a row`}
+    >
+      <span aria-hidden="true">🔥</span>
+      {streak} in a row
+    </span>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Unit tests for AllPlayAnswerPanel.
+ *
+ * Tests the written-answer form shown during all-play clues, focusing on:
+ *   - Character counter updates as the user types
+ *   - Submit button disabled state
+ *   - Request sent to the submit route
+ *   - Confirmation and edit states after submit
+ *   - Server errors surfaced to the team
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import React from 'react';
+import AllPlayAnswerPanel from './AllPlayAnswerPanel';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// getDeviceId returns a stable device ID in tests
+vi.mock('@/hooks/useDeviceId', () => ({
+  getDeviceId: () => 'test-device-id',
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PROPS = {
+  gameId: 'game-abc',
+  teamId: 'team-xyz',
+  questionId: 'question-123',
+};
+
+function mockFetch(ok: boolean, body: object) {
+  global.fetch = vi.fn().mockResolvedValue({
+    ok,
+    json: async () => body,
+  } as Response);
+}
+
+function submitAnswer(answer: string) {
+  fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: answer } });
+  fireEvent.submit(screen.getByRole('button', { name: 'Submit Answer' }).closest('form')!);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('AllPlayAnswerPanel', () => {
+  beforeEach(() => vi.clearAllMocks());
+  afterEach(cleanup);
+
+  it('updates the character counter as the user types', () => {
+    render(<AllPlayAnswerPanel {...DEFAULT_PROPS} />);
+
+    expect(screen.getByText('0 / 500 characters')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: 'Paris' } });
+    expect(screen.getByText('5 / 500 characters')).toBeInTheDocument();
+  });
+
+  it('disables Submit until an answer is typed', () => {
+    render(<AllPlayAnswerPanel {...DEFAULT_PROPS} />);
+
+    expect(screen.getByRole('button', { name: 'Submit Answer' })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: '   ' } });
+    expect(screen.getByRole('button', { name: 'Submit Answer' })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: 'Paris' } });
+    expect(screen.getByRole('button', { name: 'Submit Answer' })).toBeEnabled();
+  });
+
+  it('sends the trimmed answer with the device ID and shows it once submitted', async () => {
+    mockFetch(true, { success: true });
+    render(<AllPlayAnswerPanel {...DEFAULT_PROPS} />);
+
+    submitAnswer('  Paris ');
+
+    await waitFor(() => {
+      expect(screen.getByText('Submitted!')).toBeInTheDocument();
+      expect(screen.getByText('Paris')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/games/game-abc/all-play/submit',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ 'X-Device-ID': 'test-device-id' }),
+        body: JSON.stringify({ teamId: 'team-xyz', questionId: 'question-123', answer: 'Paris' }),
+      })
+    );
+  });
+
+  it('lets the team change a submitted answer', async () => {
+    mockFetch(true, { success: true });
+    render(<AllPlayAnswerPanel {...DEFAULT_PROPS} />);
+
+    submitAnswer('Paris');
+    await waitFor(() => expect(screen.getByText('Submitted!')).toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole('button', { name: 'Change answer' }));
+
+    expect(screen.getByLabelText('Your answer')).toHaveValue('Paris');
+    expect(screen.getByRole('button', { name: 'Update Answer' })).toBeEnabled();
+  });
+
+  it('shows the server error when the submission is rejected', async () => {
+    mockFetch(false, { error: 'Time is up for this clue' });
+    render(<AllPlayAnswerPanel {...DEFAULT_PROPS} />);
+
+    submitAnswer('Paris');
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Time is up for this clue');
+    });
+    expect(screen.queryByText('Submitted!')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview All-play answer panel for student team view.
+ *
+ * Replaces the buzz button while the open clue is played all-play. Every team
+ * types an answer and submits it; the answer can be changed until the teacher
+ * marks it or time runs out.
+ *
+ * @module components/student/AllPlayAnswerPanel
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { CheckCircleIcon } from '@heroicons/react/24/solid';
+import { logger } from '@/lib/logger';
+import { ALL_PLAY } from '@/lib/constants/game';
+import { getDeviceId } from '@/hooks/useDeviceId';
+
+interface AllPlayAnswerPanelProps {
+  gameId: string;
+  teamId: string;
+  questionId: string;
+}
+
+export default function AllPlayAnswerPanel({
+  gameId,
+  teamId,
+  questionId,
+}: AllPlayAnswerPanelProps) {
+  const [answerInput, setAnswerInput] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submittedAnswer, setSubmittedAnswer] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh for each all-play clue
+  useEffect(() => {
+    setAnswerInput('');
+    setSubmittedAnswer(null);
+    setIsEditing(false);
+    setError(null);
+  }, [questionId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const answer = answerInput.trim();
+    if (!answer) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const deviceId = getDeviceId();
+      if (!deviceId) {
+        throw new Error('Device ID not available');
+      }
+
+      const response = await fetch(`/api/games/${gameId}/all-play/submit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Device-ID': deviceId,
+        },
+        body: JSON.stringify({ teamId, questionId, answer }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit');
+      }
+
+      setSubmittedAnswer(answer);
+      setIsEditing(false);
+      logger.info('All-play answer submitted', {
+        operation: 'handleAllPlaySubmit',
+        gameId,
+        teamId,
+        questionId,
+      });
+    } catch (error) {
+      logger.error('Failed to submit all-play answer', error, {
+        operation: 'handleAllPlaySubmit',
+        gameId,
+        teamId,
+        questionId,
+      });
+      setError(
+        error instanceof Error ? error.message : 'Failed to submit. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const showForm = submittedAnswer === null || isEditing;
+
+  return (
+    <div className="w-full max-w-md rounded-lg bg-gradient-to-br from-purple-600 to-blue-600 p-1 shadow-2xl">
+      <div className="rounded-lg bg-white p-6">
+        <h2 className="mb-2 text-center text-2xl font-bold text-gray-900">Everyone Answers!</h2>
+        <p className="mb-6 text-center text-gray-600">
+          Write your team&apos;s answer. Wrong answers don&apos;t lose points.
+        </p>
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <textarea
+                id="all-play-answer"
+                value={answerInput}
+                onChange={(e) => setAnswerInput(e.target.value)}
+                maxLength={ALL_PLAY.ANSWER_MAX_LENGTH}
+                rows={3}
+                className="block w-full rounded-lg border-2 border-gray-300 px-4 py-3 text-lg focus:border-purple-500 focus:outline-none"
+                placeholder="Type your answer here..."
+                disabled={isSubmitting}
+                aria-label="Your answer"
+                aria-describedby="all-play-answer-char-count"
+                aria-invalid={!!error}
+              />
+              <p id="all-play-answer-char-count" className="mt-1 text-xs text-gray-500">
+                {answerInput.length} / {ALL_PLAY.ANSWER_MAX_LENGTH} characters
+              </p>
+              {error && (
+                <p className="mt-2 text-sm text-red-600" role="alert">{error}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || !answerInput.trim()}
+              className="w-full rounded-lg bg-purple-600 px-6 py-4 text-xl font-bold text-white hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Submitting...' : isEditing ? 'Update Answer' : 'Submit Answer'}
+            </button>
+          </form>
+        ) : (
+          <div className="rounded-lg bg-green-50 p-6 text-center">
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-600" />
+            <p className="mt-3 text-xl font-bold text-gray-900">Submitted!</p>
+            <div className="mt-4 rounded-lg border border-gray-200 bg-white p-3 text-left">
+              <p className="text-xs text-gray-500">Your Answer</p>
+              <p className="mt-1 font-medium text-gray-900 break-words">{submittedAnswer}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setAnswerInput(submittedAnswer ?? '');
+                setIsEditing(true);
+              }}
+              className="mt-4 text-sm font-medium text-purple-600 hover:text-purple-800 underline"
+            >
+              Change answer
+            </button>
+            <p className="mt-2 text-sm text-gray-500">
+              Waiting for the teacher to mark answers...
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
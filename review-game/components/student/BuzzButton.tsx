@@ -3,11 +3,14 @@
 import { useState, useRef, useEffect } from 'react';
 import useSound from 'use-sound';
 import { getPositionDisplay } from '@/lib/utils/position';
+import { formatBuzzDelta } from '@/lib/utils/buzzTiming';
 
 /**
  * Button state determines visual appearance and behavior
+ * - ready: clue is open but buzzers are not armed; pressing locks the team out
+ * - locked: team buzzed early and is locked out for a moment
  */
-export type BuzzButtonState = 'active' | 'buzzed' | 'answering' | 'waiting';
+export type BuzzButtonState = 'active' | 'ready' | 'locked' | 'buzzed' | 'answering' | 'waiting';
 
 interface BuzzButtonProps {
   /** Current state of the button */
@@ -22,6 +25,8 @@ interface BuzzButtonProps {
   disableHaptic?: boolean;
   /** Optional: Position in buzz queue (1 = first, 2 = second, etc.) */
   queuePosition?: number | null;
+  /** Optional: Server-decided gap to the first buzz in milliseconds */
+  buzzDeltaMs?: number | null;
 }
 
 /**
@@ -31,7 +36,7 @@ interface BuzzButtonProps {
  * Implements specifications from Phase 8, Section 8.4.
  *
  * Features:
- * - Four visual states (active, buzzed, answering, waiting)
+ * - Six visual states (active, ready, locked, buzzed, answering, waiting)
  * - Sound effects on press
  * - Haptic feedback on mobile devices
  * - Large touch target (250×250px minimum)
@@ -43,6 +48,8 @@ interface BuzzButtonProps {
  * @param size - Button diameter in pixels (default: 250)
  * @param disableSound - Disable sound effects
  * @param disableHaptic - Disable haptic feedback
+ * @param queuePosition - 1-based position in the buzz queue
+ * @param buzzDeltaMs - Gap to the first buzz, shown next to the position
  */
 export const BuzzButton: React.FC<BuzzButtonProps> = ({
   state,
@@ -51,8 +58,10 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
   disableSound = false,
   disableHaptic = false,
   queuePosition = null,
+  buzzDeltaMs = null,
 }) => {
   const [isPressed, setIsPressed] = useState(false);
+  const isPressable = state === 'active' || state === 'ready';
   const pressTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   // Load buzz sound effect
@@ -112,8 +121,9 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
    * - Provides visual feedback with proper cleanup
    */
   const handlePress = () => {
-    // Only allow press when active
-    if (state !== 'active') return;
+    // Allow press when active, and when ready so early buzzes reach the server
+    // and are locked out there
+    if (!isPressable) return;
 
     // Clear any existing timer to prevent race conditions
     if (pressTimerRef.current) {
@@ -142,8 +152,8 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
    * Supports Space and Enter keys
    */
   const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
-    // Only handle Space and Enter when button is active
-    if (state !== 'active') return;
+    // Only handle Space and Enter when button is pressable
+    if (!isPressable) return;
 
     if (e.key === ' ' || e.key === 'Enter') {
       e.preventDefault(); // Prevent default scrolling on Space
@@ -169,6 +179,12 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
       case 'active':
         return `${baseStyle} bg-red-600 hover:bg-red-700 active:scale-95 shadow-2xl hover:shadow-red-500/50`;
 
+      case 'ready':
+        return `${baseStyle} bg-blue-700 hover:bg-blue-800 shadow-xl`;
+
+      case 'locked':
+        return `${baseStyle} bg-orange-500 cursor-not-allowed opacity-90`;
+
       case 'buzzed':
         return `${baseStyle} bg-yellow-400 text-blue-900 cursor-not-allowed opacity-90`;
 
@@ -190,6 +206,10 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
     switch (state) {
       case 'active':
         return 'BUZZ!';
+      case 'ready':
+        return 'WAIT…';
+      case 'locked':
+        return 'LOCKED';
       case 'buzzed':
         return 'BUZZED';
       case 'answering':
@@ -216,7 +236,7 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
       <button
         onClick={handlePress}
         onKeyDown={handleKeyDown}
-        disabled={state !== 'active'}
+        disabled={!isPressable}
         className={getButtonStyle()}
         style={{
           width: `${size}px`,
@@ -226,7 +246,7 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
         }}
         aria-label={`Buzz button - ${state}`}
         aria-pressed={state === 'buzzed'}
-        aria-disabled={state !== 'active'}
+        aria-disabled={!isPressable}
         type="button"
       >
         <span className={getTextSize()}>{getButtonText()}</span>
@@ -241,10 +261,25 @@ export const BuzzButton: React.FC<BuzzButtonProps> = ({
               <span>Ready to buzz in</span>
             </>
           )}
+          {state === 'ready' && (
+            <>
+              <span aria-hidden="true">✋ </span>
+              <span>Wait for buzzers to open — buzzing early locks you out</span>
+            </>
+          )}
+          {state === 'locked' && (
+            <>
+              <span aria-hidden="true">⛔ </span>
+              <span>Too early! Locked out for a moment</span>
+            </>
+          )}
           {state === 'buzzed' && queuePosition && (
             <>
               <span aria-hidden="true">{getPositionDisplay(queuePosition - 1).emoji} </span>
               <span>Position: {getPositionDisplay(queuePosition - 1).text}</span>
+              {buzzDeltaMs !== null && (
+                <span className="text-gray-500"> ({formatBuzzDelta(buzzDeltaMs)})</span>
+              )}
             </>
           )}
           {state === 'buzzed' && !queuePosition && (
@@ -13,6 +13,7 @@
 import React, { useState, useEffect } from 'react';
 import { useGameStore } from '@/lib/stores/gameStore';
 import { logger } from '@/lib/logger';
+import { isFinalJeopardyPhase } from '@/lib/utils/gameRounds';
 import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
 import { getDeviceId } from '@/hooks/useDeviceId';
 
@@ -138,7 +139,7 @@ export default function FinalJeopardyPanel({
   };
 
   // Don't render if not in a Final Jeopardy phase
-  if (!currentPhase || currentPhase === 'regular' || !finalJeopardyQuestion) {
+  if (!isFinalJeopardyPhase(currentPhase) || !finalJeopardyQuestion) {
     return null;
   }
 
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Badge showing the answer matcher's suggestion for a written answer.
+ *
+ * Used while the teacher marks Final Jeopardy and all-play answers. The
+ * suggestion never marks anything by itself.
+ *
+ * @module components/teacher/AnswerMatchBadge
+ */
+
+'use client';
+
+import React from 'react';
+import { ANSWER_MATCH_LABELS } from '@/lib/constants/ui';
+import type { AnswerMatch } from '@/types/game';
+
+interface AnswerMatchBadgeProps {
+  match: AnswerMatch;
+}
+
+export default function AnswerMatchBadge({ match }: AnswerMatchBadgeProps) {
+  const isLikelyCorrect = match.verdict === 'likely_correct';
+  const detail = isLikelyCorrect && match.reason && match.matchedAnswer
+    ? ` · ${ANSWER_MATCH_LABELS[match.reason]} "${match.matchedAnswer}"`
+    : '';
+
+  return (
+    <span
+      className={`inline-block rounded px-2 py-0.5 text-xs font-semibold ${
+        isLikelyCorrect ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+      }`}
+      data-testid="answer-match-badge"
+    >
+      {ANSWER_MATCH_LABELS[match.verdict]}{detail}
+    </span>
+  );
+}
@@ -6,7 +6,8 @@
  *   Step 1 — card is flipped but not graded: wager + answer + grade buttons.
  *   Step 2 — card is graded: wager + answer (read-only), grade buttons gone.
  *
- * "Finish Game" appears only after every team has been graded.
+ * "Finish Game" appears only after every team has been graded. Flipped cards
+ * show the answer matcher's suggestion without grading anything.
  *
  * Integration/API behaviour (onRevealTeam calling the reveal endpoint) is
  * covered by E2E tests; these tests exercise pure React state transitions.
@@ -99,7 +100,16 @@ function makeDefaultProps(overrides: Partial<React.ComponentProps<typeof FinalJe
   };
 }
 
+// Matcher suggestions loaded when the reveal phase begins
+function mockAnswerMatches(matches: object = {}) {
+  global.fetch = vi.fn().mockResolvedValue({
+    ok: true,
+    json: async () => ({ matches }),
+  } as Response);
+}
+
 function setStore(overrides: object = {}) {
+  mockAnswerMatches();
   mockUseGameStore.mockReturnValue({
     currentPhase: 'final_jeopardy_reveal',
     finalJeopardyQuestion: FJ_QUESTION,
@@ -203,6 +213,27 @@ describe('FinalJeopardyModal — reveal phase card flip', () => {
     });
   });
 
+  it('shows the matcher suggestion on a flipped card without grading it', async () => {
+    const onRevealTeam = vi.fn().mockResolvedValue(undefined);
+    setStore();
+    mockAnswerMatches({
+      'team-1': { verdict: 'likely_correct', matchedAnswer: 'Moskow', reason: 'typo' },
+    });
+    render(<FinalJeopardyModal {...makeDefaultProps({ onRevealTeam })} />);
+
+    fireEvent.click(screen.getByText('Click to reveal'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('answer-match-badge')).toHaveTextContent('Likely correct · close to "Moskow"');
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/games/game-abc/final-jeopardy/answer-matches',
+      expect.objectContaining({ cache: 'no-store' })
+    );
+    expect(onRevealTeam).not.toHaveBeenCalled();
+    expect(screen.getByText('Correct')).toBeInTheDocument();
+  });
+
   it('grading incorrect calls onRevealTeam with isCorrect=false', async () => {
     const onRevealTeam = vi.fn().mockResolvedValue(undefined);
     setStore();
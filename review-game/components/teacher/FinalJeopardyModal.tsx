@@ -5,7 +5,8 @@
  * - Wager/submission phase: Teams submit wager + answer simultaneously.
  *   Teacher can optionally reveal the question text before teams submit.
  * - Revealing phase: Teacher reveals and grades each team one at a time
- *   via a two-step card flip (click to reveal, then grade).
+ *   via a two-step card flip (click to reveal, then grade). Flipped cards
+ *   show the answer matcher's suggestion; grading stays with the teacher.
  *
  * @module components/teacher/FinalJeopardyModal
  */
@@ -16,8 +17,9 @@ import React, { Fragment, useState, useEffect, useRef } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
 import { useGameStore } from '@/lib/stores/gameStore';
-import type { GamePhase } from '@/types/game';
+import type { AnswerMatch, GamePhase } from '@/types/game';
 import { logger } from '@/lib/logger';
+import AnswerMatchBadge from './AnswerMatchBadge';
 
 interface FinalJeopardyModalProps {
   isOpen: boolean;
@@ -50,6 +52,8 @@ export default function FinalJeopardyModal({
   const [flippedCards, setFlippedCards] = useState<Set<string>>(new Set());
   // revealedTeams: teams that have been fully graded (Correct/Incorrect clicked → API call)
   const [revealedTeams, setRevealedTeams] = useState<Set<string>>(new Set());
+  // answerMatches: matcher suggestions keyed by team ID, loaded once reveals begin
+  const [answerMatches, setAnswerMatches] = useState<Record<string, AnswerMatch>>({});
   const buttonRef = useRef<HTMLButtonElement>(null);
   const prevPhaseRef = useRef<GamePhase | null>(null);
   // Frozen at the moment we enter reveal phase so late-arriving team subscriptions
@@ -71,6 +75,7 @@ export default function FinalJeopardyModal({
     if (isEnteringWagerPhase) {
       setFlippedCards(new Set());
       setRevealedTeams(new Set());
+      setAnswerMatches({});
       frozenRevealTotalRef.current = null;
     }
 
@@ -81,6 +86,44 @@ export default function FinalJeopardyModal({
     prevPhaseRef.current = currentPhase;
   }, [isOpen, currentPhase, allTeams.length]);
 
+  // Load matcher suggestions once every answer is locked in
+  useEffect(() => {
+    if (!isOpen || currentPhase !== 'final_jeopardy_reveal') {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadAnswerMatches = async () => {
+      try {
+        const response = await fetch(`/api/games/${gameId}/final-jeopardy/answer-matches`, { cache: 'no-store' });
+        if (!response.ok) {
+          logger.warn('Failed to load Final Jeopardy answer matches', {
+            gameId,
+            status: response.status,
+            operation: 'loadAnswerMatches',
+          });
+          return;
+        }
+
+        const data: { matches: Record<string, AnswerMatch> } = await response.json();
+        if (!cancelled) {
+          setAnswerMatches(data.matches);
+        }
+      } catch (error) {
+        logger.error('Exception while loading Final Jeopardy answer matches', error, {
+          gameId,
+          operation: 'loadAnswerMatches',
+        });
+      }
+    };
+
+    void loadAnswerMatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, currentPhase, gameId]);
+
   // Get teams with submission status for the wager phase
   const teamsWithData = allTeams.map(team => ({
     ...team,
@@ -326,6 +369,7 @@ export default function FinalJeopardyModal({
                           const isGraded = revealedTeams.has(team.id);
                           const wager = team.final_jeopardy_wager ?? 0;
                           const answer = team.final_jeopardy_answer ?? '(No answer)';
+                          const match = answerMatches[team.id];
 
                           return (
                             <div
@@ -368,6 +412,11 @@ export default function FinalJeopardyModal({
                                   <div className="rounded bg-gray-100 p-3">
                                     <p className="text-xs font-medium text-gray-600">Answer</p>
                                     <p className="text-sm text-gray-900">{answer}</p>
+                                    {match && (
+                                      <div className="mt-2">
+                                        <AnswerMatchBadge match={match} />
+                                      </div>
+                                    )}
                                   </div>
                                   <div className="flex gap-2">
                                     <button
@@ -48,6 +48,25 @@ interface GameCompleteModalProps {
    * Optional callback to start Final Jeopardy. Only rendered when provided.
    */
   onStartFinalJeopardy?: () => void;
+  /**
+   * Optional callback to start the Double Jeopardy round after the first
+   * board clears. Only rendered when provided.
+   */
+  onStartDoubleJeopardy?: () => void;
+  /**
+   * Optional callback to open the game recap once nothing is left to play.
+   * Only rendered when provided.
+   */
+  onViewRecap?: () => void;
+  /**
+   * Optional callback to settle a tie for first with a tie-breaker clue.
+   * Only rendered when provided.
+   */
+  onStartTieBreaker?: () => void;
+  /**
+   * Team that won a tie-breaker; shown first and noted under its name.
+   */
+  tieBreakerWinnerId?: string | null;
 }
 
 /**
@@ -71,6 +90,10 @@ export default function GameCompleteModal({
   onReturnToDashboard,
   onPlayAgain,
   onStartFinalJeopardy,
+  onStartDoubleJeopardy,
+  onViewRecap,
+  onStartTieBreaker,
+  tieBreakerWinnerId = null,
 }: GameCompleteModalProps) {
   // Ref for focus management
   const returnButtonRef = useRef<HTMLButtonElement>(null);
@@ -222,17 +245,22 @@ export default function GameCompleteModal({
                             >
                               {team.rank}
                             </span>
-                            <span
-                              className={`
-                                font-semibold
-                                ${isWinner
-                                  ? 'text-2xl text-gray-900'
-                                  : 'text-lg text-gray-800'
-                                }
-                              `}
-                            >
-                              {team.teamName}
-                            </span>
+                            <div>
+                              <span
+                                className={`
+                                  font-semibold
+                                  ${isWinner
+                                    ? 'text-2xl text-gray-900'
+                                    : 'text-lg text-gray-800'
+                                  }
+                                `}
+                              >
+                                {team.teamName}
+                              </span>
+                              {team.teamId === tieBreakerWinnerId && (
+                                <p className="text-sm font-medium text-amber-700">Won the tie-breaker</p>
+                              )}
+                            </div>
                           </div>
 
                           {/* Score and Trophy */}
@@ -276,6 +304,26 @@ export default function GameCompleteModal({
 
                 {/* Action Buttons */}
                 <div className="bg-gray-50 px-6 py-4 flex flex-col sm:flex-row justify-center gap-3">
+                  {onStartDoubleJeopardy && (
+                    <button
+                      type="button"
+                      onClick={onStartDoubleJeopardy}
+                      className="w-full sm:w-auto px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2"
+                      aria-label="Start Double Jeopardy round"
+                    >
+                      Start Double Jeopardy
+                    </button>
+                  )}
+                  {onStartTieBreaker && (
+                    <button
+                      type="button"
+                      onClick={onStartTieBreaker}
+                      className="w-full sm:w-auto px-6 py-3 bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-rose-500 focus:ring-offset-2"
+                      aria-label="Start a tie-breaker between the teams tied for first"
+                    >
+                      Start Tie-Breaker
+                    </button>
+                  )}
                   {onStartFinalJeopardy && (
                     <button
                       type="button"
@@ -295,6 +343,16 @@ export default function GameCompleteModal({
                   >
                     Return to Dashboard
                   </button>
+                  {onViewRecap && (
+                    <button
+                      type="button"
+                      onClick={onViewRecap}
+                      className="w-full sm:w-auto px-6 py-3 bg-white hover:bg-gray-100 text-blue-700 border border-blue-300 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                      aria-label="View game recap"
+                    >
+                      View Recap
+                    </button>
+                  )}
                   {onPlayAgain && (
                     <button
                       type="button"
@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Modal component for manual score adjustments.
+ *
+ * Lets the teacher add or remove points from a team with a required reason,
+ * which is stored with the change in the score ledger.
+ *
+ * @module components/teacher/ScoreAdjustModal
+ */
+
+'use client';
+
+import { Fragment, useState, useRef } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { SCORE_LEDGER } from '@/lib/constants/game';
+import type { Tables } from '@/types/database.types';
+
+type Team = Tables<'teams'>;
+
+export interface ScoreAdjustment {
+  teamId: string;
+  delta: number;
+  note: string;
+}
+
+interface ScoreAdjustModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (adjustment: ScoreAdjustment) => Promise<void>;
+  teams: Team[];
+}
+
+/**
+ * Manual score adjustment modal component.
+ *
+ * Validates the team, points and reason before calling onConfirm and keeps
+ * the dialog open with the error if the adjustment fails.
+ */
+export default function ScoreAdjustModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  teams,
+}: ScoreAdjustModalProps) {
+  const [teamId, setTeamId] = useState('');
+  const [direction, setDirection] = useState<'add' | 'remove'>('add');
+  const [points, setPoints] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+
+  /**
+   * Clears the form so the next adjustment starts empty.
+   */
+  const resetForm = () => {
+    setTeamId('');
+    setDirection('add');
+    setPoints('');
+    setNote('');
+    setError(null);
+  };
+
+  /**
+   * Validates the form and submits the adjustment.
+   * Closes the modal on success.
+   */
+  const handleConfirm = async () => {
+    const amount = Number(points);
+    const trimmedNote = note.trim();
+
+    if (!teamId) {
+      setError('Select a team');
+      return;
+    }
+    if (!Number.isInteger(amount) || amount <= 0 || amount > SCORE_LEDGER.MAX_ADJUSTMENT) {
+      setError(`Points must be a whole number from 1 to ${SCORE_LEDGER.MAX_ADJUSTMENT}`);
+      return;
+    }
+    if (!trimmedNote) {
+      setError('Enter a reason for the adjustment');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm({
+        teamId,
+        delta: direction === 'add' ? amount : -amount,
+        note: trimmedNote,
+      });
+      resetForm();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to adjust score');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handles modal close.
+   * Resets the form and calls onClose callback.
+   */
+  const handleClose = () => {
+    if (!isSubmitting) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose} initialFocus={cancelButtonRef}>
+        {/* Backdrop */}
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        {/* Modal container */}
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg font-medium leading-6 text-gray-900"
+                  >
+                    Adjust Score
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isSubmitting}
+                    className="text-gray-400 hover:text-gray-500 disabled:opacity-50"
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* Error message */}
+                {error && (
+                  <div className="mb-4 rounded-lg bg-red-50 p-4">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                )}
+
+                {/* Form */}
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="adjust-team" className="block text-sm font-medium text-gray-700 mb-1">
+                      Team
+                    </label>
+                    <select
+                      id="adjust-team"
+                      value={teamId}
+                      onChange={(e) => setTeamId(e.target.value)}
+                      disabled={isSubmitting}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select a team</option>
+                      {teams.map((team) => (
+                        <option key={team.id} value={team.id}>
+                          {team.team_name || `Team ${team.team_number}`} ({team.score ?? 0})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="adjust-points" className="block text-sm font-medium text-gray-700 mb-1">
+                      Points
+                    </label>
+                    <div className="flex gap-2">
+                      <div className="inline-flex rounded-md shadow-sm" role="group">
+                        <button
+                          type="button"
+                          onClick={() => setDirection('add')}
+                          disabled={isSubmitting}
+                          aria-pressed={direction === 'add'}
+                          className={`px-3 py-2 text-sm font-medium rounded-l-md border ${
+                            direction === 'add'
+                              ? 'bg-green-600 border-green-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          Add
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDirection('remove')}
+                          disabled={isSubmitting}
+                          aria-pressed={direction === 'remove'}
+                          className={`px-3 py-2 text-sm font-medium rounded-r-md border-t border-r border-b ${
+                            direction === 'remove'
+                              ? 'bg-red-600 border-red-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <input
+                        id="adjust-points"
+                        type="number"
+                        min={1}
+                        max={SCORE_LEDGER.MAX_ADJUSTMENT}
+                        step={1}
+                        value={points}
+                        onChange={(e) => setPoints(e.target.value)}
+                        disabled={isSubmitting}
+                        className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label htmlFor="adjust-note" className="block text-sm font-medium text-gray-700 mb-1">
+                      Reason
+                    </label>
+                    <input
+                      id="adjust-note"
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={SCORE_LEDGER.MAX_NOTE_LENGTH}
+                      placeholder="e.g. Accepted an alternate answer"
+                      disabled={isSubmitting}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  {/* Action Buttons */}
+                  <div className="flex justify-end space-x-3 pt-4">
+                    <button
+                      ref={cancelButtonRef}
+                      type="button"
+                      onClick={handleClose}
+                      disabled={isSubmitting}
+                      className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleConfirm}
+                      disabled={isSubmitting}
+                      className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isSubmitting ? 'Saving...' : 'Apply Adjustment'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Score history panel for the teacher control page.
+ *
+ * Lists recent score changes from the score ledger and offers undo, redo and
+ * manual adjustments so the teacher can correct a misclick on the board.
+ *
+ * @module components/teacher/ScoreLedgerPanel
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon } from '@heroicons/react/24/outline';
+import ScoreAdjustModal, { type ScoreAdjustment } from '@/components/teacher/ScoreAdjustModal';
+import { SCORE_LEDGER } from '@/lib/constants/game';
+import { SCORE_EVENT_LABELS } from '@/lib/constants/ui';
+import { logger } from '@/lib/logger';
+import { formatScoreDelta } from '@/lib/utils/scoreLedger';
+import type { Tables } from '@/types/database.types';
+import type { ScoreEvent } from '@/types/game';
+
+type Team = Tables<'teams'>;
+
+interface ScoreLedgerPanelProps {
+  gameId: string;
+  teams: Team[];
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+interface LedgerResponse {
+  events: ScoreEvent[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Score history panel component.
+ *
+ * Reloads the ledger whenever a team score changes, which covers changes
+ * made from the board as well as the ones made here.
+ */
+export default function ScoreLedgerPanel({
+  gameId,
+  teams,
+  onError,
+  onSuccess,
+}: ScoreLedgerPanelProps) {
+  const [ledger, setLedger] = useState<LedgerResponse>({ events: [], canUndo: false, canRedo: false });
+  const [isBusy, setIsBusy] = useState(false);
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+
+  // Changes whenever any team score changes
+  const scoreKey = teams.map((t) => `${t.id}:${t.score ?? 0}`).join(',');
+
+  const teamName = (teamId: string) => {
+    const team = teams.find((t) => t.id === teamId);
+    return team ? team.team_name || `Team ${team.team_number}` : 'Removed team';
+  };
+
+  /**
+   * Fetches the ledger for the game.
+   */
+  const loadLedger = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${gameId}/scores`, { cache: 'no-store' });
+      if (!response.ok) {
+        logger.warn('Failed to fetch score ledger', {
+          gameId,
+          status: response.status,
+          operation: 'loadScoreLedger',
+        });
+        return;
+      }
+      setLedger(await response.json());
+    } catch (error) {
+      logger.error('Exception while fetching score ledger', error, {
+        gameId,
+        operation: 'loadScoreLedger',
+      });
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger, scoreKey]);
+
+  /**
+   * Calls the undo or redo endpoint and reports the outcome.
+   */
+  const handleStep = async (step: 'undo' | 'redo') => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`/api/games/${gameId}/scores/${step}`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        onError(data.error || `Failed to ${step} score change`);
+        return;
+      }
+
+      onSuccess(`${step === 'undo' ? 'Undid' : 'Redid'} change for ${teamName(data.teamId)} (now ${data.newScore})`);
+      await loadLedger();
+    } catch (error) {
+      logger.error(`Exception during score ${step}`, error, {
+        gameId,
+        operation: step === 'undo' ? 'undoScoreEvent' : 'redoScoreEvent',
+      });
+      onError(`Failed to ${step} score change. Please try again.`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Submits a manual adjustment. Throws so the modal can show the error.
+   */
+  const handleAdjust = async (adjustment: ScoreAdjustment) => {
+    const response = await fetch(`/api/games/${gameId}/scores`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(adjustment),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to adjust score');
+    }
+
+    onSuccess(`${teamName(adjustment.teamId)} ${formatScoreDelta(adjustment.delta)} (now ${data.newScore})`);
+    await loadLedger();
+  };
+
+  const recentEvents = ledger.events.slice(0, SCORE_LEDGER.HISTORY_DISPLAY_LIMIT);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900">Score History</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleStep('undo')}
+            disabled={isBusy || !ledger.canUndo}
+            className="inline-flex items-center gap-1 px-3 py-1 border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowUturnLeftIcon className="h-4 w-4" />
+            Undo
+          </button>
+          <button
+            onClick={() => handleStep('redo')}
+            disabled={isBusy || !ledger.canRedo}
+            className="inline-flex items-center gap-1 px-3 py-1 border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowUturnRightIcon className="h-4 w-4" />
+            Redo
+          </button>
+          <button
+            onClick={() => setShowAdjustModal(true)}
+            disabled={isBusy || teams.length === 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Adjust Score
+          </button>
+        </div>
+      </div>
+
+      {recentEvents.length === 0 ? (
+        <p className="text-center py-4 text-gray-500">No score changes yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {recentEvents.map((event) => (
+            <li
+              key={event.id}
+              className={`py-2 flex items-start justify-between gap-3 ${event.undoneAt ? 'opacity-50' : ''}`}
+            >
+              <div className="min-w-0">
+                <p className={`text-sm font-medium text-gray-900 ${event.undoneAt ? 'line-through' : ''}`}>
+                  {teamName(event.teamId)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {SCORE_EVENT_LABELS[event.reason]}
+                  {event.note ? ` — ${event.note}` : ''}
+                  {event.undoneAt ? ' (undone)' : ''}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className={`text-sm font-semibold ${event.delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatScoreDelta(event.delta)}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {new Date(event.createdAt).toLocaleTimeString()}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ScoreAdjustModal
+        isOpen={showAdjustModal}
+        onClose={() => setShowAdjustModal(false)}
+        onConfirm={handleAdjust}
+        teams={teams}
+      />
+    </div>
+  );
+}
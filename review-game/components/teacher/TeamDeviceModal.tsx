@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Modal component for recovering a team's lost captain device.
+ *
+ * Shows the devices playing for a team and lets the teacher hand the
+ * captaincy to another member or release the captain's device and give the
+ * student a one-time rejoin code for their new device. Every change is listed
+ * from the team's device audit trail.
+ *
+ * @module components/teacher/TeamDeviceModal
+ */
+
+'use client';
+
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { TEAM_DEVICE_EVENT_LABELS } from '@/lib/constants/ui';
+import { logger } from '@/lib/logger';
+import type { Tables } from '@/types/database.types';
+import type { RejoinCode, TeamDeviceEvent, TeamMember } from '@/types/game';
+
+type Team = Tables<'teams'>;
+
+interface TeamDeviceModalProps {
+  gameId: string;
+  // Team being managed; the modal is open while this is set
+  team: Team | null;
+  onClose: () => void;
+  onSuccess: (message: string) => void;
+}
+
+interface TeamDevicesResponse {
+  members: TeamMember[];
+  rejoinCode: RejoinCode | null;
+  events: TeamDeviceEvent[];
+}
+
+const EMPTY_DEVICES: TeamDevicesResponse = { members: [], rejoinCode: null, events: [] };
+
+/**
+ * Describes who an audit trail entry moved the captaincy from and to.
+ */
+const describeEvent = (event: TeamDeviceEvent): string => {
+  switch (event.action) {
+    case 'released':
+      return event.previousDisplayName ? `${event.previousDisplayName}'s device removed` : 'No captain device';
+    case 'transferred':
+      return `${event.previousDisplayName ?? 'No captain'} → ${event.newDisplayName ?? 'Unknown'}`;
+    case 'reclaimed':
+      return `${event.newDisplayName ?? 'A student'} rejoined on a new device`;
+  }
+};
+
+/**
+ * Team device recovery modal component.
+ *
+ * Keeps the dialog open after an action so the teacher can read the rejoin
+ * code out to the student.
+ */
+export default function TeamDeviceModal({
+  gameId,
+  team,
+  onClose,
+  onSuccess,
+}: TeamDeviceModalProps) {
+  const [devices, setDevices] = useState<TeamDevicesResponse>(EMPTY_DEVICES);
+  const [isBusy, setIsBusy] = useState(false);
+  const [confirmRelease, setConfirmRelease] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const teamId = team?.id;
+  const teamName = team ? team.team_name || `Team ${team.team_number}` : '';
+
+  /**
+   * Fetches the team's devices, rejoin code and audit trail.
+   */
+  const loadDevices = useCallback(async () => {
+    if (!teamId) return;
+    try {
+      const response = await fetch(`/api/games/${gameId}/teams/${teamId}/device`, { cache: 'no-store' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to load team devices');
+        return;
+      }
+      setDevices(data);
+    } catch (err) {
+      logger.error('Exception while fetching team devices', err, {
+        gameId,
+        teamId,
+        operation: 'loadTeamDevices',
+      });
+      setError('Failed to load team devices');
+    }
+  }, [gameId, teamId]);
+
+  useEffect(() => {
+    setDevices(EMPTY_DEVICES);
+    setConfirmRelease(false);
+    setError(null);
+    loadDevices();
+  }, [loadDevices]);
+
+  /**
+   * Calls the device endpoint and reloads the team's devices.
+   */
+  const changeDevice = async (body: { action: 'release' } | { action: 'transfer'; memberId: string }) => {
+    if (!teamId) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/games/${gameId}/teams/${teamId}/device`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update team device');
+        return;
+      }
+
+      onSuccess(
+        body.action === 'release'
+          ? `${teamName} released. Rejoin code: ${data.rejoinCode.code}`
+          : `${data.captain} is now captain of ${teamName}`
+      );
+      setConfirmRelease(false);
+      await loadDevices();
+    } catch (err) {
+      logger.error('Exception while changing team device', err, {
+        gameId,
+        teamId,
+        operation: 'changeTeamDevice',
+      });
+      setError('Failed to update team device. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Handles modal close while no request is in flight.
+   */
+  const handleClose = () => {
+    if (!isBusy) {
+      onClose();
+    }
+  };
+
+  const hasCaptain = devices.members.some((m) => m.isCaptain);
+
+  return (
+    <Transition appear show={team !== null} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose} initialFocus={closeButtonRef}>
+        {/* Backdrop */}
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        {/* Modal container */}
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg font-medium leading-6 text-gray-900"
+                  >
+                    {teamName} Devices
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isBusy}
+                    className="text-gray-400 hover:text-gray-500 disabled:opacity-50"
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* Error message */}
+                {error && (
+                  <div className="mb-4 rounded-lg bg-red-50 p-4">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                )}
+
+                {/* Outstanding rejoin code */}
+                {devices.rejoinCode && (
+                  <div className="mb-4 rounded-lg bg-blue-50 border border-blue-200 p-4 text-center">
+                    <p className="text-sm text-blue-800 mb-1">Rejoin code</p>
+                    <p className="text-3xl font-mono font-bold tracking-widest text-blue-900">
+                      {devices.rejoinCode.code}
+                    </p>
+                    <p className="text-xs text-blue-700 mt-2">
+                      The student enters this on the join page from their new device.
+                      Valid until {new Date(devices.rejoinCode.expiresAt).toLocaleTimeString()}.
+                    </p>
+                  </div>
+                )}
+
+                {/* Members */}
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Devices on this team</h4>
+                {devices.members.length === 0 ? (
+                  <p className="text-sm text-gray-500 mb-4">No devices are on this team.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 mb-4">
+                    {devices.members.map((member) => (
+                      <li key={member.id} className="py-2 flex items-center justify-between gap-3">
+                        <span className="text-sm text-gray-900">
+                          {member.displayName}
+                          {member.isCaptain && (
+                            <span className="ml-2 px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs font-semibold rounded-full">
+                              Captain
+                            </span>
+                          )}
+                        </span>
+                        {!member.isCaptain && (
+                          <button
+                            type="button"
+                            onClick={() => changeDevice({ action: 'transfer', memberId: member.id })}
+                            disabled={isBusy}
+                            className="px-3 py-1 border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Make Captain
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Release */}
+                {confirmRelease ? (
+                  <div className="mb-4 rounded-lg bg-yellow-50 border border-yellow-200 p-4">
+                    <p className="text-sm text-yellow-800 mb-3">
+                      {hasCaptain
+                        ? 'The captain\'s current device will be removed from the team. Use this when it was lost or its browser data was cleared.'
+                        : 'A new rejoin code will replace any earlier one.'}
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setConfirmRelease(false)}
+                        disabled={isBusy}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => changeDevice({ action: 'release' })}
+                        disabled={isBusy}
+                        className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+                      >
+                        {isBusy ? 'Releasing...' : 'Release Device'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRelease(true)}
+                    disabled={isBusy}
+                    className="w-full mb-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {hasCaptain ? 'Release Captain Device' : 'Issue New Rejoin Code'}
+                  </button>
+                )}
+
+                {/* Audit trail */}
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Device history</h4>
+                {devices.events.length === 0 ? (
+                  <p className="text-sm text-gray-500">No device changes yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                    {devices.events.map((event) => (
+                      <li key={event.id} className="py-2 flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900">
+                            {TEAM_DEVICE_EVENT_LABELS[event.action]}
+                          </p>
+                          <p className="text-xs text-gray-500">{describeEvent(event)}</p>
+                        </div>
+                        <p className="text-xs text-gray-400 shrink-0">
+                          {new Date(event.createdAt).toLocaleTimeString()}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex justify-end pt-4">
+                  <button
+                    ref={closeButtonRef}
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isBusy}
+                    className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
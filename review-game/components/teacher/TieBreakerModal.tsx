@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Tie-breaker Modal for teacher control.
+ *
+ * Runs the sudden-death clue between teams tied for first: the teacher reads
+ * the clue, opens buzzers and judges the team at the head of the queue. The
+ * first correct answer wins; when every tied team has missed, the teacher can
+ * draw another clue or end the tie-breaker and leave the tie standing.
+ *
+ * @module components/teacher/TieBreakerModal
+ */
+
+'use client';
+
+import React, { Fragment, useState, useRef } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+import { useGameStore } from '@/lib/stores/gameStore';
+import { logger } from '@/lib/logger';
+
+interface TieBreakerModalProps {
+  isOpen: boolean;
+  gameId: string;
+  onOpenBuzzers: () => Promise<void>;
+  onJudge: (teamId: string, isCorrect: boolean) => Promise<void>;
+  onNextClue: () => Promise<void>;
+  onEnd: () => Promise<void>;
+}
+
+export default function TieBreakerModal({
+  isOpen,
+  gameId,
+  onOpenBuzzers,
+  onJudge,
+  onNextClue,
+  onEnd,
+}: TieBreakerModalProps) {
+  const { tieBreaker, allTeams } = useGameStore();
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Runs a teacher action; the board page shows the error toast on failure
+  const runAction = async (action: () => Promise<void>, operation: string) => {
+    setIsProcessing(true);
+    try {
+      await action();
+    } catch (error) {
+      logger.error('Tie-breaker action failed', error, {
+        operation,
+        gameId,
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleEnd = () => {
+    if (!confirm('End the tie-breaker without a winner? The tied teams will share first place.')) {
+      return;
+    }
+    runAction(onEnd, 'handleEndTieBreaker');
+  };
+
+  if (!tieBreaker) {
+    return null;
+  }
+
+  const teamName = (teamId: string) =>
+    allTeams.find((team) => team.id === teamId)?.name ?? 'Unknown team';
+  const answeringTeamId = tieBreaker.queue[0]?.teamId ?? null;
+  // Every tied team has missed, so only a new clue can settle the tie
+  const allMissed = tieBreaker.dismissedTeamIds.length >= tieBreaker.teamIds.length;
+
+  return (
+    <Transition show={isOpen} as={Fragment}>
+      <Dialog
+        as="div"
+        className="relative z-50"
+        onClose={() => {}}
+        static
+        initialFocus={buttonRef}
+      >
+        {/* Backdrop */}
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-red-900/90 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-2xl bg-white shadow-2xl transition-all">
+                {/* Header */}
+                <div className="bg-gradient-to-r from-rose-500 to-red-600 px-6 py-8 text-center">
+                  <Dialog.Title className="text-4xl font-bold text-white">
+                    Tie-Breaker
+                  </Dialog.Title>
+                  <p className="mt-2 text-xl text-rose-100">
+                    Clue {tieBreaker.clueNumber} &middot; Category: {tieBreaker.category}
+                  </p>
+                </div>
+
+                <div className="px-6 py-6 space-y-6">
+                  {/* Clue and answer */}
+                  <div className="rounded-lg bg-rose-50 p-4 text-center">
+                    <p className="text-2xl font-medium text-gray-900">{tieBreaker.question}</p>
+                    {tieBreaker.answer && (
+                      <p className="mt-3 text-sm text-green-700">Answer: {tieBreaker.answer}</p>
+                    )}
+                  </div>
+
+                  {/* Tied teams */}
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {tieBreaker.teamIds.map((teamId) => {
+                      const position = tieBreaker.queue.findIndex((entry) => entry.teamId === teamId);
+                      const missed = tieBreaker.dismissedTeamIds.includes(teamId);
+
+                      return (
+                        <div
+                          key={teamId}
+                          className={`rounded-lg border-2 px-4 py-3 ${
+                            teamId === answeringTeamId
+                              ? 'border-rose-500 bg-rose-50'
+                              : missed
+                                ? 'border-gray-200 bg-gray-100 opacity-60'
+                                : 'border-gray-300 bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-gray-900">{teamName(teamId)}</span>
+                            <span className="text-sm text-gray-600">
+                              {missed
+                                ? 'Missed'
+                                : position === 0
+                                  ? 'Answering'
+                                  : position > 0
+                                    ? `#${position + 1} in queue`
+                                    : tieBreaker.buzzersOpen ? 'Waiting to buzz' : 'Buzzers closed'}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* Judging */}
+                  {answeringTeamId && (
+                    <div className="flex flex-col items-center gap-3">
+                      <p className="text-lg font-medium text-gray-900">
+                        {teamName(answeringTeamId)} is answering
+                      </p>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => runAction(() => onJudge(answeringTeamId, true), 'handleJudgeTieBreaker')}
+                          disabled={isProcessing}
+                          className="flex items-center gap-2 rounded-lg bg-green-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <CheckCircleIcon className="h-5 w-5" aria-hidden="true" />
+                          Correct
+                        </button>
+                        <button
+                          onClick={() => runAction(() => onJudge(answeringTeamId, false), 'handleJudgeTieBreaker')}
+                          disabled={isProcessing}
+                          className="flex items-center gap-2 rounded-lg bg-red-600 px-6 py-3 font-semibold text-white transition-colors hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          <XCircleIcon className="h-5 w-5" aria-hidden="true" />
+                          Incorrect
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {tieBreaker.buzzersOpen && !answeringTeamId && (
+                    <p className="text-center text-lg font-medium text-gray-700">
+                      {allMissed ? 'Every team missed this clue.' : 'Waiting for a team to buzz...'}
+                    </p>
+                  )}
+
+                  {/* Teacher actions */}
+                  <div className="flex gap-3">
+                    {!tieBreaker.buzzersOpen ? (
+                      <button
+                        ref={buttonRef}
+                        onClick={() => runAction(onOpenBuzzers, 'handleOpenTieBreakerBuzzers')}
+                        disabled={isProcessing}
+                        className="flex-1 rounded-lg bg-gradient-to-r from-rose-500 to-red-600 px-6 py-3 font-semibold text-white transition-colors hover:from-rose-600 hover:to-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {isProcessing ? 'Processing...' : 'Open Buzzers'}
+                      </button>
+                    ) : (
+                      <button
+                        ref={buttonRef}
+                        onClick={() => runAction(onNextClue, 'handleNextTieBreakerClue')}
+                        disabled={isProcessing || !!answeringTeamId}
+                        className="flex-1 rounded-lg bg-gradient-to-r from-rose-500 to-red-600 px-6 py-3 font-semibold text-white transition-colors hover:from-rose-600 hover:to-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {isProcessing ? 'Processing...' : 'Next Clue'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleEnd}
+                      disabled={isProcessing}
+                      className="rounded-lg border border-gray-300 bg-white px-6 py-3 font-semibold text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      End Without Winner
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
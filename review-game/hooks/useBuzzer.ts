@@ -13,18 +13,94 @@ import { useGameStore } from '../lib/stores/gameStore';
 import { createClient } from '../lib/supabase/client';
 import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import { logger } from '../lib/logger';
-import type { Question, FinalJeopardyQuestion, GamePhase } from '../types/game';
+import { BUZZER } from '../lib/constants/game';
+import { estimateClockOffset, type ClockSample } from '../lib/utils/buzzTiming';
+import type { Question, FinalJeopardyQuestion, GamePhase, BuzzEntry, BuzzQueueUpdate, StealTurn, AnswerClock, TieBreakerState } from '../types/game';
 
 /**
- * Represents a buzz event sent by a team.
+ * Response body of POST /api/games/[gameId]/buzz.
  *
- * @interface BuzzEvent
- * @property {string} teamId - The unique identifier of the team that buzzed
- * @property {number} timestamp - The timestamp (milliseconds) when the buzz occurred
+ * @interface BuzzResponse
+ * @property {BuzzEntry[]} queue - The queue for the clue in server-decided order
+ * @property {number} revision - Server revision of the queue
+ * @property {number | null} position - 0-based position of the buzzing team
  */
-interface BuzzEvent {
+interface BuzzResponse {
+  queue: BuzzEntry[];
+  revision: number;
+  position: number | null;
+}
+
+/**
+ * Outcome of a buzz attempt as reported to the caller.
+ *
+ * @interface BuzzResult
+ * @property {boolean} accepted - Whether the server queued the buzz
+ * @property {number | null} lockoutRemainingMs - Remaining lockout when the buzz was early, otherwise null
+ */
+export interface BuzzResult {
+  accepted: boolean;
+  lockoutRemainingMs: number | null;
+}
+
+/**
+ * Payload structure for buzzers armed events.
+ *
+ * @interface BuzzersArmedPayload
+ * @property {string} questionId - The question buzzers were armed for
+ * @property {string} armedAt - Server time buzzers were armed (ISO 8601)
+ */
+interface BuzzersArmedPayload {
+  questionId: string;
+  armedAt: string;
+}
+
+/**
+ * Payload structure for all-play start events.
+ *
+ * @interface AllPlayStartedPayload
+ * @property {string} questionId - The clue now collecting written responses
+ * @property {string | null} closesAt - Submission deadline (ISO 8601), or null without a timer
+ */
+interface AllPlayStartedPayload {
+  questionId: string;
+  closesAt: string | null;
+}
+
+/**
+ * Payload structure for all-play submission events (sent by the submit API route).
+ * The answer itself is never broadcast.
+ *
+ * @interface AllPlayResponseSubmittedPayload
+ * @property {string} questionId - The clue the response is for
+ * @property {string} teamId - The team that submitted
+ */
+interface AllPlayResponseSubmittedPayload {
+  questionId: string;
   teamId: string;
-  timestamp: number;
+}
+
+/**
+ * Payload structure for answer clock events.
+ *
+ * @interface AnswerClockPayload
+ * @property {string} questionId - The open clue
+ * @property {AnswerClock | null} clock - The clock now running, or null when it stopped
+ */
+interface AnswerClockPayload {
+  questionId: string;
+  clock: AnswerClock | null;
+}
+
+/**
+ * Options for the useBuzzer hook.
+ *
+ * @interface BuzzerOptions
+ * @property {boolean} [clockSync] - Measure this device's clock offset against the
+ *   server on subscribe and on every new question. Enable on devices that buzz.
+ */
+interface BuzzerOptions {
+  clockSync?: boolean;
 }
 
 /**
@@ -79,6 +155,16 @@ interface AnswerRevealedPayload {
   answer: string | null;
 }
 
+/**
+ * Payload structure for hint reveal broadcast events.
+ *
+ * @interface HintRevealedPayload
+ * @property {string | null} hint - The open clue's hint to show, or null to hide
+ */
+interface HintRevealedPayload {
+  hint: string | null;
+}
+
 /**
  * Payload structure for Final Jeopardy question reveal events.
  * Sent by the teacher when they click "Reveal Question".
@@ -103,12 +189,27 @@ interface FinalJeopardyTeamRevealedPayload {
   newScore: number;
 }
 
+/**
+ * Payload of the server-sent 'tie-breaker-updated' event. The answer is always null.
+ *
+ * @interface TieBreakerUpdatedPayload
+ * @property {TieBreakerState | null} tieBreaker - The tie-breaker, or null once it has been ended without a winner
+ */
+interface TieBreakerUpdatedPayload {
+  tieBreaker: TieBreakerState | null;
+}
+
 /**
  * Return type of the useBuzzer hook.
  *
  * @interface BuzzerHook
- * @property {function} sendBuzz - Function to send a buzz event for a team
+ * @property {function} sendBuzz - Function to submit a team's buzz to the server for the current question
+ * @property {function} sendTieBreakerBuzz - Function to submit a tied team's buzz on the current tie-breaker clue
  * @property {function} clearBuzzes - Function to clear all buzzes in the queue
+ * @property {function} dismissBuzz - Function to remove one team's buzz (e.g. after an incorrect answer)
+ * @property {function} refreshBuzzQueue - Function to reload the server queue for a question (teacher only)
+ * @property {function} armBuzzers - Function to arm buzzers for the current question and notify all clients (teacher only)
+ * @property {function} startAllPlay - Function to open the current question for written answers from every team (teacher only)
  * @property {function} broadcastQuestionSelected - Function to broadcast a selected question to all clients
  * @property {function} broadcastQuestionClosed - Function to broadcast that the current question has been closed
  * @property {function} broadcastFinalJeopardyStarted - Function to broadcast Final Jeopardy start
@@ -118,10 +219,18 @@ interface FinalJeopardyTeamRevealedPayload {
  * @property {function} broadcastFinalJeopardyTeamRevealed - Function to broadcast team reveal
  * @property {function} broadcastFinalJeopardyQuestionRevealed - Function to broadcast that teacher revealed the FJ question
  * @property {function} broadcastAnswerRevealed - Function to broadcast/clear the revealed answer
+ * @property {function} broadcastHintRevealed - Function to broadcast/clear the open clue's hint
+ * @property {function} broadcastStealTurn - Function to broadcast who answers next after an incorrect answer
+ * @property {function} broadcastAnswerClock - Function to broadcast the answer clock starting or stopping
  */
 interface BuzzerHook {
-  sendBuzz: (teamId: string) => void;
+  sendBuzz: (teamId: string, deviceId: string) => Promise<BuzzResult>;
+  sendTieBreakerBuzz: (teamId: string, deviceId: string) => Promise<boolean>;
   clearBuzzes: () => void;
+  dismissBuzz: (teamId: string) => void;
+  refreshBuzzQueue: (questionId: string) => Promise<void>;
+  armBuzzers: () => Promise<boolean>;
+  startAllPlay: () => Promise<boolean>;
   broadcastQuestionSelected: (question: Question) => void;
   broadcastQuestionClosed: () => void;
   broadcastFinalJeopardyStarted: (phase: GamePhase, question: FinalJeopardyQuestion) => void;
@@ -131,6 +240,9 @@ interface BuzzerHook {
   broadcastFinalJeopardyQuestionRevealed: () => void;
   broadcastFinalJeopardyTeamRevealed: (teamId: string, isCorrect: boolean, newScore: number) => void;
   broadcastAnswerRevealed: (answer: string | null) => void;
+  broadcastHintRevealed: (hint: string | null) => void;
+  broadcastStealTurn: (turn: StealTurn) => void;
+  broadcastAnswerClock: (questionId: string, clock: AnswerClock | null) => void;
 }
 
 /**
@@ -138,30 +250,41 @@ interface BuzzerHook {
  *
  * This hook:
  * - Establishes a Supabase Realtime channel for the specified game
- * - Listens for buzz events from students
+ * - Listens for server-ordered buzz queue updates
  * - Listens for buzz queue clear events from teachers
+ * - Listens for buzzers armed events (buzzing before arming is locked out)
+ * - Listens for all-play start and submission events
+ * - Listens for steal turns after incorrect answers
+ * - Listens for the answer clock of the team at the head of the buzz queue
  * - Listens for question selection/closure events to sync state
+ * - Listens for tie-breaker updates and keeps the phase in step with them
  * - Provides functions to send buzzes and broadcast game events
  * - Automatically cleans up subscriptions on unmount
  *
  * The hook uses refs to maintain stable channel connections and prevent race conditions
  * between subscription and broadcast operations.
  *
+ * Buzz order is decided by the server: sendBuzz POSTs to /api/games/[gameId]/buzz
+ * and every client renders the queue the server broadcasts as 'buzz-queue-updated'.
+ *
  * @param {string | undefined} gameId - The unique identifier of the game session
+ * @param {BuzzerOptions} [options] - Optional behaviour flags
  * @returns {BuzzerHook} Object containing buzzer control functions
  *
  * @example
  * ```tsx
- * const { sendBuzz, clearBuzzes } = useBuzzer(gameId);
+ * const { sendBuzz, clearBuzzes } = useBuzzer(gameId, { clockSync: true });
  *
  * // Student buzzes in
- * const handleBuzz = () => sendBuzz(teamId);
+ * const handleBuzz = () => sendBuzz(teamId, deviceId);
  *
  * // Teacher clears all buzzes
  * const handleClear = () => clearBuzzes();
  * ```
  */
-export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
+export const useBuzzer = (gameId: string | undefined, options: BuzzerOptions = {}): BuzzerHook => {
+  const { clockSync = false } = options;
+
   // Store the Supabase client in a ref so it can be accessed across renders
   // and in functions outside the useEffect scope
   const supabaseClientRef = useRef<SupabaseClient | null>(null);
@@ -173,6 +296,9 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
   // Track if component is mounted to prevent state updates after unmount
   const isMountedRef = useRef(true);
 
+  // Latest measured (server clock - device clock) in ms; null until a sync succeeds
+  const clockOffsetRef = useRef<number | null>(null);
+
   // Initialize the client on first render
   if (supabaseClientRef.current === null) {
     supabaseClientRef.current = createClient();
@@ -211,14 +337,60 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
     // Store channel reference for use in sendBuzz/clearBuzzes
     channelRef.current = channel;
 
-    // Subscribe to 'buzz' events
-    channel.on('broadcast', { event: 'buzz' }, ({ payload }: { payload: BuzzEvent }) => {
+    /**
+     * Measures the device clock offset against the server with a few round
+     * trips, keeping the previous offset if every sample fails.
+     */
+    const syncClock = async () => {
+      const samples: ClockSample[] = [];
+
+      for (let i = 0; i < BUZZER.CLOCK_SYNC_SAMPLES; i++) {
+        try {
+          const sentAt = Date.now();
+          const response = await fetch(`/api/games/${gameId}/buzz/clock`, { cache: 'no-store' });
+          const receivedAt = Date.now();
+          if (!response.ok) continue;
+
+          const { serverTime } = await response.json();
+          if (typeof serverTime === 'number') {
+            samples.push({ sentAt, serverTime, receivedAt });
+          }
+        } catch {
+          // Network hiccup; remaining samples may still succeed
+        }
+      }
+
+      const offset = estimateClockOffset(samples);
+      if (offset === null || !isMountedRef.current) return;
+
+      clockOffsetRef.current = offset;
+      logger.info('Buzzer clock synced', {
+        gameId,
+        offsetMs: offset,
+        samples: samples.length,
+        operation: 'syncClock',
+      });
+    };
+
+    // Subscribe to server-ordered queue updates (sent by the buzz API route)
+    channel.on('broadcast', { event: 'buzz-queue-updated' }, ({ payload }: { payload: BuzzQueueUpdate }) => {
       // Prevent state updates if component has unmounted
       if (!isMountedRef.current) return;
 
-      const buzzEvent: BuzzEvent = payload;
-      // Add buzz to the store using getState() for consistency
-      useGameStore.getState().addBuzz(buzzEvent.teamId, buzzEvent.timestamp);
+      if (!payload || !Array.isArray(payload.queue) || typeof payload.revision !== 'number') {
+        logger.warn('Received invalid buzz-queue-updated payload', {
+          gameId,
+          payload,
+          operation: 'buzzQueueUpdatedHandler',
+        });
+        return;
+      }
+
+      // A queue for a clue other than the open one is stale (question already closed)
+      const store = useGameStore.getState();
+      if (payload.questionId !== null && store.currentQuestion?.id !== payload.questionId) return;
+
+      store.setBuzzQueue(payload.queue, payload.revision);
     });
 
     // Subscribe to 'clear-buzzes' events
@@ -259,6 +431,14 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
       if (existing?.id === payload.question.id) return;
 
       useGameStore.getState().setCurrentQuestion(payload.question);
+      useGameStore.getState().setBuzzersArmed(false);
+      useGameStore.getState().setStealTurn(null);
+      useGameStore.getState().setAnswerClock(null);
+
+      // Re-measure before buzzing opens so drift since the last sync is small
+      if (clockSync) {
+        void syncClock();
+      }
     });
 
     // Subscribe to 'question-closed' events to clear question state
@@ -269,6 +449,126 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
       const store = useGameStore.getState();
       store.setCurrentQuestion(null);
       store.setRevealedAnswer(null);
+      store.setRevealedHint(null);
+      store.setBuzzersArmed(false);
+      store.clearAllPlay();
+      store.setStealTurn(null);
+      store.setAnswerClock(null);
+    });
+
+    // Subscribe to 'buzzers-armed' events; buzzing is only accepted after this
+    channel.on('broadcast', { event: 'buzzers-armed' }, ({ payload }: { payload: BuzzersArmedPayload }) => {
+      if (!isMountedRef.current) return;
+
+      if (!payload || typeof payload.questionId !== 'string') {
+        logger.warn('Received invalid buzzers-armed payload', {
+          gameId,
+          payload,
+          operation: 'buzzersArmedHandler',
+        });
+        return;
+      }
+
+      // Ignore arming for a clue this client no longer has open
+      const store = useGameStore.getState();
+      if (store.currentQuestion?.id !== payload.questionId) return;
+
+      store.setBuzzersArmed(true);
+    });
+
+    // Subscribe to 'all-play-started' events; teams answer in writing instead of buzzing
+    channel.on('broadcast', { event: 'all-play-started' }, ({ payload }: { payload: AllPlayStartedPayload }) => {
+      if (!isMountedRef.current) return;
+
+      if (!payload || typeof payload.questionId !== 'string') {
+        logger.warn('Received invalid all-play-started payload', {
+          gameId,
+          payload,
+          operation: 'allPlayStartedHandler',
+        });
+        return;
+      }
+
+      // Ignore a start for a clue this client no longer has open
+      const store = useGameStore.getState();
+      if (store.currentQuestion?.id !== payload.questionId) return;
+
+      store.startAllPlay(payload.questionId, payload.closesAt ?? null);
+    });
+
+    // Subscribe to server-sent 'all-play-response-submitted' events
+    channel.on('broadcast', { event: 'all-play-response-submitted' }, ({ payload }: { payload: AllPlayResponseSubmittedPayload }) => {
+      if (!isMountedRef.current) return;
+
+      if (!payload || typeof payload.questionId !== 'string' || typeof payload.teamId !== 'string') {
+        logger.warn('Received invalid all-play-response-submitted payload', {
+          gameId,
+          payload,
+          operation: 'allPlayResponseSubmittedHandler',
+        });
+        return;
+      }
+
+      useGameStore.getState().markAllPlaySubmitted(payload.questionId, payload.teamId);
+    });
+
+    // Subscribe to 'steal-turn' events; the clue passes to the next team or closes
+    channel.on('broadcast', { event: 'steal-turn' }, ({ payload }: { payload: StealTurn }) => {
+      if (!isMountedRef.current) return;
+
+      if (!payload ||
+          typeof payload.questionId !== 'string' ||
+          !Array.isArray(payload.answeredTeamIds) ||
+          typeof payload.closed !== 'boolean') {
+        logger.warn('Received invalid steal-turn payload', {
+          gameId,
+          payload,
+          operation: 'stealTurnHandler',
+        });
+        return;
+      }
+
+      // Ignore a turn for a clue this client no longer has open
+      const store = useGameStore.getState();
+      if (store.currentQuestion?.id !== payload.questionId) return;
+
+      store.setStealTurn({
+        questionId: payload.questionId,
+        answeredTeamIds: payload.answeredTeamIds.filter((id): id is string => typeof id === 'string'),
+        teamId: typeof payload.teamId === 'string' ? payload.teamId : null,
+        closed: payload.closed,
+      });
+    });
+
+    // Subscribe to 'answer-clock' events; the answering team's countdown starts or stops
+    channel.on('broadcast', { event: 'answer-clock' }, ({ payload }: { payload: AnswerClockPayload }) => {
+      if (!isMountedRef.current) return;
+
+      const clock = payload?.clock;
+      if (!payload ||
+          typeof payload.questionId !== 'string' ||
+          (clock !== null && (
+            typeof clock?.teamId !== 'string' ||
+            typeof clock.seconds !== 'number' ||
+            clock.seconds <= 0
+          ))) {
+        logger.warn('Received invalid answer-clock payload', {
+          gameId,
+          payload,
+          operation: 'answerClockHandler',
+        });
+        return;
+      }
+
+      // Ignore a clock for a clue this client no longer has open
+      const store = useGameStore.getState();
+      if (store.currentQuestion?.id !== payload.questionId) return;
+
+      store.setAnswerClock(clock && {
+        questionId: payload.questionId,
+        teamId: clock.teamId,
+        seconds: clock.seconds,
+      });
     });
 
     // Subscribe to 'answer-revealed' events to sync revealed answer on student screens
@@ -278,6 +578,13 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
       useGameStore.getState().setRevealedAnswer(payload.answer);
     });
 
+    // Subscribe to 'hint-revealed' events to show the open clue's hint on student screens
+    channel.on('broadcast', { event: 'hint-revealed' }, ({ payload }: { payload: HintRevealedPayload }) => {
+      if (!isMountedRef.current) return;
+
+      useGameStore.getState().setRevealedHint(payload?.hint ?? null);
+    });
+
     // Subscribe to Final Jeopardy events
     channel.on('broadcast', { event: 'final-jeopardy-started' }, ({ payload }: { payload: FinalJeopardyStartedPayload }) => {
       if (!isMountedRef.current) return;
@@ -311,6 +618,27 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
       useGameStore.getState().setCurrentPhase(payload.phase);
     });
 
+    // Tie-breaker state is owned by the /tie-breaker routes, which broadcast it
+    // without the answer; the teacher keeps the answer it already has
+    channel.on('broadcast', { event: 'tie-breaker-updated' }, ({ payload }: { payload: TieBreakerUpdatedPayload }) => {
+      if (!isMountedRef.current) return;
+
+      if (!payload || payload.tieBreaker === undefined) {
+        logger.warn('Received invalid tie-breaker-updated payload', {
+          gameId,
+          payload,
+          operation: 'tieBreakerUpdatedHandler',
+        });
+        return;
+      }
+
+      const store = useGameStore.getState();
+      const { tieBreaker } = payload;
+      const knownAnswer = store.tieBreaker?.clueNumber === tieBreaker?.clueNumber ? store.tieBreaker?.answer : null;
+      store.setTieBreaker(tieBreaker && { ...tieBreaker, answer: tieBreaker.answer ?? knownAnswer ?? null });
+      store.setCurrentPhase(tieBreaker && !tieBreaker.winnerTeamId ? 'tie_breaker' : 'regular');
+    });
+
     channel.on('broadcast', { event: 'final-jeopardy-wager-submitted' }, ({ payload }: { payload: FinalJeopardySubmissionPayload }) => {
       if (!isMountedRef.current) return;
 
@@ -412,6 +740,10 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
           channelName,
           operation: 'subscribeToChannel',
         });
+
+        if (clockSync) {
+          void syncClock();
+        }
       } else if (status === 'CHANNEL_ERROR') {
         logger.error('Failed to subscribe to buzzer channel', undefined, {
           gameId,
@@ -438,47 +770,154 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
       // Clear the channel ref
       channelRef.current = null;
     };
-  }, [gameId]); // Only gameId dependency since we use getState() in handlers
+  }, [gameId, clockSync]); // Handlers use getState(), so only the subscription inputs are dependencies
 
   /**
-   * Sends a buzz event for a specific team to all connected clients.
+   * Submits a buzz for a team on the current question.
+   *
+   * The server records the buzz, decides its place in the queue from its own
+   * receive time and this device's measured clock offset, and broadcasts the
+   * new queue to every client. The returned queue is also applied locally so
+   * the buzzing device does not wait for the broadcast.
    *
-   * This function broadcasts a buzz event through the Supabase Realtime channel
-   * and immediately updates the local game store for responsive UI feedback.
-   * The buzz includes a timestamp to ensure proper ordering in the queue.
+   * Buzzing before the teacher arms buzzers is rejected by the server and
+   * locks the team out briefly; the remaining lockout is returned.
    *
    * @param {string} teamId - The unique identifier of the team buzzing in
+   * @param {string} deviceId - This device's ID, proving it controls the team
+   * @returns {Promise<BuzzResult>} Whether the buzz was queued, and any lockout
    *
    * @example
    * ```tsx
-   * sendBuzz('team-abc-123');
+   * await sendBuzz('team-abc-123', deviceId);
    * ```
    */
-  const sendBuzz = (teamId: string) => {
-    // Validate gameId and channel before sending
-    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current) {
-      logger.warn('Cannot send buzz: invalid gameId or channel not initialized', {
+  const sendBuzz = async (teamId: string, deviceId: string): Promise<BuzzResult> => {
+    // Capture the press time before any await
+    const clientTimestamp = Date.now();
+    const questionId = useGameStore.getState().currentQuestion?.id;
+
+    // Validate gameId and question before sending
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !questionId) {
+      logger.warn('Cannot send buzz: invalid gameId or no open question', {
         gameId,
         teamId,
-        channelInitialized: !!channelRef.current,
+        hasQuestion: !!questionId,
         operation: 'sendBuzz',
       });
-      return;
+      return { accepted: false, lockoutRemainingMs: null };
     }
 
-    const timestamp = Date.now();
-    const buzzEvent: BuzzEvent = { teamId, timestamp };
+    try {
+      const response = await fetch(`/api/games/${gameId}/buzz`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Device-ID': deviceId,
+        },
+        body: JSON.stringify({
+          teamId,
+          questionId,
+          clientTimestamp,
+          clockOffsetMs: clockOffsetRef.current,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        logger.warn('Buzz rejected by server', {
+          gameId,
+          teamId,
+          questionId,
+          status: response.status,
+          error: data.error,
+          operation: 'sendBuzz',
+        });
+        return {
+          accepted: false,
+          lockoutRemainingMs: data.lockedOut && typeof data.lockoutRemainingMs === 'number'
+            ? data.lockoutRemainingMs
+            : null,
+        };
+      }
 
-    // Broadcast the buzz event using the stored channel reference
-    // This ensures we use the same subscribed channel, preventing race conditions
-    channelRef.current.send({
-      type: 'broadcast',
-      event: 'buzz',
-      payload: buzzEvent,
-    });
+      const data: BuzzResponse = await response.json();
+      if (isMountedRef.current && useGameStore.getState().currentQuestion?.id === questionId) {
+        useGameStore.getState().setBuzzQueue(data.queue, data.revision);
+      }
+      return { accepted: true, lockoutRemainingMs: null };
+    } catch (error) {
+      logger.error('Exception while sending buzz', error, {
+        gameId,
+        teamId,
+        operation: 'sendBuzz',
+      });
+      return { accepted: false, lockoutRemainingMs: null };
+    }
+  };
+
+  /**
+   * Submits a tied team's buzz on the current tie-breaker clue.
+   *
+   * Ordered like sendBuzz, from the server's receive time and this device's
+   * measured clock offset. Buzzing before the teacher opens buzzers is
+   * rejected without a lockout.
+   *
+   * @param {string} teamId - The unique identifier of the team buzzing in
+   * @param {string} deviceId - This device's ID, proving it controls the team
+   * @returns {Promise<boolean>} Whether the buzz was queued
+   */
+  const sendTieBreakerBuzz = async (teamId: string, deviceId: string): Promise<boolean> => {
+    // Capture the press time before any await
+    const clientTimestamp = Date.now();
+
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '') {
+      logger.warn('Cannot send tie-breaker buzz: invalid gameId', {
+        gameId,
+        teamId,
+        operation: 'sendTieBreakerBuzz',
+      });
+      return false;
+    }
+
+    try {
+      const response = await fetch(`/api/games/${gameId}/tie-breaker/buzz`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Device-ID': deviceId,
+        },
+        body: JSON.stringify({
+          teamId,
+          clientTimestamp,
+          clockOffsetMs: clockOffsetRef.current,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        logger.warn('Tie-breaker buzz rejected by server', {
+          gameId,
+          teamId,
+          status: response.status,
+          error: data.error,
+          operation: 'sendTieBreakerBuzz',
+        });
+        return false;
+      }
 
-    // Also update the local store immediately for responsiveness
-    useGameStore.getState().addBuzz(teamId, timestamp);
+      if (isMountedRef.current && data.tieBreaker) {
+        useGameStore.getState().setTieBreaker(data.tieBreaker as TieBreakerState);
+      }
+      return true;
+    } catch (error) {
+      logger.error('Exception while sending tie-breaker buzz', error, {
+        gameId,
+        teamId,
+        operation: 'sendTieBreakerBuzz',
+      });
+      return false;
+    }
   };
 
   /**
@@ -513,6 +952,244 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
 
     // Clear the local buzz queue immediately
     useGameStore.getState().clearBuzzQueue();
+
+    // Clear the persisted queue; the server broadcasts the (empty) queue when done
+    fetch(`/api/games/${gameId}/buzz`, { method: 'DELETE' })
+      .then((response) => {
+        if (!response.ok) {
+          logger.error('Failed to clear server buzz queue', undefined, {
+            gameId,
+            status: response.status,
+            operation: 'clearBuzzes',
+          });
+        }
+      })
+      .catch((error) => {
+        logger.error('Exception while clearing server buzz queue', error, {
+          gameId,
+          operation: 'clearBuzzes',
+        });
+      });
+  };
+
+  /**
+   * Removes one team's buzz from the queue for the current question.
+   *
+   * Used after a team answers incorrectly. The buzz is removed locally right
+   * away and dismissed on the server, which broadcasts the remaining queue.
+   * The dismissed team cannot buzz again on the same question.
+   *
+   * @param {string} teamId - The team whose buzz to dismiss
+   */
+  const dismissBuzz = (teamId: string) => {
+    const questionId = useGameStore.getState().currentQuestion?.id;
+
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !questionId) {
+      logger.warn('Cannot dismiss buzz: invalid gameId or no open question', {
+        gameId,
+        teamId,
+        hasQuestion: !!questionId,
+        operation: 'dismissBuzz',
+      });
+      return;
+    }
+
+    useGameStore.getState().removeBuzz(teamId);
+
+    const params = new URLSearchParams({ questionId, teamId });
+    fetch(`/api/games/${gameId}/buzz?${params.toString()}`, { method: 'DELETE' })
+      .then((response) => {
+        if (!response.ok) {
+          logger.error('Failed to dismiss buzz on server', undefined, {
+            gameId,
+            teamId,
+            status: response.status,
+            operation: 'dismissBuzz',
+          });
+        }
+      })
+      .catch((error) => {
+        logger.error('Exception while dismissing buzz', error, {
+          gameId,
+          teamId,
+          operation: 'dismissBuzz',
+        });
+      });
+  };
+
+  /**
+   * Reloads the persisted queue for a question from the server.
+   *
+   * Lets the teacher board recover buzzes that arrived while it was
+   * disconnected or before it reloaded. Requires the teacher session.
+   *
+   * @param {string} questionId - The question whose queue to load
+   */
+  const refreshBuzzQueue = async (questionId: string) => {
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '') {
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ questionId });
+      const response = await fetch(`/api/games/${gameId}/buzz?${params.toString()}`, { cache: 'no-store' });
+      if (!response.ok) {
+        logger.warn('Failed to load buzz queue', {
+          gameId,
+          questionId,
+          status: response.status,
+          operation: 'refreshBuzzQueue',
+        });
+        return;
+      }
+
+      const data: BuzzQueueUpdate = await response.json();
+      if (isMountedRef.current && useGameStore.getState().currentQuestion?.id === questionId) {
+        useGameStore.getState().setBuzzQueue(data.queue, data.revision);
+      }
+    } catch (error) {
+      logger.error('Exception while loading buzz queue', error, {
+        gameId,
+        questionId,
+        operation: 'refreshBuzzQueue',
+      });
+    }
+  };
+
+  /**
+   * Arms buzzers for the current question.
+   *
+   * Records the arming time on the server (which rejects earlier buzzes and
+   * locks out the teams that sent them), then broadcasts 'buzzers-armed' so
+   * student buttons become live. Called by the teacher after reading the clue.
+   *
+   * @returns {Promise<boolean>} True if buzzers were armed
+   */
+  const armBuzzers = async (): Promise<boolean> => {
+    const questionId = useGameStore.getState().currentQuestion?.id;
+
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current || !questionId) {
+      logger.warn('Cannot arm buzzers: invalid gameId, channel not initialized or no open question', {
+        gameId,
+        channelInitialized: !!channelRef.current,
+        hasQuestion: !!questionId,
+        operation: 'armBuzzers',
+      });
+      return false;
+    }
+
+    try {
+      const response = await fetch(`/api/games/${gameId}/buzz/arm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        logger.error('Failed to arm buzzers', undefined, {
+          gameId,
+          questionId,
+          status: response.status,
+          error: data.error,
+          operation: 'armBuzzers',
+        });
+        return false;
+      }
+
+      const { armedAt } = await response.json();
+      const payload: BuzzersArmedPayload = { questionId, armedAt };
+
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'buzzers-armed',
+        payload,
+      });
+
+      useGameStore.getState().setBuzzersArmed(true);
+
+      logger.info('Broadcasted buzzers armed', {
+        gameId,
+        questionId,
+        operation: 'armBuzzers',
+      });
+      return true;
+    } catch (error) {
+      logger.error('Exception while arming buzzers', error, {
+        gameId,
+        questionId,
+        operation: 'armBuzzers',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Opens the current question for written answers from every team.
+   *
+   * Records the clue and its deadline on the server (which then accepts
+   * responses from POST /api/games/[gameId]/all-play/submit), then broadcasts
+   * 'all-play-started' so student devices show the answer box.
+   *
+   * @returns {Promise<boolean>} True if all-play started
+   */
+  const startAllPlay = async (): Promise<boolean> => {
+    const questionId = useGameStore.getState().currentQuestion?.id;
+
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current || !questionId) {
+      logger.warn('Cannot start all-play: invalid gameId, channel not initialized or no open question', {
+        gameId,
+        channelInitialized: !!channelRef.current,
+        hasQuestion: !!questionId,
+        operation: 'startAllPlay',
+      });
+      return false;
+    }
+
+    try {
+      const response = await fetch(`/api/games/${gameId}/all-play/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        logger.error('Failed to start all-play', undefined, {
+          gameId,
+          questionId,
+          status: response.status,
+          error: data.error,
+          operation: 'startAllPlay',
+        });
+        return false;
+      }
+
+      const { closesAt } = await response.json();
+      const payload: AllPlayStartedPayload = { questionId, closesAt };
+
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'all-play-started',
+        payload,
+      });
+
+      useGameStore.getState().startAllPlay(questionId, closesAt);
+
+      logger.info('Broadcasted all-play started', {
+        gameId,
+        questionId,
+        operation: 'startAllPlay',
+      });
+      return true;
+    } catch (error) {
+      logger.error('Exception while starting all-play', error, {
+        gameId,
+        questionId,
+        operation: 'startAllPlay',
+      });
+      return false;
+    }
   };
 
   /**
@@ -564,13 +1241,19 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
     // (with answer) by the time the self-loop fires — the ID-guard in the
     // `question-selected` handler preserves it.
     useGameStore.getState().setRevealedAnswer(null);
+    useGameStore.getState().setRevealedHint(null);
+    // Buzzers start disarmed on every clue until the teacher finishes reading it
+    useGameStore.getState().setBuzzersArmed(false);
+    useGameStore.getState().setStealTurn(null);
+    useGameStore.getState().setAnswerClock(null);
 
     // Broadcast the question-selected event with error handling.
     // Strip `answer` before sending — students must not receive it via this
     // channel. The answer is only pushed through the separate `answer-revealed`
-    // event when the teacher explicitly clicks "Reveal Answer".
+    // event when the teacher explicitly clicks "Reveal Answer". The hint is
+    // held back the same way until `hint-revealed`.
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { answer: _answer, ...questionForStudents } = question;
+    const { answer: _answer, hint: _hint, ...questionForStudents } = question;
 
     try {
       channelRef.current.send({
@@ -619,6 +1302,7 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
     // so that cleanup does not depend on the self-loop receiving 'question-closed'.
     // The broadcast handler also calls setRevealedAnswer(null) for remote clients.
     useGameStore.getState().setRevealedAnswer(null);
+    useGameStore.getState().setRevealedHint(null);
 
     // Broadcast the question-closed event with error handling
     try {
@@ -888,9 +1572,138 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
     }
   };
 
+  /**
+   * Broadcasts the open clue's hint to all connected students, or null to hide it.
+   * The teacher's store is updated right away; while the hint is showing the
+   * clue is scored at its reduced value.
+   *
+   * @param {string | null} hint - The hint text to reveal, or null to hide
+   */
+  const broadcastHintRevealed = (hint: string | null) => {
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current) {
+      logger.warn('Cannot broadcast hint revealed: invalid gameId or channel not initialized', {
+        gameId,
+        channelInitialized: !!channelRef.current,
+        operation: 'broadcastHintRevealed',
+      });
+      return;
+    }
+
+    useGameStore.getState().setRevealedHint(hint);
+
+    try {
+      const payload: HintRevealedPayload = { hint };
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'hint-revealed',
+        payload,
+      });
+
+      logger.info('Broadcasted hint revealed', {
+        gameId,
+        hasHint: hint !== null,
+        operation: 'broadcastHintRevealed',
+      });
+    } catch (error) {
+      logger.error('Exception while broadcasting hint revealed', error, {
+        gameId,
+        operation: 'broadcastHintRevealed',
+      });
+    }
+  };
+
+  /**
+   * Broadcasts who answers the open clue after an incorrect answer, or that
+   * the clue is closed to further answers. Student devices use it to show a
+   * steal prompt; the teacher's store is updated right away.
+   *
+   * @param {StealTurn} turn - Steal progress on the open clue
+   */
+  const broadcastStealTurn = (turn: StealTurn) => {
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current) {
+      logger.warn('Cannot broadcast steal turn: invalid gameId or channel not initialized', {
+        gameId,
+        channelInitialized: !!channelRef.current,
+        operation: 'broadcastStealTurn',
+      });
+      return;
+    }
+
+    useGameStore.getState().setStealTurn(turn);
+
+    try {
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'steal-turn',
+        payload: turn,
+      });
+
+      logger.info('Broadcasted steal turn', {
+        gameId,
+        questionId: turn.questionId,
+        attempts: turn.answeredTeamIds.length,
+        closed: turn.closed,
+        operation: 'broadcastStealTurn',
+      });
+    } catch (error) {
+      logger.error('Exception while broadcasting steal turn', error, {
+        gameId,
+        operation: 'broadcastStealTurn',
+      });
+    }
+  };
+
+  /**
+   * Broadcasts that the answer clock started for the team at the head of the
+   * buzz queue, or stopped. Student devices show the countdown to the
+   * answering team; the teacher's store is updated right away.
+   *
+   * @param {string} questionId - The open clue
+   * @param {AnswerClock | null} clock - The clock to start, or null to stop it
+   */
+  const broadcastAnswerClock = (questionId: string, clock: AnswerClock | null) => {
+    if (!gameId || typeof gameId !== 'string' || gameId.trim() === '' || !channelRef.current) {
+      logger.warn('Cannot broadcast answer clock: invalid gameId or channel not initialized', {
+        gameId,
+        channelInitialized: !!channelRef.current,
+        operation: 'broadcastAnswerClock',
+      });
+      return;
+    }
+
+    useGameStore.getState().setAnswerClock(clock);
+
+    try {
+      const payload: AnswerClockPayload = { questionId, clock };
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'answer-clock',
+        payload,
+      });
+
+      logger.info('Broadcasted answer clock', {
+        gameId,
+        questionId,
+        teamId: clock?.teamId,
+        seconds: clock?.seconds,
+        operation: 'broadcastAnswerClock',
+      });
+    } catch (error) {
+      logger.error('Exception while broadcasting answer clock', error, {
+        gameId,
+        operation: 'broadcastAnswerClock',
+      });
+    }
+  };
+
   return {
     sendBuzz,
+    sendTieBreakerBuzz,
     clearBuzzes,
+    dismissBuzz,
+    refreshBuzzQueue,
+    armBuzzers,
+    startAllPlay,
     broadcastQuestionSelected,
     broadcastQuestionClosed,
     broadcastFinalJeopardyStarted,
@@ -900,5 +1713,8 @@ export const useBuzzer = (gameId: string | undefined): BuzzerHook => {
     broadcastFinalJeopardyQuestionRevealed,
     broadcastFinalJeopardyTeamRevealed,
     broadcastAnswerRevealed,
+    broadcastHintRevealed,
+    broadcastStealTurn,
+    broadcastAnswerClock,
   };
 };
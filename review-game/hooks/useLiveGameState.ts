@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Persists the live Jeopardy state so the board survives a refresh.
+ *
+ * The open clue, revealed answer and Daily Double wager otherwise exist only in
+ * the game store of the board that is running the game. This hook restores them
+ * from GET /api/games/[gameId]/state on load and, from then on, saves every
+ * change through PATCH /api/games/[gameId]/state.
+ *
+ * @module hooks/useLiveGameState
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useGameStore, selectLiveState } from '../lib/stores/gameStore';
+import { logger } from '../lib/logger';
+import type { GameLiveState, GameStateSnapshot } from '../types/game';
+
+/**
+ * Compares two live states field by field.
+ */
+const isSameLiveState = (a: GameLiveState, b: GameLiveState): boolean =>
+  a.currentQuestionId === b.currentQuestionId &&
+  a.answerRevealed === b.answerRevealed &&
+  a.hintRevealed === b.hintRevealed &&
+  a.dailyDouble?.teamId === b.dailyDouble?.teamId &&
+  a.dailyDouble?.wager === b.dailyDouble?.wager;
+
+/**
+ * Restores and persists the live Jeopardy state for a game.
+ *
+ * Saving starts only after restoreLiveState has run, so the empty store of a
+ * freshly loaded board never overwrites the state it is about to restore.
+ * Saves are sent one at a time in the order the changes happened.
+ *
+ * @param {string} gameId - The game being run on this board
+ * @returns Object containing restoreLiveState
+ *
+ * @example
+ * ```tsx
+ * const { restoreLiveState } = useLiveGameState(gameId);
+ * // after setGame(...) and setTeams(...)
+ * const snapshot = await restoreLiveState();
+ * ```
+ */
+export function useLiveGameState(gameId: string) {
+  const [isRestored, setIsRestored] = useState(false);
+  const lastSavedRef = useRef<GameLiveState | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  /**
+   * Fetches the snapshot and applies it to the game store. Must be called
+   * after the board and teams are in the store.
+   *
+   * @returns {Promise<GameStateSnapshot | null>} The applied snapshot, or null if it could not be loaded
+   */
+  const restoreLiveState = useCallback(async (): Promise<GameStateSnapshot | null> => {
+    let snapshot: GameStateSnapshot | null = null;
+
+    try {
+      const response = await fetch(`/api/games/${gameId}/state`, { cache: 'no-store' });
+      if (response.ok) {
+        const data: GameStateSnapshot = await response.json();
+        useGameStore.getState().hydrateLiveState(data);
+        snapshot = data;
+
+        logger.info('Restored live game state', {
+          gameId,
+          questionId: data.currentQuestionId ?? undefined,
+          operation: 'restoreLiveState',
+        });
+      } else {
+        logger.warn('Failed to fetch live game state', {
+          gameId,
+          status: response.status,
+          operation: 'restoreLiveState',
+        });
+      }
+    } catch (error) {
+      logger.error('Exception while restoring live game state', error, {
+        gameId,
+        operation: 'restoreLiveState',
+      });
+    }
+
+    // Start saving even when the restore failed so the game is recoverable
+    // from the next change onwards
+    lastSavedRef.current = selectLiveState(useGameStore.getState());
+    setIsRestored(true);
+    return snapshot;
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const unsubscribe = useGameStore.subscribe((state) => {
+      const next = selectLiveState(state);
+      if (lastSavedRef.current && isSameLiveState(lastSavedRef.current, next)) return;
+      lastSavedRef.current = next;
+
+      saveChainRef.current = saveChainRef.current.then(async () => {
+        try {
+          const response = await fetch(`/api/games/${gameId}/state`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(next),
+          });
+
+          if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            logger.warn('Failed to save live game state', {
+              gameId,
+              status: response.status,
+              error: data.error,
+              operation: 'saveLiveState',
+            });
+          }
+        } catch (error) {
+          logger.error('Exception while saving live game state', error, {
+            gameId,
+            operation: 'saveLiveState',
+          });
+        }
+      });
+    });
+
+    return unsubscribe;
+  }, [gameId, isRestored]);
+
+  return { restoreLiveState };
+}
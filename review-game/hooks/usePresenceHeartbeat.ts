@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Hook that keeps a team's live presence current.
+ *
+ * Sends a heartbeat for this device's team every
+ * PRESENCE.HEARTBEAT_INTERVAL_MS and whenever the tab becomes visible again,
+ * so the teacher page and board can show the team as online, idle or offline.
+ *
+ * @module hooks/usePresenceHeartbeat
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { getDeviceId } from '@/hooks/useDeviceId';
+import { PRESENCE } from '@/lib/constants/game';
+import { logger } from '@/lib/logger';
+
+/**
+ * Sends presence heartbeats for a team while enabled.
+ *
+ * Failures are logged and otherwise ignored; the team simply shows as idle
+ * on the teacher's screen until a heartbeat gets through.
+ *
+ * @param gameId - Game the team plays in
+ * @param teamId - Team this device plays for, or null before it is known
+ * @param enabled - Set to false to stop sending (e.g. after the game ends)
+ */
+export function usePresenceHeartbeat(
+  gameId: string | null | undefined,
+  teamId: string | null | undefined,
+  enabled = true
+): void {
+  useEffect(() => {
+    if (!gameId || !teamId || !enabled) return;
+
+    const sendHeartbeat = async () => {
+      const deviceId = getDeviceId();
+      if (!deviceId) return;
+
+      try {
+        const response = await fetch(`/api/games/${gameId}/teams/${teamId}/heartbeat`, {
+          method: 'POST',
+          headers: { 'X-Device-ID': deviceId },
+        });
+        if (!response.ok) {
+          logger.warn('Presence heartbeat rejected', {
+            gameId,
+            teamId,
+            status: response.status,
+            operation: 'sendHeartbeat',
+          });
+        }
+      } catch (error) {
+        logger.warn('Presence heartbeat failed', {
+          gameId,
+          teamId,
+          error: error instanceof Error ? error.message : String(error),
+          operation: 'sendHeartbeat',
+        });
+      }
+    };
+
+    // A tab returning from the background reports in straight away
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        sendHeartbeat();
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, PRESENCE.HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameId, teamId, enabled]);
+}
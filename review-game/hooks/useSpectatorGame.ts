@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Keeps a read-only spectator screen in sync with a live game.
+ *
+ * Spectators poll GET /api/games/spectate/[token], which decides what a
+ * spectator may see. They do not join the game-board: or buzzer: channels:
+ * those payloads carry clue answers and Daily Double positions before they
+ * are revealed, and a spectator link needs no login.
+ *
+ * @module hooks/useSpectatorGame
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SPECTATOR } from '@/lib/constants/game';
+import { logger } from '@/lib/logger';
+import type { SpectatorSnapshot } from '@/types/game';
+
+/**
+ * Loads and follows the game behind a spectator link.
+ *
+ * @param {string} token - Token from /game/spectate/[token]
+ * @returns The latest snapshot, a loading flag and an error message. Once the
+ *   link is turned off the snapshot is cleared and updates stop.
+ */
+export function useSpectatorGame(token: string) {
+  const [snapshot, setSnapshot] = useState<SpectatorSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoked, setIsRevoked] = useState(false);
+  // Responses can arrive out of order on a slow connection
+  const requestIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    try {
+      const response = await fetch(`/api/games/spectate/${encodeURIComponent(token)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (requestId !== requestIdRef.current) return;
+
+      if (response.status === 404) {
+        setSnapshot(null);
+        setIsRevoked(true);
+        setError(data.error || 'This spectator link is not valid or has been turned off');
+      } else if (!response.ok) {
+        // Keep showing the last snapshot through a transient failure
+        setError(data.error || 'Unable to load the game');
+      } else {
+        setSnapshot(data as SpectatorSnapshot);
+        setError(null);
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      logger.warn('Spectator refresh failed', {
+        error: err instanceof Error ? err.message : String(err),
+        operation: 'refreshSpectatorSnapshot',
+      });
+      setError('Connection problem. Retrying...');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [token]);
+
+  // Initial load, then poll for clue, score and Final Jeopardy changes and
+  // link revocation
+  useEffect(() => {
+    if (isRevoked) return;
+
+    refresh();
+    const interval = setInterval(refresh, SPECTATOR.REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh, isRevoked]);
+
+  return { snapshot, error, isLoading };
+}
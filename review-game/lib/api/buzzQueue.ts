@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Shared buzz queue reads for API routes.
+ *
+ * Used by /api/games/[gameId]/buzz and /api/games/[gameId]/state so both return
+ * the queue in the same server-decided order.
+ *
+ * @module lib/api/buzzQueue
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import type { Database } from '@/types/database.types';
+import type { BuzzEntry } from '@/types/game';
+
+/**
+ * Reads the live (non-dismissed) queue for a clue in server-decided order.
+ *
+ * @param serviceClient - Service-role client; buzzes has no RLS policies
+ * @param gameId - Game the clue belongs to
+ * @param questionId - Clue to read the queue for
+ * @returns The queue, or null if the read failed (already logged)
+ */
+export async function readBuzzQueue(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string,
+  questionId: string
+): Promise<BuzzEntry[] | null> {
+  const { data, error } = await serviceClient
+    .from('buzzes')
+    .select('team_id, effective_at, server_received_at')
+    .eq('game_id', gameId)
+    .eq('question_id', questionId)
+    .is('dismissed_at', null)
+    .order('effective_at', { ascending: true })
+    .order('server_received_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to read buzz queue', error, {
+      operation: 'readBuzzQueue',
+      gameId,
+      questionId,
+    });
+    return null;
+  }
+
+  return (data ?? []).map((row) => ({
+    teamId: row.team_id,
+    timestamp: new Date(row.effective_at).getTime(),
+  }));
+}
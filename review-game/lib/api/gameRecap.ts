@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Builds and persists game recaps for API routes.
+ *
+ * Used by /api/games/[gameId]/recap, Final Jeopardy advance and Quick Fire end
+ * so every way a game finishes stores the same recap in game_recaps.
+ *
+ * @module lib/api/gameRecap
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { getBoardLayout } from '@/lib/utils/boardLayout';
+import { buildRoundCategories, getRoundCategoryOffset } from '@/lib/utils/gameRounds';
+import {
+  buildRecapAdjustments,
+  buildRecapClues,
+  buildScoreTimeline,
+  getFinalPlayEvents,
+  getLastResetAt,
+  type RecapClueDetails,
+} from '@/lib/utils/gameRecap';
+import { isApprovedTeam } from '@/lib/utils/presence';
+import { DOUBLE_JEOPARDY } from '@/lib/constants/game';
+import type { Database, Json, Tables } from '@/types/database.types';
+import type {
+  DailyDoublePosition,
+  FinalJeopardyQuestion,
+  GameRecap,
+  TieBreakerQuestion,
+  GameRound,
+  ScoreEvent,
+  ScoreEventReason,
+} from '@/types/game';
+
+/**
+ * A persisted recap and the token for its public results page
+ */
+export interface StoredGameRecap {
+  recap: GameRecap;
+  shareToken: string;
+}
+
+/**
+ * Maps a score_events row to a ScoreEvent.
+ */
+const toScoreEvent = (row: Tables<'score_events'>): ScoreEvent => ({
+  id: row.id,
+  teamId: row.team_id,
+  questionId: row.question_id,
+  delta: row.delta,
+  reason: row.reason as ScoreEventReason,
+  note: row.note,
+  createdAt: row.created_at,
+  undoneAt: row.undone_at,
+});
+
+/**
+ * Builds the recap of a game's last play from the ledger, clue plays, hint
+ * reveals, wagers and a decided tie-breaker.
+ *
+ * @param serviceClient - Service-role client; score_events, game_clue_plays,
+ *   game_hint_reveals, wagers and tie_breakers have no RLS policies
+ * @param gameId - Game to recap
+ * @returns The recap, or null if a read failed (already logged)
+ */
+export async function buildGameRecap(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string
+): Promise<GameRecap | null> {
+  const { data: game, error: gameError } = await serviceClient
+    .from('games')
+    .select(`
+      id,
+      game_type,
+      bank_id,
+      double_jeopardy_bank_id,
+      created_at,
+      started_at,
+      completed_at,
+      daily_double_positions,
+      board_categories,
+      point_values,
+      final_jeopardy_question,
+      question_banks (
+        title
+      )
+    `)
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    logger.error('Failed to load game for recap', gameError ?? new Error('Game not found'), {
+      operation: 'buildGameRecap',
+      gameId,
+    });
+    return null;
+  }
+
+  const [teamsResult, eventsResult, playsResult, hintsResult, wagersResult, tieBreakerResult] = await Promise.all([
+    serviceClient
+      .from('teams')
+      .select('id, team_name, team_number, score, connection_status')
+      .eq('game_id', gameId)
+      .order('team_number'),
+    serviceClient
+      .from('score_events')
+      .select('*')
+      .eq('game_id', gameId),
+    serviceClient
+      .from('game_clue_plays')
+      .select('question_id, round, played_at')
+      .eq('game_id', gameId)
+      .order('played_at', { ascending: true }),
+    serviceClient
+      .from('game_hint_reveals')
+      .select('question_id, revealed_at')
+      .eq('game_id', gameId),
+    serviceClient
+      .from('wagers')
+      .select('team_id, wager_amount, answer_text, is_correct')
+      .eq('game_id', gameId)
+      .eq('wager_type', 'final_jeopardy'),
+    serviceClient
+      .from('tie_breakers')
+      .select('clue, winner_team_id, started_at')
+      .eq('game_id', gameId)
+      .not('winner_team_id', 'is', null)
+      .maybeSingle(),
+  ]);
+
+  const readError = teamsResult.error ?? eventsResult.error ?? playsResult.error ??
+    hintsResult.error ?? wagersResult.error ?? tieBreakerResult.error;
+  if (readError) {
+    logger.error('Failed to load game history for recap', readError, {
+      operation: 'buildGameRecap',
+      gameId,
+    });
+    return null;
+  }
+
+  const allEvents = (eventsResult.data ?? []).map(toScoreEvent);
+  const events = getFinalPlayEvents(allEvents);
+  const resetAt = getLastResetAt(allEvents);
+  const startedAt = resetAt ?? game.started_at ?? events[0]?.createdAt ?? game.created_at ?? new Date().toISOString();
+  // Clues played before the last Play Again belong to an earlier game
+  const plays = (playsResult.data ?? []).filter(
+    (play) => play.question_id !== null && (!resetAt || play.played_at > resetAt)
+  );
+  const hintedQuestionIds = new Set(
+    (hintsResult.data ?? [])
+      .filter((reveal) => !resetAt || reveal.revealed_at > resetAt)
+      .map((reveal) => reveal.question_id)
+  );
+
+  const details = await loadClueDetails(serviceClient, game, plays, events);
+  if (!details) {
+    return null;
+  }
+
+  // A tie-breaker started before the last Play Again settled an earlier game
+  const tieBreaker = tieBreakerResult.data && (!resetAt || tieBreakerResult.data.started_at > resetAt)
+    ? tieBreakerResult.data
+    : null;
+  const tieBreakerClue = tieBreaker?.clue as unknown as TieBreakerQuestion | undefined;
+
+  const scoredTeamIds = new Set(events.map((event) => event.teamId));
+  const teams = (teamsResult.data ?? [])
+    .filter((team) => isApprovedTeam(team.connection_status) || scoredTeamIds.has(team.id))
+    .map((team) => ({
+      id: team.id,
+      name: team.team_name || `Team ${team.team_number}`,
+      finalScore: team.score ?? 0,
+    }))
+    // The tie-breaker winner goes ahead of the teams it was tied with
+    .sort((a, b) => b.finalScore - a.finalScore ||
+      Number(b.id === tieBreaker?.winner_team_id) - Number(a.id === tieBreaker?.winner_team_id));
+
+  const finalJeopardyQuestion = game.final_jeopardy_question as unknown as FinalJeopardyQuestion | null;
+  const finalJeopardyWagers = wagersResult.data ?? [];
+
+  return {
+    gameId,
+    title: game.question_banks?.title ?? 'Review Game',
+    gameType: game.game_type,
+    completedAt: game.completed_at,
+    generatedAt: new Date().toISOString(),
+    teams,
+    clues: buildRecapClues(
+      plays.map((play) => ({ questionId: play.question_id!, playedAt: play.played_at })),
+      events,
+      details,
+      hintedQuestionIds
+    ),
+    adjustments: buildRecapAdjustments(events),
+    finalJeopardy: finalJeopardyQuestion && finalJeopardyWagers.length > 0
+      ? {
+          category: finalJeopardyQuestion.category,
+          question: finalJeopardyQuestion.question,
+          answer: finalJeopardyQuestion.answer,
+          results: finalJeopardyWagers.map((wager) => ({
+            teamId: wager.team_id,
+            wager: wager.wager_amount,
+            answer: wager.answer_text,
+            isCorrect: wager.is_correct,
+          })),
+        }
+      : null,
+    tieBreaker: tieBreaker && tieBreakerClue
+      ? {
+          category: tieBreakerClue.category,
+          question: tieBreakerClue.question,
+          answer: tieBreakerClue.answer,
+          winnerTeamId: tieBreaker.winner_team_id!,
+        }
+      : null,
+    scoreTimeline: buildScoreTimeline(teams.map((team) => team.id), events, startedAt),
+  };
+}
+
+/**
+ * Builds a game's recap and stores it in game_recaps, keeping the share token
+ * of an earlier recap.
+ *
+ * @param serviceClient - Service-role client; game_recaps has no RLS policies
+ * @param gameId - Game to recap
+ * @returns The stored recap, or null if building or saving failed (already logged)
+ */
+export async function saveGameRecap(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string
+): Promise<StoredGameRecap | null> {
+  const recap = await buildGameRecap(serviceClient, gameId);
+  if (!recap) {
+    return null;
+  }
+
+  const { data, error } = await serviceClient
+    .from('game_recaps')
+    .upsert(
+      {
+        game_id: gameId,
+        recap: recap as unknown as Json,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'game_id' }
+    )
+    .select('share_token')
+    .single();
+
+  if (error || !data) {
+    logger.error('Failed to save game recap', error ?? new Error('No row returned'), {
+      operation: 'saveGameRecap',
+      gameId,
+    });
+    return null;
+  }
+
+  return { recap, shareToken: data.share_token };
+}
+
+/**
+ * Looks up what the recap shows for every played or scored clue. Jeopardy
+ * clues take their category, value and Daily Double flag from the round's
+ * board; other clues come straight from the question bank.
+ *
+ * @returns Details by question ID, or null if a read failed (already logged)
+ */
+async function loadClueDetails(
+  serviceClient: SupabaseClient<Database>,
+  game: Pick<
+    Tables<'games'>,
+    'id' | 'game_type' | 'bank_id' | 'double_jeopardy_bank_id' | 'daily_double_positions' | 'board_categories' | 'point_values'
+  >,
+  plays: { question_id: string | null; round: number }[],
+  events: ScoreEvent[]
+): Promise<Map<string, RecapClueDetails> | null> {
+  const details = new Map<string, RecapClueDetails>();
+  const questionIds = new Set<string>([
+    ...plays.flatMap((play) => (play.question_id ? [play.question_id] : [])),
+    ...events.flatMap((event) => (event.questionId ? [event.questionId] : [])),
+  ]);
+
+  if (questionIds.size === 0) {
+    return details;
+  }
+
+  if (game.game_type !== 'pub_trivia') {
+    // A clue is shown as it was in the round it was first played in
+    const playedRound = new Map<string, GameRound>();
+    for (const play of plays) {
+      if (play.question_id && !playedRound.has(play.question_id)) {
+        playedRound.set(play.question_id, play.round === DOUBLE_JEOPARDY.ROUND ? DOUBLE_JEOPARDY.ROUND : 1);
+      }
+    }
+
+    const rounds: { round: GameRound; bankId: string }[] = [{ round: 1, bankId: game.bank_id }];
+    if (game.double_jeopardy_bank_id) {
+      rounds.push({ round: DOUBLE_JEOPARDY.ROUND, bankId: game.double_jeopardy_bank_id });
+    }
+
+    for (const { round, bankId } of rounds) {
+      const { data: questions, error } = await serviceClient
+        .from('questions')
+        .select('*')
+        .eq('bank_id', bankId)
+        .order('category')
+        .order('position');
+
+      if (error) {
+        logger.error('Failed to load board for recap', error, {
+          operation: 'buildGameRecap',
+          gameId: game.id,
+          round,
+        });
+        return null;
+      }
+
+      const layout = getBoardLayout(game);
+      const categories = buildRoundCategories(
+        questions ?? [],
+        [],
+        (game.daily_double_positions as unknown as DailyDoublePosition[] | null) ?? [],
+        round,
+        layout,
+        getRoundCategoryOffset(game, round, layout)
+      );
+
+      for (const question of categories.flatMap((category) => category.questions)) {
+        if (!questionIds.has(question.id) || (playedRound.get(question.id) ?? 1) !== round) continue;
+        details.set(question.id, {
+          round,
+          categoryName: question.categoryName ?? '',
+          value: question.value,
+          question: question.text,
+          answer: question.answer ?? '',
+          isDailyDouble: question.isDailyDouble ?? false,
+        });
+      }
+    }
+  }
+
+  // Quick Fire questions, and clues no longer on the board
+  const missingIds = Array.from(questionIds).filter((id) => !details.has(id));
+  if (missingIds.length > 0) {
+    const { data: questions, error } = await serviceClient
+      .from('questions')
+      .select('id, category, point_value, question_text, answer_text')
+      .in('id', missingIds);
+
+    if (error) {
+      logger.error('Failed to load questions for recap', error, {
+        operation: 'buildGameRecap',
+        gameId: game.id,
+      });
+      return null;
+    }
+
+    for (const question of questions ?? []) {
+      details.set(question.id, {
+        round: null,
+        categoryName: question.category,
+        value: game.game_type === 'pub_trivia' ? null : question.point_value,
+        question: question.question_text,
+        answer: question.answer_text,
+        isDailyDouble: false,
+      });
+    }
+  }
+
+  return details;
+}
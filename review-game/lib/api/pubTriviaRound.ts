@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Shared Quick Fire round results for API routes.
+ *
+ * Used by the /api/games/[gameId]/pub-trivia routes so ending a round and
+ * reloading the game state report the same results, and to score numeric
+ * rounds once every answer is in.
+ *
+ * @module lib/api/pubTriviaRound
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { getAnswerStreak } from '@/lib/utils/pubTriviaScoring';
+import { scoreNumericAnswers, type QuestionFormatFields } from '@/lib/utils/questionFormats';
+import type { Database } from '@/types/database.types';
+import { calcStreakBonus } from '@/types/pub-trivia';
+import type { PubTriviaRoundResult, PubTriviaScoringProfile } from '@/types/pub-trivia';
+
+type AnswerRow = {
+  player_id: string;
+  answer_text: string;
+  is_correct: boolean;
+  points_earned: number;
+  teams: { team_name: string | null; player_icon: string | null } | { team_name: string | null; player_icon: string | null }[] | null;
+};
+
+/**
+ * Reads the answers submitted for one round with each player's streak.
+ *
+ * @param serviceClient - Service-role client; pub_trivia_answers has no SELECT policy
+ * @param gameId - Game to read
+ * @param questionOrder - The game's question order
+ * @param index - 0-based index of the round's question
+ * @returns One result per answer, or null if a read failed (already logged)
+ */
+export async function readRoundResults(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string,
+  questionOrder: readonly string[],
+  index: number
+): Promise<PubTriviaRoundResult[] | null> {
+  const questionId = questionOrder[index];
+
+  // Fetch all answers submitted for this round with player names and icons
+  const { data: answers, error: answersError } = await serviceClient
+    .from('pub_trivia_answers')
+    .select('player_id, answer_text, is_correct, points_earned, teams(team_name, player_icon)')
+    .eq('game_id', gameId)
+    .eq('question_id', questionId);
+
+  if (answersError) {
+    logger.error('Failed to fetch round answers', answersError, {
+      operation: 'readRoundResults',
+      gameId,
+      questionId,
+    });
+    return null;
+  }
+
+  // Every correct answer in the game so far, for streaks
+  const { data: correctAnswers, error: correctError } = await serviceClient
+    .from('pub_trivia_answers')
+    .select('player_id, question_id')
+    .eq('game_id', gameId)
+    .eq('is_correct', true);
+
+  if (correctError) {
+    logger.error('Failed to fetch answers for streaks', correctError, {
+      operation: 'readRoundResults',
+      gameId,
+    });
+    return null;
+  }
+
+  const correctByPlayer = new Map<string, Set<string>>();
+  for (const answer of correctAnswers ?? []) {
+    const playerCorrect = correctByPlayer.get(answer.player_id) ?? new Set<string>();
+    playerCorrect.add(answer.question_id);
+    correctByPlayer.set(answer.player_id, playerCorrect);
+  }
+  const playedQuestionIds = questionOrder.slice(0, index + 1);
+
+  return (answers as AnswerRow[] ?? []).map((a) => {
+    const team = Array.isArray(a.teams) ? a.teams[0] : a.teams;
+    return {
+      playerId: a.player_id,
+      playerName: team?.team_name ?? 'Player',
+      playerIcon: team?.player_icon ?? null,
+      answerText: a.answer_text,
+      isCorrect: a.is_correct,
+      pointsEarned: a.points_earned,
+      streak: getAnswerStreak(playedQuestionIds, correctByPlayer.get(a.player_id) ?? new Set()),
+    };
+  });
+}
+
+/**
+ * Scores a numeric round after it has ended.
+ *
+ * Answers are recorded with their full-credit points pending while the round
+ * runs. This ranks them against each other (see scoreNumericAnswers), scales
+ * the pending points by each answer's credit, adds the streak bonus as the
+ * answer route does for other formats, and scores every pending answer through
+ * score_pub_trivia_answer. Answers scored by an earlier attempt still count in
+ * the ranking but are not scored again, so a failed attempt can be retried.
+ *
+ * @param serviceClient - Service-role client; pub_trivia_answers has no SELECT policy
+ * @param gameId - Game to score
+ * @param question - The round's question
+ * @param round - The game's question order, the round's 0-based index and the
+ *   game's scoring profile
+ * @returns False if a read or write failed (already logged)
+ */
+export async function scoreNumericRound(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string,
+  question: QuestionFormatFields & { id: string },
+  round: {
+    questionOrder: readonly string[];
+    index: number;
+    scoring: PubTriviaScoringProfile;
+  }
+): Promise<boolean> {
+  const { data: answers, error: answersError } = await serviceClient
+    .from('pub_trivia_answers')
+    .select('id, player_id, answer_text, pending_points')
+    .eq('game_id', gameId)
+    .eq('question_id', question.id);
+
+  if (answersError) {
+    logger.error('Failed to fetch numeric round answers', answersError, {
+      operation: 'scoreNumericRound',
+      gameId,
+      questionId: question.id,
+    });
+    return false;
+  }
+
+  // Earlier correct answers, for the streaks of this round's winners
+  const { data: correctAnswers, error: correctError } = await serviceClient
+    .from('pub_trivia_answers')
+    .select('player_id, question_id')
+    .eq('game_id', gameId)
+    .eq('is_correct', true);
+
+  if (correctError) {
+    logger.error('Failed to fetch answers for streaks', correctError, {
+      operation: 'scoreNumericRound',
+      gameId,
+    });
+    return false;
+  }
+
+  const correctByPlayer = new Map<string, Set<string>>();
+  for (const answer of correctAnswers ?? []) {
+    const playerCorrect = correctByPlayer.get(answer.player_id) ?? new Set<string>();
+    playerCorrect.add(answer.question_id);
+    correctByPlayer.set(answer.player_id, playerCorrect);
+  }
+  const earlierQuestionIds = round.questionOrder.slice(0, round.index);
+
+  const rows = answers ?? [];
+  const scores = scoreNumericAnswers(question, rows.map((a) => a.answer_text));
+
+  const writes = rows.map(async (answer, i) => {
+    if (answer.pending_points === null) return true;
+
+    const { isCorrect, credit } = scores[i];
+    const basePoints = Math.round(answer.pending_points * credit);
+    const streak = isCorrect
+      ? getAnswerStreak(earlierQuestionIds, correctByPlayer.get(answer.player_id) ?? new Set()) + 1
+      : 0;
+    const pointsEarned = basePoints + (isCorrect ? calcStreakBonus(basePoints, streak, round.scoring) : 0);
+
+    const { error: scoreError } = await serviceClient.rpc('score_pub_trivia_answer', {
+      p_answer_id: answer.id,
+      p_is_correct: isCorrect,
+      p_points_earned: pointsEarned,
+    });
+
+    if (scoreError) {
+      logger.error('Failed to score numeric answer', scoreError, {
+        operation: 'scoreNumericRound',
+        gameId,
+        playerId: answer.player_id,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  return (await Promise.all(writes)).every(Boolean);
+}
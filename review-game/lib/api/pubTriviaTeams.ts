@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Shared Quick Fire team standings for API routes.
+ *
+ * Used by the /api/games/[gameId]/pub-trivia routes so ending a round, ending
+ * the game and reloading the game state all report the same standings.
+ *
+ * @module lib/api/pubTriviaTeams
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { buildTeamStandings } from '@/lib/utils/pubTriviaTeams';
+import type { Database } from '@/types/database.types';
+import type { PubTriviaTeamPlay, PubTriviaTeamResult } from '@/types/pub-trivia';
+
+/**
+ * Reads a team play game's standings from its answers.
+ *
+ * @param serviceClient - Service-role client; pub_trivia_answers has no SELECT policy
+ * @param gameId - Game to read
+ * @param teamPlay - The game's team play settings
+ * @param playedQuestionIds - Questions played so far in game order, ending with the latest
+ * @returns Standings, highest score first, or null if a read failed (already logged)
+ */
+export async function readPubTriviaTeamStandings(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string,
+  teamPlay: PubTriviaTeamPlay,
+  playedQuestionIds: readonly string[]
+): Promise<PubTriviaTeamResult[] | null> {
+  // Players still awaiting approval never played, so they do not count
+  // toward their team's average
+  const { data: players, error: playersError } = await serviceClient
+    .from('teams')
+    .select('id, pub_trivia_team')
+    .eq('game_id', gameId)
+    .neq('connection_status', 'pending')
+    .not('pub_trivia_team', 'is', null);
+
+  if (playersError) {
+    logger.error('Failed to read Quick Fire team members', playersError, {
+      operation: 'readPubTriviaTeamStandings',
+      gameId,
+    });
+    return null;
+  }
+
+  const { data: answers, error: answersError } = await serviceClient
+    .from('pub_trivia_answers')
+    .select('player_id, question_id, points_earned')
+    .eq('game_id', gameId);
+
+  if (answersError) {
+    logger.error('Failed to read Quick Fire answers for team standings', answersError, {
+      operation: 'readPubTriviaTeamStandings',
+      gameId,
+    });
+    return null;
+  }
+
+  return buildTeamStandings(
+    teamPlay,
+    (players ?? []).map((p) => ({ playerId: p.id, teamName: p.pub_trivia_team ?? '' })),
+    (answers ?? []).map((a) => ({
+      playerId: a.player_id,
+      questionId: a.question_id,
+      pointsEarned: a.points_earned,
+    })),
+    playedQuestionIds
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Shared tie-breaker reads and broadcasts for API routes.
+ *
+ * Used by the /api/games/[gameId]/tie-breaker routes so starting, opening,
+ * buzzing and judging all return and broadcast the same state.
+ *
+ * @module lib/api/tieBreaker
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { broadcastToChannel } from '@/lib/supabase/broadcast';
+import type { Database } from '@/types/database.types';
+import type { TieBreakerQuestion, TieBreakerState } from '@/types/game';
+
+/**
+ * Reads a game's tie-breaker with the queue for its current clue.
+ *
+ * @param serviceClient - Service-role client; tie_breakers and tie_breaker_buzzes have no RLS policies
+ * @param gameId - Game to read
+ * @param includeAnswer - Include the clue's answer; only for the owning teacher
+ * @returns The state (null tieBreaker when none has been started), or null if a read failed (already logged)
+ */
+export async function readTieBreaker(
+  serviceClient: SupabaseClient<Database>,
+  gameId: string,
+  includeAnswer: boolean
+): Promise<{ tieBreaker: TieBreakerState | null } | null> {
+  const { data: row, error } = await serviceClient
+    .from('tie_breakers')
+    .select('team_ids, clue_number, clue, buzzers_open_at, winner_team_id')
+    .eq('game_id', gameId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to read tie-breaker', error, {
+      operation: 'readTieBreaker',
+      gameId,
+    });
+    return null;
+  }
+  if (!row) {
+    return { tieBreaker: null };
+  }
+
+  const { data: buzzes, error: buzzesError } = await serviceClient
+    .from('tie_breaker_buzzes')
+    .select('team_id, effective_at, dismissed_at')
+    .eq('game_id', gameId)
+    .eq('clue_number', row.clue_number)
+    .order('effective_at', { ascending: true })
+    .order('server_received_at', { ascending: true });
+
+  if (buzzesError) {
+    logger.error('Failed to read tie-breaker buzzes', buzzesError, {
+      operation: 'readTieBreaker',
+      gameId,
+    });
+    return null;
+  }
+
+  const clue = row.clue as unknown as TieBreakerQuestion;
+
+  return {
+    tieBreaker: {
+      teamIds: row.team_ids,
+      clueNumber: row.clue_number,
+      category: clue.category,
+      question: clue.question,
+      answer: includeAnswer ? clue.answer : null,
+      buzzersOpen: row.buzzers_open_at !== null,
+      queue: (buzzes ?? [])
+        .filter((buzz) => buzz.dismissed_at === null)
+        .map((buzz) => ({ teamId: buzz.team_id, timestamp: new Date(buzz.effective_at).getTime() })),
+      dismissedTeamIds: (buzzes ?? [])
+        .filter((buzz) => buzz.dismissed_at !== null)
+        .map((buzz) => buzz.team_id),
+      winnerTeamId: row.winner_team_id,
+    },
+  };
+}
+
+/**
+ * Pushes a tie-breaker to every client on buzzer:${gameId} as
+ * 'tie-breaker-updated', without the answer. Best-effort, like broadcastToChannel.
+ *
+ * @param gameId - Game the tie-breaker belongs to
+ * @param tieBreaker - The new state, or null once it has been ended without a winner
+ */
+export async function broadcastTieBreaker(
+  gameId: string,
+  tieBreaker: TieBreakerState | null
+): Promise<void> {
+  await broadcastToChannel(`buzzer:${gameId}`, 'tie-breaker-updated', {
+    tieBreaker: tieBreaker && { ...tieBreaker, answer: null },
+  });
+}
@@ -1,8 +1,8 @@
 /**
  * @fileoverview Device-based authentication helpers.
  *
- * Provides functions to verify device ownership of teams using device_id.
- * Used to prevent team impersonation attacks.
+ * Provides functions to verify that a device_id is on a team, or is its
+ * captain. Used to prevent team impersonation attacks.
  *
  * @module lib/auth/device
  */
@@ -12,92 +12,125 @@ import type { Database } from '@/types/database.types';
 import { logger } from '@/lib/logger';
 
 /**
- * Verifies that a device_id matches the team's claimed device.
- *
- * Security Model:
- * - Each team can only be claimed by one device at a time
- * - device_id is stored in localStorage and sent with each request
- * - API routes verify device_id matches team.device_id before allowing operations
- *
- * @param supabase - Supabase client instance
- * @param teamId - ID of the team to verify
- * @param deviceId - device_id from request
- * @param gameId - (Optional) game_id for additional verification
- * @returns {Promise<boolean>} True if device owns the team, false otherwise
+ * A device's role on a team: the captain submits wagers and Final Jeopardy
+ * answers; any member may buzz.
+ */
+export type TeamDeviceRole = 'captain' | 'member';
+
+/**
+ * Looks up a device's role on a team through get_team_device_role, which
+ * reads team_members without exposing it to the anon client.
  *
- * @example
- * ```typescript
- * const deviceId = req.headers.get('X-Device-ID');
- * const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId);
- * if (!isAuthorized) {
- *   return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
- * }
- * ```
+ * @returns The device's role, or null when it is not on the team or the lookup failed
  */
-export async function verifyDeviceOwnsTeam(
+async function getTeamDeviceRole(
   supabase: SupabaseClient<Database>,
   teamId: string,
   deviceId: string | null,
-  gameId?: string
-): Promise<boolean> {
+  gameId: string | undefined,
+  operation: string
+): Promise<TeamDeviceRole | null> {
   // Device ID is required
   if (!deviceId) {
     logger.warn('Device ID verification failed: no device_id provided', {
-      operation: 'verifyDeviceOwnsTeam',
+      operation,
       teamId,
       gameId,
     });
-    return false;
+    return null;
   }
 
   try {
-    // Build query
-    let query = supabase
-      .from('teams')
-      .select('id, device_id')
-      .eq('id', teamId);
-
-    // Add game_id filter if provided
-    if (gameId) {
-      query = query.eq('game_id', gameId);
-    }
-
-    const { data: team, error } = await query.single();
+    const { data: role, error } = await supabase.rpc('get_team_device_role', {
+      p_team_id: teamId,
+      p_device_id: deviceId,
+      ...(gameId ? { p_game_id: gameId } : {}),
+    });
 
-    if (error || !team) {
-      logger.warn('Device ID verification failed: team not found', {
-        operation: 'verifyDeviceOwnsTeam',
+    if (error) {
+      logger.warn('Device ID verification failed: role lookup error', {
+        operation,
         teamId,
         gameId,
-        error: error?.message,
+        error: error.message,
       });
-      return false;
+      return null;
     }
 
-    // Check if team is claimed by this device
-    if (team.device_id !== deviceId) {
-      logger.warn('Device ID verification failed: device mismatch', {
-        operation: 'verifyDeviceOwnsTeam',
+    if (role !== 'captain' && role !== 'member') {
+      logger.warn('Device ID verification failed: device is not on the team', {
+        operation,
         teamId,
         gameId,
         providedDeviceId: deviceId,
-        teamDeviceId: team.device_id,
       });
-      return false;
+      return null;
     }
 
-    // Verification successful
-    return true;
+    return role;
   } catch (error) {
     logger.error('Device ID verification error', error, {
-      operation: 'verifyDeviceOwnsTeam',
+      operation,
       teamId,
       gameId,
     });
-    return false;
+    return null;
   }
 }
 
+/**
+ * Verifies that a device_id belongs to one of the team's members.
+ *
+ * Security Model:
+ * - Several devices may join a team; each is a row in team_members
+ * - device_id is stored in localStorage and sent with each request
+ * - API routes verify the device is on the team before allowing operations
+ *
+ * @param supabase - Supabase client instance
+ * @param teamId - ID of the team to verify
+ * @param deviceId - device_id from request
+ * @param gameId - (Optional) game_id for additional verification
+ * @returns {Promise<boolean>} True if the device is on the team, false otherwise
+ *
+ * @example
+ * ```typescript
+ * const deviceId = req.headers.get('X-Device-ID');
+ * const isAuthorized = await verifyDeviceOwnsTeam(supabase, teamId, deviceId);
+ * if (!isAuthorized) {
+ *   return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+ * }
+ * ```
+ */
+export async function verifyDeviceOwnsTeam(
+  supabase: SupabaseClient<Database>,
+  teamId: string,
+  deviceId: string | null,
+  gameId?: string
+): Promise<boolean> {
+  const role = await getTeamDeviceRole(supabase, teamId, deviceId, gameId, 'verifyDeviceOwnsTeam');
+  return role !== null;
+}
+
+/**
+ * Verifies that a device_id belongs to the team's captain. Used by routes
+ * only the captain may call, such as Final Jeopardy submissions.
+ *
+ * @param supabase - Supabase client instance
+ * @param teamId - ID of the team to verify
+ * @param deviceId - device_id from request
+ * @param gameId - (Optional) game_id for additional verification
+ * @returns {Promise<boolean>} True if the device is the team's captain, false otherwise
+ */
+export async function verifyDeviceIsCaptain(
+  supabase: SupabaseClient<Database>,
+  teamId: string,
+  deviceId: string | null,
+  gameId?: string
+): Promise<boolean> {
+  const role = await getTeamDeviceRole(supabase, teamId, deviceId, gameId, 'verifyDeviceIsCaptain');
+  return role === 'captain';
+}
+
 /**
  * Extracts device_id from request headers.
  *
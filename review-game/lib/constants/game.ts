@@ -4,29 +4,68 @@
  */
 
 /**
- * Standard Jeopardy-style game board configuration
+ * Jeopardy-style game board configuration
+ * Each game picks its own number of categories and a point ladder (one value
+ * per row); see lib/utils/boardLayout.ts
  */
 export const GAME_BOARD = {
   /**
-   * Total number of questions on a standard 5x5 game board
-   * Used for daily double position validation and board generation
+   * Fewest categories (columns) a board may have
    */
-  TOTAL_QUESTIONS: 25,
+  MIN_CATEGORIES: 3,
 
   /**
-   * Number of rows on the game board (categories)
+   * Most categories (columns) a board may have
    */
-  ROWS: 5,
+  MAX_CATEGORIES: 8,
 
   /**
-   * Number of columns on the game board (difficulty levels)
+   * Categories on a standard board
    */
-  COLUMNS: 5,
+  DEFAULT_CATEGORIES: 7,
 
   /**
-   * Number of daily double questions in a game
+   * Fewest rows (point values) a board may have
+   */
+  MIN_ROWS: 3,
+
+  /**
+   * Most rows (point values) a board may have
+   */
+  MAX_ROWS: 6,
+
+  /**
+   * Point ladder of a standard board, one value per row
+   */
+  DEFAULT_POINT_VALUES: [100, 200, 300, 400, 500],
+
+  /**
+   * Largest point value allowed on a ladder
+   */
+  MAX_POINT_VALUE: 10000,
+
+  /**
+   * Ladder steps offered on the new game page; a step of 100 with 5 rows
+   * gives 100, 200, 300, 400, 500
+   */
+  POINT_LADDER_STEPS: [10, 20, 50, 100, 200],
+
+  /**
+   * Daily Doubles on the first board unless the game picks another count
    */
   DAILY_DOUBLE_COUNT: 2,
+
+  /**
+   * Most Daily Doubles a game may put on the first board
+   * Matches chk_games_daily_double_count
+   */
+  MAX_DAILY_DOUBLE_COUNT: 4,
+
+  /**
+   * Ways Daily Double cells can be placed
+   * Matches chk_games_daily_double_mode
+   */
+  DAILY_DOUBLE_MODES: ['manual', 'random', 'weighted', 'none'],
 } as const;
 
 /**
@@ -48,3 +87,376 @@ export const GAME_TIMER = {
    */
   MAX_SECONDS: 120,
 } as const;
+
+/**
+ * Answer clock configuration
+ * The answer clock starts when a team reaches the head of the buzz queue
+ */
+export const ANSWER_TIMER = {
+  /**
+   * Answer time preselected on the game settings pages, in seconds
+   */
+  DEFAULT_SECONDS: 5,
+
+  /**
+   * Minimum answer time in seconds
+   * Matches chk_games_answer_timer_seconds
+   */
+  MIN_SECONDS: 3,
+
+  /**
+   * Maximum answer time in seconds
+   * Matches chk_games_answer_timer_seconds
+   */
+  MAX_SECONDS: 30,
+
+  /**
+   * Answer times offered on the game settings pages, in seconds
+   */
+  OPTIONS_SECONDS: [3, 5, 10, 15],
+} as const;
+
+/**
+ * Question hint configuration
+ * A revealed hint takes a percentage off the clue's value for whoever answers it
+ */
+export const HINTS = {
+  /**
+   * Penalty preselected on the game settings pages, in percent
+   */
+  DEFAULT_PENALTY_PERCENT: 50,
+
+  /**
+   * Smallest penalty; the clue keeps its full value
+   * Matches chk_games_hint_penalty_percent
+   */
+  MIN_PENALTY_PERCENT: 0,
+
+  /**
+   * Largest penalty, so a clue is still worth something after its hint
+   * Matches chk_games_hint_penalty_percent
+   */
+  MAX_PENALTY_PERCENT: 90,
+
+  /**
+   * Penalties offered on the game settings pages, in percent
+   */
+  OPTIONS_PERCENT: [0, 25, 50, 75],
+} as const;
+
+/**
+ * Buzzer arbitration configuration
+ * Used by POST /api/games/[gameId]/buzz to order buzzes server-side
+ */
+export const BUZZER = {
+  /**
+   * How far before its arrival a buzz may be credited, in milliseconds.
+   * A device's offset-corrected press time is clamped to
+   * [receivedAt - MAX_LATENCY_COMPENSATION_MS, receivedAt], so a wrong or
+   * spoofed clock can gain at most this much over an honest device.
+   */
+  MAX_LATENCY_COMPENSATION_MS: 1000,
+
+  /**
+   * Offsets larger than this (in milliseconds) are treated as a failed sync
+   * and ignored; the buzz is then ordered by server receive time alone
+   */
+  MAX_CLOCK_OFFSET_MS: 24 * 60 * 60 * 1000,
+
+  /**
+   * Number of round trips to /buzz/clock per clock sync.
+   * The sample with the shortest round trip is used.
+   */
+  CLOCK_SYNC_SAMPLES: 3,
+
+  /**
+   * Default lockout in milliseconds for a team that buzzes before buzzers are armed
+   */
+  LOCKOUT_DEFAULT_MS: 500,
+
+  /**
+   * Minimum configurable early-buzz lockout in milliseconds
+   */
+  LOCKOUT_MIN_MS: 250,
+
+  /**
+   * Maximum configurable early-buzz lockout in milliseconds
+   */
+  LOCKOUT_MAX_MS: 2000,
+
+  /**
+   * Lockout choices offered on the game settings pages, in milliseconds
+   */
+  LOCKOUT_OPTIONS_MS: [250, 500, 1000, 2000],
+} as const;
+
+/**
+ * Team membership configuration
+ * Several devices may play for one team; see supabase/migrations/20261028_team_members.sql
+ */
+export const TEAM_MEMBERS = {
+  /**
+   * Most devices that may join one team
+   */
+  MAX_PER_TEAM: 6,
+
+  /**
+   * Longest student display name
+   * Matches chk_team_members_display_name
+   */
+  DISPLAY_NAME_MAX_LENGTH: 30,
+} as const;
+
+/**
+ * Lost-device recovery configuration
+ * See supabase/migrations/20261029_team_device_recovery.sql
+ */
+export const TEAM_RECOVERY = {
+  /**
+   * Characters in a rejoin code
+   * Matches chk_team_rejoin_codes_code
+   */
+  REJOIN_CODE_LENGTH: 6,
+
+  /**
+   * Characters a rejoin code is drawn from; omits 0/O and 1/I/L so codes
+   * read aloud or copied from the board are not mistyped
+   */
+  REJOIN_CODE_ALPHABET: 'ABCDEFGHJKMNPQRSTUVWXYZ23456789',
+
+  /**
+   * Minutes a rejoin code stays valid
+   */
+  REJOIN_CODE_TTL_MINUTES: 15,
+} as const;
+
+/**
+ * Live presence configuration
+ * Devices send heartbeats; see supabase/migrations/20261030_team_presence.sql
+ */
+export const PRESENCE = {
+  /**
+   * Milliseconds between heartbeats from a team device
+   */
+  HEARTBEAT_INTERVAL_MS: 15000,
+
+  /**
+   * A team is idle once its last heartbeat is this old (two missed beats)
+   */
+  IDLE_AFTER_MS: 40000,
+
+  /**
+   * A team is offline once its last heartbeat is this old
+   */
+  OFFLINE_AFTER_MS: 90000,
+
+  /**
+   * Seconds without a heartbeat before the scheduled sweep marks a connected
+   * team disconnected
+   */
+  DISCONNECT_AFTER_SECONDS: 300,
+} as const;
+
+/**
+ * Room code students type on /join
+ * See supabase/migrations/20261031_game_join_codes.sql
+ */
+export const JOIN_CODE = {
+  /**
+   * Digits in a join code
+   * Matches chk_games_join_code
+   */
+  LENGTH: 6,
+} as const;
+
+/**
+ * Read-only spectator view
+ * See supabase/migrations/20261101_spectator_links.sql
+ */
+export const SPECTATOR = {
+  /**
+   * Milliseconds between snapshot refreshes; how long a spectator screen can
+   * lag the board, and how quickly a revoked link stops updating
+   */
+  REFRESH_INTERVAL_MS: 2000,
+} as const;
+
+/**
+ * Steal rules for buzzer clues
+ * See lib/utils/stealRules.ts
+ */
+export const STEAL_RULES = {
+  /**
+   * Fewest answers per clue a limit may allow (the first answer plus one steal)
+   * Matches chk_games_max_answer_attempts
+   */
+  MIN_ATTEMPTS: 2,
+
+  /**
+   * Most answers per clue a limit may allow
+   * Matches chk_games_max_answer_attempts
+   */
+  MAX_ATTEMPTS: 10,
+
+  /**
+   * Limits offered on the game settings pages
+   */
+  ATTEMPT_OPTIONS: [2, 3, 4, 5],
+} as const;
+
+/**
+ * Daily Double wager rules
+ * See lib/utils/dailyDoubleWager.ts
+ */
+export const DAILY_DOUBLE_WAGER = {
+  /**
+   * Smallest wager of games created before wager rules existed
+   */
+  DEFAULT_MIN_WAGER: 5,
+
+  /**
+   * Largest minimum wager a game may set
+   * Matches chk_games_daily_double_min_wager
+   */
+  MAX_MIN_WAGER: 1000,
+
+  /**
+   * Wager cap of games created before wager rules existed; a team may
+   * always wager up to its score when that is larger
+   */
+  DEFAULT_MAX_WAGER: 1000,
+
+  /**
+   * Largest wager cap a game may set
+   * Matches chk_games_daily_double_max_wager
+   */
+  MAX_MAX_WAGER: 100000,
+
+  /**
+   * Minimum wagers offered on the game settings pages
+   */
+  MIN_WAGER_OPTIONS: [5, 10, 50, 100],
+
+  /**
+   * Wager caps offered on the game settings pages, besides the round's
+   * highest clue value
+   */
+  MAX_WAGER_OPTIONS: [500, 1000, 2000, 5000],
+} as const;
+
+/**
+ * Score ledger configuration
+ * Used by /api/games/[gameId]/scores and the teacher's Adjust Score dialog
+ */
+export const SCORE_LEDGER = {
+  /**
+   * Largest manual adjustment, in points, in either direction
+   */
+  MAX_ADJUSTMENT: 100000,
+
+  /**
+   * Maximum length of the reason given for a manual adjustment
+   * Matches chk_score_events_note_length
+   */
+  MAX_NOTE_LENGTH: 200,
+
+  /**
+   * Number of recent changes listed on the teacher page
+   */
+  HISTORY_DISPLAY_LIMIT: 15,
+} as const;
+
+/**
+ * Double Jeopardy round configuration
+ */
+export const DOUBLE_JEOPARDY = {
+  /**
+   * Round index stored in games.current_round during Double Jeopardy
+   */
+  ROUND: 2,
+
+  /**
+   * Point values of the bank's questions are multiplied by this in round 2
+   */
+  VALUE_MULTIPLIER: 2,
+
+  /**
+   * The Double Jeopardy board has this many more Daily Doubles than the
+   * first board (none when the game has none)
+   */
+  EXTRA_DAILY_DOUBLES: 1,
+} as const;
+
+/**
+ * All-play written responses
+ * Every team types an answer to the clue instead of buzzing
+ */
+export const ALL_PLAY = {
+  /**
+   * Maximum response length in characters
+   * Matches chk_clue_responses_answer_length
+   */
+  ANSWER_MAX_LENGTH: 500,
+
+  /**
+   * Responses arriving this long after the deadline are still accepted,
+   * in milliseconds, to absorb network latency on the final seconds
+   */
+  SUBMIT_GRACE_MS: 2000,
+} as const;
+
+/**
+ * Quick Fire scoring profiles
+ * See lib/utils/pubTriviaScoring.ts
+ */
+export const PUB_TRIVIA_SCORING = {
+  /**
+   * Most points a correct answer may be worth
+   */
+  MAX_POINTS: 10000,
+
+  /**
+   * Most rows an edited bracket table may have
+   */
+  MAX_BRACKETS: 6,
+
+  /**
+   * Partial-credit floor preselected for linear decay, as a share of the
+   * maximum, so a last-second answer still earns half (as in Kahoot)
+   */
+  DEFAULT_LINEAR_FLOOR_RATIO: 0.5,
+
+  /**
+   * Shortest and longest streaks a bonus may require
+   */
+  MIN_STREAK_LENGTH: 2,
+  MAX_STREAK_LENGTH: 10,
+
+  /**
+   * Largest streak multiplier, in percent extra (200 triples the points)
+   */
+  MAX_STREAK_MULTIPLIER_PERCENT: 200,
+
+  /**
+   * Streak bonuses preselected on the game settings page
+   */
+  DEFAULT_STREAK_MULTIPLIER_PERCENT: 50,
+  DEFAULT_STREAK_FLAT_BONUS: 200,
+} as const;
+
+/**
+ * Quick Fire team play
+ * See lib/utils/pubTriviaTeams.ts
+ */
+export const PUB_TRIVIA_TEAMS = {
+  /**
+   * Fewest and most teams a game may be split into
+   */
+  MIN_TEAMS: 2,
+  MAX_TEAMS: 10,
+
+  /**
+   * Longest team name, matching player names
+   */
+  MAX_NAME_LENGTH: 50,
+} as const;
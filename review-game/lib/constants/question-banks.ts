@@ -45,21 +45,35 @@ export const QUESTION_VALIDATION = {
   TEACHER_NOTES_MAX_LENGTH: 1000,
   /** Maximum length for image alt text */
   IMAGE_ALT_TEXT_MAX_LENGTH: 200,
-  /** Valid point values for questions (100-500 in increments of 100) */
-  POINT_VALUES: [100, 200, 300, 400, 500] as const,
+  /** Maximum length for the optional hint revealed during a game */
+  HINT_MAX_LENGTH: 300,
+  /** Maximum number of accepted alternate answers per question */
+  ACCEPTED_ANSWERS_MAX_COUNT: 10,
+  /** Quick Fire question formats (see QuestionFormat) */
+  FORMATS: ['multiple_choice', 'true_false', 'numeric', 'ordering'] as const,
+  /** Minimum number of items in an ordering question */
+  ORDERING_ITEMS_MIN_COUNT: 3,
+  /** Maximum number of items in an ordering question */
+  ORDERING_ITEMS_MAX_COUNT: 6,
+  /** Maximum length of each ordering item, so a full order fits in an answer */
+  ORDERING_ITEM_MAX_LENGTH: 45,
+  /** Valid point values for questions (100-600 in increments of 100), one per grid row */
+  POINT_VALUES: [100, 200, 300, 400, 500, 600] as const,
 } as const;
 
 /**
- * Jeopardy-style grid configuration
- * Standard game board: 7 categories × 5 questions per category
+ * Jeopardy-style grid configuration for question banks
+ * A bank holds up to 8 categories × 6 questions per category. Games use the
+ * first categories and rows that fit their board, and score each row with
+ * their own point ladder (see GAME_BOARD).
  */
 export const JEOPARDY_GRID = {
-  /** Number of categories in a standard game */
-  CATEGORIES: 7,
+  /** Number of categories a bank can hold */
+  CATEGORIES: 8,
   /** Number of questions per category */
-  QUESTIONS_PER_CATEGORY: 5,
-  /** Point values for each row (100, 200, 300, 400, 500) */
-  POINT_VALUES: [100, 200, 300, 400, 500] as const,
+  QUESTIONS_PER_CATEGORY: 6,
+  /** Point values for each row (100, 200, 300, 400, 500, 600) */
+  POINT_VALUES: [100, 200, 300, 400, 500, 600] as const,
 } as const;
 
 /**
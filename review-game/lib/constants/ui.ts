@@ -14,6 +14,9 @@ export const BUZZ_QUEUE_LABELS = {
   PROCESSING_ANSWER: 'Processing answer...',
   CLEAR_QUEUE: 'Clear Queue',
   CLEARING: 'Clearing...',
+  ARM_BUZZERS: 'Arm Buzzers',
+  ARMING: 'Arming...',
+  ARMED: 'Buzzers armed',
 } as const;
 
 /**
@@ -33,4 +36,176 @@ export const QUESTION_MODAL_MESSAGES = {
   WAITING_FOR_BUZZES: 'Waiting for buzzes...',
   PROCESSING_ANSWER: 'Processing answer...',
   NO_TEAMS_IN_QUEUE: 'No teams have buzzed in yet...',
+  BUZZERS_NOT_ARMED: 'Buzzers are not armed yet',
+  ARM_HINT: 'Read the clue aloud, then arm buzzers. Teams that buzz early are briefly locked out.',
+} as const;
+
+/**
+ * All-play response grid labels and messages
+ */
+export const ALL_PLAY_LABELS = {
+  TITLE: 'Team Responses',
+  SWITCH_TO_ALL_PLAY: 'All-Play This Clue',
+  STARTING: 'Starting...',
+  NO_RESPONSE: '(No response)',
+  WAITING_FOR_RESPONSES: 'Waiting for teams to submit their answers...',
+  FINISH: 'Finish Clue',
+  HINT: 'Every team writes an answer. Mark each one, then finish the clue. Incorrect answers do not lose points.',
+} as const;
+
+/**
+ * Steal turn messages shown in the question modal after an incorrect answer
+ */
+export const STEAL_LABELS = {
+  BADGE: 'STEAL',
+  WAITING_FOR_STEAL: 'Waiting for another team to buzz in and steal...',
+  CLOSED: 'No more answers on this clue',
+  CLOSED_HINT: 'Reveal the answer or close the question to continue.',
+} as const;
+
+/**
+ * Hint labels in the question modal and on student devices
+ */
+export const HINT_LABELS = {
+  TITLE: 'Hint',
+  REVEAL: 'Reveal Hint',
+  REDUCED_VALUE: 'Hint revealed — clue value reduced',
+} as const;
+
+/**
+ * Answer clock labels for the team at the head of the buzz queue
+ */
+export const ANSWER_CLOCK_LABELS = {
+  TITLE: 'Answer Clock',
+  YOUR_TURN: 'Answer now!',
+  TIMED_OUT: "Time's up",
+} as const;
+
+/**
+ * Answer matcher suggestion labels, keyed by AnswerMatch verdict and reason
+ */
+export const ANSWER_MATCH_LABELS = {
+  likely_correct: 'Likely correct',
+  likely_incorrect: 'Likely incorrect',
+  exact: 'matches',
+  numeric: 'same number as',
+  typo: 'close to',
+} as const;
+
+/**
+ * Daily Double placement labels, keyed by DailyDoubleMode
+ */
+export const DAILY_DOUBLE_MODE_LABELS = {
+  manual: 'Fixed when created',
+  random: 'Random at game start',
+  weighted: 'Random, favoring higher values',
+  none: 'No Daily Doubles',
+} as const;
+
+/**
+ * Daily Double placement help text, keyed by DailyDoubleMode
+ */
+export const DAILY_DOUBLE_MODE_DESCRIPTIONS = {
+  manual: 'Cells are picked when you save the game; you can re-roll them from the edit page',
+  random: 'Cells are picked when the game starts and stay hidden until a team finds one',
+  weighted: 'Picked when the game starts and hidden, landing more often on the higher-value rows like the TV show',
+  none: 'Every clue is played for its value on the board',
+} as const;
+
+/**
+ * Quick Fire scoring labels, keyed by PubTriviaScoringMode
+ */
+export const PUB_TRIVIA_SCORING_MODE_LABELS = {
+  brackets: 'Time brackets',
+  linear: 'Linear time decay',
+  flat: 'Flat points',
+} as const;
+
+/**
+ * Quick Fire scoring help text, keyed by PubTriviaScoringMode
+ */
+export const PUB_TRIVIA_SCORING_MODE_DESCRIPTIONS = {
+  brackets: 'Points step down as the timer passes each bracket',
+  linear: 'Points fall steadily from the maximum to the floor as the timer runs',
+  flat: 'Every correct answer earns the same points, however late',
+} as const;
+
+/**
+ * Quick Fire streak bonus labels, keyed by PubTriviaStreakBonusMode
+ */
+export const PUB_TRIVIA_STREAK_BONUS_LABELS = {
+  none: 'No streak bonus',
+  multiplier: 'Multiply points',
+  flat: 'Add bonus points',
+} as const;
+
+/**
+ * Quick Fire team round score labels, keyed by PubTriviaTeamAggregate
+ */
+export const PUB_TRIVIA_TEAM_AGGREGATE_LABELS = {
+  average: 'Average of members',
+  best: 'Best member',
+} as const;
+
+/**
+ * Question format labels, keyed by QuestionFormat
+ */
+export const QUESTION_FORMAT_LABELS = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / false',
+  numeric: 'Numeric (closest wins)',
+  ordering: 'Put in order',
+} as const;
+
+/**
+ * Question format help text in the question form, keyed by QuestionFormat
+ */
+export const QUESTION_FORMAT_DESCRIPTIONS = {
+  multiple_choice: 'Players pick the answer from it and 3 wrong answers',
+  true_false: 'Players answer True or False',
+  numeric: 'Players type a number; the closest answer wins full points and others within the tolerance score part',
+  ordering: 'Players put the items in order; each item in the right place earns part of the points',
+} as const;
+
+/**
+ * Daily Double wager labels in the wager modal and game settings
+ */
+export const DAILY_DOUBLE_WAGER_LABELS = {
+  TRUE_DAILY_DOUBLE: 'True Daily Double',
+  SCORE_OR_HIGHEST_CLUE: 'Score or highest clue value (TV rules)',
+  NEGATIVE_HOLD: 'Below zero: this team plays for the clue value',
+} as const;
+
+/**
+ * Score ledger reason labels, keyed by ScoreEventReason
+ */
+export const SCORE_EVENT_LABELS = {
+  correct: 'Correct answer',
+  incorrect: 'Incorrect answer',
+  daily_double_correct: 'Daily Double correct',
+  daily_double_incorrect: 'Daily Double incorrect',
+  final_jeopardy_correct: 'Final Jeopardy correct',
+  final_jeopardy_incorrect: 'Final Jeopardy incorrect',
+  all_play_correct: 'All-play correct',
+  pub_trivia_answer: 'Pub trivia answer',
+  manual_adjustment: 'Manual adjustment',
+  reset: 'Scores reset',
+} as const;
+
+/**
+ * Team device audit trail labels, keyed by TeamDeviceAction
+ */
+export const TEAM_DEVICE_EVENT_LABELS = {
+  released: 'Captain device released',
+  transferred: 'Captain transferred',
+  reclaimed: 'Team reclaimed with rejoin code',
+} as const;
+
+/**
+ * Team presence badge labels, keyed by PresenceStatus
+ */
+export const PRESENCE_LABELS = {
+  online: 'Online',
+  idle: 'Idle',
+  offline: 'Offline',
 } as const;
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useGameStore } from './gameStore';
-import type { GameData, Team, FinalJeopardyQuestion, FinalJeopardyTeamStatus } from '../../types/game';
+import { useGameStore, selectLiveState } from './gameStore';
+import type { GameData, Team, FinalJeopardyQuestion, FinalJeopardyTeamStatus, GameStateSnapshot } from '../../types/game';
 
 // Helpers ─────────────────────────────────────────────────────────────────────
 
@@ -26,6 +26,19 @@ const makeTeam = (id: string, score = 0): Team => ({
   score,
 });
 
+const makeSnapshot = (overrides?: Partial<GameStateSnapshot>): GameStateSnapshot => ({
+  currentPhase: 'regular',
+  currentQuestionId: null,
+  answerRevealed: false,
+  hintRevealed: false,
+  dailyDouble: null,
+  buzzersArmed: false,
+  buzzQueue: null,
+  finalJeopardyQuestionRevealed: false,
+  allPlay: null,
+  ...overrides,
+});
+
 const makeFJQuestion = (): FinalJeopardyQuestion => ({
   category: 'History',
   question: 'Who was the first US president?',
@@ -150,6 +163,29 @@ describe('gameStore', () => {
       useGameStore.getState().clearBuzzQueue();
       expect(useGameStore.getState().buzzQueue).toHaveLength(0);
     });
+
+    it('setBuzzQueue keeps the server order as given', () => {
+      useGameStore.getState().setBuzzQueue(
+        [{ teamId: 't2', timestamp: 300 }, { teamId: 't1', timestamp: 100 }],
+        1
+      );
+      const queue = useGameStore.getState().buzzQueue;
+      expect(queue.map((b) => b.teamId)).toEqual(['t2', 't1']);
+      expect(useGameStore.getState().buzzQueueRevision).toBe(1);
+    });
+
+    it('setBuzzersArmed toggles the armed flag', () => {
+      expect(useGameStore.getState().buzzersArmed).toBe(false);
+      useGameStore.getState().setBuzzersArmed(true);
+      expect(useGameStore.getState().buzzersArmed).toBe(true);
+    });
+
+    it('setBuzzQueue ignores updates older than the applied revision', () => {
+      useGameStore.getState().setBuzzQueue([{ teamId: 't1', timestamp: 100 }, { teamId: 't2', timestamp: 200 }], 20);
+      useGameStore.getState().setBuzzQueue([{ teamId: 't1', timestamp: 100 }], 10);
+      expect(useGameStore.getState().buzzQueue).toHaveLength(2);
+      expect(useGameStore.getState().buzzQueueRevision).toBe(20);
+    });
   });
 
   // markQuestionUsed ──────────────────────────────────────────────────────────
@@ -382,6 +418,28 @@ describe('gameStore', () => {
     });
   });
 
+  describe('startRound', () => {
+    it('swaps in the new board and clears the previous round but keeps teams', () => {
+      const store = useGameStore.getState();
+      store.setGame(makeGameData());
+      store.setTeams([makeTeam('t1', 700)]);
+      store.markQuestionUsed('q-1');
+      store.setCurrentQuestion({ id: 'q-2', value: 200, text: 'Question 2', isUsed: false });
+      store.addBuzz('t1', 100);
+
+      const roundTwo = makeGameData({ id: 'game-1', categories: [] });
+      store.startRound(roundTwo, 'double_jeopardy');
+
+      const state = useGameStore.getState();
+      expect(state.currentGameData).toBe(roundTwo);
+      expect(state.currentPhase).toBe('double_jeopardy');
+      expect(state.currentQuestion).toBeNull();
+      expect(state.selectedQuestions).toEqual([]);
+      expect(state.buzzQueue).toEqual([]);
+      expect(state.allTeams).toEqual([makeTeam('t1', 700)]);
+    });
+  });
+
   // revealedAnswer ─────────────────────────────────────────────────────────────
 
   describe('revealedAnswer', () => {
@@ -406,4 +464,210 @@ describe('gameStore', () => {
       expect(useGameStore.getState().revealedAnswer).toBeNull();
     });
   });
+
+  // all-play ─────────────────────────────────────────────────────────────────
+
+  describe('all-play', () => {
+    it('startAllPlay opens the clue for responses', () => {
+      useGameStore.getState().startAllPlay('q-1', '2026-10-24T10:00:30.000Z');
+      expect(useGameStore.getState().allPlay).toEqual({
+        questionId: 'q-1',
+        closesAt: '2026-10-24T10:00:30.000Z',
+        submittedTeamIds: [],
+      });
+    });
+
+    it('markAllPlaySubmitted records each team once', () => {
+      const store = useGameStore.getState();
+      store.startAllPlay('q-1', null);
+      store.markAllPlaySubmitted('q-1', 'team-a');
+      store.markAllPlaySubmitted('q-1', 'team-a');
+      store.markAllPlaySubmitted('q-1', 'team-b');
+      expect(useGameStore.getState().allPlay?.submittedTeamIds).toEqual(['team-a', 'team-b']);
+    });
+
+    it('markAllPlaySubmitted ignores other clues', () => {
+      const store = useGameStore.getState();
+      store.markAllPlaySubmitted('q-1', 'team-a');
+      expect(useGameStore.getState().allPlay).toBeNull();
+
+      store.startAllPlay('q-2', null);
+      store.markAllPlaySubmitted('q-1', 'team-a');
+      expect(useGameStore.getState().allPlay?.submittedTeamIds).toEqual([]);
+    });
+
+    it('a repeated start keeps submissions already received', () => {
+      const store = useGameStore.getState();
+      store.startAllPlay('q-1', null);
+      store.markAllPlaySubmitted('q-1', 'team-a');
+      store.startAllPlay('q-1', null);
+      expect(useGameStore.getState().allPlay?.submittedTeamIds).toEqual(['team-a']);
+    });
+
+    it('clearAllPlay and startRound clear the state', () => {
+      const store = useGameStore.getState();
+      store.startAllPlay('q-1', null);
+      store.clearAllPlay();
+      expect(useGameStore.getState().allPlay).toBeNull();
+
+      store.startAllPlay('q-1', null);
+      store.startRound(makeGameData(), 'double_jeopardy');
+      expect(useGameStore.getState().allPlay).toBeNull();
+    });
+  });
+
+  // steal turn ───────────────────────────────────────────────────────────────
+
+  describe('stealTurn', () => {
+    it('setStealTurn records steal progress and startRound clears it', () => {
+      const store = useGameStore.getState();
+      const turn = { questionId: 'q-1', answeredTeamIds: ['team-a'], teamId: 'team-b', closed: false };
+      store.setStealTurn(turn);
+      expect(useGameStore.getState().stealTurn).toEqual(turn);
+
+      store.startRound(makeGameData(), 'double_jeopardy');
+      expect(useGameStore.getState().stealTurn).toBeNull();
+    });
+  });
+
+  describe('answerClock', () => {
+    it('setAnswerClock starts the clock and startRound stops it', () => {
+      const store = useGameStore.getState();
+      const clock = { questionId: 'q-1', teamId: 'team-a', seconds: 5 };
+      store.setAnswerClock(clock);
+      expect(useGameStore.getState().answerClock).toEqual(clock);
+
+      store.startRound(makeGameData(), 'double_jeopardy');
+      expect(useGameStore.getState().answerClock).toBeNull();
+    });
+  });
+
+  describe('tieBreaker', () => {
+    it('setTieBreaker stores the tie-breaker and reset clears it', () => {
+      const store = useGameStore.getState();
+      const tieBreaker = {
+        teamIds: ['team-a', 'team-b'],
+        clueNumber: 1,
+        category: 'Rivers',
+        question: 'Longest river?',
+        answer: null,
+        buzzersOpen: false,
+        queue: [],
+        dismissedTeamIds: [],
+        winnerTeamId: null,
+      };
+      store.setTieBreaker(tieBreaker);
+      expect(useGameStore.getState().tieBreaker).toEqual(tieBreaker);
+
+      store.reset();
+      expect(useGameStore.getState().tieBreaker).toBeNull();
+    });
+  });
+
+  // live state snapshot ────────────────────────────────────────────────────────
+
+  describe('hydrateLiveState', () => {
+    beforeEach(() => {
+      useGameStore.getState().setGame(makeGameData({
+        categories: [
+          {
+            id: 'cat-1',
+            name: 'Science',
+            questions: [
+              { id: 'q-1', value: 100, text: 'Question 1', isUsed: false, answer: 'Answer 1', hint: 'Hint 1' },
+              { id: 'q-2', value: 200, text: 'Question 2', isUsed: false, isDailyDouble: true },
+            ],
+          },
+        ],
+      }));
+    });
+
+    it('reopens the clue with its revealed answer, arming and buzz queue', () => {
+      useGameStore.getState().hydrateLiveState(makeSnapshot({
+        currentQuestionId: 'q-1',
+        answerRevealed: true,
+        buzzersArmed: true,
+        buzzQueue: { questionId: 'q-1', queue: [{ teamId: 'team-a', timestamp: 1000 }], revision: 5 },
+      }));
+
+      const state = useGameStore.getState();
+      expect(state.currentQuestion?.id).toBe('q-1');
+      expect(state.revealedAnswer).toBe('Answer 1');
+      expect(state.buzzersArmed).toBe(true);
+      expect(state.buzzQueue).toEqual([{ teamId: 'team-a', timestamp: 1000 }]);
+      expect(state.buzzQueueRevision).toBe(5);
+      expect(state.selectedQuestions).toEqual(['q-1']);
+      expect(state.currentGameData?.categories[0].questions[0].isUsed).toBe(true);
+    });
+
+    it('restores a revealed hint', () => {
+      useGameStore.getState().hydrateLiveState(makeSnapshot({ currentQuestionId: 'q-1', hintRevealed: true }));
+      expect(useGameStore.getState().revealedHint).toBe('Hint 1');
+
+      useGameStore.getState().hydrateLiveState(makeSnapshot({ currentQuestionId: 'q-1' }));
+      expect(useGameStore.getState().revealedHint).toBeNull();
+    });
+
+    it('restores all-play responses for the open clue only', () => {
+      const allPlay = { questionId: 'q-1', closesAt: null, submittedTeamIds: ['team-a'] };
+      useGameStore.getState().hydrateLiveState(makeSnapshot({ currentQuestionId: 'q-1', allPlay }));
+      expect(useGameStore.getState().allPlay).toEqual(allPlay);
+
+      useGameStore.getState().hydrateLiveState(makeSnapshot({
+        currentQuestionId: 'q-2',
+        allPlay: { ...allPlay, questionId: 'q-1' },
+      }));
+      expect(useGameStore.getState().allPlay).toBeNull();
+    });
+
+    it('restores a submitted Daily Double wager', () => {
+      useGameStore.getState().hydrateLiveState(makeSnapshot({
+        currentQuestionId: 'q-2',
+        dailyDouble: { teamId: 'team-a', wager: 300 },
+      }));
+
+      const state = useGameStore.getState();
+      expect(state.controllingTeamId).toBe('team-a');
+      expect(state.currentWager).toBe(300);
+      expect(state.isWagerSubmitted).toBe(true);
+    });
+
+    it('leaves the board closed when the clue is no longer on it', () => {
+      useGameStore.getState().hydrateLiveState(makeSnapshot({
+        currentQuestionId: 'q-missing',
+        currentPhase: 'final_jeopardy_wager',
+      }));
+
+      const state = useGameStore.getState();
+      expect(state.currentQuestion).toBeNull();
+      expect(state.currentPhase).toBe('final_jeopardy_wager');
+    });
+  });
+
+  describe('selectLiveState', () => {
+    it('is empty when no clue is open', () => {
+      expect(selectLiveState(useGameStore.getState())).toEqual({
+        currentQuestionId: null,
+        answerRevealed: false,
+        hintRevealed: false,
+        dailyDouble: null,
+      });
+    });
+
+    it('includes the Daily Double wager only once submitted', () => {
+      const store = useGameStore.getState();
+      store.setCurrentQuestion({ id: 'q-2', value: 200, text: 'Question 2', isUsed: false, isDailyDouble: true });
+      store.setControllingTeam('team-a');
+      store.setCurrentWager(300);
+      expect(selectLiveState(useGameStore.getState()).dailyDouble).toBeNull();
+
+      store.setWagerSubmitted(true);
+      expect(selectLiveState(useGameStore.getState())).toEqual({
+        currentQuestionId: 'q-2',
+        answerRevealed: false,
+        hintRevealed: false,
+        dailyDouble: { teamId: 'team-a', wager: 300 },
+      });
+    });
+  });
 });
@@ -7,6 +7,8 @@
  * - Buzz queue for student responses
  * - Current question state
  * - Daily Double wager state
+ * - All-play response collection for the open clue
+ * - Rehydration from the server snapshot after a refresh
  *
  * The store is used across teacher controls, student views, and the game board display
  * to maintain consistent state throughout the application.
@@ -15,7 +17,7 @@
  */
 
 import { create } from 'zustand';
-import { GameData, Team, Question, BuzzEntry, GamePhase, FinalJeopardyQuestion, FinalJeopardyTeamStatus } from '../../types/game';
+import { GameData, Team, Question, BuzzEntry, GamePhase, FinalJeopardyQuestion, FinalJeopardyTeamStatus, GameLiveState, GameStateSnapshot, AllPlayState, StealTurn, AnswerClock, TieBreakerState } from '../../types/game';
 
 /**
  * Represents the state portion of the game store.
@@ -25,6 +27,8 @@ import { GameData, Team, Question, BuzzEntry, GamePhase, FinalJeopardyQuestion,
  * @property {Team[]} allTeams - All teams participating in the current game
  * @property {Question | null} currentQuestion - The question currently being displayed/answered
  * @property {BuzzEntry[]} buzzQueue - Ordered queue of buzzes from students (sorted by timestamp)
+ * @property {number} buzzQueueRevision - Revision of the last server-sent queue applied to buzzQueue
+ * @property {boolean} buzzersArmed - Whether the teacher has armed buzzers for the current question
  * @property {string[]} selectedQuestions - Array of question IDs that have been used
  * @property {Record<string, number>} scoreUpdates - Score changes for each team (teamId -> score delta)
  * @property {number | null} currentWager - The wager amount for Daily Double questions
@@ -34,12 +38,19 @@ import { GameData, Team, Question, BuzzEntry, GamePhase, FinalJeopardyQuestion,
  * @property {FinalJeopardyQuestion | null} finalJeopardyQuestion - The Final Jeopardy question data
  * @property {Record<string, FinalJeopardyTeamStatus>} finalJeopardyTeamStatuses - Team statuses for Final Jeopardy
  * @property {string | null} revealedAnswer - The answer text broadcast to students, or null if hidden
+ * @property {string | null} revealedHint - The open clue's hint broadcast to students, or null if hidden
+ * @property {AllPlayState | null} allPlay - All-play responses being collected for the open clue, or null in buzzer mode
+ * @property {StealTurn | null} stealTurn - Steal progress after an incorrect answer on the open clue, or null before one
+ * @property {AnswerClock | null} answerClock - Countdown for the team answering the open clue, or null when none is running
+ * @property {TieBreakerState | null} tieBreaker - The tie-breaker being played or decided, or null when there is none
  */
 interface GameState {
   currentGameData: GameData | null;
   allTeams: Team[];
   currentQuestion: Question | null;
   buzzQueue: BuzzEntry[];
+  buzzQueueRevision: number;
+  buzzersArmed: boolean;
   selectedQuestions: string[];
   scoreUpdates: Record<string, number>;
   currentWager: number | null;
@@ -50,6 +61,11 @@ interface GameState {
   finalJeopardyQuestionRevealed: boolean;
   finalJeopardyTeamStatuses: Record<string, FinalJeopardyTeamStatus>;
   revealedAnswer: string | null;
+  revealedHint: string | null;
+  allPlay: AllPlayState | null;
+  stealTurn: StealTurn | null;
+  answerClock: AnswerClock | null;
+  tieBreaker: TieBreakerState | null;
 }
 
 /**
@@ -89,6 +105,20 @@ interface GameActions {
    */
   removeBuzz: (teamId: string) => void;
 
+  /**
+   * Replaces the queue with the server-ordered queue.
+   * Updates with a revision older than the last applied one are ignored.
+   * @param {BuzzEntry[]} queue - The queue in server-decided order
+   * @param {number} revision - Server revision of the queue
+   */
+  setBuzzQueue: (queue: BuzzEntry[], revision: number) => void;
+
+  /**
+   * Sets whether buzzers are armed for the current question.
+   * @param {boolean} armed - True once the teacher arms buzzers
+   */
+  setBuzzersArmed: (armed: boolean) => void;
+
   /**
    * Clears all buzzes from the queue.
    */
@@ -166,6 +196,66 @@ interface GameActions {
    */
   setRevealedAnswer: (answer: string | null) => void;
 
+  /**
+   * Sets the hint broadcast to students. While it is showing, the open clue
+   * is worth less to whoever answers it.
+   * @param {string | null} hint - The hint to reveal, or null to hide
+   */
+  setRevealedHint: (hint: string | null) => void;
+
+  /**
+   * Switches a clue to all-play: every team submits a written answer.
+   * @param {string} questionId - The clue collecting responses
+   * @param {string | null} closesAt - Submission deadline (ISO 8601), or null without a timer
+   */
+  startAllPlay: (questionId: string, closesAt: string | null) => void;
+
+  /**
+   * Records that a team has submitted its all-play response.
+   * Ignored when the clue is no longer collecting responses.
+   * @param {string} questionId - The clue the response is for
+   * @param {string} teamId - The team that submitted
+   */
+  markAllPlaySubmitted: (questionId: string, teamId: string) => void;
+
+  /**
+   * Clears all-play state when the clue closes.
+   */
+  clearAllPlay: () => void;
+
+  /**
+   * Records steal progress after an incorrect answer, or clears it with null.
+   * @param {StealTurn | null} turn - Who answers next and whether the clue is closed
+   */
+  setStealTurn: (turn: StealTurn | null) => void;
+
+  /**
+   * Starts the answer clock for the team at the head of the buzz queue, or stops it with null.
+   * @param {AnswerClock | null} clock - The team answering and its time limit
+   */
+  setAnswerClock: (clock: AnswerClock | null) => void;
+
+  /**
+   * Replaces the tie-breaker with the server's latest state, or clears it with null.
+   * @param {TieBreakerState | null} tieBreaker - State from the tie-breaker API or broadcast
+   */
+  setTieBreaker: (tieBreaker: TieBreakerState | null) => void;
+
+  /**
+   * Restores the live Jeopardy state from a server snapshot after a refresh.
+   * Must be called after setGame so the open clue can be found on the board.
+   * @param {GameStateSnapshot} snapshot - Snapshot from GET /api/games/[gameId]/state
+   */
+  hydrateLiveState: (snapshot: GameStateSnapshot) => void;
+
+  /**
+   * Replaces the board with the next round's board and clears any open clue,
+   * buzz queue, all-play responses, steal progress and wager. Teams and their scores carry over.
+   * @param {GameData} data - The new round's board
+   * @param {GamePhase} phase - Board-play phase of the new round
+   */
+  startRound: (data: GameData, phase: GamePhase) => void;
+
   /**
    * Resets the entire store to initial state.
    */
@@ -188,6 +278,8 @@ const initialState: GameState = {
   allTeams: [],
   currentQuestion: null,
   buzzQueue: [],
+  buzzQueueRevision: 0,
+  buzzersArmed: false,
   selectedQuestions: [],
   scoreUpdates: {},
   currentWager: null,
@@ -198,6 +290,11 @@ const initialState: GameState = {
   finalJeopardyQuestionRevealed: false,
   finalJeopardyTeamStatuses: {},
   revealedAnswer: null,
+  revealedHint: null,
+  allPlay: null,
+  stealTurn: null,
+  answerClock: null,
+  tieBreaker: null,
 };
 
 /**
@@ -244,6 +341,13 @@ export const useGameStore = create<GameStore>((set) => ({
     set((state) => ({
       buzzQueue: state.buzzQueue.filter((buzz) => buzz.teamId !== teamId),
     })),
+  setBuzzQueue: (queue, revision) =>
+    set((state) =>
+      revision < state.buzzQueueRevision
+        ? state
+        : { buzzQueue: queue, buzzQueueRevision: revision }
+    ),
+  setBuzzersArmed: (armed) => set({ buzzersArmed: armed }),
   clearBuzzQueue: () => set({ buzzQueue: [] }),
   markQuestionUsed: (questionId) =>
     set((state) => {
@@ -285,6 +389,29 @@ export const useGameStore = create<GameStore>((set) => ({
   clearWager: () => set({ currentWager: null, isWagerSubmitted: false, controllingTeamId: null }),
 
   setRevealedAnswer: (answer) => set({ revealedAnswer: answer }),
+  setRevealedHint: (hint) => set({ revealedHint: hint }),
+
+  // All-play actions
+  startAllPlay: (questionId, closesAt) =>
+    set((state) => ({
+      // Keep submissions already received if the start event arrives twice
+      allPlay: state.allPlay?.questionId === questionId
+        ? { ...state.allPlay, closesAt }
+        : { questionId, closesAt, submittedTeamIds: [] },
+    })),
+  markAllPlaySubmitted: (questionId, teamId) =>
+    set((state) =>
+      state.allPlay?.questionId !== questionId || state.allPlay.submittedTeamIds.includes(teamId)
+        ? state
+        : { allPlay: { ...state.allPlay, submittedTeamIds: [...state.allPlay.submittedTeamIds, teamId] } }
+    ),
+  clearAllPlay: () => set({ allPlay: null }),
+
+  setStealTurn: (turn) => set({ stealTurn: turn }),
+
+  setAnswerClock: (clock) => set({ answerClock: clock }),
+
+  setTieBreaker: (tieBreaker) => set({ tieBreaker }),
 
   // Final Jeopardy actions
   setCurrentPhase: (phase) => set({ currentPhase: phase }),
@@ -308,5 +435,101 @@ export const useGameStore = create<GameStore>((set) => ({
       finalJeopardyTeamStatuses: {},
     }),
 
+  hydrateLiveState: (snapshot) =>
+    set((state) => {
+      const restored: Partial<GameState> = {
+        currentPhase: snapshot.currentPhase,
+        finalJeopardyQuestionRevealed: snapshot.finalJeopardyQuestionRevealed,
+      };
+
+      const question = snapshot.currentQuestionId
+        ? state.currentGameData?.categories
+            .flatMap((category) => category.questions)
+            .find((q) => q.id === snapshot.currentQuestionId)
+        : undefined;
+
+      // The clue is gone from the board (bank edited mid-game); leave it closed
+      if (!question) {
+        return restored;
+      }
+
+      const dailyDouble = question.isDailyDouble ? snapshot.dailyDouble : null;
+      const alreadyUsed = state.selectedQuestions.includes(question.id);
+
+      return {
+        ...restored,
+        currentQuestion: question,
+        revealedAnswer: snapshot.answerRevealed ? question.answer ?? null : null,
+        revealedHint: snapshot.hintRevealed ? question.hint ?? null : null,
+        buzzersArmed: snapshot.buzzersArmed,
+        allPlay: snapshot.allPlay?.questionId === question.id ? snapshot.allPlay : null,
+        ...(snapshot.buzzQueue && snapshot.buzzQueue.revision >= state.buzzQueueRevision
+          ? { buzzQueue: snapshot.buzzQueue.queue, buzzQueueRevision: snapshot.buzzQueue.revision }
+          : {}),
+        controllingTeamId: dailyDouble?.teamId ?? null,
+        currentWager: dailyDouble?.wager ?? null,
+        isWagerSubmitted: dailyDouble !== null,
+        // Same bookkeeping as selecting the clue on the board
+        ...(alreadyUsed || !state.currentGameData
+          ? {}
+          : {
+              selectedQuestions: [...state.selectedQuestions, question.id],
+              currentGameData: {
+                ...state.currentGameData,
+                categories: state.currentGameData.categories.map((category) => ({
+                  ...category,
+                  questions: category.questions.map((q) =>
+                    q.id === question.id ? { ...q, isUsed: true } : q
+                  ),
+                })),
+              },
+            }),
+      };
+    }),
+
+  startRound: (data, phase) =>
+    set({
+      currentGameData: data,
+      currentPhase: phase,
+      currentQuestion: null,
+      selectedQuestions: [],
+      buzzQueue: [],
+      buzzQueueRevision: 0,
+      buzzersArmed: false,
+      revealedAnswer: null,
+      revealedHint: null,
+      allPlay: null,
+      stealTurn: null,
+      answerClock: null,
+      currentWager: null,
+      isWagerSubmitted: false,
+      controllingTeamId: null,
+    }),
+
   reset: () => set(initialState),
-}));
\ No newline at end of file
+}));
+
+/**
+ * Derives the live Jeopardy state that is persisted server-side from the store.
+ * A Daily Double wager is only included once it has been submitted.
+ *
+ * @param {GameState} state - Current store state
+ * @returns {GameLiveState} The state to send to PATCH /api/games/[gameId]/state
+ */
+export const selectLiveState = (state: GameState): GameLiveState => {
+  const { currentQuestion, revealedAnswer, revealedHint, isWagerSubmitted, controllingTeamId, currentWager } = state;
+
+  if (!currentQuestion) {
+    return { currentQuestionId: null, answerRevealed: false, hintRevealed: false, dailyDouble: null };
+  }
+
+  return {
+    currentQuestionId: currentQuestion.id,
+    answerRevealed: revealedAnswer !== null,
+    hintRevealed: revealedHint !== null,
+    dailyDouble:
+      isWagerSubmitted && controllingTeamId && currentWager !== null
+        ? { teamId: controllingTeamId, wager: currentWager }
+        : null,
+  };
+};
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Server-side Realtime broadcast helper.
+ *
+ * API routes that own a piece of game state (e.g. the buzz queue) push updates
+ * to connected clients through the Realtime REST endpoint instead of relying on
+ * the caller's browser to rebroadcast. Requires the service role key, so this
+ * module must only be imported from server code.
+ *
+ * @module lib/supabase/broadcast
+ */
+
+import { logger } from '@/lib/logger';
+
+/**
+ * Sends a broadcast message to a Realtime channel via the REST API.
+ *
+ * Never throws: failures are logged and reported through the return value so
+ * routes can treat the broadcast as best-effort.
+ *
+ * @param channel - Channel name as used by the client, e.g. `buzzer:${gameId}`
+ * @param event - Broadcast event name
+ * @param payload - JSON-serialisable payload
+ * @returns {Promise<boolean>} True if Realtime accepted the message
+ */
+export async function broadcastToChannel(
+  channel: string,
+  event: string,
+  payload: Record<string, unknown>
+): Promise<boolean> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceKey) {
+    logger.error('Cannot broadcast: Supabase URL or service role key missing', null, {
+      operation: 'broadcastToChannel',
+      channel,
+      event,
+    });
+    return false;
+  }
+
+  try {
+    const res = await fetch(`${supabaseUrl}/realtime/v1/api/broadcast`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': serviceKey,
+        'Authorization': `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        messages: [{ topic: `realtime:${channel}`, event, payload }],
+      }),
+    });
+
+    if (!res.ok) {
+      logger.error('Realtime broadcast rejected', null, {
+        operation: 'broadcastToChannel',
+        channel,
+        event,
+        status: res.status,
+      });
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Realtime broadcast threw', error, {
+      operation: 'broadcastToChannel',
+      channel,
+      event,
+    });
+    return false;
+  }
+}
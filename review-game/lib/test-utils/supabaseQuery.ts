@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Supabase query mocks for API route unit tests.
+ *
+ * Routes chain PostgREST filters (`from(...).select(...).eq(...)`) and either
+ * await the chain or end it with single/maybeSingle. These helpers stand in
+ * for that builder so tests only declare what each query resolves to.
+ *
+ * @module lib/test-utils/supabaseQuery
+ */
+
+import { vi } from 'vitest';
+
+/** What an awaited query resolves to; count answers head: true selects */
+export type QueryResult = { data: unknown; error: unknown; count?: number | null };
+
+const CHAIN_METHODS = ['select', 'eq', 'neq', 'in', 'is', 'not', 'order', 'update', 'delete', 'upsert'] as const;
+
+/**
+ * Builds a thenable query chain: every filter or write method returns the
+ * chain and awaiting it (or calling single/maybeSingle) resolves to `result`.
+ */
+export function makeQueryChain(result: QueryResult) {
+  const chain: Record<string, unknown> = {};
+  for (const method of CHAIN_METHODS) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.single = vi.fn(() => Promise.resolve(result));
+  chain.maybeSingle = vi.fn(() => Promise.resolve(result));
+  chain.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return chain;
+}
+
+/**
+ * Builds a client whose from(table) calls resolve to the table's results in
+ * order; every chain is kept so tests can inspect what was written.
+ */
+export function makeQueryClient(results: Record<string, QueryResult[]>, extra: Record<string, unknown> = {}) {
+  const chains: { table: string; chain: Record<string, unknown> }[] = [];
+  return {
+    chains,
+    ...extra,
+    from: (table: string) => {
+      const chain = makeQueryChain(results[table]?.shift() ?? { data: null, error: null });
+      chains.push({ table, chain });
+      return chain;
+    },
+  };
+}
+
+/**
+ * Lists the rows a client passed to update or upsert on a table, in call order.
+ */
+export function writesTo(
+  client: ReturnType<typeof makeQueryClient>,
+  table: string,
+  method: 'update' | 'upsert'
+): unknown[] {
+  return client.chains
+    .filter((entry) => entry.table === table)
+    .flatMap((entry) => (entry.chain[method] as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0]));
+}
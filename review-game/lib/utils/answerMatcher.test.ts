@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAnswer, parseNumericAnswer, getTypoAllowance, editDistance, matchAnswer, parseAcceptedAnswers, validateAcceptedAnswers } from './answerMatcher';
+
+describe('normalizeAnswer', () => {
+  it('ignores case, punctuation and surrounding whitespace', () => {
+    expect(normalizeAnswer('  Washington, D.C.! ')).toBe('washington d c');
+  });
+
+  it('removes accents and apostrophes', () => {
+    expect(normalizeAnswer('Pelé')).toBe('pele');
+    expect(normalizeAnswer("O'Keeffe")).toBe('okeeffe');
+  });
+
+  it('drops a leading question phrase and article', () => {
+    expect(normalizeAnswer('What is the Mississippi River?')).toBe('mississippi river');
+    expect(normalizeAnswer('Who was an astronaut')).toBe('astronaut');
+    expect(normalizeAnswer('The Beatles')).toBe('beatles');
+  });
+
+  it('reads & as and', () => {
+    expect(normalizeAnswer('Lewis & Clark')).toBe('lewis and clark');
+  });
+});
+
+describe('parseNumericAnswer', () => {
+  it('parses digits with separators, currency and percent signs', () => {
+    expect(parseNumericAnswer('1,000')).toBe(1000);
+    expect(parseNumericAnswer('$12.50')).toBe(12.5);
+    expect(parseNumericAnswer('50%')).toBe(50);
+    expect(parseNumericAnswer('-4')).toBe(-4);
+  });
+
+  it('parses simple fractions', () => {
+    expect(parseNumericAnswer('1/2')).toBe(0.5);
+    expect(parseNumericAnswer('3/0')).toBeNull();
+  });
+
+  it('parses number words', () => {
+    expect(parseNumericAnswer('twelve')).toBe(12);
+    expect(parseNumericAnswer('Twenty-one')).toBe(21);
+    expect(parseNumericAnswer('one hundred and five')).toBe(105);
+    expect(parseNumericAnswer('two thousand twenty six')).toBe(2026);
+  });
+
+  it('returns null for answers that are not numbers', () => {
+    expect(parseNumericAnswer('Paris')).toBeNull();
+    expect(parseNumericAnswer('one direction')).toBeNull();
+    expect(parseNumericAnswer('')).toBeNull();
+  });
+});
+
+describe('getTypoAllowance', () => {
+  it('allows no typos in very short answers and more in longer ones', () => {
+    expect(getTypoAllowance(3)).toBe(0);
+    expect(getTypoAllowance(5)).toBe(1);
+    expect(getTypoAllowance(11)).toBe(2);
+    expect(getTypoAllowance(20)).toBe(3);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('paris', 'paris')).toBe(0);
+    expect(editDistance('paris', 'pari')).toBe(1);
+    expect(editDistance('paris', 'parris')).toBe(1);
+    expect(editDistance('paris', 'porus')).toBe(2);
+  });
+
+  it('counts a swap of adjacent letters as one edit', () => {
+    expect(editDistance('paris', 'pairs')).toBe(1);
+  });
+});
+
+describe('matchAnswer', () => {
+  it('matches after normalization', () => {
+    expect(matchAnswer('what is PARIS?', 'Paris')).toEqual({
+      verdict: 'likely_correct',
+      matchedAnswer: 'Paris',
+      reason: 'exact',
+    });
+  });
+
+  it('ignores spaces between words', () => {
+    expect(matchAnswer('Newyork', 'New York').reason).toBe('exact');
+  });
+
+  it('matches equal numbers written differently', () => {
+    expect(matchAnswer('twelve', '12')).toMatchObject({ verdict: 'likely_correct', reason: 'numeric' });
+    expect(matchAnswer('1,000', 'one thousand').reason).toBe('numeric');
+  });
+
+  it('never treats a different number as a typo', () => {
+    expect(matchAnswer('1998', '1999').verdict).toBe('likely_incorrect');
+    expect(matchAnswer('Apollo 13', 'Apollo 11').verdict).toBe('likely_incorrect');
+  });
+
+  it('tolerates small typos in longer answers', () => {
+    expect(matchAnswer('Missisippi', 'Mississippi')).toMatchObject({ verdict: 'likely_correct', reason: 'typo' });
+    expect(matchAnswer('Jeferson', 'Thomas Jefferson').verdict).toBe('likely_incorrect');
+  });
+
+  it('requires short answers to be exact', () => {
+    expect(matchAnswer('cot', 'cat').verdict).toBe('likely_incorrect');
+  });
+
+  it('matches accepted alternates and prefers the strongest match', () => {
+    expect(matchAnswer('FDR', 'Franklin D. Roosevelt', ['FDR', 'Franklin Roosevelt'])).toEqual({
+      verdict: 'likely_correct',
+      matchedAnswer: 'FDR',
+      reason: 'exact',
+    });
+    expect(matchAnswer('Franklin Roosevelt', 'Franklin Rosevelt', ['Franklin Roosevelt'])).toMatchObject({
+      matchedAnswer: 'Franklin Roosevelt',
+      reason: 'exact',
+    });
+  });
+
+  it('marks blank or unrelated answers likely incorrect', () => {
+    const incorrect = { verdict: 'likely_incorrect', matchedAnswer: null, reason: null };
+    expect(matchAnswer(null, 'Paris')).toEqual(incorrect);
+    expect(matchAnswer('   ', 'Paris')).toEqual(incorrect);
+    expect(matchAnswer('London', 'Paris')).toEqual(incorrect);
+  });
+});
+
+describe('parseAcceptedAnswers', () => {
+  it('keeps one trimmed answer per non-blank line without duplicates', () => {
+    expect(parseAcceptedAnswers(' FDR \n\nRoosevelt\nFDR\n')).toEqual(['FDR', 'Roosevelt']);
+  });
+});
+
+describe('validateAcceptedAnswers', () => {
+  it('accepts a short list of non-empty strings', () => {
+    expect(validateAcceptedAnswers([], 3, 10)).toBeNull();
+    expect(validateAcceptedAnswers(['FDR', 'Roosevelt'], 3, 10)).toBeNull();
+  });
+
+  it('rejects non-arrays, blank entries, long entries and long lists', () => {
+    expect(validateAcceptedAnswers('FDR', 3, 10)).toMatch(/array/);
+    expect(validateAcceptedAnswers(['FDR', ' '], 3, 10)).toMatch(/non-empty/);
+    expect(validateAcceptedAnswers(['x'.repeat(11)], 3, 10)).toMatch(/10 characters/);
+    expect(validateAcceptedAnswers(['a', 'b', 'c', 'd'], 3, 10)).toMatch(/at most 3/);
+  });
+});
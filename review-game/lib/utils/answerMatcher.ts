@@ -0,0 +1,266 @@
+/**
+ * Utility functions for suggesting whether a written answer is correct
+ *
+ * Used server-side to pre-mark Final Jeopardy and all-play submissions. A
+ * submission is compared with the correct answer and any accepted alternates
+ * after normalization (case, accents, punctuation, leading "what is" and
+ * articles), as numbers ("12" = "twelve" = "12.0"), and with a small typo
+ * allowance that grows with the answer's length. The result is only a hint;
+ * the teacher confirms every mark.
+ */
+
+import type { AnswerMatch } from '@/types/game';
+
+/** Jeopardy-style question phrasing students often type before the answer */
+const LEADING_PHRASE = /^(?:what|who|where|when)\s+(?:is|are|was|were)\s+/;
+
+/** Articles ignored at the start of an answer */
+const LEADING_ARTICLE = /^(?:a|an|the)\s+/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13,
+  fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+  nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALE_WORDS: Record<string, number> = {
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000,
+};
+
+const stripLeadingWords = (text: string): string =>
+  text.replace(LEADING_PHRASE, '').replace(LEADING_ARTICLE, '');
+
+/**
+ * Normalize an answer for comparison: lowercase, accents removed, "&" read
+ * as "and", punctuation dropped, whitespace collapsed, and a leading
+ * "what is"-style phrase and article removed.
+ * @param text - Answer as typed
+ * @returns Normalized answer, possibly empty
+ */
+export const normalizeAnswer = (text: string): string => {
+  const cleaned = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2018\u2019]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return stripLeadingWords(cleaned);
+};
+
+/**
+ * Parse spelled-out whole numbers such as "one hundred twenty three".
+ * @param normalized - Output of {@link normalizeAnswer}
+ * @returns The value, or null when any word is not part of a number
+ */
+const parseNumberWords = (normalized: string): number | null => {
+  const words = normalized.split(' ').filter((word) => word && word !== 'and');
+  if (words.length === 0) {
+    return null;
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word];
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word in SCALE_WORDS) {
+      total += (current || 1) * SCALE_WORDS[word];
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+
+  return total + current;
+};
+
+/**
+ * Read an answer as a number: digits (with thousands separators, "$" or "%"),
+ * a simple fraction, or number words.
+ * @param text - Answer as typed
+ * @returns The value, or null when the answer is not a number
+ */
+export const parseNumericAnswer = (text: string): number | null => {
+  const compact = stripLeadingWords(
+    text.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[?!.]+$/, '')
+  )
+    .replace(/[$%]/g, '')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .trim();
+
+  if (/^-?\d+(?:\.\d+)?$/.test(compact)) {
+    return Number(compact);
+  }
+
+  const fraction = compact.match(/^(-?\d+)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+
+  return parseNumberWords(normalizeAnswer(text));
+};
+
+/**
+ * Number of typos tolerated for an answer of the given length: none for very
+ * short answers, where one letter often changes the word.
+ * @param length - Length of the normalized correct answer, without spaces
+ * @returns Maximum edit distance that still counts as a match
+ */
+export const getTypoAllowance = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  if (length <= 12) return 2;
+  return 3;
+};
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters (optimal string alignment).
+ * @param a - First string
+ * @param b - Second string
+ * @returns Minimum number of edits to turn a into b
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const MATCH_PRIORITY: Record<NonNullable<AnswerMatch['reason']>, number> = {
+  exact: 0,
+  numeric: 1,
+  typo: 2,
+};
+
+/**
+ * Compare one submission with a single accepted answer.
+ * @returns How it matched, or null when it does not
+ */
+const compareAnswer = (submitted: string, accepted: string): AnswerMatch['reason'] => {
+  const submittedNormalized = normalizeAnswer(submitted);
+  const acceptedNormalized = normalizeAnswer(accepted);
+  if (!submittedNormalized || !acceptedNormalized) {
+    return null;
+  }
+
+  if (submittedNormalized === acceptedNormalized) {
+    return 'exact';
+  }
+
+  const acceptedValue = parseNumericAnswer(accepted);
+  if (acceptedValue !== null) {
+    const submittedValue = parseNumericAnswer(submitted);
+    return submittedValue !== null && Math.abs(submittedValue - acceptedValue) < 1e-9
+      ? 'numeric'
+      : null;
+  }
+
+  // A typo in a number changes its meaning, so digits must match exactly
+  if (/\d/.test(submittedNormalized) || /\d/.test(acceptedNormalized)) {
+    return null;
+  }
+
+  const submittedLetters = submittedNormalized.replace(/ /g, '');
+  const acceptedLetters = acceptedNormalized.replace(/ /g, '');
+  if (submittedLetters === acceptedLetters) {
+    return 'exact';
+  }
+
+  const allowance = getTypoAllowance(acceptedLetters.length);
+  if (allowance > 0 &&
+      Math.abs(submittedLetters.length - acceptedLetters.length) <= allowance &&
+      editDistance(submittedLetters, acceptedLetters) <= allowance) {
+    return 'typo';
+  }
+
+  return null;
+};
+
+/**
+ * Suggest whether a written answer is correct.
+ * @param submitted - Answer the team typed; null or blank is never a match
+ * @param correctAnswer - The question's answer
+ * @param acceptedAnswers - Alternates that also count as correct
+ * @returns The best match (exact, then numeric, then typo) or a likely-incorrect verdict
+ */
+export const matchAnswer = (
+  submitted: string | null | undefined,
+  correctAnswer: string,
+  acceptedAnswers: readonly string[] = []
+): AnswerMatch => {
+  let best: AnswerMatch | null = null;
+
+  if (submitted && submitted.trim()) {
+    for (const accepted of [correctAnswer, ...acceptedAnswers]) {
+      const reason = compareAnswer(submitted, accepted);
+      if (reason && (!best?.reason || MATCH_PRIORITY[reason] < MATCH_PRIORITY[best.reason])) {
+        best = { verdict: 'likely_correct', matchedAnswer: accepted, reason };
+      }
+    }
+  }
+
+  return best ?? { verdict: 'likely_incorrect', matchedAnswer: null, reason: null };
+};
+
+/**
+ * Split an "also accept" textarea (one answer per line) into trimmed,
+ * non-empty, distinct answers.
+ * @param text - Textarea contents
+ * @returns Accepted answers in the order typed
+ */
+export const parseAcceptedAnswers = (text: string): string[] =>
+  Array.from(new Set(text.split('\n').map((line) => line.trim()).filter(Boolean)));
+
+/**
+ * Validate a list of accepted alternate answers from a request body.
+ * @param value - Untrusted accepted_answers value
+ * @param maxCount - Maximum number of alternates
+ * @param maxLength - Maximum length of each alternate
+ * @returns Error message, or null when valid
+ */
+export const validateAcceptedAnswers = (
+  value: unknown,
+  maxCount: number,
+  maxLength: number
+): string | null => {
+  if (!Array.isArray(value)) {
+    return 'accepted_answers must be an array of strings';
+  }
+  if (value.length > maxCount) {
+    return `accepted_answers may contain at most ${maxCount} answers`;
+  }
+  for (const answer of value) {
+    if (typeof answer !== 'string' || answer.trim().length === 0) {
+      return 'Each accepted answer must be a non-empty string';
+    }
+    if (answer.length > maxLength) {
+      return `Each accepted answer must not exceed ${maxLength} characters`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BOARD_LAYOUT,
+  getBoardLayout,
+  buildPointLadder,
+  formatPointLadder,
+  validateBoardLayout,
+} from './boardLayout';
+
+describe('getBoardLayout', () => {
+  it('falls back to the standard board', () => {
+    expect(getBoardLayout({})).toEqual(DEFAULT_BOARD_LAYOUT);
+    expect(getBoardLayout({ board_categories: null, point_values: [] })).toEqual(DEFAULT_BOARD_LAYOUT);
+  });
+
+  it('reads the stored layout', () => {
+    expect(getBoardLayout({ board_categories: 4, point_values: [10, 20, 30] }))
+      .toEqual({ categories: 4, pointValues: [10, 20, 30] });
+  });
+});
+
+describe('point ladders', () => {
+  it('builds evenly spaced ladders', () => {
+    expect(buildPointLadder(10, 3)).toEqual([10, 20, 30]);
+    expect(buildPointLadder(200, 5)).toEqual([200, 400, 600, 800, 1000]);
+  });
+
+  it('formats even ladders as a range and others as a list', () => {
+    expect(formatPointLadder([100, 200, 300, 400, 500])).toBe('100–500');
+    expect(formatPointLadder([10, 25, 50])).toBe('10, 25, 50');
+  });
+});
+
+describe('validateBoardLayout', () => {
+  it('accepts boards from 3x3 to 8x6', () => {
+    expect(validateBoardLayout(3, [10, 20, 30])).toBeNull();
+    expect(validateBoardLayout(8, buildPointLadder(200, 6))).toBeNull();
+  });
+
+  it('rejects category counts outside the allowed range', () => {
+    expect(validateBoardLayout(2, [10, 20, 30])).toMatch(/board_categories/);
+    expect(validateBoardLayout(9, [10, 20, 30])).toMatch(/board_categories/);
+    expect(validateBoardLayout('7', [10, 20, 30])).toMatch(/board_categories/);
+  });
+
+  it('rejects ladders with the wrong number of rows', () => {
+    expect(validateBoardLayout(5, [10, 20])).toMatch(/between 3 and 6/);
+    expect(validateBoardLayout(5, buildPointLadder(10, 7))).toMatch(/between 3 and 6/);
+  });
+
+  it('rejects non-positive, oversized or non-increasing values', () => {
+    expect(validateBoardLayout(5, [0, 10, 20])).toMatch(/integers/);
+    expect(validateBoardLayout(5, [10, 20, 20000])).toMatch(/integers/);
+    expect(validateBoardLayout(5, [10, 30, 20])).toMatch(/increase/);
+  });
+});
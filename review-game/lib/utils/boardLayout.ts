@@ -0,0 +1,90 @@
+/**
+ * Utility functions for Jeopardy board dimensions
+ *
+ * A game stores its board as board_categories (columns) and point_values (the
+ * ladder, one value per row). The board uses the bank's first categories and
+ * each category's lowest-valued questions, scored with the game's ladder.
+ */
+
+import { GAME_BOARD } from '@/lib/constants/game';
+import type { BoardLayout } from '@/types/game';
+
+/**
+ * Layout of a standard 7-category, 100-500 board
+ */
+export const DEFAULT_BOARD_LAYOUT: BoardLayout = {
+  categories: GAME_BOARD.DEFAULT_CATEGORIES,
+  pointValues: [...GAME_BOARD.DEFAULT_POINT_VALUES],
+};
+
+/**
+ * Read a game's board layout, falling back to the standard board
+ * @param game - Row with board_categories and point_values
+ * @returns The game's layout
+ */
+export const getBoardLayout = (game: {
+  board_categories?: number | null;
+  point_values?: number[] | null;
+}): BoardLayout => {
+  return {
+    categories: game.board_categories ?? DEFAULT_BOARD_LAYOUT.categories,
+    pointValues: game.point_values?.length ? game.point_values : DEFAULT_BOARD_LAYOUT.pointValues,
+  };
+};
+
+/**
+ * Build an evenly spaced point ladder
+ * @param step - Value of the first row and the gap between rows
+ * @param rows - Number of rows
+ * @returns e.g. step 10, rows 3 gives [10, 20, 30]
+ */
+export const buildPointLadder = (step: number, rows: number): number[] => {
+  return Array.from({ length: rows }, (_, i) => step * (i + 1));
+};
+
+/**
+ * Format a point ladder for display
+ * @param pointValues - The ladder
+ * @returns e.g. "100–500" for an evenly spaced ladder, otherwise "10, 25, 50"
+ */
+export const formatPointLadder = (pointValues: number[]): string => {
+  const step = pointValues[0];
+  const isEven = pointValues.every((value, i) => value === step * (i + 1));
+  return isEven
+    ? `${pointValues[0]}–${pointValues[pointValues.length - 1]}`
+    : pointValues.join(', ');
+};
+
+/**
+ * Validate board_categories and point_values for a game
+ * @param categories - Value from a request body
+ * @param pointValues - Value from a request body
+ * @returns Error message, or null when the layout is allowed
+ */
+export const validateBoardLayout = (categories: unknown, pointValues: unknown): string | null => {
+  if (
+    typeof categories !== 'number' || !Number.isInteger(categories) ||
+    categories < GAME_BOARD.MIN_CATEGORIES || categories > GAME_BOARD.MAX_CATEGORIES
+  ) {
+    return `board_categories must be an integer between ${GAME_BOARD.MIN_CATEGORIES} and ${GAME_BOARD.MAX_CATEGORIES}`;
+  }
+
+  if (
+    !Array.isArray(pointValues) ||
+    pointValues.length < GAME_BOARD.MIN_ROWS || pointValues.length > GAME_BOARD.MAX_ROWS
+  ) {
+    return `point_values must have between ${GAME_BOARD.MIN_ROWS} and ${GAME_BOARD.MAX_ROWS} values`;
+  }
+
+  for (let i = 0; i < pointValues.length; i++) {
+    const value = pointValues[i];
+    if (!Number.isInteger(value) || value <= 0 || value > GAME_BOARD.MAX_POINT_VALUE) {
+      return `point_values must be integers between 1 and ${GAME_BOARD.MAX_POINT_VALUE}`;
+    }
+    if (i > 0 && value <= pointValues[i - 1]) {
+      return 'point_values must increase from the top row to the bottom row';
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { BUZZER } from '@/lib/constants/game';
+import { estimateClockOffset, computeEffectiveBuzzTime, formatBuzzDelta, evaluateBuzzLockout, formatLockoutDuration } from './buzzTiming';
+
+describe('estimateClockOffset', () => {
+  it('returns null for no samples', () => {
+    expect(estimateClockOffset([])).toBeNull();
+  });
+
+  it('computes offset from the round-trip midpoint', () => {
+    // Device clock 2s behind server, 100ms round trip
+    expect(estimateClockOffset([{ sentAt: 1000, serverTime: 3050, receivedAt: 1100 }])).toBe(2000);
+  });
+
+  it('uses the sample with the shortest round trip', () => {
+    const offset = estimateClockOffset([
+      { sentAt: 0, serverTime: 5900, receivedAt: 800 },
+      { sentAt: 1000, serverTime: 6020, receivedAt: 1040 },
+      { sentAt: 2000, serverTime: 7300, receivedAt: 2400 },
+    ]);
+    expect(offset).toBe(5000);
+  });
+
+  it('ignores samples that end before they start or are not finite', () => {
+    const offset = estimateClockOffset([
+      { sentAt: 500, serverTime: 0, receivedAt: 100 },
+      { sentAt: NaN, serverTime: 0, receivedAt: 100 },
+      { sentAt: 0, serverTime: -950, receivedAt: 100 },
+    ]);
+    expect(offset).toBe(-1000);
+  });
+});
+
+describe('computeEffectiveBuzzTime', () => {
+  const receivedAt = 1_000_000;
+
+  it('falls back to receive time without a client timestamp', () => {
+    expect(computeEffectiveBuzzTime({ receivedAt, clockOffsetMs: 0 })).toBe(receivedAt);
+  });
+
+  it('falls back to receive time without a clock offset', () => {
+    expect(computeEffectiveBuzzTime({ receivedAt, clientTimestamp: receivedAt - 50 })).toBe(receivedAt);
+  });
+
+  it('falls back to receive time when the offset is implausible', () => {
+    expect(
+      computeEffectiveBuzzTime({
+        receivedAt,
+        clientTimestamp: 0,
+        clockOffsetMs: BUZZER.MAX_CLOCK_OFFSET_MS + 1,
+      })
+    ).toBe(receivedAt);
+  });
+
+  it('corrects the press time by the clock offset', () => {
+    // Device clock 3s slow: pressed at device 997_880 = server 999_880
+    expect(
+      computeEffectiveBuzzTime({ receivedAt, clientTimestamp: 996_880, clockOffsetMs: 3000 })
+    ).toBe(999_880);
+  });
+
+  it('never credits a press later than its arrival', () => {
+    expect(
+      computeEffectiveBuzzTime({ receivedAt, clientTimestamp: receivedAt + 500, clockOffsetMs: 0 })
+    ).toBe(receivedAt);
+  });
+
+  it('caps latency compensation', () => {
+    expect(
+      computeEffectiveBuzzTime({ receivedAt, clientTimestamp: receivedAt - 10_000, clockOffsetMs: 0 })
+    ).toBe(receivedAt - BUZZER.MAX_LATENCY_COMPENSATION_MS);
+  });
+
+  it('orders a slow-clock device by real press time', () => {
+    // Device A clock 5s slow presses first; device B accurate presses 100ms later.
+    const a = computeEffectiveBuzzTime({ receivedAt: 1_000_080, clientTimestamp: 995_000, clockOffsetMs: 5000 });
+    const b = computeEffectiveBuzzTime({ receivedAt: 1_000_150, clientTimestamp: 1_000_100, clockOffsetMs: 0 });
+    expect(a).toBeLessThan(b);
+  });
+});
+
+describe('formatBuzzDelta', () => {
+  it('formats milliseconds as seconds with two decimals', () => {
+    expect(formatBuzzDelta(120)).toBe('+0.12s');
+    expect(formatBuzzDelta(1500)).toBe('+1.50s');
+  });
+
+  it('clamps negative deltas to zero', () => {
+    expect(formatBuzzDelta(-5)).toBe('+0.00s');
+  });
+});
+
+describe('evaluateBuzzLockout', () => {
+  it('accepts a buzz after arming', () => {
+    expect(evaluateBuzzLockout({ effectiveAt: 1000, armedAt: 900, lockedUntil: null, lockoutMs: 500 }))
+      .toEqual({ status: 'accepted' });
+  });
+
+  it('treats a buzz while disarmed as early and locks out from the press', () => {
+    expect(evaluateBuzzLockout({ effectiveAt: 1000, armedAt: null, lockedUntil: null, lockoutMs: 500 }))
+      .toEqual({ status: 'early', lockedUntil: 1500 });
+  });
+
+  it('treats a press before the arming time as early even if it arrives later', () => {
+    expect(evaluateBuzzLockout({ effectiveAt: 950, armedAt: 1000, lockedUntil: null, lockoutMs: 250 }))
+      .toEqual({ status: 'early', lockedUntil: 1200 });
+  });
+
+  it('rejects a buzz inside an existing lockout without extending it', () => {
+    expect(evaluateBuzzLockout({ effectiveAt: 1100, armedAt: 1000, lockedUntil: 1200, lockoutMs: 500 }))
+      .toEqual({ status: 'locked', lockedUntil: 1200 });
+  });
+
+  it('accepts a buzz once the lockout has expired', () => {
+    expect(evaluateBuzzLockout({ effectiveAt: 1200, armedAt: 1000, lockedUntil: 1200, lockoutMs: 500 }))
+      .toEqual({ status: 'accepted' });
+  });
+});
+
+describe('formatLockoutDuration', () => {
+  it('uses milliseconds below one second', () => {
+    expect(formatLockoutDuration(250)).toBe('250 ms');
+  });
+
+  it('uses seconds from one second up', () => {
+    expect(formatLockoutDuration(1000)).toBe('1 second');
+    expect(formatLockoutDuration(2000)).toBe('2 seconds');
+  });
+});
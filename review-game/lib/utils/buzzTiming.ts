@@ -0,0 +1,170 @@
+/**
+ * Utility functions for server-side buzz arbitration
+ *
+ * Buzz order is decided on the server. A device reports when its button was
+ * pressed (its own Date.now()) together with the offset between its clock and
+ * the server clock, measured beforehand against /api/games/[gameId]/buzz/clock.
+ * The server converts the press time to server time and bounds it by the
+ * moment the request actually arrived.
+ */
+
+import { BUZZER } from '@/lib/constants/game';
+
+/**
+ * One round trip to the clock endpoint, all values in epoch milliseconds
+ */
+export interface ClockSample {
+  /** Device time when the request was sent */
+  sentAt: number;
+  /** Server time reported in the response */
+  serverTime: number;
+  /** Device time when the response arrived */
+  receivedAt: number;
+}
+
+/**
+ * Estimate (server clock - device clock) from a set of round trips.
+ * Uses the sample with the shortest round trip, assuming the server read its
+ * clock halfway through it (NTP-style).
+ * @param samples - Round trips to the clock endpoint
+ * @returns Offset in ms to add to device time to get server time, or null when no sample is usable
+ */
+export const estimateClockOffset = (samples: ClockSample[]): number | null => {
+  let best: ClockSample | null = null;
+
+  for (const sample of samples) {
+    const { sentAt, serverTime, receivedAt } = sample;
+    if (!Number.isFinite(sentAt) || !Number.isFinite(serverTime) || !Number.isFinite(receivedAt)) {
+      continue;
+    }
+    if (receivedAt < sentAt) {
+      continue;
+    }
+    if (!best || receivedAt - sentAt < best.receivedAt - best.sentAt) {
+      best = sample;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  return Math.round(best.serverTime - (best.sentAt + best.receivedAt) / 2);
+};
+
+/**
+ * Inputs for {@link computeEffectiveBuzzTime}
+ */
+export interface EffectiveBuzzTimeInput {
+  /** Server time when the buzz request arrived */
+  receivedAt: number;
+  /** Device Date.now() at the moment of the press, if reported */
+  clientTimestamp?: number | null;
+  /** Device clock offset from {@link estimateClockOffset}, if measured */
+  clockOffsetMs?: number | null;
+}
+
+/**
+ * Compute the server-time instant a buzz is credited with.
+ *
+ * The offset-corrected press time is clamped to
+ * [receivedAt - BUZZER.MAX_LATENCY_COMPENSATION_MS, receivedAt]: a device can be
+ * compensated for network latency but can never be credited with pressing
+ * after its request arrived, nor earlier than the compensation window allows.
+ * Without a usable timestamp or offset, the receive time is used as-is.
+ *
+ * @param input - Receive time and the device-reported timing
+ * @returns Effective buzz time in epoch milliseconds
+ */
+export const computeEffectiveBuzzTime = ({
+  receivedAt,
+  clientTimestamp,
+  clockOffsetMs,
+}: EffectiveBuzzTimeInput): number => {
+  if (
+    typeof clientTimestamp !== 'number' ||
+    typeof clockOffsetMs !== 'number' ||
+    !Number.isFinite(clientTimestamp) ||
+    !Number.isFinite(clockOffsetMs) ||
+    Math.abs(clockOffsetMs) > BUZZER.MAX_CLOCK_OFFSET_MS
+  ) {
+    return receivedAt;
+  }
+
+  const corrected = clientTimestamp + clockOffsetMs;
+  const earliest = receivedAt - BUZZER.MAX_LATENCY_COMPENSATION_MS;
+
+  return Math.round(Math.min(receivedAt, Math.max(earliest, corrected)));
+};
+
+/**
+ * Format the gap between a buzz and the first buzz in the queue
+ * @param deltaMs - Milliseconds after the first buzz
+ * @returns Display string, e.g. "+0.12s"
+ */
+export const formatBuzzDelta = (deltaMs: number): string => {
+  return `+${(Math.max(0, deltaMs) / 1000).toFixed(2)}s`;
+};
+
+/**
+ * Outcome of checking a buzz against the arming state and the team's lockout
+ */
+export type BuzzLockoutDecision =
+  | { status: 'accepted' }
+  | { status: 'early'; lockedUntil: number }
+  | { status: 'locked'; lockedUntil: number };
+
+/**
+ * Inputs for {@link evaluateBuzzLockout}, all times in server epoch milliseconds
+ */
+export interface BuzzLockoutInput {
+  /** Effective buzz time from {@link computeEffectiveBuzzTime} */
+  effectiveAt: number;
+  /** When buzzers were armed for this clue, or null if they are not armed */
+  armedAt: number | null;
+  /** End of the team's current lockout, or null if it has none */
+  lockedUntil: number | null;
+  /** Lockout to apply for an early buzz */
+  lockoutMs: number;
+}
+
+/**
+ * Decide whether a buzz is queued, counts as early, or falls inside an
+ * existing lockout.
+ *
+ * A buzz is early when buzzers are not armed or its effective time is before
+ * arming; early buzzes start a new lockout from the effective time. A team
+ * still inside a lockout is rejected without extending it.
+ *
+ * @param input - Buzz time, arming state and lockout settings
+ * @returns The decision, with the lockout end for rejected buzzes
+ */
+export const evaluateBuzzLockout = ({
+  effectiveAt,
+  armedAt,
+  lockedUntil,
+  lockoutMs,
+}: BuzzLockoutInput): BuzzLockoutDecision => {
+  if (lockedUntil !== null && effectiveAt < lockedUntil) {
+    return { status: 'locked', lockedUntil };
+  }
+
+  if (armedAt === null || effectiveAt < armedAt) {
+    return { status: 'early', lockedUntil: effectiveAt + lockoutMs };
+  }
+
+  return { status: 'accepted' };
+};
+
+/**
+ * Format a lockout duration for settings menus
+ * @param ms - Lockout in milliseconds
+ * @returns Display string, e.g. "250 ms" or "1 second"
+ */
+export const formatLockoutDuration = (ms: number): string => {
+  if (ms < 1000) {
+    return `${ms} ms`;
+  }
+  const seconds = ms / 1000;
+  return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDailyDoubleWagerRules,
+  getDailyDoubleWagerRange,
+  validateDailyDoubleWager,
+  validateDailyDoubleWagerRules,
+  DEFAULT_DAILY_DOUBLE_WAGER_RULES,
+} from './dailyDoubleWager';
+
+const TV_RULES = { minWager: 5, maxWager: null, allowNegativeScores: true };
+
+describe('getDailyDoubleWagerRules', () => {
+  it('falls back to the original 5 to 1000 range', () => {
+    expect(getDailyDoubleWagerRules({})).toEqual(DEFAULT_DAILY_DOUBLE_WAGER_RULES);
+    expect(DEFAULT_DAILY_DOUBLE_WAGER_RULES).toEqual({ minWager: 5, maxWager: 1000, allowNegativeScores: true });
+  });
+
+  it('keeps a null cap as the TV rule', () => {
+    expect(getDailyDoubleWagerRules({
+      daily_double_min_wager: 100,
+      daily_double_max_wager: null,
+      daily_double_allow_negative: false,
+    })).toEqual({ minWager: 100, maxWager: null, allowNegativeScores: false });
+  });
+});
+
+describe('getDailyDoubleWagerRange', () => {
+  it('lets a team wager up to its score or the cap, whichever is larger', () => {
+    expect(getDailyDoubleWagerRange(DEFAULT_DAILY_DOUBLE_WAGER_RULES, 400, 500, 200)).toEqual({ min: 5, max: 1000 });
+    expect(getDailyDoubleWagerRange(DEFAULT_DAILY_DOUBLE_WAGER_RULES, 2400, 500, 200)).toEqual({ min: 5, max: 2400 });
+  });
+
+  it('uses the highest clue value under the TV rule', () => {
+    expect(getDailyDoubleWagerRange(TV_RULES, 300, 1000, 400)).toEqual({ min: 5, max: 1000 });
+    expect(getDailyDoubleWagerRange(TV_RULES, 3000, 1000, 400)).toEqual({ min: 5, max: 3000 });
+  });
+
+  it('lets a team below zero wager when allowed', () => {
+    expect(getDailyDoubleWagerRange(TV_RULES, -600, 1000, 400)).toEqual({ min: 5, max: 1000 });
+  });
+
+  it('holds a team below zero to the clue value when not allowed', () => {
+    const rules = { ...TV_RULES, allowNegativeScores: false };
+    expect(getDailyDoubleWagerRange(rules, -600, 1000, 400)).toEqual({ min: 400, max: 400 });
+    expect(getDailyDoubleWagerRange(rules, 0, 1000, 400)).toEqual({ min: 5, max: 1000 });
+  });
+
+  it('never puts the minimum above the maximum', () => {
+    const rules = { ...TV_RULES, minWager: 100 };
+    expect(getDailyDoubleWagerRange(rules, 0, 50, 10)).toEqual({ min: 50, max: 50 });
+  });
+});
+
+describe('validateDailyDoubleWager', () => {
+  const range = { min: 5, max: 1000 };
+
+  it('accepts wagers inside the range', () => {
+    expect(validateDailyDoubleWager(5, range)).toBeNull();
+    expect(validateDailyDoubleWager(1000, range)).toBeNull();
+  });
+
+  it('rejects wagers outside the range', () => {
+    expect(validateDailyDoubleWager(4, range)).toBe('Minimum wager is 5 points');
+    expect(validateDailyDoubleWager(1001, range)).toBe('Maximum wager is 1000 points');
+  });
+
+  it('rejects non-integers', () => {
+    expect(validateDailyDoubleWager(12.5, range)).toMatch(/valid wager/);
+    expect(validateDailyDoubleWager('100', range)).toMatch(/valid wager/);
+    expect(validateDailyDoubleWager(0, range)).toMatch(/valid wager/);
+  });
+});
+
+describe('validateDailyDoubleWagerRules', () => {
+  it('accepts absent and valid rules', () => {
+    expect(validateDailyDoubleWagerRules({})).toBeNull();
+    expect(validateDailyDoubleWagerRules({
+      daily_double_min_wager: 100,
+      daily_double_max_wager: null,
+      daily_double_allow_negative: false,
+    })).toBeNull();
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(validateDailyDoubleWagerRules({ daily_double_min_wager: 0 })).toMatch(/daily_double_min_wager/);
+    expect(validateDailyDoubleWagerRules({ daily_double_max_wager: 200000 })).toMatch(/daily_double_max_wager/);
+    expect(validateDailyDoubleWagerRules({ daily_double_allow_negative: 'yes' })).toMatch(/boolean/);
+  });
+
+  it('rejects a cap below the minimum', () => {
+    expect(validateDailyDoubleWagerRules({ daily_double_min_wager: 100, daily_double_max_wager: 50 }))
+      .toMatch(/cannot be less/);
+  });
+});
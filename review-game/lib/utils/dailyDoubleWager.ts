@@ -0,0 +1,122 @@
+/**
+ * Utility functions for Daily Double wagers
+ *
+ * The board's wager modal and POST /api/games/[gameId]/daily-double/wager
+ * both work out a team's allowed range from the game's wager rules, so the
+ * modal's feedback always matches what the server accepts.
+ */
+
+import { DAILY_DOUBLE_WAGER } from '@/lib/constants/game';
+import type { DailyDoubleWagerRange, DailyDoubleWagerRules } from '@/types/game';
+
+/**
+ * Rules of games created before wager rules existed
+ */
+export const DEFAULT_DAILY_DOUBLE_WAGER_RULES: DailyDoubleWagerRules = {
+  minWager: DAILY_DOUBLE_WAGER.DEFAULT_MIN_WAGER,
+  maxWager: DAILY_DOUBLE_WAGER.DEFAULT_MAX_WAGER,
+  allowNegativeScores: true,
+};
+
+/**
+ * Read a game's wager rules, falling back to the defaults
+ * @param game - Row with the Daily Double wager columns
+ * @returns The game's rules; a null daily_double_max_wager is kept as the TV rule
+ */
+export const getDailyDoubleWagerRules = (game: {
+  daily_double_min_wager?: number | null;
+  daily_double_max_wager?: number | null;
+  daily_double_allow_negative?: boolean | null;
+}): DailyDoubleWagerRules => {
+  return {
+    minWager: game.daily_double_min_wager ?? DEFAULT_DAILY_DOUBLE_WAGER_RULES.minWager,
+    maxWager: game.daily_double_max_wager === undefined
+      ? DEFAULT_DAILY_DOUBLE_WAGER_RULES.maxWager
+      : game.daily_double_max_wager,
+    allowNegativeScores: game.daily_double_allow_negative ?? DEFAULT_DAILY_DOUBLE_WAGER_RULES.allowNegativeScores,
+  };
+};
+
+/**
+ * Work out the wagers a team may make on a Daily Double
+ * @param rules - The game's wager rules
+ * @param teamScore - The wagering team's score
+ * @param highestBoardValue - Highest clue value on the round's board
+ * @param clueValue - The Daily Double's own value, played for by a team below zero when the rules say so
+ * @returns Inclusive range; the minimum never exceeds the maximum
+ */
+export const getDailyDoubleWagerRange = (
+  rules: DailyDoubleWagerRules,
+  teamScore: number,
+  highestBoardValue: number,
+  clueValue: number
+): DailyDoubleWagerRange => {
+  if (teamScore < 0 && !rules.allowNegativeScores) {
+    return { min: clueValue, max: clueValue };
+  }
+
+  const max = Math.max(teamScore, rules.maxWager ?? highestBoardValue);
+  return { min: Math.min(rules.minWager, max), max };
+};
+
+/**
+ * Check a wager against a team's range
+ * @param wager - Untrusted wager amount
+ * @param range - From getDailyDoubleWagerRange
+ * @returns Error message, or null when the wager is allowed
+ */
+export const validateDailyDoubleWager = (
+  wager: unknown,
+  range: DailyDoubleWagerRange
+): string | null => {
+  if (typeof wager !== 'number' || !Number.isInteger(wager) || wager <= 0) {
+    return 'Please enter a valid wager amount';
+  }
+  if (wager < range.min) {
+    return `Minimum wager is ${range.min} points`;
+  }
+  if (wager > range.max) {
+    return `Maximum wager is ${range.max} points`;
+  }
+
+  return null;
+};
+
+/**
+ * Validate wager rules from a request body; absent fields are skipped
+ * @param body - Untrusted game settings
+ * @returns Error message, or null when valid
+ */
+export const validateDailyDoubleWagerRules = (body: {
+  daily_double_min_wager?: unknown;
+  daily_double_max_wager?: unknown;
+  daily_double_allow_negative?: unknown;
+}): string | null => {
+  const minWager = body.daily_double_min_wager;
+  if (
+    minWager !== undefined &&
+    (typeof minWager !== 'number' || !Number.isInteger(minWager) ||
+      minWager < 1 || minWager > DAILY_DOUBLE_WAGER.MAX_MIN_WAGER)
+  ) {
+    return `daily_double_min_wager must be an integer between 1 and ${DAILY_DOUBLE_WAGER.MAX_MIN_WAGER}`;
+  }
+
+  const maxWager = body.daily_double_max_wager;
+  if (
+    maxWager !== undefined && maxWager !== null &&
+    (typeof maxWager !== 'number' || !Number.isInteger(maxWager) ||
+      maxWager < 1 || maxWager > DAILY_DOUBLE_WAGER.MAX_MAX_WAGER)
+  ) {
+    return `daily_double_max_wager must be null or an integer between 1 and ${DAILY_DOUBLE_WAGER.MAX_MAX_WAGER}`;
+  }
+
+  if (typeof minWager === 'number' && typeof maxWager === 'number' && maxWager < minWager) {
+    return 'daily_double_max_wager cannot be less than daily_double_min_wager';
+  }
+
+  if (body.daily_double_allow_negative !== undefined && typeof body.daily_double_allow_negative !== 'boolean') {
+    return 'daily_double_allow_negative must be a boolean';
+  }
+
+  return null;
+};
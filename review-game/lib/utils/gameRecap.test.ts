@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import type { GameRecap, ScoreEvent } from '@/types/game';
+import {
+  buildRecapAdjustments,
+  buildRecapClues,
+  buildScoreTimeline,
+  getFinalPlayEvents,
+  getLastResetAt,
+  recapToCsv,
+  type RecapClueDetails,
+} from './gameRecap';
+
+const event = (id: string, createdAt: string, overrides: Partial<ScoreEvent> = {}): ScoreEvent => ({
+  id,
+  teamId: 'team-1',
+  questionId: 'q-1',
+  delta: 200,
+  reason: 'correct',
+  note: null,
+  createdAt,
+  undoneAt: null,
+  ...overrides,
+});
+
+const details = (overrides: Partial<RecapClueDetails> = {}): RecapClueDetails => ({
+  round: 1,
+  categoryName: 'Science',
+  value: 200,
+  question: 'What is H2O?',
+  answer: 'Water',
+  isDailyDouble: false,
+  ...overrides,
+});
+
+describe('getFinalPlayEvents', () => {
+  it('drops undone events and sorts oldest first', () => {
+    const events = [
+      event('b', '2026-11-02T10:00:02.000Z'),
+      event('c', '2026-11-02T10:00:03.000Z', { undoneAt: '2026-11-02T10:00:04.000Z' }),
+      event('a', '2026-11-02T10:00:01.000Z'),
+    ];
+    expect(getFinalPlayEvents(events).map((e) => e.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps only events after the last reset', () => {
+    const events = [
+      event('a', '2026-11-02T10:00:01.000Z'),
+      event('reset-1', '2026-11-02T10:00:02.000Z', { reason: 'reset', delta: -200 }),
+      event('reset-2', '2026-11-02T10:00:02.001Z', { reason: 'reset', teamId: 'team-2', delta: -400 }),
+      event('b', '2026-11-02T10:00:03.000Z'),
+    ];
+    expect(getFinalPlayEvents(events).map((e) => e.id)).toEqual(['b']);
+  });
+});
+
+describe('getLastResetAt', () => {
+  it('returns null when scores were never reset', () => {
+    expect(getLastResetAt([event('a', '2026-11-02T10:00:01.000Z')])).toBeNull();
+  });
+
+  it('returns the time of the latest reset', () => {
+    const events = [
+      event('reset-2', '2026-11-02T11:00:00.000Z', { reason: 'reset' }),
+      event('reset-1', '2026-11-02T10:00:00.000Z', { reason: 'reset' }),
+      event('a', '2026-11-02T11:30:00.000Z'),
+    ];
+    expect(getLastResetAt(events)).toBe('2026-11-02T11:00:00.000Z');
+  });
+});
+
+describe('buildRecapClues', () => {
+  it('orders clues by when they were played and attaches judgments', () => {
+    const clueDetails = new Map([
+      ['q-1', details()],
+      ['q-2', details({ categoryName: 'History', value: 400 })],
+    ]);
+    const clues = buildRecapClues(
+      [
+        { questionId: 'q-2', playedAt: '2026-11-02T10:00:05.000Z' },
+        { questionId: 'q-1', playedAt: '2026-11-02T10:01:00.000Z' },
+      ],
+      [
+        event('a', '2026-11-02T10:00:50.000Z', { questionId: 'q-1', teamId: 'team-2', reason: 'incorrect', delta: -200 }),
+        event('b', '2026-11-02T10:00:55.000Z', { questionId: 'q-1' }),
+      ],
+      clueDetails
+    );
+
+    expect(clues.map((c) => c.questionId)).toEqual(['q-2', 'q-1']);
+    expect(clues[0].judgments).toEqual([]);
+    expect(clues[1].judgments).toEqual([
+      { teamId: 'team-2', isCorrect: false, delta: -200, wager: null },
+      { teamId: 'team-1', isCorrect: true, delta: 200, wager: null },
+    ]);
+  });
+
+  it('places clues that were never logged as played at their first score change', () => {
+    const clues = buildRecapClues(
+      [{ questionId: 'q-2', playedAt: '2026-11-02T10:00:30.000Z' }],
+      [event('a', '2026-11-02T10:00:10.000Z', { questionId: 'q-1' })],
+      new Map([['q-1', details()], ['q-2', details()]])
+    );
+    expect(clues.map((c) => c.questionId)).toEqual(['q-1', 'q-2']);
+    expect(clues[0].playedAt).toBe('2026-11-02T10:00:10.000Z');
+  });
+
+  it('records Daily Double wagers from the ledger', () => {
+    const clues = buildRecapClues(
+      [],
+      [event('a', '2026-11-02T10:00:10.000Z', { reason: 'daily_double_incorrect', delta: -1500 })],
+      new Map([['q-1', details({ isDailyDouble: true })]])
+    );
+    expect(clues[0].judgments[0]).toEqual({ teamId: 'team-1', isCorrect: false, delta: -1500, wager: 1500 });
+  });
+
+  it('marks clues whose hint was revealed', () => {
+    const clues = buildRecapClues(
+      [
+        { questionId: 'q-1', playedAt: '2026-11-02T10:00:01.000Z' },
+        { questionId: 'q-2', playedAt: '2026-11-02T10:00:02.000Z' },
+      ],
+      [event('a', '2026-11-02T10:00:01.500Z', { delta: 100 })],
+      new Map([['q-1', details()], ['q-2', details()]]),
+      new Set(['q-1'])
+    );
+    expect(clues.map((c) => c.hintUsed)).toEqual([true, false]);
+    expect(clues[0].judgments[0].delta).toBe(100);
+  });
+
+  it('leaves out clues without details and events that do not judge a clue', () => {
+    const clues = buildRecapClues(
+      [{ questionId: 'q-deleted', playedAt: '2026-11-02T10:00:01.000Z' }],
+      [event('a', '2026-11-02T10:00:10.000Z', { reason: 'manual_adjustment' })],
+      new Map([['q-1', details()]])
+    );
+    expect(clues).toEqual([]);
+  });
+});
+
+describe('buildRecapAdjustments', () => {
+  it('lists manual adjustments with their notes', () => {
+    const adjustments = buildRecapAdjustments([
+      event('a', '2026-11-02T10:00:01.000Z'),
+      event('b', '2026-11-02T10:00:02.000Z', { reason: 'manual_adjustment', delta: 100, note: 'Misheard answer', questionId: null }),
+    ]);
+    expect(adjustments).toEqual([
+      { teamId: 'team-1', delta: 100, note: 'Misheard answer', at: '2026-11-02T10:00:02.000Z' },
+    ]);
+  });
+});
+
+describe('buildScoreTimeline', () => {
+  it('starts every team at 0 and adds one point per change', () => {
+    const timeline = buildScoreTimeline(
+      ['team-1', 'team-2'],
+      [
+        event('a', '2026-11-02T10:00:01.000Z'),
+        event('b', '2026-11-02T10:00:02.000Z', { teamId: 'team-2', delta: -400 }),
+        event('c', '2026-11-02T10:00:03.000Z', { delta: 600 }),
+      ],
+      '2026-11-02T09:59:00.000Z'
+    );
+
+    expect(timeline).toEqual([
+      { at: '2026-11-02T09:59:00.000Z', scores: { 'team-1': 0, 'team-2': 0 } },
+      { at: '2026-11-02T10:00:01.000Z', scores: { 'team-1': 200, 'team-2': 0 } },
+      { at: '2026-11-02T10:00:02.000Z', scores: { 'team-1': 200, 'team-2': -400 } },
+      { at: '2026-11-02T10:00:03.000Z', scores: { 'team-1': 800, 'team-2': -400 } },
+    ]);
+  });
+
+  it('ignores events for teams that are no longer in the game', () => {
+    const timeline = buildScoreTimeline(['team-1'], [event('a', '2026-11-02T10:00:01.000Z', { teamId: 'gone' })], 'start');
+    expect(timeline).toHaveLength(1);
+  });
+});
+
+describe('recapToCsv', () => {
+  const recap: GameRecap = {
+    gameId: 'game-1',
+    title: 'Unit 3 Review',
+    gameType: 'jeopardy',
+    completedAt: null,
+    generatedAt: '2026-11-02T11:00:00.000Z',
+    teams: [
+      { id: 'team-1', name: '=Team, "One"', finalScore: 1200 },
+      { id: 'team-2', name: 'Team Two', finalScore: -200 },
+    ],
+    clues: [
+      {
+        questionId: 'q-1',
+        ...details(),
+        hintUsed: true,
+        playedAt: '2026-11-02T10:00:01.000Z',
+        judgments: [{ teamId: 'team-2', isCorrect: false, delta: -200, wager: null }],
+      },
+      {
+        questionId: 'q-2',
+        ...details({ question: 'Unanswered clue' }),
+        playedAt: '2026-11-02T10:00:02.000Z',
+        judgments: [],
+      },
+    ],
+    adjustments: [],
+    finalJeopardy: {
+      category: 'Geography',
+      question: 'Largest ocean?',
+      answer: 'Pacific',
+      results: [{ teamId: 'team-1', wager: 1000, answer: 'Pacific', isCorrect: true }],
+    },
+    scoreTimeline: [],
+  };
+
+  it('writes a row per judgment, Final Jeopardy results and final scores', () => {
+    const lines = recapToCsv(recap).split('\r\n');
+
+    expect(lines[0]).toBe('Order,Round,Category,Value,Clue,Answer,Daily Double,Hint,Team,Response,Result,Wager,Points');
+    expect(lines[1]).toBe('1,1,Science,200,What is H2O?,Water,No,Yes,Team Two,,Incorrect,,-200');
+    expect(lines[2]).toBe('2,1,Science,200,Unanswered clue,Water,No,No,,,No answer,,0');
+    expect(lines[3]).toBe(`Final,,Geography,,Largest ocean?,Pacific,,,"'=Team, ""One""",Pacific,Correct,1000,1000`);
+    expect(lines.slice(-2)).toEqual([`"'=Team, ""One""",1200`, 'Team Two,-200']);
+  });
+
+  it('writes a row for the tie-breaker winner', () => {
+    const lines = recapToCsv({
+      ...recap,
+      tieBreaker: { category: 'Rivers', question: 'Longest river?', answer: 'Nile', winnerTeamId: 'team-2' },
+    }).split('\r\n');
+
+    expect(lines[4]).toBe('Tie-breaker,,Rivers,,Longest river?,Nile,,,Team Two,,Won,,');
+  });
+});
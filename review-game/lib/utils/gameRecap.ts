@@ -0,0 +1,278 @@
+/**
+ * Utility functions for game recaps
+ *
+ * A recap is built from the score ledger of the last play of a game (Play
+ * Again records a reset, so anything before it is left out), the order clues
+ * were played in and the Final Jeopardy wagers. lib/api/gameRecap loads the
+ * rows; these helpers turn them into the GameRecap that is persisted.
+ */
+
+import type {
+  GameRecap,
+  RecapAdjustment,
+  RecapClue,
+  RecapJudgment,
+  RecapScorePoint,
+  ScoreEvent,
+  ScoreEventReason,
+} from '@/types/game';
+
+/**
+ * What a recap shows about a clue, looked up from its board or bank
+ */
+export type RecapClueDetails = Pick<
+  RecapClue,
+  'round' | 'categoryName' | 'value' | 'question' | 'answer' | 'isDailyDouble'
+>;
+
+/**
+ * A clue marked used on the board, from game_clue_plays
+ */
+export interface RecapCluePlay {
+  questionId: string;
+  playedAt: string;
+}
+
+// Ledger reasons that judge a team on a clue
+const CORRECT_REASONS: ScoreEventReason[] = ['correct', 'daily_double_correct', 'all_play_correct'];
+const INCORRECT_REASONS: ScoreEventReason[] = ['incorrect', 'daily_double_incorrect'];
+const DAILY_DOUBLE_REASONS: ScoreEventReason[] = ['daily_double_correct', 'daily_double_incorrect'];
+
+/**
+ * Keep the events behind the final scores
+ * @param events - Ledger events for one game, in any order
+ * @returns Events that are not undone and come after the last reset, oldest first
+ */
+export const getFinalPlayEvents = (events: ScoreEvent[]): ScoreEvent[] => {
+  const active = events
+    .filter((event) => event.undoneAt === null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const lastResetIndex = active.map((event) => event.reason).lastIndexOf('reset');
+  return active.slice(lastResetIndex + 1);
+};
+
+/**
+ * Find when the last play of a game started
+ * @param events - Ledger events for one game, in any order
+ * @returns Time of the last reset that is not undone, or null if scores were never reset
+ */
+export const getLastResetAt = (events: ScoreEvent[]): string | null => {
+  const resets = events
+    .filter((event) => event.reason === 'reset' && event.undoneAt === null)
+    .map((event) => event.createdAt)
+    .sort();
+  return resets.length > 0 ? resets[resets.length - 1] : null;
+};
+
+/**
+ * Turn a ledger event into a judgment on its clue
+ * @param event - Ledger event
+ * @returns The judgment, or null for events that do not judge a clue
+ */
+const toJudgment = (event: ScoreEvent): RecapJudgment | null => {
+  let isCorrect: boolean;
+  if (CORRECT_REASONS.includes(event.reason)) {
+    isCorrect = true;
+  } else if (INCORRECT_REASONS.includes(event.reason)) {
+    isCorrect = false;
+  } else if (event.reason === 'pub_trivia_answer') {
+    isCorrect = event.delta > 0;
+  } else {
+    return null;
+  }
+
+  return {
+    teamId: event.teamId,
+    isCorrect,
+    delta: event.delta,
+    // The ledger records a Daily Double as plus or minus the wager
+    wager: DAILY_DOUBLE_REASONS.includes(event.reason) ? Math.abs(event.delta) : null,
+  };
+};
+
+/**
+ * Build the clue timeline
+ * Clues scored before game_clue_plays existed, or never marked used on the
+ * board, are placed at their first score change.
+ * @param plays - Clues in the order they were played
+ * @param events - Events from getFinalPlayEvents
+ * @param details - Board details by question ID; clues without details are left out
+ * @param hintedQuestionIds - Clues whose hint was revealed, from game_hint_reveals
+ * @returns Clues oldest first, each with its judgments in the order they were made
+ */
+export const buildRecapClues = (
+  plays: RecapCluePlay[],
+  events: ScoreEvent[],
+  details: Map<string, RecapClueDetails>,
+  hintedQuestionIds: ReadonlySet<string> = new Set()
+): RecapClue[] => {
+  const judgments = new Map<string, RecapJudgment[]>();
+  const playedAt = new Map<string, string>();
+
+  for (const play of plays) {
+    if (!playedAt.has(play.questionId)) {
+      playedAt.set(play.questionId, play.playedAt);
+    }
+  }
+
+  for (const event of events) {
+    if (!event.questionId) continue;
+    const judgment = toJudgment(event);
+    if (!judgment) continue;
+
+    judgments.set(event.questionId, [...(judgments.get(event.questionId) ?? []), judgment]);
+
+    // A clue is marked used when it closes, after it was scored
+    const seenAt = playedAt.get(event.questionId);
+    if (!seenAt || event.createdAt < seenAt) {
+      playedAt.set(event.questionId, event.createdAt);
+    }
+  }
+
+  return Array.from(playedAt.entries())
+    .filter(([questionId]) => details.has(questionId))
+    .sort(([, a], [, b]) => a.localeCompare(b))
+    .map(([questionId, at]) => ({
+      questionId,
+      ...details.get(questionId)!,
+      hintUsed: hintedQuestionIds.has(questionId),
+      playedAt: at,
+      judgments: judgments.get(questionId) ?? [],
+    }));
+};
+
+/**
+ * List manual score adjustments
+ * @param events - Events from getFinalPlayEvents
+ * @returns Adjustments oldest first
+ */
+export const buildRecapAdjustments = (events: ScoreEvent[]): RecapAdjustment[] => {
+  return events
+    .filter((event) => event.reason === 'manual_adjustment')
+    .map((event) => ({
+      teamId: event.teamId,
+      delta: event.delta,
+      note: event.note,
+      at: event.createdAt,
+    }));
+};
+
+/**
+ * Build every team's score after each change
+ * @param teamIds - Teams in the game
+ * @param events - Events from getFinalPlayEvents
+ * @param startedAt - Time of the starting point, when every team has 0
+ * @returns One point for the start and one per event
+ */
+export const buildScoreTimeline = (
+  teamIds: string[],
+  events: ScoreEvent[],
+  startedAt: string
+): RecapScorePoint[] => {
+  let scores: Record<string, number> = Object.fromEntries(teamIds.map((id) => [id, 0]));
+  const timeline: RecapScorePoint[] = [{ at: startedAt, scores }];
+
+  for (const event of events) {
+    if (!(event.teamId in scores)) continue;
+    scores = { ...scores, [event.teamId]: scores[event.teamId] + event.delta };
+    timeline.push({ at: event.createdAt, scores });
+  }
+
+  return timeline;
+};
+
+/**
+ * Quote a CSV field, neutralising values a spreadsheet would run as a formula
+ * @param value - Field value
+ * @returns The escaped field
+ */
+const toCsvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export a recap as CSV: one row per judgment, then score adjustments, Final
+ * Jeopardy results and final scores
+ * @param recap - The recap
+ * @returns CSV text with a header row
+ */
+export const recapToCsv = (recap: GameRecap): string => {
+  const teamNames = new Map(recap.teams.map((team) => [team.id, team.name]));
+  const teamName = (teamId: string) => teamNames.get(teamId) ?? 'Unknown team';
+
+  const rows: (string | number | null)[][] = [
+    ['Order', 'Round', 'Category', 'Value', 'Clue', 'Answer', 'Daily Double', 'Hint', 'Team', 'Response', 'Result', 'Wager', 'Points'],
+  ];
+
+  recap.clues.forEach((clue, index) => {
+    const clueColumns = [
+      index + 1,
+      clue.round,
+      clue.categoryName,
+      clue.value,
+      clue.question,
+      clue.answer,
+      clue.isDailyDouble ? 'Yes' : 'No',
+      clue.hintUsed ? 'Yes' : 'No',
+    ];
+
+    if (clue.judgments.length === 0) {
+      rows.push([...clueColumns, null, null, 'No answer', null, 0]);
+    }
+    for (const judgment of clue.judgments) {
+      rows.push([
+        ...clueColumns,
+        teamName(judgment.teamId),
+        null,
+        judgment.isCorrect ? 'Correct' : 'Incorrect',
+        judgment.wager,
+        judgment.delta,
+      ]);
+    }
+  });
+
+  for (const adjustment of recap.adjustments) {
+    rows.push([null, null, 'Score adjustment', null, adjustment.note, null, null, null, teamName(adjustment.teamId), null, null, null, adjustment.delta]);
+  }
+
+  if (recap.finalJeopardy) {
+    const { category, question, answer, results } = recap.finalJeopardy;
+    for (const result of results) {
+      const points = result.isCorrect === null ? null : result.isCorrect ? result.wager : -result.wager;
+      rows.push([
+        'Final',
+        null,
+        category,
+        null,
+        question,
+        answer,
+        null,
+        null,
+        teamName(result.teamId),
+        result.answer,
+        result.isCorrect === null ? 'Not revealed' : result.isCorrect ? 'Correct' : 'Incorrect',
+        result.wager,
+        points,
+      ]);
+    }
+  }
+
+  if (recap.tieBreaker) {
+    const { category, question, answer, winnerTeamId } = recap.tieBreaker;
+    rows.push(['Tie-breaker', null, category, null, question, answer, null, null, teamName(winnerTeamId), null, 'Won', null, null]);
+  }
+
+  rows.push([]);
+  rows.push(['Team', 'Final score']);
+  for (const team of recap.teams) {
+    rows.push([team.name, team.finalScore]);
+  }
+
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n');
+};
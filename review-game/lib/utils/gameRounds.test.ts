@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  isFinalJeopardyPhase,
+  getRoundPhase,
+  getGameBankIds,
+  getRoundValueMultiplier,
+  getDailyDoubleSettings,
+  validateDailyDoubleSettings,
+  getRoundDailyDoubleCount,
+  getDailyDoublePositionsForRound,
+  generateDailyDoublePositions,
+  validateDailyDoublePositions,
+  buildRoundCategories,
+  getRoundCategoryOffset,
+  validateSharedBankCategories,
+} from './gameRounds';
+import type { Tables } from '@/types/database.types';
+
+const makeQuestion = (id: string, category: string, pointValue: number): Tables<'questions'> => ({
+  accepted_answers: [],
+  answer_text: `answer ${id}`,
+  bank_id: 'bank',
+  category,
+  created_at: null,
+  hint: null,
+  id,
+  image_alt_text: null,
+  image_size_mb: null,
+  image_url: null,
+  mc_options: null,
+  numeric_tolerance: null,
+  ordering_items: null,
+  point_value: pointValue,
+  position: 0,
+  question_format: 'multiple_choice',
+  question_text: `question ${id}`,
+  teacher_notes: null,
+  updated_at: null,
+});
+
+describe('isFinalJeopardyPhase', () => {
+  it('is false during board play in either round', () => {
+    expect(isFinalJeopardyPhase('regular')).toBe(false);
+    expect(isFinalJeopardyPhase('double_jeopardy')).toBe(false);
+    expect(isFinalJeopardyPhase(null)).toBe(false);
+  });
+
+  it('is true for the Final Jeopardy phases', () => {
+    expect(isFinalJeopardyPhase('final_jeopardy_wager')).toBe(true);
+    expect(isFinalJeopardyPhase('final_jeopardy_reveal')).toBe(true);
+  });
+});
+
+describe('round settings', () => {
+  it('maps rounds to their board-play phase', () => {
+    expect(getRoundPhase(1)).toBe('regular');
+    expect(getRoundPhase(2)).toBe('double_jeopardy');
+  });
+
+  it('doubles values only in round 2', () => {
+    expect(getRoundValueMultiplier(1)).toBe(1);
+    expect(getRoundValueMultiplier(2)).toBe(2);
+  });
+});
+
+describe('getGameBankIds', () => {
+  it('includes a separate Double Jeopardy bank once', () => {
+    expect(getGameBankIds({ bank_id: 'a', double_jeopardy_bank_id: null })).toEqual(['a']);
+    expect(getGameBankIds({ bank_id: 'a', double_jeopardy_bank_id: 'a' })).toEqual(['a']);
+    expect(getGameBankIds({ bank_id: 'a', double_jeopardy_bank_id: 'b' })).toEqual(['a', 'b']);
+  });
+});
+
+describe('getDailyDoubleSettings', () => {
+  it('falls back to two fixed Daily Doubles', () => {
+    expect(getDailyDoubleSettings({})).toEqual({ mode: 'manual', count: 2 });
+    expect(getDailyDoubleSettings({ daily_double_mode: 'bogus', daily_double_count: null }))
+      .toEqual({ mode: 'manual', count: 2 });
+  });
+
+  it('reads the stored mode and count', () => {
+    expect(getDailyDoubleSettings({ daily_double_mode: 'weighted', daily_double_count: 4 }))
+      .toEqual({ mode: 'weighted', count: 4 });
+  });
+});
+
+describe('validateDailyDoubleSettings', () => {
+  it('accepts absent and valid settings', () => {
+    expect(validateDailyDoubleSettings(undefined, undefined)).toBeNull();
+    expect(validateDailyDoubleSettings('random', 0)).toBeNull();
+    expect(validateDailyDoubleSettings('none', 4)).toBeNull();
+  });
+
+  it('rejects unknown modes and out-of-range counts', () => {
+    expect(validateDailyDoubleSettings('tv', undefined)).toMatch(/daily_double_mode/);
+    expect(validateDailyDoubleSettings(undefined, 5)).toMatch(/daily_double_count/);
+    expect(validateDailyDoubleSettings(undefined, 1.5)).toMatch(/daily_double_count/);
+  });
+});
+
+describe('getRoundDailyDoubleCount', () => {
+  it('gives Double Jeopardy one more, unless there are none', () => {
+    expect(getRoundDailyDoubleCount(1)).toBe(2);
+    expect(getRoundDailyDoubleCount(2)).toBe(3);
+    expect(getRoundDailyDoubleCount(2, 4)).toBe(5);
+    expect(getRoundDailyDoubleCount(2, 0)).toBe(0);
+  });
+});
+
+describe('getDailyDoublePositionsForRound', () => {
+  it('treats entries without a round as round 1', () => {
+    const positions = [
+      { category: 0, position: 1 },
+      { round: 2 as const, category: 3, position: 4 },
+    ];
+    expect(getDailyDoublePositionsForRound(positions, 1)).toEqual([{ category: 0, position: 1 }]);
+    expect(getDailyDoublePositionsForRound(positions, 2)).toEqual([{ round: 2, category: 3, position: 4 }]);
+  });
+});
+
+describe('generateDailyDoublePositions', () => {
+  it('generates 2 cells for a single-round game', () => {
+    const positions = generateDailyDoublePositions();
+    expect(positions).toHaveLength(2);
+    expect(positions.every((dd) => dd.round === 1)).toBe(true);
+  });
+
+  it('generates 3 more cells for Double Jeopardy', () => {
+    const positions = generateDailyDoublePositions([1, 2]);
+    expect(getDailyDoublePositionsForRound(positions, 1)).toHaveLength(2);
+    expect(getDailyDoublePositionsForRound(positions, 2)).toHaveLength(3);
+    expect(validateDailyDoublePositions(positions, true)).toBeNull();
+  });
+
+  it('stays inside a smaller board', () => {
+    const layout = { categories: 3, pointValues: [10, 20, 30] };
+    const positions = generateDailyDoublePositions([1, 2], layout);
+    expect(positions.every((dd) => dd.category < 3 && dd.position < 3)).toBe(true);
+    expect(validateDailyDoublePositions(positions, true, layout)).toBeNull();
+  });
+
+  it('follows the configured count', () => {
+    const positions = generateDailyDoublePositions([1, 2], undefined, { mode: 'random', count: 4 });
+    expect(getDailyDoublePositionsForRound(positions, 1)).toHaveLength(4);
+    expect(getDailyDoublePositionsForRound(positions, 2)).toHaveLength(5);
+    expect(validateDailyDoublePositions(positions, true, undefined, 4)).toBeNull();
+  });
+
+  it('places nothing in none mode', () => {
+    expect(generateDailyDoublePositions([1, 2], undefined, { mode: 'none', count: 2 })).toEqual([]);
+  });
+
+  describe('weighted mode', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('gives each row a share proportional to its row number', () => {
+      // Five rows have 15 tickets: row 1 gets 1, row 5 gets 5
+      vi.spyOn(Math, 'random')
+        .mockReturnValueOnce(0).mockReturnValueOnce(0.5 / 15)
+        .mockReturnValueOnce(0.5).mockReturnValueOnce(14.5 / 15);
+
+      expect(generateDailyDoublePositions([1], undefined, { mode: 'weighted', count: 2 })).toEqual([
+        { round: 1, category: 0, position: 0 },
+        { round: 1, category: 3, position: 4 },
+      ]);
+    });
+
+    it('favors the higher-value rows', () => {
+      const positions = Array.from({ length: 50 }, () =>
+        generateDailyDoublePositions([1], undefined, { mode: 'weighted', count: 4 })
+      ).flat();
+      const topRow = positions.filter((dd) => dd.position === 0).length;
+      const bottomRow = positions.filter((dd) => dd.position === 4).length;
+      expect(bottomRow).toBeGreaterThan(topRow);
+    });
+  });
+});
+
+describe('validateDailyDoublePositions', () => {
+  const roundOne = [
+    { category: 0, position: 0 },
+    { category: 6, position: 4 },
+  ];
+
+  it('accepts legacy positions without a round', () => {
+    expect(validateDailyDoublePositions(roundOne, false)).toBeNull();
+  });
+
+  it('requires round 2 cells when Double Jeopardy is enabled', () => {
+    expect(validateDailyDoublePositions(roundOne, true)).toMatch(/round 2/);
+  });
+
+  it('rejects round 2 cells in a single-round game', () => {
+    expect(validateDailyDoublePositions([...roundOne, { round: 2, category: 1, position: 1 }], false))
+      .toMatch(/invalid/);
+  });
+
+  it('rejects duplicates and out-of-range cells', () => {
+    expect(validateDailyDoublePositions([roundOne[0], roundOne[0]], false)).toMatch(/unique/);
+    expect(validateDailyDoublePositions([roundOne[0], { category: 7, position: 0 }], false)).toMatch(/invalid/);
+  });
+
+  it('checks the count chosen for the game', () => {
+    expect(validateDailyDoublePositions([roundOne[0]], false, undefined, 1)).toBeNull();
+    expect(validateDailyDoublePositions(roundOne, false, undefined, 1)).toMatch(/exactly 1/);
+    expect(validateDailyDoublePositions([], true, undefined, 0)).toBeNull();
+  });
+
+  it('checks cells against the game board layout', () => {
+    const layout = { categories: 8, pointValues: [100, 200, 300, 400, 500, 600] };
+    const cells = [roundOne[0], { category: 7, position: 5 }];
+    expect(validateDailyDoublePositions(cells, false, layout)).toBeNull();
+    expect(validateDailyDoublePositions(cells, false)).toMatch(/invalid/);
+  });
+});
+
+describe('buildRoundCategories', () => {
+  const layout = { categories: 2, pointValues: [100, 200] };
+  const questions = [
+    makeQuestion('a2', 'Alpha', 400),
+    makeQuestion('a1', 'Alpha', 200),
+    makeQuestion('a3', 'Alpha', 600),
+    makeQuestion('b1', 'Beta', 100),
+    makeQuestion('c1', 'Gamma', 100),
+  ];
+
+  it('sorts each category by bank value and keeps one question per row', () => {
+    const categories = buildRoundCategories(questions, [], [], 1, layout);
+
+    expect(categories.map((c) => c.name)).toEqual(['Alpha', 'Beta']);
+    expect(categories[0].questions.map((q) => q.id)).toEqual(['a1', 'a2']);
+    expect(categories[0].questions.map((q) => q.value)).toEqual([100, 200]);
+  });
+
+  it('marks used questions and the round\'s Daily Doubles', () => {
+    const categories = buildRoundCategories(
+      questions,
+      ['a1'],
+      [{ round: 2, category: 0, position: 1 }, { category: 1, position: 0 }],
+      2,
+      layout
+    );
+
+    expect(categories[0].questions[0].isUsed).toBe(true);
+    expect(categories[0].questions[1].isDailyDouble).toBe(true);
+    expect(categories[1].questions[0].isDailyDouble).toBe(false);
+    expect(categories[0].questions.map((q) => q.value)).toEqual([200, 400]);
+  });
+});
+
+describe('Double Jeopardy on the round 1 bank', () => {
+  const layout = { categories: 2, pointValues: [100] };
+  const questions = ['Alpha', 'Beta', 'Gamma', 'Delta'].map((category) =>
+    makeQuestion(category.toLowerCase(), category, 100)
+  );
+  const sameBank = { bank_id: 'bank', double_jeopardy_bank_id: 'bank' };
+
+  it('skips the first round\'s categories only when round 2 reuses its bank', () => {
+    expect(getRoundCategoryOffset(sameBank, 2, layout)).toBe(2);
+    expect(getRoundCategoryOffset(sameBank, 1, layout)).toBe(0);
+    expect(getRoundCategoryOffset({ bank_id: 'bank', double_jeopardy_bank_id: 'other' }, 2, layout)).toBe(0);
+  });
+
+  it('builds round 2 from the categories round 1 did not play', () => {
+    const roundOne = buildRoundCategories(questions, [], [], 1, layout, getRoundCategoryOffset(sameBank, 1, layout));
+    const roundTwo = buildRoundCategories(
+      questions,
+      [],
+      [{ round: 2, category: 0, position: 0 }],
+      2,
+      layout,
+      getRoundCategoryOffset(sameBank, 2, layout)
+    );
+
+    expect(roundOne.map((c) => c.name)).toEqual(['Alpha', 'Beta']);
+    expect(roundTwo.map((c) => c.name)).toEqual(['Gamma', 'Delta']);
+    expect(roundTwo[0].questions[0].isDailyDouble).toBe(true);
+  });
+
+  it('rejects a shared bank without enough categories for both boards', () => {
+    expect(validateSharedBankCategories(questions.map((q) => q.category), layout)).toBeNull();
+    expect(validateSharedBankCategories(['Alpha', 'Alpha', 'Beta', 'Gamma'], layout)).toMatch(/needs 4 categories.*has 3/);
+  });
+});
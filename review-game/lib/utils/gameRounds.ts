@@ -0,0 +1,372 @@
+/**
+ * Utility functions for Jeopardy rounds
+ *
+ * A game has a first round and, when double_jeopardy_bank_id is set, a Double
+ * Jeopardy round with doubled values and more Daily Doubles. Both are followed
+ * by optional Final Jeopardy.
+ */
+
+import { DOUBLE_JEOPARDY, GAME_BOARD } from '@/lib/constants/game';
+import { DEFAULT_BOARD_LAYOUT } from '@/lib/utils/boardLayout';
+import type { Tables } from '@/types/database.types';
+import type {
+  BoardLayout,
+  Category,
+  DailyDoubleMode,
+  DailyDoublePosition,
+  DailyDoubleSettings,
+  GamePhase,
+  GameRound,
+  Question,
+} from '@/types/game';
+
+/**
+ * Check whether a phase belongs to Final Jeopardy
+ * @param phase - The game phase
+ * @returns True for the Final Jeopardy phases, false during board play
+ */
+export const isFinalJeopardyPhase = (phase: GamePhase | null | undefined): boolean => {
+  return phase === 'final_jeopardy_wager' || phase === 'final_jeopardy_reveal';
+};
+
+/**
+ * Get the board-play phase for a round
+ * @param round - The round being played
+ * @returns 'double_jeopardy' for round 2, otherwise 'regular'
+ */
+export const getRoundPhase = (round: number): GamePhase => {
+  return round === DOUBLE_JEOPARDY.ROUND ? 'double_jeopardy' : 'regular';
+};
+
+/**
+ * List the banks a game's clues can come from
+ * @param game - Row with bank_id and double_jeopardy_bank_id
+ * @returns The first-round bank, plus the Double Jeopardy bank when it differs
+ */
+export const getGameBankIds = (game: {
+  bank_id: string;
+  double_jeopardy_bank_id?: string | null;
+}): string[] => {
+  return game.double_jeopardy_bank_id && game.double_jeopardy_bank_id !== game.bank_id
+    ? [game.bank_id, game.double_jeopardy_bank_id]
+    : [game.bank_id];
+};
+
+/**
+ * Count the bank categories a round's board skips
+ * When Double Jeopardy uses the first round's bank, its board starts after the
+ * categories round 1 played.
+ * @param game - Row with bank_id and double_jeopardy_bank_id
+ * @param round - The round being played
+ * @param layout - The game's board dimensions
+ * @returns layout.categories for a Double Jeopardy round on the round 1 bank, otherwise 0
+ */
+export const getRoundCategoryOffset = (
+  game: { bank_id: string; double_jeopardy_bank_id?: string | null },
+  round: number,
+  layout: BoardLayout
+): number => {
+  return round === DOUBLE_JEOPARDY.ROUND && game.double_jeopardy_bank_id === game.bank_id
+    ? layout.categories
+    : 0;
+};
+
+/**
+ * Validate a bank that both rounds draw from
+ * @param categoryNames - Category of each of the bank's questions
+ * @param layout - The game's board dimensions
+ * @returns Error message, or null when the bank fills both boards with different categories
+ */
+export const validateSharedBankCategories = (
+  categoryNames: string[],
+  layout: BoardLayout
+): string | null => {
+  const needed = layout.categories * 2;
+  const available = new Set(categoryNames).size;
+
+  return available < needed
+    ? `Double Jeopardy from the same bank needs ${needed} categories (${layout.categories} per round); this bank has ${available}`
+    : null;
+};
+
+/**
+ * Get the point value multiplier for a round
+ * @param round - The round being played
+ * @returns DOUBLE_JEOPARDY.VALUE_MULTIPLIER for round 2, otherwise 1
+ */
+export const getRoundValueMultiplier = (round: number): number => {
+  return round === DOUBLE_JEOPARDY.ROUND ? DOUBLE_JEOPARDY.VALUE_MULTIPLIER : 1;
+};
+
+/**
+ * Daily Double placement of games created before placement modes existed
+ */
+export const DEFAULT_DAILY_DOUBLE_SETTINGS: DailyDoubleSettings = {
+  mode: 'manual',
+  count: GAME_BOARD.DAILY_DOUBLE_COUNT,
+};
+
+const isDailyDoubleMode = (mode: unknown): mode is DailyDoubleMode => {
+  return (GAME_BOARD.DAILY_DOUBLE_MODES as readonly unknown[]).includes(mode);
+};
+
+/**
+ * Read a game's Daily Double placement, falling back to the defaults
+ * @param game - Row with daily_double_mode and daily_double_count
+ * @returns The game's placement settings
+ */
+export const getDailyDoubleSettings = (game: {
+  daily_double_mode?: string | null;
+  daily_double_count?: number | null;
+}): DailyDoubleSettings => {
+  return {
+    mode: isDailyDoubleMode(game.daily_double_mode) ? game.daily_double_mode : DEFAULT_DAILY_DOUBLE_SETTINGS.mode,
+    count: game.daily_double_count ?? DEFAULT_DAILY_DOUBLE_SETTINGS.count,
+  };
+};
+
+/**
+ * Check whether a placement mode picks its cells when the game starts
+ * Those cells stay out of the game settings APIs so the teacher cannot see them.
+ * @param mode - The game's placement mode
+ * @returns True for 'random' and 'weighted'
+ */
+export const isRandomDailyDoubleMode = (mode: DailyDoubleMode): boolean => {
+  return mode === 'random' || mode === 'weighted';
+};
+
+/**
+ * Drop the cells of random Daily Double placement from a game row
+ * The game settings APIs return rows through this so the teacher only finds
+ * the cells on the board.
+ * @param game - Row with the Daily Double columns
+ * @returns The row, with daily_double_positions cleared for 'random' and 'weighted' games
+ */
+export const hideRandomDailyDoubles = <T extends {
+  daily_double_mode?: string | null;
+  daily_double_positions?: unknown;
+}>(game: T): T => {
+  return isRandomDailyDoubleMode(getDailyDoubleSettings(game).mode)
+    ? { ...game, daily_double_positions: null }
+    : game;
+};
+
+/**
+ * Validate Daily Double placement settings from a request body; absent fields are skipped
+ * @param mode - Untrusted daily_double_mode
+ * @param count - Untrusted daily_double_count
+ * @returns Error message, or null when valid
+ */
+export const validateDailyDoubleSettings = (mode: unknown, count: unknown): string | null => {
+  if (mode !== undefined && !isDailyDoubleMode(mode)) {
+    return `daily_double_mode must be one of: ${GAME_BOARD.DAILY_DOUBLE_MODES.join(', ')}`;
+  }
+
+  if (
+    count !== undefined &&
+    (typeof count !== 'number' || !Number.isInteger(count) ||
+      count < 0 || count > GAME_BOARD.MAX_DAILY_DOUBLE_COUNT)
+  ) {
+    return `daily_double_count must be an integer between 0 and ${GAME_BOARD.MAX_DAILY_DOUBLE_COUNT}`;
+  }
+
+  return null;
+};
+
+/**
+ * Get the number of Daily Doubles on a round's board
+ * @param round - The round being played
+ * @param count - Daily Doubles on the first board
+ * @returns Daily Double count for the round; Double Jeopardy adds DOUBLE_JEOPARDY.EXTRA_DAILY_DOUBLES
+ */
+export const getRoundDailyDoubleCount = (
+  round: GameRound,
+  count: number = GAME_BOARD.DAILY_DOUBLE_COUNT
+): number => {
+  if (round !== DOUBLE_JEOPARDY.ROUND) return count;
+  return count > 0 ? count + DOUBLE_JEOPARDY.EXTRA_DAILY_DOUBLES : 0;
+};
+
+/**
+ * Pick out the Daily Double cells of one round
+ * @param positions - games.daily_double_positions (entries without round are round 1)
+ * @param round - The round being played
+ * @returns The cells that belong to the round
+ */
+export const getDailyDoublePositionsForRound = (
+  positions: DailyDoublePosition[],
+  round: GameRound
+): DailyDoublePosition[] => {
+  return positions.filter((dd) => (dd.round ?? 1) === round);
+};
+
+/**
+ * Pick a board row at random, favoring the higher-value rows
+ * Row i (from the top) is picked with weight i + 1, so the bottom row of a
+ * five-row board is five times as likely as the top one.
+ * @param rows - Rows on the board
+ * @returns Row index from the top
+ */
+const pickWeightedRow = (rows: number): number => {
+  let ticket = Math.random() * ((rows * (rows + 1)) / 2);
+
+  for (let row = 0; row < rows; row++) {
+    ticket -= row + 1;
+    if (ticket < 0) return row;
+  }
+
+  return rows - 1;
+};
+
+/**
+ * Generate random Daily Double cells
+ * @param rounds - Rounds in the game; Double Jeopardy gets its own, larger set
+ * @param layout - The game's board dimensions
+ * @param settings - The game's placement; 'weighted' favors the higher-value rows, 'none' places no cells
+ * @returns Unique cells per round, each tagged with its round
+ */
+export const generateDailyDoublePositions = (
+  rounds: GameRound[] = [1],
+  layout: BoardLayout = DEFAULT_BOARD_LAYOUT,
+  settings: DailyDoubleSettings = DEFAULT_DAILY_DOUBLE_SETTINGS
+): DailyDoublePosition[] => {
+  const positions: DailyDoublePosition[] = [];
+  if (settings.mode === 'none') return positions;
+
+  for (const round of rounds) {
+    const usedPositions = new Set<string>();
+    const count = getRoundDailyDoubleCount(round, settings.count);
+
+    while (usedPositions.size < count) {
+      const category = Math.floor(Math.random() * layout.categories);
+      const position = settings.mode === 'weighted'
+        ? pickWeightedRow(layout.pointValues.length)
+        : Math.floor(Math.random() * layout.pointValues.length);
+      const key = `${category}-${position}`;
+
+      if (!usedPositions.has(key)) {
+        usedPositions.add(key);
+        positions.push({ round, category, position });
+      }
+    }
+  }
+
+  return positions;
+};
+
+/**
+ * Validate daily_double_positions for a game
+ * @param positions - Value from a request body
+ * @param hasDoubleJeopardy - Whether the game has a Double Jeopardy round
+ * @param layout - The game's board dimensions
+ * @param count - Daily Doubles on the first board
+ * @returns Error message, or null when every round has its full set of unique, in-range cells
+ */
+export const validateDailyDoublePositions = (
+  positions: unknown,
+  hasDoubleJeopardy: boolean,
+  layout: BoardLayout = DEFAULT_BOARD_LAYOUT,
+  count: number = GAME_BOARD.DAILY_DOUBLE_COUNT
+): string | null => {
+  if (!Array.isArray(positions)) {
+    return 'daily_double_positions must be an array';
+  }
+
+  const rounds: GameRound[] = hasDoubleJeopardy ? [1, DOUBLE_JEOPARDY.ROUND] : [1];
+  const seen = new Set<string>();
+
+  for (const dd of positions) {
+    if (
+      typeof dd !== 'object' || dd === null ||
+      !Number.isInteger(dd.category) || dd.category < 0 || dd.category >= layout.categories ||
+      !Number.isInteger(dd.position) || dd.position < 0 || dd.position >= layout.pointValues.length ||
+      !rounds.includes(dd.round ?? 1)
+    ) {
+      return 'daily_double_positions contains an invalid position';
+    }
+
+    const key = `${dd.round ?? 1}-${dd.category}-${dd.position}`;
+    if (seen.has(key)) {
+      return 'daily_double_positions must be unique';
+    }
+    seen.add(key);
+  }
+
+  for (const round of rounds) {
+    const roundCount = getRoundDailyDoubleCount(round, count);
+    if (getDailyDoublePositionsForRound(positions, round).length !== roundCount) {
+      return `daily_double_positions must have exactly ${roundCount} positions for round ${round}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the board for a round from a bank's questions
+ * Round 2 doubles point values and uses the round 2 Daily Double cells.
+ * @param questions - The round's bank questions
+ * @param usedQuestions - games.selected_questions
+ * @param dailyDoublePositions - games.daily_double_positions
+ * @param round - The round being played
+ * @param layout - The game's board dimensions
+ * @param categoryOffset - Bank categories to skip (see getRoundCategoryOffset)
+ * @returns Categories with one question per row of the board, including answers
+ */
+export const buildRoundCategories = (
+  questions: Tables<'questions'>[],
+  usedQuestions: string[],
+  dailyDoublePositions: DailyDoublePosition[],
+  round: GameRound,
+  layout: BoardLayout,
+  categoryOffset: number = 0
+): Category[] => {
+  const roundDailyDoubles = getDailyDoublePositionsForRound(dailyDoublePositions, round);
+  const valueMultiplier = getRoundValueMultiplier(round);
+
+  // Group questions by category
+  const categoriesMap = new Map<string, Tables<'questions'>[]>();
+
+  questions.forEach((q) => {
+    if (!categoriesMap.has(q.category)) {
+      categoriesMap.set(q.category, []);
+    }
+    categoriesMap.get(q.category)!.push(q);
+  });
+
+  return Array.from(categoriesMap.entries())
+    .slice(categoryOffset, categoryOffset + layout.categories)
+    .map(([categoryName, categoryQuestions], categoryIndex) => {
+      // Sort by point_value and keep one question per row of the board;
+      // the game's ladder, not the bank value, sets what each row is worth
+      const sortedQuestions = [...categoryQuestions]
+        .sort((a, b) => a.point_value - b.point_value)
+        .slice(0, layout.pointValues.length);
+
+      const roundQuestions: Question[] = sortedQuestions.map((q, questionIndex) => {
+        // Check if this question is a Daily Double by comparing category and position
+        const isDailyDouble = roundDailyDoubles.some(
+          (dd) => dd.category === categoryIndex && dd.position === questionIndex
+        );
+
+        return {
+          id: q.id,
+          value: layout.pointValues[questionIndex] * valueMultiplier,
+          text: q.question_text,
+          isUsed: usedQuestions.includes(q.id),
+          isDailyDouble,
+          categoryName, // Include category name for modal display
+          answer: q.answer_text,
+          imageUrl: q.image_url,
+          imageAltText: q.image_alt_text,
+          hint: q.hint,
+        };
+      });
+
+      return {
+        id: categoryName.toLowerCase().replace(/\s+/g, '-'),
+        name: categoryName,
+        questions: roundQuestions,
+      };
+    });
+};
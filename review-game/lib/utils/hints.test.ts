@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getHintedValue, validateHintPenalty } from './hints';
+
+describe('getHintedValue', () => {
+  it('takes the penalty off the clue value', () => {
+    expect(getHintedValue(400, 50)).toBe(200);
+    expect(getHintedValue(400, 25)).toBe(300);
+  });
+
+  it('keeps the full value with no penalty', () => {
+    expect(getHintedValue(400, 0)).toBe(400);
+  });
+
+  it('rounds to whole points', () => {
+    expect(getHintedValue(250, 75)).toBe(63);
+  });
+
+  it('clamps penalties outside the allowed range', () => {
+    expect(getHintedValue(400, 100)).toBe(40);
+    expect(getHintedValue(400, -10)).toBe(400);
+  });
+
+  it('never drops below 1 point', () => {
+    expect(getHintedValue(1, 90)).toBe(1);
+  });
+});
+
+describe('validateHintPenalty', () => {
+  it('accepts absent and in-range penalties', () => {
+    expect(validateHintPenalty(undefined)).toBeNull();
+    expect(validateHintPenalty(0)).toBeNull();
+    expect(validateHintPenalty(90)).toBeNull();
+  });
+
+  it('rejects non-integers and out-of-range penalties', () => {
+    expect(validateHintPenalty(null)).toMatch(/hint_penalty_percent/);
+    expect(validateHintPenalty(12.5)).toMatch(/hint_penalty_percent/);
+    expect(validateHintPenalty(95)).toMatch(/hint_penalty_percent/);
+    expect(validateHintPenalty('50')).toMatch(/hint_penalty_percent/);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Utility functions for question hints
+ *
+ * Once the teacher reveals a clue's hint, the clue is worth less to whoever
+ * answers it by the game's hint penalty.
+ */
+
+import { HINTS } from '@/lib/constants/game';
+
+/**
+ * Value of a clue after its hint was revealed
+ * Rounds to whole points and never drops below 1; a penalty outside the
+ * allowed range is clamped.
+ * @param value - The clue's value on the board
+ * @param penaltyPercent - The game's hint penalty
+ * @returns Points the clue is now worth
+ */
+export const getHintedValue = (value: number, penaltyPercent: number): number => {
+  const percent = Math.min(
+    HINTS.MAX_PENALTY_PERCENT,
+    Math.max(HINTS.MIN_PENALTY_PERCENT, penaltyPercent)
+  );
+  return Math.max(1, Math.round((value * (100 - percent)) / 100));
+};
+
+/**
+ * Validate the hint penalty from a request body; absent is skipped
+ * @param penalty - Untrusted hint_penalty_percent
+ * @returns Error message, or null when valid
+ */
+export const validateHintPenalty = (penalty: unknown): string | null => {
+  if (
+    penalty !== undefined &&
+    (typeof penalty !== 'number' || !Number.isInteger(penalty) ||
+      penalty < HINTS.MIN_PENALTY_PERCENT || penalty > HINTS.MAX_PENALTY_PERCENT)
+  ) {
+    return `hint_penalty_percent must be an integer between ${HINTS.MIN_PENALTY_PERCENT} and ${HINTS.MAX_PENALTY_PERCENT}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { formatJoinCode, getJoinPath, normalizeJoinCode } from './joinCode';
+
+const GAME_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('normalizeJoinCode', () => {
+  it('accepts six digits with or without separators', () => {
+    expect(normalizeJoinCode('123456')).toBe('123456');
+    expect(normalizeJoinCode(' 123 456 ')).toBe('123456');
+    expect(normalizeJoinCode('123-456')).toBe('123456');
+    expect(normalizeJoinCode('007000')).toBe('007000');
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeJoinCode('12345')).toBeNull();
+    expect(normalizeJoinCode('1234567')).toBeNull();
+    expect(normalizeJoinCode('12345a')).toBeNull();
+    expect(normalizeJoinCode(123456)).toBeNull();
+    expect(normalizeJoinCode(undefined)).toBeNull();
+  });
+});
+
+describe('formatJoinCode', () => {
+  it('splits the code in two groups', () => {
+    expect(formatJoinCode('123456')).toBe('123 456');
+  });
+});
+
+describe('getJoinPath', () => {
+  it('sends pub trivia games to the Quick Fire player page', () => {
+    expect(getJoinPath('pub_trivia', GAME_ID)).toBe(`/game/quick-fire/player/${GAME_ID}`);
+  });
+
+  it('sends other games to the team join page', () => {
+    expect(getJoinPath('jeopardy', GAME_ID)).toBe(`/game/team/join/${GAME_ID}`);
+    expect(getJoinPath(null, GAME_ID)).toBe(`/game/team/join/${GAME_ID}`);
+  });
+});
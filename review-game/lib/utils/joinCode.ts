@@ -0,0 +1,43 @@
+/**
+ * Utility functions for game join codes
+ *
+ * Every game that has not completed has a 6-digit games.join_code. Students
+ * type it on /join, which looks the game up and sends them to the join flow
+ * for its game type.
+ */
+
+import { JOIN_CODE } from '@/lib/constants/game';
+
+const JOIN_CODE_PATTERN = new RegExp(`^[0-9]{${JOIN_CODE.LENGTH}}$`);
+
+/**
+ * Normalize a join code typed by a student
+ * Spaces and dashes are ignored, so "123 456" and "123-456" both work.
+ * @param input - Raw input
+ * @returns The 6-digit code, or null if the input cannot be one
+ */
+export const normalizeJoinCode = (input: unknown): string | null => {
+  if (typeof input !== 'string') return null;
+  const code = input.replace(/[\s-]/g, '');
+  return JOIN_CODE_PATTERN.test(code) ? code : null;
+};
+
+/**
+ * Format a join code for display, e.g. "123 456"
+ * @param code - games.join_code
+ */
+export const formatJoinCode = (code: string): string => {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+};
+
+/**
+ * Path of the join flow for a game
+ * @param gameType - games.game_type
+ * @param gameId - Game ID
+ * @returns Quick Fire player page for pub trivia, team join page otherwise
+ */
+export const getJoinPath = (gameType: string | null | undefined, gameId: string): string =>
+  gameType === 'pub_trivia'
+    ? `/game/quick-fire/player/${gameId}`
+    : `/game/team/join/${gameId}`;
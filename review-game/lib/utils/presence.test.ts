@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getPresenceStatus, isApprovedTeam } from './presence';
+
+const NOW = Date.parse('2026-10-30T12:00:00Z');
+const secondsAgo = (seconds: number) => new Date(NOW - seconds * 1000).toISOString();
+
+describe('getPresenceStatus', () => {
+  it('is online while heartbeats arrive', () => {
+    expect(getPresenceStatus(secondsAgo(0), NOW)).toBe('online');
+    expect(getPresenceStatus(secondsAgo(39), NOW)).toBe('online');
+  });
+
+  it('is idle after missed heartbeats', () => {
+    expect(getPresenceStatus(secondsAgo(40), NOW)).toBe('idle');
+    expect(getPresenceStatus(secondsAgo(89), NOW)).toBe('idle');
+  });
+
+  it('is offline after 90 seconds or without a heartbeat', () => {
+    expect(getPresenceStatus(secondsAgo(90), NOW)).toBe('offline');
+    expect(getPresenceStatus(null, NOW)).toBe('offline');
+    expect(getPresenceStatus('not a date', NOW)).toBe('offline');
+  });
+});
+
+describe('isApprovedTeam', () => {
+  it('treats disconnected teams as approved', () => {
+    expect(isApprovedTeam('connected')).toBe(true);
+    expect(isApprovedTeam('disconnected')).toBe(true);
+    expect(isApprovedTeam('pending')).toBe(false);
+    expect(isApprovedTeam(null)).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Utility functions for live team presence
+ *
+ * Team devices send a heartbeat every PRESENCE.HEARTBEAT_INTERVAL_MS, which
+ * updates teams.last_seen. A team is online while heartbeats arrive, idle
+ * after missing a couple, and offline after PRESENCE.OFFLINE_AFTER_MS.
+ */
+
+import { PRESENCE } from '@/lib/constants/game';
+import type { PresenceStatus } from '@/types/game';
+
+/**
+ * Derive a team's presence from its last heartbeat
+ * @param lastSeen - teams.last_seen, or null when no heartbeat was recorded
+ * @param now - Current time in epoch ms
+ * @returns The team's presence
+ */
+export const getPresenceStatus = (
+  lastSeen: string | null | undefined,
+  now: number
+): PresenceStatus => {
+  const seenAt = lastSeen ? Date.parse(lastSeen) : NaN;
+  if (Number.isNaN(seenAt)) return 'offline';
+
+  const age = now - seenAt;
+  if (age < PRESENCE.IDLE_AFTER_MS) return 'online';
+  if (age < PRESENCE.OFFLINE_AFTER_MS) return 'idle';
+  return 'offline';
+};
+
+/**
+ * Whether a team was approved by the teacher; disconnected teams were
+ * approved and only lost their heartbeat
+ * @param connectionStatus - teams.connection_status
+ */
+export const isApprovedTeam = (connectionStatus: string | null | undefined): boolean =>
+  connectionStatus === 'connected' || connectionStatus === 'disconnected';
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQuickFireOptions,
+  getEliminatedOptionIndices,
+  getEliminationOrder,
+  getOptionOrder,
+  shuffleOptions,
+  withOptionOrder,
+} from './pubTriviaOptions';
+
+describe('shuffleOptions', () => {
+  it('tracks where the correct answer lands', () => {
+    expect(shuffleOptions(['a', 'b', 'c'], 'C', () => 0)).toEqual({
+      options: ['b', 'c', 'C', 'a'],
+      correctAnswerIndex: 2,
+    });
+  });
+
+  it('keeps the order when every swap is in place', () => {
+    expect(shuffleOptions(['a', 'b', 'c'], 'C', () => 0.99)).toEqual({
+      options: ['a', 'b', 'c', 'C'],
+      correctAnswerIndex: 3,
+    });
+  });
+
+  it('always puts the correct answer at the reported index', () => {
+    for (let n = 0; n < 20; n++) {
+      const { options, correctAnswerIndex } = shuffleOptions(['a', 'b', 'c'], 'C');
+      expect(options[correctAnswerIndex]).toBe('C');
+      expect([...options].sort()).toEqual(['C', 'a', 'b', 'c']);
+    }
+  });
+});
+
+describe('buildQuickFireOptions', () => {
+  it('shuffles multiple choice options', () => {
+    expect(buildQuickFireOptions({ answer_text: 'C', mc_options: ['a', 'b', 'c'] }, () => 0)).toEqual({
+      options: ['b', 'c', 'C', 'a'],
+      correctAnswerIndex: 2,
+    });
+  });
+
+  it('always offers True then False', () => {
+    expect(buildQuickFireOptions({ question_format: 'true_false', answer_text: 'false' })).toEqual({
+      options: ['True', 'False'],
+      correctAnswerIndex: 1,
+    });
+  });
+
+  it('has no options for numeric questions', () => {
+    expect(buildQuickFireOptions({ question_format: 'numeric', answer_text: '42' })).toEqual({
+      options: [],
+      correctAnswerIndex: -1,
+    });
+  });
+
+  it('never hands out ordering items already in order', () => {
+    const question = { question_format: 'ordering', answer_text: '', ordering_items: ['a', 'b', 'c'] };
+    expect(buildQuickFireOptions(question, () => 0.99)).toEqual({ options: ['b', 'c', 'a'], correctAnswerIndex: -1 });
+    expect(buildQuickFireOptions(question, () => 0).options).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('getEliminationOrder', () => {
+  it('picks one wrong option per threshold', () => {
+    expect(getEliminationOrder(4, 0, true)).toEqual([1, 2]);
+    expect(getEliminationOrder(4, 1, true)).toEqual([0, 2]);
+  });
+
+  it('eliminates nothing when elimination is off', () => {
+    expect(getEliminationOrder(4, 0, false)).toEqual([]);
+  });
+});
+
+describe('getEliminatedOptionIndices', () => {
+  it('returns the options whose threshold has passed', () => {
+    expect(getEliminatedOptionIndices([3, 1], 0.2)).toEqual([]);
+    expect(getEliminatedOptionIndices([3, 1], 0.4)).toEqual([3]);
+    expect(getEliminatedOptionIndices([3, 1], 0.9)).toEqual([3, 1]);
+    expect(getEliminatedOptionIndices([], 1)).toEqual([]);
+  });
+});
+
+describe('getOptionOrder / withOptionOrder', () => {
+  const order = { options: ['b', 'C', 'a', 'c'], eliminationOrder: [0, 2] };
+
+  it('returns null before a question starts', () => {
+    expect(getOptionOrder({}, 'q1')).toBeNull();
+    expect(getOptionOrder({ pub_trivia_option_order: null }, 'q1')).toBeNull();
+    expect(getOptionOrder({ pub_trivia_option_order: { q2: order } }, 'q1')).toBeNull();
+  });
+
+  it('round-trips a stored order and keeps earlier questions', () => {
+    const first = withOptionOrder({ pub_trivia_option_order: null }, 'q1', order);
+    const second = withOptionOrder({ pub_trivia_option_order: first }, 'q2', { options: ['x', 'y'], eliminationOrder: [] });
+
+    expect(getOptionOrder({ pub_trivia_option_order: second }, 'q1')).toEqual(order);
+    expect(getOptionOrder({ pub_trivia_option_order: second }, 'q2')).toEqual({ options: ['x', 'y'], eliminationOrder: [] });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Utility functions for Quick Fire answer options
+ *
+ * Each question's options are shuffled once, when its round starts, and stored
+ * on the game with the order its wrong options are eliminated. Storing both
+ * lets the state endpoint show a reloaded teacher or player exactly the
+ * positions and eliminations everyone else sees.
+ */
+
+import type { Json } from '@/types/database.types';
+import { OPTION_ELIMINATION_THRESHOLDS, type PubTriviaOptionOrder } from '@/types/pub-trivia';
+import {
+  getOrderingItems,
+  getQuestionFormat,
+  TRUE_FALSE_OPTIONS,
+  type QuestionFormatFields,
+} from './questionFormats';
+
+/**
+ * Shuffle a question's options (Fisher-Yates)
+ * @param wrongOptions - The question's wrong options
+ * @param correctAnswer - The correct answer
+ * @param random - Source of randomness in [0, 1); injectable for tests
+ * @returns The shuffled options and where the correct answer landed
+ */
+export const shuffleOptions = (
+  wrongOptions: readonly string[],
+  correctAnswer: string,
+  random: () => number = Math.random
+): { options: string[]; correctAnswerIndex: number } => {
+  // Append correct answer at end before shuffling so we can track its final position
+  const options = [...wrongOptions, correctAnswer];
+  let correctAnswerIndex = options.length - 1;
+
+  for (let i = options.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [options[i], options[j]] = [options[j], options[i]];
+    if (correctAnswerIndex === i) correctAnswerIndex = j;
+    else if (correctAnswerIndex === j) correctAnswerIndex = i;
+  }
+
+  return { options, correctAnswerIndex };
+};
+
+/**
+ * Build the options players see when a question's round starts
+ * @param question - The question's format columns
+ * @param random - Source of randomness in [0, 1); injectable for tests
+ * @returns The options and the correct answer's position, or -1 when no single
+ *   option is correct: multiple choice is shuffled, true/false is always
+ *   True then False, numeric has no options, and ordering items are shuffled
+ *   out of their correct order
+ */
+export const buildQuickFireOptions = (
+  question: QuestionFormatFields,
+  random: () => number = Math.random
+): { options: string[]; correctAnswerIndex: number } => {
+  const format = getQuestionFormat(question);
+
+  if (format === 'true_false') {
+    const answer = question.answer_text.trim().toLowerCase();
+    return {
+      options: [...TRUE_FALSE_OPTIONS],
+      correctAnswerIndex: TRUE_FALSE_OPTIONS.findIndex((option) => option.toLowerCase() === answer),
+    };
+  }
+
+  if (format === 'numeric') {
+    return { options: [], correctAnswerIndex: -1 };
+  }
+
+  if (format === 'ordering') {
+    const items = getOrderingItems(question);
+    const { options } = shuffleOptions(items.slice(1), items[0], random);
+    // Never hand players the answer: rotate a shuffle that landed in order
+    if (options.every((item, i) => item === items[i])) {
+      options.push(options.shift() as string);
+    }
+    return { options, correctAnswerIndex: -1 };
+  }
+
+  return shuffleOptions(Array.isArray(question.mc_options) ? (question.mc_options as string[]) : [], question.answer_text, random);
+};
+
+/**
+ * Pick the wrong options to eliminate as the timer runs
+ * @param optionCount - Number of shuffled options
+ * @param correctAnswerIndex - Position of the correct answer
+ * @param eliminationEnabled - Whether the game eliminates wrong options
+ * @returns One wrong option index per elimination threshold, in elimination order;
+ *   empty when elimination is off
+ */
+export const getEliminationOrder = (
+  optionCount: number,
+  correctAnswerIndex: number,
+  eliminationEnabled: boolean
+): number[] => {
+  if (!eliminationEnabled) {
+    return [];
+  }
+  // Options are already shuffled, so the first wrong ones are a random pick
+  return Array.from({ length: optionCount }, (_, i) => i)
+    .filter((i) => i !== correctAnswerIndex)
+    .slice(0, OPTION_ELIMINATION_THRESHOLDS.length);
+};
+
+/**
+ * Options eliminated so far in a round
+ * @param eliminationOrder - The round's elimination order
+ * @param elapsedFraction - Share of the timer used (0–1)
+ * @returns Indices whose elimination threshold has passed, in elimination order
+ */
+export const getEliminatedOptionIndices = (
+  eliminationOrder: readonly number[],
+  elapsedFraction: number
+): number[] =>
+  eliminationOrder.filter((_, i) => elapsedFraction >= OPTION_ELIMINATION_THRESHOLDS[i]);
+
+/**
+ * Read the stored option order for one question
+ * @param game - Row with the pub_trivia_option_order column
+ * @param questionId - Question to read
+ * @returns The options as shuffled when the question started, or null if it has not started
+ */
+export const getOptionOrder = (
+  game: { pub_trivia_option_order?: Json | null },
+  questionId: string
+): PubTriviaOptionOrder | null => {
+  const stored = game.pub_trivia_option_order;
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return null;
+  }
+
+  const entry = (stored as Record<string, Partial<PubTriviaOptionOrder> | undefined>)[questionId];
+  if (!entry || !Array.isArray(entry.options)) {
+    return null;
+  }
+  return { options: entry.options, eliminationOrder: entry.eliminationOrder ?? [] };
+};
+
+/**
+ * Add a question's option order to the stored orders
+ * @param game - Row with the pub_trivia_option_order column
+ * @param questionId - Question that is starting
+ * @param order - Its shuffled options and elimination order
+ * @returns The value to store; orders of earlier questions are kept
+ */
+export const withOptionOrder = (
+  game: { pub_trivia_option_order?: Json | null },
+  questionId: string,
+  order: PubTriviaOptionOrder
+): Json => {
+  const stored = game.pub_trivia_option_order;
+  const existing = stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  return {
+    ...existing,
+    [questionId]: { options: order.options, eliminationOrder: order.eliminationOrder },
+  };
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAnswerStreak,
+  getPubTriviaScoring,
+  normalizePubTriviaScoring,
+  validatePubTriviaScoring,
+} from './pubTriviaScoring';
+import { DEFAULT_PUB_TRIVIA_SCORING } from '@/types/pub-trivia';
+
+const LINEAR = {
+  mode: 'linear',
+  maxPoints: 1000,
+  brackets: [],
+  minPoints: 500,
+  eliminationEnabled: false,
+  streakBonusMode: 'none',
+  streakMinLength: 3,
+  streakBonusValue: 0,
+};
+
+describe('getPubTriviaScoring', () => {
+  it('falls back to the original brackets with elimination', () => {
+    expect(getPubTriviaScoring({})).toEqual(DEFAULT_PUB_TRIVIA_SCORING);
+    expect(getPubTriviaScoring({ pub_trivia_scoring: null })).toEqual(DEFAULT_PUB_TRIVIA_SCORING);
+    expect(DEFAULT_PUB_TRIVIA_SCORING.brackets.map((b) => b.points)).toEqual([1000, 800, 600, 400]);
+    expect(DEFAULT_PUB_TRIVIA_SCORING.eliminationEnabled).toBe(true);
+  });
+
+  it('reads a stored profile', () => {
+    expect(getPubTriviaScoring({ pub_trivia_scoring: LINEAR })).toEqual(LINEAR);
+  });
+});
+
+describe('validatePubTriviaScoring', () => {
+  it('accepts null and valid profiles', () => {
+    expect(validatePubTriviaScoring(null)).toBeNull();
+    expect(validatePubTriviaScoring(LINEAR)).toBeNull();
+    expect(validatePubTriviaScoring(DEFAULT_PUB_TRIVIA_SCORING)).toBeNull();
+  });
+
+  it('rejects an unknown mode or out-of-range points', () => {
+    expect(validatePubTriviaScoring({ ...LINEAR, mode: 'exponential' })).toMatch(/mode/);
+    expect(validatePubTriviaScoring({ ...LINEAR, maxPoints: 0 })).toMatch(/maxPoints/);
+    expect(validatePubTriviaScoring({ ...LINEAR, minPoints: 1200 })).toMatch(/minPoints/);
+    expect(validatePubTriviaScoring({ ...LINEAR, eliminationEnabled: 'yes' })).toMatch(/eliminationEnabled/);
+  });
+
+  it('requires brackets in ascending order ending at 1', () => {
+    const brackets = (rows: unknown[]) => ({ ...DEFAULT_PUB_TRIVIA_SCORING, brackets: rows });
+    expect(validatePubTriviaScoring(brackets([]))).toMatch(/1-6 brackets/);
+    expect(validatePubTriviaScoring(brackets([{ maxPct: 0.5, points: 500 }, { maxPct: 0.4, points: 100 }]))).toMatch(/ascending/);
+    expect(validatePubTriviaScoring(brackets([{ maxPct: 0.5, points: 500 }]))).toMatch(/end at maxPct 1/);
+    expect(validatePubTriviaScoring(brackets([{ maxPct: 1, points: 2.5 }]))).toMatch(/points/);
+  });
+});
+
+describe('validatePubTriviaScoring streak bonus', () => {
+  it('accepts a profile without streak fields', () => {
+    expect(validatePubTriviaScoring({
+      mode: 'flat',
+      maxPoints: 500,
+      brackets: [],
+      minPoints: 0,
+      eliminationEnabled: true,
+    })).toBeNull();
+  });
+
+  it('checks the streak length and bonus value', () => {
+    const streak = { ...LINEAR, streakBonusMode: 'multiplier', streakMinLength: 3, streakBonusValue: 50 };
+    expect(validatePubTriviaScoring(streak)).toBeNull();
+    expect(validatePubTriviaScoring({ ...streak, streakBonusMode: 'double' })).toMatch(/streakBonusMode/);
+    expect(validatePubTriviaScoring({ ...streak, streakMinLength: 1 })).toMatch(/streakMinLength/);
+    expect(validatePubTriviaScoring({ ...streak, streakBonusValue: 0 })).toMatch(/streakBonusValue/);
+    expect(validatePubTriviaScoring({ ...streak, streakBonusValue: 300 })).toMatch(/between 1 and 200/);
+    expect(validatePubTriviaScoring({ ...streak, streakBonusMode: 'flat', streakBonusValue: 300 })).toBeNull();
+  });
+});
+
+describe('getAnswerStreak', () => {
+  const order = ['q-1', 'q-2', 'q-3', 'q-4'];
+
+  it('counts correct answers back from the latest question', () => {
+    expect(getAnswerStreak(order, new Set(['q-2', 'q-3', 'q-4']))).toBe(3);
+    expect(getAnswerStreak(order, new Set(['q-1', 'q-2', 'q-3', 'q-4']))).toBe(4);
+  });
+
+  it('is broken by a wrong or missing answer', () => {
+    expect(getAnswerStreak(order, new Set(['q-1', 'q-2', 'q-4']))).toBe(1);
+    expect(getAnswerStreak(order, new Set(['q-1', 'q-2', 'q-3']))).toBe(0);
+    expect(getAnswerStreak([], new Set(['q-1']))).toBe(0);
+  });
+});
+
+describe('normalizePubTriviaScoring', () => {
+  it('drops brackets outside brackets mode and unknown fields', () => {
+    expect(normalizePubTriviaScoring({
+      ...LINEAR,
+      mode: 'linear',
+      brackets: [{ maxPct: 1, points: 100 }],
+      extra: true,
+    } as never)).toEqual(LINEAR);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Utility functions for Quick Fire scoring profiles
+ *
+ * Each Quick Fire game stores how correct answers are scored, whether wrong
+ * options are eliminated and what a streak of correct answers is worth.
+ * POST /api/games validates the profile, the answer route scores with it and
+ * the teacher and player pages read it to drive elimination and the points
+ * still available.
+ */
+
+import { PUB_TRIVIA_SCORING } from '@/lib/constants/game';
+import type { Json } from '@/types/database.types';
+import {
+  DEFAULT_PUB_TRIVIA_SCORING,
+  type PubTriviaPointBracket,
+  type PubTriviaScoringMode,
+  type PubTriviaScoringProfile,
+  type PubTriviaStreakBonusMode,
+} from '@/types/pub-trivia';
+
+const SCORING_MODES: readonly PubTriviaScoringMode[] = ['brackets', 'linear', 'flat'];
+const STREAK_BONUS_MODES: readonly PubTriviaStreakBonusMode[] = ['none', 'multiplier', 'flat'];
+
+const isPoints = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= PUB_TRIVIA_SCORING.MAX_POINTS;
+
+/**
+ * Read a game's scoring profile, falling back to the defaults
+ * @param game - Row with the pub_trivia_scoring column
+ * @returns The game's profile; fields missing from the stored value take their defaults
+ */
+export const getPubTriviaScoring = (game: {
+  pub_trivia_scoring?: Json | null;
+}): PubTriviaScoringProfile => {
+  const stored = game.pub_trivia_scoring;
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return DEFAULT_PUB_TRIVIA_SCORING;
+  }
+
+  const profile = stored as Partial<PubTriviaScoringProfile>;
+  return {
+    mode: profile.mode ?? DEFAULT_PUB_TRIVIA_SCORING.mode,
+    maxPoints: profile.maxPoints ?? DEFAULT_PUB_TRIVIA_SCORING.maxPoints,
+    brackets: profile.brackets ?? DEFAULT_PUB_TRIVIA_SCORING.brackets,
+    minPoints: profile.minPoints ?? DEFAULT_PUB_TRIVIA_SCORING.minPoints,
+    eliminationEnabled: profile.eliminationEnabled ?? DEFAULT_PUB_TRIVIA_SCORING.eliminationEnabled,
+    streakBonusMode: profile.streakBonusMode ?? DEFAULT_PUB_TRIVIA_SCORING.streakBonusMode,
+    streakMinLength: profile.streakMinLength ?? DEFAULT_PUB_TRIVIA_SCORING.streakMinLength,
+    streakBonusValue: profile.streakBonusValue ?? DEFAULT_PUB_TRIVIA_SCORING.streakBonusValue,
+  };
+};
+
+/**
+ * Count a player's correct answers in a row
+ * @param questionIds - Questions played so far in game order, ending with the latest
+ * @param correctQuestionIds - Questions the player answered correctly
+ * @returns Correct answers ending at the latest question; a wrong or missing answer ends the streak
+ */
+export const getAnswerStreak = (
+  questionIds: readonly string[],
+  correctQuestionIds: ReadonlySet<string>
+): number => {
+  let streak = 0;
+  for (let i = questionIds.length - 1; i >= 0 && correctQuestionIds.has(questionIds[i]); i--) {
+    streak++;
+  }
+  return streak;
+};
+
+/**
+ * Validate a bracket table
+ * @param brackets - Untrusted brackets
+ * @returns Error message, or null when valid
+ */
+const validateBrackets = (brackets: unknown): string | null => {
+  if (!Array.isArray(brackets) || brackets.length === 0 || brackets.length > PUB_TRIVIA_SCORING.MAX_BRACKETS) {
+    return `pub_trivia_scoring.brackets must have 1-${PUB_TRIVIA_SCORING.MAX_BRACKETS} brackets`;
+  }
+
+  let previous: PubTriviaPointBracket | null = null;
+  for (const bracket of brackets as Partial<PubTriviaPointBracket>[]) {
+    const { maxPct, points } = bracket ?? {};
+    if (typeof maxPct !== 'number' || maxPct <= 0 || maxPct > 1) {
+      return 'pub_trivia_scoring.brackets maxPct must be greater than 0 and at most 1';
+    }
+    if (!isPoints(points)) {
+      return `pub_trivia_scoring.brackets points must be an integer between 0 and ${PUB_TRIVIA_SCORING.MAX_POINTS}`;
+    }
+    if (previous && maxPct <= previous.maxPct) {
+      return 'pub_trivia_scoring.brackets must be in ascending maxPct order';
+    }
+    previous = { maxPct, points };
+  }
+
+  if (previous?.maxPct !== 1) {
+    return 'pub_trivia_scoring.brackets must end at maxPct 1';
+  }
+
+  return null;
+};
+
+/**
+ * Validate a scoring profile from a request body
+ * @param value - Untrusted pub_trivia_scoring; null uses the defaults
+ * @returns Error message, or null when valid
+ */
+export const validatePubTriviaScoring = (value: unknown): string | null => {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'pub_trivia_scoring must be an object';
+  }
+
+  const {
+    mode,
+    maxPoints,
+    brackets,
+    minPoints,
+    eliminationEnabled,
+    streakBonusMode,
+    streakMinLength,
+    streakBonusValue,
+  } = value as Record<string, unknown>;
+
+  if (!SCORING_MODES.includes(mode as PubTriviaScoringMode)) {
+    return `pub_trivia_scoring.mode must be one of: ${SCORING_MODES.join(', ')}`;
+  }
+  if (!isPoints(maxPoints) || maxPoints === 0) {
+    return `pub_trivia_scoring.maxPoints must be an integer between 1 and ${PUB_TRIVIA_SCORING.MAX_POINTS}`;
+  }
+  if (!isPoints(minPoints) || minPoints > maxPoints) {
+    return 'pub_trivia_scoring.minPoints must be an integer between 0 and maxPoints';
+  }
+  if (mode === 'brackets') {
+    const bracketsError = validateBrackets(brackets);
+    if (bracketsError) {
+      return bracketsError;
+    }
+  }
+  if (typeof eliminationEnabled !== 'boolean') {
+    return 'pub_trivia_scoring.eliminationEnabled must be a boolean';
+  }
+
+  // Streak fields are optional; profiles without them have no streak bonus
+  if (streakBonusMode === undefined || streakBonusMode === 'none') {
+    return null;
+  }
+  if (!STREAK_BONUS_MODES.includes(streakBonusMode as PubTriviaStreakBonusMode)) {
+    return `pub_trivia_scoring.streakBonusMode must be one of: ${STREAK_BONUS_MODES.join(', ')}`;
+  }
+  if (
+    typeof streakMinLength !== 'number' || !Number.isInteger(streakMinLength) ||
+    streakMinLength < PUB_TRIVIA_SCORING.MIN_STREAK_LENGTH || streakMinLength > PUB_TRIVIA_SCORING.MAX_STREAK_LENGTH
+  ) {
+    return `pub_trivia_scoring.streakMinLength must be an integer between ${PUB_TRIVIA_SCORING.MIN_STREAK_LENGTH} and ${PUB_TRIVIA_SCORING.MAX_STREAK_LENGTH}`;
+  }
+  const maxBonus = streakBonusMode === 'multiplier'
+    ? PUB_TRIVIA_SCORING.MAX_STREAK_MULTIPLIER_PERCENT
+    : PUB_TRIVIA_SCORING.MAX_POINTS;
+  if (!isPoints(streakBonusValue) || streakBonusValue === 0 || streakBonusValue > maxBonus) {
+    return `pub_trivia_scoring.streakBonusValue must be an integer between 1 and ${maxBonus}`;
+  }
+
+  return null;
+};
+
+/**
+ * Build the profile to store from validated settings
+ * @param value - Profile that passed validatePubTriviaScoring
+ * @returns The profile with only known fields; brackets are kept for 'brackets' mode only
+ *   and the streak settings are reset when there is no bonus
+ */
+export const normalizePubTriviaScoring = (value: PubTriviaScoringProfile): PubTriviaScoringProfile => ({
+  mode: value.mode,
+  maxPoints: value.maxPoints,
+  brackets: value.mode === 'brackets'
+    ? value.brackets.map(({ maxPct, points }) => ({ maxPct, points }))
+    : [],
+  minPoints: value.minPoints,
+  eliminationEnabled: value.eliminationEnabled,
+  ...(value.streakBonusMode && value.streakBonusMode !== 'none'
+    ? {
+        streakBonusMode: value.streakBonusMode,
+        streakMinLength: value.streakMinLength,
+        streakBonusValue: value.streakBonusValue,
+      }
+    : {
+        streakBonusMode: 'none',
+        streakMinLength: DEFAULT_PUB_TRIVIA_SCORING.streakMinLength,
+        streakBonusValue: 0,
+      }),
+});
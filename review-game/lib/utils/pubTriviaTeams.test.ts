@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTeamStandings,
+  calcTeamRoundPoints,
+  findPubTriviaTeam,
+  getPubTriviaTeamPlay,
+  normalizePubTriviaTeamPlay,
+  validatePubTriviaTeamPlay,
+} from './pubTriviaTeams';
+import type { PubTriviaTeamPlay } from '@/types/pub-trivia';
+
+const TEAMS: PubTriviaTeamPlay = { names: ['Owls', 'Foxes'], aggregate: 'average' };
+
+describe('getPubTriviaTeamPlay', () => {
+  it('returns null for individual play', () => {
+    expect(getPubTriviaTeamPlay({})).toBeNull();
+    expect(getPubTriviaTeamPlay({ pub_trivia_teams: null })).toBeNull();
+    expect(getPubTriviaTeamPlay({ pub_trivia_teams: { names: [] } })).toBeNull();
+  });
+
+  it('reads stored settings', () => {
+    expect(getPubTriviaTeamPlay({ pub_trivia_teams: { ...TEAMS, aggregate: 'best' } })).toEqual({
+      names: ['Owls', 'Foxes'],
+      aggregate: 'best',
+    });
+  });
+});
+
+describe('validatePubTriviaTeamPlay', () => {
+  it('accepts null and valid settings', () => {
+    expect(validatePubTriviaTeamPlay(null)).toBeNull();
+    expect(validatePubTriviaTeamPlay(TEAMS)).toBeNull();
+  });
+
+  it('rejects too few, empty, long or duplicate names', () => {
+    expect(validatePubTriviaTeamPlay({ ...TEAMS, names: ['Owls'] })).toMatch(/2-10 teams/);
+    expect(validatePubTriviaTeamPlay({ ...TEAMS, names: ['Owls', '  '] })).toMatch(/empty/);
+    expect(validatePubTriviaTeamPlay({ ...TEAMS, names: ['Owls', 'x'.repeat(51)] })).toMatch(/50 characters/);
+    expect(validatePubTriviaTeamPlay({ ...TEAMS, names: ['Owls', ' owls '] })).toMatch(/unique/);
+  });
+
+  it('rejects an unknown aggregate', () => {
+    expect(validatePubTriviaTeamPlay({ ...TEAMS, aggregate: 'sum' })).toMatch(/aggregate/);
+  });
+});
+
+describe('normalizePubTriviaTeamPlay', () => {
+  it('trims names and drops unknown fields', () => {
+    expect(normalizePubTriviaTeamPlay({
+      names: [' Owls ', 'Foxes'],
+      aggregate: 'best',
+      extra: true,
+    } as PubTriviaTeamPlay)).toEqual({ names: ['Owls', 'Foxes'], aggregate: 'best' });
+  });
+});
+
+describe('findPubTriviaTeam', () => {
+  it('matches ignoring case and surrounding spaces', () => {
+    expect(findPubTriviaTeam(TEAMS, ' foxes ')).toBe('Foxes');
+    expect(findPubTriviaTeam(TEAMS, 'Wolves')).toBeNull();
+    expect(findPubTriviaTeam(TEAMS, undefined)).toBeNull();
+  });
+});
+
+describe('calcTeamRoundPoints', () => {
+  it('averages the members who answered', () => {
+    expect(calcTeamRoundPoints([1000, 500, 0], 'average')).toBe(500);
+    expect(calcTeamRoundPoints([1000, 0, 0], 'average')).toBe(333);
+  });
+
+  it('takes the best member', () => {
+    expect(calcTeamRoundPoints([400, 1000, 0], 'best')).toBe(1000);
+  });
+
+  it('scores a round no member answered as 0', () => {
+    expect(calcTeamRoundPoints([], 'average')).toBe(0);
+    expect(calcTeamRoundPoints([], 'best')).toBe(0);
+  });
+});
+
+describe('buildTeamStandings', () => {
+  const members = [
+    { playerId: 'p1', teamName: 'Owls' },
+    { playerId: 'p2', teamName: 'Owls' },
+    { playerId: 'p3', teamName: 'Foxes' },
+  ];
+  const answers = [
+    { playerId: 'p1', questionId: 'q1', pointsEarned: 1000 },
+    { playerId: 'p2', questionId: 'q1', pointsEarned: 600 },
+    { playerId: 'p3', questionId: 'q1', pointsEarned: 400 },
+    { playerId: 'p1', questionId: 'q2', pointsEarned: 800 },
+    { playerId: 'p3', questionId: 'q2', pointsEarned: 1000 },
+  ];
+
+  it('sums each round aggregate and reports the latest round', () => {
+    expect(buildTeamStandings(TEAMS, members, answers, ['q1', 'q2'])).toEqual([
+      { teamName: 'Owls', memberCount: 2, roundPoints: 800, score: 1600 },
+      { teamName: 'Foxes', memberCount: 1, roundPoints: 1000, score: 1400 },
+    ]);
+  });
+
+  it('leaves members who skipped a round or joined after it out of the average', () => {
+    const lateJoiner = { playerId: 'p4', teamName: 'Foxes' };
+    const standings = buildTeamStandings(
+      TEAMS,
+      [...members, lateJoiner],
+      [...answers, { playerId: 'p4', questionId: 'q2', pointsEarned: 0 }],
+      ['q1', 'q2']
+    );
+    expect(standings).toEqual([
+      { teamName: 'Owls', memberCount: 2, roundPoints: 800, score: 1600 },
+      { teamName: 'Foxes', memberCount: 2, roundPoints: 500, score: 900 },
+    ]);
+  });
+
+  it('uses the best member when configured', () => {
+    const standings = buildTeamStandings({ ...TEAMS, aggregate: 'best' }, members, answers, ['q1', 'q2']);
+    expect(standings.map((t) => [t.teamName, t.score])).toEqual([['Owls', 1800], ['Foxes', 1400]]);
+  });
+
+  it('only counts the played questions and keeps teams without members', () => {
+    const standings = buildTeamStandings(
+      { names: ['Owls', 'Foxes', 'Bears'], aggregate: 'average' },
+      members,
+      answers,
+      ['q1']
+    );
+    expect(standings).toEqual([
+      { teamName: 'Owls', memberCount: 2, roundPoints: 800, score: 800 },
+      { teamName: 'Foxes', memberCount: 1, roundPoints: 400, score: 400 },
+      { teamName: 'Bears', memberCount: 0, roundPoints: 0, score: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Utility functions for Quick Fire team play
+ *
+ * A team play game stores the teams players choose from when joining and how
+ * a team's round score is built from its members' points. Team standings are
+ * not stored; they are rebuilt from the game's answers whenever a round or
+ * the game ends.
+ */
+
+import { PUB_TRIVIA_TEAMS } from '@/lib/constants/game';
+import type { Json } from '@/types/database.types';
+import type { PubTriviaTeamAggregate, PubTriviaTeamPlay, PubTriviaTeamResult } from '@/types/pub-trivia';
+
+const TEAM_AGGREGATES: readonly PubTriviaTeamAggregate[] = ['average', 'best'];
+
+/** A player's team membership */
+export interface PubTriviaTeamMember {
+  playerId: string;
+  teamName: string;
+}
+
+/** Points a player earned on one question */
+export interface PubTriviaAnswerPoints {
+  playerId: string;
+  questionId: string;
+  pointsEarned: number;
+}
+
+/**
+ * Read a game's team play settings
+ * @param game - Row with the pub_trivia_teams column
+ * @returns The settings, or null for individual play
+ */
+export const getPubTriviaTeamPlay = (game: {
+  pub_trivia_teams?: Json | null;
+}): PubTriviaTeamPlay | null => {
+  const stored = game.pub_trivia_teams;
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return null;
+  }
+
+  const { names, aggregate } = stored as Partial<PubTriviaTeamPlay>;
+  if (!Array.isArray(names) || names.length === 0) {
+    return null;
+  }
+  return { names, aggregate: aggregate ?? 'average' };
+};
+
+/**
+ * Validate team play settings from a request body
+ * @param value - Untrusted pub_trivia_teams; null for individual play
+ * @returns Error message, or null when valid
+ */
+export const validatePubTriviaTeamPlay = (value: unknown): string | null => {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'pub_trivia_teams must be an object';
+  }
+
+  const { names, aggregate } = value as Record<string, unknown>;
+
+  if (
+    !Array.isArray(names) ||
+    names.length < PUB_TRIVIA_TEAMS.MIN_TEAMS ||
+    names.length > PUB_TRIVIA_TEAMS.MAX_TEAMS
+  ) {
+    return `pub_trivia_teams.names must have ${PUB_TRIVIA_TEAMS.MIN_TEAMS}-${PUB_TRIVIA_TEAMS.MAX_TEAMS} teams`;
+  }
+
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'pub_trivia_teams.names must not be empty';
+    }
+    if (name.trim().length > PUB_TRIVIA_TEAMS.MAX_NAME_LENGTH) {
+      return `pub_trivia_teams.names must not exceed ${PUB_TRIVIA_TEAMS.MAX_NAME_LENGTH} characters`;
+    }
+    const key = name.trim().toLowerCase();
+    if (seen.has(key)) {
+      return 'pub_trivia_teams.names must be unique';
+    }
+    seen.add(key);
+  }
+
+  if (!TEAM_AGGREGATES.includes(aggregate as PubTriviaTeamAggregate)) {
+    return `pub_trivia_teams.aggregate must be one of: ${TEAM_AGGREGATES.join(', ')}`;
+  }
+
+  return null;
+};
+
+/**
+ * Build the settings to store from validated input
+ * @param value - Settings that passed validatePubTriviaTeamPlay
+ * @returns The settings with trimmed names and only known fields
+ */
+export const normalizePubTriviaTeamPlay = (value: PubTriviaTeamPlay): PubTriviaTeamPlay => ({
+  names: value.names.map((name) => name.trim()),
+  aggregate: value.aggregate,
+});
+
+/**
+ * Match a joining player's choice to one of the game's teams
+ * @param teamPlay - The game's team play settings
+ * @param teamName - Untrusted team name from the join request
+ * @returns The team's name as the teacher wrote it, or null when it is not one of the game's teams
+ */
+export const findPubTriviaTeam = (teamPlay: PubTriviaTeamPlay, teamName: unknown): string | null => {
+  if (typeof teamName !== 'string') {
+    return null;
+  }
+  const key = teamName.trim().toLowerCase();
+  return teamPlay.names.find((name) => name.toLowerCase() === key) ?? null;
+};
+
+/**
+ * Combine a team's points for one round
+ * @param memberPoints - Points of each member who answered this round
+ * @param aggregate - How the team's score is built
+ * @returns The team's round score; 0 when no member answered
+ */
+export const calcTeamRoundPoints = (
+  memberPoints: readonly number[],
+  aggregate: PubTriviaTeamAggregate
+): number => {
+  if (memberPoints.length === 0) {
+    return 0;
+  }
+  if (aggregate === 'best') {
+    return Math.max(...memberPoints);
+  }
+  return Math.round(memberPoints.reduce((sum, points) => sum + points, 0) / memberPoints.length);
+};
+
+/**
+ * Rebuild the team standings from the game's answers
+ * @param teamPlay - The game's team play settings
+ * @param members - Players and the team each joined
+ * @param answers - Points earned on the played questions
+ * @param playedQuestionIds - Questions played so far in game order, ending with the latest
+ * @returns Every team, highest score first (ties keep the teacher's order), with its points for the latest question
+ */
+export const buildTeamStandings = (
+  teamPlay: PubTriviaTeamPlay,
+  members: readonly PubTriviaTeamMember[],
+  answers: readonly PubTriviaAnswerPoints[],
+  playedQuestionIds: readonly string[]
+): PubTriviaTeamResult[] => {
+  const pointsByAnswer = new Map(
+    answers.map((answer) => [`${answer.questionId}:${answer.playerId}`, answer.pointsEarned])
+  );
+  const latestQuestionId = playedQuestionIds[playedQuestionIds.length - 1];
+
+  const standings = teamPlay.names.map((teamName) => {
+    const teamMembers = members.filter((member) => member.teamName === teamName);
+    let score = 0;
+    let roundPoints = 0;
+
+    for (const questionId of playedQuestionIds) {
+      // Members who skipped the question or joined after it do not count
+      const memberPoints = teamMembers.flatMap((member) => {
+        const points = pointsByAnswer.get(`${questionId}:${member.playerId}`);
+        return points === undefined ? [] : [points];
+      });
+      const points = calcTeamRoundPoints(memberPoints, teamPlay.aggregate);
+      score += points;
+      if (questionId === latestQuestionId) {
+        roundPoints = points;
+      }
+    }
+
+    return { teamName, memberCount: teamMembers.length, roundPoints, score };
+  });
+
+  // Array.prototype.sort is stable, so tied teams keep the teacher's order
+  return standings.sort((a, b) => b.score - a.score);
+};
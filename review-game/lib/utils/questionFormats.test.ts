@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getOrderingItems,
+  getQuestionFormat,
+  isQuickFireReady,
+  ORDERING_SEPARATOR,
+  scoreFormatAnswer,
+  scoreNumericAnswers,
+  validateQuestionFormat,
+} from './questionFormats';
+
+const PLANETS = ['Mercury', 'Venus', 'Earth', 'Mars'];
+
+describe('getQuestionFormat / getOrderingItems', () => {
+  it('defaults to multiple choice', () => {
+    expect(getQuestionFormat({})).toBe('multiple_choice');
+    expect(getQuestionFormat({ question_format: 'essay' })).toBe('multiple_choice');
+    expect(getQuestionFormat({ question_format: 'numeric' })).toBe('numeric');
+  });
+
+  it('reads ordering items', () => {
+    expect(getOrderingItems({ ordering_items: PLANETS })).toEqual(PLANETS);
+    expect(getOrderingItems({ ordering_items: null })).toEqual([]);
+  });
+});
+
+describe('isQuickFireReady', () => {
+  it('needs wrong answers for multiple choice', () => {
+    expect(isQuickFireReady({ answer_text: 'Paris', mc_options: null })).toBe(false);
+    expect(isQuickFireReady({ answer_text: 'Paris', mc_options: ['Rome', 'Oslo', 'Bern'] })).toBe(true);
+  });
+
+  it('checks the answer of true/false and numeric questions', () => {
+    expect(isQuickFireReady({ question_format: 'true_false', answer_text: 'false' })).toBe(true);
+    expect(isQuickFireReady({ question_format: 'true_false', answer_text: 'Maybe' })).toBe(false);
+    expect(isQuickFireReady({ question_format: 'numeric', answer_text: '1,969' })).toBe(true);
+    expect(isQuickFireReady({ question_format: 'numeric', answer_text: 'the moon' })).toBe(false);
+  });
+
+  it('needs items for ordering', () => {
+    expect(isQuickFireReady({ question_format: 'ordering', answer_text: '', ordering_items: PLANETS })).toBe(true);
+    expect(isQuickFireReady({ question_format: 'ordering', answer_text: '', ordering_items: null })).toBe(false);
+  });
+});
+
+describe('validateQuestionFormat', () => {
+  const base = { answer_text: 'Paris', numeric_tolerance: null, ordering_items: null };
+
+  it('accepts each format with its settings', () => {
+    expect(validateQuestionFormat({ ...base, question_format: 'multiple_choice' })).toBeNull();
+    expect(validateQuestionFormat({ ...base, question_format: 'true_false', answer_text: 'True' })).toBeNull();
+    expect(validateQuestionFormat({ ...base, question_format: 'numeric', answer_text: '42', numeric_tolerance: 2 })).toBeNull();
+    expect(validateQuestionFormat({ ...base, question_format: 'ordering', ordering_items: PLANETS })).toBeNull();
+  });
+
+  it('rejects unknown formats and answers that do not fit', () => {
+    expect(validateQuestionFormat({ ...base, question_format: 'essay' })).toMatch(/question_format/);
+    expect(validateQuestionFormat({ ...base, question_format: 'true_false' })).toMatch(/True" or "False/);
+    expect(validateQuestionFormat({ ...base, question_format: 'numeric' })).toMatch(/number as the answer/);
+    expect(
+      validateQuestionFormat({ ...base, question_format: 'numeric', answer_text: '42', numeric_tolerance: -1 })
+    ).toMatch(/at least 0/);
+  });
+
+  it('rejects bad ordering items', () => {
+    const ordering = { ...base, question_format: 'ordering' };
+    expect(validateQuestionFormat({ ...ordering, ordering_items: ['a', 'b'] })).toMatch(/3-6 items/);
+    expect(validateQuestionFormat({ ...ordering, ordering_items: ['a', 'b', ' '] })).toMatch(/non-empty/);
+    expect(validateQuestionFormat({ ...ordering, ordering_items: ['a', 'b', 'x'.repeat(46)] })).toMatch(/45 characters/);
+    expect(validateQuestionFormat({ ...ordering, ordering_items: ['a', 'b', 'A '] })).toMatch(/distinct/);
+    expect(validateQuestionFormat({ ...ordering, ordering_items: ['a', 'b', 'c → d'] })).toMatch(/must not contain/);
+  });
+});
+
+describe('scoreFormatAnswer', () => {
+  it('matches multiple choice and true/false answers', () => {
+    expect(scoreFormatAnswer({ answer_text: 'Paris' }, ' paris ')).toEqual({ isCorrect: true, credit: 1 });
+    expect(scoreFormatAnswer({ question_format: 'true_false', answer_text: 'True' }, 'False')).toEqual({
+      isCorrect: false,
+      credit: 0,
+    });
+  });
+
+  it('gives ordering credit for each item in place', () => {
+    const question = { question_format: 'ordering', answer_text: PLANETS.join(', '), ordering_items: PLANETS };
+    expect(scoreFormatAnswer(question, PLANETS.join(ORDERING_SEPARATOR))).toEqual({ isCorrect: true, credit: 1 });
+    expect(scoreFormatAnswer(question, ['Mercury', 'Venus', 'Mars', 'Earth'].join(ORDERING_SEPARATOR))).toEqual({
+      isCorrect: false,
+      credit: 0.5,
+    });
+    expect(scoreFormatAnswer(question, ['Mercury', 'Venus', 'Earth'].join(ORDERING_SEPARATOR))).toEqual({
+      isCorrect: false,
+      credit: 0,
+    });
+  });
+});
+
+describe('scoreNumericAnswers', () => {
+  const FULL = { isCorrect: true, credit: 1 };
+  const NONE = { isCorrect: false, credit: 0 };
+
+  it('gives the closest answer full credit even without a tolerance', () => {
+    const question = { question_format: 'numeric', answer_text: '1969', numeric_tolerance: null };
+    expect(scoreNumericAnswers(question, ['1,965', '1975', '1950'])).toEqual([FULL, NONE, NONE]);
+  });
+
+  it('shares full credit between answers equally close', () => {
+    const question = { question_format: 'numeric', answer_text: '100', numeric_tolerance: 0 };
+    expect(scoreNumericAnswers(question, ['98', '102', '90'])).toEqual([FULL, FULL, NONE]);
+  });
+
+  it('gives runners-up within the tolerance part of the points', () => {
+    const question = { question_format: 'numeric', answer_text: '100', numeric_tolerance: 10 };
+    expect(scoreNumericAnswers(question, ['100', '95', '110', '111'])).toEqual([
+      FULL,
+      { isCorrect: false, credit: 0.75 },
+      { isCorrect: false, credit: 0.5 },
+      NONE,
+    ]);
+  });
+
+  it('rewards a close answer when nobody is exact', () => {
+    const question = { question_format: 'numeric', answer_text: '100', numeric_tolerance: 10 };
+    expect(scoreNumericAnswers(question, ['104', '96', '108'])).toEqual([
+      FULL,
+      FULL,
+      { isCorrect: false, credit: 0.6 },
+    ]);
+  });
+
+  it('ignores answers that are not numbers', () => {
+    const question = { question_format: 'numeric', answer_text: '42', numeric_tolerance: 0 };
+    expect(scoreNumericAnswers(question, ['lots', '40'])).toEqual([NONE, FULL]);
+    expect(scoreNumericAnswers(question, [])).toEqual([]);
+  });
+});
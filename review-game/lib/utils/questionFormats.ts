@@ -0,0 +1,203 @@
+/**
+ * Utility functions for question formats
+ *
+ * Every question keeps question_text and answer_text, so Jeopardy plays any
+ * format as a written clue. The format (questions.question_format) only
+ * changes how Quick Fire asks and scores it:
+ * - multiple_choice: answer_text among the 3 wrong answers in mc_options
+ * - true_false: answer_text is "True" or "False"
+ * - numeric: answer_text is a number; when the round ends the closest answer
+ *   wins full points and other answers within numeric_tolerance score part
+ * - ordering: ordering_items holds the items in order; each item a player
+ *   puts in the right place earns a share of the points
+ */
+
+import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import type { Json } from '@/types/database.types';
+import type { QuestionFormat } from '@/types/question-bank.types';
+import { parseNumericAnswer } from './answerMatcher';
+
+/** Options of a true/false question, in the order players see them */
+export const TRUE_FALSE_OPTIONS = ['True', 'False'] as const;
+
+/** Joins a player's ordering into a single answer text */
+export const ORDERING_SEPARATOR = ' → ';
+
+/** Share of the points earned by a runner-up numeric answer at the edge of the tolerance */
+const NUMERIC_EDGE_CREDIT = 0.5;
+
+/** The question columns that describe its format */
+export interface QuestionFormatFields {
+  question_format?: string | null;
+  answer_text: string;
+  mc_options?: Json | null;
+  numeric_tolerance?: number | null;
+  ordering_items?: Json | null;
+}
+
+/** How an answer scored: partial credit is only possible for numeric and ordering questions */
+export interface FormatAnswerScore {
+  isCorrect: boolean;
+  /** Share of the answer's points earned (0–1) */
+  credit: number;
+}
+
+/**
+ * Read a question's format
+ * @param question - Row with the question_format column
+ * @returns The format; multiple_choice for unknown values
+ */
+export const getQuestionFormat = (question: { question_format?: string | null }): QuestionFormat =>
+  (QUESTION_VALIDATION.FORMATS as readonly string[]).includes(question.question_format ?? '')
+    ? (question.question_format as QuestionFormat)
+    : 'multiple_choice';
+
+/**
+ * Read an ordering question's items
+ * @param question - Row with the ordering_items column
+ * @returns The items in their correct order; empty when there are none
+ */
+export const getOrderingItems = (question: { ordering_items?: Json | null }): string[] =>
+  Array.isArray(question.ordering_items)
+    ? question.ordering_items.filter((item): item is string => typeof item === 'string')
+    : [];
+
+/**
+ * Whether Quick Fire can ask a question in its format
+ * @param question - The question's format columns
+ * @returns True when the format has everything it needs
+ */
+export const isQuickFireReady = (question: QuestionFormatFields): boolean => {
+  switch (getQuestionFormat(question)) {
+    case 'true_false':
+      return TRUE_FALSE_OPTIONS.some((option) => option.toLowerCase() === question.answer_text.trim().toLowerCase());
+    case 'numeric':
+      return parseNumericAnswer(question.answer_text) !== null;
+    case 'ordering':
+      return getOrderingItems(question).length >= QUESTION_VALIDATION.ORDERING_ITEMS_MIN_COUNT;
+    default:
+      return Array.isArray(question.mc_options) && question.mc_options.length > 0;
+  }
+};
+
+/**
+ * Validate a question's format settings from a request body
+ * @param fields - Untrusted format fields; on update, merged with the stored question
+ * @returns Error message, or null when valid
+ */
+export const validateQuestionFormat = (fields: {
+  question_format: unknown;
+  answer_text: string;
+  numeric_tolerance: unknown;
+  ordering_items: unknown;
+}): string | null => {
+  const { question_format: format, answer_text: answerText } = fields;
+
+  if (typeof format !== 'string' || !(QUESTION_VALIDATION.FORMATS as readonly string[]).includes(format)) {
+    return `question_format must be one of: ${QUESTION_VALIDATION.FORMATS.join(', ')}`;
+  }
+
+  if (format === 'true_false') {
+    const answer = answerText.trim().toLowerCase();
+    if (!TRUE_FALSE_OPTIONS.some((option) => option.toLowerCase() === answer)) {
+      return 'True/false questions need "True" or "False" as the answer';
+    }
+  }
+
+  if (format === 'numeric') {
+    if (parseNumericAnswer(answerText) === null) {
+      return 'Numeric questions need a number as the answer';
+    }
+    const tolerance = fields.numeric_tolerance;
+    if (tolerance !== undefined && tolerance !== null) {
+      if (typeof tolerance !== 'number' || !Number.isFinite(tolerance) || tolerance < 0) {
+        return 'numeric_tolerance must be a number of at least 0';
+      }
+    }
+  }
+
+  if (format === 'ordering') {
+    const items = fields.ordering_items;
+    const { ORDERING_ITEMS_MIN_COUNT: min, ORDERING_ITEMS_MAX_COUNT: max, ORDERING_ITEM_MAX_LENGTH: maxLength } =
+      QUESTION_VALIDATION;
+    if (!Array.isArray(items) || items.length < min || items.length > max) {
+      return `Ordering questions need ${min}-${max} items`;
+    }
+    for (const item of items) {
+      if (typeof item !== 'string' || item.trim().length === 0) {
+        return 'Each ordering item must be a non-empty string';
+      }
+      if (item.trim().length > maxLength) {
+        return `Each ordering item must not exceed ${maxLength} characters`;
+      }
+      if (item.includes(ORDERING_SEPARATOR.trim())) {
+        return `Ordering items must not contain "${ORDERING_SEPARATOR.trim()}"`;
+      }
+    }
+    const unique = new Set(items.map((item: string) => item.trim().toLowerCase()));
+    if (unique.size !== items.length) {
+      return 'Ordering items must all be distinct';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Score a Quick Fire answer on its own when it is submitted
+ *
+ * Not for numeric questions: their answers are ranked against each other
+ * with scoreNumericAnswers once the round ends.
+ * @param question - The question's format columns
+ * @param answerText - The player's answer; an ordering joined with ORDERING_SEPARATOR
+ * @returns Whether the answer is correct and the share of the points it earns
+ */
+export const scoreFormatAnswer = (question: QuestionFormatFields, answerText: string): FormatAnswerScore => {
+  if (getQuestionFormat(question) === 'ordering') {
+    const items = getOrderingItems(question).map((item) => item.trim().toLowerCase());
+    const submitted = answerText.split(ORDERING_SEPARATOR.trim()).map((item) => item.trim().toLowerCase());
+    // Anything but a rearrangement of the items earns nothing
+    if (submitted.length !== items.length || [...submitted].sort().join('\n') !== [...items].sort().join('\n')) {
+      return { isCorrect: false, credit: 0 };
+    }
+    const inPlace = submitted.filter((item, i) => item === items[i]).length;
+    return { isCorrect: inPlace === items.length, credit: inPlace / items.length };
+  }
+
+  const isCorrect = answerText.trim().toLowerCase() === question.answer_text.trim().toLowerCase();
+  return { isCorrect, credit: isCorrect ? 1 : 0 };
+};
+
+/**
+ * Rank a numeric round's answers against each other
+ *
+ * The answers closest to the correct number are correct and earn full points,
+ * however far off they are. The other answers within numeric_tolerance of the
+ * number earn part, falling to NUMERIC_EDGE_CREDIT at the edge of the band.
+ * @param question - The question's format columns
+ * @param answerTexts - Every player's answer to the round
+ * @returns One score per answer, in the same order
+ */
+export const scoreNumericAnswers = (question: QuestionFormatFields, answerTexts: string[]): FormatAnswerScore[] => {
+  const correct = parseNumericAnswer(question.answer_text);
+  const distances = answerTexts.map((answerText) => {
+    const answer = parseNumericAnswer(answerText);
+    return answer === null || correct === null ? null : Math.abs(answer - correct);
+  });
+  const valid = distances.filter((distance): distance is number => distance !== null);
+  const closest = valid.length > 0 ? Math.min(...valid) : null;
+  const tolerance = question.numeric_tolerance ?? 0;
+
+  return distances.map((distance) => {
+    if (distance === null) {
+      return { isCorrect: false, credit: 0 };
+    }
+    if (distance === closest) {
+      return { isCorrect: true, credit: 1 };
+    }
+    if (distance > tolerance) {
+      return { isCorrect: false, credit: 0 };
+    }
+    return { isCorrect: false, credit: 1 - ((1 - NUMERIC_EDGE_CREDIT) * distance) / tolerance };
+  });
+};
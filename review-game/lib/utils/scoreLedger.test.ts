@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { ScoreEvent } from '@/types/game';
+import { findUndoTarget, findRedoTarget, formatScoreDelta } from './scoreLedger';
+
+const event = (id: string, createdAt: string, overrides: Partial<ScoreEvent> = {}): ScoreEvent => ({
+  id,
+  teamId: 'team-1',
+  questionId: null,
+  delta: 200,
+  reason: 'correct',
+  note: null,
+  createdAt,
+  undoneAt: null,
+  ...overrides,
+});
+
+describe('findUndoTarget', () => {
+  it('returns null for an empty ledger', () => {
+    expect(findUndoTarget([])).toBeNull();
+  });
+
+  it('returns the most recent change regardless of order', () => {
+    const events = [
+      event('b', '2026-10-21T10:00:02.000Z'),
+      event('c', '2026-10-21T10:00:03.000Z'),
+      event('a', '2026-10-21T10:00:01.000Z'),
+    ];
+    expect(findUndoTarget(events)?.id).toBe('c');
+  });
+
+  it('skips changes that are already undone', () => {
+    const events = [
+      event('a', '2026-10-21T10:00:01.000Z'),
+      event('b', '2026-10-21T10:00:02.000Z', { undoneAt: '2026-10-21T10:00:05.000Z' }),
+    ];
+    expect(findUndoTarget(events)?.id).toBe('a');
+  });
+
+  it('does not undo past a score reset', () => {
+    const events = [
+      event('a', '2026-10-21T10:00:01.000Z'),
+      event('b', '2026-10-21T10:00:02.000Z', { reason: 'reset', delta: -200 }),
+    ];
+    expect(findUndoTarget(events)).toBeNull();
+  });
+});
+
+describe('findRedoTarget', () => {
+  it('returns null when nothing is undone', () => {
+    expect(findRedoTarget([event('a', '2026-10-21T10:00:01.000Z')])).toBeNull();
+  });
+
+  it('returns the most recently undone change', () => {
+    const events = [
+      event('a', '2026-10-21T10:00:01.000Z', { undoneAt: '2026-10-21T10:00:06.000Z' }),
+      event('b', '2026-10-21T10:00:02.000Z', { undoneAt: '2026-10-21T10:00:05.000Z' }),
+    ];
+    expect(findRedoTarget(events)?.id).toBe('a');
+  });
+
+  it('clears redo once a new change is recorded', () => {
+    const events = [
+      event('a', '2026-10-21T10:00:01.000Z', { undoneAt: '2026-10-21T10:00:05.000Z' }),
+      event('b', '2026-10-21T10:00:06.000Z'),
+    ];
+    expect(findRedoTarget(events)).toBeNull();
+  });
+});
+
+describe('formatScoreDelta', () => {
+  it('prefixes gains with a plus sign', () => {
+    expect(formatScoreDelta(200)).toBe('+200');
+  });
+
+  it('keeps the minus sign on losses', () => {
+    expect(formatScoreDelta(-400)).toBe('-400');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for the score event ledger
+ *
+ * Undo reverts the most recent change that is not undone; redo re-applies the
+ * most recently undone change until a new change is recorded. The database
+ * functions undo_score_event / redo_score_event apply the same rules; these
+ * helpers let the teacher page enable its controls without a round trip.
+ */
+
+import type { ScoreEvent } from '@/types/game';
+
+/**
+ * Find the event undo would revert
+ * @param events - Ledger events for one game, in any order
+ * @returns The event, or null when there is nothing to undo (or the last change was a reset)
+ */
+export const findUndoTarget = (events: ScoreEvent[]): ScoreEvent | null => {
+  let latest: ScoreEvent | null = null;
+
+  for (const event of events) {
+    if (event.undoneAt !== null) continue;
+    if (!latest || event.createdAt > latest.createdAt) {
+      latest = event;
+    }
+  }
+
+  return latest && latest.reason !== 'reset' ? latest : null;
+};
+
+/**
+ * Find the event redo would re-apply
+ * @param events - Ledger events for one game, in any order
+ * @returns The event, or null when nothing is undone or a change was recorded since
+ */
+export const findRedoTarget = (events: ScoreEvent[]): ScoreEvent | null => {
+  let lastUndone: ScoreEvent | null = null;
+  let latestCreatedAt = '';
+
+  for (const event of events) {
+    if (event.createdAt > latestCreatedAt) {
+      latestCreatedAt = event.createdAt;
+    }
+    if (event.undoneAt !== null && (!lastUndone || event.undoneAt > (lastUndone.undoneAt as string))) {
+      lastUndone = event;
+    }
+  }
+
+  if (!lastUndone || (lastUndone.undoneAt as string) < latestCreatedAt) {
+    return null;
+  }
+
+  return lastUndone;
+};
+
+/**
+ * Format a score change for display
+ * @param delta - Points added (positive) or removed (negative)
+ * @returns Display string, e.g. "+200" or "-400"
+ */
+export const formatScoreDelta = (delta: number): string => {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+};
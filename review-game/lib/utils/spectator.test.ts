@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSpectatorClue,
+  buildSpectatorFinalJeopardy,
+  isClueRead,
+  toSpectatorCategories,
+  type SpectatorClueState,
+} from './spectator';
+import type { Question } from '@/types/game';
+
+const question: Question = {
+  id: 'q1',
+  value: 400,
+  text: 'This planet is known as the Red Planet',
+  isUsed: false,
+  isDailyDouble: false,
+  categoryName: 'Space',
+  answer: 'What is Mars?',
+  imageUrl: 'https://example.com/mars.png',
+  imageAltText: 'Mars',
+  hint: 'Fourth from the Sun',
+};
+
+const unread: SpectatorClueState = {
+  buzzersArmed: false,
+  allPlayStarted: false,
+  dailyDoubleWagered: false,
+  answerRevealed: false,
+  hintRevealed: false,
+};
+
+describe('toSpectatorCategories', () => {
+  it('drops clue text, answers and Daily Double flags', () => {
+    const categories = toSpectatorCategories([
+      { id: 'space', name: 'Space', questions: [{ ...question, isDailyDouble: true }] },
+    ]);
+
+    expect(categories).toEqual([
+      { id: 'space', name: 'Space', questions: [{ id: 'q1', value: 400, isUsed: false }] },
+    ]);
+  });
+});
+
+describe('isClueRead', () => {
+  it('waits for buzzers to be armed or all-play to start', () => {
+    expect(isClueRead(question, unread)).toBe(false);
+    expect(isClueRead(question, { ...unread, buzzersArmed: true })).toBe(true);
+    expect(isClueRead(question, { ...unread, allPlayStarted: true })).toBe(true);
+  });
+
+  it('waits for the wager on a Daily Double', () => {
+    const dailyDouble = { ...question, isDailyDouble: true };
+    expect(isClueRead(dailyDouble, { ...unread, buzzersArmed: true })).toBe(false);
+    expect(isClueRead(dailyDouble, { ...unread, dailyDoubleWagered: true })).toBe(true);
+  });
+
+  it('is read once the answer is revealed', () => {
+    expect(isClueRead(question, { ...unread, answerRevealed: true })).toBe(true);
+  });
+});
+
+describe('buildSpectatorClue', () => {
+  it('hides the text and answer while the clue is being read', () => {
+    const clue = buildSpectatorClue(question, unread);
+
+    expect(clue).toMatchObject({ questionId: 'q1', categoryName: 'Space', value: 400 });
+    expect(clue.text).toBeNull();
+    expect(clue.imageUrl).toBeNull();
+    expect(clue.answer).toBeNull();
+  });
+
+  it('shows the text once read and the answer once revealed', () => {
+    expect(buildSpectatorClue(question, { ...unread, buzzersArmed: true })).toMatchObject({
+      text: question.text,
+      imageUrl: question.imageUrl,
+      answer: null,
+    });
+    expect(buildSpectatorClue(question, { ...unread, answerRevealed: true }).answer).toBe('What is Mars?');
+  });
+
+  it('shows the hint only once revealed', () => {
+    expect(buildSpectatorClue(question, unread).hint).toBeNull();
+    expect(buildSpectatorClue(question, { ...unread, hintRevealed: true }).hint).toBe('Fourth from the Sun');
+  });
+});
+
+describe('buildSpectatorFinalJeopardy', () => {
+  const finalJeopardy = { category: 'History', question: 'First US president', answer: 'Who is Washington?' };
+
+  it('shows only the category before the question is revealed', () => {
+    expect(buildSpectatorFinalJeopardy(finalJeopardy, false, [])).toEqual({
+      category: 'History',
+      question: null,
+      answer: null,
+      reveals: [],
+    });
+  });
+
+  it('shows the answer once a team is revealed', () => {
+    const reveal = { teamId: 't1', wager: 500, answer: 'Washington', isCorrect: true };
+    const result = buildSpectatorFinalJeopardy(finalJeopardy, true, [reveal]);
+
+    expect(result.question).toBe('First US president');
+    expect(result.answer).toBe('Who is Washington?');
+    expect(result.reveals).toEqual([reveal]);
+  });
+});
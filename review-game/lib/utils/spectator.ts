@@ -0,0 +1,103 @@
+/**
+ * Utility functions for the read-only spectator view
+ *
+ * Spectators see what the room sees: the board without clue text, a clue
+ * once the teacher has read it, answers once revealed and Final Jeopardy
+ * results as they are revealed. Nothing is sent to a spectator screen before
+ * the room sees it.
+ */
+
+import type {
+  Category,
+  FinalJeopardyQuestion,
+  Question,
+  SpectatorCategory,
+  SpectatorClue,
+  SpectatorFinalJeopardy,
+  SpectatorFinalJeopardyReveal,
+} from '@/types/game';
+
+/**
+ * Live state of the open clue, from the games row
+ */
+export interface SpectatorClueState {
+  // games.buzzers_armed_question_id matches the clue
+  buzzersArmed: boolean;
+  // games.all_play_question_id matches the clue
+  allPlayStarted: boolean;
+  // games.daily_double_wager is set
+  dailyDoubleWagered: boolean;
+  answerRevealed: boolean;
+  // games.hint_revealed
+  hintRevealed: boolean;
+}
+
+/**
+ * Strip a board down to what spectators may see
+ * Daily Double cells are not marked, so the board does not give them away.
+ * @param categories - Board built by buildRoundCategories
+ */
+export const toSpectatorCategories = (categories: Category[]): SpectatorCategory[] =>
+  categories.map((category) => ({
+    id: category.id,
+    name: category.name,
+    questions: category.questions.map((q) => ({
+      id: q.id,
+      value: q.value,
+      isUsed: q.isUsed,
+    })),
+  }));
+
+/**
+ * Whether the teacher has finished reading the open clue
+ * Buzzer clues are read before buzzers are armed, all-play clues before
+ * submissions open, and Daily Doubles after the wager is locked in.
+ * @param question - The open clue
+ * @param state - Live state of the clue
+ */
+export const isClueRead = (question: Question, state: SpectatorClueState): boolean => {
+  if (state.answerRevealed) return true;
+  if (question.isDailyDouble) return state.dailyDoubleWagered;
+  return state.buzzersArmed || state.allPlayStarted;
+};
+
+/**
+ * Build the open clue for spectators
+ * @param question - The open clue, with text and answer
+ * @param state - Live state of the clue
+ * @returns The clue with text hidden until read, answer and hint hidden until revealed
+ */
+export const buildSpectatorClue = (question: Question, state: SpectatorClueState): SpectatorClue => {
+  const read = isClueRead(question, state);
+
+  return {
+    questionId: question.id,
+    categoryName: question.categoryName ?? '',
+    value: question.value,
+    isDailyDouble: question.isDailyDouble ?? false,
+    text: read ? question.text : null,
+    imageUrl: read ? question.imageUrl ?? null : null,
+    imageAltText: read ? question.imageAltText ?? null : null,
+    answer: state.answerRevealed ? question.answer ?? null : null,
+    hint: state.hintRevealed ? question.hint ?? null : null,
+  };
+};
+
+/**
+ * Build Final Jeopardy for spectators
+ * @param question - games.final_jeopardy_question
+ * @param questionRevealed - games.final_jeopardy_question_revealed
+ * @param reveals - Teams whose answers the teacher has revealed
+ * @returns The category, plus the question once revealed and the correct
+ *   answer once the first team's answer is revealed
+ */
+export const buildSpectatorFinalJeopardy = (
+  question: FinalJeopardyQuestion,
+  questionRevealed: boolean,
+  reveals: SpectatorFinalJeopardyReveal[]
+): SpectatorFinalJeopardy => ({
+  category: question.category,
+  question: questionRevealed ? question.question : null,
+  answer: reveals.length > 0 ? question.answer : null,
+  reveals,
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_STEAL_RULES,
+  getStealRules,
+  getNextStealTurn,
+  validateStealRules,
+} from './stealRules';
+
+const QUEUE = [
+  { teamId: 'team-b', timestamp: 1000 },
+  { teamId: 'team-c', timestamp: 1200 },
+];
+
+describe('getStealRules', () => {
+  it('falls back to the defaults', () => {
+    expect(getStealRules({})).toEqual(DEFAULT_STEAL_RULES);
+  });
+
+  it('reads the stored rules', () => {
+    expect(getStealRules({
+      steal_enabled: false,
+      deduct_incorrect: false,
+      steal_restarts_timer: true,
+      max_answer_attempts: 3,
+    })).toEqual({ allowSteals: false, deductIncorrect: false, restartTimerOnSteal: true, maxAttempts: 3 });
+  });
+});
+
+describe('getNextStealTurn', () => {
+  it('passes the clue to the next team in the queue', () => {
+    expect(getNextStealTurn(DEFAULT_STEAL_RULES, 'q1', ['team-a'], QUEUE))
+      .toEqual({ questionId: 'q1', answeredTeamIds: ['team-a'], teamId: 'team-b', closed: false });
+  });
+
+  it('waits for a steal buzz when nobody else is queued', () => {
+    expect(getNextStealTurn(DEFAULT_STEAL_RULES, 'q1', ['team-a'], [])).toMatchObject({ teamId: null, closed: false });
+  });
+
+  it('closes the clue when steals are off', () => {
+    const rules = { ...DEFAULT_STEAL_RULES, allowSteals: false };
+    expect(getNextStealTurn(rules, 'q1', ['team-a'], QUEUE)).toMatchObject({ teamId: null, closed: true });
+  });
+
+  it('closes the clue once the attempt limit is reached', () => {
+    const rules = { ...DEFAULT_STEAL_RULES, maxAttempts: 2 };
+    expect(getNextStealTurn(rules, 'q1', ['team-a'], QUEUE).closed).toBe(false);
+    expect(getNextStealTurn(rules, 'q1', ['team-a', 'team-b'], QUEUE.slice(1))).toMatchObject({ teamId: null, closed: true });
+  });
+});
+
+describe('validateStealRules', () => {
+  it('accepts valid and absent fields', () => {
+    expect(validateStealRules({})).toBeNull();
+    expect(validateStealRules({ steal_enabled: false, max_answer_attempts: null })).toBeNull();
+    expect(validateStealRules({ deduct_incorrect: true, max_answer_attempts: 10 })).toBeNull();
+  });
+
+  it('rejects non-boolean flags', () => {
+    expect(validateStealRules({ steal_restarts_timer: 'yes' })).toMatch(/steal_restarts_timer/);
+  });
+
+  it('rejects attempt limits outside 2-10', () => {
+    expect(validateStealRules({ max_answer_attempts: 1 })).toMatch(/between 2 and 10/);
+    expect(validateStealRules({ max_answer_attempts: 11 })).toMatch(/between 2 and 10/);
+    expect(validateStealRules({ max_answer_attempts: 2.5 })).toMatch(/between 2 and 10/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Utility functions for steal rules on buzzer clues
+ *
+ * After an incorrect answer the clue either passes to the next team in the
+ * buzz queue (a steal) or closes, depending on the game's rules and how many
+ * answers the clue has already had.
+ */
+
+import { STEAL_RULES } from '@/lib/constants/game';
+import type { BuzzEntry, StealRules, StealTurn } from '@/types/game';
+
+/**
+ * Rules of games created before steal rules existed
+ */
+export const DEFAULT_STEAL_RULES: StealRules = {
+  allowSteals: true,
+  deductIncorrect: true,
+  restartTimerOnSteal: false,
+  maxAttempts: null,
+};
+
+/**
+ * Read a game's steal rules, falling back to the defaults
+ * @param game - Row with the steal rule columns
+ * @returns The game's rules
+ */
+export const getStealRules = (game: {
+  steal_enabled?: boolean | null;
+  deduct_incorrect?: boolean | null;
+  steal_restarts_timer?: boolean | null;
+  max_answer_attempts?: number | null;
+}): StealRules => {
+  return {
+    allowSteals: game.steal_enabled ?? DEFAULT_STEAL_RULES.allowSteals,
+    deductIncorrect: game.deduct_incorrect ?? DEFAULT_STEAL_RULES.deductIncorrect,
+    restartTimerOnSteal: game.steal_restarts_timer ?? DEFAULT_STEAL_RULES.restartTimerOnSteal,
+    maxAttempts: game.max_answer_attempts ?? DEFAULT_STEAL_RULES.maxAttempts,
+  };
+};
+
+/**
+ * Decide who answers next after an incorrect answer
+ * @param rules - The game's steal rules
+ * @param questionId - The open clue
+ * @param answeredTeamIds - Teams that answered the clue incorrectly, including the one just now
+ * @param remainingQueue - Buzz queue without the team that just answered
+ * @returns The clue's steal state; closed when no further answers are allowed
+ */
+export const getNextStealTurn = (
+  rules: StealRules,
+  questionId: string,
+  answeredTeamIds: string[],
+  remainingQueue: readonly BuzzEntry[]
+): StealTurn => {
+  const closed = !rules.allowSteals ||
+    (rules.maxAttempts !== null && answeredTeamIds.length >= rules.maxAttempts);
+
+  return {
+    questionId,
+    answeredTeamIds,
+    teamId: closed ? null : remainingQueue[0]?.teamId ?? null,
+    closed,
+  };
+};
+
+/**
+ * Validate steal rule fields from a request body; absent fields are skipped
+ * @param body - Untrusted request body
+ * @returns Error message, or null when valid
+ */
+export const validateStealRules = (body: {
+  steal_enabled?: unknown;
+  deduct_incorrect?: unknown;
+  steal_restarts_timer?: unknown;
+  max_answer_attempts?: unknown;
+}): string | null => {
+  for (const field of ['steal_enabled', 'deduct_incorrect', 'steal_restarts_timer'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return `${field} must be a boolean`;
+    }
+  }
+
+  const maxAttempts = body.max_answer_attempts;
+  if (
+    maxAttempts !== undefined && maxAttempts !== null &&
+    (typeof maxAttempts !== 'number' || !Number.isInteger(maxAttempts) ||
+      maxAttempts < STEAL_RULES.MIN_ATTEMPTS || maxAttempts > STEAL_RULES.MAX_ATTEMPTS)
+  ) {
+    return `max_answer_attempts must be null or an integer between ${STEAL_RULES.MIN_ATTEMPTS} and ${STEAL_RULES.MAX_ATTEMPTS}`;
+  }
+
+  return null;
+};
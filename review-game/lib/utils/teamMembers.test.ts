@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { generateRejoinCode, normalizeRejoinCode, validateDisplayName } from './teamMembers';
+
+describe('validateDisplayName', () => {
+  it('accepts a name', () => {
+    expect(validateDisplayName('Ada')).toBeNull();
+    expect(validateDisplayName('  Grace  ')).toBeNull();
+  });
+
+  it('rejects missing and blank names', () => {
+    expect(validateDisplayName(undefined)).toMatch(/required/);
+    expect(validateDisplayName(42)).toMatch(/required/);
+    expect(validateDisplayName('   ')).toMatch(/required/);
+  });
+
+  it('rejects names over 30 characters', () => {
+    expect(validateDisplayName('a'.repeat(30))).toBeNull();
+    expect(validateDisplayName('a'.repeat(31))).toMatch(/30 characters/);
+  });
+});
+
+describe('generateRejoinCode', () => {
+  it('draws six characters from the unambiguous alphabet', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(generateRejoinCode()).toMatch(/^[A-HJKMNP-Z2-9]{6}$/);
+    }
+  });
+
+  it('round-trips through normalizeRejoinCode', () => {
+    const code = generateRejoinCode();
+    expect(normalizeRejoinCode(code.toLowerCase())).toBe(code);
+  });
+});
+
+describe('normalizeRejoinCode', () => {
+  it('ignores case, spaces and dashes', () => {
+    expect(normalizeRejoinCode('abc-234')).toBe('ABC234');
+    expect(normalizeRejoinCode(' XYZ 789 ')).toBe('XYZ789');
+  });
+
+  it('rejects the wrong length and ambiguous characters', () => {
+    expect(normalizeRejoinCode('ABC23')).toBeNull();
+    expect(normalizeRejoinCode('ABC2345')).toBeNull();
+    expect(normalizeRejoinCode('ABC10O')).toBeNull();
+    expect(normalizeRejoinCode(123456)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Utility functions for team members
+ *
+ * Several devices may play for one team, each under a student display name.
+ * The device that creates the team is its captain. A teacher can release a
+ * lost captain device and hand out a rejoin code to reclaim the team.
+ */
+
+import { TEAM_MEMBERS, TEAM_RECOVERY } from '@/lib/constants/game';
+
+/**
+ * Validate a student display name from a join request
+ * @param displayName - Untrusted display name
+ * @returns Error message, or null when valid
+ */
+export const validateDisplayName = (displayName: unknown): string | null => {
+  if (typeof displayName !== 'string' || displayName.trim().length === 0) {
+    return 'Display name is required';
+  }
+  if (displayName.trim().length > TEAM_MEMBERS.DISPLAY_NAME_MAX_LENGTH) {
+    return `Display name must be ${TEAM_MEMBERS.DISPLAY_NAME_MAX_LENGTH} characters or less`;
+  }
+  return null;
+};
+
+/**
+ * Generate a random rejoin code
+ * @returns Code of TEAM_RECOVERY.REJOIN_CODE_LENGTH characters from TEAM_RECOVERY.REJOIN_CODE_ALPHABET
+ */
+export const generateRejoinCode = (): string => {
+  const alphabet = TEAM_RECOVERY.REJOIN_CODE_ALPHABET;
+  const values = crypto.getRandomValues(new Uint32Array(TEAM_RECOVERY.REJOIN_CODE_LENGTH));
+  return Array.from(values, (value) => alphabet[value % alphabet.length]).join('');
+};
+
+/**
+ * Normalize a rejoin code typed by a student
+ * @param input - Untrusted code; case, spaces and dashes are ignored
+ * @returns Upper-case code, or null when it cannot be a rejoin code
+ */
+export const normalizeRejoinCode = (input: unknown): string | null => {
+  if (typeof input !== 'string') return null;
+
+  const code = input.replace(/[\s-]/g, '').toUpperCase();
+  if (code.length !== TEAM_RECOVERY.REJOIN_CODE_LENGTH) return null;
+
+  return [...code].every((char) => TEAM_RECOVERY.REJOIN_CODE_ALPHABET.includes(char)) ? code : null;
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { applyTieBreakerWinner, getTiedLeaderIds, validateTieBreakerQuestion } from './tieBreaker';
+
+describe('getTiedLeaderIds', () => {
+  it('returns every team sharing the top score', () => {
+    expect(getTiedLeaderIds([
+      { id: 'a', score: 500 },
+      { id: 'b', score: 300 },
+      { id: 'c', score: 500 },
+    ])).toEqual(['a', 'c']);
+  });
+
+  it('returns nothing when one team leads outright', () => {
+    expect(getTiedLeaderIds([{ id: 'a', score: 500 }, { id: 'b', score: 300 }])).toEqual([]);
+    expect(getTiedLeaderIds([{ id: 'a', score: 0 }])).toEqual([]);
+    expect(getTiedLeaderIds([])).toEqual([]);
+  });
+
+  it('counts a tie below zero', () => {
+    expect(getTiedLeaderIds([{ id: 'a', score: -100 }, { id: 'b', score: -100 }])).toEqual(['a', 'b']);
+  });
+});
+
+describe('applyTieBreakerWinner', () => {
+  const scores = [
+    { teamId: 'a', score: 500, rank: 1 },
+    { teamId: 'b', score: 500, rank: 1 },
+    { teamId: 'c', score: 200, rank: 3 },
+  ];
+
+  it('moves the winner first and the other co-leaders to second', () => {
+    expect(applyTieBreakerWinner(scores, 'b')).toEqual([
+      { teamId: 'b', score: 500, rank: 1 },
+      { teamId: 'a', score: 500, rank: 2 },
+      { teamId: 'c', score: 200, rank: 3 },
+    ]);
+  });
+
+  it('leaves shared ranks without a winner', () => {
+    expect(applyTieBreakerWinner(scores, null)).toBe(scores);
+  });
+
+  it('ignores a winner who is no longer tied for first', () => {
+    expect(applyTieBreakerWinner(scores, 'c')).toBe(scores);
+  });
+});
+
+describe('validateTieBreakerQuestion', () => {
+  const valid = { category: 'Science', question: 'The closest star to Earth', answer: 'The Sun' };
+
+  it('accepts a complete question and null', () => {
+    expect(validateTieBreakerQuestion(valid)).toBeNull();
+    expect(validateTieBreakerQuestion({ ...valid, accepted_answers: ['Sun'] })).toBeNull();
+    expect(validateTieBreakerQuestion(null)).toBeNull();
+  });
+
+  it('rejects missing or oversized fields', () => {
+    expect(validateTieBreakerQuestion('Science')).toMatch(/must be an object/);
+    expect(validateTieBreakerQuestion({ ...valid, category: '' })).toMatch(/category/);
+    expect(validateTieBreakerQuestion({ ...valid, question: 'x'.repeat(501) })).toMatch(/question/);
+    expect(validateTieBreakerQuestion({ ...valid, answer: undefined })).toMatch(/answer/);
+  });
+
+  it('rejects invalid accepted answers', () => {
+    expect(validateTieBreakerQuestion({ ...valid, accepted_answers: 'Sun' })).toMatch(/accepted_answers/);
+  });
+});
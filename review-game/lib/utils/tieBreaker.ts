@@ -0,0 +1,95 @@
+/**
+ * Utility functions for tie-breakers
+ *
+ * A game that ends with teams tied for first can be settled by a sudden-death
+ * clue that only the tied teams may buzz on. The board offers one when
+ * getTiedLeaderIds finds a tie, and ranks the winner alone in first.
+ */
+
+import { QUESTION_VALIDATION } from '@/lib/constants/question-banks';
+import { validateAcceptedAnswers } from '@/lib/utils/answerMatcher';
+
+const TEXT_ALLOWED_CHARS = /^[\w\s\-'.,!?@()\[\]]+$/;
+const QUESTION_ALLOWED_CHARS = /^[\w\s\-'.,!?@()\[\]:;"\/]+$/;
+
+/**
+ * Find the teams tied for the top score
+ * @param teams - Teams with their final scores
+ * @returns IDs of the teams sharing the top score, or an empty array when one team leads outright
+ */
+export const getTiedLeaderIds = (teams: { id: string; score: number }[]): string[] => {
+  if (teams.length < 2) {
+    return [];
+  }
+
+  const topScore = Math.max(...teams.map((team) => team.score));
+  const leaders = teams.filter((team) => team.score === topScore).map((team) => team.id);
+  return leaders.length >= 2 ? leaders : [];
+};
+
+/**
+ * Rank the tie-breaker winner alone in first
+ * @param scores - Final scores ranked with shared ranks, highest first
+ * @param winnerTeamId - Winner of the tie-breaker, or null when there is none
+ * @returns The scores with the winner first at rank 1 and the other co-leaders at rank 2
+ */
+export const applyTieBreakerWinner = <T extends { teamId: string; rank: number }>(
+  scores: T[],
+  winnerTeamId: string | null
+): T[] => {
+  const winner = scores.find((team) => team.teamId === winnerTeamId && team.rank === 1);
+  if (!winner) {
+    return scores;
+  }
+
+  return [winner, ...scores.filter((team) => team !== winner)].map((team) =>
+    team !== winner && team.rank === 1 ? { ...team, rank: 2 } : team
+  );
+};
+
+/**
+ * Validate a tie-breaker question from a request body
+ * @param value - Untrusted tie_breaker_question; null clears it
+ * @returns Error message, or null when valid
+ */
+export const validateTieBreakerQuestion = (value: unknown): string | null => {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'tie_breaker_question must be an object';
+  }
+
+  const { category, question, answer, accepted_answers } = value as Record<string, unknown>;
+
+  if (typeof category !== 'string' || category.length === 0 || category.length > 100) {
+    return 'tie_breaker_question.category must be a string (1-100 chars)';
+  }
+  if (!TEXT_ALLOWED_CHARS.test(category)) {
+    return 'tie_breaker_question.category contains invalid characters';
+  }
+  if (typeof question !== 'string' || question.length === 0 || question.length > 500) {
+    return 'tie_breaker_question.question must be a string (1-500 chars)';
+  }
+  if (!QUESTION_ALLOWED_CHARS.test(question)) {
+    return 'tie_breaker_question.question contains invalid characters';
+  }
+  if (typeof answer !== 'string' || answer.length === 0 || answer.length > 200) {
+    return 'tie_breaker_question.answer must be a string (1-200 chars)';
+  }
+  if (!TEXT_ALLOWED_CHARS.test(answer)) {
+    return 'tie_breaker_question.answer contains invalid characters';
+  }
+  if (accepted_answers !== undefined && accepted_answers !== null) {
+    const acceptedAnswersError = validateAcceptedAnswers(
+      accepted_answers,
+      QUESTION_VALIDATION.ACCEPTED_ANSWERS_MAX_COUNT,
+      200
+    );
+    if (acceptedAnswersError) {
+      return `tie_breaker_question: ${acceptedAnswersError}`;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,54 @@
+-- Migration: Create buzzes table for server-authoritative buzz arbitration
+-- Description: Buzz order used to be decided on each client by sorting the
+--              client-supplied Date.now() timestamp, so a Chromebook whose clock
+--              ran a few seconds slow always won, and a teacher refresh lost the
+--              whole queue. Buzzes are now POSTed to /api/games/[gameId]/buzz,
+--              which records the server receive time together with the device's
+--              measured clock offset and derives an effective press time that
+--              decides queue order. Clients render whatever order the server
+--              broadcasts.
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS public.buzzes (
+  id                  UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id             UUID        NOT NULL REFERENCES public.games(id)     ON DELETE CASCADE,
+  team_id             UUID        NOT NULL REFERENCES public.teams(id)     ON DELETE CASCADE,
+  question_id         UUID        NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  device_id           TEXT,
+  -- Raw Date.now() reported by the device at the moment the button was pressed.
+  -- Kept for auditing only; never used for ordering on its own.
+  client_timestamp    BIGINT,
+  -- Estimated (server_time - device_time) in ms, measured by the device against
+  -- /api/games/[gameId]/buzz/clock. NULL when the device never completed a sync.
+  clock_offset_ms     INTEGER,
+  server_received_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- client_timestamp corrected by clock_offset_ms, clamped to
+  -- [server_received_at - BUZZER.MAX_LATENCY_COMPENSATION_MS, server_received_at].
+  -- Falls back to server_received_at when no usable offset was supplied.
+  effective_at        TIMESTAMPTZ NOT NULL,
+  -- Set when the teacher marks the team's attempt (e.g. incorrect answer).
+  -- Dismissed buzzes leave the live queue but keep blocking a second buzz from
+  -- the same team on the same clue until Play Again or the Double Jeopardy
+  -- start deletes the game's buzzes.
+  dismissed_at        TIMESTAMPTZ,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- One buzz per team per clue. The API route treats a 23505 on this constraint
+  -- as "already buzzed" and simply returns the current queue.
+  CONSTRAINT uq_buzzes_game_question_team UNIQUE (game_id, question_id, team_id)
+);
+
+-- Used to read the live queue for the open clue in effective order
+CREATE INDEX IF NOT EXISTS idx_buzzes_game_question_order
+  ON public.buzzes(game_id, question_id, effective_at)
+  WHERE dismissed_at IS NULL;
+
+-- RLS enabled; the table is read and written exclusively by server-side API
+-- routes using the service role key, which bypasses RLS. Students are anonymous
+-- devices and cannot be identified through PostgREST, so no policies are defined.
+ALTER TABLE public.buzzes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.buzzes IS
+  'One row per (game_id, question_id, team_id). Written by POST /api/games/[gameId]/buzz; '
+  'queue order is effective_at ASC, server_received_at ASC. Rows are deleted when the '
+  'teacher clears the queue and removed by CASCADE when the game is deleted.';
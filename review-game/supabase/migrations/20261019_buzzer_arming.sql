@@ -0,0 +1,33 @@
+-- Migration: Buzzer arming and early-buzz lockout
+-- Description: Adds an "armed" phase to each Jeopardy clue. The teacher reads the
+--              clue, then arms buzzers via POST /api/games/[gameId]/buzz/arm.
+--              A team that buzzes before arming is locked out for
+--              games.buzzer_lockout_ms and its buzz is not queued. Both checks are
+--              enforced by POST /api/games/[gameId]/buzz.
+-- Date: 2026-10-19
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS buzzer_lockout_ms INTEGER NOT NULL DEFAULT 500,
+  -- The clue buzzers are currently armed for; NULL when disarmed.
+  -- Cleared together with the buzz queue when the clue closes.
+  ADD COLUMN IF NOT EXISTS buzzers_armed_question_id UUID
+    REFERENCES public.questions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS buzzers_armed_at TIMESTAMPTZ;
+
+-- Keep in sync with BUZZER.LOCKOUT_MIN_MS / LOCKOUT_MAX_MS in lib/constants/game.ts
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_buzzer_lockout_ms;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_buzzer_lockout_ms
+  CHECK (buzzer_lockout_ms BETWEEN 250 AND 2000);
+
+-- Server time until which the team's buzzes are rejected after an early press
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS buzz_locked_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.games.buzzer_lockout_ms IS
+  'Lockout applied to a team that buzzes before buzzers are armed (250-2000 ms)';
+COMMENT ON COLUMN public.games.buzzers_armed_question_id IS
+  'Question buzzers are armed for; buzzes for any other question count as early';
+COMMENT ON COLUMN public.teams.buzz_locked_until IS
+  'Buzzes received before this time are rejected (early-buzz lockout)';
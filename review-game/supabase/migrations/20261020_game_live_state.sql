@@ -0,0 +1,31 @@
+-- Migration: Persisted live Jeopardy state
+-- Description: Stores the parts of an in-progress Jeopardy clue that previously
+--              lived only in the board's memory (open clue, revealed answer,
+--              Daily Double wager) so GET /api/games/[gameId]/state can rebuild
+--              the board after a refresh. The buzz queue and arming state are
+--              already persisted in buzzes and games.buzzers_armed_*.
+--              Written by PATCH /api/games/[gameId]/state.
+-- Date: 2026-10-20
+
+ALTER TABLE public.games
+  -- The clue currently open on the board; NULL between clues
+  ADD COLUMN IF NOT EXISTS current_question_id UUID
+    REFERENCES public.questions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS answer_revealed BOOLEAN NOT NULL DEFAULT false,
+  -- Daily Double wager, set only once the wager has been locked in
+  ADD COLUMN IF NOT EXISTS daily_double_team_id UUID
+    REFERENCES public.teams(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS daily_double_wager INTEGER;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_daily_double_wager;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_daily_double_wager
+  CHECK (daily_double_wager IS NULL OR daily_double_wager > 0);
+
+COMMENT ON COLUMN public.games.current_question_id IS
+  'Clue open on the board, restored after a board refresh';
+COMMENT ON COLUMN public.games.answer_revealed IS
+  'Whether the answer to current_question_id has been revealed to students';
+COMMENT ON COLUMN public.games.daily_double_wager IS
+  'Locked-in Daily Double wager for current_question_id, made by daily_double_team_id';
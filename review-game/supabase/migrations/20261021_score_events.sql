@@ -0,0 +1,469 @@
+-- Migration: Score event ledger with undo/redo
+-- Description: Every score change used to overwrite teams.score with no history,
+--              so a misclick on the board could only be fixed by guessing the
+--              previous score. All scoring functions now append a row to
+--              score_events in the same transaction as the score update:
+--                - update_team_score            (board: regular and Daily Double clues,
+--                                                manual adjustments)
+--                - reveal_final_jeopardy_answer (Final Jeopardy grading)
+--                - increment_pub_trivia_score   (Quick Fire answers)
+--                - reset_team_scores            (Play Again)
+--              undo_score_event / redo_score_event revert and re-apply the most
+--              recent change, so teams.score always equals the sum of the deltas
+--              of its events that are not undone.
+-- Date: 2026-10-21
+
+CREATE TABLE IF NOT EXISTS public.score_events (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id     UUID        NOT NULL REFERENCES public.games(id)     ON DELETE CASCADE,
+  team_id     UUID        NOT NULL REFERENCES public.teams(id)     ON DELETE CASCADE,
+  question_id UUID        REFERENCES public.questions(id)          ON DELETE SET NULL,
+  delta       INTEGER     NOT NULL,
+  -- Keep in sync with ScoreEventReason in types/game.ts
+  reason      TEXT        NOT NULL,
+  -- Free-text reason the teacher gave for a manual adjustment
+  note        TEXT,
+  -- Teacher who made the change; NULL for Quick Fire answers scored by the server
+  actor_id    UUID        REFERENCES public.profiles(id)           ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  -- Set while the event is undone; cleared again by redo
+  undone_at   TIMESTAMPTZ,
+
+  CONSTRAINT chk_score_events_reason CHECK (reason IN (
+    'correct',
+    'incorrect',
+    'daily_double_correct',
+    'daily_double_incorrect',
+    'final_jeopardy_correct',
+    'final_jeopardy_incorrect',
+    'pub_trivia_answer',
+    'manual_adjustment',
+    'reset'
+  )),
+  CONSTRAINT chk_score_events_note_length CHECK (note IS NULL OR char_length(note) <= 200)
+);
+
+-- Ledger reads and undo/redo look-ups are always per game, newest first
+CREATE INDEX IF NOT EXISTS idx_score_events_game_created
+  ON public.score_events(game_id, created_at DESC);
+
+-- RLS enabled; the ledger is written only by the SECURITY DEFINER functions below
+-- and read by /api/games/[gameId]/scores with the service role after an
+-- ownership check, so no policies are defined.
+ALTER TABLE public.score_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.score_events IS
+  'Append-only ledger of team score changes. teams.score equals the sum of delta over the team''s events where undone_at IS NULL.';
+
+-- =====================================================
+-- 1. update_team_score: record the change
+-- =====================================================
+
+-- The signature gains optional arguments; drop the old overload so PostgREST
+-- can resolve calls that omit them
+DROP FUNCTION IF EXISTS public.update_team_score(UUID, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION public.update_team_score(
+  p_team_id UUID,
+  p_score_change INTEGER,
+  p_game_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT 'manual_adjustment',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  team_id UUID,
+  new_score INTEGER,
+  success BOOLEAN,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID;
+  v_team_game_id UUID;
+  v_new_score INTEGER;
+BEGIN
+  -- Check if user is authenticated
+  IF auth.uid() IS NULL THEN
+    RETURN QUERY SELECT
+      p_team_id,
+      NULL::INTEGER,
+      FALSE,
+      'Unauthorized: Authentication required'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Get the teacher_id for the specified game
+  SELECT teacher_id INTO v_teacher_id
+  FROM public.games
+  WHERE id = p_game_id;
+
+  -- Verify game exists
+  IF v_teacher_id IS NULL THEN
+    RETURN QUERY SELECT
+      p_team_id,
+      NULL::INTEGER,
+      FALSE,
+      'Game not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Verify authenticated user is the teacher for this game
+  IF v_teacher_id != auth.uid() THEN
+    RETURN QUERY SELECT
+      p_team_id,
+      NULL::INTEGER,
+      FALSE,
+      'Unauthorized: Only the game teacher can update scores'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Update team score atomically (prevents race conditions)
+  UPDATE public.teams
+  SET score = COALESCE(score, 0) + p_score_change
+  WHERE id = p_team_id
+  RETURNING game_id, score INTO v_team_game_id, v_new_score;
+
+  -- Verify team exists
+  IF v_team_game_id IS NULL THEN
+    RETURN QUERY SELECT
+      p_team_id,
+      NULL::INTEGER,
+      FALSE,
+      'Team not found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Verify team belongs to the specified game
+  IF v_team_game_id != p_game_id THEN
+    -- Rollback the update since team doesn't belong to this game
+    RAISE EXCEPTION 'Team does not belong to the specified game';
+  END IF;
+
+  -- Record the change in the same transaction
+  INSERT INTO public.score_events (game_id, team_id, question_id, delta, reason, note, actor_id)
+  VALUES (p_game_id, p_team_id, p_question_id, p_score_change, p_reason, p_note, auth.uid());
+
+  -- Return success with updated score
+  RETURN QUERY SELECT
+    p_team_id,
+    v_new_score,
+    TRUE,
+    NULL::TEXT;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Handle any unexpected errors
+    RETURN QUERY SELECT
+      p_team_id,
+      NULL::INTEGER,
+      FALSE,
+      ('Error updating score: ' || SQLERRM)::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.update_team_score(UUID, INTEGER, UUID, UUID, TEXT, TEXT) IS
+  'Updates a team score as the game teacher and records the change in score_events. Returns the new score on success or an error message on failure.';
+
+GRANT EXECUTE ON FUNCTION public.update_team_score(UUID, INTEGER, UUID, UUID, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_team_score(UUID, INTEGER, UUID, UUID, TEXT, TEXT) FROM anon;
+
+-- =====================================================
+-- 2. reveal_final_jeopardy_answer: record the change
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION reveal_final_jeopardy_answer(
+  p_game_id UUID,
+  p_team_id UUID,
+  p_is_correct BOOLEAN,
+  p_teacher_id UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT,
+  new_score INTEGER,
+  score_change INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_teacher UUID;
+  v_game_phase TEXT;
+  v_wager INTEGER;
+  v_current_score INTEGER;
+  v_score_change INTEGER;
+  v_new_score INTEGER;
+BEGIN
+  -- Verify ownership
+  SELECT teacher_id, current_phase INTO v_game_teacher, v_game_phase
+  FROM games
+  WHERE id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Game not found'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_game_teacher != p_teacher_id THEN
+    RETURN QUERY SELECT false, 'Unauthorized'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Verify game phase
+  IF v_game_phase != 'final_jeopardy_reveal' THEN
+    RETURN QUERY SELECT false, 'Not in reveal phase'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Get team data with row lock
+  SELECT score, final_jeopardy_wager
+  INTO v_current_score, v_wager
+  FROM teams
+  WHERE id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Team not found'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Verify team has submitted wager and answer
+  IF v_wager IS NULL THEN
+    RETURN QUERY SELECT false, 'Team has not submitted a wager'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Calculate score change
+  v_score_change := CASE WHEN p_is_correct THEN v_wager ELSE -v_wager END;
+  v_new_score := COALESCE(v_current_score, 0) + v_score_change;
+
+  -- Update team score (atomic with wager update)
+  UPDATE teams
+  SET score = v_new_score
+  WHERE id = p_team_id;
+
+  -- Update wager record with result (in same transaction)
+  UPDATE wagers
+  SET
+    is_correct = p_is_correct,
+    revealed = true
+  WHERE game_id = p_game_id
+    AND team_id = p_team_id
+    AND wager_type = 'final_jeopardy';
+
+  INSERT INTO score_events (game_id, team_id, delta, reason, actor_id)
+  VALUES (
+    p_game_id,
+    p_team_id,
+    v_score_change,
+    CASE WHEN p_is_correct THEN 'final_jeopardy_correct' ELSE 'final_jeopardy_incorrect' END,
+    p_teacher_id
+  );
+
+  -- Return success with score details
+  RETURN QUERY SELECT true, NULL::TEXT, v_new_score, v_score_change;
+END;
+$$;
+
+COMMENT ON FUNCTION reveal_final_jeopardy_answer IS 'Atomically reveals Final Jeopardy answer, updates score and records it in score_events with wager audit trail in single transaction';
+
+-- =====================================================
+-- 3. increment_pub_trivia_score: record the change
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.increment_pub_trivia_score(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.increment_pub_trivia_score(
+  p_player_id UUID,
+  p_points_earned INTEGER,
+  p_question_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new_score INTEGER;
+  v_game_id UUID;
+BEGIN
+  UPDATE teams
+  SET score = COALESCE(score, 0) + p_points_earned,
+      updated_at = now()
+  WHERE id = p_player_id
+  RETURNING score, game_id INTO v_new_score, v_game_id;
+
+  IF v_game_id IS NOT NULL AND p_points_earned <> 0 THEN
+    INSERT INTO score_events (game_id, team_id, question_id, delta, reason)
+    VALUES (v_game_id, p_player_id, p_question_id, p_points_earned, 'pub_trivia_answer');
+  END IF;
+
+  RETURN COALESCE(v_new_score, 0);
+END;
+$$;
+
+COMMENT ON FUNCTION public.increment_pub_trivia_score(UUID, INTEGER, UUID) IS
+  'Atomically increments a pub trivia player score, records it in score_events and returns the new total.';
+
+GRANT EXECUTE ON FUNCTION public.increment_pub_trivia_score(UUID, INTEGER, UUID) TO service_role;
+
+-- =====================================================
+-- 4. reset_team_scores: Play Again
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reset_team_scores(p_game_id UUID)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = p_game_id AND teacher_id = auth.uid()
+  ) THEN
+    RETURN QUERY SELECT false, 'Unauthorized: Only the game teacher can reset scores'::TEXT;
+    RETURN;
+  END IF;
+
+  -- A reset event per team with a non-zero score. Undo stops at these, so
+  -- pre-reset changes can no longer be reverted into the new game.
+  INSERT INTO score_events (game_id, team_id, delta, reason, actor_id)
+  SELECT game_id, id, -score, 'reset', auth.uid()
+  FROM teams
+  WHERE game_id = p_game_id AND COALESCE(score, 0) <> 0;
+
+  UPDATE teams SET score = 0 WHERE game_id = p_game_id;
+
+  RETURN QUERY SELECT true, NULL::TEXT;
+END;
+$$;
+
+COMMENT ON FUNCTION public.reset_team_scores(UUID) IS
+  'Sets every team score in a game to 0 as the game teacher, recording a reset event per team.';
+
+GRANT EXECUTE ON FUNCTION public.reset_team_scores(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_team_scores(UUID) FROM anon;
+
+-- =====================================================
+-- 5. undo_score_event / redo_score_event
+-- =====================================================
+
+-- Reverts the most recent event that is not undone. Reset events cannot be undone.
+-- Keep in sync with findUndoTarget in lib/utils/scoreLedger.ts
+CREATE OR REPLACE FUNCTION public.undo_score_event(p_game_id UUID)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT,
+  event_id UUID,
+  team_id UUID,
+  new_score INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event score_events%ROWTYPE;
+  v_new_score INTEGER;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = p_game_id AND teacher_id = auth.uid()
+  ) THEN
+    RETURN QUERY SELECT false, 'Unauthorized: Only the game teacher can undo scores'::TEXT, NULL::UUID, NULL::UUID, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_event
+  FROM score_events e
+  WHERE e.game_id = p_game_id AND e.undone_at IS NULL
+  ORDER BY e.created_at DESC, e.id DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_event.reason = 'reset' THEN
+    RETURN QUERY SELECT false, 'Nothing to undo'::TEXT, NULL::UUID, NULL::UUID, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE teams t
+  SET score = COALESCE(t.score, 0) - v_event.delta
+  WHERE t.id = v_event.team_id
+  RETURNING t.score INTO v_new_score;
+
+  UPDATE score_events SET undone_at = clock_timestamp() WHERE id = v_event.id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_event.id, v_event.team_id, v_new_score;
+END;
+$$;
+
+-- Re-applies the most recently undone event, as long as no score change has
+-- been recorded since it was undone.
+-- Keep in sync with findRedoTarget in lib/utils/scoreLedger.ts
+CREATE OR REPLACE FUNCTION public.redo_score_event(p_game_id UUID)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT,
+  event_id UUID,
+  team_id UUID,
+  new_score INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event score_events%ROWTYPE;
+  v_latest_created TIMESTAMPTZ;
+  v_new_score INTEGER;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = p_game_id AND teacher_id = auth.uid()
+  ) THEN
+    RETURN QUERY SELECT false, 'Unauthorized: Only the game teacher can redo scores'::TEXT, NULL::UUID, NULL::UUID, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_event
+  FROM score_events e
+  WHERE e.game_id = p_game_id AND e.undone_at IS NOT NULL
+  ORDER BY e.undone_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  SELECT MAX(e.created_at) INTO v_latest_created
+  FROM score_events e
+  WHERE e.game_id = p_game_id;
+
+  IF v_event.id IS NULL OR v_event.undone_at < v_latest_created THEN
+    RETURN QUERY SELECT false, 'Nothing to redo'::TEXT, NULL::UUID, NULL::UUID, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE teams t
+  SET score = COALESCE(t.score, 0) + v_event.delta
+  WHERE t.id = v_event.team_id
+  RETURNING t.score INTO v_new_score;
+
+  UPDATE score_events SET undone_at = NULL WHERE id = v_event.id;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_event.id, v_event.team_id, v_new_score;
+END;
+$$;
+
+COMMENT ON FUNCTION public.undo_score_event(UUID) IS
+  'Reverts the most recent score change in a game as the game teacher.';
+COMMENT ON FUNCTION public.redo_score_event(UUID) IS
+  'Re-applies the most recently undone score change in a game as the game teacher.';
+
+GRANT EXECUTE ON FUNCTION public.undo_score_event(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redo_score_event(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.undo_score_event(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.redo_score_event(UUID) FROM anon;
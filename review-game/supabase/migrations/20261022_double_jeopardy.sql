@@ -0,0 +1,119 @@
+-- Migration: Double Jeopardy round
+-- Description: Adds an optional second round played after the first board is
+--              cleared, with its own question bank (which may be the same
+--              bank), doubled point values and more Daily Doubles.
+--                - games.double_jeopardy_bank_id: bank for round 2; NULL means
+--                  the game has no Double Jeopardy round
+--                - games.current_round: 1 or 2, advanced by
+--                  POST /api/games/[gameId]/double-jeopardy/start
+--                - current_phase gains 'double_jeopardy' for regular play in round 2
+--                - daily_double_positions entries carry a round number
+--              skip_final_jeopardy now returns to the phase of the current round.
+-- Date: 2026-10-22
+
+-- double_jeopardy_bank_id deliberately has no foreign key: a second
+-- games -> question_banks relationship would make the existing
+-- question_banks(...) embeds on games ambiguous in PostgREST. The start route
+-- checks that the bank still has questions before advancing.
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS double_jeopardy_bank_id UUID,
+  ADD COLUMN IF NOT EXISTS current_round SMALLINT NOT NULL DEFAULT 1;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_current_round;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_current_round
+  CHECK (current_round IN (1, 2));
+
+-- The original inline CHECK was created unnamed by 20260212_final_jeopardy_game_flow
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS games_current_phase_check;
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_current_phase;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_current_phase
+  CHECK (current_phase IN (
+    'regular',
+    'double_jeopardy',
+    'final_jeopardy_wager',
+    'final_jeopardy_answer',
+    'final_jeopardy_reveal'
+  ));
+
+COMMENT ON COLUMN public.games.double_jeopardy_bank_id IS
+  'Question bank for the Double Jeopardy round (may equal bank_id); NULL when the game has a single round';
+COMMENT ON COLUMN public.games.current_round IS
+  'Board being played: 1 for the first round, 2 for Double Jeopardy';
+COMMENT ON COLUMN public.games.current_phase IS
+  'Tracks the current phase of the game: regular, double_jeopardy, final_jeopardy_wager, final_jeopardy_answer, or final_jeopardy_reveal';
+COMMENT ON COLUMN public.games.daily_double_positions IS
+  'Array of { round, category, position } Daily Double cells; entries without round belong to round 1';
+
+-- =====================================================
+-- skip_final_jeopardy: return to the current round
+-- =====================================================
+
+-- The return type gains a phase column, which CREATE OR REPLACE cannot change
+DROP FUNCTION IF EXISTS skip_final_jeopardy(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION skip_final_jeopardy(
+  p_game_id UUID,
+  p_teacher_id UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT,
+  phase TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_teacher UUID;
+  v_round SMALLINT;
+  v_phase TEXT;
+BEGIN
+  -- Verify ownership
+  SELECT teacher_id, current_round INTO v_game_teacher, v_round
+  FROM games
+  WHERE id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Game not found'::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_game_teacher != p_teacher_id THEN
+    RETURN QUERY SELECT false, 'Unauthorized'::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  v_phase := CASE WHEN v_round = 2 THEN 'double_jeopardy' ELSE 'regular' END;
+
+  -- Reset game phase to the round being played
+  UPDATE games
+  SET current_phase = v_phase
+  WHERE id = p_game_id;
+
+  -- Clear teams' Final Jeopardy fields
+  UPDATE teams
+  SET
+    final_jeopardy_wager = NULL,
+    final_jeopardy_answer = NULL,
+    final_jeopardy_submitted_at = NULL
+  WHERE game_id = p_game_id;
+
+  -- Delete orphaned wager records (cleanup)
+  DELETE FROM wagers
+  WHERE game_id = p_game_id
+    AND wager_type = 'final_jeopardy';
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_phase;
+END;
+$$;
+
+COMMENT ON FUNCTION skip_final_jeopardy IS 'Skips Final Jeopardy, returns to the current round and cleans up orphaned wager records';
+
+GRANT EXECUTE ON FUNCTION skip_final_jeopardy TO authenticated;
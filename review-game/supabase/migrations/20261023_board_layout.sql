@@ -0,0 +1,45 @@
+-- Migration: Configurable board dimensions
+-- Description: Lets each Jeopardy game choose 3-8 categories and 3-6 rows with
+--              its own point ladder (e.g. 10/20/30 or 200-1000).
+--                - games.board_categories: number of categories on the board
+--                - games.point_values: point ladder, one value per row; its
+--                  length is the number of rows
+--                - questions.point_value gains 600 so banks can fill a sixth row
+--              The board uses each category's questions in point_value order
+--              and scores row N with point_values[N], so bank values act as
+--              row order rather than the points awarded.
+-- Date: 2026-10-23
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS board_categories SMALLINT NOT NULL DEFAULT 7,
+  ADD COLUMN IF NOT EXISTS point_values INTEGER[] NOT NULL DEFAULT '{100,200,300,400,500}';
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_board_categories;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_board_categories
+  CHECK (board_categories BETWEEN 3 AND 8);
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_point_values;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_point_values
+  CHECK (
+    array_length(point_values, 1) BETWEEN 3 AND 6
+    AND 0 < ALL (point_values)
+    AND 10000 >= ALL (point_values)
+  );
+
+COMMENT ON COLUMN public.games.board_categories IS
+  'Number of categories (columns) on the board, 3-8';
+COMMENT ON COLUMN public.games.point_values IS
+  'Point ladder from the top row down, 3-6 increasing values; doubled in Double Jeopardy';
+
+-- The original inline CHECK was created unnamed by 20241001_initial_schema
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS questions_point_value_check;
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS chk_questions_point_value;
+ALTER TABLE public.questions
+  ADD CONSTRAINT chk_questions_point_value
+  CHECK (point_value IN (100, 200, 300, 400, 500, 600));
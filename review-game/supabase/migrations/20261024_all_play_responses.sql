@@ -0,0 +1,192 @@
+-- Migration: All-play written responses for Jeopardy clues
+-- Description: Instead of buzzing, every team can type an answer to a clue on
+--              its device before the timer runs out; the teacher then marks each
+--              response right or wrong from the question modal.
+--                - games.answer_mode: 'buzzer' (default) or 'all_play' for every
+--                  regular clue; the teacher can also switch a single clue
+--                - games.all_play_question_id / all_play_closes_at: the clue
+--                  currently collecting responses and its submission deadline
+--                - clue_responses: one row per team per clue, shaped like wagers
+--                - judge_clue_response: marks a response and awards the points
+--                  in one transaction, recorded in score_events as
+--                  'all_play_correct'. Incorrect responses do not lose points.
+-- Date: 2026-10-24
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS answer_mode TEXT NOT NULL DEFAULT 'buzzer',
+  ADD COLUMN IF NOT EXISTS all_play_question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS all_play_closes_at TIMESTAMPTZ;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_answer_mode;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_answer_mode
+  CHECK (answer_mode IN ('buzzer', 'all_play'));
+
+COMMENT ON COLUMN public.games.answer_mode IS
+  'How teams answer regular clues: buzzer (first to buzz) or all_play (every team writes an answer)';
+COMMENT ON COLUMN public.games.all_play_question_id IS
+  'Clue currently collecting all-play responses; NULL when none';
+COMMENT ON COLUMN public.games.all_play_closes_at IS
+  'Deadline for all-play responses (timer end); NULL when the game has no timer';
+
+CREATE TABLE IF NOT EXISTS public.clue_responses (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id      UUID        NOT NULL REFERENCES public.games(id)     ON DELETE CASCADE,
+  team_id      UUID        NOT NULL REFERENCES public.teams(id)     ON DELETE CASCADE,
+  question_id  UUID        NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer_text  TEXT        NOT NULL,
+  -- NULL until the teacher marks the response
+  is_correct   BOOLEAN,
+  judged_at    TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- A team may edit its response until the deadline; resubmitting updates the row
+  CONSTRAINT uq_clue_responses_game_team_question UNIQUE (game_id, team_id, question_id),
+  CONSTRAINT chk_clue_responses_answer_length CHECK (char_length(answer_text) <= 500)
+);
+
+-- Responses are always read per clue
+CREATE INDEX IF NOT EXISTS idx_clue_responses_game_question
+  ON public.clue_responses(game_id, question_id);
+
+CREATE TRIGGER clue_responses_set_updated_at
+  BEFORE UPDATE ON public.clue_responses
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- RLS enabled; responses are written by /api/games/[gameId]/all-play/submit with
+-- the service role after the device check and judged by judge_clue_response,
+-- so no policies are defined.
+ALTER TABLE public.clue_responses ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.clue_responses IS
+  'One written response per (game_id, team_id, question_id) for all-play clues. Not written directly by clients.';
+
+-- =====================================================
+-- score_events: new reason
+-- =====================================================
+
+ALTER TABLE public.score_events
+  DROP CONSTRAINT IF EXISTS chk_score_events_reason;
+ALTER TABLE public.score_events
+  ADD CONSTRAINT chk_score_events_reason CHECK (reason IN (
+    'correct',
+    'incorrect',
+    'daily_double_correct',
+    'daily_double_incorrect',
+    'final_jeopardy_correct',
+    'final_jeopardy_incorrect',
+    'all_play_correct',
+    'pub_trivia_answer',
+    'manual_adjustment',
+    'reset'
+  ));
+
+-- =====================================================
+-- judge_clue_response
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.judge_clue_response(
+  p_game_id UUID,
+  p_team_id UUID,
+  p_question_id UUID,
+  p_is_correct BOOLEAN,
+  p_points INTEGER,
+  p_teacher_id UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  error_message TEXT,
+  new_score INTEGER,
+  score_change INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_teacher UUID;
+  v_is_correct BOOLEAN;
+  v_current_score INTEGER;
+  v_score_change INTEGER;
+  v_new_score INTEGER;
+BEGIN
+  -- Verify ownership
+  SELECT teacher_id INTO v_game_teacher
+  FROM games
+  WHERE id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Game not found'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_game_teacher != p_teacher_id THEN
+    RETURN QUERY SELECT false, 'Unauthorized'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF p_points IS NULL OR p_points <= 0 THEN
+    RETURN QUERY SELECT false, 'Points must be positive'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  -- Lock the response so a double click cannot award the points twice
+  SELECT is_correct INTO v_is_correct
+  FROM clue_responses
+  WHERE game_id = p_game_id
+    AND team_id = p_team_id
+    AND question_id = p_question_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Team has not submitted a response'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_is_correct IS NOT NULL THEN
+    RETURN QUERY SELECT false, 'Response has already been marked'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT score INTO v_current_score
+  FROM teams
+  WHERE id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Team not found'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  v_score_change := CASE WHEN p_is_correct THEN p_points ELSE 0 END;
+  v_new_score := COALESCE(v_current_score, 0) + v_score_change;
+
+  UPDATE clue_responses
+  SET
+    is_correct = p_is_correct,
+    judged_at = now()
+  WHERE game_id = p_game_id
+    AND team_id = p_team_id
+    AND question_id = p_question_id;
+
+  -- Incorrect responses leave the score and the ledger untouched
+  IF p_is_correct THEN
+    UPDATE teams
+    SET score = v_new_score
+    WHERE id = p_team_id;
+
+    INSERT INTO score_events (game_id, team_id, question_id, delta, reason, actor_id)
+    VALUES (p_game_id, p_team_id, p_question_id, v_score_change, 'all_play_correct', p_teacher_id);
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::TEXT, v_new_score, v_score_change;
+END;
+$$;
+
+COMMENT ON FUNCTION public.judge_clue_response IS
+  'Marks an all-play response right or wrong; a correct response awards p_points and is recorded in score_events in the same transaction';
+
+GRANT EXECUTE ON FUNCTION public.judge_clue_response(UUID, UUID, UUID, BOOLEAN, INTEGER, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.judge_clue_response(UUID, UUID, UUID, BOOLEAN, INTEGER, UUID) FROM anon;
@@ -0,0 +1,33 @@
+-- Migration: Steal rules for buzzer clues
+-- Description: Per-game rules for what happens after an incorrect answer.
+--                - games.steal_enabled: other teams in the buzz queue may
+--                  answer after an incorrect answer
+--                - games.deduct_incorrect: incorrect answers lose the clue's value
+--                - games.steal_restarts_timer: the clue timer restarts for
+--                  each stealing team
+--                - games.max_answer_attempts: answers allowed per clue,
+--                  including the first; NULL for no limit
+--              Defaults keep the existing behaviour (steals allowed,
+--              deductions on, timer keeps running, no limit).
+-- Date: 2026-10-26
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS steal_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS deduct_incorrect BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS steal_restarts_timer BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS max_answer_attempts SMALLINT;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_max_answer_attempts;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_max_answer_attempts
+  CHECK (max_answer_attempts IS NULL OR max_answer_attempts BETWEEN 2 AND 10);
+
+COMMENT ON COLUMN public.games.steal_enabled IS
+  'Whether the next team in the buzz queue may answer after an incorrect answer';
+COMMENT ON COLUMN public.games.deduct_incorrect IS
+  'Whether an incorrect buzzer answer loses the clue value';
+COMMENT ON COLUMN public.games.steal_restarts_timer IS
+  'Whether the clue timer restarts when another team steals';
+COMMENT ON COLUMN public.games.max_answer_attempts IS
+  'Answers allowed per clue including the first (2-10); NULL for no limit. Ignored when steal_enabled is false';
@@ -0,0 +1,19 @@
+-- Migration: Answer clock for buzzer clues
+-- Description: Adds games.answer_timer_seconds, a second, shorter countdown
+--              that starts when a team reaches the head of the buzz queue.
+--              When it runs out the attempt is marked incorrect and the clue
+--              moves on under the game's steal rules. NULL turns the answer
+--              clock off, which keeps the existing behaviour.
+-- Date: 2026-10-27
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS answer_timer_seconds SMALLINT;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_answer_timer_seconds;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_answer_timer_seconds
+  CHECK (answer_timer_seconds IS NULL OR answer_timer_seconds BETWEEN 3 AND 30);
+
+COMMENT ON COLUMN public.games.answer_timer_seconds IS
+  'Seconds the team at the head of the buzz queue has to answer (3-30); NULL when the answer clock is off';
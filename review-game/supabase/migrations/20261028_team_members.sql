@@ -0,0 +1,381 @@
+-- Migration: Multiple devices per team with a team captain
+-- Description: A team used to be controlled by exactly one device
+--              (teams.device_id), so a group of students had to share one
+--              Chromebook. Devices now join a team as members with a display
+--              name. The device that creates the team is its captain, the only
+--              member allowed to submit wagers and Final Jeopardy answers; any
+--              member may buzz.
+--                - team_members: one row per device on a team
+--                - get_team_device_role: member/captain lookup for API routes
+--                - join_game_atomic: records the creating device as captain
+--                - join_team: adds a device to an existing team
+--                - claim_team: succeeds for any member of the team
+--              teams.device_id keeps the captain's device for older readers.
+-- Date: 2026-10-28
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id       UUID        NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  team_id       UUID        NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  device_id     UUID        NOT NULL,
+  display_name  TEXT        NOT NULL,
+  is_captain    BOOLEAN     NOT NULL DEFAULT FALSE,
+  joined_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- A device plays for one team per game
+  CONSTRAINT uq_team_members_game_device UNIQUE (game_id, device_id),
+  CONSTRAINT chk_team_members_display_name
+    CHECK (char_length(btrim(display_name)) BETWEEN 1 AND 30)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_team
+  ON public.team_members(team_id, joined_at);
+
+-- One captain per team
+CREATE UNIQUE INDEX IF NOT EXISTS uq_team_members_captain
+  ON public.team_members(team_id)
+  WHERE is_captain;
+
+-- RLS enabled; the table is read and written by SECURITY DEFINER functions and
+-- server-side API routes using the service role key. Device IDs act as
+-- credentials, so no policies are defined.
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.team_members IS
+  'Devices playing for a team, one row per (game_id, device_id). The captain '
+  'submits wagers and Final Jeopardy answers; any member may buzz.';
+COMMENT ON COLUMN public.team_members.display_name IS
+  'Student name shown to the team and the teacher (1-30 characters)';
+
+-- Existing claimed teams become single-member teams led by their device
+INSERT INTO public.team_members (game_id, team_id, device_id, display_name, is_captain)
+SELECT t.game_id, t.id, t.device_id, left(t.team_name, 30), TRUE
+FROM public.teams t
+WHERE t.device_id IS NOT NULL
+ON CONFLICT (game_id, device_id) DO NOTHING;
+
+-- ---------------------------------------------------------------------------
+-- get_team_device_role: 'captain', 'member', or NULL when the device is not on
+-- the team. Lets routes verify a device with the anon client (two-client
+-- invariant) without exposing team_members through PostgREST.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_team_device_role(
+  p_team_id   UUID,
+  p_device_id UUID,
+  p_game_id   UUID DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN is_captain THEN 'captain' ELSE 'member' END
+  FROM team_members
+  WHERE team_id = p_team_id
+    AND device_id = p_device_id
+    AND (p_game_id IS NULL OR game_id = p_game_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_device_role(UUID, UUID, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_team_device_role(UUID, UUID, UUID) IS
+  'Returns captain or member for a device on a team, or NULL. Used by verifyDeviceOwnsTeam.';
+
+-- ---------------------------------------------------------------------------
+-- join_game_atomic: unchanged, except that a device already on any team is
+-- sent back to it and the new team's device is recorded as its captain.
+-- The old two-argument signature is dropped so calls do not become ambiguous.
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.join_game_atomic(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.join_game_atomic(
+  p_game_id      UUID,
+  p_device_id    TEXT,
+  p_display_name TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $body$
+DECLARE
+  v_num_teams          INT;
+  v_status             TEXT;
+  v_team_names         JSONB;
+  v_current_count      INT;
+  v_next_number        INT;
+  v_team_name          TEXT;
+  v_new_team_id        UUID;
+  v_connection_status  TEXT;
+BEGIN
+  -- Validate device_id to prevent arbitrarily long strings from anonymous callers
+  IF p_device_id IS NULL OR length(p_device_id) = 0 OR length(p_device_id) > 255 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_request');
+  END IF;
+
+  IF p_display_name IS NOT NULL AND char_length(btrim(p_display_name)) NOT BETWEEN 1 AND 30 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_display_name');
+  END IF;
+
+  -- Lock the game row to serialize concurrent joins
+  SELECT num_teams, status, team_names
+  INTO   v_num_teams, v_status, v_team_names
+  FROM   games
+  WHERE  id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_not_found');
+  END IF;
+
+  IF v_status = 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_completed');
+  END IF;
+
+  -- Idempotency: if this device already plays for a team in this game, return it.
+  -- Include connection_status so the client can route to the active game
+  -- directly rather than landing back in the waiting room for approved teams.
+  SELECT t.id, t.connection_status
+  INTO   v_new_team_id, v_connection_status
+  FROM   team_members m
+  JOIN   teams t ON t.id = m.team_id
+  WHERE  m.game_id = p_game_id AND m.device_id = p_device_id::UUID;
+
+  IF NOT FOUND THEN
+    SELECT id, connection_status
+    INTO   v_new_team_id, v_connection_status
+    FROM   teams
+    WHERE  game_id = p_game_id AND device_id = p_device_id::UUID;
+  END IF;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success',           true,
+      'team_id',           v_new_team_id,
+      'rejoined',          true,
+      'connection_status', v_connection_status
+    );
+  END IF;
+
+  -- Count teams already in this game
+  SELECT COUNT(*)
+  INTO   v_current_count
+  FROM   teams
+  WHERE  game_id = p_game_id;
+
+  IF v_current_count >= v_num_teams THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_full');
+  END IF;
+
+  -- Determine next sequential team number
+  SELECT COALESCE(MAX(team_number), 0) + 1
+  INTO   v_next_number
+  FROM   teams
+  WHERE  game_id = p_game_id;
+
+  -- Resolve team name from the configured list, or fall back to "Team N"
+  IF v_team_names IS NOT NULL AND jsonb_array_length(v_team_names) >= v_next_number THEN
+    v_team_name := v_team_names ->> (v_next_number - 1);
+  END IF;
+
+  IF v_team_name IS NULL OR v_team_name = '' THEN
+    v_team_name := 'Team ' || v_next_number;
+  END IF;
+
+  -- Insert the new team record
+  INSERT INTO teams (game_id, team_number, team_name, device_id, connection_status, score, last_seen)
+  VALUES (p_game_id, v_next_number, v_team_name, p_device_id, 'pending', 0, now())
+  RETURNING id INTO v_new_team_id;
+
+  -- The creating device captains the team
+  INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+  VALUES (p_game_id, v_new_team_id, p_device_id::UUID,
+          COALESCE(btrim(p_display_name), left(v_team_name, 30)), TRUE);
+
+  RETURN jsonb_build_object(
+    'success',     true,
+    'team_id',     v_new_team_id,
+    'team_number', v_next_number
+  );
+END;
+$body$;
+
+GRANT EXECUTE ON FUNCTION public.join_game_atomic(UUID, TEXT, TEXT) TO anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- join_team: adds a device to an existing team. Idempotent for a device that
+-- already plays for a team in the game (returns that team). Called by
+-- POST /api/games/[gameId]/teams/[teamId]/members with the service role.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.join_team(
+  p_game_id      UUID,
+  p_team_id      UUID,
+  p_device_id    UUID,
+  p_display_name TEXT,
+  p_max_members  INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $body$
+DECLARE
+  v_status             TEXT;
+  v_connection_status  TEXT;
+  v_existing_team_id   UUID;
+  v_member_count       INT;
+  v_has_captain        BOOLEAN;
+BEGIN
+  IF p_display_name IS NULL OR char_length(btrim(p_display_name)) NOT BETWEEN 1 AND 30 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_display_name');
+  END IF;
+
+  SELECT status INTO v_status FROM games WHERE id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_not_found');
+  END IF;
+
+  IF v_status = 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_completed');
+  END IF;
+
+  -- Lock the team row to serialize joins to the same team
+  SELECT connection_status
+  INTO   v_connection_status
+  FROM   teams
+  WHERE  id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_not_found');
+  END IF;
+
+  IF v_connection_status = 'rejected' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_rejected');
+  END IF;
+
+  -- A device already on a team goes back to it
+  SELECT m.team_id, t.connection_status
+  INTO   v_existing_team_id, v_connection_status
+  FROM   team_members m
+  JOIN   teams t ON t.id = m.team_id
+  WHERE  m.game_id = p_game_id AND m.device_id = p_device_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success',           true,
+      'team_id',           v_existing_team_id,
+      'rejoined',          true,
+      'connection_status', v_connection_status
+    );
+  END IF;
+
+  SELECT COUNT(*), COALESCE(bool_or(is_captain), false)
+  INTO   v_member_count, v_has_captain
+  FROM   team_members
+  WHERE  team_id = p_team_id;
+
+  IF v_member_count >= p_max_members THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_full');
+  END IF;
+
+  -- Teams created before captains existed get one from their first member
+  INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+  VALUES (p_game_id, p_team_id, p_device_id, btrim(p_display_name), NOT v_has_captain);
+
+  IF NOT v_has_captain THEN
+    UPDATE teams SET device_id = p_device_id WHERE id = p_team_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success',           true,
+    'team_id',           p_team_id,
+    'is_captain',        NOT v_has_captain,
+    'connection_status', v_connection_status
+  );
+END;
+$body$;
+
+-- Service role only; the members API route validates input first
+REVOKE EXECUTE ON FUNCTION public.join_team(UUID, UUID, UUID, TEXT, INT) FROM anon, authenticated;
+
+COMMENT ON FUNCTION public.join_team(UUID, UUID, UUID, TEXT, INT) IS
+  'Adds a device to an existing team, up to p_max_members. The first member of a captainless team becomes captain.';
+
+-- ---------------------------------------------------------------------------
+-- claim_team: any member of the team may open the team's game screen. An
+-- unclaimed team is claimed by the device, which becomes its captain.
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.claim_team(
+  p_team_id UUID,
+  p_game_id UUID,
+  p_device_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_device_id UUID;
+  v_team_name TEXT;
+  v_team_number INTEGER;
+  v_is_captain BOOLEAN;
+BEGIN
+  -- Lock the row for update to prevent race conditions
+  SELECT device_id, team_name, team_number
+  INTO v_current_device_id, v_team_name, v_team_number
+  FROM teams
+  WHERE id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  -- If team not found, return error
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'TEAM_NOT_FOUND',
+      'message', 'Team does not exist or does not belong to this game'
+    );
+  END IF;
+
+  -- Members of the team are already claimed (idempotent)
+  SELECT is_captain
+  INTO v_is_captain
+  FROM team_members
+  WHERE team_id = p_team_id AND device_id = p_device_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_claimed', true,
+      'is_captain', v_is_captain,
+      'team_name', v_team_name,
+      'team_number', v_team_number
+    );
+  END IF;
+
+  -- A team with a device belongs to its members; others must join it first
+  IF v_current_device_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'TEAM_ALREADY_CLAIMED',
+      'message', 'This device has not joined this team'
+    );
+  END IF;
+
+  -- Claim the team (device_id is null at this point)
+  UPDATE teams
+  SET device_id = p_device_id
+  WHERE id = p_team_id;
+
+  INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+  VALUES (p_game_id, p_team_id, p_device_id, left(v_team_name, 30), TRUE)
+  ON CONFLICT (game_id, device_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_claimed', false,
+    'is_captain', true,
+    'team_name', v_team_name,
+    'team_number', v_team_number
+  );
+END;
+$$;
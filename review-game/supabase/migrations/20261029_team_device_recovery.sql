@@ -0,0 +1,499 @@
+-- Migration: Teacher-controlled team handoff and lost-device recovery
+-- Description: When a captain's device dies or its localStorage is cleared,
+--              the browser generates a new device ID and the team stays
+--              claimed by a device nobody has any more. The teacher can now:
+--                - release_team_device: remove the captain's device, clear
+--                  teams.device_id and issue a one-time rejoin code
+--                - transfer_team_captain: hand the captaincy to another member
+--              A student redeems the rejoin code from a new device with
+--              redeem_rejoin_code and becomes the captain again. Every
+--              release, transfer and reclaim is recorded in
+--              team_device_events. While a rejoin code is outstanding, a
+--              captainless team cannot be claimed without it.
+-- Date: 2026-10-29
+
+-- =====================================================
+-- 1. Audit trail
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.team_device_events (
+  id                     UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id                UUID        NOT NULL REFERENCES public.games(id)    ON DELETE CASCADE,
+  team_id                UUID        NOT NULL REFERENCES public.teams(id)    ON DELETE CASCADE,
+  -- Keep in sync with TeamDeviceAction in types/game.ts
+  action                 TEXT        NOT NULL,
+  previous_device_id     UUID,
+  new_device_id          UUID,
+  -- Display names at the time of the change; members may leave afterwards
+  previous_display_name  TEXT,
+  new_display_name       TEXT,
+  -- Teacher who made the change; NULL when a student redeemed a rejoin code
+  actor_id               UUID        REFERENCES public.profiles(id)          ON DELETE SET NULL,
+  created_at             TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+
+  CONSTRAINT chk_team_device_events_action CHECK (action IN (
+    'released',
+    'transferred',
+    'reclaimed'
+  ))
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_device_events_team_created
+  ON public.team_device_events(team_id, created_at DESC);
+
+-- RLS enabled; written by the SECURITY DEFINER functions below and read by
+-- /api/games/[gameId]/teams/[teamId]/device with the service role after an
+-- ownership check, so no policies are defined.
+ALTER TABLE public.team_device_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.team_device_events IS
+  'Append-only audit trail of captain device releases, transfers and reclaims.';
+
+-- =====================================================
+-- 2. Rejoin codes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.team_rejoin_codes (
+  -- At most one outstanding code per team; issuing a new one replaces it
+  team_id       UUID        PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  game_id       UUID        NOT NULL REFERENCES public.games(id)    ON DELETE CASCADE,
+  code          TEXT        NOT NULL,
+  -- Name the reclaiming device plays under
+  display_name  TEXT        NOT NULL,
+  expires_at    TIMESTAMPTZ NOT NULL,
+  created_by    UUID        REFERENCES public.profiles(id)          ON DELETE SET NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT uq_team_rejoin_codes_game_code UNIQUE (game_id, code),
+  CONSTRAINT chk_team_rejoin_codes_code CHECK (code ~ '^[A-Z0-9]{6}$')
+);
+
+-- RLS enabled with no policies: codes act as credentials
+ALTER TABLE public.team_rejoin_codes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.team_rejoin_codes IS
+  'One-time codes issued by the teacher so a student can reclaim a released team from a new device. Deleted when redeemed.';
+
+-- =====================================================
+-- 3. release_team_device
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.release_team_device(
+  p_game_id     UUID,
+  p_team_id     UUID,
+  p_code        TEXT,
+  p_ttl_minutes INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_name   TEXT;
+  v_captain     team_members%ROWTYPE;
+  v_prev_name   TEXT;
+  v_expires_at  TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = p_game_id AND teacher_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'unauthorized');
+  END IF;
+
+  SELECT team_name INTO v_team_name
+  FROM teams
+  WHERE id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_not_found');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_rejoin_codes
+    WHERE game_id = p_game_id AND code = p_code AND team_id <> p_team_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'code_taken');
+  END IF;
+
+  SELECT * INTO v_captain
+  FROM team_members
+  WHERE team_id = p_team_id AND is_captain;
+
+  -- Releasing again (e.g. after the code expired) keeps the original name
+  SELECT display_name INTO v_prev_name
+  FROM team_rejoin_codes
+  WHERE team_id = p_team_id;
+
+  v_prev_name := COALESCE(v_captain.display_name, v_prev_name, left(v_team_name, 30));
+
+  IF v_captain.id IS NOT NULL THEN
+    DELETE FROM team_members WHERE id = v_captain.id;
+  END IF;
+
+  UPDATE teams SET device_id = NULL WHERE id = p_team_id;
+
+  v_expires_at := now() + make_interval(mins => p_ttl_minutes);
+
+  INSERT INTO team_rejoin_codes (team_id, game_id, code, display_name, expires_at, created_by)
+  VALUES (p_team_id, p_game_id, p_code, v_prev_name, v_expires_at, auth.uid())
+  ON CONFLICT (team_id) DO UPDATE
+  SET code = EXCLUDED.code,
+      expires_at = EXCLUDED.expires_at,
+      created_by = EXCLUDED.created_by,
+      created_at = now();
+
+  INSERT INTO team_device_events (game_id, team_id, action, previous_device_id, previous_display_name, actor_id)
+  VALUES (p_game_id, p_team_id, 'released', v_captain.device_id, v_prev_name, auth.uid());
+
+  RETURN jsonb_build_object(
+    'success',    true,
+    'code',       p_code,
+    'expires_at', v_expires_at
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.release_team_device(UUID, UUID, TEXT, INT) IS
+  'Removes a team captain''s device as the game teacher and issues a rejoin code valid for p_ttl_minutes.';
+
+GRANT EXECUTE ON FUNCTION public.release_team_device(UUID, UUID, TEXT, INT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_team_device(UUID, UUID, TEXT, INT) FROM anon;
+
+-- =====================================================
+-- 4. transfer_team_captain
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.transfer_team_captain(
+  p_game_id   UUID,
+  p_team_id   UUID,
+  p_member_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_captain  team_members%ROWTYPE;
+  v_member   team_members%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM games WHERE id = p_game_id AND teacher_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'unauthorized');
+  END IF;
+
+  PERFORM 1 FROM teams WHERE id = p_team_id AND game_id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_not_found');
+  END IF;
+
+  SELECT * INTO v_member
+  FROM team_members
+  WHERE id = p_member_id AND team_id = p_team_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'member_not_found');
+  END IF;
+
+  IF v_member.is_captain THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'already_captain');
+  END IF;
+
+  -- The old captain's device is the one being replaced, so it leaves the team
+  SELECT * INTO v_captain
+  FROM team_members
+  WHERE team_id = p_team_id AND is_captain;
+
+  IF v_captain.id IS NOT NULL THEN
+    DELETE FROM team_members WHERE id = v_captain.id;
+  END IF;
+
+  UPDATE team_members SET is_captain = TRUE WHERE id = v_member.id;
+  UPDATE teams SET device_id = v_member.device_id WHERE id = p_team_id;
+
+  -- An outstanding rejoin code would otherwise make a second captain
+  DELETE FROM team_rejoin_codes WHERE team_id = p_team_id;
+
+  INSERT INTO team_device_events (
+    game_id, team_id, action,
+    previous_device_id, new_device_id,
+    previous_display_name, new_display_name,
+    actor_id
+  )
+  VALUES (
+    p_game_id, p_team_id, 'transferred',
+    v_captain.device_id, v_member.device_id,
+    v_captain.display_name, v_member.display_name,
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object('success', true, 'display_name', v_member.display_name);
+END;
+$$;
+
+COMMENT ON FUNCTION public.transfer_team_captain(UUID, UUID, UUID) IS
+  'Makes another member the team captain as the game teacher, removing the previous captain''s device.';
+
+GRANT EXECUTE ON FUNCTION public.transfer_team_captain(UUID, UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_team_captain(UUID, UUID, UUID) FROM anon;
+
+-- =====================================================
+-- 5. redeem_rejoin_code
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.redeem_rejoin_code(
+  p_game_id   UUID,
+  p_code      TEXT,
+  p_device_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rejoin             team_rejoin_codes%ROWTYPE;
+  v_member             team_members%ROWTYPE;
+  v_connection_status  TEXT;
+BEGIN
+  SELECT * INTO v_rejoin
+  FROM team_rejoin_codes
+  WHERE game_id = p_game_id AND code = p_code AND expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_code');
+  END IF;
+
+  SELECT connection_status INTO v_connection_status
+  FROM teams
+  WHERE id = v_rejoin.team_id
+  FOR UPDATE;
+
+  SELECT * INTO v_member
+  FROM team_members
+  WHERE game_id = p_game_id AND device_id = p_device_id;
+
+  IF FOUND AND v_member.team_id <> v_rejoin.team_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'device_on_other_team');
+  END IF;
+
+  IF FOUND THEN
+    -- A member of the team takes over as captain
+    UPDATE team_members SET is_captain = TRUE WHERE id = v_member.id;
+  ELSE
+    INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+    VALUES (p_game_id, v_rejoin.team_id, p_device_id, v_rejoin.display_name, TRUE);
+  END IF;
+
+  UPDATE teams SET device_id = p_device_id WHERE id = v_rejoin.team_id;
+
+  DELETE FROM team_rejoin_codes WHERE team_id = v_rejoin.team_id;
+
+  INSERT INTO team_device_events (game_id, team_id, action, new_device_id, new_display_name)
+  VALUES (p_game_id, v_rejoin.team_id, 'reclaimed', p_device_id,
+          COALESCE(v_member.display_name, v_rejoin.display_name));
+
+  RETURN jsonb_build_object(
+    'success',           true,
+    'team_id',           v_rejoin.team_id,
+    'connection_status', v_connection_status
+  );
+END;
+$$;
+
+-- Service role only; the rejoin API route validates input first
+REVOKE EXECUTE ON FUNCTION public.redeem_rejoin_code(UUID, TEXT, UUID) FROM anon, authenticated;
+
+COMMENT ON FUNCTION public.redeem_rejoin_code(UUID, TEXT, UUID) IS
+  'Makes a device the captain of the team a rejoin code was issued for, then deletes the code.';
+
+-- =====================================================
+-- 6. join_team / claim_team: respect outstanding rejoin codes
+-- =====================================================
+
+-- Unchanged, except that a member joining a captainless team only becomes
+-- captain when no rejoin code is outstanding for it
+CREATE OR REPLACE FUNCTION public.join_team(
+  p_game_id      UUID,
+  p_team_id      UUID,
+  p_device_id    UUID,
+  p_display_name TEXT,
+  p_max_members  INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $body$
+DECLARE
+  v_status             TEXT;
+  v_connection_status  TEXT;
+  v_existing_team_id   UUID;
+  v_member_count       INT;
+  v_has_captain        BOOLEAN;
+  v_becomes_captain    BOOLEAN;
+BEGIN
+  IF p_display_name IS NULL OR char_length(btrim(p_display_name)) NOT BETWEEN 1 AND 30 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_display_name');
+  END IF;
+
+  SELECT status INTO v_status FROM games WHERE id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_not_found');
+  END IF;
+
+  IF v_status = 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'game_completed');
+  END IF;
+
+  -- Lock the team row to serialize joins to the same team
+  SELECT connection_status
+  INTO   v_connection_status
+  FROM   teams
+  WHERE  id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_not_found');
+  END IF;
+
+  IF v_connection_status = 'rejected' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_rejected');
+  END IF;
+
+  -- A device already on a team goes back to it
+  SELECT m.team_id, t.connection_status
+  INTO   v_existing_team_id, v_connection_status
+  FROM   team_members m
+  JOIN   teams t ON t.id = m.team_id
+  WHERE  m.game_id = p_game_id AND m.device_id = p_device_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success',           true,
+      'team_id',           v_existing_team_id,
+      'rejoined',          true,
+      'connection_status', v_connection_status
+    );
+  END IF;
+
+  SELECT COUNT(*), COALESCE(bool_or(is_captain), false)
+  INTO   v_member_count, v_has_captain
+  FROM   team_members
+  WHERE  team_id = p_team_id;
+
+  IF v_member_count >= p_max_members THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'team_full');
+  END IF;
+
+  -- Teams created before captains existed get one from their first member;
+  -- a released team waits for its rejoin code instead
+  v_becomes_captain := NOT v_has_captain AND NOT EXISTS (
+    SELECT 1 FROM team_rejoin_codes WHERE team_id = p_team_id AND expires_at > now()
+  );
+
+  INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+  VALUES (p_game_id, p_team_id, p_device_id, btrim(p_display_name), v_becomes_captain);
+
+  IF v_becomes_captain THEN
+    UPDATE teams SET device_id = p_device_id WHERE id = p_team_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success',           true,
+    'team_id',           p_team_id,
+    'is_captain',        v_becomes_captain,
+    'connection_status', v_connection_status
+  );
+END;
+$body$;
+
+-- Unchanged, except that a released team with an outstanding rejoin code
+-- cannot be claimed by an unknown device
+CREATE OR REPLACE FUNCTION public.claim_team(
+  p_team_id UUID,
+  p_game_id UUID,
+  p_device_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_device_id UUID;
+  v_team_name TEXT;
+  v_team_number INTEGER;
+  v_is_captain BOOLEAN;
+BEGIN
+  -- Lock the row for update to prevent race conditions
+  SELECT device_id, team_name, team_number
+  INTO v_current_device_id, v_team_name, v_team_number
+  FROM teams
+  WHERE id = p_team_id AND game_id = p_game_id
+  FOR UPDATE;
+
+  -- If team not found, return error
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'TEAM_NOT_FOUND',
+      'message', 'Team does not exist or does not belong to this game'
+    );
+  END IF;
+
+  -- Members of the team are already claimed (idempotent)
+  SELECT is_captain
+  INTO v_is_captain
+  FROM team_members
+  WHERE team_id = p_team_id AND device_id = p_device_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_claimed', true,
+      'is_captain', v_is_captain,
+      'team_name', v_team_name,
+      'team_number', v_team_number
+    );
+  END IF;
+
+  -- A team with a device belongs to its members; others must join it first
+  IF v_current_device_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'TEAM_ALREADY_CLAIMED',
+      'message', 'This device has not joined this team'
+    );
+  END IF;
+
+  -- A released team is reclaimed with the teacher's rejoin code
+  IF EXISTS (
+    SELECT 1 FROM team_rejoin_codes WHERE team_id = p_team_id AND expires_at > now()
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'REJOIN_CODE_REQUIRED',
+      'message', 'Enter the rejoin code from your teacher to reclaim this team'
+    );
+  END IF;
+
+  -- Claim the team (device_id is null at this point)
+  UPDATE teams
+  SET device_id = p_device_id
+  WHERE id = p_team_id;
+
+  INSERT INTO team_members (game_id, team_id, device_id, display_name, is_captain)
+  VALUES (p_game_id, p_team_id, p_device_id, left(v_team_name, 30), TRUE)
+  ON CONFLICT (game_id, device_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_claimed', false,
+    'is_captain', true,
+    'team_name', v_team_name,
+    'team_number', v_team_number
+  );
+END;
+$$;
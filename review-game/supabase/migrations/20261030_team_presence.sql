@@ -0,0 +1,101 @@
+-- Migration: Live team presence from device heartbeats
+-- Description: teams.last_seen was only written by the waiting room, so once a
+--              game started the teacher could not tell whether a silent team
+--              was thinking or offline. Student, waiting room and Quick Fire
+--              player pages now send a heartbeat through
+--              POST /api/games/[gameId]/teams/[teamId]/heartbeat:
+--                - record_team_heartbeat: updates last_seen and brings a
+--                  disconnected team back to connected
+--                - mark_stale_teams_disconnected: marks approved teams with no
+--                  heartbeat for p_stale_seconds as disconnected; run by
+--                  /api/cron/mark-stale-teams (or pg_cron, see below)
+--              'disconnected' teams were approved and stay on the board.
+-- Date: 2026-10-30
+
+-- The stale-team sweep scans connected teams by last_seen
+CREATE INDEX IF NOT EXISTS idx_teams_connection_last_seen
+  ON public.teams(connection_status, last_seen);
+
+-- =====================================================
+-- 1. record_team_heartbeat
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.record_team_heartbeat(
+  p_team_id UUID,
+  p_game_id UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_connection_status TEXT;
+BEGIN
+  -- A finished game's teams stay disconnected even if a tab is still open
+  UPDATE teams t
+  SET last_seen = now(),
+      connection_status = CASE
+        WHEN t.connection_status = 'disconnected' AND g.status <> 'completed' THEN 'connected'
+        ELSE t.connection_status
+      END
+  FROM games g
+  WHERE t.id = p_team_id
+    AND t.game_id = p_game_id
+    AND g.id = t.game_id
+  RETURNING t.connection_status INTO v_connection_status;
+
+  RETURN v_connection_status;
+END;
+$$;
+
+-- Service role only; the heartbeat API route verifies the device first
+REVOKE EXECUTE ON FUNCTION public.record_team_heartbeat(UUID, UUID) FROM anon, authenticated;
+
+COMMENT ON FUNCTION public.record_team_heartbeat(UUID, UUID) IS
+  'Records a heartbeat from a team device. Returns the team''s connection_status, or NULL when the team is not in the game.';
+
+-- =====================================================
+-- 2. mark_stale_teams_disconnected
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.mark_stale_teams_disconnected(
+  p_stale_seconds INT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE teams t
+  SET connection_status = 'disconnected'
+  FROM games g
+  WHERE g.id = t.game_id
+    AND g.status IN ('active', 'in_progress')
+    AND t.connection_status = 'connected'
+    AND t.last_seen < now() - make_interval(secs => p_stale_seconds);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_stale_teams_disconnected(INT) FROM anon, authenticated;
+
+COMMENT ON FUNCTION public.mark_stale_teams_disconnected(INT) IS
+  'Marks connected teams in running games with no heartbeat for p_stale_seconds as disconnected. Returns the number of teams marked.';
+
+-- =====================================================
+-- 3. Schedule (optional, pg_cron)
+-- =====================================================
+
+-- Vercel Cron calls /api/cron/mark-stale-teams every minute. Projects with
+-- pg_cron enabled can schedule the sweep in the database instead:
+/*
+SELECT cron.schedule(
+  'mark-stale-teams',
+  '* * * * *',
+  $$SELECT public.mark_stale_teams_disconnected(300);$$
+);
+*/
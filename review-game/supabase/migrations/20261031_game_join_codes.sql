@@ -0,0 +1,111 @@
+-- Migration: Six-digit room codes for joining games
+-- Description: Students could only join through /game/team/join/[gameId] or
+--              /game/quick-fire/player/[gameId], which in practice meant
+--              scanning the QR code. Each game now gets a 6-digit join_code
+--              that students type on /join:
+--                - Assigned by trigger when a game is created (including
+--                  duplicates) and backfilled for games still running
+--                - Unique while set; cleared when the game completes so the
+--                  code can be handed out again
+--              Codes are looked up by POST /api/games/join-code with the
+--              service role, so games RLS is unchanged.
+-- Date: 2026-10-31
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS join_code TEXT;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_join_code;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_join_code CHECK (join_code IS NULL OR join_code ~ '^[0-9]{6}$');
+
+-- Completed games have a NULL code, so uniqueness only applies to live games
+CREATE UNIQUE INDEX IF NOT EXISTS uq_games_join_code
+  ON public.games(join_code)
+  WHERE join_code IS NOT NULL;
+
+COMMENT ON COLUMN public.games.join_code IS
+  'Six-digit code students type on /join. Set while the game is not completed; NULL afterwards.';
+
+-- =====================================================
+-- 1. generate_game_join_code
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.generate_game_join_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT;
+  v_attempt INTEGER := 0;
+BEGIN
+  LOOP
+    v_code := lpad(floor(random() * 1000000)::INTEGER::TEXT, 6, '0');
+
+    IF NOT EXISTS (SELECT 1 FROM games WHERE join_code = v_code) THEN
+      RETURN v_code;
+    END IF;
+
+    v_attempt := v_attempt + 1;
+    IF v_attempt >= 50 THEN
+      RAISE EXCEPTION 'Could not generate a free game join code';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_game_join_code() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.generate_game_join_code() FROM anon, authenticated;
+
+COMMENT ON FUNCTION public.generate_game_join_code() IS
+  'Returns a random 6-digit join code not used by any game. Called by the games join_code trigger.';
+
+-- =====================================================
+-- 2. Assign and release codes with the game lifecycle
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.set_game_join_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    -- Release the code for reuse once the game is over
+    NEW.join_code := NULL;
+  ELSIF NEW.join_code IS NULL THEN
+    NEW.join_code := generate_game_join_code();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS games_set_join_code ON public.games;
+CREATE TRIGGER games_set_join_code
+  BEFORE INSERT OR UPDATE OF status, join_code ON public.games
+  FOR EACH ROW EXECUTE FUNCTION public.set_game_join_code();
+
+-- =====================================================
+-- 3. Backfill games that are still running
+-- =====================================================
+
+-- One row at a time so each new code is visible to the next uniqueness check
+DO $$
+DECLARE
+  v_game_id UUID;
+BEGIN
+  FOR v_game_id IN
+    SELECT id FROM public.games
+    WHERE join_code IS NULL
+      AND status IS DISTINCT FROM 'completed'
+  LOOP
+    UPDATE public.games
+    SET join_code = public.generate_game_join_code()
+    WHERE id = v_game_id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Migration: Revocable spectator links
+-- Description: Teachers can share a read-only view of a live game for a second
+--              classroom screen or for families at open house. A spectator
+--              link is /game/spectate/[token]; the token is looked up by
+--              GET /api/games/spectate/[token], which returns the board,
+--              scores and only the clue text and answers already shown in
+--              the room.
+--                - One link per game; creating a new one replaces the old
+--                  token, deleting the row revokes it
+--                - Managed by /api/games/[gameId]/spectator-link after the
+--                  ownership check, with the service role
+-- Date: 2026-11-01
+
+CREATE TABLE IF NOT EXISTS public.game_spectator_links (
+  game_id UUID PRIMARY KEY REFERENCES public.games(id) ON DELETE CASCADE,
+  token UUID NOT NULL DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_game_spectator_links_token UNIQUE (token)
+);
+
+-- RLS enabled with no policies: anon can read active games, so the token must
+-- not be readable from the client
+ALTER TABLE public.game_spectator_links ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.game_spectator_links IS
+  'Active spectator link token per game. Not read or written directly by clients.';
+COMMENT ON COLUMN public.game_spectator_links.token IS
+  'Secret in /game/spectate/[token]; replaced on regenerate, row deleted on revoke';
@@ -0,0 +1,86 @@
+-- Migration: Game recaps
+-- Description: Once a game ended, only teams.score was left to look at. This
+--              keeps the order clues were played and a persisted recap built
+--              from it when the game ends:
+--                - game_clue_plays: one row per clue as it is marked used on
+--                  the board (appended to games.selected_questions), written
+--                  by trigger so no client changes are needed
+--                - game_recaps: the recap shown on /dashboard/games/[gameId]/recap
+--                  (clue timeline, judgments, Daily Double wagers, Final
+--                  Jeopardy results and score history), stored as JSONB so it
+--                  survives later edits to the question bank. share_token is
+--                  the secret in the public /game/results/[token] page.
+--              Both tables are read and written with the service role after an
+--              ownership check, so no RLS policies are defined.
+-- Date: 2026-11-02
+
+-- =====================================================
+-- 1. game_clue_plays
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.game_clue_plays (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id     UUID        NOT NULL REFERENCES public.games(id)     ON DELETE CASCADE,
+  question_id UUID        REFERENCES public.questions(id)          ON DELETE SET NULL,
+  round       INTEGER     NOT NULL DEFAULT 1,
+  played_at   TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_clue_plays_game_played
+  ON public.game_clue_plays(game_id, played_at);
+
+ALTER TABLE public.game_clue_plays ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.game_clue_plays IS
+  'Order in which clues were played, logged when they are added to games.selected_questions.';
+
+CREATE OR REPLACE FUNCTION public.log_game_clue_plays()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- selected_questions is TEXT[]; skip anything that is not a question id
+  -- rather than failing the board's update
+  INSERT INTO game_clue_plays (game_id, question_id, round)
+  SELECT NEW.id, q.id::UUID, COALESCE(NEW.current_round, 1)
+  FROM unnest(NEW.selected_questions) WITH ORDINALITY AS q(id, ord)
+  WHERE q.id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND NOT (q.id = ANY (COALESCE(OLD.selected_questions, ARRAY[]::TEXT[])))
+    AND EXISTS (SELECT 1 FROM questions WHERE questions.id = q.id::UUID)
+  ORDER BY q.ord;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_game_clue_plays() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.log_game_clue_plays() FROM anon, authenticated;
+
+DROP TRIGGER IF EXISTS games_log_clue_plays ON public.games;
+CREATE TRIGGER games_log_clue_plays
+  AFTER UPDATE OF selected_questions ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_game_clue_plays();
+
+-- =====================================================
+-- 2. game_recaps
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.game_recaps (
+  game_id     UUID        PRIMARY KEY REFERENCES public.games(id) ON DELETE CASCADE,
+  -- GameRecap in types/game.ts
+  recap       JSONB       NOT NULL,
+  share_token UUID        NOT NULL DEFAULT gen_random_uuid(),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_game_recaps_share_token UNIQUE (share_token)
+);
+
+ALTER TABLE public.game_recaps ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.game_recaps IS
+  'Recap of a finished game, built by lib/api/gameRecap. Not read or written directly by clients.';
+COMMENT ON COLUMN public.game_recaps.share_token IS
+  'Secret in /game/results/[token]; kept when the recap is rebuilt';
@@ -0,0 +1,207 @@
+-- Migration: Question hints
+-- Description: Lets question authors add an optional hint to each question.
+--              On the board the teacher can reveal the hint to every device;
+--              the clue is then worth less to whoever answers it:
+--                - questions.hint: the hint text, NULL when there is none
+--                - games.hint_penalty_percent: how much of the clue's value a
+--                  revealed hint takes off (0 keeps the full value)
+--                - games.hint_revealed: whether the hint of the open clue is
+--                  showing, saved with the rest of the live state so the
+--                  board survives a refresh
+--                - game_hint_reveals: which clues had their hint revealed,
+--                  written by trigger and read when building the game recap
+--              duplicate_question_bank is updated to copy the new column.
+-- Date: 2026-11-03
+
+-- =====================================================
+-- 1. questions.hint
+-- =====================================================
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS hint TEXT;
+
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS chk_questions_hint;
+ALTER TABLE public.questions
+  ADD CONSTRAINT chk_questions_hint
+  CHECK (hint IS NULL OR char_length(hint) BETWEEN 1 AND 300);
+
+COMMENT ON COLUMN public.questions.hint IS
+  'Optional hint the teacher can reveal during a game (up to 300 characters)';
+
+-- =====================================================
+-- 2. Game settings and live state
+-- =====================================================
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS hint_penalty_percent SMALLINT NOT NULL DEFAULT 50,
+  ADD COLUMN IF NOT EXISTS hint_revealed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_hint_penalty_percent;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_hint_penalty_percent
+  CHECK (hint_penalty_percent BETWEEN 0 AND 90);
+
+COMMENT ON COLUMN public.games.hint_penalty_percent IS
+  'Percentage taken off a clue''s value once its hint is revealed (0-90)';
+COMMENT ON COLUMN public.games.hint_revealed IS
+  'Whether the hint of current_question_id is showing; written by PATCH /api/games/[gameId]/state';
+
+-- =====================================================
+-- 3. game_hint_reveals
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.game_hint_reveals (
+  game_id     UUID        NOT NULL REFERENCES public.games(id)     ON DELETE CASCADE,
+  question_id UUID        NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  revealed_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  CONSTRAINT uq_game_hint_reveals_game_question UNIQUE (game_id, question_id)
+);
+
+ALTER TABLE public.game_hint_reveals ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.game_hint_reveals IS
+  'Clues whose hint was revealed, logged when games.hint_revealed is turned on. Read with the service role.';
+
+CREATE OR REPLACE FUNCTION public.log_game_hint_reveal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.hint_revealed
+     AND NEW.current_question_id IS NOT NULL
+     AND (NOT OLD.hint_revealed OR NEW.current_question_id IS DISTINCT FROM OLD.current_question_id) THEN
+    INSERT INTO game_hint_reveals (game_id, question_id)
+    VALUES (NEW.id, NEW.current_question_id)
+    -- Keep the latest reveal so a clue replayed after Play Again is dated correctly
+    ON CONFLICT ON CONSTRAINT uq_game_hint_reveals_game_question
+    DO UPDATE SET revealed_at = EXCLUDED.revealed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_game_hint_reveal() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.log_game_hint_reveal() FROM anon, authenticated;
+
+DROP TRIGGER IF EXISTS games_log_hint_reveal ON public.games;
+CREATE TRIGGER games_log_hint_reveal
+  AFTER UPDATE OF hint_revealed, current_question_id ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_game_hint_reveal();
+
+-- =====================================================
+-- 4. duplicate_question_bank copies hints
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION duplicate_question_bank(
+  source_bank_id UUID,
+  new_owner_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_bank_record RECORD;
+  original_bank_record RECORD;
+  questions_count INTEGER;
+BEGIN
+  -- 1. Fetch original bank (with row lock to prevent concurrent modifications)
+  SELECT * INTO original_bank_record
+  FROM question_banks
+  WHERE id = source_bank_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source question bank not found: %', source_bank_id;
+  END IF;
+
+  -- 2. Verify access (must be public OR owned by requester)
+  IF NOT original_bank_record.is_public AND original_bank_record.owner_id != new_owner_id THEN
+    RAISE EXCEPTION 'Access denied to question bank: %', source_bank_id;
+  END IF;
+
+  -- 3. Create new bank (will fail atomically if any issues)
+  INSERT INTO question_banks (
+    owner_id,
+    title,
+    subject,
+    description,
+    difficulty,
+    is_custom,
+    is_public
+  ) VALUES (
+    new_owner_id,
+    'Copy of ' || original_bank_record.title,
+    original_bank_record.subject,
+    original_bank_record.description,
+    original_bank_record.difficulty,
+    true,  -- Duplicates are always custom
+    false  -- Duplicates start as private
+  )
+  RETURNING * INTO new_bank_record;
+
+  -- 4. Duplicate all questions atomically, including mc_options, accepted_answers and hints
+  INSERT INTO questions (
+    bank_id,
+    category,
+    point_value,
+    position,
+    question_text,
+    answer_text,
+    teacher_notes,
+    image_url,
+    mc_options,
+    accepted_answers,
+    hint
+  )
+  SELECT
+    new_bank_record.id,
+    category,
+    point_value,
+    position,
+    question_text,
+    answer_text,
+    teacher_notes,
+    image_url,
+    mc_options,
+    accepted_answers,
+    hint
+  FROM questions
+  WHERE bank_id = source_bank_id
+  ORDER BY position;
+
+  -- 5. Get count of duplicated questions
+  GET DIAGNOSTICS questions_count = ROW_COUNT;
+
+  -- 6. Return success with new bank data
+  RETURN json_build_object(
+    'id', new_bank_record.id,
+    'title', new_bank_record.title,
+    'subject', new_bank_record.subject,
+    'description', new_bank_record.description,
+    'difficulty', new_bank_record.difficulty,
+    'is_custom', new_bank_record.is_custom,
+    'is_public', new_bank_record.is_public,
+    'owner_id', new_bank_record.owner_id,
+    'created_at', new_bank_record.created_at,
+    'updated_at', new_bank_record.updated_at,
+    'questions_count', questions_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE EXCEPTION 'Failed to duplicate question bank: %', SQLERRM;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.duplicate_question_bank(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION duplicate_question_bank IS
+  'Atomically duplicates a question bank with all its questions, including mc_options, accepted_answers and hint. Verifies access permissions (public OR owned by requester). Returns JSON with new bank data and question count.';
@@ -0,0 +1,32 @@
+-- Migration: Daily Double placement modes
+-- Description: Games chose exactly two Daily Double cells at creation. Teachers
+--              can now pick how the cells are placed and how many there are:
+--                - games.daily_double_mode: 'manual' (cells picked when the
+--                  game is created or edited), 'random' (picked when the game
+--                  starts), 'weighted' (picked when the game starts, favoring
+--                  the higher-value rows) or 'none'
+--                - games.daily_double_count: Daily Doubles on the first board;
+--                  Double Jeopardy has one more
+--              Existing games keep their cells as 'manual' games with two.
+-- Date: 2026-11-04
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS daily_double_mode TEXT NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS daily_double_count SMALLINT NOT NULL DEFAULT 2;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_daily_double_mode;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_daily_double_mode
+  CHECK (daily_double_mode IN ('manual', 'random', 'weighted', 'none'));
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_daily_double_count;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_daily_double_count
+  CHECK (daily_double_count BETWEEN 0 AND 4);
+
+COMMENT ON COLUMN public.games.daily_double_mode IS
+  'How Daily Double cells are placed: manual, random or weighted (both picked by POST /api/games/[gameId]/start), or none';
+COMMENT ON COLUMN public.games.daily_double_count IS
+  'Daily Doubles on the first board (0-4); the Double Jeopardy board has one more';
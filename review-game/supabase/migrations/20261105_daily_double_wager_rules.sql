@@ -0,0 +1,64 @@
+-- Migration: Daily Double wager rules
+-- Description: Daily Double wagers were checked only in the board's modal,
+--              against a hardcoded range. Each game now has its own rules,
+--              and the wager is checked and recorded by
+--              POST /api/games/[gameId]/daily-double/wager:
+--                - games.daily_double_min_wager: smallest wager allowed
+--                - games.daily_double_max_wager: a team may wager up to its
+--                  score or this, whichever is larger; NULL uses the round's
+--                  highest clue value instead, as on the TV show
+--                - games.daily_double_allow_negative: whether a team below
+--                  zero may wager; if not it plays the clue for its value
+--              Daily Double wagers are recorded in wagers, one row per team
+--              per clue, so the one-row-per-team constraint now applies to
+--              Final Jeopardy only.
+-- Date: 2026-11-05
+
+-- =====================================================
+-- 1. Game settings
+-- =====================================================
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS daily_double_min_wager INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS daily_double_max_wager INTEGER DEFAULT 1000,
+  ADD COLUMN IF NOT EXISTS daily_double_allow_negative BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_daily_double_min_wager;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_daily_double_min_wager
+  CHECK (daily_double_min_wager BETWEEN 1 AND 1000);
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_daily_double_max_wager;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_daily_double_max_wager
+  CHECK (daily_double_max_wager IS NULL OR daily_double_max_wager BETWEEN 1 AND 100000);
+
+COMMENT ON COLUMN public.games.daily_double_min_wager IS
+  'Smallest Daily Double wager (1-1000)';
+COMMENT ON COLUMN public.games.daily_double_max_wager IS
+  'A team may wager up to its score or this, whichever is larger; NULL uses the round''s highest clue value';
+COMMENT ON COLUMN public.games.daily_double_allow_negative IS
+  'Whether a team below zero may wager on a Daily Double; if not it plays the clue for its value';
+
+-- =====================================================
+-- 2. One Daily Double wager per team per clue
+-- =====================================================
+
+ALTER TABLE public.wagers
+  DROP CONSTRAINT IF EXISTS uq_wagers_game_team_type;
+ALTER TABLE public.wagers
+  DROP CONSTRAINT IF EXISTS uq_wagers_game_team_type_question;
+ALTER TABLE public.wagers
+  ADD CONSTRAINT uq_wagers_game_team_type_question
+  UNIQUE (game_id, team_id, wager_type, question_id);
+
+-- Final Jeopardy rows have no question_id, which the constraint above treats
+-- as distinct; keep them to one per team
+CREATE UNIQUE INDEX IF NOT EXISTS uq_wagers_final_jeopardy_team
+  ON public.wagers(game_id, team_id)
+  WHERE wager_type = 'final_jeopardy';
+
+COMMENT ON TABLE public.wagers IS
+  'Final Jeopardy: one row per (game_id, team_id), written by SECURITY DEFINER functions. Daily Double: one row per (game_id, team_id, question_id), written by POST /api/games/[gameId]/daily-double/wager. Not written directly by clients.';
@@ -0,0 +1,92 @@
+-- Migration: Tie-breaker round
+-- Description: A game that ends with teams tied for first can be settled by a
+--              sudden-death clue that only the tied teams may buzz on; the
+--              first correct answer wins.
+--                - games.tie_breaker_question: clue written ahead of time;
+--                  NULL draws an unplayed clue from the game's banks
+--                - current_phase gains 'tie_breaker'
+--                - tie_breakers: one row per game with the tied teams, the clue
+--                  being played and, once decided, the winner
+--                - tie_breaker_buzzes: buzzes on tie-breaker clues, ordered the
+--                  same way as buzzes
+--              Started, judged and ended through /api/games/[gameId]/tie-breaker.
+-- Date: 2026-11-06
+
+-- =====================================================
+-- 1. Game settings and phase
+-- =====================================================
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS tie_breaker_question JSONB;
+
+COMMENT ON COLUMN public.games.tie_breaker_question IS
+  'Tie-breaker clue { category, question, answer, accepted_answers? } written ahead of time; NULL draws one from the game''s banks';
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_current_phase;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_current_phase
+  CHECK (current_phase IN (
+    'regular',
+    'double_jeopardy',
+    'final_jeopardy_wager',
+    'final_jeopardy_answer',
+    'final_jeopardy_reveal',
+    'tie_breaker'
+  ));
+
+COMMENT ON COLUMN public.games.current_phase IS
+  'Tracks the current phase of the game: regular, double_jeopardy, final_jeopardy_wager, final_jeopardy_answer, final_jeopardy_reveal, or tie_breaker';
+
+-- =====================================================
+-- 2. Tie-breakers
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tie_breakers (
+  game_id             UUID        PRIMARY KEY REFERENCES public.games(id) ON DELETE CASCADE,
+  -- Teams tied for first when the tie-breaker started; only they may buzz
+  team_ids            UUID[]      NOT NULL,
+  -- Clue being played, counting from 1; each new clue starts a fresh queue
+  clue_number         SMALLINT    NOT NULL DEFAULT 1,
+  -- { category, question, answer, accepted_answers? } of the current clue
+  clue                JSONB       NOT NULL,
+  -- Bank questions drawn so far, so a later clue is never repeated
+  drawn_question_ids  UUID[]      NOT NULL DEFAULT '{}',
+  -- Set when the teacher opens buzzers on the current clue
+  buzzers_open_at     TIMESTAMPTZ,
+  winner_team_id      UUID        REFERENCES public.teams(id) ON DELETE SET NULL,
+  started_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  decided_at          TIMESTAMPTZ,
+
+  CONSTRAINT chk_tie_breakers_team_ids CHECK (cardinality(team_ids) >= 2),
+  CONSTRAINT chk_tie_breakers_clue_number CHECK (clue_number >= 1)
+);
+
+CREATE TABLE IF NOT EXISTS public.tie_breaker_buzzes (
+  game_id             UUID        NOT NULL REFERENCES public.tie_breakers(game_id) ON DELETE CASCADE,
+  clue_number         SMALLINT    NOT NULL,
+  team_id             UUID        NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- Derived as for buzzes.effective_at (see computeEffectiveBuzzTime)
+  effective_at        TIMESTAMPTZ NOT NULL,
+  server_received_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set when the team answers incorrectly; it cannot buzz again on the clue
+  dismissed_at        TIMESTAMPTZ,
+
+  -- One buzz per team per clue; a 23505 is treated as "already buzzed"
+  CONSTRAINT uq_tie_breaker_buzzes_clue_team UNIQUE (game_id, clue_number, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tie_breaker_buzzes_clue_order
+  ON public.tie_breaker_buzzes(game_id, clue_number, effective_at);
+
+-- Read and written only by server-side API routes with the service role, as
+-- for buzzes; no policies are defined
+ALTER TABLE public.tie_breakers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tie_breaker_buzzes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.tie_breakers IS
+  'Sudden-death tie-breaker of a game, one row per game. winner_team_id is the recorded result; '
+  'the row is removed when the teacher ends the tie-breaker without a winner.';
+COMMENT ON TABLE public.tie_breaker_buzzes IS
+  'One row per (game_id, clue_number, team_id). Written by POST /api/games/[gameId]/tie-breaker/buzz; '
+  'queue order is effective_at ASC, server_received_at ASC.';
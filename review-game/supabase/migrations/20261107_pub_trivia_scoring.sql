@@ -0,0 +1,23 @@
+-- Migration: Quick Fire scoring profiles
+-- Description: Quick Fire (pub trivia) scoring was fixed in code: a 1000/800/
+--              600/400 bracket table by elapsed time and two wrong options
+--              eliminated as the timer runs. Each game now stores its own
+--              profile, chosen at creation:
+--                - games.pub_trivia_scoring: { mode, maxPoints, brackets,
+--                  minPoints, eliminationEnabled }; see
+--                  lib/utils/pubTriviaScoring.ts
+--              NULL keeps the original brackets with elimination, so existing
+--              games score exactly as before.
+-- Date: 2026-11-07
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS pub_trivia_scoring JSONB;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_pub_trivia_scoring;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_pub_trivia_scoring
+  CHECK (pub_trivia_scoring IS NULL OR jsonb_typeof(pub_trivia_scoring) = 'object');
+
+COMMENT ON COLUMN public.games.pub_trivia_scoring IS
+  'Quick Fire scoring profile (mode, maxPoints, brackets, minPoints, eliminationEnabled); NULL uses the default brackets with elimination';
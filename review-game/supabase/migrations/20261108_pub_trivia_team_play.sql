@@ -0,0 +1,37 @@
+-- Migration: Quick Fire team play
+-- Description: Quick Fire (pub trivia) players were strictly individual. A game
+--              can now be played in teams: players join one of the teams the
+--              teacher named, answer individually, and each team's round score
+--              is the average or the best of its members' points.
+--                - games.pub_trivia_teams: { names, aggregate }; see
+--                  lib/utils/pubTriviaTeams.ts. NULL keeps individual play.
+--                - teams.pub_trivia_team: the team a player joined. Player
+--                  rows live in teams (team_number is the player slot), so
+--                  this is the named team, not the row's own team.
+--              Team standings are computed from pub_trivia_answers, so no
+--              team scores are stored.
+-- Date: 2026-11-08
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS pub_trivia_teams JSONB;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_pub_trivia_teams;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_pub_trivia_teams
+  CHECK (pub_trivia_teams IS NULL OR jsonb_typeof(pub_trivia_teams) = 'object');
+
+COMMENT ON COLUMN public.games.pub_trivia_teams IS
+  'Quick Fire team play (names, aggregate: average|best); NULL for individual play';
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS pub_trivia_team TEXT;
+
+ALTER TABLE public.teams
+  DROP CONSTRAINT IF EXISTS chk_teams_pub_trivia_team_length;
+ALTER TABLE public.teams
+  ADD CONSTRAINT chk_teams_pub_trivia_team_length
+  CHECK (pub_trivia_team IS NULL OR char_length(pub_trivia_team) BETWEEN 1 AND 50);
+
+COMMENT ON COLUMN public.teams.pub_trivia_team IS
+  'Quick Fire team play: name of the team this player joined (one of games.pub_trivia_teams.names)';
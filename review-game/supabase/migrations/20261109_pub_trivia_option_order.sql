@@ -0,0 +1,24 @@
+-- Migration: Quick Fire option order
+-- Description: Quick Fire (pub trivia) shuffled each question's options in
+--              the question start route and only broadcast the result, and
+--              the teacher's browser picked which wrong options to
+--              eliminate. A reloaded teacher page fell back to unshuffled
+--              database order, so its positions no longer matched what
+--              players saw. The start route now stores both:
+--                - games.pub_trivia_option_order: { [questionId]: { options,
+--                  eliminationOrder } }; see lib/utils/pubTriviaOptions.ts
+--              Eliminations follow from the elimination order and the time
+--              since the question started, so they need no further writes.
+-- Date: 2026-11-09
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS pub_trivia_option_order JSONB;
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS chk_games_pub_trivia_option_order;
+ALTER TABLE public.games
+  ADD CONSTRAINT chk_games_pub_trivia_option_order
+  CHECK (pub_trivia_option_order IS NULL OR jsonb_typeof(pub_trivia_option_order) = 'object');
+
+COMMENT ON COLUMN public.games.pub_trivia_option_order IS
+  'Quick Fire: each started question''s shuffled options and elimination order, keyed by question ID';
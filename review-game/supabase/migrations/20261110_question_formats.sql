@@ -0,0 +1,171 @@
+-- Migration: Question formats
+-- Description: Quick Fire (pub trivia) could only ask 4-option multiple
+--              choice built from questions.mc_options. Questions now have a
+--              format that decides how Quick Fire asks and scores them:
+--                - questions.question_format: multiple_choice (default),
+--                  true_false (answer_text is "True" or "False"), numeric
+--                  (answer_text is a number) or ordering
+--                - questions.numeric_tolerance: for numeric questions, how
+--                  far off an answer other than the closest may be and still
+--                  score part of the points (the closest always scores in full)
+--                - questions.ordering_items: for ordering questions, the
+--                  items in their correct order
+--              question_text and answer_text keep their meaning, so Jeopardy
+--              plays every format as a written clue. duplicate_question_bank
+--              is updated to copy the new columns.
+-- Date: 2026-11-10
+
+-- =====================================================
+-- 1. Format columns
+-- =====================================================
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS question_format TEXT NOT NULL DEFAULT 'multiple_choice',
+  ADD COLUMN IF NOT EXISTS numeric_tolerance NUMERIC,
+  ADD COLUMN IF NOT EXISTS ordering_items JSONB;
+
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS chk_questions_question_format;
+ALTER TABLE public.questions
+  ADD CONSTRAINT chk_questions_question_format
+  CHECK (question_format IN ('multiple_choice', 'true_false', 'numeric', 'ordering'));
+
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS chk_questions_numeric_tolerance;
+ALTER TABLE public.questions
+  ADD CONSTRAINT chk_questions_numeric_tolerance
+  CHECK (numeric_tolerance IS NULL OR numeric_tolerance >= 0);
+
+ALTER TABLE public.questions
+  DROP CONSTRAINT IF EXISTS chk_questions_ordering_items;
+ALTER TABLE public.questions
+  ADD CONSTRAINT chk_questions_ordering_items
+  CHECK (
+    ordering_items IS NULL
+    OR (jsonb_typeof(ordering_items) = 'array' AND jsonb_array_length(ordering_items) BETWEEN 3 AND 6)
+  );
+
+COMMENT ON COLUMN public.questions.question_format IS
+  'How Quick Fire asks the question: multiple_choice, true_false, numeric or ordering. Jeopardy always uses question_text/answer_text.';
+COMMENT ON COLUMN public.questions.numeric_tolerance IS
+  'Numeric questions: the closest answer always scores in full; other answers this close to answer_text score part';
+COMMENT ON COLUMN public.questions.ordering_items IS
+  'Ordering questions: 3-6 items in their correct order, e.g. ["Mercury","Venus","Earth"]';
+
+-- =====================================================
+-- 2. duplicate_question_bank copies formats
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION duplicate_question_bank(
+  source_bank_id UUID,
+  new_owner_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  new_bank_record RECORD;
+  original_bank_record RECORD;
+  questions_count INTEGER;
+BEGIN
+  -- 1. Fetch original bank (with row lock to prevent concurrent modifications)
+  SELECT * INTO original_bank_record
+  FROM question_banks
+  WHERE id = source_bank_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Source question bank not found: %', source_bank_id;
+  END IF;
+
+  -- 2. Verify access (must be public OR owned by requester)
+  IF NOT original_bank_record.is_public AND original_bank_record.owner_id != new_owner_id THEN
+    RAISE EXCEPTION 'Access denied to question bank: %', source_bank_id;
+  END IF;
+
+  -- 3. Create new bank (will fail atomically if any issues)
+  INSERT INTO question_banks (
+    owner_id,
+    title,
+    subject,
+    description,
+    difficulty,
+    is_custom,
+    is_public
+  ) VALUES (
+    new_owner_id,
+    'Copy of ' || original_bank_record.title,
+    original_bank_record.subject,
+    original_bank_record.description,
+    original_bank_record.difficulty,
+    true,  -- Duplicates are always custom
+    false  -- Duplicates start as private
+  )
+  RETURNING * INTO new_bank_record;
+
+  -- 4. Duplicate all questions atomically, including mc_options, accepted_answers, hints and formats
+  INSERT INTO questions (
+    bank_id,
+    category,
+    point_value,
+    position,
+    question_text,
+    answer_text,
+    teacher_notes,
+    image_url,
+    mc_options,
+    accepted_answers,
+    hint,
+    question_format,
+    numeric_tolerance,
+    ordering_items
+  )
+  SELECT
+    new_bank_record.id,
+    category,
+    point_value,
+    position,
+    question_text,
+    answer_text,
+    teacher_notes,
+    image_url,
+    mc_options,
+    accepted_answers,
+    hint,
+    question_format,
+    numeric_tolerance,
+    ordering_items
+  FROM questions
+  WHERE bank_id = source_bank_id
+  ORDER BY position;
+
+  -- 5. Get count of duplicated questions
+  GET DIAGNOSTICS questions_count = ROW_COUNT;
+
+  -- 6. Return success with new bank data
+  RETURN json_build_object(
+    'id', new_bank_record.id,
+    'title', new_bank_record.title,
+    'subject', new_bank_record.subject,
+    'description', new_bank_record.description,
+    'difficulty', new_bank_record.difficulty,
+    'is_custom', new_bank_record.is_custom,
+    'is_public', new_bank_record.is_public,
+    'owner_id', new_bank_record.owner_id,
+    'created_at', new_bank_record.created_at,
+    'updated_at', new_bank_record.updated_at,
+    'questions_count', questions_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE EXCEPTION 'Failed to duplicate question bank: %', SQLERRM;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.duplicate_question_bank(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION duplicate_question_bank IS
+  'Atomically duplicates a question bank with all its questions, including mc_options, accepted_answers, hint and question format settings. Verifies access permissions (public OR owned by requester). Returns JSON with new bank data and question count.';
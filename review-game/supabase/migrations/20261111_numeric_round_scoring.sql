@@ -0,0 +1,108 @@
+-- Migration: Round-end scoring for numeric Quick Fire answers
+-- Description: Numeric answers are ranked against each other when the teacher
+--              ends the round, so the question/answer route records them
+--              unscored and question/end scores them:
+--                - pub_trivia_answers.pending_points: what a numeric answer
+--                  earns with full credit, from how fast it came in. NULL
+--                  once the answer is scored.
+--                - score_pub_trivia_answer scores one pending answer and adds
+--                  its points to the player in one transaction. Answers that
+--                  are already scored are skipped, so retrying a round end
+--                  that failed part-way only finishes the answers it left.
+--                - A trigger rejects answers to a question that is no longer
+--                  open. It locks the games row, so an answer either lands
+--                  before question/end closes the round and is ranked with
+--                  the others, or is refused.
+-- Date: 2026-11-11
+
+-- =====================================================
+-- 1. Pending points
+-- =====================================================
+
+ALTER TABLE public.pub_trivia_answers
+  ADD COLUMN IF NOT EXISTS pending_points INTEGER;
+
+COMMENT ON COLUMN public.pub_trivia_answers.pending_points IS
+  'Numeric answers: points earned with full credit, set on submit; NULL once ranked and scored at the end of the round';
+
+-- Used by question/end to find the answers a failed round end left unscored
+CREATE INDEX IF NOT EXISTS idx_pub_trivia_answers_pending
+  ON public.pub_trivia_answers(game_id, question_id)
+  WHERE pending_points IS NOT NULL;
+
+-- =====================================================
+-- 2. score_pub_trivia_answer
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.score_pub_trivia_answer(
+  p_answer_id UUID,
+  p_is_correct BOOLEAN,
+  p_points_earned INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player_id UUID;
+  v_question_id UUID;
+BEGIN
+  UPDATE pub_trivia_answers
+  SET is_correct = p_is_correct,
+      points_earned = p_points_earned,
+      pending_points = NULL
+  WHERE id = p_answer_id
+    AND pending_points IS NOT NULL
+  RETURNING player_id, question_id INTO v_player_id, v_question_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM increment_pub_trivia_score(v_player_id, p_points_earned, v_question_id);
+  RETURN TRUE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.score_pub_trivia_answer(UUID, BOOLEAN, INTEGER) IS
+  'Scores a pending numeric Quick Fire answer and adds its points to the player. Returns false when the answer was already scored.';
+
+GRANT EXECUTE ON FUNCTION public.score_pub_trivia_answer(UUID, BOOLEAN, INTEGER) TO service_role;
+
+-- =====================================================
+-- 3. Answers only for the open question
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.pub_trivia_answers_require_open_question()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- FOR SHARE waits for a question/end update in flight and then re-checks
+  -- the row, so an answer cannot slip in after the round was closed
+  PERFORM 1
+  FROM games
+  WHERE id = NEW.game_id
+    AND current_question_started_at IS NOT NULL
+    AND pub_trivia_question_order ->> COALESCE(current_question_index, 0) = NEW.question_id::TEXT
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    -- 55000 = object_not_in_prerequisite_state; the answer route maps it to 409
+    RAISE EXCEPTION 'Question is no longer open' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pub_trivia_answers_require_open_question() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.pub_trivia_answers_require_open_question() FROM anon, authenticated;
+
+DROP TRIGGER IF EXISTS pub_trivia_answers_require_open_question ON public.pub_trivia_answers;
+CREATE TRIGGER pub_trivia_answers_require_open_question
+  BEFORE INSERT ON public.pub_trivia_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pub_trivia_answers_require_open_question();
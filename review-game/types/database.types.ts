@@ -64,72 +64,427 @@ export type Database = {
           },
         ]
       }
+      buzzes: {
+        Row: {
+          client_timestamp: number | null
+          clock_offset_ms: number | null
+          created_at: string
+          device_id: string | null
+          dismissed_at: string | null
+          effective_at: string
+          game_id: string
+          id: string
+          question_id: string
+          server_received_at: string
+          team_id: string
+        }
+        Insert: {
+          client_timestamp?: number | null
+          clock_offset_ms?: number | null
+          created_at?: string
+          device_id?: string | null
+          dismissed_at?: string | null
+          effective_at: string
+          game_id: string
+          id?: string
+          question_id: string
+          server_received_at?: string
+          team_id: string
+        }
+        Update: {
+          client_timestamp?: number | null
+          clock_offset_ms?: number | null
+          created_at?: string
+          device_id?: string | null
+          dismissed_at?: string | null
+          effective_at?: string
+          game_id?: string
+          id?: string
+          question_id?: string
+          server_received_at?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "buzzes_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "buzzes_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "buzzes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clue_responses: {
+        Row: {
+          answer_text: string
+          game_id: string
+          id: string
+          is_correct: boolean | null
+          judged_at: string | null
+          question_id: string
+          submitted_at: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          answer_text: string
+          game_id: string
+          id?: string
+          is_correct?: boolean | null
+          judged_at?: string | null
+          question_id: string
+          submitted_at?: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          answer_text?: string
+          game_id?: string
+          id?: string
+          is_correct?: boolean | null
+          judged_at?: string | null
+          question_id?: string
+          submitted_at?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clue_responses_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clue_responses_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clue_responses_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_clue_plays: {
+        Row: {
+          game_id: string
+          id: string
+          played_at: string
+          question_id: string | null
+          round: number
+        }
+        Insert: {
+          game_id: string
+          id?: string
+          played_at?: string
+          question_id?: string | null
+          round?: number
+        }
+        Update: {
+          game_id?: string
+          id?: string
+          played_at?: string
+          question_id?: string | null
+          round?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_clue_plays_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_clue_plays_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_hint_reveals: {
+        Row: {
+          game_id: string
+          question_id: string
+          revealed_at: string
+        }
+        Insert: {
+          game_id: string
+          question_id: string
+          revealed_at?: string
+        }
+        Update: {
+          game_id?: string
+          question_id?: string
+          revealed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_hint_reveals_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_hint_reveals_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_recaps: {
+        Row: {
+          created_at: string
+          game_id: string
+          recap: Json
+          share_token: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          game_id: string
+          recap: Json
+          share_token?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          game_id?: string
+          recap?: Json
+          share_token?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_recaps_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_spectator_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          game_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          game_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          game_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_spectator_links_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_spectator_links_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       games: {
         Row: {
+          all_play_closes_at: string | null
+          all_play_question_id: string | null
+          answer_mode: string
+          answer_revealed: boolean
+          answer_timer_seconds: number | null
           bank_id: string
+          board_categories: number
+          buzzer_lockout_ms: number
+          buzzers_armed_at: string | null
+          buzzers_armed_question_id: string | null
           completed_at: string | null
           created_at: string | null
           current_phase: string | null
+          current_question_id: string | null
           current_question_index: number
           current_question_started_at: string | null
+          current_round: number
+          daily_double_allow_negative: boolean
+          daily_double_count: number
+          daily_double_max_wager: number | null
+          daily_double_min_wager: number
+          daily_double_mode: string
           daily_double_positions: Json | null
+          daily_double_team_id: string | null
+          daily_double_wager: number | null
+          deduct_incorrect: boolean
+          double_jeopardy_bank_id: string | null
           final_jeopardy_question: Json | null
           game_type: string
           final_jeopardy_question_revealed: boolean
+          hint_penalty_percent: number
+          hint_revealed: boolean
           id: string
+          join_code: string | null
+          max_answer_attempts: number | null
           num_teams: number
+          point_values: number[]
+          pub_trivia_option_order: Json | null
           pub_trivia_question_order: Json | null
+          pub_trivia_scoring: Json | null
+          pub_trivia_teams: Json | null
           selected_questions: string[] | null
           started_at: string | null
           status: string | null
+          steal_enabled: boolean
+          steal_restarts_timer: boolean
           teacher_id: string
           team_names: Json | null
+          tie_breaker_question: Json | null
           timer_enabled: boolean | null
           timer_seconds: number | null
           updated_at: string | null
         }
         Insert: {
+          all_play_closes_at?: string | null
+          all_play_question_id?: string | null
+          answer_mode?: string
+          answer_revealed?: boolean
+          answer_timer_seconds?: number | null
           bank_id: string
+          board_categories?: number
+          buzzer_lockout_ms?: number
+          buzzers_armed_at?: string | null
+          buzzers_armed_question_id?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_phase?: string | null
+          current_question_id?: string | null
           current_question_index?: number
           current_question_started_at?: string | null
+          current_round?: number
+          daily_double_allow_negative?: boolean
+          daily_double_count?: number
+          daily_double_max_wager?: number | null
+          daily_double_min_wager?: number
+          daily_double_mode?: string
           daily_double_positions?: Json | null
+          daily_double_team_id?: string | null
+          daily_double_wager?: number | null
+          deduct_incorrect?: boolean
+          double_jeopardy_bank_id?: string | null
           final_jeopardy_question?: Json | null
           game_type?: string
           final_jeopardy_question_revealed?: boolean
+          hint_penalty_percent?: number
+          hint_revealed?: boolean
           id?: string
+          join_code?: string | null
+          max_answer_attempts?: number | null
           num_teams: number
+          point_values?: number[]
+          pub_trivia_option_order?: Json | null
           pub_trivia_question_order?: Json | null
+          pub_trivia_scoring?: Json | null
+          pub_trivia_teams?: Json | null
           selected_questions?: string[] | null
           started_at?: string | null
           status?: string | null
+          steal_enabled?: boolean
+          steal_restarts_timer?: boolean
           teacher_id: string
           team_names?: Json | null
+          tie_breaker_question?: Json | null
           timer_enabled?: boolean | null
           timer_seconds?: number | null
           updated_at?: string | null
         }
         Update: {
+          all_play_closes_at?: string | null
+          all_play_question_id?: string | null
+          answer_mode?: string
+          answer_revealed?: boolean
+          answer_timer_seconds?: number | null
           bank_id?: string
+          board_categories?: number
+          buzzer_lockout_ms?: number
+          buzzers_armed_at?: string | null
+          buzzers_armed_question_id?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_phase?: string | null
+          current_question_id?: string | null
           current_question_index?: number
           current_question_started_at?: string | null
+          current_round?: number
+          daily_double_allow_negative?: boolean
+          daily_double_count?: number
+          daily_double_max_wager?: number | null
+          daily_double_min_wager?: number
+          daily_double_mode?: string
           daily_double_positions?: Json | null
+          daily_double_team_id?: string | null
+          daily_double_wager?: number | null
+          deduct_incorrect?: boolean
+          double_jeopardy_bank_id?: string | null
           final_jeopardy_question?: Json | null
           game_type?: string
           final_jeopardy_question_revealed?: boolean
+          hint_penalty_percent?: number
+          hint_revealed?: boolean
           id?: string
+          join_code?: string | null
+          max_answer_attempts?: number | null
           num_teams?: number
+          point_values?: number[]
+          pub_trivia_option_order?: Json | null
           pub_trivia_question_order?: Json | null
+          pub_trivia_scoring?: Json | null
+          pub_trivia_teams?: Json | null
           selected_questions?: string[] | null
           started_at?: string | null
           status?: string | null
+          steal_enabled?: boolean
+          steal_restarts_timer?: boolean
           teacher_id?: string
           team_names?: Json | null
+          tie_breaker_question?: Json | null
           timer_enabled?: boolean | null
           timer_seconds?: number | null
           updated_at?: string | null
@@ -142,6 +497,34 @@ export type Database = {
             referencedRelation: "question_banks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "games_all_play_question_id_fkey"
+            columns: ["all_play_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_buzzers_armed_question_id_fkey"
+            columns: ["buzzers_armed_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_current_question_id_fkey"
+            columns: ["current_question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_daily_double_team_id_fkey"
+            columns: ["daily_double_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "games_teacher_id_fkey"
             columns: ["teacher_id"]
@@ -419,6 +802,7 @@ export type Database = {
           game_id: string
           id: string
           is_correct: boolean
+          pending_points: number | null
           player_id: string
           points_earned: number
           question_id: string
@@ -430,6 +814,7 @@ export type Database = {
           game_id: string
           id?: string
           is_correct?: boolean
+          pending_points?: number | null
           player_id: string
           points_earned?: number
           question_id: string
@@ -441,6 +826,7 @@ export type Database = {
           game_id?: string
           id?: string
           is_correct?: boolean
+          pending_points?: number | null
           player_id?: string
           points_earned?: number
           question_id?: string
@@ -471,49 +857,64 @@ export type Database = {
       }
       questions: {
         Row: {
+          accepted_answers: string[]
           answer_text: string
           bank_id: string | null
           category: string
           created_at: string | null
+          hint: string | null
           id: string
           image_alt_text: string | null
           image_size_mb: number | null
           image_url: string | null
           mc_options: Json | null
+          numeric_tolerance: number | null
+          ordering_items: Json | null
           point_value: number
           position: number
+          question_format: string
           question_text: string
           teacher_notes: string | null
           updated_at: string | null
         }
         Insert: {
+          accepted_answers?: string[]
           answer_text: string
           bank_id?: string | null
           category: string
           created_at?: string | null
+          hint?: string | null
           id?: string
           image_alt_text?: string | null
           image_size_mb?: number | null
           image_url?: string | null
           mc_options?: Json | null
+          numeric_tolerance?: number | null
+          ordering_items?: Json | null
           point_value: number
           position: number
+          question_format?: string
           question_text: string
           teacher_notes?: string | null
           updated_at?: string | null
         }
         Update: {
+          accepted_answers?: string[]
           answer_text?: string
           bank_id?: string | null
           category?: string
           created_at?: string | null
+          hint?: string | null
           id?: string
           image_alt_text?: string | null
           image_size_mb?: number | null
           image_url?: string | null
           mc_options?: Json | null
+          numeric_tolerance?: number | null
+          ordering_items?: Json | null
           point_value?: number
           position?: number
+          question_format?: string
           question_text?: string
           teacher_notes?: string | null
           updated_at?: string | null
@@ -582,8 +983,235 @@ export type Database = {
           },
         ]
       }
+      score_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          delta: number
+          game_id: string
+          id: string
+          note: string | null
+          question_id: string | null
+          reason: string
+          team_id: string
+          undone_at: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          delta: number
+          game_id: string
+          id?: string
+          note?: string | null
+          question_id?: string | null
+          reason: string
+          team_id: string
+          undone_at?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          delta?: number
+          game_id?: string
+          id?: string
+          note?: string | null
+          question_id?: string | null
+          reason?: string
+          team_id?: string
+          undone_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_events_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_events_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_events_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_device_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          game_id: string
+          id: string
+          new_device_id: string | null
+          new_display_name: string | null
+          previous_device_id: string | null
+          previous_display_name: string | null
+          team_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          game_id: string
+          id?: string
+          new_device_id?: string | null
+          new_display_name?: string | null
+          previous_device_id?: string | null
+          previous_display_name?: string | null
+          team_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          game_id?: string
+          id?: string
+          new_device_id?: string | null
+          new_display_name?: string | null
+          previous_device_id?: string | null
+          previous_display_name?: string | null
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_device_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_device_events_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_device_events_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          device_id: string
+          display_name: string
+          game_id: string
+          id: string
+          is_captain: boolean
+          joined_at: string
+          team_id: string
+        }
+        Insert: {
+          device_id: string
+          display_name: string
+          game_id: string
+          id?: string
+          is_captain?: boolean
+          joined_at?: string
+          team_id: string
+        }
+        Update: {
+          device_id?: string
+          display_name?: string
+          game_id?: string
+          id?: string
+          is_captain?: boolean
+          joined_at?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_rejoin_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          display_name: string
+          expires_at: string
+          game_id: string
+          team_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          display_name: string
+          expires_at: string
+          game_id: string
+          team_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          display_name?: string
+          expires_at?: string
+          game_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_rejoin_codes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_rejoin_codes_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_rejoin_codes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: true
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       teams: {
         Row: {
+          buzz_locked_until: string | null
           connection_status: string | null
           created_at: string | null
           device_id: string | null
@@ -594,12 +1222,14 @@ export type Database = {
           id: string
           last_seen: string | null
           player_icon: string | null
+          pub_trivia_team: string | null
           score: number | null
           team_name: string | null
           team_number: number
           updated_at: string | null
         }
         Insert: {
+          buzz_locked_until?: string | null
           connection_status?: string | null
           created_at?: string | null
           device_id?: string | null
@@ -610,12 +1240,14 @@ export type Database = {
           id?: string
           last_seen?: string | null
           player_icon?: string | null
+          pub_trivia_team?: string | null
           score?: number | null
           team_name?: string | null
           team_number: number
           updated_at?: string | null
         }
         Update: {
+          buzz_locked_until?: string | null
           connection_status?: string | null
           created_at?: string | null
           device_id?: string | null
@@ -626,6 +1258,7 @@ export type Database = {
           id?: string
           last_seen?: string | null
           player_icon?: string | null
+          pub_trivia_team?: string | null
           score?: number | null
           team_name?: string | null
           team_number?: number
@@ -641,6 +1274,99 @@ export type Database = {
           },
         ]
       }
+      tie_breaker_buzzes: {
+        Row: {
+          clue_number: number
+          dismissed_at: string | null
+          effective_at: string
+          game_id: string
+          server_received_at: string
+          team_id: string
+        }
+        Insert: {
+          clue_number: number
+          dismissed_at?: string | null
+          effective_at: string
+          game_id: string
+          server_received_at?: string
+          team_id: string
+        }
+        Update: {
+          clue_number?: number
+          dismissed_at?: string | null
+          effective_at?: string
+          game_id?: string
+          server_received_at?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tie_breaker_buzzes_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "tie_breakers"
+            referencedColumns: ["game_id"]
+          },
+          {
+            foreignKeyName: "tie_breaker_buzzes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tie_breakers: {
+        Row: {
+          buzzers_open_at: string | null
+          clue: Json
+          clue_number: number
+          decided_at: string | null
+          drawn_question_ids: string[]
+          game_id: string
+          started_at: string
+          team_ids: string[]
+          winner_team_id: string | null
+        }
+        Insert: {
+          buzzers_open_at?: string | null
+          clue: Json
+          clue_number?: number
+          decided_at?: string | null
+          drawn_question_ids?: string[]
+          game_id: string
+          started_at?: string
+          team_ids: string[]
+          winner_team_id?: string | null
+        }
+        Update: {
+          buzzers_open_at?: string | null
+          clue?: Json
+          clue_number?: number
+          decided_at?: string | null
+          drawn_question_ids?: string[]
+          game_id?: string
+          started_at?: string
+          team_ids?: string[]
+          winner_team_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tie_breakers_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tie_breakers_winner_team_id_fkey"
+            columns: ["winner_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wagers: {
         Row: {
           answer_text: string | null
@@ -757,7 +1483,12 @@ export type Database = {
         Returns: Json
       }
       expire_old_impersonation_sessions: { Args: never; Returns: number }
+      generate_game_join_code: { Args: never; Returns: string }
       get_active_impersonation: { Args: never; Returns: Json }
+      get_team_device_role: {
+        Args: { p_device_id: string; p_game_id?: string; p_team_id: string }
+        Returns: string
+      }
       increment_game_count_if_allowed: {
         Args: { p_user_id: string }
         Returns: boolean
@@ -768,13 +1499,43 @@ export type Database = {
         Returns: { answer_text: string; answer_count: number }[]
       }
       increment_pub_trivia_score: {
-        Args: { p_player_id: string; p_points_earned: number }
+        Args: {
+          p_player_id: string
+          p_points_earned: number
+          p_question_id?: string
+        }
         Returns: number
       }
       join_game_atomic: {
-        Args: { p_device_id: string; p_game_id: string }
+        Args: { p_device_id: string; p_display_name?: string; p_game_id: string }
+        Returns: Json
+      }
+      join_team: {
+        Args: {
+          p_device_id: string
+          p_display_name: string
+          p_game_id: string
+          p_max_members: number
+          p_team_id: string
+        }
         Returns: Json
       }
+      judge_clue_response: {
+        Args: {
+          p_game_id: string
+          p_is_correct: boolean
+          p_points: number
+          p_question_id: string
+          p_teacher_id: string
+          p_team_id: string
+        }
+        Returns: {
+          error_message: string
+          new_score: number
+          score_change: number
+          success: boolean
+        }[]
+      }
       log_admin_action: {
         Args: {
           p_action_type: string
@@ -788,6 +1549,44 @@ export type Database = {
         }
         Returns: string
       }
+      mark_stale_teams_disconnected: {
+        Args: { p_stale_seconds: number }
+        Returns: number
+      }
+      record_team_heartbeat: {
+        Args: { p_game_id: string; p_team_id: string }
+        Returns: string
+      }
+      redeem_rejoin_code: {
+        Args: { p_code: string; p_device_id: string; p_game_id: string }
+        Returns: Json
+      }
+      redo_score_event: {
+        Args: { p_game_id: string }
+        Returns: {
+          error_message: string
+          event_id: string
+          new_score: number
+          success: boolean
+          team_id: string
+        }[]
+      }
+      release_team_device: {
+        Args: {
+          p_code: string
+          p_game_id: string
+          p_team_id: string
+          p_ttl_minutes: number
+        }
+        Returns: Json
+      }
+      reset_team_scores: {
+        Args: { p_game_id: string }
+        Returns: {
+          error_message: string
+          success: boolean
+        }[]
+      }
       reveal_final_jeopardy_answer: {
         Args: {
           p_game_id: string
@@ -802,10 +1601,19 @@ export type Database = {
           success: boolean
         }[]
       }
+      score_pub_trivia_answer: {
+        Args: {
+          p_answer_id: string
+          p_is_correct: boolean
+          p_points_earned: number
+        }
+        Returns: boolean
+      }
       skip_final_jeopardy: {
         Args: { p_game_id: string; p_teacher_id: string }
         Returns: {
           error_message: string
+          phase: string
           success: boolean
         }[]
       }
@@ -873,8 +1681,29 @@ export type Database = {
         }
         Returns: Json
       }
+      transfer_team_captain: {
+        Args: { p_game_id: string; p_member_id: string; p_team_id: string }
+        Returns: Json
+      }
+      undo_score_event: {
+        Args: { p_game_id: string }
+        Returns: {
+          error_message: string
+          event_id: string
+          new_score: number
+          success: boolean
+          team_id: string
+        }[]
+      }
       update_team_score: {
-        Args: { p_game_id: string; p_score_change: number; p_team_id: string }
+        Args: {
+          p_game_id: string
+          p_note?: string
+          p_question_id?: string
+          p_reason?: string
+          p_score_change: number
+          p_team_id: string
+        }
         Returns: {
           error_message: string
           new_score: number
@@ -10,6 +10,8 @@ export interface Question {
   answer?: string | null; // Correct answer — only used teacher-side for reveal
   imageUrl?: string | null;
   imageAltText?: string | null;
+  // Hint the teacher can reveal; revealing it lowers the clue's value
+  hint?: string | null;
 }
 
 export interface Category {
@@ -23,6 +25,13 @@ export interface GameData {
   categories: Category[];
   timerEnabled?: boolean;
   timerSeconds?: number;
+  answerMode?: AnswerMode;
+  stealRules?: StealRules;
+  // Seconds the answering team has once at the head of the buzz queue; null when off
+  answerTimerSeconds?: number | null;
+  // Percentage a revealed hint takes off the clue's value
+  hintPenaltyPercent?: number;
+  dailyDoubleWagerRules?: DailyDoubleWagerRules;
   // Add other game properties as needed
 }
 
@@ -34,24 +43,408 @@ export interface Team {
   final_jeopardy_wager?: number | null;
   final_jeopardy_answer?: string | null;
   final_jeopardy_submitted_at?: string | null;
+  // Time of the team's last device heartbeat
+  lastSeen?: string | null;
   // Add other team properties as needed
 }
 
+// Team presence derived from teams.last_seen; see lib/utils/presence.ts
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+// A device playing for a team, as returned by GET /api/games/[gameId]/teams/[teamId]/members
+export interface TeamMember {
+  id: string;
+  displayName: string;
+  // Only the captain submits wagers and Final Jeopardy answers
+  isCaptain: boolean;
+  joinedAt: string;
+  // The member is the device that made the request
+  isYou: boolean;
+}
+
+// Teacher action on a team's captain device; keep in sync with chk_team_device_events_action
+export type TeamDeviceAction = 'released' | 'transferred' | 'reclaimed';
+
+// One row of the team_device_events audit trail as returned by
+// GET /api/games/[gameId]/teams/[teamId]/device
+export interface TeamDeviceEvent {
+  id: string;
+  action: TeamDeviceAction;
+  previousDisplayName: string | null;
+  newDisplayName: string | null;
+  createdAt: string;
+}
+
+// One-time code a student enters on a new device to reclaim a released team
+export interface RejoinCode {
+  code: string;
+  expiresAt: string;
+}
+
 export interface BuzzEntry {
   teamId: string;
+  // Server-decided effective buzz time (epoch ms); see lib/utils/buzzTiming.ts
   timestamp: number;
 }
 
+// Payload of the server-sent 'buzz-queue-updated' event on buzzer:${gameId}.
+// questionId is null when the teacher cleared every buzz in the game.
+export interface BuzzQueueUpdate {
+  questionId: string | null;
+  queue: BuzzEntry[];
+  // Server time the queue was read; clients drop updates older than the last applied one
+  revision: number;
+}
+
+// How teams answer regular clues; mirrors chk_games_answer_mode.
+// 'all_play': every team types an answer and the teacher marks each one.
+export type AnswerMode = 'buzzer' | 'all_play';
+
+// What happens after an incorrect buzzer answer; stored on the games row
+// (steal_enabled, deduct_incorrect, steal_restarts_timer, max_answer_attempts)
+export interface StealRules {
+  // The next team in the buzz queue may answer
+  allowSteals: boolean;
+  // Incorrect answers lose the clue's value
+  deductIncorrect: boolean;
+  // The clue timer restarts for each stealing team
+  restartTimerOnSteal: boolean;
+  // Answers allowed per clue including the first; null for no limit
+  maxAttempts: number | null;
+}
+
+// Steal progress on the open clue, set by the 'steal-turn' event
+export interface StealTurn {
+  questionId: string;
+  // Teams that have answered incorrectly, in order; they cannot answer again
+  answeredTeamIds: string[];
+  // Team now answering; null while waiting for a steal buzz or once closed
+  teamId: string | null;
+  // No further answers are allowed on the clue
+  closed: boolean;
+}
+
+// Countdown for the team at the head of the buzz queue, set by the 'answer-clock' event
+export interface AnswerClock {
+  questionId: string;
+  // Team that must answer before the clock runs out
+  teamId: string;
+  seconds: number;
+}
+
+// Clue collecting all-play responses, set by the 'all-play-started' event
+export interface AllPlayState {
+  questionId: string;
+  // Submission deadline (ISO 8601); null when the game has no timer
+  closesAt: string | null;
+  // Teams that have submitted; answers are only sent to the teacher
+  submittedTeamIds: string[];
+}
+
+// One team's response as returned by GET /api/games/[gameId]/all-play
+export interface AllPlayResponse {
+  teamId: string;
+  answer: string;
+  submittedAt: string;
+  // null until the teacher marks it
+  isCorrect: boolean | null;
+  // Matcher hint against the clue's answer and accepted alternates
+  match: AnswerMatch;
+}
+
+// Verdict of the server-side answer matcher (lib/utils/answerMatcher.ts).
+// Only a suggestion; the teacher still confirms every mark.
+export type AnswerMatchVerdict = 'likely_correct' | 'likely_incorrect';
+
+export interface AnswerMatch {
+  verdict: AnswerMatchVerdict;
+  // Accepted answer the submission matched; null when likely incorrect
+  matchedAnswer: string | null;
+  // 'exact' after normalization, 'numeric' for equal values, 'typo' within tolerance
+  reason: 'exact' | 'numeric' | 'typo' | null;
+}
+
+// Live Jeopardy state persisted on the games row so the board survives a refresh.
+// Written by the board via PATCH /api/games/[gameId]/state.
+export interface GameLiveState {
+  currentQuestionId: string | null;
+  answerRevealed: boolean;
+  // The open clue's hint is showing; it is worth less to whoever answers
+  hintRevealed: boolean;
+  // Set only once a Daily Double wager has been locked in
+  dailyDouble: { teamId: string; wager: number } | null;
+}
+
+// Response of GET /api/games/[gameId]/state, used to rehydrate the game store
+export interface GameStateSnapshot extends GameLiveState {
+  currentPhase: GamePhase;
+  buzzersArmed: boolean;
+  // Queue for currentQuestionId; null when no clue is open
+  buzzQueue: BuzzQueueUpdate | null;
+  finalJeopardyQuestionRevealed: boolean;
+  // Set when currentQuestionId is being answered in all-play mode
+  allPlay: AllPlayState | null;
+}
+
+// A board cell as spectators see it: no clue text, answer or Daily Double flag
+export interface SpectatorQuestion {
+  id: string;
+  value: number;
+  isUsed: boolean;
+}
+
+export interface SpectatorCategory {
+  id: string;
+  name: string;
+  questions: SpectatorQuestion[];
+}
+
+// The open clue on a spectator screen; text appears once the teacher has read
+// it and the answer once it is revealed
+export interface SpectatorClue {
+  questionId: string;
+  categoryName: string;
+  value: number;
+  isDailyDouble: boolean;
+  text: string | null;
+  imageUrl: string | null;
+  imageAltText: string | null;
+  answer: string | null;
+  hint: string | null;
+}
+
+export interface SpectatorTeam {
+  id: string;
+  name: string;
+  score: number;
+}
+
+// A team's Final Jeopardy result once the teacher has revealed it
+export interface SpectatorFinalJeopardyReveal {
+  teamId: string;
+  wager: number;
+  answer: string | null;
+  isCorrect: boolean | null;
+}
+
+export interface SpectatorFinalJeopardy {
+  category: string;
+  // Null until the teacher reveals the question
+  question: string | null;
+  // Null until the first team's answer is revealed
+  answer: string | null;
+  reveals: SpectatorFinalJeopardyReveal[];
+}
+
+// Response of GET /api/games/spectate/[token]
+export interface SpectatorSnapshot {
+  gameId: string;
+  title: string;
+  status: string | null;
+  currentRound: GameRound;
+  currentPhase: GamePhase;
+  categories: SpectatorCategory[];
+  teams: SpectatorTeam[];
+  currentClue: SpectatorClue | null;
+  finalJeopardy: SpectatorFinalJeopardy | null;
+}
+
+// Why a score changed; keep in sync with chk_score_events_reason
+export type ScoreEventReason =
+  | 'correct'
+  | 'incorrect'
+  | 'daily_double_correct'
+  | 'daily_double_incorrect'
+  | 'final_jeopardy_correct'
+  | 'final_jeopardy_incorrect'
+  | 'all_play_correct'
+  | 'pub_trivia_answer'
+  | 'manual_adjustment'
+  | 'reset';
+
+// One row of the score_events ledger as returned by GET /api/games/[gameId]/scores
+export interface ScoreEvent {
+  id: string;
+  teamId: string;
+  questionId: string | null;
+  delta: number;
+  reason: ScoreEventReason;
+  note: string | null;
+  createdAt: string;
+  // Set while the change is undone
+  undoneAt: string | null;
+}
+
+// One team's result on a clue in a game recap
+export interface RecapJudgment {
+  teamId: string;
+  isCorrect: boolean;
+  // Points won or lost
+  delta: number;
+  // Daily Double wager; null for other clues
+  wager: number | null;
+}
+
+// A clue in the order it was played, with every judgment made on it
+export interface RecapClue {
+  questionId: string;
+  // null for Quick Fire games
+  round: GameRound | null;
+  categoryName: string;
+  value: number | null;
+  question: string;
+  answer: string;
+  isDailyDouble: boolean;
+  // The hint was revealed, so judgments were scored at the reduced value.
+  // Missing from recaps saved before hints existed.
+  hintUsed?: boolean;
+  playedAt: string;
+  judgments: RecapJudgment[];
+}
+
+// A manual score adjustment, with the teacher's reason
+export interface RecapAdjustment {
+  teamId: string;
+  delta: number;
+  note: string | null;
+  at: string;
+}
+
+export interface RecapFinalJeopardyResult {
+  teamId: string;
+  wager: number;
+  answer: string | null;
+  isCorrect: boolean | null;
+}
+
+export interface RecapFinalJeopardy {
+  category: string;
+  question: string;
+  answer: string;
+  results: RecapFinalJeopardyResult[];
+}
+
+export interface RecapTeam {
+  id: string;
+  name: string;
+  finalScore: number;
+}
+
+// Every team's score after one score change
+export interface RecapScorePoint {
+  at: string;
+  scores: Record<string, number>;
+}
+
+// The tie-breaker clue that settled a tie for first
+export interface RecapTieBreaker {
+  category: string;
+  question: string;
+  answer: string;
+  winnerTeamId: string;
+}
+
+// Persisted in game_recaps.recap; built by lib/api/gameRecap
+export interface GameRecap {
+  gameId: string;
+  title: string;
+  gameType: string;
+  completedAt: string | null;
+  generatedAt: string;
+  // Highest final score first
+  teams: RecapTeam[];
+  clues: RecapClue[];
+  adjustments: RecapAdjustment[];
+  finalJeopardy: RecapFinalJeopardy | null;
+  // Missing from recaps saved before tie-breakers existed
+  tieBreaker?: RecapTieBreaker | null;
+  // Starts with every team at 0
+  scoreTimeline: RecapScorePoint[];
+}
+
+// Board being played: 1 for the first round, 2 for Double Jeopardy
+export type GameRound = 1 | 2;
+
+// One Daily Double cell in games.daily_double_positions; entries without
+// round belong to round 1
+export interface DailyDoublePosition {
+  round?: GameRound;
+  category: number;
+  position: number;
+}
+
+// How a game's Daily Double cells are placed: fixed when the game is created
+// or edited, picked at random when it starts (uniformly or favoring the
+// higher-value rows), or not at all
+export type DailyDoubleMode = 'manual' | 'random' | 'weighted' | 'none';
+
+// A game's Daily Double placement; count is for the first board
+export interface DailyDoubleSettings {
+  mode: DailyDoubleMode;
+  count: number;
+}
+
+// A game's Daily Double wager rules. A team may wager up to its score or
+// maxWager, whichever is larger; a null maxWager uses the round's highest
+// clue value instead, as on the TV show
+export interface DailyDoubleWagerRules {
+  minWager: number;
+  maxWager: number | null;
+  // When false, a team below zero plays the clue for its value
+  allowNegativeScores: boolean;
+}
+
+// Wagers a team may make on one Daily Double, inclusive
+export interface DailyDoubleWagerRange {
+  min: number;
+  max: number;
+}
+
+// Board dimensions chosen at game creation: the number of categories
+// (columns) and the point ladder, one value per row from top to bottom
+export interface BoardLayout {
+  categories: number;
+  pointValues: number[];
+}
+
 // Final Jeopardy types
+// 'regular' and 'double_jeopardy' are regular board play in rounds 1 and 2
 export type GamePhase =
   | 'regular'
+  | 'double_jeopardy'
   | 'final_jeopardy_wager'
-  | 'final_jeopardy_reveal';
+  | 'final_jeopardy_reveal'
+  // Sudden-death clue between the teams tied for first once the game is over
+  | 'tie_breaker';
 
 export interface FinalJeopardyQuestion {
   category: string;
   question: string;
   answer: string;
+  // Alternate answers the matcher also treats as correct
+  accepted_answers?: string[];
+}
+
+// Tie-breaker clue in games.tie_breaker_question and tie_breakers.clue
+export type TieBreakerQuestion = FinalJeopardyQuestion;
+
+// Live tie-breaker as returned by GET /api/games/[gameId]/tie-breaker and sent
+// as 'tie-breaker-updated' on buzzer:${gameId}
+export interface TieBreakerState {
+  // Teams tied for first; only they may buzz
+  teamIds: string[];
+  // Clue being played, counting from 1
+  clueNumber: number;
+  category: string;
+  question: string;
+  // Sent to the owning teacher only; null for everyone else
+  answer: string | null;
+  buzzersOpen: boolean;
+  // Teams still in the running for the clue, in server-decided order
+  queue: BuzzEntry[];
+  // Teams that answered the clue incorrectly and cannot buzz again on it
+  dismissedTeamIds: string[];
+  winnerTeamId: string | null;
 }
 
 export interface FinalJeopardyTeamStatus {
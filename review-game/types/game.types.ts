@@ -10,6 +10,7 @@ export interface GameListItem {
   bank_title: string;
   bank_subject: string;
   status: string | null;
+  join_code: string | null;
   num_teams: number;
   created_at: string | null;
   started_at: string | null;
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import {
   calcPointsEarned,
+  calcStreakBonus,
+  DEFAULT_PUB_TRIVIA_SCORING,
   PUB_TRIVIA_POINT_BRACKETS,
   OPTION_ELIMINATION_THRESHOLDS,
 } from './pub-trivia';
@@ -53,6 +55,49 @@ describe('calcPointsEarned', () => {
   });
 });
 
+describe('calcPointsEarned with a scoring profile', () => {
+  it('decays linearly from maxPoints to the floor', () => {
+    const linear = { ...DEFAULT_PUB_TRIVIA_SCORING, mode: 'linear' as const, maxPoints: 1000, minPoints: 500 };
+    expect(calcPointsEarned(0, linear)).toBe(1000);
+    expect(calcPointsEarned(0.5, linear)).toBe(750);
+    expect(calcPointsEarned(1, linear)).toBe(500);
+  });
+
+  it('awards maxPoints at any time in flat mode', () => {
+    const flat = { ...DEFAULT_PUB_TRIVIA_SCORING, mode: 'flat' as const, maxPoints: 100 };
+    expect(calcPointsEarned(0, flat)).toBe(100);
+    expect(calcPointsEarned(0.99, flat)).toBe(100);
+  });
+
+  it('uses edited brackets and raises them to the floor', () => {
+    const brackets = {
+      ...DEFAULT_PUB_TRIVIA_SCORING,
+      brackets: [{ maxPct: 0.5, points: 500 }, { maxPct: 1, points: 100 }],
+      minPoints: 200,
+    };
+    expect(calcPointsEarned(0.3, brackets)).toBe(500);
+    expect(calcPointsEarned(0.8, brackets)).toBe(200);
+  });
+});
+
+describe('calcStreakBonus', () => {
+  it('gives no bonus by default', () => {
+    expect(calcStreakBonus(1000, 5)).toBe(0);
+  });
+
+  it('multiplies points once the streak is long enough', () => {
+    const multiplier = { ...DEFAULT_PUB_TRIVIA_SCORING, streakBonusMode: 'multiplier' as const, streakMinLength: 3, streakBonusValue: 50 };
+    expect(calcStreakBonus(800, 2, multiplier)).toBe(0);
+    expect(calcStreakBonus(800, 3, multiplier)).toBe(400);
+  });
+
+  it('adds flat bonus points once the streak is long enough', () => {
+    const flat = { ...DEFAULT_PUB_TRIVIA_SCORING, streakBonusMode: 'flat' as const, streakMinLength: 2, streakBonusValue: 200 };
+    expect(calcStreakBonus(400, 1, flat)).toBe(0);
+    expect(calcStreakBonus(400, 4, flat)).toBe(200);
+  });
+});
+
 describe('PUB_TRIVIA_POINT_BRACKETS', () => {
   it('brackets are ordered by maxPct ascending', () => {
     for (let i = 1; i < PUB_TRIVIA_POINT_BRACKETS.length; i++) {
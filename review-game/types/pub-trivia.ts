@@ -2,10 +2,16 @@
  * Pub Trivia game mode types.
  *
  * Players are individuals (backed by the teams table with team_number = player slot).
- * Questions are presented in random order with 4 multiple-choice options.
- * Scoring is time-based with declining point brackets and progressive wrong-answer elimination.
+ * Questions are presented in random order, each in its question format: 4-option multiple
+ * choice, true/false, a numeric answer (closest wins) or putting items in order.
+ * Scoring is time-based with declining point brackets and progressive wrong-answer elimination
+ * by default; each game may choose its own scoring profile (games.pub_trivia_scoring).
+ * A game may also be played in named teams (games.pub_trivia_teams): members still answer
+ * individually and each team's round score aggregates its members' points.
  */
 
+import type { QuestionFormat } from './question-bank.types';
+
 // ─── Question & Answer Types ────────────────────────────────────────────────
 
 /** A question as presented during a pub trivia round, with shuffled options. */
@@ -13,7 +19,11 @@ export interface PubTriviaQuestion {
   id: string;
   questionText: string;
   category: string;
-  /** All 4 options, shuffled. Index of correctAnswer is randomised at game-start. */
+  format: QuestionFormat;
+  /**
+   * Multiple choice: all 4 options, shuffled when the round starts. True/false: True and False.
+   * Numeric: empty. Ordering: the items to put in order, shuffled.
+   */
   options: string[];
   /** The correct answer string (used server-side; not sent to players until round ends). */
   correctAnswer: string;
@@ -22,6 +32,16 @@ export interface PubTriviaQuestion {
 /** Question as sent to players — correct answer omitted. */
 export type PubTriviaQuestionForPlayer = Omit<PubTriviaQuestion, 'correctAnswer'>;
 
+/**
+ * A question's options as shuffled when its round started, stored per question
+ * in games.pub_trivia_option_order so a reloaded page shows the same positions.
+ */
+export interface PubTriviaOptionOrder {
+  options: string[];
+  /** Wrong option indices in the order they are eliminated; empty when elimination is off. */
+  eliminationOrder: number[];
+}
+
 // ─── Scoring ─────────────────────────────────────────────────────────────────
 
 /** Point value awarded based on elapsed percentage of the question timer. */
@@ -35,15 +55,122 @@ export const PUB_TRIVIA_POINT_BRACKETS = [
 /** At these elapsed-percentage thresholds, one wrong option is eliminated. */
 export const OPTION_ELIMINATION_THRESHOLDS = [0.4, 0.7] as const;
 
+/**
+ * How a correct answer's points depend on answer time:
+ * - 'brackets': the first bracket whose maxPct covers the elapsed fraction
+ * - 'linear': falls steadily from maxPoints to minPoints over the timer (Kahoot-style)
+ * - 'flat': maxPoints however late the answer
+ */
+export type PubTriviaScoringMode = 'brackets' | 'linear' | 'flat';
+
+/**
+ * Extra points for consecutive correct answers once a streak is long enough:
+ * - 'none': no bonus
+ * - 'multiplier': the answer's points are raised by streakBonusValue percent
+ * - 'flat': streakBonusValue points are added to the answer
+ */
+export type PubTriviaStreakBonusMode = 'none' | 'multiplier' | 'flat';
+
+export interface PubTriviaPointBracket {
+  /** Upper bound of the bracket as a fraction of the timer (0–1). */
+  maxPct: number;
+  points: number;
+}
+
+/** A game's Quick Fire scoring, stored in games.pub_trivia_scoring. */
+export interface PubTriviaScoringProfile {
+  mode: PubTriviaScoringMode;
+  /** Points for an instant answer ('linear') or any correct answer ('flat'). */
+  maxPoints: number;
+  /** Bracket table for 'brackets' mode, ascending by maxPct; the last ends at 1. */
+  brackets: PubTriviaPointBracket[];
+  /** Partial-credit floor: the least any correct answer earns. */
+  minPoints: number;
+  /** Whether wrong options are eliminated at OPTION_ELIMINATION_THRESHOLDS. */
+  eliminationEnabled: boolean;
+  streakBonusMode: PubTriviaStreakBonusMode;
+  /** Correct answers in a row, counting this one, before the bonus applies. */
+  streakMinLength: number;
+  /** Percent extra ('multiplier') or points added ('flat'). */
+  streakBonusValue: number;
+}
+
+/** Scoring of games created before scoring profiles existed. */
+export const DEFAULT_PUB_TRIVIA_SCORING: PubTriviaScoringProfile = {
+  mode: 'brackets',
+  maxPoints: PUB_TRIVIA_POINT_BRACKETS[0].points,
+  brackets: PUB_TRIVIA_POINT_BRACKETS.map((bracket) => ({ ...bracket })),
+  minPoints: 0,
+  eliminationEnabled: true,
+  streakBonusMode: 'none',
+  streakMinLength: 3,
+  streakBonusValue: 0,
+};
+
 /**
  * Returns the points earned for a correct answer given elapsed fraction (0–1).
  * Returns 0 for wrong answers (caller must pass isCorrect check first).
  */
-export function calcPointsEarned(elapsedFraction: number): number {
-  for (const bracket of PUB_TRIVIA_POINT_BRACKETS) {
-    if (elapsedFraction <= bracket.maxPct) return bracket.points;
+export function calcPointsEarned(
+  elapsedFraction: number,
+  profile: PubTriviaScoringProfile = DEFAULT_PUB_TRIVIA_SCORING,
+): number {
+  const elapsed = Math.min(1, Math.max(0, elapsedFraction));
+  let points: number;
+
+  if (profile.mode === 'flat') {
+    points = profile.maxPoints;
+  } else if (profile.mode === 'linear') {
+    points = Math.round(profile.maxPoints - (profile.maxPoints - profile.minPoints) * elapsed);
+  } else {
+    const bracket = profile.brackets.find((b) => elapsed <= b.maxPct);
+    points = (bracket ?? profile.brackets[profile.brackets.length - 1])?.points ?? 0;
   }
-  return 400;
+
+  return Math.max(points, profile.minPoints);
+}
+
+/**
+ * Returns the streak bonus on top of a correct answer's points.
+ * @param pointsEarned - Points from calcPointsEarned for the answer
+ * @param streak - Correct answers in a row, including this one
+ */
+export function calcStreakBonus(
+  pointsEarned: number,
+  streak: number,
+  profile: PubTriviaScoringProfile = DEFAULT_PUB_TRIVIA_SCORING,
+): number {
+  if (profile.streakBonusMode === 'none' || streak < profile.streakMinLength) return 0;
+  if (profile.streakBonusMode === 'flat') return profile.streakBonusValue;
+  return Math.round((pointsEarned * profile.streakBonusValue) / 100);
+}
+
+// ─── Team Play ───────────────────────────────────────────────────────────────
+
+/**
+ * How a team's round score is built from its members' points:
+ * - 'average': mean over the members who answered the round, so team size and
+ *   late joiners do not change it
+ * - 'best': the highest-scoring member's points
+ */
+export type PubTriviaTeamAggregate = 'average' | 'best';
+
+/** Team play settings (games.pub_trivia_teams); null for individual play. */
+export interface PubTriviaTeamPlay {
+  /** Teams players choose from when joining, in the order the teacher listed them. */
+  names: string[];
+  aggregate: PubTriviaTeamAggregate;
+}
+
+/** A team's standing after a round. */
+export interface PubTriviaTeamResult {
+  teamName: string;
+  /** Members playing for the team. */
+  memberCount: number;
+  /** The team's aggregate for the round just ended. */
+  roundPoints: number;
+  /** Sum of the team's round scores so far. */
+  score: number;
 }
 
 // ─── Game State ──────────────────────────────────────────────────────────────
@@ -51,7 +178,7 @@ export function calcPointsEarned(elapsedFraction: number): number {
 export type PubTriviaPhase =
   | 'setup'          // players joining
   | 'question'       // question + options visible, timer running
-  | 'results'        // round ended, correct answer + leaderboard shown
+  | 'results'        // between rounds: last round's correct answer + leaderboard (none before the first question)
   | 'completed';     // all questions done, final leaderboard
 
 export interface PubTriviaPlayer {
@@ -60,6 +187,8 @@ export interface PubTriviaPlayer {
   playerIcon: string | null;
   score: number;
   connectionStatus: string | null;
+  /** Team the player joined in team play; null or absent for individual play. */
+  teamName?: string | null;
 }
 
 export interface PubTriviaRoundResult {
@@ -69,6 +198,8 @@ export interface PubTriviaRoundResult {
   answerText: string;
   isCorrect: boolean;
   pointsEarned: number;
+  /** Correct answers in a row after this round; 0 after a wrong answer. */
+  streak: number;
 }
 
 export interface PubTriviaGameState {
@@ -93,6 +224,19 @@ export interface PubTriviaGameState {
   lastRoundCorrectAnswer: string | null;
   /** Whether the current player has submitted an answer this round. */
   hasAnsweredCurrentQuestion: boolean;
+  /** The requesting player's answer to the active or last question; null for the teacher. */
+  playerAnswer: { answerText: string; isCorrect: boolean; pointsEarned: number } | null;
+  /** Position of the correct answer in the active question (-1 when no option is); only sent to the teacher. */
+  correctAnswerIndex: number | null;
+  /** The active question's correct answer; only sent to the teacher. */
+  correctAnswer: string | null;
+  /** Whether questions remain after the current one. */
+  hasNextQuestion: boolean;
+  scoring: PubTriviaScoringProfile;
+  /** Team play settings; null for individual play. */
+  teamPlay: PubTriviaTeamPlay | null;
+  /** Team standings after the rounds ended so far; null for individual play. */
+  teamResults: PubTriviaTeamResult[] | null;
 }
 
 // ─── Broadcast Events ────────────────────────────────────────────────────────
@@ -112,6 +256,8 @@ export interface PtQuestionStartedEvent {
     question: PubTriviaQuestionForPlayer;
     durationMs: number;
     startedAt: number;
+    /** The game's scoring, so players can show the points still available. */
+    scoring: PubTriviaScoringProfile;
   };
 }
 
@@ -144,6 +290,8 @@ export interface PtQuestionEndedEvent {
   payload: {
     correctAnswer: string;
     results: PubTriviaRoundResult[];
+    /** Team standings after the round, best first; null for individual play. */
+    teamResults: PubTriviaTeamResult[] | null;
   };
 }
 
@@ -151,11 +299,28 @@ export interface PtGameEndedEvent {
   type: 'pt_game_ended';
   payload: {
     finalRankings: PubTriviaPlayer[];
+    /** Final team standings, best first; null for individual play. */
+    finalTeamRankings: PubTriviaTeamResult[] | null;
   };
 }
 
 // ─── API Payloads ─────────────────────────────────────────────────────────────
 
+/** Returned by the question start route to the teacher, who broadcasts it without correctAnswerIndex. */
+export interface StartQuestionResponse {
+  questionIndex: number;
+  question: PubTriviaQuestionForPlayer;
+  startedAt: number;
+  /** Position of the correct option; -1 for numeric and ordering questions. */
+  correctAnswerIndex: number;
+  /** The correct answer as revealed when the round ends. */
+  correctAnswer: string;
+  /** Wrong option indices in the order the teacher's timer eliminates them. */
+  eliminationOrder: number[];
+  durationMs: number;
+  scoring: PubTriviaScoringProfile;
+}
+
 export interface StartPubTriviaRequest {
   questionDurationMs?: number;
 }
@@ -167,6 +332,7 @@ export interface StartPubTriviaResponse {
 
 export interface SubmitAnswerRequest {
   playerId: string;
+  /** The chosen option, the number typed, or the items joined with ORDERING_SEPARATOR. */
   answerText: string;
   deviceId: string;
   /** ID of the question the player is answering; server rejects if it no longer matches the active question. */
@@ -175,12 +341,20 @@ export interface SubmitAnswerRequest {
 
 export interface SubmitAnswerResponse {
   isCorrect: boolean;
+  /** Includes streakBonus. */
   pointsEarned: number;
   totalScore: number;
+  /** Correct answers in a row, counting this one; 0 after a wrong answer. */
+  streak: number;
+  streakBonus: number;
+  /** Numeric answers are ranked when the round ends; until then isCorrect is false and pointsEarned 0. */
+  scoredAtRoundEnd: boolean;
 }
 
 export interface QuestionEndResponse {
   correctAnswer: string;
   results: PubTriviaRoundResult[];
+  /** Team standings after the round, best first; null for individual play. */
+  teamResults: PubTriviaTeamResult[] | null;
   hasNextQuestion: boolean;
 }
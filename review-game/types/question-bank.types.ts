@@ -19,6 +19,12 @@ export type QuestionBank = Tables<'question_banks'>;
  */
 export type Question = Tables<'questions'>;
 
+/**
+ * How Quick Fire asks a question (questions.question_format).
+ * Jeopardy plays every format from question_text and answer_text.
+ */
+export type QuestionFormat = 'multiple_choice' | 'true_false' | 'numeric' | 'ordering';
+
 /**
  * Difficulty level for question banks
  */
@@ -50,11 +56,21 @@ export interface QuestionFormData {
   point_value: number;
   question_text: string;
   answer_text: string;
+  /** Hint the teacher can reveal during a game; costs part of the clue's value */
+  hint?: string | null;
   teacher_notes?: string | null;
   image_url?: string | null;
   image_alt_text?: string | null;
   /** Array of exactly 3 wrong answer strings for pub trivia MC mode. null = Jeopardy-only. */
   mc_options?: string[] | null;
+  /** Alternate answers the answer matcher also accepts as correct */
+  accepted_answers?: string[];
+  /** How Quick Fire asks the question; defaults to multiple_choice */
+  question_format?: QuestionFormat;
+  /** Numeric questions: largest distance from the answer that still scores */
+  numeric_tolerance?: number | null;
+  /** Ordering questions: items in their correct order */
+  ordering_items?: string[] | null;
 }
 
 /**